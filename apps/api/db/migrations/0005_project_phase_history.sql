@@ -0,0 +1,39 @@
+CREATE TABLE project_phase_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  phase project_phase NOT NULL,
+  entered_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  entered_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  exited_at TIMESTAMPTZ,
+  exited_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  CHECK (exited_at IS NULL OR exited_at >= entered_at)
+);
+
+CREATE INDEX idx_project_phase_history_project_entered
+  ON project_phase_history(project_id, entered_at);
+
+CREATE INDEX idx_project_phase_history_phase
+  ON project_phase_history(phase)
+  WHERE exited_at IS NOT NULL;
+
+CREATE UNIQUE INDEX idx_project_phase_history_open
+  ON project_phase_history(project_id)
+  WHERE exited_at IS NULL;
+
+-- Backfill an open entry for the current phase of existing projects, using the most recent
+-- recorded phase change (if any) as the entry timestamp.
+INSERT INTO project_phase_history (project_id, phase, entered_at, entered_by)
+SELECT
+  p.id,
+  p.current_phase,
+  COALESCE(last_change.created_at, p.created_at),
+  COALESCE(last_change.user_id, p.created_by)
+FROM projects p
+LEFT JOIN LATERAL (
+  SELECT al.created_at, al.user_id
+  FROM activity_log al
+  WHERE al.project_id = p.id
+    AND al.action = 'project_phase_changed'
+  ORDER BY al.created_at DESC
+  LIMIT 1
+) last_change ON TRUE;
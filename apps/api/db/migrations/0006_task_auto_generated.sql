@@ -0,0 +1,25 @@
+ALTER TABLE tasks
+  ADD COLUMN auto_generated BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- Flag tasks that were created from the built-in phase templates before this column existed.
+UPDATE tasks t
+SET auto_generated = TRUE
+FROM (
+  VALUES
+    ('client_acquisition'::project_phase, 'Confirm client requirements'),
+    ('client_acquisition'::project_phase, 'Collect intake documents'),
+    ('strategy_planning'::project_phase, 'Create project strategy'),
+    ('strategy_planning'::project_phase, 'Draft creative brief'),
+    ('strategy_planning'::project_phase, 'Approve production scope'),
+    ('production'::project_phase, 'Produce core assets'),
+    ('production'::project_phase, 'Internal quality check'),
+    ('production'::project_phase, 'Prepare draft delivery'),
+    ('post_production'::project_phase, 'Collect feedback'),
+    ('post_production'::project_phase, 'Apply final revisions'),
+    ('post_production'::project_phase, 'Finalize master files'),
+    ('delivery'::project_phase, 'Package deliverables'),
+    ('delivery'::project_phase, 'Deliver to client'),
+    ('delivery'::project_phase, 'Close project handoff')
+) AS template(phase, title)
+WHERE t.phase = template.phase
+  AND LOWER(TRIM(t.title)) = LOWER(template.title);
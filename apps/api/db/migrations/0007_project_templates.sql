@@ -0,0 +1,35 @@
+CREATE TABLE project_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name VARCHAR(255) NOT NULL,
+  description TEXT,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  deleted_at TIMESTAMPTZ
+);
+
+CREATE UNIQUE INDEX idx_project_templates_name_active
+  ON project_templates(LOWER(name))
+  WHERE deleted_at IS NULL;
+
+CREATE TABLE project_template_tasks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  template_id UUID NOT NULL REFERENCES project_templates(id) ON DELETE CASCADE,
+  phase project_phase NOT NULL,
+  title VARCHAR(255) NOT NULL,
+  description TEXT,
+  priority priority_level NOT NULL DEFAULT 'medium',
+  due_offset_days INTEGER CHECK (due_offset_days IS NULL OR due_offset_days >= 0),
+  default_assignee_role VARCHAR(50)
+    CHECK (default_assignee_role IS NULL OR default_assignee_role IN ('owner', 'manager', 'member', 'viewer')),
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_project_template_tasks_template_phase
+  ON project_template_tasks(template_id, phase, sort_order);
+
+ALTER TABLE projects
+  ADD COLUMN template_id UUID REFERENCES project_templates(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_projects_template_id ON projects(template_id);
@@ -0,0 +1,7 @@
+-- Estimated working duration per task, used by the project schedule (critical path) endpoint.
+
+ALTER TABLE tasks
+ADD COLUMN IF NOT EXISTS estimated_days INTEGER;
+
+ALTER TABLE tasks
+ADD CONSTRAINT tasks_estimated_days_check CHECK (estimated_days IS NULL OR estimated_days BETWEEN 0 AND 3650);
@@ -0,0 +1,21 @@
+-- Version chains for files: every version of one logical document shares a document_id.
+
+ALTER TABLE files
+ADD COLUMN IF NOT EXISTS document_id UUID;
+
+UPDATE files
+SET document_id = id
+WHERE document_id IS NULL;
+
+ALTER TABLE files
+ALTER COLUMN document_id SET NOT NULL;
+
+ALTER TABLE files
+ADD COLUMN IF NOT EXISTS restored_from_version INTEGER;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_files_document_version
+  ON files(document_id, version);
+
+CREATE INDEX IF NOT EXISTS idx_files_project_document
+  ON files(project_id, document_id, version DESC)
+  WHERE deleted_at IS NULL;
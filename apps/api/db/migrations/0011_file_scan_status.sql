@@ -0,0 +1,19 @@
+-- Scan lifecycle for stored uploads. Files that existed before scanning was introduced stay available.
+
+CREATE TYPE file_status AS ENUM ('pending_scan', 'available', 'rejected');
+
+ALTER TABLE files
+ADD COLUMN IF NOT EXISTS status file_status NOT NULL DEFAULT 'available';
+
+ALTER TABLE files
+ALTER COLUMN status SET DEFAULT 'pending_scan';
+
+ALTER TABLE files
+ADD COLUMN IF NOT EXISTS scanned_at TIMESTAMPTZ;
+
+ALTER TABLE files
+ADD COLUMN IF NOT EXISTS scan_result VARCHAR(255);
+
+CREATE INDEX IF NOT EXISTS idx_files_pending_scan
+  ON files(created_at)
+  WHERE status = 'pending_scan' AND deleted_at IS NULL;
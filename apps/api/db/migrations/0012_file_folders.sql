@@ -0,0 +1,48 @@
+-- Logical folders for project files. Each project starts with the repository layout from the design
+-- doc; default_file_types decides which folder a new file lands in when none is given.
+
+CREATE TABLE file_folders (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  parent_id UUID REFERENCES file_folders(id) ON DELETE CASCADE,
+  name VARCHAR(255) NOT NULL,
+  default_file_types file_type[] NOT NULL DEFAULT '{}',
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (parent_id IS NULL OR parent_id <> id)
+);
+
+CREATE UNIQUE INDEX idx_file_folders_sibling_name
+  ON file_folders(project_id, COALESCE(parent_id, '00000000-0000-0000-0000-000000000000'::uuid), LOWER(name));
+
+CREATE INDEX idx_file_folders_parent
+  ON file_folders(parent_id);
+
+ALTER TABLE files
+ADD COLUMN IF NOT EXISTS folder_id UUID REFERENCES file_folders(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_files_folder
+  ON files(folder_id)
+  WHERE deleted_at IS NULL;
+
+INSERT INTO file_folders (project_id, name, default_file_types, sort_order, created_by)
+SELECT p.id, layout.name, layout.file_types::file_type[], layout.sort_order, p.created_by
+FROM projects p
+CROSS JOIN (
+  VALUES
+    ('Client Documents', '{client_profile,nda,contract}', 1),
+    ('Planning', '{proposal,creative_brief}', 2),
+    ('Production', '{asset}', 3),
+    ('Deliverables', '{deliverable}', 4)
+) AS layout(name, file_types, sort_order)
+ON CONFLICT DO NOTHING;
+
+UPDATE files f
+SET folder_id = ff.id
+FROM file_folders ff
+WHERE ff.project_id = f.project_id
+  AND ff.parent_id IS NULL
+  AND f.file_type = ANY(ff.default_file_types)
+  AND f.folder_id IS NULL;
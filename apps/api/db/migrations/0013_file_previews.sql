@@ -0,0 +1,19 @@
+-- Server-generated previews (image thumbnails and first-page PDF renders) stored next to the originals.
+-- A NULL preview_status means previews have not been generated for that version.
+
+CREATE TYPE file_preview_status AS ENUM ('ready', 'unsupported', 'failed');
+
+ALTER TABLE files
+ADD COLUMN IF NOT EXISTS preview_status file_preview_status;
+
+CREATE TABLE file_previews (
+  file_id UUID NOT NULL REFERENCES files(id) ON DELETE CASCADE,
+  size VARCHAR(16) NOT NULL CHECK (size IN ('small', 'medium', 'large')),
+  object_key TEXT NOT NULL,
+  mime_type VARCHAR(127) NOT NULL,
+  width INTEGER NOT NULL CHECK (width > 0),
+  height INTEGER NOT NULL CHECK (height > 0),
+  byte_size INTEGER NOT NULL CHECK (byte_size >= 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (file_id, size)
+);
@@ -0,0 +1,20 @@
+-- Public share links for individual file versions. Only a SHA-256 hash of the link token is stored.
+
+CREATE TABLE file_share_links (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  file_id UUID NOT NULL REFERENCES files(id) ON DELETE CASCADE,
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  token_hash CHAR(64) NOT NULL UNIQUE,
+  password_hash TEXT,
+  expires_at TIMESTAMPTZ NOT NULL,
+  max_downloads INTEGER CHECK (max_downloads IS NULL OR max_downloads > 0),
+  download_count INTEGER NOT NULL DEFAULT 0,
+  last_accessed_at TIMESTAMPTZ,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  revoked_at TIMESTAMPTZ,
+  revoked_by UUID REFERENCES users(id) ON DELETE SET NULL
+);
+
+CREATE INDEX idx_file_share_links_file
+  ON file_share_links(file_id, created_at DESC);
@@ -0,0 +1,25 @@
+-- Asynchronous ZIP exports of a project's files for archiving and client handoff.
+
+CREATE TYPE export_bundle_status AS ENUM ('queued', 'running', 'ready', 'failed');
+
+CREATE TABLE file_export_bundles (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  requested_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  status export_bundle_status NOT NULL DEFAULT 'queued',
+  file_type file_type,
+  folder_id UUID REFERENCES file_folders(id) ON DELETE SET NULL,
+  storage_type VARCHAR(20),
+  object_key TEXT,
+  byte_size BIGINT,
+  checksum_sha256 CHAR(64),
+  file_count INTEGER,
+  external_link_count INTEGER,
+  error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  started_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ
+);
+
+CREATE INDEX idx_file_export_bundles_project
+  ON file_export_bundles(project_id, created_at DESC);
@@ -0,0 +1,30 @@
+-- Client sign-off on deliverable and proposal files. Each request targets one file version, so the
+-- decision history of a document reads as a list of versions and what the reviewer said about each.
+
+CREATE TYPE file_approval_status AS ENUM ('pending', 'approved', 'rejected', 'changes_requested', 'superseded');
+
+CREATE TABLE file_approvals (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  document_id UUID NOT NULL,
+  file_id UUID NOT NULL REFERENCES files(id) ON DELETE CASCADE,
+  file_version INTEGER NOT NULL,
+  requested_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  reviewer_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  request_note TEXT,
+  status file_approval_status NOT NULL DEFAULT 'pending',
+  decision_note TEXT,
+  decided_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  decided_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX idx_file_approvals_one_pending
+  ON file_approvals(document_id)
+  WHERE status = 'pending';
+
+CREATE INDEX idx_file_approvals_document
+  ON file_approvals(document_id, created_at DESC);
+
+CREATE INDEX idx_file_approvals_file
+  ON file_approvals(file_id);
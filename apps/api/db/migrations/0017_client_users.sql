@@ -0,0 +1,12 @@
+-- Client portal accounts. A client user is a regular row in `users` that belongs to one client and
+-- only ever sees that client's projects through the portal endpoints.
+
+CREATE TYPE user_principal_type AS ENUM ('staff', 'client_user');
+
+ALTER TABLE users
+ADD COLUMN principal_type user_principal_type NOT NULL DEFAULT 'staff',
+ADD COLUMN client_id UUID REFERENCES clients(id) ON DELETE CASCADE,
+ADD CONSTRAINT users_client_link CHECK ((principal_type = 'client_user') = (client_id IS NOT NULL)),
+ADD CONSTRAINT users_client_not_admin CHECK (principal_type = 'staff' OR is_admin = FALSE);
+
+CREATE INDEX idx_users_client ON users(client_id) WHERE client_id IS NOT NULL AND deleted_at IS NULL;
@@ -0,0 +1,36 @@
+-- People at a client (producers, brand managers, legal) and which of them are stakeholders on a
+-- given project. The single email/phone on `clients` stays as the company-level contact.
+
+CREATE TABLE client_contacts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  client_id UUID NOT NULL REFERENCES clients(id) ON DELETE CASCADE,
+  name VARCHAR(255) NOT NULL,
+  title VARCHAR(255),
+  email CITEXT,
+  phone VARCHAR(50),
+  is_primary BOOLEAN NOT NULL DEFAULT FALSE,
+  notes TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  deleted_at TIMESTAMPTZ
+);
+
+CREATE INDEX idx_client_contacts_client
+  ON client_contacts(client_id)
+  WHERE deleted_at IS NULL;
+
+CREATE UNIQUE INDEX idx_client_contacts_one_primary
+  ON client_contacts(client_id)
+  WHERE is_primary AND deleted_at IS NULL;
+
+CREATE TABLE project_stakeholders (
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  contact_id UUID NOT NULL REFERENCES client_contacts(id) ON DELETE CASCADE,
+  role VARCHAR(100),
+  added_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (project_id, contact_id)
+);
+
+CREATE INDEX idx_project_stakeholders_contact
+  ON project_stakeholders(contact_id);
@@ -0,0 +1,18 @@
+-- Duplicate client detection compares names with trigram similarity, and merges keep an audit
+-- record of what moved from the merged client to the one that survived.
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+CREATE TABLE client_merges (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  survivor_client_id UUID NOT NULL REFERENCES clients(id),
+  merged_client_id UUID NOT NULL REFERENCES clients(id),
+  merged_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  merged_client_snapshot JSONB NOT NULL,
+  moved JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT client_merges_distinct CHECK (survivor_client_id <> merged_client_id)
+);
+
+CREATE INDEX idx_client_merges_survivor
+  ON client_merges(survivor_client_id, created_at DESC);
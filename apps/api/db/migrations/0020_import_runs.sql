@@ -0,0 +1,40 @@
+-- Spreadsheet imports of clients, projects and tasks. A run keeps the uploaded rows and the column
+-- mapping so it can be re-validated, and each row records its validation result and, once
+-- committed, the record it created so the import can be undone.
+
+CREATE TYPE import_entity AS ENUM ('clients', 'projects', 'tasks');
+CREATE TYPE import_run_status AS ENUM ('uploaded', 'validated', 'committed', 'undone');
+CREATE TYPE import_row_status AS ENUM ('valid', 'invalid', 'created', 'undone');
+
+CREATE TABLE import_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  entity import_entity NOT NULL,
+  file_name VARCHAR(255) NOT NULL,
+  file_format VARCHAR(10) NOT NULL CHECK (file_format IN ('csv', 'xlsx')),
+  status import_run_status NOT NULL DEFAULT 'uploaded',
+  headers JSONB NOT NULL,
+  mapping JSONB NOT NULL DEFAULT '{}'::jsonb,
+  source_rows JSONB NOT NULL,
+  row_count INTEGER NOT NULL,
+  summary JSONB,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  validated_at TIMESTAMPTZ,
+  committed_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  committed_at TIMESTAMPTZ,
+  undone_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  undone_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_import_runs_created ON import_runs(created_at DESC);
+
+CREATE TABLE import_run_rows (
+  import_run_id UUID NOT NULL REFERENCES import_runs(id) ON DELETE CASCADE,
+  row_number INTEGER NOT NULL,
+  status import_row_status NOT NULL,
+  data JSONB,
+  errors JSONB NOT NULL DEFAULT '[]'::jsonb,
+  entity_id UUID,
+  PRIMARY KEY (import_run_id, row_number)
+);
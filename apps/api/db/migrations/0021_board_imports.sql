@@ -0,0 +1,37 @@
+-- Trello board and Asana project exports imported into an existing project. The export is kept in a
+-- normalized shape so lists can be mapped to phases after upload, and the committed import keeps a
+-- reconciliation report of everything that could not be carried over.
+
+CREATE TYPE board_import_source AS ENUM ('trello', 'asana');
+
+-- Attachments are linked back to the tool they came from.
+ALTER TYPE storage_type ADD VALUE IF NOT EXISTS 'trello';
+ALTER TYPE storage_type ADD VALUE IF NOT EXISTS 'asana';
+
+-- Linked attachments from those tools frequently have no recorded size.
+ALTER TABLE files
+DROP CONSTRAINT IF EXISTS files_file_size_check;
+
+ALTER TABLE files
+ADD CONSTRAINT files_file_size_check CHECK (file_size > 0 OR (file_size = 0 AND external_url IS NOT NULL));
+
+CREATE TABLE board_imports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  source board_import_source NOT NULL,
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  file_name VARCHAR(255) NOT NULL,
+  board_name VARCHAR(255) NOT NULL,
+  board JSONB NOT NULL,
+  status import_run_status NOT NULL DEFAULT 'uploaded' CHECK (status IN ('uploaded', 'committed')),
+  phase_mapping JSONB NOT NULL DEFAULT '{}'::jsonb,
+  member_emails JSONB NOT NULL DEFAULT '{}'::jsonb,
+  report JSONB,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  committed_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  committed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_board_imports_project_created ON board_imports(project_id, created_at DESC);
+CREATE INDEX idx_board_imports_created ON board_imports(created_at DESC);
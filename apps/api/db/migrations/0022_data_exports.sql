@@ -0,0 +1,28 @@
+-- Background data exports: a whole-workspace archive for admins and a personal data archive for one
+-- user (data-subject requests). Both are ZIPs of JSON-lines files with a manifest, built like file
+-- export bundles.
+
+CREATE TYPE data_export_kind AS ENUM ('workspace', 'user');
+
+CREATE TABLE data_exports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  kind data_export_kind NOT NULL,
+  subject_user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+  requested_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  status export_bundle_status NOT NULL DEFAULT 'queued',
+  format_version INTEGER NOT NULL,
+  schema_version TEXT,
+  storage_type VARCHAR(20),
+  object_key TEXT,
+  byte_size BIGINT,
+  checksum_sha256 CHAR(64),
+  row_counts JSONB,
+  error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  started_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ,
+  CHECK ((kind = 'user') = (subject_user_id IS NOT NULL))
+);
+
+CREATE INDEX idx_data_exports_created ON data_exports(created_at DESC);
+CREATE INDEX idx_data_exports_subject ON data_exports(subject_user_id, created_at DESC);
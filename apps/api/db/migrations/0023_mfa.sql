@@ -0,0 +1,30 @@
+-- TOTP multi-factor authentication: one authenticator per user, single-use recovery codes, and a
+-- workspace-wide switch that makes MFA mandatory.
+
+-- Workspace-level settings live in a single row, created the first time an admin changes one.
+CREATE TABLE workspace_settings (
+  id BOOLEAN PRIMARY KEY DEFAULT TRUE CHECK (id),
+  mfa_required BOOLEAN NOT NULL DEFAULT FALSE,
+  updated_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- The secret is encrypted with a server key because it has to be read back to check codes.
+-- `enabled_at` stays NULL until the user proves the authenticator works.
+CREATE TABLE user_mfa_factors (
+  user_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  secret_ciphertext TEXT NOT NULL,
+  enabled_at TIMESTAMPTZ,
+  last_used_step BIGINT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE user_mfa_recovery_codes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  code_hash CHAR(64) NOT NULL,
+  used_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (user_id, code_hash)
+);
@@ -0,0 +1,23 @@
+-- Password reset and email verification links. Only a hash of each token is stored; the raw token
+-- exists in the email alone.
+
+ALTER TABLE users ADD COLUMN email_verified_at TIMESTAMPTZ;
+
+-- Accounts created before verification existed are treated as verified.
+UPDATE users SET email_verified_at = created_at WHERE email_verified_at IS NULL;
+
+CREATE TABLE user_email_tokens (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  purpose TEXT NOT NULL CHECK (purpose IN ('password_reset', 'email_verification')),
+  token_hash CHAR(64) NOT NULL UNIQUE,
+  -- The address the link was sent to; verification only counts while it is still the account's email.
+  email CITEXT NOT NULL,
+  expires_at TIMESTAMPTZ NOT NULL,
+  used_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_user_email_tokens_user_purpose
+  ON user_email_tokens(user_id, purpose)
+  WHERE used_at IS NULL;
@@ -0,0 +1,25 @@
+-- Invite-only onboarding: admins can close open signup, and admins or project managers invite people
+-- by email, optionally straight onto a project team.
+
+ALTER TABLE workspace_settings ADD COLUMN invite_only BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- Only a hash of the invite token is stored; the raw token exists in the invitation email alone.
+CREATE TABLE user_invitations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  email CITEXT NOT NULL,
+  token_hash CHAR(64) NOT NULL UNIQUE,
+  project_id UUID REFERENCES projects(id) ON DELETE CASCADE,
+  project_role VARCHAR(20) CHECK (project_role IN ('manager', 'member', 'viewer')),
+  invited_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  expires_at TIMESTAMPTZ NOT NULL,
+  accepted_at TIMESTAMPTZ,
+  accepted_user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  revoked_at TIMESTAMPTZ,
+  revoked_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT user_invitations_project_role CHECK ((project_id IS NULL) = (project_role IS NULL))
+);
+
+CREATE INDEX idx_user_invitations_pending
+  ON user_invitations(email)
+  WHERE accepted_at IS NULL AND revoked_at IS NULL;
@@ -0,0 +1,28 @@
+-- OpenID Connect single sign-on: external identities linked to local users, plus the short-lived
+-- state of logins that are waiting for the provider to redirect back.
+
+CREATE TABLE user_identities (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  issuer TEXT NOT NULL,
+  subject TEXT NOT NULL,
+  email CITEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_login_at TIMESTAMPTZ,
+  CONSTRAINT user_identities_issuer_subject UNIQUE (issuer, subject)
+);
+
+CREATE INDEX idx_user_identities_user ON user_identities(user_id);
+
+-- One row per login started; the row is deleted when the provider redirects back. The PKCE verifier
+-- and nonce never leave the API, and the state is stored only as a hash.
+CREATE TABLE oidc_login_attempts (
+  state_hash CHAR(64) PRIMARY KEY,
+  issuer TEXT NOT NULL,
+  code_verifier TEXT NOT NULL,
+  nonce TEXT NOT NULL,
+  expires_at TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_oidc_login_attempts_expires ON oidc_login_attempts(expires_at);
@@ -0,0 +1,22 @@
+-- Personal API tokens for scripts and integrations. A token acts as its owner, limited to its scopes
+-- (project permission names), and stops working when it expires or is revoked.
+
+CREATE TABLE api_tokens (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  name VARCHAR(100) NOT NULL,
+  -- The first characters of the token, kept so people can tell their tokens apart; only a hash of the
+  -- whole token is stored.
+  token_prefix VARCHAR(20) NOT NULL,
+  token_hash CHAR(64) NOT NULL UNIQUE,
+  scopes TEXT[] NOT NULL,
+  expires_at TIMESTAMPTZ NOT NULL,
+  last_used_at TIMESTAMPTZ,
+  last_used_ip INET,
+  revoked_at TIMESTAMPTZ,
+  revoked_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT api_tokens_scopes_not_empty CHECK (cardinality(scopes) > 0)
+);
+
+CREATE INDEX idx_api_tokens_user ON api_tokens(user_id, created_at DESC);
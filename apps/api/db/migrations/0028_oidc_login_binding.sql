@@ -0,0 +1,7 @@
+-- Binds each single sign-on attempt to the browser that started it: the start response carries a
+-- secret only that browser keeps, and the callback has to present it. Stored as a hash like the state.
+-- Attempts started before this cannot be completed and are dropped.
+
+DELETE FROM oidc_login_attempts;
+
+ALTER TABLE oidc_login_attempts ADD COLUMN login_secret_hash CHAR(64) NOT NULL;
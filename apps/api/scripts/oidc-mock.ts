@@ -0,0 +1,30 @@
+import { startMockOidcProvider } from "../src/oidc/mock-provider.js";
+
+// Runs the mock OpenID provider so single sign-on can be tried locally without a real identity provider.
+async function run() {
+  const clientId = process.env.OIDC_CLIENT_ID ?? "adfix-pm-local";
+  const clientSecret = process.env.OIDC_CLIENT_SECRET ?? "adfix-pm-local-secret";
+  const provider = await startMockOidcProvider({
+    clientId,
+    clientSecret,
+    port: Number(process.env.OIDC_MOCK_PORT ?? 4010)
+  });
+
+  console.log(`Mock OIDC provider listening at ${provider.issuer}`);
+  console.log("Point the API at it with:");
+  console.log(`  OIDC_ISSUER=${provider.issuer}`);
+  console.log(`  OIDC_CLIENT_ID=${clientId}`);
+  console.log(`  OIDC_CLIENT_SECRET=${clientSecret}`);
+  console.log("Stop it with Ctrl+C.");
+
+  const stop = () => {
+    provider.close().finally(() => process.exit(0));
+  };
+  process.on("SIGINT", stop);
+  process.on("SIGTERM", stop);
+}
+
+run().catch((error) => {
+  console.error("Mock OIDC provider failed:", error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,45 @@
+import path from "node:path";
+import { pool } from "../src/db/pool.js";
+import { restoreWorkspaceArchive } from "../src/services/workspace-restore.service.js";
+
+function readArchiveArg() {
+  const archiveArg = process.argv.slice(2).find((arg) => !arg.startsWith("--"));
+  return archiveArg ? path.resolve(archiveArg) : null;
+}
+
+async function run() {
+  const archivePath = readArchiveArg();
+  if (!archivePath) {
+    console.error("Usage: npm run db:restore -- <workspace-export.zip> [--dry-run]");
+    process.exitCode = 1;
+    return;
+  }
+
+  const dryRun = process.argv.includes("--dry-run");
+  const result = await restoreWorkspaceArchive({ archivePath, dryRun });
+  if (!result.ok) {
+    console.error(`Restore refused (${result.reason}): ${result.message}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  for (const table of result.tables) {
+    console.log(`${table.name}: ${table.rows} row(s)`);
+  }
+  const totalRows = result.tables.reduce((sum, table) => sum + table.rows, 0);
+  console.log(`Matched ${result.matchedUsers} archived user(s) to existing accounts by email.`);
+  console.log(
+    `${dryRun ? "Dry run complete, nothing written" : "Restore complete"}: ${totalRows} row(s) from export ` +
+      `${result.exportId} (generated ${result.generatedAt}, schema ${result.schemaVersion}) ` +
+      `in ${(result.durationMs / 1000).toFixed(1)}s.`
+  );
+}
+
+run()
+  .catch((error) => {
+    console.error("Restore failed:", error);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await pool.end();
+  });
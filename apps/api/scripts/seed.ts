@@ -1,6 +1,7 @@
 import bcrypt from "bcryptjs";
 import { env } from "../src/config/env.js";
 import { pool } from "../src/db/pool.js";
+import { seedProjectFolders } from "../src/services/file-folders.service.js";
 
 const seedAdminEmail = process.env.SEED_ADMIN_EMAIL ?? "admin@adfix.local";
 const seedAdminName = process.env.SEED_ADMIN_NAME ?? "Adfix Admin";
@@ -100,6 +101,13 @@ async function seedDemoData() {
     throw new Error("Failed to create or fetch demo project.");
   }
 
+  const folderClient = await pool.connect();
+  try {
+    await seedProjectFolders(folderClient, { projectId, createdBy: adminId });
+  } finally {
+    folderClient.release();
+  }
+
   const existingTaskCount = await pool.query<{ count: string }>(
     `SELECT COUNT(*)::text AS count FROM tasks WHERE project_id = $1 AND deleted_at IS NULL`,
     [projectId]
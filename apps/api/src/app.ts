@@ -4,14 +4,23 @@ import morgan from "morgan";
 import { healthRouter } from "./routes/health.js";
 import { docsRouter } from "./routes/docs.js";
 import { authRouter } from "./routes/auth.js";
+import { apiTokensRouter } from "./routes/api-tokens.js";
+import { invitationsRouter } from "./routes/invitations.js";
 import { clientsRouter } from "./routes/clients.js";
 import { projectsRouter } from "./routes/projects.js";
+import { projectTemplatesRouter } from "./routes/project-templates.js";
 import { tasksRouter } from "./routes/tasks.js";
 import { filesRouter } from "./routes/files.js";
 import { analyticsRouter } from "./routes/analytics.js";
 import { usersRouter } from "./routes/users.js";
 import { searchRouter } from "./routes/search.js";
 import { notificationsRouter } from "./routes/notifications.js";
+import { storageRouter } from "./routes/storage.js";
+import { shareRouter } from "./routes/share.js";
+import { portalRouter } from "./routes/portal.js";
+import { importsRouter } from "./routes/imports.js";
+import { boardImportsRouter } from "./routes/board-imports.js";
+import { dataExportsRouter } from "./routes/data-exports.js";
 import { apiRateLimiter, authRateLimiter } from "./middleware/rate-limit.js";
 import { errorHandler, notFoundHandler } from "./middleware/errors.js";
 import { requestIdMiddleware } from "./middleware/request-id.js";
@@ -33,20 +42,34 @@ export function createApp() {
       morgan(":method :url :status :res[content-length] - :response-time ms req_id=:request-id")
     );
   }
+  // Signed storage URLs stream raw request bodies, so they are mounted before the JSON parser.
+  app.use("/api/storage", apiRateLimiter, storageRouter);
+  app.use("/api/v1/storage", apiRateLimiter, storageRouter);
+  // Board exports are JSON files well past the body limit below; the router parses its own bodies.
+  app.use("/api/board-imports", apiRateLimiter, boardImportsRouter);
+  app.use("/api/v1/board-imports", apiRateLimiter, boardImportsRouter);
   app.use(express.json({ limit: "1mb" }));
 
   function mountApi(basePath: "/api" | "/api/v1") {
     app.use(basePath, healthRouter);
     app.use(basePath, docsRouter);
     app.use(`${basePath}/auth`, authRateLimiter, authRouter);
+    // Share links are public and password-guessable, so they share the stricter auth limiter.
+    app.use(`${basePath}/share`, authRateLimiter, shareRouter);
     app.use(`${basePath}/clients`, apiRateLimiter, clientsRouter);
     app.use(`${basePath}/projects`, apiRateLimiter, projectsRouter);
+    app.use(`${basePath}/project-templates`, apiRateLimiter, projectTemplatesRouter);
     app.use(`${basePath}/tasks`, apiRateLimiter, tasksRouter);
     app.use(`${basePath}/files`, apiRateLimiter, filesRouter);
     app.use(`${basePath}/analytics`, apiRateLimiter, analyticsRouter);
     app.use(`${basePath}/users`, apiRateLimiter, usersRouter);
+    app.use(`${basePath}/api-tokens`, apiRateLimiter, apiTokensRouter);
+    app.use(`${basePath}/invitations`, apiRateLimiter, invitationsRouter);
     app.use(`${basePath}/search`, apiRateLimiter, searchRouter);
     app.use(`${basePath}/notifications`, apiRateLimiter, notificationsRouter);
+    app.use(`${basePath}/portal`, apiRateLimiter, portalRouter);
+    app.use(`${basePath}/imports`, apiRateLimiter, importsRouter);
+    app.use(`${basePath}/data-exports`, apiRateLimiter, dataExportsRouter);
   }
 
   mountApi("/api");
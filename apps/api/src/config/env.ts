@@ -17,12 +17,63 @@ const envSchema = z.object({
   JWT_REFRESH_SECRET: z.string().min(32),
   ACCESS_TOKEN_TTL: z.string().default("15m"),
   REFRESH_TOKEN_DAYS: z.coerce.number().int().positive().default(30),
+  MFA_ENCRYPTION_SECRET: z.string().min(32).optional(),
+  MFA_ISSUER: z.string().min(1).default("Adfix PM"),
+  WEB_APP_URL: z.string().url().default("http://localhost:5173"),
+  MAIL_TRANSPORT: z.enum(["outbox", "smtp"]).default("outbox"),
+  MAIL_FROM: z.string().min(3).default("Adfix PM <no-reply@adfix.local>"),
+  MAIL_OUTBOX_DIR: z.string().min(1).optional(),
+  SMTP_HOST: z.string().min(1).default("127.0.0.1"),
+  SMTP_PORT: z.coerce.number().int().positive().default(587),
+  SMTP_SECURE: z
+    .enum(["true", "false"])
+    .default("false")
+    .transform((value) => value === "true"),
+  // Unset means required whenever SMTP_USERNAME is set; credentials are never sent in plaintext.
+  SMTP_REQUIRE_TLS: z
+    .enum(["true", "false"])
+    .optional()
+    .transform((value) => (value === undefined ? undefined : value === "true")),
+  SMTP_USERNAME: z.string().min(1).optional(),
+  SMTP_PASSWORD: z.string().min(1).optional(),
+  SMTP_TIMEOUT_MS: z.coerce.number().int().positive().default(30_000),
+  OIDC_ISSUER: z.string().url().optional(),
+  OIDC_CLIENT_ID: z.string().min(1).optional(),
+  OIDC_CLIENT_SECRET: z.string().min(1).optional(),
+  OIDC_PROVIDER_NAME: z.string().min(1).default("Single sign-on"),
+  OIDC_SCOPES: z.string().min(1).default("openid email profile"),
+  OIDC_REDIRECT_URI: z.string().url().optional(),
+  OIDC_AUTO_PROVISION_DOMAINS: z.string().default(""),
+  OIDC_TIMEOUT_MS: z.coerce.number().int().positive().default(10_000),
   AUTH_RATE_LIMIT_WINDOW_MS: z.coerce.number().int().positive().default(60_000),
   AUTH_RATE_LIMIT_MAX: z.coerce.number().int().positive().default(10),
   API_RATE_LIMIT_WINDOW_MS: z.coerce.number().int().positive().default(60_000),
   API_RATE_LIMIT_MAX: z.coerce.number().int().positive().default(120),
   CORS_ALLOWED_ORIGINS: z.string().default("http://localhost:3000,http://localhost:5173"),
-  SEED_PROFILE: z.enum(["admin_only", "demo"]).default("admin_only")
+  SEED_PROFILE: z.enum(["admin_only", "demo"]).default("admin_only"),
+  STORAGE_DRIVER: z.enum(["local", "s3"]).default("local"),
+  STORAGE_LOCAL_ROOT: z.string().min(1).default(path.resolve(currentDir, "../../storage")),
+  STORAGE_SIGNING_SECRET: z.string().min(32).optional(),
+  STORAGE_PUBLIC_BASE_URL: z.string().url().optional(),
+  STORAGE_URL_TTL_SECONDS: z.coerce.number().int().min(60).max(3600).default(900),
+  UPLOAD_MAX_BYTES: z.coerce.number().int().positive().default(50 * 1024 * 1024),
+  S3_ENDPOINT: z.string().url().optional(),
+  S3_REGION: z.string().min(1).default("us-east-1"),
+  S3_BUCKET: z.string().min(1).optional(),
+  S3_ACCESS_KEY_ID: z.string().min(1).optional(),
+  S3_SECRET_ACCESS_KEY: z.string().min(1).optional(),
+  S3_FORCE_PATH_STYLE: z
+    .enum(["true", "false"])
+    .default("true")
+    .transform((value) => value === "true"),
+  FILE_SCANNER: z.enum(["noop", "clamav"]).default("noop"),
+  CLAMAV_HOST: z.string().min(1).default("127.0.0.1"),
+  CLAMAV_PORT: z.coerce.number().int().positive().default(3310),
+  CLAMAV_TIMEOUT_MS: z.coerce.number().int().positive().default(30_000),
+  PREVIEW_PDF_RENDERER: z.enum(["pdftoppm", "none"]).default("pdftoppm"),
+  PDFTOPPM_PATH: z.string().min(1).default("pdftoppm"),
+  PREVIEW_TIMEOUT_MS: z.coerce.number().int().positive().default(20_000),
+  EXPORT_BUNDLE_MAX_BYTES: z.coerce.number().int().positive().default(1024 * 1024 * 1024)
 });
 
 export const env = envSchema.parse(process.env);
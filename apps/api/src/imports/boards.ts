@@ -0,0 +1,333 @@
+import { z } from "zod";
+import type { ProjectPhase } from "../services/tasks.service.js";
+
+export type BoardSource = "trello" | "asana";
+
+export type BoardList = {
+  id: string;
+  name: string;
+};
+
+export type BoardMember = {
+  id: string;
+  name: string;
+  email: string | null;
+};
+
+export type BoardComment = {
+  authorId: string | null;
+  authorName: string | null;
+  body: string;
+  createdAt: string | null;
+};
+
+export type BoardAttachment = {
+  name: string;
+  url: string;
+  mimeType: string | null;
+  bytes: number | null;
+};
+
+export type BoardCard = {
+  id: string;
+  title: string;
+  description: string | null;
+  listId: string | null;
+  completed: boolean;
+  archived: boolean;
+  dueDate: string | null;
+  memberIds: string[];
+  comments: BoardComment[];
+  attachments: BoardAttachment[];
+};
+
+// Trello and Asana exports are reduced to this shape on upload; everything after that is source-agnostic.
+export type Board = {
+  name: string;
+  lists: BoardList[];
+  members: BoardMember[];
+  cards: BoardCard[];
+};
+
+const PROJECT_PHASES: ProjectPhase[] = [
+  "client_acquisition",
+  "strategy_planning",
+  "production",
+  "post_production",
+  "delivery"
+];
+
+// Exports carry far more than we read; unknown keys are ignored rather than rejected.
+const nullableString = z.string().nullish();
+
+const trelloExportSchema = z.object({
+  name: z.string(),
+  lists: z.array(z.object({ id: z.string(), name: z.string() })).default([]),
+  members: z
+    .array(z.object({ id: z.string(), fullName: nullableString, username: nullableString, email: nullableString }))
+    .default([]),
+  cards: z
+    .array(
+      z.object({
+        id: z.string(),
+        name: z.string(),
+        desc: nullableString,
+        idList: nullableString,
+        closed: z.boolean().optional().default(false),
+        due: nullableString,
+        dueComplete: z.boolean().optional().default(false),
+        idMembers: z.array(z.string()).default([]),
+        attachments: z
+          .array(
+            z.object({
+              name: nullableString,
+              url: nullableString,
+              mimeType: nullableString,
+              bytes: z.number().nullish()
+            })
+          )
+          .default([])
+      })
+    )
+    .default([]),
+  actions: z
+    .array(
+      z.object({
+        type: z.string(),
+        date: nullableString,
+        idMemberCreator: nullableString,
+        memberCreator: z.object({ fullName: nullableString }).nullish(),
+        data: z
+          .object({
+            text: nullableString,
+            card: z.object({ id: z.string() }).nullish()
+          })
+          .nullish()
+      })
+    )
+    .default([])
+});
+
+const asanaUserSchema = z.object({
+  gid: z.string(),
+  name: nullableString,
+  email: nullableString
+});
+
+const asanaTaskSchema = z.object({
+  gid: z.string(),
+  name: z.string(),
+  notes: nullableString,
+  completed: z.boolean().optional().default(false),
+  due_on: nullableString,
+  assignee: asanaUserSchema.nullish(),
+  memberships: z
+    .array(z.object({ section: z.object({ gid: z.string(), name: z.string() }).nullish() }))
+    .default([]),
+  stories: z
+    .array(
+      z.object({
+        type: nullableString,
+        resource_subtype: nullableString,
+        text: nullableString,
+        created_at: nullableString,
+        created_by: asanaUserSchema.nullish()
+      })
+    )
+    .default([]),
+  attachments: z
+    .array(
+      z.object({
+        name: nullableString,
+        permanent_url: nullableString,
+        view_url: nullableString,
+        download_url: nullableString,
+        size: z.number().nullish()
+      })
+    )
+    .default([])
+});
+
+// Asana's project export is `{ data: [...tasks] }`; a bare task array is accepted too.
+const asanaExportSchema = z.union([
+  z.object({
+    name: nullableString,
+    data: z.array(asanaTaskSchema)
+  }),
+  z.array(asanaTaskSchema).transform((data) => ({ name: null, data }))
+]);
+
+function blankToNull(value: string | null | undefined) {
+  const trimmed = value?.trim();
+  return trimmed ? trimmed : null;
+}
+
+function dateOnly(value: string | null | undefined) {
+  const match = value?.match(/^\d{4}-\d{2}-\d{2}/);
+  return match ? match[0] : null;
+}
+
+function toAttachment(item: {
+  name?: string | null;
+  url?: string | null;
+  mimeType?: string | null;
+  bytes?: number | null;
+}) {
+  const url = blankToNull(item.url);
+  if (!url) return null;
+  return { name: blankToNull(item.name) ?? url, url, mimeType: item.mimeType ?? null, bytes: item.bytes ?? null };
+}
+
+function fromTrello(data: z.infer<typeof trelloExportSchema>): Board {
+  const commentsByCard = new Map<string, BoardComment[]>();
+  const memberNames = new Map(data.members.map((member) => [member.id, member.fullName ?? member.username ?? null]));
+
+  for (const action of data.actions) {
+    const cardId = action.data?.card?.id;
+    const body = blankToNull(action.data?.text);
+    if (action.type !== "commentCard" || !cardId || !body) continue;
+
+    const authorId = action.idMemberCreator ?? null;
+    const comments = commentsByCard.get(cardId) ?? [];
+    comments.push({
+      authorId,
+      authorName: action.memberCreator?.fullName ?? (authorId ? (memberNames.get(authorId) ?? null) : null),
+      body,
+      createdAt: action.date ?? null
+    });
+    commentsByCard.set(cardId, comments);
+  }
+
+  return {
+    name: data.name,
+    lists: data.lists.map((list) => ({ id: list.id, name: list.name })),
+    members: data.members.map((member) => ({
+      id: member.id,
+      name: member.fullName ?? member.username ?? member.id,
+      email: blankToNull(member.email)?.toLowerCase() ?? null
+    })),
+    cards: data.cards.map((card) => ({
+      id: card.id,
+      title: card.name,
+      description: blankToNull(card.desc),
+      listId: card.idList ?? null,
+      completed: card.dueComplete,
+      archived: card.closed,
+      dueDate: dateOnly(card.due),
+      memberIds: card.idMembers,
+      // Trello exports actions newest first.
+      comments: (commentsByCard.get(card.id) ?? []).reverse(),
+      attachments: card.attachments
+        .map((item) => toAttachment(item))
+        .filter((item): item is BoardAttachment => Boolean(item))
+    }))
+  };
+}
+
+function fromAsana(data: z.infer<typeof asanaExportSchema>, fallbackName: string): Board {
+  const lists = new Map<string, BoardList>();
+  const members = new Map<string, BoardMember>();
+
+  const addMember = (user: z.infer<typeof asanaUserSchema> | null | undefined) => {
+    if (!user) return null;
+    const existing = members.get(user.gid);
+    const email = blankToNull(user.email)?.toLowerCase() ?? null;
+    members.set(user.gid, {
+      id: user.gid,
+      name: user.name ?? existing?.name ?? user.gid,
+      email: email ?? existing?.email ?? null
+    });
+    return user.gid;
+  };
+
+  const cards = data.data.map((task): BoardCard => {
+    const section = task.memberships.find((membership) => membership.section)?.section ?? null;
+    if (section && !lists.has(section.gid)) {
+      lists.set(section.gid, { id: section.gid, name: section.name });
+    }
+
+    const assigneeId = addMember(task.assignee);
+    const comments = task.stories
+      .filter((story) => story.resource_subtype === "comment_added" || story.type === "comment")
+      .map((story) => ({
+        authorId: addMember(story.created_by),
+        authorName: story.created_by?.name ?? null,
+        body: blankToNull(story.text) ?? "",
+        createdAt: story.created_at ?? null
+      }))
+      .filter((comment) => comment.body);
+
+    return {
+      id: task.gid,
+      title: task.name,
+      description: blankToNull(task.notes),
+      listId: section?.gid ?? null,
+      completed: task.completed,
+      archived: false,
+      dueDate: dateOnly(task.due_on),
+      memberIds: assigneeId ? [assigneeId] : [],
+      comments,
+      attachments: task.attachments
+        .map((item) =>
+          toAttachment({
+            name: item.name,
+            url: item.permanent_url ?? item.view_url ?? item.download_url,
+            bytes: item.size
+          })
+        )
+        .filter((item): item is BoardAttachment => Boolean(item))
+    };
+  });
+
+  return {
+    name: blankToNull(data.name) ?? fallbackName,
+    lists: [...lists.values()],
+    members: [...members.values()],
+    cards
+  };
+}
+
+export function parseBoardExport(source: BoardSource, body: Buffer, fileName: string) {
+  let json: unknown;
+  try {
+    json = JSON.parse(body.toString("utf-8").replace(/^\uFEFF/, ""));
+  } catch {
+    return { ok: false as const, message: "The file is not valid JSON" };
+  }
+
+  const fail = (error: z.ZodError) => {
+    const issue = error.issues[0];
+    const where = issue?.path.length ? ` at ${issue.path.join(".")}` : "";
+    return {
+      ok: false as const,
+      message: `This does not look like a ${source === "trello" ? "Trello board" : "Asana project"} export${where}`
+    };
+  };
+
+  let board: Board;
+  if (source === "trello") {
+    const parsed = trelloExportSchema.safeParse(json);
+    if (!parsed.success) return fail(parsed.error);
+    board = fromTrello(parsed.data);
+  } else {
+    const parsed = asanaExportSchema.safeParse(json);
+    if (!parsed.success) return fail(parsed.error);
+    board = fromAsana(parsed.data, fileName.replace(/\.json$/i, ""));
+  }
+
+  return { ok: true as const, board };
+}
+
+function normalizeName(value: string) {
+  return value.toLowerCase().replace(/[^a-z]/g, "");
+}
+
+// Lists named after a phase ("Post-Production", "Strategy & Planning") are mapped up front.
+export function suggestPhaseMapping(lists: BoardList[]) {
+  const mapping: Record<string, ProjectPhase | null> = {};
+  for (const list of lists) {
+    const name = normalizeName(list.name);
+    mapping[list.id] = PROJECT_PHASES.find((phase) => normalizeName(phase) === name) ?? null;
+  }
+  return mapping;
+}
@@ -0,0 +1,280 @@
+import { z } from "zod";
+import { clientCreateSchema } from "../schemas/clients.schema.js";
+import { projectCreateSchema } from "../schemas/projects.schema.js";
+import { taskCreateSchema } from "../schemas/tasks.schema.js";
+import type { ProjectPhase } from "../services/tasks.service.js";
+
+export type ImportEntity = "clients" | "projects" | "tasks";
+
+export type ImportField = {
+  key: string;
+  label: string;
+  required: boolean;
+  // Header spellings that map to the field without the user picking it.
+  aliases: string[];
+};
+
+export type ImportMapping = Record<string, string | null>;
+
+export type ImportRowError = {
+  field: string | null;
+  message: string;
+};
+
+type ProjectRef = {
+  id: string;
+  name: string;
+  current_phase: ProjectPhase;
+};
+
+// Existing records that import rows may refer to by name, id or email.
+export type ImportLookups = {
+  clientIds: Set<string>;
+  clientIdsByName: Map<string, string[]>;
+  projectsById: Map<string, ProjectRef>;
+  projectsByName: Map<string, ProjectRef[]>;
+  staffIdsByEmail: Map<string, string>;
+};
+
+export type ClientImportPayload = z.infer<typeof clientCreateSchema>;
+export type ProjectImportPayload = z.infer<typeof projectCreateSchema>;
+export type TaskImportPayload = z.infer<typeof taskCreateSchema>;
+
+type RowValidation<T> = { ok: true; payload: T } | { ok: false; errors: ImportRowError[] };
+
+export const IMPORT_FIELDS: Record<ImportEntity, ImportField[]> = {
+  clients: [
+    { key: "name", label: "Name", required: true, aliases: ["client", "clientname", "contactname"] },
+    { key: "company", label: "Company", required: false, aliases: ["companyname", "organization", "organisation"] },
+    { key: "email", label: "Email", required: false, aliases: ["emailaddress", "mail"] },
+    { key: "phone", label: "Phone", required: false, aliases: ["phonenumber", "telephone", "tel", "mobile"] },
+    { key: "notes", label: "Notes", required: false, aliases: ["note", "comments"] }
+  ],
+  projects: [
+    { key: "name", label: "Name", required: true, aliases: ["project", "projectname", "title"] },
+    { key: "client", label: "Client", required: true, aliases: ["clientname", "clientid", "customer", "account"] },
+    { key: "description", label: "Description", required: false, aliases: ["details", "brief"] },
+    { key: "currentPhase", label: "Phase", required: false, aliases: ["phase", "stage", "currentphase"] },
+    { key: "priority", label: "Priority", required: false, aliases: [] },
+    { key: "budget", label: "Budget", required: false, aliases: ["amount", "fee"] },
+    { key: "startDate", label: "Start date", required: true, aliases: ["start", "kickoff", "startson"] },
+    { key: "deadline", label: "Deadline", required: true, aliases: ["due", "duedate", "enddate", "end"] }
+  ],
+  tasks: [
+    { key: "title", label: "Title", required: true, aliases: ["task", "taskname", "name"] },
+    { key: "project", label: "Project", required: true, aliases: ["projectname", "projectid"] },
+    { key: "description", label: "Description", required: false, aliases: ["details", "notes"] },
+    { key: "phase", label: "Phase", required: false, aliases: ["stage"] },
+    { key: "status", label: "Status", required: false, aliases: ["state"] },
+    { key: "priority", label: "Priority", required: false, aliases: [] },
+    { key: "assignee", label: "Assignee email", required: false, aliases: ["assignedto", "owner", "assigneeemail"] },
+    { key: "dueDate", label: "Due date", required: false, aliases: ["due", "deadline"] },
+    { key: "estimatedDays", label: "Estimated days", required: false, aliases: ["estimate", "days", "effort"] }
+  ]
+};
+
+// Payload keys that hold a resolved reference are reported under the column the user mapped.
+const PAYLOAD_FIELD_NAMES: Record<string, string> = {
+  clientId: "client",
+  projectId: "project",
+  assignedTo: "assignee"
+};
+
+const DATE_FIELDS = new Set(["startDate", "deadline", "dueDate"]);
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function normalizeHeader(value: string) {
+  return value.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+export function suggestImportMapping(entity: ImportEntity, headers: string[]): ImportMapping {
+  const mapping: ImportMapping = {};
+  const taken = new Set<string>();
+
+  for (const field of IMPORT_FIELDS[entity]) {
+    const candidates = [field.key, field.label, ...field.aliases].map(normalizeHeader);
+    const header = headers.find((value) => !taken.has(value) && candidates.includes(normalizeHeader(value)));
+    mapping[field.key] = header ?? null;
+    if (header) taken.add(header);
+  }
+
+  return mapping;
+}
+
+export function applyImportMapping(mapping: ImportMapping, values: Record<string, string>) {
+  const mapped: Record<string, string> = {};
+  for (const [field, header] of Object.entries(mapping)) {
+    mapped[field] = header ? (values[header] ?? "").trim() : "";
+  }
+  return mapped;
+}
+
+function optional(value: string | undefined) {
+  return value ? value : undefined;
+}
+
+// "Post-Production" and "post production" both become "post_production".
+function enumValue(value: string | undefined) {
+  return value ? value.trim().toLowerCase().replace(/[\s-]+/g, "_") : undefined;
+}
+
+function isCalendarDate(value: string) {
+  const parsed = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(parsed.getTime()) && parsed.toISOString().slice(0, 10) === value;
+}
+
+function checkDates(values: Record<string, string>, errors: ImportRowError[]) {
+  for (const [field, value] of Object.entries(values)) {
+    if (DATE_FIELDS.has(field) && /^\d{4}-\d{2}-\d{2}$/.test(value) && !isCalendarDate(value)) {
+      errors.push({ field, message: "Must be a valid date" });
+    }
+  }
+}
+
+function zodErrors(error: z.ZodError, skipFields: Set<string>) {
+  return error.issues
+    .map((issue) => {
+      const key = typeof issue.path[0] === "string" ? issue.path[0] : null;
+      const field = key ? (PAYLOAD_FIELD_NAMES[key] ?? key) : null;
+      return { field, message: issue.message };
+    })
+    .filter((item) => !item.field || !skipFields.has(item.field));
+}
+
+function finish<T>(schema: z.ZodType<T>, candidate: unknown, errors: ImportRowError[]): RowValidation<T> {
+  const parsed = schema.safeParse(candidate);
+  // A reference that could not be resolved already has a clearer message than the schema's.
+  const reported = new Set(errors.map((item) => item.field).filter((field): field is string => Boolean(field)));
+  const allErrors = [...errors, ...(parsed.success ? [] : zodErrors(parsed.error, reported))];
+
+  if (!parsed.success || allErrors.length > 0) {
+    return { ok: false, errors: allErrors };
+  }
+  return { ok: true, payload: parsed.data };
+}
+
+function resolveClient(value: string, lookups: ImportLookups, errors: ImportRowError[]) {
+  if (!value) return undefined;
+  if (UUID_PATTERN.test(value)) {
+    if (lookups.clientIds.has(value.toLowerCase())) return value.toLowerCase();
+    errors.push({ field: "client", message: `No client with id ${value}` });
+    return undefined;
+  }
+
+  const matches = lookups.clientIdsByName.get(value.toLowerCase()) ?? [];
+  if (matches.length === 1) return matches[0];
+  errors.push({
+    field: "client",
+    message:
+      matches.length === 0 ? `No client named "${value}"` : `Several clients are named "${value}"; use the client id`
+  });
+  return undefined;
+}
+
+function resolveProject(value: string, lookups: ImportLookups, errors: ImportRowError[]) {
+  if (!value) return undefined;
+  if (UUID_PATTERN.test(value)) {
+    const project = lookups.projectsById.get(value.toLowerCase());
+    if (!project) errors.push({ field: "project", message: `No project with id ${value}` });
+    return project;
+  }
+
+  const matches = lookups.projectsByName.get(value.toLowerCase()) ?? [];
+  if (matches.length === 1) return matches[0];
+  errors.push({
+    field: "project",
+    message:
+      matches.length === 0 ? `No project named "${value}"` : `Several projects are named "${value}"; use the project id`
+  });
+  return undefined;
+}
+
+function resolveAssignee(value: string, lookups: ImportLookups, errors: ImportRowError[]) {
+  if (!value) return undefined;
+  const userId = lookups.staffIdsByEmail.get(value.toLowerCase());
+  if (!userId) errors.push({ field: "assignee", message: `No team member with email ${value}` });
+  return userId;
+}
+
+// Budgets often arrive formatted ("$25,000.00"); the schema and the numeric column want plain digits.
+function budgetValue(value: string, errors: ImportRowError[]) {
+  if (!value) return undefined;
+  const cleaned = value.replace(/[\s,$€£]/g, "");
+  if (!/^\d+(\.\d{1,2})?$/.test(cleaned)) {
+    errors.push({ field: "budget", message: "Must be a number" });
+    return undefined;
+  }
+  return cleaned;
+}
+
+function numberValue(value: string) {
+  if (!value) return undefined;
+  return /^-?\d+(\.\d+)?$/.test(value) ? Number(value) : value;
+}
+
+function validateClientRow(values: Record<string, string>): RowValidation<ClientImportPayload> {
+  return finish(
+    clientCreateSchema,
+    {
+      name: optional(values.name),
+      company: optional(values.company),
+      email: optional(values.email),
+      phone: optional(values.phone),
+      notes: optional(values.notes)
+    },
+    []
+  );
+}
+
+function validateProjectRow(
+  values: Record<string, string>,
+  lookups: ImportLookups
+): RowValidation<ProjectImportPayload> {
+  const errors: ImportRowError[] = [];
+  checkDates(values, errors);
+
+  return finish(
+    projectCreateSchema,
+    {
+      clientId: resolveClient(values.client, lookups, errors),
+      name: optional(values.name),
+      description: optional(values.description),
+      currentPhase: enumValue(values.currentPhase),
+      priority: enumValue(values.priority),
+      budget: budgetValue(values.budget, errors),
+      startDate: optional(values.startDate),
+      deadline: optional(values.deadline)
+    },
+    errors
+  );
+}
+
+// Tasks without a phase column land in the project's current phase.
+function validateTaskRow(values: Record<string, string>, lookups: ImportLookups): RowValidation<TaskImportPayload> {
+  const errors: ImportRowError[] = [];
+  checkDates(values, errors);
+  const project = resolveProject(values.project, lookups, errors);
+
+  return finish(
+    taskCreateSchema,
+    {
+      projectId: project?.id,
+      title: optional(values.title),
+      description: optional(values.description),
+      phase: enumValue(values.phase) ?? project?.current_phase,
+      status: enumValue(values.status),
+      priority: enumValue(values.priority),
+      assignedTo: resolveAssignee(values.assignee, lookups, errors),
+      dueDate: optional(values.dueDate),
+      estimatedDays: numberValue(values.estimatedDays)
+    },
+    errors
+  );
+}
+
+export function validateImportRow(entity: ImportEntity, values: Record<string, string>, lookups: ImportLookups) {
+  if (entity === "clients") return validateClientRow(values);
+  if (entity === "projects") return validateProjectRow(values, lookups);
+  return validateTaskRow(values, lookups);
+}
@@ -0,0 +1,109 @@
+import { parse } from "csv-parse/sync";
+import ExcelJS from "exceljs";
+
+export type SpreadsheetFormat = "csv" | "xlsx";
+
+export type SpreadsheetRow = {
+  rowNumber: number;
+  values: Record<string, string>;
+};
+
+export type ParsedSpreadsheet = {
+  headers: string[];
+  rows: SpreadsheetRow[];
+};
+
+const XLSX_CONTENT_TYPE = "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+
+export function detectSpreadsheetFormat(fileName: string, contentType?: string): SpreadsheetFormat | null {
+  const extension = fileName.toLowerCase().split(".").pop();
+  if (extension === "csv") return "csv";
+  if (extension === "xlsx") return "xlsx";
+  if (contentType?.startsWith("text/csv")) return "csv";
+  if (contentType === XLSX_CONTENT_TYPE) return "xlsx";
+  return null;
+}
+
+// Blank header cells become "Column N" and repeated headers get a numeric suffix, so every column
+// can be addressed by name in a mapping.
+function normalizeHeaders(cells: string[]) {
+  const seen = new Map<string, number>();
+  return cells.map((cell, index) => {
+    const base = cell.trim() || `Column ${index + 1}`;
+    const count = (seen.get(base) ?? 0) + 1;
+    seen.set(base, count);
+    return count === 1 ? base : `${base} (${count})`;
+  });
+}
+
+// Row numbers are the ones a spreadsheet shows: the header is row 1 and blank rows still count.
+function toSpreadsheet(grid: string[][]): ParsedSpreadsheet {
+  const [headerCells = [], ...dataRows] = grid;
+  const headers = normalizeHeaders(headerCells);
+  const rows: SpreadsheetRow[] = [];
+
+  dataRows.forEach((cells, index) => {
+    if (cells.every((cell) => !cell.trim())) return;
+    const values: Record<string, string> = {};
+    headers.forEach((header, column) => {
+      values[header] = (cells[column] ?? "").trim();
+    });
+    rows.push({ rowNumber: index + 2, values });
+  });
+
+  return { headers, rows };
+}
+
+function parseCsv(body: Buffer) {
+  const grid = parse(body, {
+    bom: true,
+    relax_column_count: true,
+    skip_empty_lines: false
+  }) as string[][];
+  return toSpreadsheet(grid);
+}
+
+// Dates are written as YYYY-MM-DD, the format every import schema expects.
+function xlsxCellText(value: ExcelJS.CellValue): string {
+  if (value === null || typeof value === "undefined") return "";
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+  if (typeof value === "object") {
+    if ("richText" in value) return value.richText.map((part) => part.text).join("");
+    if ("text" in value) return String(value.text);
+    if ("result" in value) return xlsxCellText(value.result as ExcelJS.CellValue);
+    if ("error" in value) return "";
+  }
+  return String(value);
+}
+
+async function parseXlsx(body: Buffer) {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(body as unknown as ExcelJS.Buffer);
+  const sheet = workbook.worksheets[0];
+  if (!sheet) return { headers: [], rows: [] };
+
+  const grid: string[][] = [];
+  for (let rowNumber = 1; rowNumber <= sheet.rowCount; rowNumber += 1) {
+    const row = sheet.getRow(rowNumber);
+    const cells: string[] = [];
+    for (let column = 1; column <= sheet.columnCount; column += 1) {
+      cells.push(xlsxCellText(row.getCell(column).value));
+    }
+    grid.push(cells);
+  }
+
+  return toSpreadsheet(grid);
+}
+
+// Only the first worksheet of a workbook is read.
+export async function parseSpreadsheet(body: Buffer, format: SpreadsheetFormat) {
+  try {
+    const parsed = format === "csv" ? parseCsv(body) : await parseXlsx(body);
+    return { ok: true as const, spreadsheet: parsed };
+  } catch (error) {
+    return {
+      ok: false as const,
+      message: error instanceof Error ? error.message : "Could not read the file"
+    };
+  }
+}
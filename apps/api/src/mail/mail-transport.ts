@@ -0,0 +1,54 @@
+import { randomUUID } from "node:crypto";
+
+export type MailMessage = {
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+};
+
+export type MailTransport = {
+  name: string;
+  send(message: MailMessage): Promise<void>;
+};
+
+// Pulls the bare address out of `Name <address>` for the SMTP envelope.
+export function mailboxAddress(mailbox: string) {
+  const match = /<([^<>]+)>\s*$/.exec(mailbox);
+  return (match ? match[1] : mailbox).trim();
+}
+
+// RFC 2047 encoded-word for header values that are not plain ASCII.
+function encodeHeaderValue(value: string) {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, "utf8").toString("base64")}?=`;
+}
+
+function encodeMailbox(mailbox: string) {
+  const match = /^(.*?)\s*<([^<>]+)>\s*$/.exec(mailbox.replace(/[\r\n]+/g, " "));
+  if (!match || !match[1]) return mailboxAddress(mailbox);
+  const name = match[1].replace(/^"(.*)"$/, "$1");
+  // Display names with punctuation such as commas have to be quoted to stay one mailbox.
+  const displayName =
+    /[()<>[\]:;@\\,."]/.test(name) && /^[\x20-\x7e]*$/.test(name)
+      ? `"${name.replace(/["\\]/g, "\\$&")}"`
+      : encodeHeaderValue(name);
+  return `${displayName} <${match[2]}>`;
+}
+
+// A single-part plain text RFC 5322 message. The body is base64 so any UTF-8 and any line length
+// survive every relay; lines use CRLF as SMTP requires.
+export function formatMailMessage(message: MailMessage, date = new Date()) {
+  const domain = mailboxAddress(message.from).split("@")[1] ?? "localhost";
+  const body = Buffer.from(message.text.replace(/\r?\n/g, "\r\n"), "utf8").toString("base64");
+  const headers = [
+    `From: ${encodeMailbox(message.from)}`,
+    `To: ${encodeMailbox(message.to)}`,
+    `Subject: ${encodeHeaderValue(message.subject.replace(/[\r\n]+/g, " "))}`,
+    `Date: ${date.toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${domain}>`,
+    "MIME-Version: 1.0",
+    "Content-Type: text/plain; charset=utf-8",
+    "Content-Transfer-Encoding: base64"
+  ];
+  return `${headers.join("\r\n")}\r\n\r\n${body.replace(/.{1,76}/g, "$&\r\n")}`;
+}
@@ -0,0 +1,36 @@
+import { mkdir, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { formatMailMessage, type MailMessage, type MailTransport } from "./mail-transport.js";
+
+export type OutboxTransport = MailTransport & {
+  messages: MailMessage[];
+  clear(): void;
+};
+
+// Keeps sent messages in memory instead of delivering them; with a directory, each one is also
+// written as an `.eml` file that any mail client opens. Used in development and tests.
+export function createOutboxTransport(options: { directory?: string; maxMessages?: number } = {}): OutboxTransport {
+  const maxMessages = options.maxMessages ?? 100;
+  const messages: MailMessage[] = [];
+
+  return {
+    name: "outbox",
+    messages,
+    clear() {
+      messages.length = 0;
+    },
+    async send(message) {
+      messages.push(message);
+      if (messages.length > maxMessages) {
+        messages.splice(0, messages.length - maxMessages);
+      }
+
+      if (options.directory) {
+        await mkdir(options.directory, { recursive: true });
+        const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+        const fileName = `${stamp}-${Math.random().toString(36).slice(2, 8)}.eml`;
+        await writeFile(path.join(options.directory, fileName), formatMailMessage(message));
+      }
+    }
+  };
+}
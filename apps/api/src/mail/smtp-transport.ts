@@ -0,0 +1,154 @@
+import net from "node:net";
+import os from "node:os";
+import tls from "node:tls";
+import { formatMailMessage, mailboxAddress, type MailTransport } from "./mail-transport.js";
+
+type SmtpReply = { code: number; lines: string[] };
+
+// Collects replies off the socket. Multi-line replies mark every line but the last with a dash after
+// the code (`250-SIZE`, ..., `250 OK`).
+function createReplyReader(socket: net.Socket) {
+  const replies: SmtpReply[] = [];
+  const waiters: Array<{ resolve: (reply: SmtpReply) => void; reject: (error: Error) => void }> = [];
+  let buffered = "";
+  let lines: string[] = [];
+  let failure: Error | null = null;
+
+  const flush = () => {
+    while (waiters.length > 0 && replies.length > 0) {
+      waiters.shift()?.resolve(replies.shift() as SmtpReply);
+    }
+    if (failure) {
+      while (waiters.length > 0) {
+        waiters.shift()?.reject(failure);
+      }
+    }
+  };
+
+  const onData = (chunk: Buffer) => {
+    buffered += chunk.toString("utf8");
+    let newline = buffered.indexOf("\n");
+    while (newline >= 0) {
+      const line = buffered.slice(0, newline).replace(/\r$/, "");
+      buffered = buffered.slice(newline + 1);
+      lines.push(line.slice(4));
+      if (line[3] !== "-") {
+        replies.push({ code: Number(line.slice(0, 3)), lines });
+        lines = [];
+      }
+      newline = buffered.indexOf("\n");
+    }
+    flush();
+  };
+  const onError = (error: Error) => {
+    failure = error;
+    flush();
+  };
+  const onClose = () => {
+    failure ??= new Error("SMTP connection closed unexpectedly");
+    flush();
+  };
+
+  socket.on("data", onData);
+  socket.on("error", onError);
+  socket.on("close", onClose);
+
+  return {
+    read() {
+      return new Promise<SmtpReply>((resolve, reject) => {
+        waiters.push({ resolve, reject });
+        flush();
+      });
+    },
+    // Hands the socket over to TLS. The error listener stays so a late error on the raw socket is
+    // not an unhandled event.
+    detach() {
+      socket.off("data", onData);
+      socket.off("close", onClose);
+    }
+  };
+}
+
+function upgradeToTls(socket: net.Socket, host: string) {
+  return new Promise<tls.TLSSocket>((resolve, reject) => {
+    const secured = tls.connect({ socket, servername: host }, () => {
+      secured.off("error", reject);
+      resolve(secured);
+    });
+    secured.once("error", reject);
+  });
+}
+
+// Delivers each message over its own connection: implicit TLS when `secure` (port 465), otherwise
+// plain SMTP upgraded with STARTTLS whenever the server offers it. AUTH PLAIN is used when a username
+// is configured, and only ever over TLS. `requireTls` (on by default when there are credentials) fails
+// the send when a server does not offer STARTTLS instead of carrying on in plaintext.
+export function createSmtpTransport(options: {
+  host: string;
+  port: number;
+  secure: boolean;
+  requireTls?: boolean;
+  username?: string;
+  password?: string;
+  timeoutMs: number;
+}): MailTransport {
+  const requireTls = options.requireTls ?? Boolean(options.username);
+
+  return {
+    name: "smtp",
+    async send(message) {
+      let socket: net.Socket = options.secure
+        ? tls.connect({ host: options.host, port: options.port, servername: options.host })
+        : net.connect({ host: options.host, port: options.port });
+      socket.setTimeout(options.timeoutMs, () => socket.destroy(new Error("SMTP connection timed out")));
+      let reader = createReplyReader(socket);
+
+      // `label` names the command in errors so credentials never end up in logs.
+      const command = async (label: string, line: string | null, expected: number[]) => {
+        if (line !== null) {
+          socket.write(`${line}\r\n`);
+        }
+        const reply = await reader.read();
+        if (!expected.includes(reply.code)) {
+          throw new Error(`SMTP ${label} failed: ${reply.code} ${reply.lines.join(" ")}`.trim());
+        }
+        return reply;
+      };
+
+      try {
+        const clientName = os.hostname() || "localhost";
+        await command("greeting", null, [220]);
+        const hello = await command("EHLO", `EHLO ${clientName}`, [250]);
+
+        const offersStartTls = hello.lines.some((line) => /^STARTTLS\b/i.test(line));
+        if (!options.secure && !offersStartTls && (requireTls || options.username)) {
+          throw new Error("SMTP server does not offer STARTTLS; refusing to continue without TLS");
+        }
+
+        if (!options.secure && offersStartTls) {
+          await command("STARTTLS", "STARTTLS", [220]);
+          reader.detach();
+          socket = await upgradeToTls(socket, options.host);
+          socket.setTimeout(options.timeoutMs, () => socket.destroy(new Error("SMTP connection timed out")));
+          reader = createReplyReader(socket);
+          await command("EHLO", `EHLO ${clientName}`, [250]);
+        }
+
+        if (options.username) {
+          const credentials = Buffer.from(`\0${options.username}\0${options.password ?? ""}`, "utf8");
+          await command("AUTH", `AUTH PLAIN ${credentials.toString("base64")}`, [235]);
+        }
+
+        await command("MAIL FROM", `MAIL FROM:<${mailboxAddress(message.from)}>`, [250]);
+        await command("RCPT TO", `RCPT TO:<${mailboxAddress(message.to)}>`, [250, 251]);
+        await command("DATA", "DATA", [354]);
+        // Dot-stuffing: a line starting with "." gets a second one so it is not read as the end marker.
+        socket.write(formatMailMessage(message).replace(/^\./gm, ".."));
+        await command("message", ".", [250]);
+        await command("QUIT", "QUIT", [221]).catch(() => undefined);
+      } finally {
+        socket.destroy();
+      }
+    }
+  };
+}
@@ -1,7 +1,10 @@
 import type { NextFunction, Response } from "express";
+import { API_TOKEN_PREFIX, authenticateApiToken } from "../services/api-tokens.service.js";
 import { verifyAccessToken } from "../utils/tokens.js";
+import type { PrincipalType } from "../types/auth.js";
 import type { AuthenticatedRequest } from "../types/http.js";
-import { sendUnauthorized } from "../utils/http-error.js";
+import { logAndSendForbidden } from "../utils/authz.js";
+import { sendForbidden, sendUnauthorized } from "../utils/http-error.js";
 
 function extractBearerToken(authHeader?: string): string | null {
   if (!authHeader) return null;
@@ -10,27 +13,107 @@ function extractBearerToken(authHeader?: string): string | null {
   return token;
 }
 
-export function requireAuth(req: AuthenticatedRequest, res: Response, next: NextFunction) {
-  const token = extractBearerToken(req.header("authorization"));
-  if (!token) {
-    return sendUnauthorized(res, "Missing bearer token");
+const PRINCIPAL_DENIED_MESSAGES: Record<PrincipalType, string> = {
+  staff: "This endpoint is only available to client portal accounts",
+  client_user: "Client accounts can only use the client portal"
+};
+
+const READ_ONLY_METHODS = new Set(["GET", "HEAD", "OPTIONS"]);
+
+// How a router treats personal API tokens. "read" lets a token read whatever its owner can and refuses
+// every write. "project" also lets writes through, for routers whose write routes each declare the
+// project permission they need through hasProjectPermission, which checks it against the token's
+// scopes; a route there that no project permission covers has to refuse tokens itself.
+type ApiTokenAccess = "read" | "project";
+
+async function authenticateWithApiToken(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+  token: string,
+  access: ApiTokenAccess
+) {
+  const user = await authenticateApiToken({ token, ipAddress: req.ip });
+  if (!user) {
+    return sendUnauthorized(res, "Invalid, expired or revoked API token");
+  }
+
+  req.user = user;
+  const canWrite = access === "project" && user.apiToken?.scopes.some((scope) => scope !== "project:view");
+  if (!READ_ONLY_METHODS.has(req.method) && !canWrite) {
+    return logAndSendForbidden({ req, res, permission: "api_token:write", projectId: null });
   }
 
-  try {
-    const payload = verifyAccessToken(token);
-    if (payload.tokenType !== "access") {
-      return sendUnauthorized(res, "Invalid access token");
+  return next();
+}
+
+function authenticate(allowed: PrincipalType[], options: { apiTokens?: ApiTokenAccess } = {}) {
+  return (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    const token = extractBearerToken(req.header("authorization"));
+    if (!token) {
+      return sendUnauthorized(res, "Missing bearer token");
+    }
+
+    if (token.startsWith(API_TOKEN_PREFIX)) {
+      if (!options.apiTokens) {
+        return sendUnauthorized(res, "API tokens cannot be used for this endpoint; sign in instead");
+      }
+      authenticateWithApiToken(req, res, next, token, options.apiTokens).catch(next);
+      return;
+    }
+
+    try {
+      const payload = verifyAccessToken(token);
+      if (payload.tokenType !== "access") {
+        return sendUnauthorized(res, "Invalid access token");
+      }
+
+      // Tokens issued before client users existed carry no principal type and are staff tokens.
+      const principalType = payload.principalType ?? "staff";
+      if (!allowed.includes(principalType)) {
+        return sendForbidden(res, PRINCIPAL_DENIED_MESSAGES[principalType]);
+      }
+
+      req.user = {
+        id: payload.userId,
+        email: payload.email,
+        name: payload.name,
+        isAdmin: payload.isAdmin,
+        principalType,
+        clientId: payload.clientId ?? null
+      };
+
+      return next();
+    } catch {
+      return sendUnauthorized(res, "Invalid or expired token");
     }
+  };
+}
 
-    req.user = {
-      id: payload.userId,
-      email: payload.email,
-      name: payload.name,
-      isAdmin: payload.isAdmin
-    };
+// Staff endpoints. Client users are turned away here so no internal route has to remember to check.
+// Personal API tokens are accepted as well as session access tokens, but only to read.
+export const requireAuth = authenticate(["staff"], { apiTokens: "read" });
 
-    return next();
-  } catch {
-    return sendUnauthorized(res, "Invalid or expired token");
+// Staff endpoints inside a project (projects, tasks, files), where an API token may also write within
+// its scopes.
+export const requireProjectAuth = authenticate(["staff"], { apiTokens: "project" });
+
+// For the writes behind requireProjectAuth that no project permission covers, such as creating a
+// project: a token gets nothing to be scoped against there, so it is refused outright.
+export async function refuseApiTokens(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+  if (req.user?.apiToken) {
+    return logAndSendForbidden({ req, res, permission: "api_token:write", projectId: null });
   }
+
+  return next();
 }
+
+// Staff endpoints that need a signed-in session, such as managing API tokens: a token must not be able
+// to mint a broader one.
+export const requireSessionAuth = authenticate(["staff"]);
+
+// Client portal endpoints.
+export const requireClientAuth = authenticate(["client_user"]);
+
+// Endpoints that only touch the caller's own account, such as /auth/me and notifications.
+export const requireAnyAuth = authenticate(["staff", "client_user"]);
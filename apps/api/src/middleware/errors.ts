@@ -6,6 +6,11 @@ export function notFoundHandler(_req: Request, res: Response) {
 }
 
 export function errorHandler(err: unknown, _req: Request, res: Response, _next: NextFunction) {
+  // Body parsers reject oversized bodies with a typed error before any route runs.
+  if (typeof err === "object" && err !== null && "type" in err && err.type === "entity.too.large") {
+    return sendError(res, 413, "PAYLOAD_TOO_LARGE", "Request body is too large");
+  }
+
   const message = err instanceof Error ? err.message : "Internal server error";
   return sendError(res, 500, "INTERNAL_ERROR", message);
 }
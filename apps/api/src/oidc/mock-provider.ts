@@ -0,0 +1,232 @@
+import { createHash, generateKeyPairSync, randomBytes, sign, timingSafeEqual } from "node:crypto";
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+
+export type MockOidcAccount = {
+  subject?: string;
+  name?: string;
+  emailVerified?: boolean;
+};
+
+export type MockOidcProvider = {
+  issuer: string;
+  close(): Promise<void>;
+};
+
+type PendingCode = {
+  redirectUri: string;
+  codeChallenge: string;
+  nonce: string | null;
+  email: string;
+  account: Required<MockOidcAccount>;
+  expiresAt: number;
+};
+
+const CODE_TTL_MS = 60_000;
+
+function escapeHtml(value: string) {
+  return value.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { "content-type": "application/json", "cache-control": "no-store" });
+  res.end(JSON.stringify(body));
+}
+
+function readBody(req: http.IncomingMessage) {
+  return new Promise<string>((resolve, reject) => {
+    let body = "";
+    req.setEncoding("utf8");
+    req.on("data", (chunk: string) => {
+      body += chunk;
+    });
+    req.on("end", () => resolve(body));
+    req.on("error", reject);
+  });
+}
+
+function safeEqual(left: string, right: string) {
+  const a = Buffer.from(left);
+  const b = Buffer.from(right);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+// A minimal OpenID provider for local development and tests, so SSO can be exercised without a real
+// identity provider. It serves discovery, JWKS, an authorization endpoint and a token endpoint that
+// checks the client, the redirect URI and the PKCE verifier, and signs RS256 ID tokens.
+//
+// The authorization endpoint shows a sign-in form. With `login_hint` it signs that address in directly,
+// which is what the tests use. Addresses listed in `accounts` get that subject, name and verification
+// state; any other address is treated as verified.
+export async function startMockOidcProvider(input: {
+  clientId: string;
+  clientSecret?: string;
+  host?: string;
+  port?: number;
+  accounts?: Record<string, MockOidcAccount>;
+}): Promise<MockOidcProvider> {
+  const { privateKey, publicKey } = generateKeyPairSync("rsa", { modulusLength: 2048 });
+  const keyId = randomBytes(8).toString("hex");
+  const codes = new Map<string, PendingCode>();
+  let issuer = "";
+
+  const accountFor = (email: string, overrides: MockOidcAccount = {}): Required<MockOidcAccount> => {
+    const listed = input.accounts?.[email.toLowerCase()] ?? {};
+    return {
+      subject: listed.subject ?? `mock-${createHash("sha256").update(email.toLowerCase()).digest("hex").slice(0, 24)}`,
+      name: overrides.name || listed.name || email.split("@")[0],
+      emailVerified: overrides.emailVerified ?? listed.emailVerified ?? true
+    };
+  };
+
+  const signIdToken = (claims: Record<string, unknown>) => {
+    const header = Buffer.from(JSON.stringify({ alg: "RS256", typ: "JWT", kid: keyId })).toString("base64url");
+    const payload = Buffer.from(JSON.stringify(claims)).toString("base64url");
+    const signature = sign("sha256", Buffer.from(`${header}.${payload}`), privateKey).toString("base64url");
+    return `${header}.${payload}.${signature}`;
+  };
+
+  const handleAuthorize = (res: http.ServerResponse, params: URLSearchParams) => {
+    const redirectUri = params.get("redirect_uri");
+    if (
+      params.get("client_id") !== input.clientId ||
+      params.get("response_type") !== "code" ||
+      params.get("code_challenge_method") !== "S256" ||
+      !params.get("code_challenge") ||
+      !redirectUri
+    ) {
+      return sendJson(res, 400, { error: "invalid_request" });
+    }
+
+    const email = params.get("login_hint")?.trim();
+    if (!email) {
+      const hidden = [...params.entries()]
+        .map(([name, value]) => `<input type="hidden" name="${escapeHtml(name)}" value="${escapeHtml(value)}">`)
+        .join("");
+      res.writeHead(200, { "content-type": "text/html; charset=utf-8" });
+      res.end(
+        `<!doctype html><title>Mock OIDC sign-in</title><form method="get">${hidden}` +
+          `<p><label>Email <input name="login_hint" type="email" required autofocus></label></p>` +
+          `<p><label>Name <input name="name"></label></p>` +
+          `<p><label><input name="email_verified" type="checkbox" value="true" checked> Email verified</label></p>` +
+          `<p><button type="submit">Sign in</button></p></form>`
+      );
+      return;
+    }
+
+    const code = randomBytes(24).toString("base64url");
+    codes.set(code, {
+      redirectUri,
+      codeChallenge: params.get("code_challenge") as string,
+      nonce: params.get("nonce"),
+      email,
+      account: accountFor(email, {
+        name: params.get("name") ?? undefined,
+        emailVerified: params.has("name") ? params.get("email_verified") === "true" : undefined
+      }),
+      expiresAt: Date.now() + CODE_TTL_MS
+    });
+
+    const location = new URL(redirectUri);
+    location.searchParams.set("code", code);
+    const state = params.get("state");
+    if (state) location.searchParams.set("state", state);
+    res.writeHead(302, { location: location.toString() });
+    res.end();
+  };
+
+  const handleToken = async (req: http.IncomingMessage, res: http.ServerResponse) => {
+    const params = new URLSearchParams(await readBody(req));
+    let clientId = params.get("client_id");
+    let clientSecret = params.get("client_secret");
+    const basic = /^Basic\s+(.+)$/i.exec(req.headers.authorization ?? "");
+    if (basic) {
+      const [id, secret = ""] = Buffer.from(basic[1], "base64").toString("utf8").split(":");
+      clientId = decodeURIComponent(id);
+      clientSecret = decodeURIComponent(secret);
+    }
+    if (clientId !== input.clientId || (input.clientSecret && !safeEqual(clientSecret ?? "", input.clientSecret))) {
+      return sendJson(res, 401, { error: "invalid_client" });
+    }
+    if (params.get("grant_type") !== "authorization_code") {
+      return sendJson(res, 400, { error: "unsupported_grant_type" });
+    }
+
+    const code = params.get("code") ?? "";
+    const pending = codes.get(code);
+    codes.delete(code);
+    const verifier = params.get("code_verifier") ?? "";
+    if (
+      !pending ||
+      pending.expiresAt < Date.now() ||
+      pending.redirectUri !== params.get("redirect_uri") ||
+      createHash("sha256").update(verifier).digest("base64url") !== pending.codeChallenge
+    ) {
+      return sendJson(res, 400, { error: "invalid_grant" });
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    return sendJson(res, 200, {
+      access_token: randomBytes(24).toString("base64url"),
+      token_type: "Bearer",
+      expires_in: 3600,
+      id_token: signIdToken({
+        iss: issuer,
+        sub: pending.account.subject,
+        aud: input.clientId,
+        iat: now,
+        exp: now + 300,
+        ...(pending.nonce ? { nonce: pending.nonce } : {}),
+        email: pending.email,
+        email_verified: pending.account.emailVerified,
+        name: pending.account.name
+      })
+    });
+  };
+
+  const server = http.createServer((req, res) => {
+    const url = new URL(req.url ?? "/", issuer || "http://localhost");
+    if (req.method === "GET" && url.pathname === "/.well-known/openid-configuration") {
+      return sendJson(res, 200, {
+        issuer,
+        authorization_endpoint: `${issuer}/authorize`,
+        token_endpoint: `${issuer}/token`,
+        jwks_uri: `${issuer}/jwks`,
+        response_types_supported: ["code"],
+        subject_types_supported: ["public"],
+        id_token_signing_alg_values_supported: ["RS256"],
+        code_challenge_methods_supported: ["S256"],
+        token_endpoint_auth_methods_supported: ["client_secret_basic", "client_secret_post"]
+      });
+    }
+    if (req.method === "GET" && url.pathname === "/jwks") {
+      return sendJson(res, 200, {
+        keys: [{ ...publicKey.export({ format: "jwk" }), kid: keyId, use: "sig", alg: "RS256" }]
+      });
+    }
+    if (req.method === "GET" && url.pathname === "/authorize") {
+      return handleAuthorize(res, url.searchParams);
+    }
+    if (req.method === "POST" && url.pathname === "/token") {
+      handleToken(req, res).catch(() => sendJson(res, 500, { error: "server_error" }));
+      return;
+    }
+    return sendJson(res, 404, { error: "not_found" });
+  });
+
+  const host = input.host ?? "127.0.0.1";
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(input.port ?? 0, host, () => resolve());
+  });
+  issuer = `http://${host}:${(server.address() as AddressInfo).port}`;
+
+  return {
+    issuer,
+    close() {
+      return new Promise<void>((resolve, reject) => {
+        server.close((error) => (error ? reject(error) : resolve()));
+      });
+    }
+  };
+}
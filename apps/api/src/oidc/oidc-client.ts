@@ -0,0 +1,242 @@
+import {
+  createHash,
+  createPublicKey,
+  randomBytes,
+  verify as verifySignature,
+  type JsonWebKey,
+  type KeyObject
+} from "node:crypto";
+
+export type OidcClientConfig = {
+  issuer: string;
+  clientId: string;
+  clientSecret?: string;
+  redirectUri: string;
+  scopes: string[];
+  timeoutMs: number;
+};
+
+export type OidcIdTokenClaims = {
+  iss: string;
+  sub: string;
+  aud: string | string[];
+  exp: number;
+  iat: number;
+  azp?: string;
+  nonce?: string;
+  email?: string;
+  email_verified?: boolean | string;
+  name?: string;
+};
+
+export type OidcClient = {
+  issuer: string;
+  buildAuthorizationUrl(input: { state: string; nonce: string; codeChallenge: string }): Promise<string>;
+  exchangeCode(input: { code: string; codeVerifier: string; nonce: string }): Promise<OidcIdTokenClaims>;
+};
+
+type ProviderMetadata = {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+  token_endpoint_auth_methods_supported?: string[];
+};
+
+type Jwk = JsonWebKey & { kid?: string; kty?: string; use?: string };
+
+// Signature algorithms we accept on ID tokens. `none` and the HMAC family are never accepted.
+const SIGNATURE_ALGORITHMS: Record<string, { hash: string; kty: string; ecdsa?: boolean }> = {
+  RS256: { hash: "sha256", kty: "RSA" },
+  RS384: { hash: "sha384", kty: "RSA" },
+  RS512: { hash: "sha512", kty: "RSA" },
+  ES256: { hash: "sha256", kty: "EC", ecdsa: true },
+  ES384: { hash: "sha384", kty: "EC", ecdsa: true }
+};
+
+const CLOCK_SKEW_SECONDS = 60;
+
+// PKCE (RFC 7636) with the S256 method: the provider only releases tokens to whoever holds the verifier.
+export function createPkcePair() {
+  const codeVerifier = randomBytes(32).toString("base64url");
+  const codeChallenge = createHash("sha256").update(codeVerifier).digest("base64url");
+  return { codeVerifier, codeChallenge };
+}
+
+function decodeJsonSegment(segment: string) {
+  return JSON.parse(Buffer.from(segment, "base64url").toString("utf8")) as Record<string, unknown>;
+}
+
+async function fetchJson<T>(url: string, timeoutMs: number, init?: RequestInit) {
+  const response = await fetch(url, { ...init, signal: AbortSignal.timeout(timeoutMs) });
+  const text = await response.text();
+  if (!response.ok) {
+    // Token endpoint errors come back as `{ error, error_description }`.
+    let reason = `HTTP ${response.status}`;
+    try {
+      const body = JSON.parse(text) as { error?: string; error_description?: string };
+      if (body.error) reason = body.error_description ? `${body.error}: ${body.error_description}` : body.error;
+    } catch {
+      // Not JSON; the status is all we have.
+    }
+    throw new Error(`OIDC request to ${new URL(url).pathname} failed (${reason})`);
+  }
+  return JSON.parse(text) as T;
+}
+
+// Authorization-code flow with PKCE against any provider that publishes discovery metadata
+// (`/.well-known/openid-configuration`). Metadata and signing keys are cached for the process; keys are
+// fetched again when a token names one we have not seen, which is how providers rotate them.
+export function createOidcClient(config: OidcClientConfig): OidcClient {
+  const issuer = config.issuer.replace(/\/+$/, "");
+  let metadata: Promise<ProviderMetadata> | null = null;
+  let keys = new Map<string, { key: KeyObject; kty: string }>();
+
+  const discover = () => {
+    metadata ??= fetchJson<ProviderMetadata>(`${issuer}/.well-known/openid-configuration`, config.timeoutMs)
+      .then((document) => {
+        if (document.issuer.replace(/\/+$/, "") !== issuer) {
+          throw new Error(`OIDC discovery issuer ${document.issuer} does not match ${issuer}`);
+        }
+        if (!document.authorization_endpoint || !document.token_endpoint || !document.jwks_uri) {
+          throw new Error("OIDC discovery document is missing endpoints");
+        }
+        return document;
+      })
+      .catch((error: unknown) => {
+        metadata = null;
+        throw error;
+      });
+    return metadata;
+  };
+
+  const loadKeys = async () => {
+    const { jwks_uri } = await discover();
+    const jwks = await fetchJson<{ keys?: Jwk[] }>(jwks_uri, config.timeoutMs);
+    const next = new Map<string, { key: KeyObject; kty: string }>();
+    for (const [index, jwk] of (jwks.keys ?? []).entries()) {
+      if (jwk.use && jwk.use !== "sig") continue;
+      try {
+        next.set(jwk.kid ?? `#${index}`, {
+          key: createPublicKey({ key: jwk, format: "jwk" }),
+          kty: jwk.kty ?? ""
+        });
+      } catch {
+        // Key types node cannot load are skipped rather than failing every login.
+      }
+    }
+    keys = next;
+  };
+
+  const findKey = async (kid: string | undefined, kty: string) => {
+    const pick = () => {
+      if (kid) return keys.get(kid) ?? null;
+      const candidates = [...keys.values()].filter((entry) => entry.kty === kty);
+      return candidates.length === 1 ? candidates[0] : null;
+    };
+    let found = pick();
+    if (!found) {
+      await loadKeys();
+      found = pick();
+    }
+    return found;
+  };
+
+  const verifyIdToken = async (idToken: string, nonce: string) => {
+    const [headerSegment, payloadSegment, signatureSegment] = idToken.split(".");
+    if (!headerSegment || !payloadSegment || !signatureSegment) {
+      throw new Error("OIDC ID token is not a signed JWT");
+    }
+    const header = decodeJsonSegment(headerSegment) as { alg?: string; kid?: string };
+    const algorithm = SIGNATURE_ALGORITHMS[header.alg ?? ""];
+    if (!algorithm) {
+      throw new Error(`OIDC ID token uses an unsupported algorithm (${String(header.alg)})`);
+    }
+    const signingKey = await findKey(header.kid, algorithm.kty);
+    if (!signingKey || signingKey.kty !== algorithm.kty) {
+      throw new Error("OIDC ID token is signed with an unknown key");
+    }
+    const signatureValid = verifySignature(
+      algorithm.hash,
+      Buffer.from(`${headerSegment}.${payloadSegment}`),
+      algorithm.ecdsa ? { key: signingKey.key, dsaEncoding: "ieee-p1363" } : signingKey.key,
+      Buffer.from(signatureSegment, "base64url")
+    );
+    if (!signatureValid) {
+      throw new Error("OIDC ID token signature is invalid");
+    }
+
+    const claims = decodeJsonSegment(payloadSegment) as OidcIdTokenClaims;
+    const { issuer: expectedIssuer } = await discover();
+    const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    const now = Math.floor(Date.now() / 1000);
+    if (claims.iss !== expectedIssuer) {
+      throw new Error("OIDC ID token was issued by a different provider");
+    }
+    if (!audiences.includes(config.clientId) || (audiences.length > 1 && claims.azp !== config.clientId)) {
+      throw new Error("OIDC ID token was issued for a different client");
+    }
+    if (typeof claims.exp !== "number" || claims.exp + CLOCK_SKEW_SECONDS < now) {
+      throw new Error("OIDC ID token has expired");
+    }
+    if (typeof claims.iat !== "number" || claims.iat - CLOCK_SKEW_SECONDS > now) {
+      throw new Error("OIDC ID token is not valid yet");
+    }
+    if (claims.nonce !== nonce) {
+      throw new Error("OIDC ID token nonce does not match the login");
+    }
+    if (typeof claims.sub !== "string" || !claims.sub) {
+      throw new Error("OIDC ID token has no subject");
+    }
+    return claims;
+  };
+
+  return {
+    issuer,
+    async buildAuthorizationUrl(input) {
+      const { authorization_endpoint } = await discover();
+      const url = new URL(authorization_endpoint);
+      url.searchParams.set("response_type", "code");
+      url.searchParams.set("client_id", config.clientId);
+      url.searchParams.set("redirect_uri", config.redirectUri);
+      url.searchParams.set("scope", config.scopes.join(" "));
+      url.searchParams.set("state", input.state);
+      url.searchParams.set("nonce", input.nonce);
+      url.searchParams.set("code_challenge", input.codeChallenge);
+      url.searchParams.set("code_challenge_method", "S256");
+      return url.toString();
+    },
+    async exchangeCode(input) {
+      const { token_endpoint, token_endpoint_auth_methods_supported } = await discover();
+      const body = new URLSearchParams({
+        grant_type: "authorization_code",
+        code: input.code,
+        redirect_uri: config.redirectUri,
+        code_verifier: input.codeVerifier
+      });
+      const headers: Record<string, string> = {
+        "content-type": "application/x-www-form-urlencoded",
+        accept: "application/json"
+      };
+      // client_secret_basic is the default method; providers that only list client_secret_post get that.
+      const authMethods = token_endpoint_auth_methods_supported ?? ["client_secret_basic"];
+      if (config.clientSecret && authMethods.includes("client_secret_basic")) {
+        const credentials = `${encodeURIComponent(config.clientId)}:${encodeURIComponent(config.clientSecret)}`;
+        headers.authorization = `Basic ${Buffer.from(credentials).toString("base64")}`;
+      } else {
+        body.set("client_id", config.clientId);
+        if (config.clientSecret) body.set("client_secret", config.clientSecret);
+      }
+
+      const tokens = await fetchJson<{ id_token?: string }>(token_endpoint, config.timeoutMs, {
+        method: "POST",
+        headers,
+        body: body.toString()
+      });
+      if (!tokens.id_token) {
+        throw new Error("OIDC token response has no ID token");
+      }
+      return verifyIdToken(tokens.id_token, input.nonce);
+    }
+  };
+}
@@ -34,20 +34,28 @@ export function buildOpenApiSpec(baseUrl: string) {
       { name: "auth" },
       { name: "clients" },
       { name: "projects" },
+      { name: "project-templates" },
       { name: "tasks" },
       { name: "files" },
       { name: "analytics" },
       { name: "search" },
       { name: "users" },
       { name: "admin" },
-      { name: "notifications" }
+      { name: "notifications" },
+      { name: "portal" },
+      { name: "imports" },
+      { name: "exports" },
+      { name: "invitations" },
+      { name: "api-tokens" }
     ],
     components: {
       securitySchemes: {
         bearerAuth: {
           type: "http",
           scheme: "bearer",
-          bearerFormat: "JWT"
+          bearerFormat: "JWT",
+          description:
+            "A session access token, or a personal API token (adfix_pat_...) on endpoints outside /auth and /api-tokens; tokens only write under /projects, /tasks and /files, within their scopes"
         }
       },
       schemas: {
@@ -110,9 +118,9 @@ export function buildOpenApiSpec(baseUrl: string) {
       "/auth/login": {
         post: {
           tags: ["auth"],
-          summary: "Authenticate with email/password",
+          summary: "Authenticate with email/password; returns tokens, or an MFA challenge when a second factor is owed",
           responses: {
-            "200": { description: "Login successful" },
+            "200": { description: "Login successful, or `mfa_required` / `mfa_enrollment_required` challenge" },
             "401": { description: "Invalid credentials", content: { "application/json": { schema: { $ref: "#/components/schemas/ErrorResponse" } } } },
             "400": { description: "Invalid payload", content: { "application/json": { schema: { $ref: "#/components/schemas/ErrorResponse" } } } }
           }
@@ -143,10 +151,124 @@ export function buildOpenApiSpec(baseUrl: string) {
           responses: { "204": { description: "All sessions revoked" }, ...errorResponses }
         }
       },
+      "/auth/login/mfa": {
+        post: {
+          tags: ["auth"],
+          summary: "Second login step: exchange a challenge token and a TOTP or recovery code for tokens",
+          responses: { "200": { description: "Login successful" }, ...errorResponses }
+        }
+      },
+      "/auth/login/mfa/enroll": {
+        post: {
+          tags: ["auth"],
+          summary: "During an enrollment challenge: get the TOTP secret and otpauth:// provisioning URI",
+          responses: { "200": { description: "TOTP secret and provisioning URI" }, ...errorResponses }
+        }
+      },
+      "/auth/password/forgot": {
+        post: {
+          tags: ["auth"],
+          summary: "Email a single-use password reset link; answers the same for unknown addresses",
+          responses: { "202": { description: "Reset requested" }, ...errorResponses }
+        }
+      },
+      "/auth/password/reset": {
+        post: {
+          tags: ["auth"],
+          summary: "Set a new password with a reset token; revokes every session of the account",
+          responses: { "204": { description: "Password reset" }, ...errorResponses }
+        }
+      },
+      "/auth/verify-email": {
+        post: {
+          tags: ["auth"],
+          summary: "Confirm an email address with the token from the verification email",
+          responses: { "200": { description: "Email verified" }, ...errorResponses }
+        }
+      },
+      "/auth/verify-email/resend": withAuth({
+        post: {
+          tags: ["auth"],
+          summary: "Send a new verification email to the current user",
+          responses: { "202": { description: "Verification email sent" }, ...errorResponses }
+        }
+      }),
+      "/auth/invitations/lookup": {
+        post: {
+          tags: ["auth"],
+          summary: "Show who sent an invitation token, for which email, project and role",
+          responses: { "200": { description: "Invitation details" }, ...errorResponses }
+        }
+      },
+      "/auth/invitations/accept": {
+        post: {
+          tags: ["auth"],
+          summary: "Create the invited account, join the invited project team and sign in",
+          responses: { "201": { description: "Account created" }, ...errorResponses }
+        }
+      },
+      "/auth/oidc": {
+        get: {
+          tags: ["auth"],
+          summary: "Whether single sign-on is configured, and the provider name to show",
+          responses: { "200": { description: "Single sign-on status" }, ...errorResponses }
+        }
+      },
+      "/auth/oidc/start": {
+        post: {
+          tags: ["auth"],
+          summary:
+            "Start an OpenID Connect login (authorization code + PKCE); returns the provider URL and a login secret the browser keeps for the callback",
+          responses: { "200": { description: "Authorization URL and login secret" }, ...errorResponses }
+        }
+      },
+      "/auth/oidc/callback": {
+        post: {
+          tags: ["auth"],
+          summary:
+            "Finish single sign-on with the provider's code and state plus the login secret from the start; returns tokens or an MFA challenge",
+          responses: { "200": { description: "Session tokens or MFA challenge" }, ...errorResponses }
+        }
+      },
+      "/auth/mfa": withAuth({
+        get: {
+          tags: ["auth"],
+          summary: "Own MFA status: enabled, pending enrollment, recovery codes left, workspace requirement",
+          responses: { "200": { description: "MFA status" }, ...errorResponses }
+        }
+      }),
+      "/auth/mfa/enroll": withAuth({
+        post: {
+          tags: ["auth"],
+          summary: "Start TOTP enrollment; returns the secret and otpauth:// provisioning URI",
+          responses: { "200": { description: "TOTP secret and provisioning URI" }, ...errorResponses }
+        }
+      }),
+      "/auth/mfa/verify": withAuth({
+        post: {
+          tags: ["auth"],
+          summary: "Confirm enrollment with a code; returns single-use recovery codes once",
+          responses: { "200": { description: "MFA enabled" }, ...errorResponses }
+        }
+      }),
+      "/auth/mfa/recovery-codes": withAuth({
+        post: {
+          tags: ["auth"],
+          summary: "Replace recovery codes (requires a current code)",
+          responses: { "200": { description: "New recovery codes" }, ...errorResponses }
+        }
+      }),
+      "/auth/mfa/disable": withAuth({
+        post: {
+          tags: ["auth"],
+          summary: "Turn MFA off with a code or recovery code; refused while the workspace requires MFA",
+          responses: { "204": { description: "MFA disabled" }, ...errorResponses }
+        }
+      }),
       "/auth/me": withAuth({
         get: {
           tags: ["auth"],
-          summary: "Get current authenticated user",
+          summary: "Get current authenticated user (staff or client portal account)",
           responses: { "200": { description: "Current user" }, ...errorResponses }
         }
       }),
@@ -163,6 +285,13 @@ export function buildOpenApiSpec(baseUrl: string) {
           responses: { "201": { description: "Client created" }, ...errorResponses }
         }
       }),
+      "/clients/duplicates": withAuth({
+        get: {
+          tags: ["clients"],
+          summary: "List likely duplicate clients by fuzzy name, company and email similarity",
+          responses: { "200": { description: "Duplicate candidate pairs" }, ...errorResponses }
+        }
+      }),
       "/clients/{id}": withAuth({
         get: {
           tags: ["clients"],
@@ -180,6 +309,49 @@ export function buildOpenApiSpec(baseUrl: string) {
           responses: { "204": { description: "Client deleted" }, ...errorResponses }
         }
       }),
+      "/clients/{id}/contacts": withAuth({
+        get: {
+          tags: ["clients"],
+          summary: "List client contacts (primary first)",
+          responses: { "200": { description: "Client contacts" }, ...errorResponses }
+        },
+        post: {
+          tags: ["clients"],
+          summary: "Create client contact; isPrimary demotes the current primary contact",
+          responses: { "201": { description: "Contact created" }, ...errorResponses }
+        }
+      }),
+      "/clients/{id}/contacts/{contactId}": withAuth({
+        put: {
+          tags: ["clients"],
+          summary: "Update client contact",
+          responses: { "200": { description: "Contact updated" }, ...errorResponses }
+        },
+        delete: {
+          tags: ["clients"],
+          summary: "Delete client contact and detach it from projects",
+          responses: { "204": { description: "Contact deleted" }, ...errorResponses }
+        }
+      }),
+      "/clients/{id}/users": withAuth({
+        get: {
+          tags: ["clients"],
+          summary: "List client portal accounts of a client",
+          responses: { "200": { description: "Client users" }, ...errorResponses }
+        },
+        post: {
+          tags: ["admin"],
+          summary: "Admin: create a client portal account",
+          responses: { "201": { description: "Client user created" }, ...errorResponses }
+        }
+      }),
+      "/clients/{id}/merge": withAuth({
+        post: {
+          tags: ["admin"],
+          summary: "Admin: merge a duplicate client into this one",
+          responses: { "200": { description: "Clients merged" }, ...errorResponses }
+        }
+      }),
 
       "/projects": withAuth({
         get: {
@@ -213,10 +385,18 @@ export function buildOpenApiSpec(baseUrl: string) {
       "/projects/{id}/phase": withAuth({
         patch: {
           tags: ["projects"],
-          summary: "Transition project phase",
+          summary:
+            "Transition project phase; moving into delivery returns 409 DELIVERABLES_NOT_APPROVED until every deliverable is approved, unless the owner sends overrideApprovals",
           responses: { "200": { description: "Phase changed" }, ...errorResponses }
         }
       }),
+      "/projects/{id}/phase/override": withAuth({
+        post: {
+          tags: ["admin"],
+          summary: "Admin: move project back to an earlier phase (reason required)",
+          responses: { "200": { description: "Phase overridden" }, ...errorResponses }
+        }
+      }),
       "/projects/{id}/activity": withAuth({
         get: {
           tags: ["projects"],
@@ -224,6 +404,20 @@ export function buildOpenApiSpec(baseUrl: string) {
           responses: { "200": { description: "Project activity feed" }, ...errorResponses }
         }
       }),
+      "/projects/{id}/phase-history": withAuth({
+        get: {
+          tags: ["projects"],
+          summary: "List project phase history (entered/exited timestamps per phase)",
+          responses: { "200": { description: "Project phase history" }, ...errorResponses }
+        }
+      }),
+      "/projects/{id}/schedule": withAuth({
+        get: {
+          tags: ["projects"],
+          summary: "Compute project schedule (critical path, projected finish, slack per task, slip vs deadline)",
+          responses: { "200": { description: "Project schedule" }, ...errorResponses }
+        }
+      }),
       "/projects/{id}/team": withAuth({
         get: {
           tags: ["projects"],
@@ -236,6 +430,25 @@ export function buildOpenApiSpec(baseUrl: string) {
           responses: { "201": { description: "Project team member added/updated" }, ...errorResponses }
         }
       }),
+      "/projects/{id}/stakeholders": withAuth({
+        get: {
+          tags: ["projects"],
+          summary: "List client contacts attached to the project as stakeholders",
+          responses: { "200": { description: "Project stakeholders" }, ...errorResponses }
+        },
+        post: {
+          tags: ["projects"],
+          summary: "Attach a contact of the project's client as a stakeholder, with an optional role",
+          responses: { "201": { description: "Stakeholder added/updated" }, ...errorResponses }
+        }
+      }),
+      "/projects/{id}/stakeholders/{contactId}": withAuth({
+        delete: {
+          tags: ["projects"],
+          summary: "Detach a stakeholder",
+          responses: { "204": { description: "Stakeholder removed" }, ...errorResponses }
+        }
+      }),
       "/projects/{id}/team/{userId}": withAuth({
         delete: {
           tags: ["projects"],
@@ -244,6 +457,36 @@ export function buildOpenApiSpec(baseUrl: string) {
         }
       }),
 
+      "/project-templates": withAuth({
+        get: {
+          tags: ["project-templates"],
+          summary: "List project templates",
+          responses: { "200": { description: "Project templates list" }, ...errorResponses }
+        },
+        post: {
+          tags: ["project-templates"],
+          summary: "Admin: create project template with per-phase tasks",
+          responses: { "201": { description: "Project template created" }, ...errorResponses }
+        }
+      }),
+      "/project-templates/{id}": withAuth({
+        get: {
+          tags: ["project-templates"],
+          summary: "Get project template with per-phase tasks",
+          responses: { "200": { description: "Project template detail" }, ...errorResponses }
+        },
+        put: {
+          tags: ["project-templates"],
+          summary: "Admin: update project template (tasks are replaced when provided)",
+          responses: { "200": { description: "Project template updated" }, ...errorResponses }
+        },
+        delete: {
+          tags: ["project-templates"],
+          summary: "Admin: delete project template",
+          responses: { "204": { description: "Project template deleted" }, ...errorResponses }
+        }
+      }),
+
       "/tasks": withAuth({
         get: {
           tags: ["tasks"],
@@ -299,6 +542,25 @@ export function buildOpenApiSpec(baseUrl: string) {
           responses: { "204": { description: "Task comment deleted" }, ...errorResponses }
         }
       }),
+      "/tasks/{id}/dependencies": withAuth({
+        get: {
+          tags: ["tasks"],
+          summary: "List task dependencies (blocked_by and blocking)",
+          responses: { "200": { description: "Task dependencies" }, ...errorResponses }
+        },
+        post: {
+          tags: ["tasks"],
+          summary: "Add task dependency (rejects cycles and cross-project links)",
+          responses: { "201": { description: "Task dependency created" }, ...errorResponses }
+        }
+      }),
+      "/tasks/{id}/dependencies/{dependsOnTaskId}": withAuth({
+        delete: {
+          tags: ["tasks"],
+          summary: "Remove task dependency",
+          responses: { "204": { description: "Task dependency removed" }, ...errorResponses }
+        }
+      }),
       "/tasks/bulk/status": withAuth({
         post: {
           tags: ["tasks"],
@@ -317,10 +579,57 @@ export function buildOpenApiSpec(baseUrl: string) {
       "/files/project/{projectId}": withAuth({
         get: {
           tags: ["files"],
-          summary: "List files by project",
+          summary: "List files by project (folderId=<uuid>|root filter; view=tree nests folders and files)",
           responses: { "200": { description: "Project files" }, ...errorResponses }
         }
       }),
+      "/files/project/{projectId}/folders": withAuth({
+        get: {
+          tags: ["files"],
+          summary: "List the project's file folders (flat, with default_file_types)",
+          responses: { "200": { description: "Project folders" }, ...errorResponses }
+        }
+      }),
+      "/files/project/{projectId}/export-bundles": withAuth({
+        get: {
+          tags: ["files"],
+          summary: "List the project's most recent ZIP export bundles",
+          responses: { "200": { description: "Export bundles" }, ...errorResponses }
+        },
+        post: {
+          tags: ["files"],
+          summary: "Queue a ZIP export of the project's files (optional fileType or folderId filter)",
+          responses: { "202": { description: "Export bundle queued" }, ...errorResponses }
+        }
+      }),
+      "/files/export-bundles/{bundleId}": withAuth({
+        get: {
+          tags: ["files"],
+          summary: "Get an export bundle's status (queued, running, ready or failed)",
+          responses: { "200": { description: "Export bundle" }, ...errorResponses }
+        }
+      }),
+      "/files/export-bundles/{bundleId}/download-url": withAuth({
+        get: {
+          tags: ["files"],
+          summary: "Get a signed download URL for a ready export bundle (409 EXPORT_NOT_READY otherwise)",
+          responses: { "200": { description: "Download URL generated" }, ...errorResponses }
+        }
+      }),
+      "/files/folders": withAuth({
+        post: {
+          tags: ["files"],
+          summary: "Create a folder at the project root or under parentId",
+          responses: { "201": { description: "Folder created" }, ...errorResponses }
+        }
+      }),
+      "/files/folders/{folderId}": withAuth({
+        patch: {
+          tags: ["files"],
+          summary: "Rename a folder and/or move it under another parent (null = top level)",
+          responses: { "200": { description: "Folder updated" }, ...errorResponses }
+        }
+      }),
       "/files/link": withAuth({
         post: {
           tags: ["files"],
@@ -331,35 +640,163 @@ export function buildOpenApiSpec(baseUrl: string) {
       "/files/upload": withAuth({
         post: {
           tags: ["files"],
-          summary: "Register uploaded file metadata",
-          responses: { "201": { description: "Uploaded file created" }, ...errorResponses }
+          summary: "Register uploaded file metadata (MIME allowlist, content sniffing, malware scan)",
+          responses: {
+            "201": { description: "Uploaded file created in pending_scan; the malware scan runs in the background" },
+            "415": { description: "Executable, script, or mismatched file content" },
+            ...errorResponses
+          }
         }
       }),
       "/files/upload-url": withAuth({
         post: {
           tags: ["files"],
-          summary: "Get mock signed upload URL",
+          summary: "Get signed upload URL from the storage driver (enforces UPLOAD_MAX_BYTES)",
           responses: { "200": { description: "Upload URL generated" }, ...errorResponses }
         }
       }),
       "/files/complete-upload": withAuth({
         post: {
           tags: ["files"],
-          summary: "Finalize upload record",
-          responses: { "201": { description: "Upload completed" }, ...errorResponses }
+          summary: "Finalize upload after verifying size, checksum_sha256, and sniffed content, then queue its scan",
+          responses: {
+            "201": { description: "Upload completed; status is pending_scan until the background scan finishes" },
+            "415": { description: "Executable, script, or mismatched file content" },
+            ...errorResponses
+          }
         }
       }),
       "/files/{id}/download-url": withAuth({
         get: {
           tags: ["files"],
-          summary: "Get download URL for file",
+          summary: "Get download URL for file (409 FILE_NOT_AVAILABLE unless its status is available)",
           responses: { "200": { description: "Download URL generated" }, ...errorResponses }
         }
       }),
+      "/files/{id}/preview": withAuth({
+        get: {
+          tags: ["files"],
+          summary: "Get a signed URL for a generated preview (size=small|medium|large, default medium)",
+          responses: { "200": { description: "Preview URL generated" }, ...errorResponses }
+        }
+      }),
+      "/storage/objects": {
+        put: {
+          tags: ["files"],
+          summary: "Upload object bytes through a signed local-storage URL (no bearer token)",
+          responses: {
+            "200": { description: "Object stored" },
+            "403": { description: "Invalid or expired signature" },
+            "413": { description: "Object exceeds the upload limit" }
+          }
+        },
+        get: {
+          tags: ["files"],
+          summary: "Download object bytes through a signed local-storage URL (no bearer token)",
+          responses: {
+            "200": { description: "Object stream" },
+            "403": { description: "Invalid or expired signature" },
+            "404": { description: "Object not found" }
+          }
+        }
+      },
+      "/files/{id}/versions": withAuth({
+        get: {
+          tags: ["files"],
+          summary: "List every version in the file's version chain (newest first)",
+          responses: { "200": { description: "File versions" }, ...errorResponses }
+        },
+        post: {
+          tags: ["files"],
+          summary: "Add a new version (verified upload or external link) to the file's chain",
+          responses: { "201": { description: "File version created" }, ...errorResponses }
+        }
+      }),
+      "/files/{id}/restore/{version}": withAuth({
+        post: {
+          tags: ["files"],
+          summary: "Restore an earlier version by copying it forward as the new latest version",
+          responses: { "201": { description: "File version restored" }, ...errorResponses }
+        }
+      }),
+      "/files/{id}/approvals": withAuth({
+        get: {
+          tags: ["files"],
+          summary: "List approval requests and decisions for every version of a deliverable or proposal",
+          responses: { "200": { description: "File approvals" }, ...errorResponses }
+        },
+        post: {
+          tags: ["files"],
+          summary: "Ask a reviewer to approve the latest version of a deliverable or proposal",
+          responses: { "201": { description: "Approval requested" }, ...errorResponses }
+        }
+      }),
+      "/files/approvals/{approvalId}/decision": withAuth({
+        post: {
+          tags: ["files"],
+          summary: "Approve, reject or request changes (note required unless approving); reviewer only",
+          responses: { "200": { description: "Decision recorded" }, ...errorResponses }
+        }
+      }),
+      "/files/{id}/scan": withAuth({
+        post: {
+          tags: ["files"],
+          summary: "Queue another malware scan for a file still in pending_scan",
+          responses: { "202": { description: "Scan queued" }, ...errorResponses }
+        }
+      }),
+      "/files/{id}/share-links": withAuth({
+        get: {
+          tags: ["files"],
+          summary: "List share links for a file version, including revoked and expired ones",
+          responses: { "200": { description: "Share links" }, ...errorResponses }
+        },
+        post: {
+          tags: ["files"],
+          summary: "Create a public share link (expiresAt defaults to 7 days; optional password and maxDownloads)",
+          responses: { "201": { description: "Share link created; the token is only returned once" }, ...errorResponses }
+        }
+      }),
+      "/files/{id}/share-links/{linkId}": withAuth({
+        delete: {
+          tags: ["files"],
+          summary: "Revoke a share link",
+          responses: { "200": { description: "Share link revoked" }, ...errorResponses }
+        }
+      }),
+      "/share/{token}": {
+        get: {
+          tags: ["files"],
+          summary: "Download a shared file, or be redirected to its external URL (no bearer token)",
+          responses: {
+            "200": { description: "File stream" },
+            "302": { description: "Redirect to the linked external file" },
+            "401": { description: "Password required" },
+            "404": { description: "Unknown share link" },
+            "410": { description: "Share link revoked, expired, or out of downloads" }
+          }
+        },
+        post: {
+          tags: ["files"],
+          summary: "Open a password-protected share link (form or JSON body with password)",
+          responses: {
+            "200": { description: "File stream" },
+            "302": { description: "Redirect to the linked external file" },
+            "401": { description: "Password required or invalid" },
+            "404": { description: "Unknown share link" },
+            "410": { description: "Share link revoked, expired, or out of downloads" }
+          }
+        }
+      },
       "/files/{id}": withAuth({
+        patch: {
+          tags: ["files"],
+          summary: "Rename the latest version and/or move every version into a folder (null = unfiled)",
+          responses: { "200": { description: "File updated" }, ...errorResponses }
+        },
         delete: {
           tags: ["files"],
-          summary: "Delete file",
+          summary: "Delete file (all versions)",
           responses: { "204": { description: "File deleted" }, ...errorResponses }
         }
       }),
@@ -392,6 +829,13 @@ export function buildOpenApiSpec(baseUrl: string) {
           responses: { "200": { description: "Timeline analytics" }, ...errorResponses }
         }
       }),
+      "/analytics/phase-durations": withAuth({
+        get: {
+          tags: ["analytics"],
+          summary: "Time-in-phase analytics: average, median and p90 per phase (RBAC scoped)",
+          responses: { "200": { description: "Phase duration analytics" }, ...errorResponses }
+        }
+      }),
       "/analytics/projects.csv": withAuth({
         get: {
           tags: ["analytics"],
@@ -406,6 +850,13 @@ export function buildOpenApiSpec(baseUrl: string) {
           responses: { "200": { description: "CSV download" }, ...errorResponses }
         }
       }),
+      "/analytics/phase-durations.csv": withAuth({
+        get: {
+          tags: ["analytics"],
+          summary: "Phase duration analytics CSV",
+          responses: { "200": { description: "CSV download" }, ...errorResponses }
+        }
+      }),
 
       "/search": withAuth({
         get: {
@@ -436,6 +887,185 @@ export function buildOpenApiSpec(baseUrl: string) {
         }
       }),
 
+      "/imports": withAuth({
+        get: {
+          tags: ["imports"],
+          summary: "Admin: list import runs",
+          responses: { "200": { description: "Import runs" }, ...errorResponses }
+        },
+        post: {
+          tags: ["imports"],
+          summary: "Admin: upload a CSV or XLSX file (raw body, ?entity=&fileName=) and get a column-mapping preview",
+          responses: { "201": { description: "Import run with suggested mapping" }, ...errorResponses }
+        }
+      }),
+      "/imports/{id}": withAuth({
+        get: {
+          tags: ["imports"],
+          summary: "Admin: get an import run with per-row results",
+          responses: { "200": { description: "Import run" }, ...errorResponses }
+        }
+      }),
+      "/imports/{id}/dry-run": withAuth({
+        post: {
+          tags: ["imports"],
+          summary: "Admin: validate every row with a column mapping without creating anything",
+          responses: { "200": { description: "Dry-run report" }, ...errorResponses }
+        }
+      }),
+      "/imports/{id}/commit": withAuth({
+        post: {
+          tags: ["imports"],
+          summary: "Admin: create every row of a validated import in one transaction",
+          responses: { "200": { description: "Import committed" }, ...errorResponses }
+        }
+      }),
+      "/imports/{id}/undo": withAuth({
+        post: {
+          tags: ["imports"],
+          summary: "Admin: remove the records a committed import created",
+          responses: { "200": { description: "Import undone" }, ...errorResponses }
+        }
+      }),
+      "/board-imports": withAuth({
+        get: {
+          tags: ["imports"],
+          summary: "Admin: list Trello and Asana board imports, optionally for one project",
+          responses: { "200": { description: "Board imports" }, ...errorResponses }
+        },
+        post: {
+          tags: ["imports"],
+          summary: "Admin: upload a Trello or Asana JSON export (raw body, ?source=&projectId=&fileName=)",
+          responses: { "201": { description: "Board import with its lists and members" }, ...errorResponses }
+        }
+      }),
+      "/board-imports/{id}": withAuth({
+        get: {
+          tags: ["imports"],
+          summary: "Admin: get a board import with list-to-phase mapping, member matches and report",
+          responses: { "200": { description: "Board import" }, ...errorResponses }
+        }
+      }),
+      "/board-imports/{id}/commit": withAuth({
+        post: {
+          tags: ["imports"],
+          summary: "Admin: create tasks, comments and linked files from mapped lists and store the reconciliation report",
+          responses: { "200": { description: "Board import committed" }, ...errorResponses }
+        }
+      }),
+
+      "/invitations": withAuth({
+        get: {
+          tags: ["invitations"],
+          summary: "List pending invitations (admins: all; others: the ones they sent)",
+          responses: { "200": { description: "Pending invitations" }, ...errorResponses }
+        },
+        post: {
+          tags: ["invitations"],
+          summary: "Invite an email, optionally onto a project with a role (admins, or project managers for their projects)",
+          responses: { "201": { description: "Invitation sent" }, ...errorResponses }
+        }
+      }),
+      "/invitations/{id}": withAuth({
+        delete: {
+          tags: ["invitations"],
+          summary: "Revoke a pending invitation",
+          responses: { "204": { description: "Invitation revoked" }, ...errorResponses }
+        }
+      }),
+
+      "/api-tokens": withAuth({
+        get: {
+          tags: ["api-tokens"],
+          summary: "List your personal API tokens, including revoked and expired ones",
+          responses: { "200": { description: "API tokens" }, ...errorResponses }
+        },
+        post: {
+          tags: ["api-tokens"],
+          summary: "Create a personal API token with scopes and an expiry; the token is only returned here",
+          responses: { "201": { description: "API token created" }, ...errorResponses }
+        }
+      }),
+      "/api-tokens/{id}": withAuth({
+        delete: {
+          tags: ["api-tokens"],
+          summary: "Revoke one of your personal API tokens",
+          responses: { "204": { description: "API token revoked" }, ...errorResponses }
+        }
+      }),
+
+      "/data-exports": withAuth({
+        get: {
+          tags: ["exports"],
+          summary: "List data exports (admins see all; others see exports they requested or that cover them)",
+          responses: { "200": { description: "Data exports" }, ...errorResponses }
+        }
+      }),
+      "/data-exports/workspace": withAuth({
+        post: {
+          tags: ["exports"],
+          summary: "Admin: queue a full workspace export (JSON lines per table plus a manifest)",
+          responses: { "202": { description: "Workspace export queued" }, ...errorResponses }
+        }
+      }),
+      "/data-exports/users/{userId}": withAuth({
+        post: {
+          tags: ["exports"],
+          summary: "Queue a personal data export for yourself, or for any user as an admin",
+          responses: { "202": { description: "Personal data export queued" }, ...errorResponses }
+        }
+      }),
+      "/data-exports/{id}": withAuth({
+        get: {
+          tags: ["exports"],
+          summary: "Get a data export's status, schema version and row counts",
+          responses: { "200": { description: "Data export" }, ...errorResponses }
+        }
+      }),
+      "/data-exports/{id}/download-url": withAuth({
+        get: {
+          tags: ["exports"],
+          summary: "Get a signed download URL for a ready data export",
+          responses: { "200": { description: "Signed download URL" }, ...errorResponses }
+        }
+      }),
+
+      "/portal/projects": withAuth({
+        get: {
+          tags: ["portal"],
+          summary: "Client portal: list the client's projects (phase and dates only)",
+          responses: { "200": { description: "Portal projects" }, ...errorResponses }
+        }
+      }),
+      "/portal/projects/{id}": withAuth({
+        get: {
+          tags: ["portal"],
+          summary: "Client portal: project phase milestones, shared deliverables and approval requests",
+          responses: { "200": { description: "Portal project detail" }, ...errorResponses }
+        }
+      }),
+      "/portal/approvals": withAuth({
+        get: {
+          tags: ["portal"],
+          summary: "Client portal: approval requests addressed to the client's accounts",
+          responses: { "200": { description: "Portal approvals" }, ...errorResponses }
+        }
+      }),
+      "/portal/approvals/{approvalId}/decision": withAuth({
+        post: {
+          tags: ["portal"],
+          summary: "Client portal: approve, reject or request changes; named reviewer only",
+          responses: { "200": { description: "Decision recorded" }, ...errorResponses }
+        }
+      }),
+      "/portal/files/{id}/download-url": withAuth({
+        get: {
+          tags: ["portal"],
+          summary: "Client portal: signed download URL for a shared deliverable or a file under review",
+          responses: { "200": { description: "Signed download URL" }, ...errorResponses }
+        }
+      }),
+
       "/users": withAuth({
         get: {
           tags: ["users"],
@@ -469,6 +1099,51 @@ export function buildOpenApiSpec(baseUrl: string) {
           responses: { "200": { description: "User status updated" }, ...errorResponses }
         }
       }),
+      "/users/mfa-policy": withAuth({
+        get: {
+          tags: ["admin"],
+          summary: "Admin: get whether MFA is required for everyone",
+          responses: { "200": { description: "MFA policy" }, ...errorResponses }
+        },
+        put: {
+          tags: ["admin"],
+          summary: "Admin: require MFA for everyone (enforced at each person's next sign-in)",
+          responses: { "200": { description: "MFA policy updated" }, ...errorResponses }
+        }
+      }),
+      "/users/signup-policy": withAuth({
+        get: {
+          tags: ["admin"],
+          summary: "Admin: get whether signup is invite-only",
+          responses: { "200": { description: "Signup policy" }, ...errorResponses }
+        },
+        put: {
+          tags: ["admin"],
+          summary: "Admin: make signup invite-only, or open it again",
+          responses: { "200": { description: "Signup policy updated" }, ...errorResponses }
+        }
+      }),
+      "/users/api-tokens": withAuth({
+        get: {
+          tags: ["admin"],
+          summary: "Admin: list personal API tokens across users (active only unless includeInactive=true)",
+          responses: { "200": { description: "API tokens" }, ...errorResponses }
+        }
+      }),
+      "/users/api-tokens/{tokenId}": withAuth({
+        delete: {
+          tags: ["admin"],
+          summary: "Admin: revoke any user's personal API token",
+          responses: { "204": { description: "API token revoked" }, ...errorResponses }
+        }
+      }),
+      "/users/{id}/mfa/reset": withAuth({
+        post: {
+          tags: ["admin"],
+          summary: "Admin: remove a locked-out user's authenticator and recovery codes",
+          responses: { "200": { description: "MFA reset" }, ...errorResponses }
+        }
+      }),
       "/users/{id}/project-roles/reset": withAuth({
         post: {
           tags: ["admin"],
@@ -0,0 +1,38 @@
+import { execFile } from "node:child_process";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+
+export type PdfPageRenderer = {
+  name: string;
+  // Returns the first page of the document as a PNG.
+  renderFirstPage(pdf: Buffer): Promise<Buffer>;
+};
+
+// Shells out to poppler's pdftoppm, which is widely packaged and avoids a native PDF dependency.
+export function createPdftoppmRenderer(options: { command: string; timeoutMs: number; scaleTo: number }): PdfPageRenderer {
+  return {
+    name: "pdftoppm",
+    async renderFirstPage(pdf) {
+      const workDir = await mkdtemp(path.join(os.tmpdir(), "adfix-preview-"));
+      try {
+        const inputPath = path.join(workDir, "input.pdf");
+        const outputPrefix = path.join(workDir, "page");
+        await writeFile(inputPath, pdf);
+
+        await new Promise<void>((resolve, reject) => {
+          execFile(
+            options.command,
+            ["-png", "-singlefile", "-f", "1", "-l", "1", "-scale-to", String(options.scaleTo), inputPath, outputPrefix],
+            { timeout: options.timeoutMs },
+            (error) => (error ? reject(error) : resolve())
+          );
+        });
+
+        return await readFile(`${outputPrefix}.png`);
+      } finally {
+        await rm(workDir, { recursive: true, force: true });
+      }
+    }
+  };
+}
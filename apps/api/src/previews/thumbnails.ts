@@ -0,0 +1,25 @@
+import sharp from "sharp";
+
+export type PreviewSize = "small" | "medium" | "large";
+
+// Longest edge, in pixels, of each generated preview.
+export const PREVIEW_SIZES: Record<PreviewSize, number> = {
+  small: 128,
+  medium: 512,
+  large: 1024
+};
+
+export const PREVIEW_MIME_TYPE = "image/webp";
+
+export const PREVIEWABLE_IMAGE_TYPES = ["image/png", "image/jpeg", "image/gif", "image/webp", "image/tiff"];
+
+// Renders the first frame of an image, honouring EXIF orientation, scaled down to fit the size.
+export async function renderThumbnail(source: Buffer, maxDimension: number) {
+  const { data, info } = await sharp(source, { pages: 1 })
+    .rotate()
+    .resize({ width: maxDimension, height: maxDimension, fit: "inside", withoutEnlargement: true })
+    .webp({ quality: 80 })
+    .toBuffer({ resolveWithObject: true });
+
+  return { buffer: data, width: info.width, height: info.height };
+}
@@ -3,6 +3,7 @@ import { requireAuth } from "../middleware/auth.js";
 import type { AuthenticatedRequest } from "../types/http.js";
 import {
   getDashboardAnalytics,
+  getPhaseDurationAnalytics,
   getProjectsAnalytics,
   getTeamAnalytics,
   getTimelineAnalytics
@@ -64,6 +65,15 @@ analyticsRouter.get("/timeline", async (req: AuthenticatedRequest, res) => {
   return res.status(200).json({ data });
 });
 
+analyticsRouter.get("/phase-durations", async (req: AuthenticatedRequest, res) => {
+  if (!req.user) {
+    return sendUnauthorized(res, "Unauthorized");
+  }
+
+  const data = await getPhaseDurationAnalytics(req.user.id);
+  return res.status(200).json({ data });
+});
+
 analyticsRouter.get("/projects.csv", async (req: AuthenticatedRequest, res) => {
   if (!req.user) {
     return sendUnauthorized(res, "Unauthorized");
@@ -105,3 +115,24 @@ analyticsRouter.get("/team.csv", async (req: AuthenticatedRequest, res) => {
   res.setHeader("Content-Disposition", "attachment; filename=\"team-analytics.csv\"");
   return res.status(200).send(csv);
 });
+
+analyticsRouter.get("/phase-durations.csv", async (req: AuthenticatedRequest, res) => {
+  if (!req.user) {
+    return sendUnauthorized(res, "Unauthorized");
+  }
+
+  const data = await getPhaseDurationAnalytics(req.user.id);
+  const headers = [
+    "phase",
+    "completedCount",
+    "inProgressCount",
+    "averageHours",
+    "medianHours",
+    "p90Hours"
+  ];
+  const csv = toCsv(headers, data as unknown as Record<string, unknown>[]);
+
+  res.setHeader("Content-Type", "text/csv; charset=utf-8");
+  res.setHeader("Content-Disposition", "attachment; filename=\"phase-durations-analytics.csv\"");
+  return res.status(200).send(csv);
+});
@@ -0,0 +1,107 @@
+import { Router } from "express";
+import { z } from "zod";
+import { requireSessionAuth } from "../middleware/auth.js";
+import type { AuthenticatedRequest } from "../types/http.js";
+import { insertActivityLog } from "../services/activity-log.service.js";
+import {
+  API_TOKEN_MAX_TTL_DAYS,
+  createApiToken,
+  getApiTokenById,
+  listApiTokensForUser,
+  revokeApiToken
+} from "../services/api-tokens.service.js";
+import { PROJECT_PERMISSIONS } from "../services/rbac.service.js";
+import { sendConflict, sendNotFound, sendUnauthorized } from "../utils/http-error.js";
+import { sendValidationError } from "../utils/validation.js";
+
+// The caller's own personal API tokens. Only a signed-in session can manage them.
+export const apiTokensRouter = Router();
+
+const idParamsSchema = z.object({
+  id: z.string().uuid()
+});
+
+const apiTokenCreateSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  scopes: z.array(z.enum(PROJECT_PERMISSIONS)).min(1),
+  expiresInDays: z.number().int().min(1).max(API_TOKEN_MAX_TTL_DAYS).optional().default(30)
+});
+
+apiTokensRouter.use(requireSessionAuth);
+
+apiTokensRouter.get("/", async (req: AuthenticatedRequest, res) => {
+  if (!req.user) {
+    return sendUnauthorized(res, "Unauthorized");
+  }
+
+  const apiTokens = await listApiTokensForUser(req.user.id);
+  return res.status(200).json({ data: apiTokens });
+});
+
+// The token itself is in this response only; afterwards just its prefix is shown.
+apiTokensRouter.post("/", async (req: AuthenticatedRequest, res) => {
+  const parsedBody = apiTokenCreateSchema.safeParse(req.body);
+  if (!parsedBody.success) {
+    return sendValidationError(res, "Invalid API token payload", parsedBody.error);
+  }
+
+  if (!req.user) {
+    return sendUnauthorized(res, "Unauthorized");
+  }
+
+  const { token, apiToken } = await createApiToken({
+    userId: req.user.id,
+    name: parsedBody.data.name,
+    scopes: parsedBody.data.scopes,
+    expiresInDays: parsedBody.data.expiresInDays
+  });
+
+  await insertActivityLog({
+    userId: req.user.id,
+    action: "api_token_created",
+    projectId: null,
+    details: {
+      tokenId: apiToken.id,
+      name: apiToken.name,
+      scopes: apiToken.scopes,
+      expiresAt: apiToken.expires_at
+    }
+  });
+
+  return res.status(201).json({ data: { ...apiToken, token } });
+});
+
+apiTokensRouter.delete("/:id", async (req: AuthenticatedRequest, res) => {
+  const parsedParams = idParamsSchema.safeParse(req.params);
+  if (!parsedParams.success) {
+    return sendValidationError(res, "Invalid API token id", parsedParams.error);
+  }
+
+  if (!req.user) {
+    return sendUnauthorized(res, "Unauthorized");
+  }
+
+  // Other people's tokens look missing here; admins revoke those through /users/api-tokens.
+  const apiToken = await getApiTokenById(parsedParams.data.id);
+  if (!apiToken || apiToken.user_id !== req.user.id) {
+    return sendNotFound(res, "API token not found");
+  }
+
+  const revoked = await revokeApiToken({ tokenId: apiToken.id, revokedBy: req.user.id });
+  if (!revoked) {
+    return sendConflict(res, "API token was already revoked");
+  }
+
+  await insertActivityLog({
+    userId: req.user.id,
+    action: "api_token_revoked",
+    projectId: null,
+    details: {
+      tokenId: apiToken.id,
+      name: apiToken.name,
+      ownerId: apiToken.user_id
+    }
+  });
+
+  return res.status(204).send();
+});
@@ -2,16 +2,36 @@ import { Router } from "express";
 import { z } from "zod";
 import { insertActivityLog } from "../services/activity-log.service.js";
 import {
+  completeMfaLogin,
   loginWithEmailPassword,
   signupWithEmailPassword,
   refreshAuthToken,
   revokeAllUserSessionsByRefreshToken,
-  revokeSessionByRefreshToken
+  revokeSessionByRefreshToken,
+  startMfaLoginEnrollment,
+  startNewStaffSession
 } from "../services/auth.service.js";
-import { requireAuth } from "../middleware/auth.js";
+import {
+  requestPasswordReset,
+  resetPasswordWithToken,
+  sendEmailVerification,
+  verifyEmailWithToken
+} from "../services/email-tokens.service.js";
+import { acceptInvitation, getSignupPolicy, lookupInvitation } from "../services/invitations.service.js";
+import {
+  confirmMfaEnrollment,
+  getMfaStatus,
+  regenerateRecoveryCodes,
+  removeMfaFactor,
+  startMfaEnrollment,
+  verifyMfaCode
+} from "../services/mfa.service.js";
+import { createNotification } from "../services/notifications.service.js";
+import { completeOidcLogin, getOidcStatus, startOidcLogin } from "../services/oidc.service.js";
+import { requireAnyAuth } from "../middleware/auth.js";
 import type { AuthenticatedRequest } from "../types/http.js";
 import { verifyRefreshToken } from "../utils/tokens.js";
-import { sendConflict, sendUnauthorized } from "../utils/http-error.js";
+import { sendConflict, sendError, sendUnauthorized } from "../utils/http-error.js";
 import { sendValidationError } from "../utils/validation.js";
 
 export const authRouter = Router();
@@ -31,6 +51,71 @@ const refreshSchema = z.object({
   refreshToken: z.string().min(1)
 });
 
+const forgotPasswordSchema = z.object({
+  email: z.string().email()
+});
+
+const resetPasswordSchema = z.object({
+  token: z.string().min(1).max(256),
+  password: z.string().min(8).max(128)
+});
+
+const verifyEmailSchema = z.object({
+  token: z.string().min(1).max(256)
+});
+
+const invitationLookupSchema = z.object({
+  token: z.string().min(1).max(256)
+});
+
+const invitationAcceptSchema = z.object({
+  token: z.string().min(1).max(256),
+  name: z.string().trim().min(1).max(255),
+  password: z.string().min(8).max(128)
+});
+
+const oidcCallbackSchema = z.object({
+  code: z.string().min(1).max(2048),
+  state: z.string().min(1).max(256),
+  loginSecret: z.string().min(1).max(256)
+});
+
+const mfaChallengeSchema = z.object({
+  challengeToken: z.string().min(1)
+});
+
+const mfaLoginSchema = z
+  .object({
+    challengeToken: z.string().min(1),
+    code: z.string().trim().min(1).max(16).optional(),
+    recoveryCode: z.string().trim().min(1).max(32).optional()
+  })
+  .refine((value) => Boolean(value.code) !== Boolean(value.recoveryCode), {
+    message: "Provide either code or recoveryCode"
+  });
+
+const mfaCodeSchema = z.object({
+  code: z.string().trim().min(1).max(16)
+});
+
+const mfaDisableSchema = z
+  .object({
+    code: z.string().trim().min(1).max(16).optional(),
+    recoveryCode: z.string().trim().min(1).max(32).optional()
+  })
+  .refine((value) => Boolean(value.code) !== Boolean(value.recoveryCode), {
+    message: "Provide either code or recoveryCode"
+  });
+
+// A failed verification email must not fail the signup; people can ask for another one.
+async function sendSignupVerification(userId: string) {
+  try {
+    await sendEmailVerification(userId);
+  } catch (error) {
+    console.error(`Verification email for user ${userId} could not be sent:`, error);
+  }
+}
+
 authRouter.post("/login", async (req, res) => {
   const parsed = loginSchema.safeParse(req.body);
   if (!parsed.success) {
@@ -48,6 +133,22 @@ authRouter.post("/login", async (req, res) => {
     return sendUnauthorized(res, "Invalid email or password");
   }
 
+  // Password was right but a second factor is owed: no tokens yet, only a short-lived challenge.
+  if ("challengeToken" in result) {
+    const { userId, ...challenge } = result;
+    await insertActivityLog({
+      userId,
+      action: "auth_login_mfa_challenge",
+      details: {
+        status: challenge.status,
+        userAgent: req.header("user-agent") ?? null,
+        ipAddress: req.ip
+      },
+      projectId: null
+    });
+    return res.status(200).json(challenge);
+  }
+
   await insertActivityLog({
     userId: result.user.id,
     action: "auth_login",
@@ -62,12 +163,74 @@ authRouter.post("/login", async (req, res) => {
   return res.status(200).json(result);
 });
 
+authRouter.post("/login/mfa/enroll", async (req, res) => {
+  const parsed = mfaChallengeSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return sendValidationError(res, "Invalid MFA enrollment payload", parsed.error);
+  }
+
+  const result = await startMfaLoginEnrollment({ challengeToken: parsed.data.challengeToken });
+  if (!result.ok) {
+    return sendUnauthorized(res, "Invalid or expired MFA challenge");
+  }
+
+  return res.status(200).json({ data: { secret: result.secret, otpauthUri: result.otpauthUri } });
+});
+
+authRouter.post("/login/mfa", async (req, res) => {
+  const parsed = mfaLoginSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return sendValidationError(res, "Invalid MFA login payload", parsed.error);
+  }
+
+  const result = await completeMfaLogin({
+    challengeToken: parsed.data.challengeToken,
+    code: parsed.data.code,
+    recoveryCode: parsed.data.recoveryCode,
+    userAgent: req.header("user-agent"),
+    ipAddress: req.ip
+  });
+
+  if (!result.ok) {
+    if (result.reason === "invalid_code") {
+      return sendError(res, 401, "INVALID_MFA_CODE", "Invalid verification code");
+    }
+    if (result.reason === "enrollment_not_started") {
+      return sendConflict(res, "Start MFA enrollment before verifying a code");
+    }
+    return sendUnauthorized(res, "Invalid or expired MFA challenge");
+  }
+
+  await insertActivityLog({
+    userId: result.session.user.id,
+    action: "auth_login",
+    details: {
+      email: result.session.user.email,
+      mfa: result.method,
+      mfaEnrolled: Boolean(result.recoveryCodes),
+      userAgent: req.header("user-agent") ?? null,
+      ipAddress: req.ip
+    },
+    projectId: null
+  });
+
+  // Recovery codes come back only when this login also finished enrollment; they are never shown again.
+  return res
+    .status(200)
+    .json(result.recoveryCodes ? { ...result.session, recoveryCodes: result.recoveryCodes } : result.session);
+});
+
 authRouter.post("/signup", async (req, res) => {
   const parsed = signupSchema.safeParse(req.body);
   if (!parsed.success) {
     return sendValidationError(res, "Invalid signup payload", parsed.error);
   }
 
+  const signupPolicy = await getSignupPolicy();
+  if (signupPolicy.inviteOnly) {
+    return sendError(res, 403, "SIGNUP_DISABLED", "Signup is by invitation only; ask an admin for an invite");
+  }
+
   const result = await signupWithEmailPassword({
     email: parsed.data.email,
     name: parsed.data.name,
@@ -80,6 +243,23 @@ authRouter.post("/signup", async (req, res) => {
     return sendConflict(res, "Email is already registered");
   }
 
+  await sendSignupVerification("challengeToken" in result ? result.userId : result.user.id);
+
+  if ("challengeToken" in result) {
+    const { userId, ...challenge } = result;
+    await insertActivityLog({
+      userId,
+      action: "auth_signup",
+      details: {
+        email: parsed.data.email,
+        userAgent: req.header("user-agent") ?? null,
+        ipAddress: req.ip
+      },
+      projectId: null
+    });
+    return res.status(201).json(challenge);
+  }
+
   await insertActivityLog({
     userId: result.user.id,
     action: "auth_signup",
@@ -94,6 +274,195 @@ authRouter.post("/signup", async (req, res) => {
   return res.status(201).json(result);
 });
 
+authRouter.post("/invitations/lookup", async (req, res) => {
+  const parsed = invitationLookupSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return sendValidationError(res, "Invalid invitation lookup payload", parsed.error);
+  }
+
+  const invitation = await lookupInvitation(parsed.data.token);
+  if (!invitation) {
+    return sendError(res, 400, "INVALID_TOKEN", "This invitation is invalid or has expired");
+  }
+
+  return res.status(200).json({
+    data: {
+      email: invitation.email,
+      projectName: invitation.project_name,
+      projectRole: invitation.project_role,
+      invitedByName: invitation.invited_by_name,
+      expiresAt: invitation.expires_at
+    }
+  });
+});
+
+// Works while signup is invite-only: the invitation is the permission to create the account.
+authRouter.post("/invitations/accept", async (req, res) => {
+  const parsed = invitationAcceptSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return sendValidationError(res, "Invalid invitation accept payload", parsed.error);
+  }
+
+  const result = await acceptInvitation({
+    token: parsed.data.token,
+    name: parsed.data.name,
+    password: parsed.data.password
+  });
+
+  if (!result.ok) {
+    if (result.reason === "email_taken") {
+      return sendConflict(res, "Email is already registered; sign in instead");
+    }
+    return sendError(res, 400, "INVALID_TOKEN", "This invitation is invalid or has expired");
+  }
+
+  const { user, invitation } = result;
+  const projectId = result.joinedProject ? invitation.project_id : null;
+
+  await insertActivityLog({
+    userId: user.id,
+    action: "invitation_accepted",
+    projectId,
+    details: {
+      invitationId: invitation.id,
+      invitedBy: invitation.invited_by,
+      role: result.joinedProject ? invitation.project_role : null,
+      userAgent: req.header("user-agent") ?? null,
+      ipAddress: req.ip
+    }
+  });
+
+  if (invitation.invited_by) {
+    await createNotification({
+      userId: invitation.invited_by,
+      projectId,
+      type: "invitation_accepted",
+      title: "Invitation accepted",
+      message: result.joinedProject
+        ? `${user.name} (${user.email}) accepted your invitation and joined the project as ${invitation.project_role}.`
+        : `${user.name} (${user.email}) accepted your invitation.`,
+      metadata: {
+        invitationId: invitation.id,
+        userId: user.id,
+        projectId,
+        role: result.joinedProject ? invitation.project_role : null
+      }
+    });
+  }
+
+  const session = await startNewStaffSession({
+    user,
+    userAgent: req.header("user-agent"),
+    ipAddress: req.ip
+  });
+  if ("challengeToken" in session) {
+    const { userId: _userId, ...challenge } = session;
+    return res.status(201).json(challenge);
+  }
+
+  return res.status(201).json(session);
+});
+
+authRouter.get("/oidc", (_req, res) => {
+  return res.status(200).json({ data: getOidcStatus() });
+});
+
+authRouter.post("/oidc/start", async (_req, res) => {
+  const result = await startOidcLogin();
+  if (!result.ok) {
+    if (result.reason === "not_configured") {
+      return sendError(res, 404, "OIDC_NOT_CONFIGURED", "Single sign-on is not configured");
+    }
+    return sendError(res, 502, "OIDC_PROVIDER_ERROR", "The identity provider could not be reached");
+  }
+
+  return res.status(200).json({
+    data: { authorizationUrl: result.authorizationUrl, loginSecret: result.loginSecret }
+  });
+});
+
+// The web app forwards the provider's redirect here, with the login secret it kept from the start.
+// Sign-in ends up like a password login: a session, or an MFA challenge when the account or the
+// workspace policy asks for one.
+authRouter.post("/oidc/callback", async (req, res) => {
+  const parsed = oidcCallbackSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return sendValidationError(res, "Invalid single sign-on payload", parsed.error);
+  }
+
+  const result = await completeOidcLogin({
+    code: parsed.data.code,
+    state: parsed.data.state,
+    loginSecret: parsed.data.loginSecret,
+    userAgent: req.header("user-agent"),
+    ipAddress: req.ip
+  });
+
+  if (!result.ok) {
+    if (result.reason === "not_configured") {
+      return sendError(res, 404, "OIDC_NOT_CONFIGURED", "Single sign-on is not configured");
+    }
+    if (result.reason === "invalid_state") {
+      return sendError(res, 400, "INVALID_STATE", "This sign-in has expired or was already used; start again");
+    }
+    if (result.reason === "browser_mismatch") {
+      return sendError(res, 400, "INVALID_STATE", "This sign-in was started in a different browser; start again");
+    }
+    if (result.reason === "provider_error") {
+      return sendError(res, 502, "OIDC_PROVIDER_ERROR", "The identity provider did not confirm the sign-in");
+    }
+
+    await insertActivityLog({
+      userId: null,
+      action: "auth_oidc_denied",
+      details: {
+        reason: result.reason,
+        issuer: result.issuer,
+        email: result.email,
+        userAgent: req.header("user-agent") ?? null,
+        ipAddress: req.ip
+      },
+      projectId: null
+    });
+    if (result.reason === "email_unverified") {
+      return sendError(res, 403, "SSO_NOT_ALLOWED", "The identity provider did not share a verified email address");
+    }
+    if (result.reason === "account_disabled") {
+      return sendError(res, 403, "SSO_NOT_ALLOWED", "This account is disabled");
+    }
+    return sendError(res, 403, "SSO_NOT_ALLOWED", "No account uses this email address; ask an admin for an invite");
+  }
+
+  const details = {
+    method: "oidc",
+    issuer: result.issuer,
+    linked: result.linked,
+    provisioned: result.provisioned,
+    userAgent: req.header("user-agent") ?? null,
+    ipAddress: req.ip
+  };
+
+  if ("challengeToken" in result.session) {
+    const { userId: _userId, ...challenge } = result.session;
+    await insertActivityLog({
+      userId: result.userId,
+      action: "auth_login_mfa_challenge",
+      details: { status: challenge.status, ...details },
+      projectId: null
+    });
+    return res.status(200).json(challenge);
+  }
+
+  await insertActivityLog({
+    userId: result.userId,
+    action: "auth_login",
+    details: { email: result.session.user.email, ...details },
+    projectId: null
+  });
+
+  return res.status(200).json(result.session);
+});
+
 authRouter.post("/refresh", async (req, res) => {
   const parsed = refreshSchema.safeParse(req.body);
   if (!parsed.success) {
@@ -184,6 +553,213 @@ authRouter.post("/logout-all", async (req, res) => {
   return res.status(204).send();
 });
 
-authRouter.get("/me", requireAuth, (req: AuthenticatedRequest, res) => {
+authRouter.post("/password/forgot", async (req, res) => {
+  const parsed = forgotPasswordSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return sendValidationError(res, "Invalid password reset request", parsed.error);
+  }
+
+  const result = await requestPasswordReset({ email: parsed.data.email });
+  if (result.userId) {
+    await insertActivityLog({
+      userId: result.userId,
+      action: "auth_password_reset_requested",
+      details: {
+        delivered: result.delivered,
+        userAgent: req.header("user-agent") ?? null,
+        ipAddress: req.ip
+      },
+      projectId: null
+    });
+  }
+
+  // Same answer for unknown addresses, so this cannot be used to find out who has an account.
+  return res.status(202).json({ data: { requested: true } });
+});
+
+authRouter.post("/password/reset", async (req, res) => {
+  const parsed = resetPasswordSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return sendValidationError(res, "Invalid password reset payload", parsed.error);
+  }
+
+  const result = await resetPasswordWithToken({ token: parsed.data.token, password: parsed.data.password });
+  if (!result.ok) {
+    return sendError(res, 400, "INVALID_TOKEN", "This reset link is invalid or has expired");
+  }
+
+  await insertActivityLog({
+    userId: result.userId,
+    action: "auth_password_reset",
+    details: {
+      revokedSessions: result.revokedSessions,
+      userAgent: req.header("user-agent") ?? null,
+      ipAddress: req.ip
+    },
+    projectId: null
+  });
+
+  return res.status(204).send();
+});
+
+authRouter.post("/verify-email", async (req, res) => {
+  const parsed = verifyEmailSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return sendValidationError(res, "Invalid email verification payload", parsed.error);
+  }
+
+  const result = await verifyEmailWithToken({ token: parsed.data.token });
+  if (!result.ok) {
+    return sendError(res, 400, "INVALID_TOKEN", "This verification link is invalid or has expired");
+  }
+
+  await insertActivityLog({
+    userId: result.userId,
+    action: "auth_email_verified",
+    details: { email: result.email },
+    projectId: null
+  });
+
+  return res.status(200).json({ data: { email: result.email, emailVerifiedAt: result.emailVerifiedAt } });
+});
+
+authRouter.post("/verify-email/resend", requireAnyAuth, async (req: AuthenticatedRequest, res) => {
+  if (!req.user) {
+    return sendUnauthorized(res, "Unauthorized");
+  }
+
+  const result = await sendEmailVerification(req.user.id);
+  if (!result.ok) {
+    if (result.reason === "not_found") {
+      return sendUnauthorized(res, "Unauthorized");
+    }
+    return sendConflict(res, "Email is already verified");
+  }
+
+  return res.status(202).json({ data: { sent: true } });
+});
+
+authRouter.get("/me", requireAnyAuth, (req: AuthenticatedRequest, res) => {
   return res.status(200).json({ user: req.user });
 });
+
+authRouter.get("/mfa", requireAnyAuth, async (req: AuthenticatedRequest, res) => {
+  if (!req.user) {
+    return sendUnauthorized(res, "Unauthorized");
+  }
+
+  return res.status(200).json({ data: await getMfaStatus(req.user.id) });
+});
+
+authRouter.post("/mfa/enroll", requireAnyAuth, async (req: AuthenticatedRequest, res) => {
+  if (!req.user) {
+    return sendUnauthorized(res, "Unauthorized");
+  }
+
+  const result = await startMfaEnrollment({ userId: req.user.id, email: req.user.email });
+  if (!result.ok) {
+    return sendConflict(res, "MFA is already enabled; disable it before enrolling a new authenticator");
+  }
+
+  return res.status(200).json({ data: { secret: result.secret, otpauthUri: result.otpauthUri } });
+});
+
+authRouter.post("/mfa/verify", requireAnyAuth, async (req: AuthenticatedRequest, res) => {
+  const parsed = mfaCodeSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return sendValidationError(res, "Invalid MFA verification payload", parsed.error);
+  }
+
+  if (!req.user) {
+    return sendUnauthorized(res, "Unauthorized");
+  }
+
+  const result = await confirmMfaEnrollment({ userId: req.user.id, code: parsed.data.code });
+  if (!result.ok) {
+    if (result.reason === "invalid_code") {
+      return sendError(res, 400, "INVALID_MFA_CODE", "Invalid verification code");
+    }
+    if (result.reason === "not_started") {
+      return sendConflict(res, "Start MFA enrollment before verifying a code");
+    }
+    return sendConflict(res, "MFA is already enabled");
+  }
+
+  await insertActivityLog({
+    userId: req.user.id,
+    action: "mfa_enabled",
+    details: {},
+    projectId: null
+  });
+
+  return res.status(200).json({ data: { recoveryCodes: result.recoveryCodes } });
+});
+
+authRouter.post("/mfa/recovery-codes", requireAnyAuth, async (req: AuthenticatedRequest, res) => {
+  const parsed = mfaCodeSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return sendValidationError(res, "Invalid recovery code request", parsed.error);
+  }
+
+  if (!req.user) {
+    return sendUnauthorized(res, "Unauthorized");
+  }
+
+  const verified = await verifyMfaCode({ userId: req.user.id, code: parsed.data.code });
+  if (!verified.ok) {
+    if (verified.reason === "not_enabled") {
+      return sendConflict(res, "MFA is not enabled");
+    }
+    return sendError(res, 400, "INVALID_MFA_CODE", "Invalid verification code");
+  }
+
+  const recoveryCodes = await regenerateRecoveryCodes(req.user.id);
+
+  await insertActivityLog({
+    userId: req.user.id,
+    action: "mfa_recovery_codes_regenerated",
+    details: {},
+    projectId: null
+  });
+
+  return res.status(200).json({ data: { recoveryCodes } });
+});
+
+authRouter.post("/mfa/disable", requireAnyAuth, async (req: AuthenticatedRequest, res) => {
+  const parsed = mfaDisableSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return sendValidationError(res, "Invalid MFA disable payload", parsed.error);
+  }
+
+  if (!req.user) {
+    return sendUnauthorized(res, "Unauthorized");
+  }
+
+  const status = await getMfaStatus(req.user.id);
+  if (status.required) {
+    return sendError(res, 409, "MFA_REQUIRED", "MFA is required for everyone in this workspace");
+  }
+
+  const verified = await verifyMfaCode({
+    userId: req.user.id,
+    code: parsed.data.code,
+    recoveryCode: parsed.data.recoveryCode
+  });
+  if (!verified.ok) {
+    if (verified.reason === "not_enabled") {
+      return sendConflict(res, "MFA is not enabled");
+    }
+    return sendError(res, 400, "INVALID_MFA_CODE", "Invalid verification code");
+  }
+
+  await removeMfaFactor(req.user.id);
+
+  await insertActivityLog({
+    userId: req.user.id,
+    action: "mfa_disabled",
+    details: { method: verified.method },
+    projectId: null
+  });
+
+  return res.status(204).send();
+});
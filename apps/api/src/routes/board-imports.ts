@@ -0,0 +1,168 @@
+import express, { Router } from "express";
+import { z } from "zod";
+import { requireAdmin } from "../middleware/admin.js";
+import { requireAuth } from "../middleware/auth.js";
+import type { AuthenticatedRequest } from "../types/http.js";
+import { insertActivityLog } from "../services/activity-log.service.js";
+import {
+  commitBoardImport,
+  createBoardImport,
+  getBoardImport,
+  getBoardImportPreview,
+  listBoardImports
+} from "../services/board-imports.service.js";
+import { getProjectById } from "../services/projects.service.js";
+import { parseBoardExport } from "../imports/boards.js";
+import { sendError, sendNotFound, sendUnauthorized } from "../utils/http-error.js";
+import { sendValidationError } from "../utils/validation.js";
+
+// Trello board and Asana project exports brought into an existing project. Like spreadsheet imports
+// they write on behalf of the whole team, so they are admin-only.
+export const boardImportsRouter = Router();
+
+const MAX_EXPORT_BYTES = 20 * 1024 * 1024;
+
+const projectPhaseEnum = z.enum([
+  "client_acquisition",
+  "strategy_planning",
+  "production",
+  "post_production",
+  "delivery"
+]);
+
+const uploadQuerySchema = z.object({
+  source: z.enum(["trello", "asana"]),
+  projectId: z.string().uuid(),
+  fileName: z.string().trim().min(1).max(255)
+});
+
+const listQuerySchema = z.object({
+  projectId: z.string().uuid().optional(),
+  limit: z.coerce.number().int().min(1).max(200).optional().default(50)
+});
+
+const idParamsSchema = z.object({
+  id: z.string().uuid()
+});
+
+const commitSchema = z.object({
+  phaseMapping: z.record(z.string(), projectPhaseEnum.nullable()).optional(),
+  memberEmails: z.record(z.string(), z.string().trim().toLowerCase().email().max(255)).optional()
+});
+
+boardImportsRouter.use(requireAuth, requireAdmin);
+
+boardImportsRouter.get("/", async (req, res) => {
+  const parsedQuery = listQuerySchema.safeParse(req.query);
+  if (!parsedQuery.success) {
+    return sendValidationError(res, "Invalid board imports query", parsedQuery.error);
+  }
+
+  const imports = await listBoardImports(parsedQuery.data);
+  return res.status(200).json({ data: imports });
+});
+
+// The export is the raw request body, as downloaded from Trello ("Export as JSON") or Asana.
+boardImportsRouter.post(
+  "/",
+  express.raw({ type: () => true, limit: MAX_EXPORT_BYTES }),
+  async (req: AuthenticatedRequest, res) => {
+    const parsedQuery = uploadQuerySchema.safeParse(req.query);
+    if (!parsedQuery.success) {
+      return sendValidationError(res, "Invalid board import upload", parsedQuery.error);
+    }
+
+    if (!req.user) {
+      return sendUnauthorized(res, "Unauthorized");
+    }
+
+    const project = await getProjectById(parsedQuery.data.projectId);
+    if (!project) {
+      return sendNotFound(res, "Project not found");
+    }
+
+    const body = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+    const parsed = parseBoardExport(parsedQuery.data.source, body, parsedQuery.data.fileName);
+    if (!parsed.ok) {
+      return sendError(res, 400, "INVALID_BOARD_EXPORT", parsed.message);
+    }
+    if (parsed.board.cards.length === 0) {
+      return sendError(res, 400, "EMPTY_IMPORT", "The export has no cards or tasks");
+    }
+
+    const created = await createBoardImport({
+      source: parsedQuery.data.source,
+      projectId: project.id,
+      fileName: parsedQuery.data.fileName,
+      board: parsed.board,
+      createdBy: req.user.id
+    });
+    const preview = await getBoardImportPreview(created.id);
+
+    return res.status(201).json({ data: { import: created, ...preview } });
+  }
+);
+
+boardImportsRouter.get("/:id", async (req, res) => {
+  const parsedParams = idParamsSchema.safeParse(req.params);
+  if (!parsedParams.success) {
+    return sendValidationError(res, "Invalid board import id", parsedParams.error);
+  }
+
+  const [boardImport, preview] = await Promise.all([
+    getBoardImport(parsedParams.data.id),
+    getBoardImportPreview(parsedParams.data.id)
+  ]);
+  if (!boardImport || !preview) {
+    return sendNotFound(res, "Board import not found");
+  }
+
+  return res.status(200).json({ data: { import: boardImport, ...preview } });
+});
+
+boardImportsRouter.post("/:id/commit", express.json({ limit: "1mb" }), async (req: AuthenticatedRequest, res) => {
+  const parsedParams = idParamsSchema.safeParse(req.params);
+  if (!parsedParams.success) {
+    return sendValidationError(res, "Invalid board import id", parsedParams.error);
+  }
+
+  const parsed = commitSchema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    return sendValidationError(res, "Invalid board import mapping", parsed.error);
+  }
+
+  if (!req.user) {
+    return sendUnauthorized(res, "Unauthorized");
+  }
+
+  const result = await commitBoardImport({
+    importId: parsedParams.data.id,
+    userId: req.user.id,
+    phaseMapping: parsed.data.phaseMapping,
+    memberEmails: parsed.data.memberEmails
+  });
+  if (!result.ok) {
+    if (result.reason === "not_found") {
+      return sendNotFound(res, "Board import not found");
+    }
+    if (result.reason === "project_not_found") {
+      return sendNotFound(res, "Project not found");
+    }
+    if (result.reason === "invalid_mapping") {
+      return sendError(res, 400, "INVALID_BOARD_MAPPING", "The mapping refers to lists or members not in the export", {
+        unknownLists: result.unknownLists,
+        unknownMembers: result.unknownMembers
+      });
+    }
+    return sendError(res, 409, "INVALID_IMPORT_STATE", "This board import has already been committed");
+  }
+
+  await insertActivityLog({
+    userId: req.user.id,
+    projectId: result.projectId,
+    action: "board_imported",
+    details: { boardImportId: parsedParams.data.id, source: result.source, created: result.report.created }
+  });
+
+  return res.status(200).json({ data: await getBoardImport(parsedParams.data.id) });
+});
@@ -1,28 +1,31 @@
 import { Router } from "express";
 import { z } from "zod";
 import { requireAuth } from "../middleware/auth.js";
+import { requireAdmin } from "../middleware/admin.js";
 import type { AuthenticatedRequest } from "../types/http.js";
+import { clientCreateSchema } from "../schemas/clients.schema.js";
 import { insertActivityLog, listClientActivity } from "../services/activity-log.service.js";
 import {
   createClient,
   deleteClient,
+  findDuplicateClients,
   getClientById,
   listClients,
+  mergeClients,
   updateClient
 } from "../services/clients.service.js";
-import { sendNotFound, sendUnauthorized } from "../utils/http-error.js";
+import {
+  createClientContact,
+  deleteClientContact,
+  listClientContacts,
+  updateClientContact
+} from "../services/client-contacts.service.js";
+import { createClientUser, listClientUsers } from "../services/users.service.js";
+import { sendConflict, sendError, sendNotFound, sendUnauthorized } from "../utils/http-error.js";
 import { sendValidationError } from "../utils/validation.js";
 
 export const clientsRouter = Router();
 
-const clientCreateSchema = z.object({
-  name: z.string().trim().min(1).max(255),
-  company: z.string().trim().max(255).optional().nullable(),
-  email: z.string().email().max(255).optional().nullable(),
-  phone: z.string().trim().max(50).optional().nullable(),
-  notes: z.string().trim().max(5000).optional().nullable()
-});
-
 const clientUpdateSchema = clientCreateSchema.partial();
 
 const idParamsSchema = z.object({
@@ -36,6 +39,37 @@ const clientsListQuerySchema = z.object({
   sortOrder: z.enum(["asc", "desc"]).optional().default("desc")
 });
 
+const duplicatesQuerySchema = z.object({
+  minScore: z.coerce.number().min(0.3).max(1).optional().default(0.6),
+  limit: z.coerce.number().int().min(1).max(200).optional().default(50)
+});
+
+const mergeSchema = z.object({
+  mergedClientId: z.string().uuid()
+});
+
+const contactCreateSchema = z.object({
+  name: z.string().trim().min(1).max(255),
+  title: z.string().trim().max(255).optional().nullable(),
+  email: z.string().email().max(255).optional().nullable(),
+  phone: z.string().trim().max(50).optional().nullable(),
+  isPrimary: z.boolean().optional(),
+  notes: z.string().trim().max(5000).optional().nullable()
+});
+
+const contactUpdateSchema = contactCreateSchema.partial();
+
+const contactParamsSchema = z.object({
+  id: z.string().uuid(),
+  contactId: z.string().uuid()
+});
+
+const clientUserCreateSchema = z.object({
+  email: z.string().email().max(255),
+  name: z.string().trim().min(1).max(255),
+  password: z.string().min(8).max(128)
+});
+
 const clientActivityQuerySchema = z.object({
   limit: z.coerce.number().int().min(1).max(200).optional().default(50)
 });
@@ -61,6 +95,16 @@ clientsRouter.get("/", async (req, res) => {
   });
 });
 
+clientsRouter.get("/duplicates", async (req, res) => {
+  const parsedQuery = duplicatesQuerySchema.safeParse(req.query);
+  if (!parsedQuery.success) {
+    return sendValidationError(res, "Invalid duplicates query", parsedQuery.error);
+  }
+
+  const duplicates = await findDuplicateClients(parsedQuery.data);
+  return res.status(200).json({ data: duplicates });
+});
+
 clientsRouter.get("/:id", async (req, res) => {
   const parsedParams = idParamsSchema.safeParse(req.params);
   if (!parsedParams.success) {
@@ -95,6 +139,206 @@ clientsRouter.get("/:id/activity", async (req, res) => {
   return res.status(200).json({ data: activity });
 });
 
+clientsRouter.get("/:id/contacts", async (req, res) => {
+  const parsedParams = idParamsSchema.safeParse(req.params);
+  if (!parsedParams.success) {
+    return sendValidationError(res, "Invalid client id", parsedParams.error);
+  }
+
+  const client = await getClientById(parsedParams.data.id);
+  if (!client) {
+    return sendNotFound(res, "Client not found");
+  }
+
+  const contacts = await listClientContacts(client.id);
+  return res.status(200).json({ data: contacts });
+});
+
+clientsRouter.post("/:id/contacts", async (req: AuthenticatedRequest, res) => {
+  const parsedParams = idParamsSchema.safeParse(req.params);
+  if (!parsedParams.success) {
+    return sendValidationError(res, "Invalid client id", parsedParams.error);
+  }
+
+  const parsed = contactCreateSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return sendValidationError(res, "Invalid contact payload", parsed.error);
+  }
+
+  if (!req.user) {
+    return sendUnauthorized(res, "Unauthorized");
+  }
+
+  const client = await getClientById(parsedParams.data.id);
+  if (!client) {
+    return sendNotFound(res, "Client not found");
+  }
+
+  const contact = await createClientContact(client.id, parsed.data);
+  await insertActivityLog({
+    userId: req.user.id,
+    action: "client_contact_created",
+    details: { clientId: client.id, contactId: contact.id, name: contact.name },
+    projectId: null
+  });
+
+  return res.status(201).json({ data: contact });
+});
+
+clientsRouter.put("/:id/contacts/:contactId", async (req: AuthenticatedRequest, res) => {
+  const parsedParams = contactParamsSchema.safeParse(req.params);
+  if (!parsedParams.success) {
+    return sendValidationError(res, "Invalid contact id", parsedParams.error);
+  }
+
+  const parsed = contactUpdateSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return sendValidationError(res, "Invalid contact payload", parsed.error);
+  }
+
+  if (!req.user) {
+    return sendUnauthorized(res, "Unauthorized");
+  }
+
+  const contact = await updateClientContact(parsedParams.data.id, parsedParams.data.contactId, parsed.data);
+  if (!contact) {
+    return sendNotFound(res, "Contact not found");
+  }
+
+  await insertActivityLog({
+    userId: req.user.id,
+    action: "client_contact_updated",
+    details: { clientId: contact.client_id, contactId: contact.id, updatedFields: Object.keys(parsed.data) },
+    projectId: null
+  });
+
+  return res.status(200).json({ data: contact });
+});
+
+clientsRouter.delete("/:id/contacts/:contactId", async (req: AuthenticatedRequest, res) => {
+  const parsedParams = contactParamsSchema.safeParse(req.params);
+  if (!parsedParams.success) {
+    return sendValidationError(res, "Invalid contact id", parsedParams.error);
+  }
+
+  if (!req.user) {
+    return sendUnauthorized(res, "Unauthorized");
+  }
+
+  const deleted = await deleteClientContact(parsedParams.data.id, parsedParams.data.contactId);
+  if (!deleted) {
+    return sendNotFound(res, "Contact not found");
+  }
+
+  await insertActivityLog({
+    userId: req.user.id,
+    action: "client_contact_deleted",
+    details: { clientId: parsedParams.data.id, contactId: parsedParams.data.contactId },
+    projectId: null
+  });
+
+  return res.status(204).send();
+});
+
+// Any staff member may list portal accounts, e.g. to pick an approval reviewer; creating them is admin-only.
+clientsRouter.get("/:id/users", async (req, res) => {
+  const parsedParams = idParamsSchema.safeParse(req.params);
+  if (!parsedParams.success) {
+    return sendValidationError(res, "Invalid client id", parsedParams.error);
+  }
+
+  const client = await getClientById(parsedParams.data.id);
+  if (!client) {
+    return sendNotFound(res, "Client not found");
+  }
+
+  const users = await listClientUsers(client.id);
+  return res.status(200).json({ data: users });
+});
+
+clientsRouter.post("/:id/users", requireAdmin, async (req: AuthenticatedRequest, res) => {
+  const parsedParams = idParamsSchema.safeParse(req.params);
+  if (!parsedParams.success) {
+    return sendValidationError(res, "Invalid client id", parsedParams.error);
+  }
+
+  const parsed = clientUserCreateSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return sendValidationError(res, "Invalid client user payload", parsed.error);
+  }
+
+  if (!req.user) {
+    return sendUnauthorized(res, "Unauthorized");
+  }
+
+  const user = await createClientUser({ clientId: parsedParams.data.id, ...parsed.data });
+  if (user === "client_not_found") {
+    return sendNotFound(res, "Client not found");
+  }
+  if (user === "email_taken") {
+    return sendConflict(res, "Email is already registered");
+  }
+
+  await insertActivityLog({
+    userId: req.user.id,
+    action: "client_user_created",
+    details: { clientId: parsedParams.data.id, createdUserId: user.id, email: user.email },
+    projectId: null
+  });
+
+  return res.status(201).json({ data: user });
+});
+
+clientsRouter.post("/:id/merge", requireAdmin, async (req: AuthenticatedRequest, res) => {
+  const parsedParams = idParamsSchema.safeParse(req.params);
+  if (!parsedParams.success) {
+    return sendValidationError(res, "Invalid client id", parsedParams.error);
+  }
+
+  const parsed = mergeSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return sendValidationError(res, "Invalid client merge payload", parsed.error);
+  }
+
+  if (!req.user) {
+    return sendUnauthorized(res, "Unauthorized");
+  }
+
+  if (parsed.data.mergedClientId === parsedParams.data.id) {
+    return sendError(res, 400, "INVALID_MERGE_CLIENT", "A client cannot be merged into itself");
+  }
+
+  const result = await mergeClients({
+    survivorId: parsedParams.data.id,
+    mergedId: parsed.data.mergedClientId,
+    mergedBy: req.user.id
+  });
+  if (!result.ok) {
+    if (result.reason === "not_found") {
+      return sendNotFound(res, "Client not found");
+    }
+    return sendError(res, 400, "INVALID_MERGE_CLIENT", "The client to merge does not exist or was already removed");
+  }
+
+  await insertActivityLog({
+    userId: req.user.id,
+    action: "client_merged",
+    details: {
+      clientId: result.client.id,
+      mergeId: result.merge.id,
+      mergedClientId: result.merge.merged_client_id,
+      mergedClientName: result.merge.merged_client_snapshot.name,
+      projectCount: result.merge.moved.projectIds.length,
+      contactCount: result.merge.moved.contactIds.length,
+      clientUserCount: result.merge.moved.clientUserIds.length,
+      filledFields: result.merge.moved.filledFields
+    },
+    projectId: null
+  });
+
+  return res.status(200).json({ data: { client: result.client, merge: result.merge } });
+});
+
 clientsRouter.post("/", async (req: AuthenticatedRequest, res) => {
   const parsed = clientCreateSchema.safeParse(req.body);
   if (!parsed.success) {
@@ -0,0 +1,193 @@
+import { Router } from "express";
+import { z } from "zod";
+import { requireAdmin } from "../middleware/admin.js";
+import { requireAuth } from "../middleware/auth.js";
+import type { AuthenticatedRequest } from "../types/http.js";
+import type { AuthenticatedUser } from "../types/auth.js";
+import { insertActivityLog } from "../services/activity-log.service.js";
+import {
+  createDataExport,
+  getDataExportById,
+  listDataExports,
+  queueDataExport
+} from "../services/data-exports.service.js";
+import { getSignedUrlTtlSeconds, getStorageDriver } from "../services/storage.service.js";
+import { getUserById } from "../services/users.service.js";
+import { logAndSendForbidden } from "../utils/authz.js";
+import { sendError, sendNotFound, sendUnauthorized } from "../utils/http-error.js";
+import { sendValidationError } from "../utils/validation.js";
+
+// Workspace exports (admin-only) and personal data exports. People can export their own data; admins
+// can export anyone's to answer a data-subject request.
+export const dataExportsRouter = Router();
+
+const idParamsSchema = z.object({
+  id: z.string().uuid()
+});
+
+const userParamsSchema = z.object({
+  userId: z.string().uuid()
+});
+
+const listQuerySchema = z.object({
+  kind: z.enum(["workspace", "user"]).optional()
+});
+
+dataExportsRouter.use(requireAuth);
+
+function canAccessExport(
+  user: AuthenticatedUser,
+  dataExport: { kind: string; requested_by: string | null; subject_user_id: string | null }
+) {
+  if (user.isAdmin) return true;
+  if (dataExport.kind === "workspace") return false;
+  return dataExport.requested_by === user.id || dataExport.subject_user_id === user.id;
+}
+
+dataExportsRouter.get("/", async (req: AuthenticatedRequest, res) => {
+  const parsedQuery = listQuerySchema.safeParse(req.query);
+  if (!parsedQuery.success) {
+    return sendValidationError(res, "Invalid data exports query", parsedQuery.error);
+  }
+
+  if (!req.user) {
+    return sendUnauthorized(res, "Unauthorized");
+  }
+
+  const exports = await listDataExports({
+    userId: req.user.id,
+    isAdmin: req.user.isAdmin,
+    kind: parsedQuery.data.kind
+  });
+  return res.status(200).json({ data: exports, meta: { total: exports.length } });
+});
+
+dataExportsRouter.post("/workspace", requireAdmin, async (req: AuthenticatedRequest, res) => {
+  if (!req.user) {
+    return sendUnauthorized(res, "Unauthorized");
+  }
+
+  const dataExport = await createDataExport({ kind: "workspace", subjectUserId: null, requestedBy: req.user.id });
+
+  await insertActivityLog({
+    userId: req.user.id,
+    projectId: null,
+    action: "workspace_export_requested",
+    details: { dataExportId: dataExport.id }
+  });
+
+  queueDataExport(dataExport.id);
+  return res.status(202).json({ data: dataExport });
+});
+
+dataExportsRouter.post("/users/:userId", async (req: AuthenticatedRequest, res) => {
+  const parsedParams = userParamsSchema.safeParse(req.params);
+  if (!parsedParams.success) {
+    return sendValidationError(res, "Invalid user id", parsedParams.error);
+  }
+
+  if (!req.user) {
+    return sendUnauthorized(res, "Unauthorized");
+  }
+
+  if (!req.user.isAdmin && req.user.id !== parsedParams.data.userId) {
+    return logAndSendForbidden({
+      req,
+      res,
+      permission: "admin:access",
+      projectId: null
+    });
+  }
+
+  const subject = await getUserById(parsedParams.data.userId);
+  if (!subject) {
+    return sendNotFound(res, "User not found");
+  }
+
+  const dataExport = await createDataExport({
+    kind: "user",
+    subjectUserId: subject.id,
+    requestedBy: req.user.id
+  });
+
+  await insertActivityLog({
+    userId: req.user.id,
+    projectId: null,
+    action: "user_data_export_requested",
+    details: { dataExportId: dataExport.id, subjectUserId: subject.id }
+  });
+
+  queueDataExport(dataExport.id);
+  return res.status(202).json({ data: dataExport });
+});
+
+dataExportsRouter.get("/:id", async (req: AuthenticatedRequest, res) => {
+  const parsedParams = idParamsSchema.safeParse(req.params);
+  if (!parsedParams.success) {
+    return sendValidationError(res, "Invalid data export id", parsedParams.error);
+  }
+
+  if (!req.user) {
+    return sendUnauthorized(res, "Unauthorized");
+  }
+
+  const dataExport = await getDataExportById(parsedParams.data.id);
+  if (!dataExport || !canAccessExport(req.user, dataExport)) {
+    return sendNotFound(res, "Data export not found");
+  }
+
+  return res.status(200).json({ data: dataExport });
+});
+
+dataExportsRouter.get("/:id/download-url", async (req: AuthenticatedRequest, res) => {
+  const parsedParams = idParamsSchema.safeParse(req.params);
+  if (!parsedParams.success) {
+    return sendValidationError(res, "Invalid data export id", parsedParams.error);
+  }
+
+  if (!req.user) {
+    return sendUnauthorized(res, "Unauthorized");
+  }
+
+  const dataExport = await getDataExportById(parsedParams.data.id);
+  if (!dataExport || !canAccessExport(req.user, dataExport)) {
+    return sendNotFound(res, "Data export not found");
+  }
+
+  if (dataExport.status !== "ready" || !dataExport.object_key || !dataExport.storage_type) {
+    return sendError(res, 409, "EXPORT_NOT_READY", "Data export is not ready", { status: dataExport.status });
+  }
+
+  const driver = getStorageDriver(dataExport.storage_type);
+  if (!driver) {
+    return sendError(
+      res,
+      409,
+      "STORAGE_UNAVAILABLE",
+      `Storage driver "${dataExport.storage_type}" is not configured`
+    );
+  }
+
+  const prefix = dataExport.kind === "workspace" ? "workspace-export" : "personal-data-export";
+  const signed = driver.createDownloadUrl({
+    objectKey: dataExport.object_key,
+    fileName: `${prefix}-${dataExport.created_at.toISOString().slice(0, 10)}-${dataExport.id.slice(0, 8)}.zip`,
+    contentType: "application/zip",
+    expiresInSeconds: getSignedUrlTtlSeconds()
+  });
+
+  await insertActivityLog({
+    userId: req.user.id,
+    projectId: null,
+    action: "data_export_downloaded",
+    details: { dataExportId: dataExport.id, kind: dataExport.kind, subjectUserId: dataExport.subject_user_id }
+  });
+
+  return res.status(200).json({
+    data: {
+      dataExportId: dataExport.id,
+      downloadUrl: signed.url,
+      expiresAt: signed.expiresAt.toISOString()
+    }
+  });
+});
@@ -1,20 +1,60 @@
-import { Router } from "express";
-import crypto from "node:crypto";
+import { Router, type Response } from "express";
 import { z } from "zod";
-import { requireAuth } from "../middleware/auth.js";
+import { refuseApiTokens, requireProjectAuth } from "../middleware/auth.js";
 import type { AuthenticatedRequest } from "../types/http.js";
+import { checkFileContent, isAllowedMimeType } from "../scanning/content-sniffer.js";
 import { insertActivityLog } from "../services/activity-log.service.js";
 import {
+  buildFolderTree,
+  createFolder,
+  getDefaultFolderId,
+  getFolderById,
+  listProjectFolders,
+  updateFolder
+} from "../services/file-folders.service.js";
+import {
+  APPROVABLE_FILE_TYPES,
+  decideFileApproval,
+  getFileApprovalById,
+  listFileApprovals,
+  notifyApprovalDecided,
+  requestFileApproval
+} from "../services/file-approvals.service.js";
+import {
+  createExportBundle,
+  getExportBundleById,
+  listExportBundles,
+  queueExportBundle
+} from "../services/file-exports.service.js";
+import { getFilePreview } from "../services/file-previews.service.js";
+import { queueFileProcessing } from "../services/file-scan.service.js";
+import { createShareLink, listShareLinks, revokeShareLink } from "../services/share-links.service.js";
+import {
+  createFileVersion,
   createLinkedFile,
   createUploadedFile,
   deleteFile,
   getFileById,
-  listFilesByProjectId
+  listFilesByProjectId,
+  listFileVersions,
+  restoreFileVersion,
+  updateFileDetails,
+  type FileType
 } from "../services/files.service.js";
+import { createNotification } from "../services/notifications.service.js";
 import { getProjectById } from "../services/projects.service.js";
-import { hasProjectPermission } from "../services/rbac.service.js";
+import { hasClientPortalPermission, hasProjectPermission } from "../services/rbac.service.js";
+import {
+  getPublicApiBaseUrl,
+  getSignedUrlTtlSeconds,
+  getStorageDriver,
+  getUploadSizeLimit,
+  hashStoredObject
+} from "../services/storage.service.js";
+import { getUserById } from "../services/users.service.js";
+import type { StorageDriver } from "../storage/storage-driver.js";
 import { logAndSendForbidden } from "../utils/authz.js";
-import { sendNotFound, sendUnauthorized } from "../utils/http-error.js";
+import { sendConflict, sendError, sendNotFound, sendUnauthorized } from "../utils/http-error.js";
 import { sendValidationError } from "../utils/validation.js";
 
 export const filesRouter = Router();
@@ -33,6 +73,13 @@ const fileTypeEnum = z.enum([
 const linkedStorageTypeEnum = z.enum(["google_drive", "dropbox", "onedrive"]);
 const uploadStorageTypeEnum = z.enum(["local", "s3"]);
 
+const uploadMimeTypeSchema = z
+  .string()
+  .trim()
+  .min(1)
+  .max(127)
+  .refine(isAllowedMimeType, "MIME type is not allowed for uploads");
+
 const projectParamsSchema = z.object({
   projectId: z.string().uuid()
 });
@@ -41,7 +88,9 @@ const fileListQuerySchema = z.object({
   page: z.coerce.number().int().min(1).optional().default(1),
   pageSize: z.coerce.number().int().min(1).max(100).optional().default(20),
   sortBy: z.enum(["createdAt", "fileName", "fileSize"]).optional().default("createdAt"),
-  sortOrder: z.enum(["asc", "desc"]).optional().default("desc")
+  sortOrder: z.enum(["asc", "desc"]).optional().default("desc"),
+  folderId: z.union([z.literal("root"), z.string().uuid()]).optional(),
+  view: z.enum(["list", "tree"]).optional().default("list")
 });
 
 const fileParamsSchema = z.object({
@@ -55,7 +104,8 @@ const linkFileSchema = z.object({
   storageType: linkedStorageTypeEnum,
   externalUrl: z.string().url().max(2048),
   mimeType: z.string().trim().min(1).max(127),
-  fileSize: z.coerce.number().int().positive()
+  fileSize: z.coerce.number().int().positive(),
+  folderId: z.string().uuid().optional().nullable()
 });
 
 const uploadFileSchema = z.object({
@@ -64,9 +114,10 @@ const uploadFileSchema = z.object({
   fileType: fileTypeEnum,
   storageType: uploadStorageTypeEnum,
   objectKey: z.string().trim().min(1).max(2048),
-  mimeType: z.string().trim().min(1).max(127),
+  mimeType: uploadMimeTypeSchema,
   fileSize: z.coerce.number().int().positive(),
-  checksumSha256: z.string().regex(/^[a-fA-F0-9]{64}$/).optional().nullable()
+  checksumSha256: z.string().regex(/^[a-fA-F0-9]{64}$/).optional().nullable(),
+  folderId: z.string().uuid().optional().nullable()
 });
 
 const uploadUrlRequestSchema = z.object({
@@ -74,13 +125,113 @@ const uploadUrlRequestSchema = z.object({
   fileName: z.string().trim().min(1).max(255),
   fileType: fileTypeEnum,
   storageType: uploadStorageTypeEnum,
-  mimeType: z.string().trim().min(1).max(127),
+  mimeType: uploadMimeTypeSchema,
   fileSize: z.coerce.number().int().positive()
 });
 
 const completeUploadSchema = uploadUrlRequestSchema.extend({
   objectKey: z.string().trim().min(1).max(2048),
-  checksumSha256: z.string().regex(/^[a-fA-F0-9]{64}$/).optional().nullable()
+  checksumSha256: z.string().regex(/^[a-fA-F0-9]{64}$/).optional().nullable(),
+  folderId: z.string().uuid().optional().nullable()
+});
+
+const folderParamsSchema = z.object({
+  folderId: z.string().uuid()
+});
+
+const folderCreateSchema = z.object({
+  projectId: z.string().uuid(),
+  name: z.string().trim().min(1).max(255),
+  parentId: z.string().uuid().optional().nullable()
+});
+
+const folderUpdateSchema = z
+  .object({
+    name: z.string().trim().min(1).max(255).optional(),
+    parentId: z.string().uuid().nullable().optional()
+  })
+  .refine((value) => typeof value.name !== "undefined" || typeof value.parentId !== "undefined", {
+    message: "Provide a new name or parentId"
+  });
+
+const exportBundleCreateSchema = z.object({
+  fileType: fileTypeEnum.optional().nullable(),
+  folderId: z.string().uuid().optional().nullable()
+});
+
+const exportBundleParamsSchema = z.object({
+  bundleId: z.string().uuid()
+});
+
+const approvalRequestSchema = z.object({
+  reviewerId: z.string().uuid(),
+  note: z.string().trim().max(2000).optional().nullable()
+});
+
+const approvalParamsSchema = z.object({
+  approvalId: z.string().uuid()
+});
+
+const approvalDecisionSchema = z
+  .object({
+    decision: z.enum(["approved", "rejected", "changes_requested"]),
+    note: z.string().trim().max(2000).optional().nullable()
+  })
+  .refine((value) => value.decision === "approved" || Boolean(value.note), {
+    message: "A note is required when rejecting or requesting changes",
+    path: ["note"]
+  });
+
+const fileUpdateSchema = z
+  .object({
+    fileName: z.string().trim().min(1).max(255).optional(),
+    folderId: z.string().uuid().nullable().optional()
+  })
+  .refine((value) => typeof value.fileName !== "undefined" || typeof value.folderId !== "undefined", {
+    message: "Provide a new fileName or folderId"
+  });
+
+const fileVersionSchema = z.discriminatedUnion("storageType", [
+  z.object({
+    storageType: uploadStorageTypeEnum,
+    fileName: z.string().trim().min(1).max(255).optional(),
+    objectKey: z.string().trim().min(1).max(2048),
+    mimeType: uploadMimeTypeSchema,
+    checksumSha256: z.string().regex(/^[a-fA-F0-9]{64}$/).optional().nullable()
+  }),
+  z.object({
+    storageType: linkedStorageTypeEnum,
+    fileName: z.string().trim().min(1).max(255).optional(),
+    externalUrl: z.string().url().max(2048),
+    mimeType: z.string().trim().min(1).max(127),
+    fileSize: z.coerce.number().int().positive()
+  })
+]);
+
+const filePreviewQuerySchema = z.object({
+  size: z.enum(["small", "medium", "large"]).optional().default("medium")
+});
+
+const SHARE_LINK_DEFAULT_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+const shareLinkCreateSchema = z.object({
+  expiresAt: z
+    .string()
+    .datetime({ offset: true })
+    .optional()
+    .refine((value) => !value || new Date(value).getTime() > Date.now(), "expiresAt must be in the future"),
+  password: z.string().min(4).max(128).optional().nullable(),
+  maxDownloads: z.coerce.number().int().min(1).max(10000).optional().nullable()
+});
+
+const shareLinkParamsSchema = z.object({
+  id: z.string().uuid(),
+  linkId: z.string().uuid()
+});
+
+const fileRestoreParamsSchema = z.object({
+  id: z.string().uuid(),
+  version: z.coerce.number().int().min(1)
 });
 
 function buildObjectKey(projectId: string, fileName: string) {
@@ -88,17 +239,139 @@ function buildObjectKey(projectId: string, fileName: string) {
   return `projects/${projectId}/uploads/${Date.now()}-${safeName}`;
 }
 
-function buildMockSignedUploadUrl(objectKey: string, expiresAt: Date) {
-  const token = crypto.randomBytes(16).toString("hex");
-  return `https://uploads.adfix.local/mock-put/${encodeURIComponent(objectKey)}?token=${token}&expires=${expiresAt.toISOString()}`;
+// Accepts only keys shaped like the ones buildObjectKey issues: a single file name directly under the
+// project's uploads folder. Anything else, including `.` and `..` segments that storage would resolve
+// into another project's objects or an export, is refused before storage is touched.
+function isProjectUploadKey(projectId: string, objectKey: string) {
+  const prefix = `projects/${projectId}/uploads/`;
+  if (!objectKey.startsWith(prefix)) {
+    return false;
+  }
+  const name = objectKey.slice(prefix.length);
+  return /^[a-zA-Z0-9._-]+$/.test(name) && name !== "." && name !== "..";
+}
+
+function sendInvalidObjectKey(res: Response) {
+  return sendError(res, 400, "INVALID_OBJECT_KEY", "Object key is not an upload key for this project");
+}
+
+function sendFileTooLarge(res: Response) {
+  const maxBytes = getUploadSizeLimit();
+  return sendError(res, 413, "FILE_TOO_LARGE", `File exceeds the ${maxBytes} byte upload limit`, { maxBytes });
+}
+
+function sendStorageUnavailable(res: Response, storageType: string) {
+  return sendError(res, 409, "STORAGE_UNAVAILABLE", `Storage driver "${storageType}" is not configured`);
+}
+
+// Picks the folder for a new file: an explicit folderId must belong to the project, null means the
+// project root, and omitting it falls back to the folder mapped to the file's type.
+async function resolveFileFolder(
+  res: Response,
+  input: { projectId: string; fileType: FileType; folderId?: string | null }
+) {
+  if (typeof input.folderId === "undefined") {
+    return { folderId: await getDefaultFolderId(input.projectId, input.fileType) };
+  }
+  if (input.folderId === null) {
+    return { folderId: null };
+  }
+
+  const folder = await getFolderById(input.folderId);
+  if (!folder || folder.project_id !== input.projectId) {
+    sendNotFound(res, "Folder not found");
+    return null;
+  }
+  return { folderId: folder.id };
+}
+
+function sendFolderWriteError(res: Response, reason: "not_found" | "parent_not_found" | "cycle" | "name_taken") {
+  if (reason === "name_taken") {
+    return sendConflict(res, "A folder with this name already exists here");
+  }
+  if (reason === "cycle") {
+    return sendError(res, 400, "FOLDER_CYCLE", "A folder cannot be moved into itself or one of its subfolders");
+  }
+  return sendNotFound(res, reason === "parent_not_found" ? "Parent folder not found" : "Folder not found");
 }
 
-function buildMockSignedDownloadUrl(objectKey: string, expiresAt: Date) {
-  const token = crypto.randomBytes(16).toString("hex");
-  return `https://downloads.adfix.local/mock-get/${encodeURIComponent(objectKey)}?token=${token}&expires=${expiresAt.toISOString()}`;
+// Sniffs the leading bytes of a stored object. Executables, scripts and content that does not match
+// the declared MIME type are deleted from storage and answered with 415.
+async function rejectUnsafeContent(
+  res: Response,
+  driver: StorageDriver,
+  input: { objectKey: string; mimeType: string; header: Buffer }
+) {
+  const check = checkFileContent(input.mimeType, input.header);
+  if (check.ok) {
+    return false;
+  }
+
+  await driver.deleteObject(input.objectKey);
+  sendError(
+    res,
+    415,
+    "UNSUPPORTED_FILE_CONTENT",
+    check.reason === "executable_content"
+      ? "Executable and script files cannot be uploaded"
+      : "File content does not match the declared MIME type",
+    { reason: check.reason, declaredMimeType: input.mimeType, detectedKind: check.kind }
+  );
+  return true;
+}
+
+// Re-hashes an object the client uploaded through a signed URL. Sends the error response and
+// returns null when the object is missing, too large, unsafe, or does not match the claimed checksum.
+async function verifyStoredUpload(
+  res: Response,
+  input: {
+    projectId: string;
+    storageType: "local" | "s3";
+    objectKey: string;
+    mimeType: string;
+    checksumSha256?: string | null;
+  }
+) {
+  if (!isProjectUploadKey(input.projectId, input.objectKey)) {
+    sendInvalidObjectKey(res);
+    return null;
+  }
+
+  const driver = getStorageDriver(input.storageType);
+  if (!driver) {
+    sendStorageUnavailable(res, input.storageType);
+    return null;
+  }
+
+  const stored = await hashStoredObject(driver, input.objectKey);
+  if (!stored) {
+    sendError(res, 409, "UPLOAD_NOT_FOUND", "Uploaded object not found in storage");
+    return null;
+  }
+
+  if (stored.size > getUploadSizeLimit()) {
+    await driver.deleteObject(input.objectKey);
+    sendFileTooLarge(res);
+    return null;
+  }
+
+  if (input.checksumSha256 && input.checksumSha256.toLowerCase() !== stored.checksumSha256) {
+    await driver.deleteObject(input.objectKey);
+    sendError(res, 409, "CHECKSUM_MISMATCH", "Uploaded object checksum does not match", {
+      expected: input.checksumSha256.toLowerCase(),
+      actual: stored.checksumSha256
+    });
+    return null;
+  }
+
+  if (await rejectUnsafeContent(res, driver, { ...input, header: stored.header })) {
+    return null;
+  }
+
+  return stored;
 }
 
-filesRouter.use(requireAuth);
+filesRouter.use(requireProjectAuth);
 
 filesRouter.get("/project/:projectId", async (req: AuthenticatedRequest, res) => {
   if (!req.user) {
@@ -123,7 +396,8 @@ filesRouter.get("/project/:projectId", async (req: AuthenticatedRequest, res) =>
   const canViewProject = await hasProjectPermission({
     projectId: parsedParams.data.projectId,
     userId: req.user.id,
-    permission: "project:view"
+    permission: "project:view",
+    scopes: req.user.apiToken?.scopes
   });
   if (!canViewProject) {
     return logAndSendForbidden({
@@ -134,23 +408,89 @@ filesRouter.get("/project/:projectId", async (req: AuthenticatedRequest, res) =>
     });
   }
 
-  const result = await listFilesByProjectId(parsedParams.data.projectId, parsedQuery.data);
+  const { folderId: folderFilter, view, ...listQuery } = parsedQuery.data;
+  let rootFolderId: string | null = null;
+  if (folderFilter && folderFilter !== "root") {
+    const folder = await getFolderById(folderFilter);
+    if (!folder || folder.project_id !== parsedParams.data.projectId) {
+      return sendNotFound(res, "Folder not found");
+    }
+    rootFolderId = folder.id;
+  }
+
+  if (view === "tree") {
+    // The tree is rooted at the requested folder (or the project root) and is not paginated.
+    const [folders, result] = await Promise.all([
+      listProjectFolders(parsedParams.data.projectId),
+      listFilesByProjectId(parsedParams.data.projectId, { ...listQuery, pageSize: null })
+    ]);
+    return res.status(200).json({
+      data: buildFolderTree(folders, result.rows, rootFolderId),
+      meta: {
+        view,
+        folderId: rootFolderId,
+        sortBy: listQuery.sortBy,
+        sortOrder: listQuery.sortOrder,
+        total: result.total
+      }
+    });
+  }
+
+  const result = await listFilesByProjectId(parsedParams.data.projectId, {
+    ...listQuery,
+    folderId: folderFilter ? rootFolderId : undefined
+  });
   return res.status(200).json({
     data: result.rows,
     meta: {
-      page: parsedQuery.data.page,
-      pageSize: parsedQuery.data.pageSize,
-      sortBy: parsedQuery.data.sortBy,
-      sortOrder: parsedQuery.data.sortOrder,
+      page: listQuery.page,
+      pageSize: listQuery.pageSize,
+      sortBy: listQuery.sortBy,
+      sortOrder: listQuery.sortOrder,
+      folderId: folderFilter ? rootFolderId : undefined,
       total: result.total
     }
   });
 });
 
-filesRouter.post("/link", async (req: AuthenticatedRequest, res) => {
-  const parsed = linkFileSchema.safeParse(req.body);
+filesRouter.get("/project/:projectId/folders", async (req: AuthenticatedRequest, res) => {
+  if (!req.user) {
+    return sendUnauthorized(res, "Unauthorized");
+  }
+
+  const parsedParams = projectParamsSchema.safeParse(req.params);
+  if (!parsedParams.success) {
+    return sendValidationError(res, "Invalid project id", parsedParams.error);
+  }
+
+  const project = await getProjectById(parsedParams.data.projectId);
+  if (!project) {
+    return sendNotFound(res, "Project not found");
+  }
+
+  const canViewProject = await hasProjectPermission({
+    projectId: parsedParams.data.projectId,
+    userId: req.user.id,
+    permission: "project:view",
+    scopes: req.user.apiToken?.scopes
+  });
+  if (!canViewProject) {
+    return logAndSendForbidden({
+      req,
+      res,
+      permission: "project:view",
+      projectId: parsedParams.data.projectId
+    });
+  }
+
+  const folders = await listProjectFolders(parsedParams.data.projectId);
+  return res.status(200).json({ data: folders, meta: { total: folders.length } });
+});
+
+filesRouter.post("/folders", async (req: AuthenticatedRequest, res) => {
+  const parsed = folderCreateSchema.safeParse(req.body);
   if (!parsed.success) {
-    return sendValidationError(res, "Invalid file link payload", parsed.error);
+    return sendValidationError(res, "Invalid folder payload", parsed.error);
   }
 
   if (!req.user) {
@@ -165,7 +505,8 @@ filesRouter.post("/link", async (req: AuthenticatedRequest, res) => {
   const canWriteFile = await hasProjectPermission({
     projectId: parsed.data.projectId,
     userId: req.user.id,
-    permission: "file:write"
+    permission: "file:write",
+    scopes: req.user.apiToken?.scopes
   });
   if (!canWriteFile) {
     return logAndSendForbidden({
@@ -176,209 +517,1312 @@ filesRouter.post("/link", async (req: AuthenticatedRequest, res) => {
     });
   }
 
-  const file = await createLinkedFile({
-    ...parsed.data,
-    uploadedBy: req.user.id
+  const result = await createFolder({
+    projectId: parsed.data.projectId,
+    parentId: parsed.data.parentId ?? null,
+    name: parsed.data.name,
+    createdBy: req.user.id
   });
+  if (!result.ok) {
+    return sendFolderWriteError(res, result.reason);
+  }
 
   await insertActivityLog({
     userId: req.user.id,
-    projectId: file.project_id,
-    action: "file_linked",
-    details: { fileId: file.id, storageType: file.storage_type }
+    projectId: result.folder.project_id,
+    action: "file_folder_created",
+    details: { folderId: result.folder.id, name: result.folder.name, parentId: result.folder.parent_id }
   });
 
-  return res.status(201).json({ data: file });
+  return res.status(201).json({ data: result.folder });
 });
 
-filesRouter.post("/upload", async (req: AuthenticatedRequest, res) => {
-  const parsed = uploadFileSchema.safeParse(req.body);
+filesRouter.patch("/folders/:folderId", async (req: AuthenticatedRequest, res) => {
+  const parsedParams = folderParamsSchema.safeParse(req.params);
+  if (!parsedParams.success) {
+    return sendValidationError(res, "Invalid folder id", parsedParams.error);
+  }
+
+  const parsed = folderUpdateSchema.safeParse(req.body);
   if (!parsed.success) {
-    return sendValidationError(res, "Invalid file upload payload", parsed.error);
+    return sendValidationError(res, "Invalid folder update payload", parsed.error);
   }
 
   if (!req.user) {
     return sendUnauthorized(res, "Unauthorized");
   }
 
-  const project = await getProjectById(parsed.data.projectId);
-  if (!project) {
-    return sendNotFound(res, "Project not found");
+  const existingFolder = await getFolderById(parsedParams.data.folderId);
+  if (!existingFolder) {
+    return sendNotFound(res, "Folder not found");
   }
 
   const canWriteFile = await hasProjectPermission({
-    projectId: parsed.data.projectId,
+    projectId: existingFolder.project_id,
     userId: req.user.id,
-    permission: "file:write"
+    permission: "file:write",
+    scopes: req.user.apiToken?.scopes
   });
   if (!canWriteFile) {
     return logAndSendForbidden({
       req,
       res,
       permission: "file:write",
-      projectId: parsed.data.projectId
+      projectId: existingFolder.project_id
     });
   }
 
-  const file = await createUploadedFile({
-    ...parsed.data,
-    uploadedBy: req.user.id
+  const result = await updateFolder({
+    folderId: existingFolder.id,
+    name: parsed.data.name,
+    parentId: parsed.data.parentId
   });
+  if (!result.ok) {
+    return sendFolderWriteError(res, result.reason);
+  }
 
   await insertActivityLog({
     userId: req.user.id,
-    projectId: file.project_id,
-    action: "file_uploaded",
-    details: { fileId: file.id, objectKey: file.object_key, storageType: file.storage_type }
+    projectId: result.folder.project_id,
+    action: "file_folder_updated",
+    details: {
+      folderId: result.folder.id,
+      previousName: existingFolder.name,
+      name: result.folder.name,
+      previousParentId: existingFolder.parent_id,
+      parentId: result.folder.parent_id
+    }
   });
 
-  return res.status(201).json({ data: file });
+  return res.status(200).json({ data: result.folder });
 });
 
-filesRouter.post("/upload-url", async (req: AuthenticatedRequest, res) => {
-  const parsed = uploadUrlRequestSchema.safeParse(req.body);
+filesRouter.post("/project/:projectId/export-bundles", async (req: AuthenticatedRequest, res) => {
+  const parsedParams = projectParamsSchema.safeParse(req.params);
+  if (!parsedParams.success) {
+    return sendValidationError(res, "Invalid project id", parsedParams.error);
+  }
+
+  const parsed = exportBundleCreateSchema.safeParse(req.body ?? {});
   if (!parsed.success) {
-    return sendValidationError(res, "Invalid upload-url payload", parsed.error);
+    return sendValidationError(res, "Invalid export payload", parsed.error);
   }
 
   if (!req.user) {
     return sendUnauthorized(res, "Unauthorized");
   }
 
-  const project = await getProjectById(parsed.data.projectId);
+  const project = await getProjectById(parsedParams.data.projectId);
   if (!project) {
     return sendNotFound(res, "Project not found");
   }
 
-  const canWriteFile = await hasProjectPermission({
-    projectId: parsed.data.projectId,
+  const canViewProject = await hasProjectPermission({
+    projectId: project.id,
     userId: req.user.id,
-    permission: "file:write"
+    permission: "project:view",
+    scopes: req.user.apiToken?.scopes
   });
-  if (!canWriteFile) {
+  if (!canViewProject) {
     return logAndSendForbidden({
       req,
       res,
-      permission: "file:write",
-      projectId: parsed.data.projectId
+      permission: "project:view",
+      projectId: project.id
     });
   }
 
-  const objectKey = buildObjectKey(parsed.data.projectId, parsed.data.fileName);
-  const expiresAt = new Date(Date.now() + 15 * 60 * 1000);
-  const uploadUrl = buildMockSignedUploadUrl(objectKey, expiresAt);
-
-  return res.status(200).json({
-    data: {
-      projectId: parsed.data.projectId,
-      fileName: parsed.data.fileName,
-      fileType: parsed.data.fileType,
-      storageType: parsed.data.storageType,
-      mimeType: parsed.data.mimeType,
-      fileSize: parsed.data.fileSize,
-      objectKey,
-      uploadUrl,
-      expiresAt: expiresAt.toISOString()
+  if (parsed.data.folderId) {
+    const folder = await getFolderById(parsed.data.folderId);
+    if (!folder || folder.project_id !== project.id) {
+      return sendNotFound(res, "Folder not found");
     }
+  }
+
+  const bundle = await createExportBundle({
+    projectId: project.id,
+    requestedBy: req.user.id,
+    fileType: parsed.data.fileType ?? null,
+    folderId: parsed.data.folderId ?? null
   });
-});
 
-filesRouter.post("/complete-upload", async (req: AuthenticatedRequest, res) => {
-  const parsed = completeUploadSchema.safeParse(req.body);
-  if (!parsed.success) {
-    return sendValidationError(res, "Invalid complete-upload payload", parsed.error);
-  }
+  await insertActivityLog({
+    userId: req.user.id,
+    projectId: project.id,
+    action: "file_export_requested",
+    details: { bundleId: bundle.id, fileType: bundle.file_type, folderId: bundle.folder_id }
+  });
+
+  queueExportBundle(bundle.id);
+  return res.status(202).json({ data: bundle });
+});
 
+filesRouter.get("/project/:projectId/export-bundles", async (req: AuthenticatedRequest, res) => {
   if (!req.user) {
     return sendUnauthorized(res, "Unauthorized");
   }
 
-  const project = await getProjectById(parsed.data.projectId);
+  const parsedParams = projectParamsSchema.safeParse(req.params);
+  if (!parsedParams.success) {
+    return sendValidationError(res, "Invalid project id", parsedParams.error);
+  }
+
+  const project = await getProjectById(parsedParams.data.projectId);
   if (!project) {
     return sendNotFound(res, "Project not found");
   }
 
-  const canWriteFile = await hasProjectPermission({
-    projectId: parsed.data.projectId,
+  const canViewProject = await hasProjectPermission({
+    projectId: project.id,
     userId: req.user.id,
-    permission: "file:write"
+    permission: "project:view",
+    scopes: req.user.apiToken?.scopes
   });
-  if (!canWriteFile) {
+  if (!canViewProject) {
     return logAndSendForbidden({
       req,
       res,
-      permission: "file:write",
-      projectId: parsed.data.projectId
+      permission: "project:view",
+      projectId: project.id
     });
   }
 
-  const file = await createUploadedFile({
-    ...parsed.data,
-    uploadedBy: req.user.id
-  });
+  const bundles = await listExportBundles(project.id);
+  return res.status(200).json({ data: bundles, meta: { total: bundles.length } });
+});
 
-  await insertActivityLog({
+filesRouter.get("/export-bundles/:bundleId", async (req: AuthenticatedRequest, res) => {
+  const parsed = exportBundleParamsSchema.safeParse(req.params);
+  if (!parsed.success) {
+    return sendValidationError(res, "Invalid export bundle id", parsed.error);
+  }
+
+  if (!req.user) {
+    return sendUnauthorized(res, "Unauthorized");
+  }
+
+  const bundle = await getExportBundleById(parsed.data.bundleId);
+  if (!bundle) {
+    return sendNotFound(res, "Export bundle not found");
+  }
+
+  const canViewProject = await hasProjectPermission({
+    projectId: bundle.project_id,
     userId: req.user.id,
-    projectId: file.project_id,
-    action: "file_uploaded",
-    details: { fileId: file.id, objectKey: file.object_key, storageType: file.storage_type }
+    permission: "project:view",
+    scopes: req.user.apiToken?.scopes
   });
+  if (!canViewProject) {
+    return logAndSendForbidden({
+      req,
+      res,
+      permission: "project:view",
+      projectId: bundle.project_id
+    });
+  }
 
-  return res.status(201).json({ data: file });
+  return res.status(200).json({ data: bundle });
 });
 
-filesRouter.get("/:id/download-url", async (req: AuthenticatedRequest, res) => {
-  const parsed = fileParamsSchema.safeParse(req.params);
+filesRouter.get("/export-bundles/:bundleId/download-url", async (req: AuthenticatedRequest, res) => {
+  const parsed = exportBundleParamsSchema.safeParse(req.params);
   if (!parsed.success) {
-    return sendValidationError(res, "Invalid file id", parsed.error);
-  }
-
-  const file = await getFileById(parsed.data.id);
-  if (!file) {
-    return sendNotFound(res, "File not found");
+    return sendValidationError(res, "Invalid export bundle id", parsed.error);
   }
 
   if (!req.user) {
     return sendUnauthorized(res, "Unauthorized");
   }
 
-  const canViewFile = await hasProjectPermission({
-    projectId: file.project_id,
+  const bundle = await getExportBundleById(parsed.data.bundleId);
+  if (!bundle) {
+    return sendNotFound(res, "Export bundle not found");
+  }
+
+  const canViewProject = await hasProjectPermission({
+    projectId: bundle.project_id,
     userId: req.user.id,
-    permission: "project:view"
+    permission: "project:view",
+    scopes: req.user.apiToken?.scopes
   });
-  if (!canViewFile) {
+  if (!canViewProject) {
     return logAndSendForbidden({
       req,
       res,
       permission: "project:view",
-      projectId: file.project_id
+      projectId: bundle.project_id
     });
   }
 
-  // External linked files are returned directly.
-  if (file.external_url) {
-    return res.status(200).json({
-      data: {
-        fileId: file.id,
-        downloadUrl: file.external_url,
-        expiresAt: null
-      }
-    });
+  if (bundle.status !== "ready" || !bundle.object_key || !bundle.storage_type) {
+    return sendError(res, 409, "EXPORT_NOT_READY", "Export bundle is not ready", { status: bundle.status });
+  }
+
+  const driver = getStorageDriver(bundle.storage_type);
+  if (!driver) {
+    return sendStorageUnavailable(res, bundle.storage_type);
   }
 
-  const expiresAt = new Date(Date.now() + 15 * 60 * 1000);
-  const downloadUrl = buildMockSignedDownloadUrl(file.object_key, expiresAt);
+  const signed = driver.createDownloadUrl({
+    objectKey: bundle.object_key,
+    fileName: `export-${bundle.created_at.toISOString().slice(0, 10)}-${bundle.id.slice(0, 8)}.zip`,
+    contentType: "application/zip",
+    expiresInSeconds: getSignedUrlTtlSeconds()
+  });
 
   return res.status(200).json({
     data: {
-      fileId: file.id,
-      downloadUrl,
-      expiresAt: expiresAt.toISOString()
+      bundleId: bundle.id,
+      downloadUrl: signed.url,
+      expiresAt: signed.expiresAt.toISOString()
     }
   });
 });
 
+filesRouter.post("/approvals/:approvalId/decision", refuseApiTokens, async (req: AuthenticatedRequest, res) => {
+  const parsedParams = approvalParamsSchema.safeParse(req.params);
+  if (!parsedParams.success) {
+    return sendValidationError(res, "Invalid approval id", parsedParams.error);
+  }
+
+  const parsed = approvalDecisionSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return sendValidationError(res, "Invalid approval decision payload", parsed.error);
+  }
+
+  if (!req.user) {
+    return sendUnauthorized(res, "Unauthorized");
+  }
+
+  const approval = await getFileApprovalById(parsedParams.data.approvalId);
+  if (!approval) {
+    return sendNotFound(res, "Approval not found");
+  }
+
+  // Only the reviewer named on the request may decide it.
+  if (approval.reviewer_id !== req.user.id) {
+    return logAndSendForbidden({
+      req,
+      res,
+      permission: "file:review",
+      projectId: approval.project_id
+    });
+  }
+
+  const result = await decideFileApproval({
+    approvalId: approval.id,
+    decision: parsed.data.decision,
+    note: parsed.data.note ?? null,
+    decidedBy: req.user.id
+  });
+  if (!result.ok) {
+    if (result.reason === "not_found") {
+      return sendNotFound(res, "Approval not found");
+    }
+    if (result.reason === "superseded") {
+      return sendError(res, 409, "APPROVAL_SUPERSEDED", "A newer version of this file has been uploaded since the request");
+    }
+    return sendConflict(res, "Approval has already been decided");
+  }
+
+  const file = await getFileById(result.approval.file_id);
+
+  await insertActivityLog({
+    userId: req.user.id,
+    projectId: result.approval.project_id,
+    action: "file_approval_decided",
+    details: {
+      approvalId: result.approval.id,
+      fileId: result.approval.file_id,
+      documentId: result.approval.document_id,
+      version: result.approval.file_version,
+      decision: result.approval.status,
+      note: result.approval.decision_note
+    }
+  });
+
+  await notifyApprovalDecided({
+    approval: result.approval,
+    fileName: file?.file_name ?? null,
+    decidedBy: req.user
+  });
+
+  return res.status(200).json({ data: result.approval });
+});
+
+filesRouter.post("/link", async (req: AuthenticatedRequest, res) => {
+  const parsed = linkFileSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return sendValidationError(res, "Invalid file link payload", parsed.error);
+  }
+
+  if (!req.user) {
+    return sendUnauthorized(res, "Unauthorized");
+  }
+
+  const project = await getProjectById(parsed.data.projectId);
+  if (!project) {
+    return sendNotFound(res, "Project not found");
+  }
+
+  const canWriteFile = await hasProjectPermission({
+    projectId: parsed.data.projectId,
+    userId: req.user.id,
+    permission: "file:write",
+    scopes: req.user.apiToken?.scopes
+  });
+  if (!canWriteFile) {
+    return logAndSendForbidden({
+      req,
+      res,
+      permission: "file:write",
+      projectId: parsed.data.projectId
+    });
+  }
+
+  const folder = await resolveFileFolder(res, parsed.data);
+  if (!folder) return;
+
+  const file = await createLinkedFile({
+    ...parsed.data,
+    folderId: folder.folderId,
+    uploadedBy: req.user.id
+  });
+
+  await insertActivityLog({
+    userId: req.user.id,
+    projectId: file.project_id,
+    action: "file_linked",
+    details: { fileId: file.id, storageType: file.storage_type }
+  });
+
+  return res.status(201).json({ data: file });
+});
+
+filesRouter.post("/upload", async (req: AuthenticatedRequest, res) => {
+  const parsed = uploadFileSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return sendValidationError(res, "Invalid file upload payload", parsed.error);
+  }
+
+  if (!req.user) {
+    return sendUnauthorized(res, "Unauthorized");
+  }
+
+  const project = await getProjectById(parsed.data.projectId);
+  if (!project) {
+    return sendNotFound(res, "Project not found");
+  }
+
+  const canWriteFile = await hasProjectPermission({
+    projectId: parsed.data.projectId,
+    userId: req.user.id,
+    permission: "file:write",
+    scopes: req.user.apiToken?.scopes
+  });
+  if (!canWriteFile) {
+    return logAndSendForbidden({
+      req,
+      res,
+      permission: "file:write",
+      projectId: parsed.data.projectId
+    });
+  }
+
+  if (!isProjectUploadKey(parsed.data.projectId, parsed.data.objectKey)) {
+    return sendInvalidObjectKey(res);
+  }
+
+  if (parsed.data.fileSize > getUploadSizeLimit()) {
+    return sendFileTooLarge(res);
+  }
+
+  const folder = await resolveFileFolder(res, parsed.data);
+  if (!folder) return;
+
+  // Objects registered here may have been written out of band; sniff them when storage can read them.
+  const driver = getStorageDriver(parsed.data.storageType);
+  const stored = driver ? await hashStoredObject(driver, parsed.data.objectKey) : null;
+  if (driver && stored && (await rejectUnsafeContent(res, driver, { ...parsed.data, header: stored.header }))) {
+    return;
+  }
+
+  const created = await createUploadedFile({
+    ...parsed.data,
+    folderId: folder.folderId,
+    uploadedBy: req.user.id
+  });
+
+  await insertActivityLog({
+    userId: req.user.id,
+    projectId: created.project_id,
+    action: "file_uploaded",
+    details: { fileId: created.id, objectKey: created.object_key, storageType: created.storage_type }
+  });
+
+  queueFileProcessing(created.id);
+  return res.status(201).json({ data: created });
+});
+
+filesRouter.post("/upload-url", async (req: AuthenticatedRequest, res) => {
+  const parsed = uploadUrlRequestSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return sendValidationError(res, "Invalid upload-url payload", parsed.error);
+  }
+
+  if (!req.user) {
+    return sendUnauthorized(res, "Unauthorized");
+  }
+
+  const project = await getProjectById(parsed.data.projectId);
+  if (!project) {
+    return sendNotFound(res, "Project not found");
+  }
+
+  const canWriteFile = await hasProjectPermission({
+    projectId: parsed.data.projectId,
+    userId: req.user.id,
+    permission: "file:write",
+    scopes: req.user.apiToken?.scopes
+  });
+  if (!canWriteFile) {
+    return logAndSendForbidden({
+      req,
+      res,
+      permission: "file:write",
+      projectId: parsed.data.projectId
+    });
+  }
+
+  if (parsed.data.fileSize > getUploadSizeLimit()) {
+    return sendFileTooLarge(res);
+  }
+
+  const driver = getStorageDriver(parsed.data.storageType);
+  if (!driver) {
+    return sendStorageUnavailable(res, parsed.data.storageType);
+  }
+
+  const objectKey = buildObjectKey(parsed.data.projectId, parsed.data.fileName);
+  const signed = driver.createUploadUrl({
+    objectKey,
+    contentType: parsed.data.mimeType,
+    maxBytes: getUploadSizeLimit(),
+    expiresInSeconds: getSignedUrlTtlSeconds()
+  });
+
+  return res.status(200).json({
+    data: {
+      projectId: parsed.data.projectId,
+      fileName: parsed.data.fileName,
+      fileType: parsed.data.fileType,
+      storageType: parsed.data.storageType,
+      mimeType: parsed.data.mimeType,
+      fileSize: parsed.data.fileSize,
+      objectKey,
+      uploadUrl: signed.url,
+      uploadMethod: signed.method,
+      uploadHeaders: signed.headers,
+      maxBytes: getUploadSizeLimit(),
+      expiresAt: signed.expiresAt.toISOString()
+    }
+  });
+});
+
+filesRouter.post("/complete-upload", async (req: AuthenticatedRequest, res) => {
+  const parsed = completeUploadSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return sendValidationError(res, "Invalid complete-upload payload", parsed.error);
+  }
+
+  if (!req.user) {
+    return sendUnauthorized(res, "Unauthorized");
+  }
+
+  const project = await getProjectById(parsed.data.projectId);
+  if (!project) {
+    return sendNotFound(res, "Project not found");
+  }
+
+  const canWriteFile = await hasProjectPermission({
+    projectId: parsed.data.projectId,
+    userId: req.user.id,
+    permission: "file:write",
+    scopes: req.user.apiToken?.scopes
+  });
+  if (!canWriteFile) {
+    return logAndSendForbidden({
+      req,
+      res,
+      permission: "file:write",
+      projectId: parsed.data.projectId
+    });
+  }
+
+  const folder = await resolveFileFolder(res, parsed.data);
+  if (!folder) return;
+
+  const stored = await verifyStoredUpload(res, parsed.data);
+  if (!stored) return;
+
+  const created = await createUploadedFile({
+    ...parsed.data,
+    folderId: folder.folderId,
+    fileSize: stored.size,
+    checksumSha256: stored.checksumSha256,
+    uploadedBy: req.user.id
+  });
+
+  await insertActivityLog({
+    userId: req.user.id,
+    projectId: created.project_id,
+    action: "file_uploaded",
+    details: { fileId: created.id, objectKey: created.object_key, storageType: created.storage_type }
+  });
+
+  queueFileProcessing(created.id);
+  return res.status(201).json({ data: created });
+});
+
+filesRouter.get("/:id/download-url", async (req: AuthenticatedRequest, res) => {
+  const parsed = fileParamsSchema.safeParse(req.params);
+  if (!parsed.success) {
+    return sendValidationError(res, "Invalid file id", parsed.error);
+  }
+
+  const file = await getFileById(parsed.data.id);
+  if (!file) {
+    return sendNotFound(res, "File not found");
+  }
+
+  if (!req.user) {
+    return sendUnauthorized(res, "Unauthorized");
+  }
+
+  const canViewFile = await hasProjectPermission({
+    projectId: file.project_id,
+    userId: req.user.id,
+    permission: "project:view",
+    scopes: req.user.apiToken?.scopes
+  });
+  if (!canViewFile) {
+    return logAndSendForbidden({
+      req,
+      res,
+      permission: "project:view",
+      projectId: file.project_id
+    });
+  }
+
+  if (file.status !== "available") {
+    return sendError(
+      res,
+      409,
+      "FILE_NOT_AVAILABLE",
+      file.status === "rejected" ? "File was rejected by the malware scanner" : "File is still being scanned",
+      { status: file.status }
+    );
+  }
+
+  // External linked files are returned directly.
+  if (file.external_url) {
+    return res.status(200).json({
+      data: {
+        fileId: file.id,
+        downloadUrl: file.external_url,
+        expiresAt: null
+      }
+    });
+  }
+
+  const driver = getStorageDriver(file.storage_type === "s3" ? "s3" : "local");
+  if (!driver) {
+    return sendStorageUnavailable(res, file.storage_type);
+  }
+
+  const signed = driver.createDownloadUrl({
+    objectKey: file.object_key,
+    fileName: file.file_name,
+    contentType: file.mime_type,
+    expiresInSeconds: getSignedUrlTtlSeconds()
+  });
+
+  return res.status(200).json({
+    data: {
+      fileId: file.id,
+      downloadUrl: signed.url,
+      expiresAt: signed.expiresAt.toISOString()
+    }
+  });
+});
+
+filesRouter.get("/:id/preview", async (req: AuthenticatedRequest, res) => {
+  const parsed = fileParamsSchema.safeParse(req.params);
+  if (!parsed.success) {
+    return sendValidationError(res, "Invalid file id", parsed.error);
+  }
+
+  const parsedQuery = filePreviewQuerySchema.safeParse(req.query);
+  if (!parsedQuery.success) {
+    return sendValidationError(res, "Invalid preview query", parsedQuery.error);
+  }
+
+  const file = await getFileById(parsed.data.id);
+  if (!file) {
+    return sendNotFound(res, "File not found");
+  }
+
+  if (!req.user) {
+    return sendUnauthorized(res, "Unauthorized");
+  }
+
+  const canViewFile = await hasProjectPermission({
+    projectId: file.project_id,
+    userId: req.user.id,
+    permission: "project:view",
+    scopes: req.user.apiToken?.scopes
+  });
+  if (!canViewFile) {
+    return logAndSendForbidden({
+      req,
+      res,
+      permission: "project:view",
+      projectId: file.project_id
+    });
+  }
+
+  if (file.status !== "available") {
+    return sendError(res, 409, "FILE_NOT_AVAILABLE", "File has no preview until it passes scanning", {
+      status: file.status
+    });
+  }
+
+  const preview = await getFilePreview(file.id, parsedQuery.data.size);
+  if (!preview) {
+    return sendError(res, 404, "PREVIEW_NOT_AVAILABLE", "No preview is available for this file", {
+      previewStatus: file.preview_status
+    });
+  }
+
+  const driver = getStorageDriver(file.storage_type === "s3" ? "s3" : "local");
+  if (!driver) {
+    return sendStorageUnavailable(res, file.storage_type);
+  }
+
+  const signed = driver.createDownloadUrl({
+    objectKey: preview.object_key,
+    fileName: `${file.file_name}.${parsedQuery.data.size}.webp`,
+    contentType: preview.mime_type,
+    expiresInSeconds: getSignedUrlTtlSeconds()
+  });
+
+  return res.status(200).json({
+    data: {
+      fileId: file.id,
+      size: preview.size,
+      mimeType: preview.mime_type,
+      width: preview.width,
+      height: preview.height,
+      previewUrl: signed.url,
+      expiresAt: signed.expiresAt.toISOString()
+    }
+  });
+});
+
+filesRouter.get("/:id/versions", async (req: AuthenticatedRequest, res) => {
+  const parsed = fileParamsSchema.safeParse(req.params);
+  if (!parsed.success) {
+    return sendValidationError(res, "Invalid file id", parsed.error);
+  }
+
+  if (!req.user) {
+    return sendUnauthorized(res, "Unauthorized");
+  }
+
+  const file = await getFileById(parsed.data.id);
+  if (!file) {
+    return sendNotFound(res, "File not found");
+  }
+
+  const canViewFile = await hasProjectPermission({
+    projectId: file.project_id,
+    userId: req.user.id,
+    permission: "project:view",
+    scopes: req.user.apiToken?.scopes
+  });
+  if (!canViewFile) {
+    return logAndSendForbidden({
+      req,
+      res,
+      permission: "project:view",
+      projectId: file.project_id
+    });
+  }
+
+  const versions = await listFileVersions(file.id);
+  return res.status(200).json({
+    data: versions,
+    meta: {
+      documentId: file.document_id,
+      latestVersion: versions[0]?.version ?? file.version,
+      total: versions.length
+    }
+  });
+});
+
+filesRouter.post("/:id/versions", async (req: AuthenticatedRequest, res) => {
+  const parsedParams = fileParamsSchema.safeParse(req.params);
+  if (!parsedParams.success) {
+    return sendValidationError(res, "Invalid file id", parsedParams.error);
+  }
+
+  const parsed = fileVersionSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return sendValidationError(res, "Invalid file version payload", parsed.error);
+  }
+
+  if (!req.user) {
+    return sendUnauthorized(res, "Unauthorized");
+  }
+
+  const existingFile = await getFileById(parsedParams.data.id);
+  if (!existingFile) {
+    return sendNotFound(res, "File not found");
+  }
+
+  const canWriteFile = await hasProjectPermission({
+    projectId: existingFile.project_id,
+    userId: req.user.id,
+    permission: "file:write",
+    scopes: req.user.apiToken?.scopes
+  });
+  if (!canWriteFile) {
+    return logAndSendForbidden({
+      req,
+      res,
+      permission: "file:write",
+      projectId: existingFile.project_id
+    });
+  }
+
+  let content: { objectKey: string; externalUrl: string | null; fileSize: number; checksumSha256: string | null };
+  if ("objectKey" in parsed.data) {
+    const stored = await verifyStoredUpload(res, { ...parsed.data, projectId: existingFile.project_id });
+    if (!stored) return;
+    content = {
+      objectKey: parsed.data.objectKey,
+      externalUrl: null,
+      fileSize: stored.size,
+      checksumSha256: stored.checksumSha256
+    };
+  } else {
+    content = {
+      objectKey: `external/${parsed.data.storageType}/${parsed.data.fileName ?? existingFile.file_name}`,
+      externalUrl: parsed.data.externalUrl,
+      fileSize: parsed.data.fileSize,
+      checksumSha256: null
+    };
+  }
+
+  const result = await createFileVersion({
+    fileId: existingFile.id,
+    fileName: parsed.data.fileName,
+    storageType: parsed.data.storageType,
+    mimeType: parsed.data.mimeType,
+    ...content,
+    uploadedBy: req.user.id,
+    status: content.externalUrl ? "available" : "pending_scan"
+  });
+  if (!result.ok) {
+    return sendNotFound(res, "File not found");
+  }
+
+  await insertActivityLog({
+    userId: req.user.id,
+    projectId: result.file.project_id,
+    action: "file_version_created",
+    details: {
+      fileId: result.file.id,
+      documentId: result.file.document_id,
+      version: result.file.version,
+      storageType: result.file.storage_type
+    }
+  });
+
+  queueFileProcessing(result.file.id);
+  return res.status(201).json({ data: result.file });
+});
+
+filesRouter.post("/:id/restore/:version", async (req: AuthenticatedRequest, res) => {
+  const parsedParams = fileRestoreParamsSchema.safeParse(req.params);
+  if (!parsedParams.success) {
+    return sendValidationError(res, "Invalid file restore params", parsedParams.error);
+  }
+
+  if (!req.user) {
+    return sendUnauthorized(res, "Unauthorized");
+  }
+
+  const existingFile = await getFileById(parsedParams.data.id);
+  if (!existingFile) {
+    return sendNotFound(res, "File not found");
+  }
+
+  const canWriteFile = await hasProjectPermission({
+    projectId: existingFile.project_id,
+    userId: req.user.id,
+    permission: "file:write",
+    scopes: req.user.apiToken?.scopes
+  });
+  if (!canWriteFile) {
+    return logAndSendForbidden({
+      req,
+      res,
+      permission: "file:write",
+      projectId: existingFile.project_id
+    });
+  }
+
+  const result = await restoreFileVersion({
+    fileId: existingFile.id,
+    version: parsedParams.data.version,
+    restoredBy: req.user.id
+  });
+  if (!result.ok) {
+    if (result.reason === "already_latest") {
+      return sendConflict(res, "Version is already the latest version");
+    }
+    if (result.reason === "version_rejected") {
+      return sendConflict(res, "Version was rejected by the malware scanner and cannot be restored");
+    }
+    return sendNotFound(res, result.reason === "version_not_found" ? "File version not found" : "File not found");
+  }
+
+  await insertActivityLog({
+    userId: req.user.id,
+    projectId: result.file.project_id,
+    action: "file_version_restored",
+    details: {
+      fileId: result.file.id,
+      documentId: result.file.document_id,
+      version: result.file.version,
+      restoredFromVersion: parsedParams.data.version
+    }
+  });
+
+  queueFileProcessing(result.file.id);
+  return res.status(201).json({ data: result.file });
+});
+
+filesRouter.get("/:id/approvals", async (req: AuthenticatedRequest, res) => {
+  const parsed = fileParamsSchema.safeParse(req.params);
+  if (!parsed.success) {
+    return sendValidationError(res, "Invalid file id", parsed.error);
+  }
+
+  if (!req.user) {
+    return sendUnauthorized(res, "Unauthorized");
+  }
+
+  const file = await getFileById(parsed.data.id);
+  if (!file) {
+    return sendNotFound(res, "File not found");
+  }
+
+  const canViewFile = await hasProjectPermission({
+    projectId: file.project_id,
+    userId: req.user.id,
+    permission: "project:view",
+    scopes: req.user.apiToken?.scopes
+  });
+  if (!canViewFile) {
+    return logAndSendForbidden({
+      req,
+      res,
+      permission: "project:view",
+      projectId: file.project_id
+    });
+  }
+
+  const approvals = await listFileApprovals(file.id);
+  return res.status(200).json({ data: approvals });
+});
+
+filesRouter.post("/:id/approvals", async (req: AuthenticatedRequest, res) => {
+  const parsedParams = fileParamsSchema.safeParse(req.params);
+  if (!parsedParams.success) {
+    return sendValidationError(res, "Invalid file id", parsedParams.error);
+  }
+
+  const parsed = approvalRequestSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return sendValidationError(res, "Invalid approval request payload", parsed.error);
+  }
+
+  if (!req.user) {
+    return sendUnauthorized(res, "Unauthorized");
+  }
+
+  const file = await getFileById(parsedParams.data.id);
+  if (!file) {
+    return sendNotFound(res, "File not found");
+  }
+
+  const canWriteFile = await hasProjectPermission({
+    projectId: file.project_id,
+    userId: req.user.id,
+    permission: "file:write",
+    scopes: req.user.apiToken?.scopes
+  });
+  if (!canWriteFile) {
+    return logAndSendForbidden({
+      req,
+      res,
+      permission: "file:write",
+      projectId: file.project_id
+    });
+  }
+
+  if (!APPROVABLE_FILE_TYPES.includes(file.file_type)) {
+    return sendError(res, 400, "APPROVAL_NOT_SUPPORTED", "Only deliverable and proposal files need approval", {
+      fileType: file.file_type
+    });
+  }
+
+  if (file.status !== "available") {
+    return sendError(res, 409, "FILE_NOT_AVAILABLE", "Only files that passed scanning can be sent for approval", {
+      status: file.status
+    });
+  }
+
+  // Reviewers are either project staff or portal accounts of the project's client.
+  const reviewer = parsed.data.reviewerId !== req.user.id ? await getUserById(parsed.data.reviewerId) : null;
+  const reviewerCanView =
+    reviewer !== null &&
+    reviewer.is_active &&
+    (reviewer.principal_type === "client_user" && reviewer.client_id
+      ? await hasClientPortalPermission({
+          projectId: file.project_id,
+          clientId: reviewer.client_id,
+          permission: "portal:approval:decide"
+        })
+      : await hasProjectPermission({
+          projectId: file.project_id,
+          userId: reviewer.id,
+          permission: "project:view",
+          scopes: undefined
+        }));
+  if (!reviewerCanView) {
+    return sendError(
+      res,
+      400,
+      "INVALID_REVIEWER",
+      "Reviewer must be someone else with access to this project"
+    );
+  }
+
+  const result = await requestFileApproval({
+    fileId: file.id,
+    reviewerId: parsed.data.reviewerId,
+    requestedBy: req.user.id,
+    note: parsed.data.note ?? null
+  });
+  if (!result.ok) {
+    if (result.reason === "not_found") {
+      return sendNotFound(res, "File not found");
+    }
+    if (result.reason === "not_latest") {
+      return sendError(res, 409, "FILE_NOT_LATEST", "Approval can only be requested for the latest version");
+    }
+    return sendConflict(res, "An approval request is already pending for this version");
+  }
+
+  await insertActivityLog({
+    userId: req.user.id,
+    projectId: file.project_id,
+    action: "file_approval_requested",
+    details: {
+      approvalId: result.approval.id,
+      fileId: file.id,
+      documentId: file.document_id,
+      version: file.version,
+      reviewerId: result.approval.reviewer_id,
+      supersededApprovalIds: result.superseded.map((approval) => approval.id)
+    }
+  });
+
+  await createNotification({
+    userId: parsed.data.reviewerId,
+    projectId: file.project_id,
+    type: "file_approval_requested",
+    title: "Approval requested",
+    message: `${req.user.name} asked you to review "${file.file_name}" (v${file.version}).`,
+    metadata: { approvalId: result.approval.id, fileId: file.id }
+  });
+
+  return res.status(201).json({ data: result.approval });
+});
+
+filesRouter.post("/:id/scan", async (req: AuthenticatedRequest, res) => {
+  const parsed = fileParamsSchema.safeParse(req.params);
+  if (!parsed.success) {
+    return sendValidationError(res, "Invalid file id", parsed.error);
+  }
+
+  if (!req.user) {
+    return sendUnauthorized(res, "Unauthorized");
+  }
+
+  const existingFile = await getFileById(parsed.data.id);
+  if (!existingFile) {
+    return sendNotFound(res, "File not found");
+  }
+
+  const canWriteFile = await hasProjectPermission({
+    projectId: existingFile.project_id,
+    userId: req.user.id,
+    permission: "file:write",
+    scopes: req.user.apiToken?.scopes
+  });
+  if (!canWriteFile) {
+    return logAndSendForbidden({
+      req,
+      res,
+      permission: "file:write",
+      projectId: existingFile.project_id
+    });
+  }
+
+  if (existingFile.status !== "pending_scan") {
+    return sendConflict(res, "File has already been scanned");
+  }
+
+  queueFileProcessing(existingFile.id);
+  return res.status(202).json({ data: existingFile });
+});
+
+filesRouter.post("/:id/share-links", async (req: AuthenticatedRequest, res) => {
+  const parsedParams = fileParamsSchema.safeParse(req.params);
+  if (!parsedParams.success) {
+    return sendValidationError(res, "Invalid file id", parsedParams.error);
+  }
+
+  const parsed = shareLinkCreateSchema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    return sendValidationError(res, "Invalid share link payload", parsed.error);
+  }
+
+  if (!req.user) {
+    return sendUnauthorized(res, "Unauthorized");
+  }
+
+  const file = await getFileById(parsedParams.data.id);
+  if (!file) {
+    return sendNotFound(res, "File not found");
+  }
+
+  const canWriteFile = await hasProjectPermission({
+    projectId: file.project_id,
+    userId: req.user.id,
+    permission: "file:write",
+    scopes: req.user.apiToken?.scopes
+  });
+  if (!canWriteFile) {
+    return logAndSendForbidden({
+      req,
+      res,
+      permission: "file:write",
+      projectId: file.project_id
+    });
+  }
+
+  if (file.status !== "available") {
+    return sendError(res, 409, "FILE_NOT_AVAILABLE", "Only files that passed scanning can be shared", {
+      status: file.status
+    });
+  }
+
+  // Links pin the exact version they were created for; later versions need a new link.
+  const { token, link } = await createShareLink({
+    fileId: file.id,
+    projectId: file.project_id,
+    expiresAt: parsed.data.expiresAt
+      ? new Date(parsed.data.expiresAt)
+      : new Date(Date.now() + SHARE_LINK_DEFAULT_TTL_MS),
+    password: parsed.data.password,
+    maxDownloads: parsed.data.maxDownloads,
+    createdBy: req.user.id
+  });
+
+  await insertActivityLog({
+    userId: req.user.id,
+    projectId: file.project_id,
+    action: "file_share_link_created",
+    details: {
+      shareLinkId: link.id,
+      fileId: file.id,
+      expiresAt: link.expires_at.toISOString(),
+      maxDownloads: link.max_downloads,
+      hasPassword: link.has_password
+    }
+  });
+
+  return res.status(201).json({
+    data: {
+      ...link,
+      token,
+      url: `${getPublicApiBaseUrl()}/share/${token}`
+    }
+  });
+});
+
+filesRouter.get("/:id/share-links", async (req: AuthenticatedRequest, res) => {
+  const parsed = fileParamsSchema.safeParse(req.params);
+  if (!parsed.success) {
+    return sendValidationError(res, "Invalid file id", parsed.error);
+  }
+
+  if (!req.user) {
+    return sendUnauthorized(res, "Unauthorized");
+  }
+
+  const file = await getFileById(parsed.data.id);
+  if (!file) {
+    return sendNotFound(res, "File not found");
+  }
+
+  const canWriteFile = await hasProjectPermission({
+    projectId: file.project_id,
+    userId: req.user.id,
+    permission: "file:write",
+    scopes: req.user.apiToken?.scopes
+  });
+  if (!canWriteFile) {
+    return logAndSendForbidden({
+      req,
+      res,
+      permission: "file:write",
+      projectId: file.project_id
+    });
+  }
+
+  const links = await listShareLinks(file.id);
+  return res.status(200).json({ data: links });
+});
+
+filesRouter.delete("/:id/share-links/:linkId", async (req: AuthenticatedRequest, res) => {
+  const parsed = shareLinkParamsSchema.safeParse(req.params);
+  if (!parsed.success) {
+    return sendValidationError(res, "Invalid share link id", parsed.error);
+  }
+
+  if (!req.user) {
+    return sendUnauthorized(res, "Unauthorized");
+  }
+
+  const file = await getFileById(parsed.data.id);
+  if (!file) {
+    return sendNotFound(res, "File not found");
+  }
+
+  const canWriteFile = await hasProjectPermission({
+    projectId: file.project_id,
+    userId: req.user.id,
+    permission: "file:write",
+    scopes: req.user.apiToken?.scopes
+  });
+  if (!canWriteFile) {
+    return logAndSendForbidden({
+      req,
+      res,
+      permission: "file:write",
+      projectId: file.project_id
+    });
+  }
+
+  const link = await revokeShareLink({ fileId: file.id, linkId: parsed.data.linkId, revokedBy: req.user.id });
+  if (!link) {
+    return sendNotFound(res, "Share link not found");
+  }
+
+  await insertActivityLog({
+    userId: req.user.id,
+    projectId: file.project_id,
+    action: "file_share_link_revoked",
+    details: { shareLinkId: link.id, fileId: file.id }
+  });
+
+  return res.status(200).json({ data: link });
+});
+
+filesRouter.patch("/:id", async (req: AuthenticatedRequest, res) => {
+  const parsedParams = fileParamsSchema.safeParse(req.params);
+  if (!parsedParams.success) {
+    return sendValidationError(res, "Invalid file id", parsedParams.error);
+  }
+
+  const parsed = fileUpdateSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return sendValidationError(res, "Invalid file update payload", parsed.error);
+  }
+
+  if (!req.user) {
+    return sendUnauthorized(res, "Unauthorized");
+  }
+
+  const existingFile = await getFileById(parsedParams.data.id);
+  if (!existingFile) {
+    return sendNotFound(res, "File not found");
+  }
+
+  const canWriteFile = await hasProjectPermission({
+    projectId: existingFile.project_id,
+    userId: req.user.id,
+    permission: "file:write",
+    scopes: req.user.apiToken?.scopes
+  });
+  if (!canWriteFile) {
+    return logAndSendForbidden({
+      req,
+      res,
+      permission: "file:write",
+      projectId: existingFile.project_id
+    });
+  }
+
+  if (parsed.data.folderId) {
+    const folder = await getFolderById(parsed.data.folderId);
+    if (!folder || folder.project_id !== existingFile.project_id) {
+      return sendNotFound(res, "Folder not found");
+    }
+  }
+
+  const file = await updateFileDetails({
+    fileId: existingFile.id,
+    fileName: parsed.data.fileName,
+    folderId: parsed.data.folderId
+  });
+  if (!file) {
+    return sendNotFound(res, "File not found");
+  }
+
+  await insertActivityLog({
+    userId: req.user.id,
+    projectId: file.project_id,
+    action: "file_updated",
+    details: {
+      fileId: file.id,
+      documentId: file.document_id,
+      previousFileName: existingFile.file_name,
+      fileName: file.file_name,
+      previousFolderId: existingFile.folder_id,
+      folderId: file.folder_id
+    }
+  });
+
+  return res.status(200).json({ data: file });
+});
+
 filesRouter.delete("/:id", async (req: AuthenticatedRequest, res) => {
   const parsed = fileParamsSchema.safeParse(req.params);
   if (!parsed.success) {
@@ -397,7 +1841,8 @@ filesRouter.delete("/:id", async (req: AuthenticatedRequest, res) => {
   const canWriteFile = await hasProjectPermission({
     projectId: existingFile.project_id,
     userId: req.user.id,
-    permission: "file:write"
+    permission: "file:write",
+    scopes: req.user.apiToken?.scopes
   });
   if (!canWriteFile) {
     return logAndSendForbidden({
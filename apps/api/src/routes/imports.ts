@@ -0,0 +1,238 @@
+import express, { Router } from "express";
+import { z } from "zod";
+import { requireAdmin } from "../middleware/admin.js";
+import { requireAuth } from "../middleware/auth.js";
+import type { AuthenticatedRequest } from "../types/http.js";
+import { insertActivityLog } from "../services/activity-log.service.js";
+import {
+  commitImport,
+  createImportRun,
+  dryRunImport,
+  getImportRun,
+  listImportRunRows,
+  listImportRuns,
+  undoImport
+} from "../services/imports.service.js";
+import { IMPORT_FIELDS, suggestImportMapping } from "../imports/import-entities.js";
+import { detectSpreadsheetFormat, parseSpreadsheet } from "../imports/spreadsheet.js";
+import { sendError, sendNotFound, sendUnauthorized } from "../utils/http-error.js";
+import { sendValidationError } from "../utils/validation.js";
+
+// Spreadsheet onboarding for clients, projects and tasks: upload, map columns, dry-run, commit and
+// undo. Imports create records on behalf of the whole workspace, so they are admin-only.
+export const importsRouter = Router();
+
+const MAX_IMPORT_BYTES = 5 * 1024 * 1024;
+const MAX_IMPORT_ROWS = 2000;
+const PREVIEW_ROW_COUNT = 5;
+
+const importEntityEnum = z.enum(["clients", "projects", "tasks"]);
+
+const uploadQuerySchema = z.object({
+  entity: importEntityEnum,
+  fileName: z.string().trim().min(1).max(255)
+});
+
+const listQuerySchema = z.object({
+  entity: importEntityEnum.optional(),
+  limit: z.coerce.number().int().min(1).max(200).optional().default(50)
+});
+
+const idParamsSchema = z.object({
+  id: z.string().uuid()
+});
+
+const dryRunSchema = z.object({
+  mapping: z.record(z.string(), z.string().min(1).nullable()).optional()
+});
+
+importsRouter.use(requireAuth, requireAdmin);
+
+importsRouter.get("/", async (req, res) => {
+  const parsedQuery = listQuerySchema.safeParse(req.query);
+  if (!parsedQuery.success) {
+    return sendValidationError(res, "Invalid imports query", parsedQuery.error);
+  }
+
+  const runs = await listImportRuns(parsedQuery.data);
+  return res.status(200).json({ data: runs });
+});
+
+// The file is the raw request body; the JSON parser leaves CSV and XLSX content types alone.
+importsRouter.post(
+  "/",
+  express.raw({ type: () => true, limit: MAX_IMPORT_BYTES }),
+  async (req: AuthenticatedRequest, res) => {
+    const parsedQuery = uploadQuerySchema.safeParse(req.query);
+    if (!parsedQuery.success) {
+      return sendValidationError(res, "Invalid import upload", parsedQuery.error);
+    }
+
+    if (!req.user) {
+      return sendUnauthorized(res, "Unauthorized");
+    }
+
+    const format = detectSpreadsheetFormat(parsedQuery.data.fileName, req.header("content-type"));
+    if (!format) {
+      return sendError(res, 400, "UNSUPPORTED_IMPORT_FORMAT", "Imports must be .csv or .xlsx files");
+    }
+
+    const body = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+    const parsed = await parseSpreadsheet(body, format);
+    if (!parsed.ok) {
+      return sendError(
+        res,
+        400,
+        "INVALID_IMPORT_FILE",
+        `Could not read the ${format.toUpperCase()} file: ${parsed.message}`
+      );
+    }
+
+    const { headers, rows } = parsed.spreadsheet;
+    if (headers.length === 0 || rows.length === 0) {
+      return sendError(res, 400, "EMPTY_IMPORT", "The file has no data rows below its header row");
+    }
+    if (rows.length > MAX_IMPORT_ROWS) {
+      return sendError(res, 413, "IMPORT_TOO_LARGE", `Imports are limited to ${MAX_IMPORT_ROWS} rows`, {
+        maxRows: MAX_IMPORT_ROWS,
+        rows: rows.length
+      });
+    }
+
+    const run = await createImportRun({
+      entity: parsedQuery.data.entity,
+      fileName: parsedQuery.data.fileName,
+      format,
+      headers,
+      rows,
+      mapping: suggestImportMapping(parsedQuery.data.entity, headers),
+      createdBy: req.user.id
+    });
+
+    return res.status(201).json({
+      data: {
+        run,
+        fields: IMPORT_FIELDS[run.entity],
+        sampleRows: rows.slice(0, PREVIEW_ROW_COUNT)
+      }
+    });
+  }
+);
+
+importsRouter.get("/:id", async (req, res) => {
+  const parsedParams = idParamsSchema.safeParse(req.params);
+  if (!parsedParams.success) {
+    return sendValidationError(res, "Invalid import id", parsedParams.error);
+  }
+
+  const run = await getImportRun(parsedParams.data.id);
+  if (!run) {
+    return sendNotFound(res, "Import not found");
+  }
+
+  const rows = await listImportRunRows(run.id);
+  return res.status(200).json({ data: { run, fields: IMPORT_FIELDS[run.entity], rows } });
+});
+
+importsRouter.post("/:id/dry-run", async (req, res) => {
+  const parsedParams = idParamsSchema.safeParse(req.params);
+  if (!parsedParams.success) {
+    return sendValidationError(res, "Invalid import id", parsedParams.error);
+  }
+
+  const parsed = dryRunSchema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    return sendValidationError(res, "Invalid import mapping", parsed.error);
+  }
+
+  const result = await dryRunImport({ runId: parsedParams.data.id, mapping: parsed.data.mapping });
+  if (!result.ok) {
+    if (result.reason === "not_found") {
+      return sendNotFound(res, "Import not found");
+    }
+    if (result.reason === "invalid_mapping") {
+      return sendError(res, 400, "INVALID_MAPPING", "The column mapping is incomplete or invalid", {
+        errors: result.errors
+      });
+    }
+    return sendError(res, 409, "INVALID_IMPORT_STATE", `An import that is ${result.status} cannot be validated again`);
+  }
+
+  const [run, rows] = await Promise.all([getImportRun(parsedParams.data.id), listImportRunRows(parsedParams.data.id)]);
+  return res.status(200).json({ data: { run, rows } });
+});
+
+importsRouter.post("/:id/commit", async (req: AuthenticatedRequest, res) => {
+  const parsedParams = idParamsSchema.safeParse(req.params);
+  if (!parsedParams.success) {
+    return sendValidationError(res, "Invalid import id", parsedParams.error);
+  }
+
+  if (!req.user) {
+    return sendUnauthorized(res, "Unauthorized");
+  }
+
+  const result = await commitImport({ runId: parsedParams.data.id, userId: req.user.id });
+  if (!result.ok) {
+    if (result.reason === "not_found") {
+      return sendNotFound(res, "Import not found");
+    }
+    if (result.reason === "has_errors") {
+      return sendError(res, 422, "IMPORT_HAS_ERRORS", "Some rows are invalid; nothing was imported", {
+        summary: result.summary
+      });
+    }
+    return sendError(
+      res,
+      409,
+      "INVALID_IMPORT_STATE",
+      result.status === "uploaded"
+        ? "Run a dry run before committing"
+        : `An import that is ${result.status} cannot be committed`
+    );
+  }
+
+  await insertActivityLog({
+    userId: req.user.id,
+    action: "import_committed",
+    details: { importRunId: parsedParams.data.id, entity: result.entity, created: result.created },
+    projectId: null
+  });
+
+  const [run, rows] = await Promise.all([getImportRun(parsedParams.data.id), listImportRunRows(parsedParams.data.id)]);
+  return res.status(200).json({ data: { run, rows } });
+});
+
+importsRouter.post("/:id/undo", async (req: AuthenticatedRequest, res) => {
+  const parsedParams = idParamsSchema.safeParse(req.params);
+  if (!parsedParams.success) {
+    return sendValidationError(res, "Invalid import id", parsedParams.error);
+  }
+
+  if (!req.user) {
+    return sendUnauthorized(res, "Unauthorized");
+  }
+
+  const result = await undoImport({ runId: parsedParams.data.id, userId: req.user.id });
+  if (!result.ok) {
+    if (result.reason === "not_found") {
+      return sendNotFound(res, "Import not found");
+    }
+    if (result.reason === "blocked") {
+      return sendError(res, 409, "IMPORT_UNDO_BLOCKED", "Other records now depend on rows from this import", {
+        blockers: result.blockers
+      });
+    }
+    return sendError(res, 409, "INVALID_IMPORT_STATE", `An import that is ${result.status} cannot be undone`);
+  }
+
+  await insertActivityLog({
+    userId: req.user.id,
+    action: "import_undone",
+    details: { importRunId: parsedParams.data.id, entity: result.entity, removed: result.removed },
+    projectId: null
+  });
+
+  const [run, rows] = await Promise.all([getImportRun(parsedParams.data.id), listImportRunRows(parsedParams.data.id)]);
+  return res.status(200).json({ data: { run, rows } });
+});
@@ -0,0 +1,170 @@
+import { Router } from "express";
+import { z } from "zod";
+import { requireAuth } from "../middleware/auth.js";
+import type { AuthenticatedRequest } from "../types/http.js";
+import { insertActivityLog } from "../services/activity-log.service.js";
+import {
+  createInvitation,
+  getInvitationById,
+  listPendingInvitations,
+  revokeInvitation
+} from "../services/invitations.service.js";
+import { hasProjectPermission } from "../services/rbac.service.js";
+import { logAndSendForbidden } from "../utils/authz.js";
+import { sendConflict, sendNotFound, sendUnauthorized } from "../utils/http-error.js";
+import { sendValidationError } from "../utils/validation.js";
+
+// Team invitations. Admins can invite anyone; project managers can invite people onto projects where
+// they manage the team.
+export const invitationsRouter = Router();
+
+const idParamsSchema = z.object({
+  id: z.string().uuid()
+});
+
+const listQuerySchema = z.object({
+  projectId: z.string().uuid().optional()
+});
+
+const invitationCreateSchema = z
+  .object({
+    email: z.string().email(),
+    projectId: z.string().uuid().optional(),
+    role: z.enum(["manager", "member", "viewer"]).optional()
+  })
+  .refine((value) => !value.role || Boolean(value.projectId), {
+    message: "role needs a projectId",
+    path: ["role"]
+  });
+
+invitationsRouter.use(requireAuth);
+
+invitationsRouter.get("/", async (req: AuthenticatedRequest, res) => {
+  const parsedQuery = listQuerySchema.safeParse(req.query);
+  if (!parsedQuery.success) {
+    return sendValidationError(res, "Invalid invitations query", parsedQuery.error);
+  }
+
+  if (!req.user) {
+    return sendUnauthorized(res, "Unauthorized");
+  }
+
+  const invitations = await listPendingInvitations({
+    userId: req.user.id,
+    isAdmin: req.user.isAdmin,
+    projectId: parsedQuery.data.projectId
+  });
+  return res.status(200).json({ data: invitations });
+});
+
+invitationsRouter.post("/", async (req: AuthenticatedRequest, res) => {
+  const parsedBody = invitationCreateSchema.safeParse(req.body);
+  if (!parsedBody.success) {
+    return sendValidationError(res, "Invalid invitation payload", parsedBody.error);
+  }
+
+  if (!req.user) {
+    return sendUnauthorized(res, "Unauthorized");
+  }
+
+  const projectId = parsedBody.data.projectId ?? null;
+  if (!req.user.isAdmin) {
+    const canManageTeam = projectId
+      ? await hasProjectPermission({
+          projectId,
+          userId: req.user.id,
+          permission: "team:manage",
+          scopes: req.user.apiToken?.scopes
+        })
+      : false;
+    if (!canManageTeam) {
+      return logAndSendForbidden({
+        req,
+        res,
+        permission: projectId ? "team:manage" : "admin:access",
+        projectId
+      });
+    }
+  }
+
+  const result = await createInvitation({
+    email: parsedBody.data.email,
+    projectId,
+    role: projectId ? (parsedBody.data.role ?? "member") : null,
+    invitedBy: { id: req.user.id, name: req.user.name }
+  });
+
+  if (!result.ok) {
+    if (result.reason === "project_not_found") {
+      return sendNotFound(res, "Project not found");
+    }
+    return sendConflict(res, "This email already has an account; add them to the project team instead");
+  }
+
+  await insertActivityLog({
+    userId: req.user.id,
+    action: "invitation_created",
+    projectId,
+    details: {
+      invitationId: result.invitation.id,
+      email: result.invitation.email,
+      role: result.invitation.project_role,
+      delivered: result.delivered
+    }
+  });
+
+  return res.status(201).json({ data: { ...result.invitation, delivered: result.delivered } });
+});
+
+invitationsRouter.delete("/:id", async (req: AuthenticatedRequest, res) => {
+  const parsedParams = idParamsSchema.safeParse(req.params);
+  if (!parsedParams.success) {
+    return sendValidationError(res, "Invalid invitation id", parsedParams.error);
+  }
+
+  if (!req.user) {
+    return sendUnauthorized(res, "Unauthorized");
+  }
+
+  const invitation = await getInvitationById(parsedParams.data.id);
+  if (!invitation) {
+    return sendNotFound(res, "Invitation not found");
+  }
+
+  const canRevoke =
+    req.user.isAdmin ||
+    invitation.invited_by === req.user.id ||
+    (invitation.project_id
+      ? await hasProjectPermission({
+          projectId: invitation.project_id,
+          userId: req.user.id,
+          permission: "team:manage",
+          scopes: req.user.apiToken?.scopes
+        })
+      : false);
+  if (!canRevoke) {
+    return logAndSendForbidden({
+      req,
+      res,
+      permission: invitation.project_id ? "team:manage" : "admin:access",
+      projectId: invitation.project_id
+    });
+  }
+
+  const revoked = await revokeInvitation({ invitationId: invitation.id, userId: req.user.id });
+  if (!revoked) {
+    return sendConflict(res, "Invitation was already accepted or revoked");
+  }
+
+  await insertActivityLog({
+    userId: req.user.id,
+    action: "invitation_revoked",
+    projectId: invitation.project_id,
+    details: {
+      invitationId: invitation.id,
+      email: invitation.email
+    }
+  });
+
+  return res.status(204).send();
+});
@@ -1,6 +1,6 @@
 import { Router } from "express";
 import { z } from "zod";
-import { requireAuth } from "../middleware/auth.js";
+import { requireAnyAuth } from "../middleware/auth.js";
 import type { AuthenticatedRequest } from "../types/http.js";
 import {
   listNotifications,
@@ -23,7 +23,7 @@ const idParamsSchema = z.object({
   id: z.string().uuid()
 });
 
-notificationsRouter.use(requireAuth);
+notificationsRouter.use(requireAnyAuth);
 
 notificationsRouter.get("/", async (req: AuthenticatedRequest, res) => {
   if (!req.user) {
@@ -0,0 +1,240 @@
+import { Router } from "express";
+import { z } from "zod";
+import { requireClientAuth } from "../middleware/auth.js";
+import type { AuthenticatedRequest } from "../types/http.js";
+import { insertActivityLog } from "../services/activity-log.service.js";
+import {
+  getPortalFile,
+  getPortalProject,
+  listPortalApprovals,
+  listPortalDeliverables,
+  listPortalPhaseMilestones,
+  listPortalProjects
+} from "../services/client-portal.service.js";
+import {
+  decideFileApproval,
+  getFileApprovalById,
+  notifyApprovalDecided
+} from "../services/file-approvals.service.js";
+import { getFileById } from "../services/files.service.js";
+import { hasClientPortalPermission } from "../services/rbac.service.js";
+import { getSignedUrlTtlSeconds, getStorageDriver } from "../services/storage.service.js";
+import { logAndSendForbidden } from "../utils/authz.js";
+import { sendConflict, sendError, sendNotFound, sendUnauthorized } from "../utils/http-error.js";
+import { sendValidationError } from "../utils/validation.js";
+
+// Read-mostly API for client portal accounts. Everything is scoped to the caller's own client, and
+// responses come from the client-portal read models rather than the internal project and file rows.
+export const portalRouter = Router();
+
+const idParamsSchema = z.object({
+  id: z.string().uuid()
+});
+
+const approvalParamsSchema = z.object({
+  approvalId: z.string().uuid()
+});
+
+const approvalsQuerySchema = z.object({
+  projectId: z.string().uuid().optional(),
+  status: z.enum(["pending", "approved", "rejected", "changes_requested", "superseded"]).optional()
+});
+
+const approvalDecisionSchema = z
+  .object({
+    decision: z.enum(["approved", "rejected", "changes_requested"]),
+    note: z.string().trim().max(2000).optional().nullable()
+  })
+  .refine((value) => value.decision === "approved" || Boolean(value.note), {
+    message: "A note is required when rejecting or requesting changes",
+    path: ["note"]
+  });
+
+portalRouter.use(requireClientAuth);
+
+portalRouter.get("/projects", async (req: AuthenticatedRequest, res) => {
+  if (!req.user?.clientId) {
+    return sendUnauthorized(res, "Unauthorized");
+  }
+
+  const projects = await listPortalProjects(req.user.clientId);
+  return res.status(200).json({ data: projects });
+});
+
+portalRouter.get("/projects/:id", async (req: AuthenticatedRequest, res) => {
+  const parsedParams = idParamsSchema.safeParse(req.params);
+  if (!parsedParams.success) {
+    return sendValidationError(res, "Invalid project id", parsedParams.error);
+  }
+
+  if (!req.user?.clientId) {
+    return sendUnauthorized(res, "Unauthorized");
+  }
+
+  // Projects of other clients are reported as missing rather than forbidden.
+  const project = await getPortalProject(req.user.clientId, parsedParams.data.id);
+  if (!project) {
+    return sendNotFound(res, "Project not found");
+  }
+
+  const [milestones, deliverables, approvals] = await Promise.all([
+    listPortalPhaseMilestones(project.id),
+    listPortalDeliverables(project.id),
+    listPortalApprovals(req.user.clientId, { projectId: project.id })
+  ]);
+
+  return res.status(200).json({
+    data: {
+      ...project,
+      milestones,
+      deliverables,
+      approvals
+    }
+  });
+});
+
+portalRouter.get("/approvals", async (req: AuthenticatedRequest, res) => {
+  const parsedQuery = approvalsQuerySchema.safeParse(req.query);
+  if (!parsedQuery.success) {
+    return sendValidationError(res, "Invalid approvals query", parsedQuery.error);
+  }
+
+  if (!req.user?.clientId) {
+    return sendUnauthorized(res, "Unauthorized");
+  }
+
+  const approvals = await listPortalApprovals(req.user.clientId, parsedQuery.data);
+  return res.status(200).json({ data: approvals });
+});
+
+portalRouter.post("/approvals/:approvalId/decision", async (req: AuthenticatedRequest, res) => {
+  const parsedParams = approvalParamsSchema.safeParse(req.params);
+  if (!parsedParams.success) {
+    return sendValidationError(res, "Invalid approval id", parsedParams.error);
+  }
+
+  const parsed = approvalDecisionSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return sendValidationError(res, "Invalid approval decision payload", parsed.error);
+  }
+
+  if (!req.user?.clientId) {
+    return sendUnauthorized(res, "Unauthorized");
+  }
+
+  const approval = await getFileApprovalById(parsedParams.data.approvalId);
+  const canDecide =
+    approval !== null &&
+    (await hasClientPortalPermission({
+      projectId: approval.project_id,
+      clientId: req.user.clientId,
+      permission: "portal:approval:decide"
+    }));
+  if (!approval || !canDecide) {
+    return sendNotFound(res, "Approval not found");
+  }
+
+  // Colleagues at the client can see the request, but only the named reviewer may answer it.
+  if (approval.reviewer_id !== req.user.id) {
+    return logAndSendForbidden({
+      req,
+      res,
+      permission: "portal:approval:decide",
+      projectId: approval.project_id
+    });
+  }
+
+  const result = await decideFileApproval({
+    approvalId: approval.id,
+    decision: parsed.data.decision,
+    note: parsed.data.note ?? null,
+    decidedBy: req.user.id
+  });
+  if (!result.ok) {
+    if (result.reason === "not_found") {
+      return sendNotFound(res, "Approval not found");
+    }
+    if (result.reason === "superseded") {
+      return sendError(res, 409, "APPROVAL_SUPERSEDED", "A newer version of this file has been uploaded since the request");
+    }
+    return sendConflict(res, "Approval has already been decided");
+  }
+
+  const file = await getFileById(result.approval.file_id);
+
+  await insertActivityLog({
+    userId: req.user.id,
+    projectId: result.approval.project_id,
+    action: "file_approval_decided",
+    details: {
+      approvalId: result.approval.id,
+      fileId: result.approval.file_id,
+      documentId: result.approval.document_id,
+      version: result.approval.file_version,
+      decision: result.approval.status,
+      note: result.approval.decision_note,
+      via: "portal"
+    }
+  });
+
+  await notifyApprovalDecided({
+    approval: result.approval,
+    fileName: file?.file_name ?? null,
+    decidedBy: req.user
+  });
+
+  return res.status(200).json({ data: result.approval });
+});
+
+portalRouter.get("/files/:id/download-url", async (req: AuthenticatedRequest, res) => {
+  const parsedParams = idParamsSchema.safeParse(req.params);
+  if (!parsedParams.success) {
+    return sendValidationError(res, "Invalid file id", parsedParams.error);
+  }
+
+  if (!req.user?.clientId) {
+    return sendUnauthorized(res, "Unauthorized");
+  }
+
+  const file = await getPortalFile(req.user.clientId, parsedParams.data.id);
+  if (!file) {
+    return sendNotFound(res, "File not found");
+  }
+
+  await insertActivityLog({
+    userId: req.user.id,
+    projectId: file.project_id,
+    action: "portal_file_downloaded",
+    details: { fileId: file.id }
+  });
+
+  if (file.external_url) {
+    return res.status(200).json({
+      data: {
+        fileId: file.id,
+        downloadUrl: file.external_url,
+        expiresAt: null
+      }
+    });
+  }
+
+  const driver = getStorageDriver(file.storage_type === "s3" ? "s3" : "local");
+  if (!driver) {
+    return sendError(res, 409, "STORAGE_UNAVAILABLE", `Storage driver "${file.storage_type}" is not configured`);
+  }
+
+  const signed = driver.createDownloadUrl({
+    objectKey: file.object_key,
+    fileName: file.file_name,
+    contentType: file.mime_type,
+    expiresInSeconds: getSignedUrlTtlSeconds()
+  });
+
+  return res.status(200).json({
+    data: {
+      fileId: file.id,
+      downloadUrl: signed.url,
+      expiresAt: signed.expiresAt.toISOString()
+    }
+  });
+});
@@ -0,0 +1,167 @@
+import { Router } from "express";
+import { z } from "zod";
+import { requireAdmin } from "../middleware/admin.js";
+import { requireAuth } from "../middleware/auth.js";
+import type { AuthenticatedRequest } from "../types/http.js";
+import { insertActivityLog } from "../services/activity-log.service.js";
+import {
+  createProjectTemplate,
+  deleteProjectTemplate,
+  getProjectTemplateById,
+  listProjectTemplates,
+  updateProjectTemplate
+} from "../services/project-templates.service.js";
+import { sendConflict, sendNotFound, sendUnauthorized } from "../utils/http-error.js";
+import { sendValidationError } from "../utils/validation.js";
+
+export const projectTemplatesRouter = Router();
+
+const templateTaskSchema = z.object({
+  phase: z.enum(["client_acquisition", "strategy_planning", "production", "post_production", "delivery"]),
+  title: z.string().trim().min(1).max(255),
+  description: z.string().trim().max(10000).optional().nullable(),
+  priority: z.enum(["low", "medium", "high", "urgent"]).optional(),
+  dueOffsetDays: z.number().int().min(0).max(3650).optional().nullable(),
+  defaultAssigneeRole: z.enum(["owner", "manager", "member", "viewer"]).optional().nullable()
+});
+
+const templateCreateSchema = z.object({
+  name: z.string().trim().min(1).max(255),
+  description: z.string().trim().max(5000).optional().nullable(),
+  tasks: z.array(templateTaskSchema).max(200).default([])
+});
+
+const templateUpdateSchema = z.object({
+  name: z.string().trim().min(1).max(255).optional(),
+  description: z.string().trim().max(5000).optional().nullable(),
+  tasks: z.array(templateTaskSchema).max(200).optional()
+});
+
+const templatesListQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).optional().default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).optional().default(20),
+  sortBy: z.enum(["createdAt", "updatedAt", "name"]).optional().default("name"),
+  sortOrder: z.enum(["asc", "desc"]).optional().default("asc")
+});
+
+const idParamsSchema = z.object({
+  id: z.string().uuid()
+});
+
+projectTemplatesRouter.use(requireAuth);
+
+projectTemplatesRouter.get("/", async (req, res) => {
+  const parsedQuery = templatesListQuerySchema.safeParse(req.query);
+  if (!parsedQuery.success) {
+    return sendValidationError(res, "Invalid project templates query", parsedQuery.error);
+  }
+
+  const result = await listProjectTemplates(parsedQuery.data);
+  return res.status(200).json({
+    data: result.rows,
+    meta: {
+      page: parsedQuery.data.page,
+      pageSize: parsedQuery.data.pageSize,
+      sortBy: parsedQuery.data.sortBy,
+      sortOrder: parsedQuery.data.sortOrder,
+      total: result.total
+    }
+  });
+});
+
+projectTemplatesRouter.get("/:id", async (req, res) => {
+  const parsedParams = idParamsSchema.safeParse(req.params);
+  if (!parsedParams.success) {
+    return sendValidationError(res, "Invalid project template id", parsedParams.error);
+  }
+
+  const template = await getProjectTemplateById(parsedParams.data.id);
+  if (!template) {
+    return sendNotFound(res, "Project template not found");
+  }
+
+  return res.status(200).json({ data: template });
+});
+
+projectTemplatesRouter.post("/", requireAdmin, async (req: AuthenticatedRequest, res) => {
+  const parsed = templateCreateSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return sendValidationError(res, "Invalid project template payload", parsed.error);
+  }
+
+  if (!req.user) {
+    return sendUnauthorized(res, "Unauthorized");
+  }
+
+  const result = await createProjectTemplate({ ...parsed.data, createdBy: req.user.id });
+  if (!result.ok) {
+    return sendConflict(res, "A project template with this name already exists");
+  }
+
+  await insertActivityLog({
+    userId: req.user.id,
+    action: "project_template_created",
+    details: { templateId: result.template.id, name: result.template.name, taskCount: result.template.tasks.length },
+    projectId: null
+  });
+
+  return res.status(201).json({ data: result.template });
+});
+
+projectTemplatesRouter.put("/:id", requireAdmin, async (req: AuthenticatedRequest, res) => {
+  const parsedParams = idParamsSchema.safeParse(req.params);
+  if (!parsedParams.success) {
+    return sendValidationError(res, "Invalid project template id", parsedParams.error);
+  }
+
+  const parsed = templateUpdateSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return sendValidationError(res, "Invalid project template payload", parsed.error);
+  }
+
+  if (!req.user) {
+    return sendUnauthorized(res, "Unauthorized");
+  }
+
+  const result = await updateProjectTemplate(parsedParams.data.id, parsed.data);
+  if (!result.ok) {
+    if (result.reason === "not_found") {
+      return sendNotFound(res, "Project template not found");
+    }
+    return sendConflict(res, "A project template with this name already exists");
+  }
+
+  await insertActivityLog({
+    userId: req.user.id,
+    action: "project_template_updated",
+    details: { templateId: result.template.id, updatedFields: Object.keys(parsed.data) },
+    projectId: null
+  });
+
+  return res.status(200).json({ data: result.template });
+});
+
+projectTemplatesRouter.delete("/:id", requireAdmin, async (req: AuthenticatedRequest, res) => {
+  const parsedParams = idParamsSchema.safeParse(req.params);
+  if (!parsedParams.success) {
+    return sendValidationError(res, "Invalid project template id", parsedParams.error);
+  }
+
+  if (!req.user) {
+    return sendUnauthorized(res, "Unauthorized");
+  }
+
+  const deleted = await deleteProjectTemplate(parsedParams.data.id);
+  if (!deleted) {
+    return sendNotFound(res, "Project template not found");
+  }
+
+  await insertActivityLog({
+    userId: req.user.id,
+    action: "project_template_deleted",
+    details: { templateId: parsedParams.data.id },
+    projectId: null
+  });
+
+  return res.status(204).send();
+});
@@ -1,7 +1,10 @@
 import { Router } from "express";
 import { z } from "zod";
-import { requireAuth } from "../middleware/auth.js";
+import { requireAdmin } from "../middleware/admin.js";
+import { refuseApiTokens, requireProjectAuth } from "../middleware/auth.js";
 import type { AuthenticatedRequest } from "../types/http.js";
+import { isoDateSchema, priorityEnum, projectPhaseEnum } from "../schemas/common.schema.js";
+import { projectCreateSchema } from "../schemas/projects.schema.js";
 import { insertActivityLog, listProjectActivity } from "../services/activity-log.service.js";
 import {
   addProjectTeamMember,
@@ -9,31 +12,29 @@ import {
   deleteProject,
   getProjectById,
   getProjectDetailById,
+  listProjectPhaseHistory,
   listProjectTeamMembers,
   listProjects,
+  overrideProjectPhase,
   removeProjectTeamMember,
   transitionProjectPhase,
   updateProject
 } from "../services/projects.service.js";
-import { hasProjectPermission } from "../services/rbac.service.js";
+import { getProjectTemplateById } from "../services/project-templates.service.js";
+import {
+  addProjectStakeholder,
+  listProjectStakeholders,
+  removeProjectStakeholder
+} from "../services/client-contacts.service.js";
+import { getProjectRoleForUser, hasProjectPermission } from "../services/rbac.service.js";
+import { getProjectSchedule } from "../services/schedule.service.js";
 import { createNotification } from "../services/notifications.service.js";
 import { logAndSendForbidden } from "../utils/authz.js";
-import { sendConflict, sendNotFound, sendUnauthorized } from "../utils/http-error.js";
+import { sendConflict, sendError, sendNotFound, sendUnauthorized } from "../utils/http-error.js";
 import { sendValidationError } from "../utils/validation.js";
 
 export const projectsRouter = Router();
 
-const projectPhaseEnum = z.enum([
-  "client_acquisition",
-  "strategy_planning",
-  "production",
-  "post_production",
-  "delivery"
-]);
-
-const priorityEnum = z.enum(["low", "medium", "high", "urgent"]);
-const isoDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Must be YYYY-MM-DD");
-
 const listProjectsQuerySchema = z.object({
   clientId: z.string().uuid().optional(),
   phase: projectPhaseEnum.optional(),
@@ -46,24 +47,20 @@ const listProjectsQuerySchema = z.object({
   sortOrder: z.enum(["asc", "desc"]).optional().default("desc")
 });
 
-const projectCreateSchema = z.object({
-  clientId: z.string().uuid(),
-  name: z.string().trim().min(1).max(255),
-  description: z.string().trim().max(10000).optional().nullable(),
-  currentPhase: projectPhaseEnum.optional(),
-  priority: priorityEnum.optional(),
-  budget: z.string().trim().max(32).optional().nullable(),
-  startDate: isoDateSchema,
-  deadline: isoDateSchema
-});
-
 const projectUpdateSchema = projectCreateSchema
-  .omit({ currentPhase: true })
+  .omit({ currentPhase: true, templateId: true })
   .partial();
 
 const projectPhasePatchSchema = z.object({
   phase: projectPhaseEnum,
-  reason: z.string().trim().max(1000).optional().nullable()
+  reason: z.string().trim().max(1000).optional().nullable(),
+  overrideApprovals: z.boolean().optional().default(false)
+});
+
+const projectPhaseOverrideSchema = z.object({
+  phase: projectPhaseEnum,
+  reason: z.string().trim().min(1).max(1000),
+  taskAction: z.enum(["reopen", "archive"])
 });
 
 const idParamsSchema = z.object({
@@ -80,7 +77,17 @@ const projectTeamAddSchema = z.object({
   role: z.enum(["manager", "member", "viewer"])
 });
 
-projectsRouter.use(requireAuth);
+const stakeholderAddSchema = z.object({
+  contactId: z.string().uuid(),
+  role: z.string().trim().min(1).max(100).optional().nullable()
+});
+
+const stakeholderParamsSchema = z.object({
+  id: z.string().uuid(),
+  contactId: z.string().uuid()
+});
+
+projectsRouter.use(requireProjectAuth);
 
 projectsRouter.get("/", async (req: AuthenticatedRequest, res) => {
   if (!req.user) {
@@ -123,7 +130,8 @@ projectsRouter.get("/:id", async (req: AuthenticatedRequest, res) => {
   const canView = await hasProjectPermission({
     projectId: parsedParams.data.id,
     userId: req.user.id,
-    permission: "project:view"
+    permission: "project:view",
+    scopes: req.user.apiToken?.scopes
   });
   if (!canView) {
     return logAndSendForbidden({
@@ -155,7 +163,8 @@ projectsRouter.get("/:id/activity", async (req: AuthenticatedRequest, res) => {
   const canView = await hasProjectPermission({
     projectId: parsedParams.data.id,
     userId: req.user.id,
-    permission: "project:view"
+    permission: "project:view",
+    scopes: req.user.apiToken?.scopes
   });
   if (!canView) {
     return logAndSendForbidden({
@@ -170,6 +179,78 @@ projectsRouter.get("/:id/activity", async (req: AuthenticatedRequest, res) => {
   return res.status(200).json({ data: activity });
 });
 
+projectsRouter.get("/:id/phase-history", async (req: AuthenticatedRequest, res) => {
+  if (!req.user) {
+    return sendUnauthorized(res, "Unauthorized");
+  }
+
+  const parsedParams = idParamsSchema.safeParse(req.params);
+  if (!parsedParams.success) {
+    return sendValidationError(res, "Invalid project id", parsedParams.error);
+  }
+
+  const project = await getProjectDetailById(parsedParams.data.id, req.user.id);
+  if (!project) {
+    return sendNotFound(res, "Project not found");
+  }
+
+  const canView = await hasProjectPermission({
+    projectId: parsedParams.data.id,
+    userId: req.user.id,
+    permission: "project:view",
+    scopes: req.user.apiToken?.scopes
+  });
+  if (!canView) {
+    return logAndSendForbidden({
+      req,
+      res,
+      permission: "project:view",
+      projectId: parsedParams.data.id
+    });
+  }
+
+  const history = await listProjectPhaseHistory(parsedParams.data.id);
+  return res.status(200).json({ data: history });
+});
+
+projectsRouter.get("/:id/schedule", async (req: AuthenticatedRequest, res) => {
+  if (!req.user) {
+    return sendUnauthorized(res, "Unauthorized");
+  }
+
+  const parsedParams = idParamsSchema.safeParse(req.params);
+  if (!parsedParams.success) {
+    return sendValidationError(res, "Invalid project id", parsedParams.error);
+  }
+
+  const project = await getProjectDetailById(parsedParams.data.id, req.user.id);
+  if (!project) {
+    return sendNotFound(res, "Project not found");
+  }
+
+  const canView = await hasProjectPermission({
+    projectId: parsedParams.data.id,
+    userId: req.user.id,
+    permission: "project:view",
+    scopes: req.user.apiToken?.scopes
+  });
+  if (!canView) {
+    return logAndSendForbidden({
+      req,
+      res,
+      permission: "project:view",
+      projectId: parsedParams.data.id
+    });
+  }
+
+  const schedule = await getProjectSchedule(parsedParams.data.id);
+  if (!schedule) {
+    return sendNotFound(res, "Project not found");
+  }
+
+  return res.status(200).json({ data: schedule });
+});
+
 projectsRouter.get("/:id/team", async (req: AuthenticatedRequest, res) => {
   if (!req.user) {
     return sendUnauthorized(res, "Unauthorized");
@@ -188,7 +269,8 @@ projectsRouter.get("/:id/team", async (req: AuthenticatedRequest, res) => {
   const canView = await hasProjectPermission({
     projectId: parsedParams.data.id,
     userId: req.user.id,
-    permission: "project:view"
+    permission: "project:view",
+    scopes: req.user.apiToken?.scopes
   });
   if (!canView) {
     return logAndSendForbidden({
@@ -226,7 +308,8 @@ projectsRouter.post("/:id/team", async (req: AuthenticatedRequest, res) => {
   const canManageTeam = await hasProjectPermission({
     projectId: parsedParams.data.id,
     userId: req.user.id,
-    permission: "team:manage"
+    permission: "team:manage",
+    scopes: req.user.apiToken?.scopes
   });
   if (!canManageTeam) {
     return logAndSendForbidden({
@@ -297,7 +380,8 @@ projectsRouter.delete("/:id/team/:userId", async (req: AuthenticatedRequest, res
   const canManageTeam = await hasProjectPermission({
     projectId: parsedParams.data.id,
     userId: req.user.id,
-    permission: "team:manage"
+    permission: "team:manage",
+    scopes: req.user.apiToken?.scopes
   });
   if (!canManageTeam) {
     return logAndSendForbidden({
@@ -325,7 +409,145 @@ projectsRouter.delete("/:id/team/:userId", async (req: AuthenticatedRequest, res
   return res.status(204).send();
 });
 
-projectsRouter.post("/", async (req: AuthenticatedRequest, res) => {
+projectsRouter.get("/:id/stakeholders", async (req: AuthenticatedRequest, res) => {
+  const parsedParams = idParamsSchema.safeParse(req.params);
+  if (!parsedParams.success) {
+    return sendValidationError(res, "Invalid project id", parsedParams.error);
+  }
+
+  if (!req.user) {
+    return sendUnauthorized(res, "Unauthorized");
+  }
+
+  const project = await getProjectById(parsedParams.data.id);
+  if (!project) {
+    return sendNotFound(res, "Project not found");
+  }
+
+  const canView = await hasProjectPermission({
+    projectId: parsedParams.data.id,
+    userId: req.user.id,
+    permission: "project:view",
+    scopes: req.user.apiToken?.scopes
+  });
+  if (!canView) {
+    return logAndSendForbidden({
+      req,
+      res,
+      permission: "project:view",
+      projectId: parsedParams.data.id
+    });
+  }
+
+  const stakeholders = await listProjectStakeholders(parsedParams.data.id);
+  return res.status(200).json({ data: stakeholders });
+});
+
+projectsRouter.post("/:id/stakeholders", async (req: AuthenticatedRequest, res) => {
+  const parsedParams = idParamsSchema.safeParse(req.params);
+  if (!parsedParams.success) {
+    return sendValidationError(res, "Invalid project id", parsedParams.error);
+  }
+
+  const parsedBody = stakeholderAddSchema.safeParse(req.body);
+  if (!parsedBody.success) {
+    return sendValidationError(res, "Invalid stakeholder payload", parsedBody.error);
+  }
+
+  if (!req.user) {
+    return sendUnauthorized(res, "Unauthorized");
+  }
+
+  const project = await getProjectById(parsedParams.data.id);
+  if (!project) {
+    return sendNotFound(res, "Project not found");
+  }
+
+  const canUpdate = await hasProjectPermission({
+    projectId: parsedParams.data.id,
+    userId: req.user.id,
+    permission: "project:update",
+    scopes: req.user.apiToken?.scopes
+  });
+  if (!canUpdate) {
+    return logAndSendForbidden({
+      req,
+      res,
+      permission: "project:update",
+      projectId: parsedParams.data.id
+    });
+  }
+
+  const result = await addProjectStakeholder({
+    projectId: parsedParams.data.id,
+    contactId: parsedBody.data.contactId,
+    role: parsedBody.data.role ?? null,
+    addedBy: req.user.id
+  });
+  if (!result.ok) {
+    return sendError(res, 400, "INVALID_CONTACT", "Stakeholders must be contacts of the project's client");
+  }
+
+  await insertActivityLog({
+    userId: req.user.id,
+    action: "project_stakeholder_added",
+    projectId: parsedParams.data.id,
+    details: {
+      contactId: result.stakeholder.contact_id,
+      name: result.stakeholder.name,
+      role: result.stakeholder.role
+    }
+  });
+
+  return res.status(201).json({ data: result.stakeholder });
+});
+
+projectsRouter.delete("/:id/stakeholders/:contactId", async (req: AuthenticatedRequest, res) => {
+  const parsedParams = stakeholderParamsSchema.safeParse(req.params);
+  if (!parsedParams.success) {
+    return sendValidationError(res, "Invalid project or contact id", parsedParams.error);
+  }
+
+  if (!req.user) {
+    return sendUnauthorized(res, "Unauthorized");
+  }
+
+  const project = await getProjectById(parsedParams.data.id);
+  if (!project) {
+    return sendNotFound(res, "Project not found");
+  }
+
+  const canUpdate = await hasProjectPermission({
+    projectId: parsedParams.data.id,
+    userId: req.user.id,
+    permission: "project:update",
+    scopes: req.user.apiToken?.scopes
+  });
+  if (!canUpdate) {
+    return logAndSendForbidden({
+      req,
+      res,
+      permission: "project:update",
+      projectId: parsedParams.data.id
+    });
+  }
+
+  const removed = await removeProjectStakeholder(parsedParams.data.id, parsedParams.data.contactId);
+  if (!removed) {
+    return sendNotFound(res, "Project stakeholder not found");
+  }
+
+  await insertActivityLog({
+    userId: req.user.id,
+    action: "project_stakeholder_removed",
+    projectId: parsedParams.data.id,
+    details: { contactId: parsedParams.data.contactId }
+  });
+
+  return res.status(204).send();
+});
+
+projectsRouter.post("/", refuseApiTokens, async (req: AuthenticatedRequest, res) => {
   const parsed = projectCreateSchema.safeParse(req.body);
   if (!parsed.success) {
     return sendValidationError(res, "Invalid project payload", parsed.error);
@@ -335,6 +557,13 @@ projectsRouter.post("/", async (req: AuthenticatedRequest, res) => {
     return sendUnauthorized(res, "Unauthorized");
   }
 
+  if (parsed.data.templateId) {
+    const template = await getProjectTemplateById(parsed.data.templateId);
+    if (!template) {
+      return sendNotFound(res, "Project template not found");
+    }
+  }
+
   const project = await createProject({
     ...parsed.data,
     createdBy: req.user.id
@@ -347,7 +576,8 @@ projectsRouter.post("/", async (req: AuthenticatedRequest, res) => {
     details: {
       projectId: project.id,
       clientId: project.client_id,
-      currentPhase: project.current_phase
+      currentPhase: project.current_phase,
+      templateId: project.template_id
     }
   });
 
@@ -377,7 +607,8 @@ projectsRouter.put("/:id", async (req: AuthenticatedRequest, res) => {
   const canUpdateProject = await hasProjectPermission({
     projectId: parsedParams.data.id,
     userId: req.user.id,
-    permission: "project:update"
+    permission: "project:update",
+    scopes: req.user.apiToken?.scopes
   });
   if (!canUpdateProject) {
     return logAndSendForbidden({
@@ -426,7 +657,8 @@ projectsRouter.patch("/:id/phase", async (req: AuthenticatedRequest, res) => {
   const canUpdateProject = await hasProjectPermission({
     projectId: parsedParams.data.id,
     userId: req.user.id,
-    permission: "project:update"
+    permission: "project:update",
+    scopes: req.user.apiToken?.scopes
   });
   if (!canUpdateProject) {
     return logAndSendForbidden({
@@ -437,11 +669,24 @@ projectsRouter.patch("/:id/phase", async (req: AuthenticatedRequest, res) => {
     });
   }
 
+  if (parsed.data.overrideApprovals) {
+    const role = await getProjectRoleForUser(parsedParams.data.id, req.user.id);
+    if (role !== "owner") {
+      return logAndSendForbidden({
+        req,
+        res,
+        permission: "project:override_approvals",
+        projectId: parsedParams.data.id
+      });
+    }
+  }
+
   const result = await transitionProjectPhase({
     projectId: parsedParams.data.id,
     nextPhase: parsed.data.phase,
     userId: req.user.id,
-    reason: parsed.data.reason ?? null
+    reason: parsed.data.reason ?? null,
+    overrideApprovals: parsed.data.overrideApprovals
   });
 
   if (!result.ok) {
@@ -449,9 +694,28 @@ projectsRouter.patch("/:id/phase", async (req: AuthenticatedRequest, res) => {
       return sendNotFound(res, "Project not found");
     }
 
+    if (result.reason === "unapproved_deliverables") {
+      return sendError(
+        res,
+        409,
+        "DELIVERABLES_NOT_APPROVED",
+        "Every deliverable needs client approval before delivery. The project owner can override.",
+        {
+          files: result.unapproved.map((file) => ({
+            fileId: file.file_id,
+            documentId: file.document_id,
+            fileName: file.file_name,
+            version: file.version,
+            approvalStatus: file.approval_status
+          }))
+        }
+      );
+    }
+
     return sendConflict(res, "Invalid phase transition. Only next forward phase is allowed.");
   }
 
+  const actorId = req.user.id;
   const teamMembers = await listProjectTeamMembers(parsedParams.data.id);
   const recipients = teamMembers.filter((member) => member.user_id !== req.user?.id);
 
@@ -468,7 +732,7 @@ projectsRouter.patch("/:id/phase", async (req: AuthenticatedRequest, res) => {
             projectId: parsedParams.data.id,
             fromPhase: existingProject.current_phase,
             toPhase: parsed.data.phase,
-            changedByUserId: req.user.id
+            changedByUserId: actorId
           }
         })
       )
@@ -478,6 +742,73 @@ projectsRouter.patch("/:id/phase", async (req: AuthenticatedRequest, res) => {
   return res.status(200).json({ data: result.project });
 });
 
+projectsRouter.post("/:id/phase/override", requireAdmin, async (req: AuthenticatedRequest, res) => {
+  const parsedParams = idParamsSchema.safeParse(req.params);
+  if (!parsedParams.success) {
+    return sendValidationError(res, "Invalid project id", parsedParams.error);
+  }
+
+  const parsed = projectPhaseOverrideSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return sendValidationError(res, "Invalid phase override payload", parsed.error);
+  }
+
+  if (!req.user) {
+    return sendUnauthorized(res, "Unauthorized");
+  }
+
+  const result = await overrideProjectPhase({
+    projectId: parsedParams.data.id,
+    targetPhase: parsed.data.phase,
+    userId: req.user.id,
+    reason: parsed.data.reason,
+    taskAction: parsed.data.taskAction
+  });
+
+  if (!result.ok) {
+    if (result.reason === "not_found") {
+      return sendNotFound(res, "Project not found");
+    }
+
+    return sendConflict(res, "Invalid phase override. Only earlier phases can be targeted.");
+  }
+
+  const actorId = req.user.id;
+  const teamMembers = await listProjectTeamMembers(parsedParams.data.id);
+  const recipients = teamMembers.filter((member) => member.user_id !== actorId);
+
+  if (recipients.length > 0) {
+    await Promise.all(
+      recipients.map((member) =>
+        createNotification({
+          userId: member.user_id,
+          projectId: parsedParams.data.id,
+          type: "project_phase_overridden",
+          title: "Project phase overridden",
+          message: `Project "${result.project.name}" was moved back to ${parsed.data.phase} by an admin.`,
+          metadata: {
+            projectId: parsedParams.data.id,
+            fromPhase: result.fromPhase,
+            toPhase: parsed.data.phase,
+            reason: parsed.data.reason,
+            changedByUserId: actorId
+          }
+        })
+      )
+    );
+  }
+
+  return res.status(200).json({
+    data: result.project,
+    meta: {
+      fromPhase: result.fromPhase,
+      undonePhases: result.undonePhases,
+      taskAction: parsed.data.taskAction,
+      affectedTaskIds: result.affectedTaskIds
+    }
+  });
+});
+
 projectsRouter.delete("/:id", async (req: AuthenticatedRequest, res) => {
   const parsedParams = idParamsSchema.safeParse(req.params);
   if (!parsedParams.success) {
@@ -496,7 +827,8 @@ projectsRouter.delete("/:id", async (req: AuthenticatedRequest, res) => {
   const canDeleteProject = await hasProjectPermission({
     projectId: parsedParams.data.id,
     userId: req.user.id,
-    permission: "project:delete"
+    permission: "project:delete",
+    scopes: req.user.apiToken?.scopes
   });
   if (!canDeleteProject) {
     return logAndSendForbidden({
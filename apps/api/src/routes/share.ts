@@ -0,0 +1,116 @@
+import express, { Router, type Request, type Response } from "express";
+import { pipeline } from "node:stream/promises";
+import { z } from "zod";
+import { insertActivityLog } from "../services/activity-log.service.js";
+import { getFileById } from "../services/files.service.js";
+import { redeemShareLink, type ShareLinkAccessResult } from "../services/share-links.service.js";
+import { getStorageDriver } from "../services/storage.service.js";
+import { buildContentDisposition } from "../storage/storage-driver.js";
+import { sendError, sendNotFound } from "../utils/http-error.js";
+import { sendValidationError } from "../utils/validation.js";
+
+// Public endpoints behind file share links. They authenticate by link token (plus an optional
+// password) instead of a bearer token, and every attempt is written to the project's activity log.
+export const shareRouter = Router();
+
+const shareParamsSchema = z.object({
+  token: z.string().min(16).max(128)
+});
+
+const sharePasswordSchema = z.object({
+  password: z.string().max(128).optional()
+});
+
+type ShareDenial = Extract<ShareLinkAccessResult, { ok: false }>;
+
+const denialResponses: Record<ShareDenial["reason"], { status: number; code: string; message: string }> = {
+  not_found: { status: 404, code: "NOT_FOUND", message: "Share link not found" },
+  revoked: { status: 410, code: "SHARE_LINK_REVOKED", message: "Share link has been revoked" },
+  expired: { status: 410, code: "SHARE_LINK_EXPIRED", message: "Share link has expired" },
+  download_limit_reached: {
+    status: 410,
+    code: "DOWNLOAD_LIMIT_REACHED",
+    message: "Share link has reached its download limit"
+  },
+  password_required: { status: 401, code: "PASSWORD_REQUIRED", message: "Share link requires a password" },
+  invalid_password: { status: 401, code: "INVALID_PASSWORD", message: "Invalid share link password" },
+  file_not_available: { status: 409, code: "FILE_NOT_AVAILABLE", message: "Shared file is not available" }
+};
+
+async function logShareAccess(
+  req: Request,
+  link: { id: string; file_id: string; project_id: string },
+  outcome: "downloaded" | "redirected" | "denied",
+  reason?: string
+) {
+  await insertActivityLog({
+    userId: null,
+    projectId: link.project_id,
+    action: "file_share_link_accessed",
+    details: {
+      shareLinkId: link.id,
+      fileId: link.file_id,
+      outcome,
+      reason: reason ?? null,
+      ip: req.ip ?? null,
+      userAgent: req.header("user-agent") ?? null
+    }
+  });
+}
+
+async function serveShareLink(req: Request, res: Response, password: string | undefined) {
+  const parsed = shareParamsSchema.safeParse(req.params);
+  if (!parsed.success) {
+    return sendNotFound(res, "Share link not found");
+  }
+
+  const access = await redeemShareLink({ token: parsed.data.token, password });
+  if (!access.ok) {
+    if (access.link) {
+      await logShareAccess(req, access.link, "denied", access.reason);
+    }
+    const denial = denialResponses[access.reason];
+    return sendError(res, denial.status, denial.code, denial.message);
+  }
+
+  const file = await getFileById(access.link.file_id);
+  if (!file) {
+    return sendNotFound(res, "Share link not found");
+  }
+
+  if (file.external_url) {
+    await logShareAccess(req, access.link, "redirected");
+    return res.redirect(302, file.external_url);
+  }
+
+  const driver = getStorageDriver(file.storage_type === "s3" ? "s3" : "local");
+  const stream = driver ? await driver.getObjectStream(file.object_key) : null;
+  if (!stream) {
+    await logShareAccess(req, access.link, "denied", "object_missing");
+    return sendError(res, 409, "FILE_NOT_AVAILABLE", "Shared file is not available");
+  }
+
+  await logShareAccess(req, access.link, "downloaded");
+  res.status(200);
+  res.setHeader("Content-Type", file.mime_type || "application/octet-stream");
+  res.setHeader("Content-Length", String(file.file_size));
+  res.setHeader("Content-Disposition", buildContentDisposition(file.file_name));
+  res.setHeader("Cache-Control", "no-store");
+  // Recipients abandoning a download close the socket mid-stream; the access is already logged.
+  await pipeline(stream, res).catch(() => undefined);
+}
+
+shareRouter.get("/:token", async (req, res) => {
+  return serveShareLink(req, res, undefined);
+});
+
+// Password-protected links are opened with a POST so the password stays out of URLs and logs.
+// Plain HTML forms (urlencoded) and JSON clients are both accepted.
+shareRouter.post("/:token", express.urlencoded({ extended: false, limit: "8kb" }), async (req, res) => {
+  const parsed = sharePasswordSchema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    return sendValidationError(res, "Invalid share link password payload", parsed.error);
+  }
+
+  return serveShareLink(req, res, parsed.data.password);
+});
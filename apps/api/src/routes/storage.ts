@@ -0,0 +1,79 @@
+import { Router } from "express";
+import { pipeline } from "node:stream/promises";
+import { getLocalStorageDriver, getUploadSizeLimit } from "../services/storage.service.js";
+import { buildContentDisposition } from "../storage/storage-driver.js";
+import { sendError, sendNotFound } from "../utils/http-error.js";
+
+// Endpoints behind the local driver's signed URLs. They authenticate by HMAC signature instead of a
+// bearer token, and are mounted ahead of the JSON body parser so request bodies arrive as raw streams.
+export const storageRouter = Router();
+
+storageRouter.put("/objects", async (req, res, next) => {
+  const driver = getLocalStorageDriver();
+  const verified = driver.verifySignedRequest("PUT", req.query);
+  if (!verified.ok) {
+    return verified.reason === "expired"
+      ? sendError(res, 403, "SIGNATURE_EXPIRED", "Upload URL has expired")
+      : sendError(res, 403, "INVALID_SIGNATURE", "Invalid upload URL signature");
+  }
+
+  const maxBytes = Math.min(verified.maxBytes ?? getUploadSizeLimit(), getUploadSizeLimit());
+  const declaredLength = Number(req.header("content-length") ?? 0);
+  if (declaredLength > maxBytes) {
+    return sendError(res, 413, "FILE_TOO_LARGE", `File exceeds the ${maxBytes} byte upload limit`, { maxBytes });
+  }
+
+  // A client that aborts mid-upload rejects the pipeline (ECONNRESET). The driver has already removed
+  // its partial file by then; with nobody left to answer, the socket is just torn down.
+  const result = await driver
+    .putObject(verified.objectKey, req, {
+      contentType: verified.contentType,
+      maxBytes
+    })
+    .catch((error: unknown) => {
+      if (req.destroyed || res.headersSent) {
+        res.destroy();
+      } else {
+        next(error);
+      }
+      return null;
+    });
+  if (!result) {
+    return;
+  }
+  if (!result.ok) {
+    return sendError(res, 413, "FILE_TOO_LARGE", `File exceeds the ${maxBytes} byte upload limit`, { maxBytes });
+  }
+
+  return res.status(200).json({
+    data: {
+      objectKey: verified.objectKey,
+      size: result.size,
+      checksumSha256: result.checksumSha256
+    }
+  });
+});
+
+storageRouter.get("/objects", async (req, res) => {
+  const driver = getLocalStorageDriver();
+  const verified = driver.verifySignedRequest("GET", req.query);
+  if (!verified.ok) {
+    return verified.reason === "expired"
+      ? sendError(res, 403, "SIGNATURE_EXPIRED", "Download URL has expired")
+      : sendError(res, 403, "INVALID_SIGNATURE", "Invalid download URL signature");
+  }
+
+  const info = await driver.headObject(verified.objectKey);
+  const stream = info ? await driver.getObjectStream(verified.objectKey) : null;
+  if (!info || !stream) {
+    return sendNotFound(res, "Object not found");
+  }
+
+  res.status(200);
+  res.setHeader("Content-Type", verified.contentType || "application/octet-stream");
+  res.setHeader("Content-Length", String(info.size));
+  res.setHeader("Content-Disposition", buildContentDisposition(verified.fileName ?? "download"));
+  // Clients may close the socket before the stream settles; once headers are sent there is nothing
+  // left to report, and an unhandled rejection here would otherwise escape Express.
+  await pipeline(stream, res).catch(() => undefined);
+});
@@ -1,7 +1,9 @@
 import { Router } from "express";
 import { z } from "zod";
-import { requireAuth } from "../middleware/auth.js";
+import { requireProjectAuth } from "../middleware/auth.js";
 import type { AuthenticatedRequest } from "../types/http.js";
+import { isoDateSchema, priorityEnum, projectPhaseEnum } from "../schemas/common.schema.js";
+import { taskCreateSchema, taskStatusEnum } from "../schemas/tasks.schema.js";
 import { insertActivityLog } from "../services/activity-log.service.js";
 import {
   bulkDeleteTasks,
@@ -19,26 +21,21 @@ import {
   deleteTaskComment,
   listTaskComments
 } from "../services/task-comments.service.js";
+import {
+  addTaskDependency,
+  listTaskDependencies,
+  notifyDependentsOfCompletedTask,
+  removeTaskDependency
+} from "../services/task-dependencies.service.js";
 import { hasProjectPermission } from "../services/rbac.service.js";
 import { createNotification } from "../services/notifications.service.js";
+import { getUserById } from "../services/users.service.js";
 import { logAndSendForbidden } from "../utils/authz.js";
-import { sendConflict, sendNotFound, sendUnauthorized } from "../utils/http-error.js";
+import { sendConflict, sendError, sendNotFound, sendUnauthorized } from "../utils/http-error.js";
 import { sendValidationError } from "../utils/validation.js";
 
 export const tasksRouter = Router();
 
-const projectPhaseEnum = z.enum([
-  "client_acquisition",
-  "strategy_planning",
-  "production",
-  "post_production",
-  "delivery"
-]);
-
-const taskStatusEnum = z.enum(["pending", "in_progress", "completed", "blocked"]);
-const priorityEnum = z.enum(["low", "medium", "high", "urgent"]);
-const isoDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Must be YYYY-MM-DD");
-
 const listTasksQuerySchema = z.object({
   projectId: z.string().uuid().optional(),
   assignedTo: z.string().uuid().optional(),
@@ -51,17 +48,6 @@ const listTasksQuerySchema = z.object({
   sortOrder: z.enum(["asc", "desc"]).optional().default("desc")
 });
 
-const taskCreateSchema = z.object({
-  projectId: z.string().uuid(),
-  title: z.string().trim().min(1).max(255),
-  description: z.string().trim().max(10000).optional().nullable(),
-  phase: projectPhaseEnum,
-  status: taskStatusEnum.optional(),
-  priority: priorityEnum.optional(),
-  assignedTo: z.string().uuid().optional().nullable(),
-  dueDate: isoDateSchema.optional().nullable()
-});
-
 const taskUpdateSchema = taskCreateSchema
   .omit({ status: true })
   .partial();
@@ -92,6 +78,15 @@ const taskCommentParamsSchema = z.object({
   commentId: z.string().uuid()
 });
 
+const taskDependencyParamsSchema = z.object({
+  id: z.string().uuid(),
+  dependsOnTaskId: z.string().uuid()
+});
+
+const createTaskDependencySchema = z.object({
+  dependsOnTaskId: z.string().uuid()
+});
+
 const listTaskCommentsQuerySchema = z.object({
   page: z.coerce.number().int().min(1).optional().default(1),
   pageSize: z.coerce.number().int().min(1).max(100).optional().default(20),
@@ -102,7 +97,14 @@ const createTaskCommentSchema = z.object({
   body: z.string().trim().min(1).max(5000)
 });
 
-tasksRouter.use(requireAuth);
+// Client portal accounts must never be handed internal tasks, not even through a notification.
+async function isAssignableUser(userId: string | null | undefined) {
+  if (!userId) return true;
+  const user = await getUserById(userId);
+  return user?.principal_type === "staff";
+}
+
+tasksRouter.use(requireProjectAuth);
 
 tasksRouter.get("/", async (req: AuthenticatedRequest, res) => {
   if (!req.user) {
@@ -123,7 +125,8 @@ tasksRouter.get("/", async (req: AuthenticatedRequest, res) => {
     const canViewProject = await hasProjectPermission({
       projectId: parsed.data.projectId,
       userId: req.user.id,
-      permission: "project:view"
+      permission: "project:view",
+      scopes: req.user.apiToken?.scopes
     });
     if (!canViewProject) {
       return logAndSendForbidden({
@@ -167,7 +170,8 @@ tasksRouter.post("/bulk/status", async (req: AuthenticatedRequest, res) => {
     const canWriteTask = await hasProjectPermission({
       projectId: task.project_id,
       userId: req.user.id,
-      permission: "task:write"
+      permission: "task:write",
+      scopes: req.user.apiToken?.scopes
     });
     if (!canWriteTask) {
       return logAndSendForbidden({
@@ -205,6 +209,10 @@ tasksRouter.post("/bulk/status", async (req: AuthenticatedRequest, res) => {
         bulk: true
       }
     });
+
+    if (result.task.status === "completed") {
+      await notifyDependentsOfCompletedTask({ task: result.task, completedByUserId: req.user.id });
+    }
   }
 
   return res.status(200).json({
@@ -239,7 +247,8 @@ tasksRouter.post("/bulk/delete", async (req: AuthenticatedRequest, res) => {
     const canWriteTask = await hasProjectPermission({
       projectId: task.project_id,
       userId: req.user.id,
-      permission: "task:write"
+      permission: "task:write",
+      scopes: req.user.apiToken?.scopes
     });
     if (!canWriteTask) {
       return logAndSendForbidden({
@@ -300,7 +309,8 @@ tasksRouter.get("/:id/comments", async (req: AuthenticatedRequest, res) => {
   const canViewTask = await hasProjectPermission({
     projectId: task.project_id,
     userId: req.user.id,
-    permission: "project:view"
+    permission: "project:view",
+    scopes: req.user.apiToken?.scopes
   });
   if (!canViewTask) {
     return logAndSendForbidden({
@@ -352,7 +362,8 @@ tasksRouter.post("/:id/comments", async (req: AuthenticatedRequest, res) => {
   const canWriteTask = await hasProjectPermission({
     projectId: task.project_id,
     userId: req.user.id,
-    permission: "task:write"
+    permission: "task:write",
+    scopes: req.user.apiToken?.scopes
   });
   if (!canWriteTask) {
     return logAndSendForbidden({
@@ -400,7 +411,8 @@ tasksRouter.delete("/:id/comments/:commentId", async (req: AuthenticatedRequest,
   const canWriteTask = await hasProjectPermission({
     projectId: task.project_id,
     userId: req.user.id,
-    permission: "task:write"
+    permission: "task:write",
+    scopes: req.user.apiToken?.scopes
   });
   if (!canWriteTask) {
     return logAndSendForbidden({
@@ -432,6 +444,155 @@ tasksRouter.delete("/:id/comments/:commentId", async (req: AuthenticatedRequest,
   return res.status(204).send();
 });
 
+tasksRouter.get("/:id/dependencies", async (req: AuthenticatedRequest, res) => {
+  const parsedParams = idParamsSchema.safeParse(req.params);
+  if (!parsedParams.success) {
+    return sendValidationError(res, "Invalid task id", parsedParams.error);
+  }
+
+  if (!req.user) {
+    return sendUnauthorized(res, "Unauthorized");
+  }
+
+  const task = await getTaskById(parsedParams.data.id);
+  if (!task) {
+    return sendNotFound(res, "Task not found");
+  }
+
+  const canViewTask = await hasProjectPermission({
+    projectId: task.project_id,
+    userId: req.user.id,
+    permission: "project:view",
+    scopes: req.user.apiToken?.scopes
+  });
+  if (!canViewTask) {
+    return logAndSendForbidden({
+      req,
+      res,
+      permission: "project:view",
+      projectId: task.project_id
+    });
+  }
+
+  const dependencies = await listTaskDependencies(task.id);
+  return res.status(200).json({ data: dependencies });
+});
+
+tasksRouter.post("/:id/dependencies", async (req: AuthenticatedRequest, res) => {
+  const parsedParams = idParamsSchema.safeParse(req.params);
+  if (!parsedParams.success) {
+    return sendValidationError(res, "Invalid task id", parsedParams.error);
+  }
+
+  const parsedBody = createTaskDependencySchema.safeParse(req.body);
+  if (!parsedBody.success) {
+    return sendValidationError(res, "Invalid task dependency payload", parsedBody.error);
+  }
+
+  if (!req.user) {
+    return sendUnauthorized(res, "Unauthorized");
+  }
+
+  const task = await getTaskById(parsedParams.data.id);
+  if (!task) {
+    return sendNotFound(res, "Task not found");
+  }
+
+  const canWriteTask = await hasProjectPermission({
+    projectId: task.project_id,
+    userId: req.user.id,
+    permission: "task:write",
+    scopes: req.user.apiToken?.scopes
+  });
+  if (!canWriteTask) {
+    return logAndSendForbidden({
+      req,
+      res,
+      permission: "task:write",
+      projectId: task.project_id
+    });
+  }
+
+  const result = await addTaskDependency({
+    taskId: task.id,
+    dependsOnTaskId: parsedBody.data.dependsOnTaskId,
+    createdBy: req.user.id
+  });
+
+  if (!result.ok) {
+    if (result.reason === "not_found") {
+      return sendNotFound(res, "Dependency task not found");
+    }
+    if (result.reason === "cross_project") {
+      return sendConflict(res, "Tasks can only depend on tasks in the same project");
+    }
+    if (result.reason === "cycle") {
+      return sendConflict(res, "Dependency would create a cycle");
+    }
+    return sendConflict(res, "Dependency already exists");
+  }
+
+  await insertActivityLog({
+    userId: req.user.id,
+    action: "task_dependency_added",
+    projectId: task.project_id,
+    details: {
+      taskId: task.id,
+      dependsOnTaskId: parsedBody.data.dependsOnTaskId
+    }
+  });
+
+  return res.status(201).json({ data: result.dependency });
+});
+
+tasksRouter.delete("/:id/dependencies/:dependsOnTaskId", async (req: AuthenticatedRequest, res) => {
+  const parsedParams = taskDependencyParamsSchema.safeParse(req.params);
+  if (!parsedParams.success) {
+    return sendValidationError(res, "Invalid task dependency id", parsedParams.error);
+  }
+
+  if (!req.user) {
+    return sendUnauthorized(res, "Unauthorized");
+  }
+
+  const task = await getTaskById(parsedParams.data.id);
+  if (!task) {
+    return sendNotFound(res, "Task not found");
+  }
+
+  const canWriteTask = await hasProjectPermission({
+    projectId: task.project_id,
+    userId: req.user.id,
+    permission: "task:write",
+    scopes: req.user.apiToken?.scopes
+  });
+  if (!canWriteTask) {
+    return logAndSendForbidden({
+      req,
+      res,
+      permission: "task:write",
+      projectId: task.project_id
+    });
+  }
+
+  const removed = await removeTaskDependency(task.id, parsedParams.data.dependsOnTaskId);
+  if (!removed) {
+    return sendNotFound(res, "Task dependency not found");
+  }
+
+  await insertActivityLog({
+    userId: req.user.id,
+    action: "task_dependency_removed",
+    projectId: task.project_id,
+    details: {
+      taskId: task.id,
+      dependsOnTaskId: parsedParams.data.dependsOnTaskId
+    }
+  });
+
+  return res.status(204).send();
+});
+
 tasksRouter.get("/:id", async (req: AuthenticatedRequest, res) => {
   const parsedParams = idParamsSchema.safeParse(req.params);
   if (!parsedParams.success) {
@@ -450,7 +611,8 @@ tasksRouter.get("/:id", async (req: AuthenticatedRequest, res) => {
   const canViewTask = await hasProjectPermission({
     projectId: task.project_id,
     userId: req.user.id,
-    permission: "project:view"
+    permission: "project:view",
+    scopes: req.user.apiToken?.scopes
   });
   if (!canViewTask) {
     return logAndSendForbidden({
@@ -482,7 +644,8 @@ tasksRouter.post("/", async (req: AuthenticatedRequest, res) => {
   const canWriteTask = await hasProjectPermission({
     projectId: parsed.data.projectId,
     userId: req.user.id,
-    permission: "task:write"
+    permission: "task:write",
+    scopes: req.user.apiToken?.scopes
   });
   if (!canWriteTask) {
     return logAndSendForbidden({
@@ -493,6 +656,10 @@ tasksRouter.post("/", async (req: AuthenticatedRequest, res) => {
     });
   }
 
+  if (!(await isAssignableUser(parsed.data.assignedTo))) {
+    return sendError(res, 400, "INVALID_ASSIGNEE", "Tasks can only be assigned to staff users");
+  }
+
   const task = await createTask({
     ...parsed.data,
     createdBy: req.user.id
@@ -547,7 +714,8 @@ tasksRouter.put("/:id", async (req: AuthenticatedRequest, res) => {
   const canWriteTask = await hasProjectPermission({
     projectId: existingTask.project_id,
     userId: req.user.id,
-    permission: "task:write"
+    permission: "task:write",
+    scopes: req.user.apiToken?.scopes
   });
   if (!canWriteTask) {
     return logAndSendForbidden({
@@ -558,6 +726,10 @@ tasksRouter.put("/:id", async (req: AuthenticatedRequest, res) => {
     });
   }
 
+  if (!(await isAssignableUser(parsed.data.assignedTo))) {
+    return sendError(res, 400, "INVALID_ASSIGNEE", "Tasks can only be assigned to staff users");
+  }
+
   const task = await updateTask(parsedParams.data.id, parsed.data);
   if (!task) {
     return sendNotFound(res, "Task not found");
@@ -616,7 +788,8 @@ tasksRouter.patch("/:id/status", async (req: AuthenticatedRequest, res) => {
   const canWriteTask = await hasProjectPermission({
     projectId: existingTask.project_id,
     userId: req.user.id,
-    permission: "task:write"
+    permission: "task:write",
+    scopes: req.user.apiToken?.scopes
   });
   if (!canWriteTask) {
     return logAndSendForbidden({
@@ -637,6 +810,12 @@ tasksRouter.patch("/:id/status", async (req: AuthenticatedRequest, res) => {
       return sendNotFound(res, "Task not found");
     }
 
+    if (result.reason === "blocked_by_dependency") {
+      return sendError(res, 409, "BLOCKED_BY_DEPENDENCY", "Task is blocked by incomplete dependencies", {
+        blockers: result.blockers
+      });
+    }
+
     return sendConflict(res, "Invalid status transition");
   }
 
@@ -652,6 +831,10 @@ tasksRouter.patch("/:id/status", async (req: AuthenticatedRequest, res) => {
     }
   });
 
+  if (result.task.status === "completed") {
+    await notifyDependentsOfCompletedTask({ task: result.task, completedByUserId: req.user.id });
+  }
+
   return res.status(200).json({ data: result.task });
 });
 
@@ -673,7 +856,8 @@ tasksRouter.delete("/:id", async (req: AuthenticatedRequest, res) => {
   const canWriteTask = await hasProjectPermission({
     projectId: existingTask.project_id,
     userId: req.user.id,
-    permission: "task:write"
+    permission: "task:write",
+    scopes: req.user.apiToken?.scopes
   });
   if (!canWriteTask) {
     return logAndSendForbidden({
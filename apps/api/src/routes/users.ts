@@ -4,6 +4,10 @@ import { requireAuth } from "../middleware/auth.js";
 import { requireAdmin } from "../middleware/admin.js";
 import type { AuthenticatedRequest } from "../types/http.js";
 import { insertActivityLog } from "../services/activity-log.service.js";
+import { getApiTokenById, listAllApiTokens, revokeApiToken } from "../services/api-tokens.service.js";
+import { getSignupPolicy, setSignupPolicy } from "../services/invitations.service.js";
+import { getMfaPolicy, removeMfaFactor, setMfaPolicy } from "../services/mfa.service.js";
+import { createNotification } from "../services/notifications.service.js";
 import {
   getUserById,
   listAuditLogs,
@@ -54,6 +58,27 @@ const userStatusUpdateSchema = z.object({
   isActive: z.boolean()
 });
 
+const mfaPolicySchema = z.object({
+  required: z.boolean()
+});
+
+const signupPolicySchema = z.object({
+  inviteOnly: z.boolean()
+});
+
+const apiTokensQuerySchema = z.object({
+  userId: z.string().uuid().optional(),
+  includeInactive: z
+    .enum(["true", "false"])
+    .optional()
+    .default("false")
+    .transform((value) => value === "true")
+});
+
+const apiTokenParamsSchema = z.object({
+  tokenId: z.string().uuid()
+});
+
 const resetRolesSchema = z.object({
   projectId: z.string().uuid().optional()
 });
@@ -98,6 +123,117 @@ usersRouter.get("/audit-logs", requireAdmin, async (req, res) => {
   });
 });
 
+usersRouter.get("/mfa-policy", requireAdmin, async (_req, res) => {
+  return res.status(200).json({ data: await getMfaPolicy() });
+});
+
+// Applies from each person's next sign-in: anyone without an authenticator enrolls before getting tokens.
+usersRouter.put("/mfa-policy", requireAdmin, async (req: AuthenticatedRequest, res) => {
+  const parsedBody = mfaPolicySchema.safeParse(req.body);
+  if (!parsedBody.success) {
+    return sendValidationError(res, "Invalid MFA policy payload", parsedBody.error);
+  }
+
+  if (!req.user) {
+    return sendUnauthorized(res, "Unauthorized");
+  }
+
+  const policy = await setMfaPolicy({ required: parsedBody.data.required, userId: req.user.id });
+
+  await insertActivityLog({
+    userId: req.user.id,
+    action: "mfa_policy_changed",
+    projectId: null,
+    details: { required: policy.required }
+  });
+
+  return res.status(200).json({ data: policy });
+});
+
+usersRouter.get("/signup-policy", requireAdmin, async (_req, res) => {
+  return res.status(200).json({ data: await getSignupPolicy() });
+});
+
+// With invite-only on, `POST /auth/signup` is refused and accounts come from invitations only.
+usersRouter.put("/signup-policy", requireAdmin, async (req: AuthenticatedRequest, res) => {
+  const parsedBody = signupPolicySchema.safeParse(req.body);
+  if (!parsedBody.success) {
+    return sendValidationError(res, "Invalid signup policy payload", parsedBody.error);
+  }
+
+  if (!req.user) {
+    return sendUnauthorized(res, "Unauthorized");
+  }
+
+  const policy = await setSignupPolicy({ inviteOnly: parsedBody.data.inviteOnly, userId: req.user.id });
+
+  await insertActivityLog({
+    userId: req.user.id,
+    action: "signup_policy_changed",
+    projectId: null,
+    details: { inviteOnly: policy.inviteOnly }
+  });
+
+  return res.status(200).json({ data: policy });
+});
+
+usersRouter.get("/api-tokens", requireAdmin, async (req, res) => {
+  const parsedQuery = apiTokensQuerySchema.safeParse(req.query);
+  if (!parsedQuery.success) {
+    return sendValidationError(res, "Invalid API tokens query", parsedQuery.error);
+  }
+
+  const apiTokens = await listAllApiTokens(parsedQuery.data);
+  return res.status(200).json({ data: apiTokens });
+});
+
+usersRouter.delete("/api-tokens/:tokenId", requireAdmin, async (req: AuthenticatedRequest, res) => {
+  const parsedParams = apiTokenParamsSchema.safeParse(req.params);
+  if (!parsedParams.success) {
+    return sendValidationError(res, "Invalid API token id", parsedParams.error);
+  }
+
+  if (!req.user) {
+    return sendUnauthorized(res, "Unauthorized");
+  }
+
+  const apiToken = await getApiTokenById(parsedParams.data.tokenId);
+  if (!apiToken) {
+    return sendNotFound(res, "API token not found");
+  }
+
+  const revoked = await revokeApiToken({ tokenId: apiToken.id, revokedBy: req.user.id });
+  if (!revoked) {
+    return sendConflict(res, "API token was already revoked");
+  }
+
+  await insertActivityLog({
+    userId: req.user.id,
+    action: "api_token_revoked",
+    projectId: null,
+    details: {
+      tokenId: apiToken.id,
+      name: apiToken.name,
+      ownerId: apiToken.user_id
+    }
+  });
+
+  if (apiToken.user_id !== req.user.id) {
+    await createNotification({
+      userId: apiToken.user_id,
+      type: "api_token_revoked",
+      title: "API token revoked",
+      message: `${req.user.name} revoked your API token "${apiToken.name}".`,
+      metadata: {
+        tokenId: apiToken.id,
+        revokedBy: req.user.id
+      }
+    });
+  }
+
+  return res.status(204).send();
+});
+
 usersRouter.get("/:id", async (req, res) => {
   const parsedParams = idParamsSchema.safeParse(req.params);
   if (!parsedParams.success) {
@@ -190,6 +326,37 @@ usersRouter.post("/:id/project-roles/reset", requireAdmin, async (req: Authentic
   });
 });
 
+// For people locked out of their authenticator; they enroll again at their next sign-in if MFA is required.
+usersRouter.post("/:id/mfa/reset", requireAdmin, async (req: AuthenticatedRequest, res) => {
+  const parsedParams = idParamsSchema.safeParse(req.params);
+  if (!parsedParams.success) {
+    return sendValidationError(res, "Invalid user id", parsedParams.error);
+  }
+
+  if (!req.user) {
+    return sendUnauthorized(res, "Unauthorized");
+  }
+
+  const targetUser = await getUserById(parsedParams.data.id);
+  if (!targetUser) {
+    return sendNotFound(res, "User not found");
+  }
+
+  const removed = await removeMfaFactor(targetUser.id);
+
+  await insertActivityLog({
+    userId: req.user.id,
+    action: "user_mfa_reset",
+    projectId: null,
+    details: {
+      targetUserId: targetUser.id,
+      hadFactor: removed
+    }
+  });
+
+  return res.status(200).json({ data: { reset: removed } });
+});
+
 usersRouter.put("/:id", async (req: AuthenticatedRequest, res) => {
   const parsedParams = idParamsSchema.safeParse(req.params);
   if (!parsedParams.success) {
@@ -0,0 +1,80 @@
+import net from "node:net";
+import type { FileScanner, FileScanResult } from "./file-scanner.js";
+
+// Talks to clamd over TCP using the INSTREAM command: each chunk is prefixed with its 4-byte
+// big-endian length and a zero-length chunk ends the stream.
+export function createClamAvScanner(options: { host: string; port: number; timeoutMs: number }): FileScanner {
+  return {
+    name: "clamav",
+    scan(body) {
+      return new Promise<FileScanResult>((resolve, reject) => {
+        const socket = net.connect({ host: options.host, port: options.port });
+        const replyChunks: Buffer[] = [];
+        let settled = false;
+
+        const fail = (error: Error) => {
+          if (settled) return;
+          settled = true;
+          body.destroy();
+          socket.destroy();
+          reject(error);
+        };
+
+        socket.setTimeout(options.timeoutMs, () => fail(new Error("ClamAV scan timed out")));
+        socket.on("error", fail);
+        body.on("error", fail);
+        socket.on("data", (chunk: Buffer) => replyChunks.push(chunk));
+        socket.on("end", () => {
+          if (settled) return;
+          settled = true;
+
+          const reply = Buffer.concat(replyChunks).toString("utf8").replace(/\0/g, "").trim();
+          const found = /^stream: (.+) FOUND$/.exec(reply);
+          if (found) {
+            resolve({ clean: false, signature: found[1] });
+          } else if (reply === "stream: OK") {
+            resolve({ clean: true });
+          } else {
+            reject(new Error(`Unexpected ClamAV reply: ${reply}`));
+          }
+          socket.destroy();
+        });
+
+        // Waits for the socket to take more data, or for it to close; clamd closes the stream early once it
+        // reaches its StreamMaxLength.
+        const drained = () =>
+          new Promise<void>((resolveDrain) => {
+            const done = () => {
+              socket.off("drain", done);
+              socket.off("close", done);
+              resolveDrain();
+            };
+            socket.on("drain", done);
+            socket.on("close", done);
+          });
+        const canWrite = () => !settled && socket.writable;
+
+        socket.on("connect", async () => {
+          try {
+            socket.write("zINSTREAM\0");
+            for await (const chunk of body) {
+              if (!canWrite()) break;
+              const buffer = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+              const length = Buffer.alloc(4);
+              length.writeUInt32BE(buffer.length, 0);
+              socket.write(length);
+              if (!socket.write(buffer)) {
+                await drained();
+              }
+            }
+            if (canWrite()) {
+              socket.write(Buffer.alloc(4));
+            }
+          } catch (error) {
+            fail(error instanceof Error ? error : new Error(String(error)));
+          }
+        });
+      });
+    }
+  };
+}
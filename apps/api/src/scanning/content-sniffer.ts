@@ -0,0 +1,124 @@
+export type ContentKind =
+  | "pdf"
+  | "png"
+  | "jpeg"
+  | "gif"
+  | "webp"
+  | "tiff"
+  | "psd"
+  | "zip"
+  | "ole"
+  | "mp4"
+  | "mp3"
+  | "wav"
+  | "text"
+  | "executable"
+  | "script"
+  | "unknown";
+
+// Declared MIME types accepted for stored uploads, each mapped to the content kinds its leading bytes
+// may sniff as. Office Open XML documents are ZIP containers and legacy Office files are OLE containers.
+const ALLOWED_MIME_TYPES: Record<string, ContentKind[]> = {
+  "application/pdf": ["pdf"],
+  "image/png": ["png"],
+  "image/jpeg": ["jpeg"],
+  "image/gif": ["gif"],
+  "image/webp": ["webp"],
+  "image/tiff": ["tiff"],
+  "image/vnd.adobe.photoshop": ["psd"],
+  "application/zip": ["zip"],
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document": ["zip"],
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet": ["zip"],
+  "application/vnd.openxmlformats-officedocument.presentationml.presentation": ["zip"],
+  "application/msword": ["ole"],
+  "application/vnd.ms-excel": ["ole"],
+  "application/vnd.ms-powerpoint": ["ole"],
+  "video/mp4": ["mp4"],
+  "video/quicktime": ["mp4"],
+  "audio/mpeg": ["mp3"],
+  "audio/wav": ["wav"],
+  "text/plain": ["text"],
+  "text/csv": ["text"]
+};
+
+// Number of leading bytes needed to sniff every supported kind.
+export const SNIFF_HEADER_BYTES = 512;
+
+export function listAllowedMimeTypes() {
+  return Object.keys(ALLOWED_MIME_TYPES);
+}
+
+export function isAllowedMimeType(mimeType: string) {
+  return Object.hasOwn(ALLOWED_MIME_TYPES, mimeType.toLowerCase());
+}
+
+function startsWith(header: Buffer, signature: number[] | string, offset = 0) {
+  const bytes = typeof signature === "string" ? Buffer.from(signature, "latin1") : Buffer.from(signature);
+  return header.length >= offset + bytes.length && header.subarray(offset, offset + bytes.length).equals(bytes);
+}
+
+export function sniffContentKind(header: Buffer): ContentKind {
+  if (startsWith(header, "MZ") || startsWith(header, [0x7f, 0x45, 0x4c, 0x46])) return "executable";
+  if (
+    startsWith(header, [0xfe, 0xed, 0xfa, 0xce]) ||
+    startsWith(header, [0xfe, 0xed, 0xfa, 0xcf]) ||
+    startsWith(header, [0xce, 0xfa, 0xed, 0xfe]) ||
+    startsWith(header, [0xcf, 0xfa, 0xed, 0xfe]) ||
+    startsWith(header, [0xca, 0xfe, 0xba, 0xbe])
+  ) {
+    return "executable";
+  }
+
+  if (startsWith(header, "%PDF-")) return "pdf";
+  if (startsWith(header, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return "png";
+  if (startsWith(header, [0xff, 0xd8, 0xff])) return "jpeg";
+  if (startsWith(header, "GIF87a") || startsWith(header, "GIF89a")) return "gif";
+  if (startsWith(header, "RIFF") && startsWith(header, "WEBP", 8)) return "webp";
+  if (startsWith(header, "RIFF") && startsWith(header, "WAVE", 8)) return "wav";
+  if (startsWith(header, [0x49, 0x49, 0x2a, 0x00]) || startsWith(header, [0x4d, 0x4d, 0x00, 0x2a])) return "tiff";
+  if (startsWith(header, "8BPS")) return "psd";
+  if (startsWith(header, [0x50, 0x4b, 0x03, 0x04]) || startsWith(header, [0x50, 0x4b, 0x05, 0x06])) return "zip";
+  if (startsWith(header, [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1])) return "ole";
+  if (startsWith(header, "ftyp", 4)) return "mp4";
+  if (startsWith(header, "ID3") || startsWith(header, [0xff, 0xfb]) || startsWith(header, [0xff, 0xf3])) return "mp3";
+
+  if (header.includes(0)) return "unknown";
+
+  const text = header.toString("utf8").replace(/^\uFEFF/, "").trimStart().toLowerCase();
+  if (
+    text.startsWith("#!") ||
+    text.startsWith("<?php") ||
+    text.startsWith("<script") ||
+    text.startsWith("<!doctype html") ||
+    text.startsWith("<html") ||
+    text.startsWith("<svg") ||
+    text.startsWith("<?xml")
+  ) {
+    return "script";
+  }
+
+  return "text";
+}
+
+export type ContentCheckResult =
+  | { ok: true; kind: ContentKind }
+  | { ok: false; reason: "mime_not_allowed" | "executable_content" | "content_mismatch"; kind: ContentKind };
+
+// Executables and scripts are refused whatever MIME type the client declared; everything else must
+// sniff as one of the kinds allowed for the declared type.
+export function checkFileContent(declaredMimeType: string, header: Buffer): ContentCheckResult {
+  const kind = sniffContentKind(header);
+  if (kind === "executable" || kind === "script") {
+    return { ok: false, reason: "executable_content", kind };
+  }
+
+  const allowedKinds = ALLOWED_MIME_TYPES[declaredMimeType.toLowerCase()];
+  if (!allowedKinds) {
+    return { ok: false, reason: "mime_not_allowed", kind };
+  }
+  if (!allowedKinds.includes(kind)) {
+    return { ok: false, reason: "content_mismatch", kind };
+  }
+
+  return { ok: true, kind };
+}
@@ -0,0 +1,8 @@
+import type { Readable } from "node:stream";
+
+export type FileScanResult = { clean: true } | { clean: false; signature: string };
+
+export type FileScanner = {
+  name: string;
+  scan(body: Readable): Promise<FileScanResult>;
+};
@@ -0,0 +1,12 @@
+import type { FileScanner } from "./file-scanner.js";
+
+// Marks every object clean without reading it. Used in development and tests.
+export function createNoopScanner(): FileScanner {
+  return {
+    name: "noop",
+    async scan(body) {
+      body.destroy();
+      return { clean: true };
+    }
+  };
+}
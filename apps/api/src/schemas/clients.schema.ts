@@ -0,0 +1,9 @@
+import { z } from "zod";
+
+export const clientCreateSchema = z.object({
+  name: z.string().trim().min(1).max(255),
+  company: z.string().trim().max(255).optional().nullable(),
+  email: z.string().email().max(255).optional().nullable(),
+  phone: z.string().trim().max(50).optional().nullable(),
+  notes: z.string().trim().max(5000).optional().nullable()
+});
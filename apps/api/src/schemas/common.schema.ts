@@ -0,0 +1,12 @@
+import { z } from "zod";
+
+export const projectPhaseEnum = z.enum([
+  "client_acquisition",
+  "strategy_planning",
+  "production",
+  "post_production",
+  "delivery"
+]);
+
+export const priorityEnum = z.enum(["low", "medium", "high", "urgent"]);
+export const isoDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Must be YYYY-MM-DD");
@@ -0,0 +1,14 @@
+import { z } from "zod";
+import { isoDateSchema, priorityEnum, projectPhaseEnum } from "./common.schema.js";
+
+export const projectCreateSchema = z.object({
+  clientId: z.string().uuid(),
+  name: z.string().trim().min(1).max(255),
+  description: z.string().trim().max(10000).optional().nullable(),
+  currentPhase: projectPhaseEnum.optional(),
+  priority: priorityEnum.optional(),
+  budget: z.string().trim().max(32).optional().nullable(),
+  startDate: isoDateSchema,
+  deadline: isoDateSchema,
+  templateId: z.string().uuid().optional().nullable()
+});
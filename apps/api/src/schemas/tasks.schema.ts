@@ -0,0 +1,16 @@
+import { z } from "zod";
+import { isoDateSchema, priorityEnum, projectPhaseEnum } from "./common.schema.js";
+
+export const taskStatusEnum = z.enum(["pending", "in_progress", "completed", "blocked"]);
+
+export const taskCreateSchema = z.object({
+  projectId: z.string().uuid(),
+  title: z.string().trim().min(1).max(255),
+  description: z.string().trim().max(10000).optional().nullable(),
+  phase: projectPhaseEnum,
+  status: taskStatusEnum.optional(),
+  priority: priorityEnum.optional(),
+  assignedTo: z.string().uuid().optional().nullable(),
+  dueDate: isoDateSchema.optional().nullable(),
+  estimatedDays: z.number().int().min(0).max(3650).optional().nullable()
+});
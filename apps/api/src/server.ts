@@ -1,11 +1,23 @@
 import { createApp } from "./app.js";
 import { env } from "./config/env.js";
 import { pool } from "./db/pool.js";
+import { resumeDataExports } from "./services/data-exports.service.js";
+import { resumeExportBundles } from "./services/file-exports.service.js";
+import { resumeFileScans } from "./services/file-scan.service.js";
 
 const app = createApp();
 
 const server = app.listen(env.PORT, () => {
   console.log(`adfix-api listening on port ${env.PORT}`);
+  resumeExportBundles().catch((error) => {
+    console.error("Failed to resume export bundles:", error);
+  });
+  resumeDataExports().catch((error) => {
+    console.error("Failed to resume data exports:", error);
+  });
+  resumeFileScans().catch((error) => {
+    console.error("Failed to resume file scans:", error);
+  });
 });
 
 let shuttingDown = false;
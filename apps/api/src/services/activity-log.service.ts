@@ -1,7 +1,7 @@
 import { pool } from "../db/pool.js";
 
 export async function insertActivityLog(input: {
-  userId: string;
+  userId: string | null;
   action: string;
   details?: Record<string, unknown>;
   projectId?: string | null;
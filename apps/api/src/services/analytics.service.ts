@@ -123,6 +123,7 @@ export async function getTeamAnalytics(userId: string) {
      LEFT JOIN accessible_projects ap ON ap.id = t.project_id
      WHERE u.deleted_at IS NULL
        AND u.is_active = TRUE
+       AND u.principal_type = 'staff'
        AND (t.id IS NULL OR ap.id IS NOT NULL)
      GROUP BY u.id, u.name, u.email
      ORDER BY u.name ASC`,
@@ -171,3 +172,45 @@ export async function getTimelineAnalytics(userId: string) {
     daysRemaining: Number(row.days_remaining)
   }));
 }
+
+export async function getPhaseDurationAnalytics(userId: string) {
+  const result = await pool.query<{
+    phase: string;
+    completed_count: string;
+    in_progress_count: string;
+    average_hours: string | null;
+    median_hours: string | null;
+    p90_hours: string | null;
+  }>(
+    `${ACCESSIBLE_PROJECTS_CTE},
+     durations AS (
+       SELECT
+         h.phase,
+         h.exited_at,
+         EXTRACT(EPOCH FROM (h.exited_at - h.entered_at)) / 3600 AS hours
+       FROM project_phase_history h
+       INNER JOIN accessible_projects ap ON ap.id = h.project_id
+     )
+     SELECT
+       phase_list.phase::text AS phase,
+       COUNT(d.hours)::text AS completed_count,
+       COUNT(*) FILTER (WHERE d.phase IS NOT NULL AND d.exited_at IS NULL)::text AS in_progress_count,
+       ROUND(AVG(d.hours)::numeric, 2)::text AS average_hours,
+       ROUND((PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY d.hours))::numeric, 2)::text AS median_hours,
+       ROUND((PERCENTILE_CONT(0.9) WITHIN GROUP (ORDER BY d.hours))::numeric, 2)::text AS p90_hours
+     FROM UNNEST(ENUM_RANGE(NULL::project_phase)) AS phase_list(phase)
+     LEFT JOIN durations d ON d.phase = phase_list.phase
+     GROUP BY phase_list.phase
+     ORDER BY phase_list.phase`,
+    [userId]
+  );
+
+  return result.rows.map((row) => ({
+    phase: row.phase,
+    completedCount: Number(row.completed_count),
+    inProgressCount: Number(row.in_progress_count),
+    averageHours: row.average_hours === null ? null : Number(row.average_hours),
+    medianHours: row.median_hours === null ? null : Number(row.median_hours),
+    p90Hours: row.p90_hours === null ? null : Number(row.p90_hours)
+  }));
+}
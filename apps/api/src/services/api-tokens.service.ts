@@ -0,0 +1,170 @@
+import { randomBytes } from "node:crypto";
+import { pool } from "../db/pool.js";
+import type { AuthenticatedUser } from "../types/auth.js";
+import { hashToken } from "../utils/tokens.js";
+import { ACTIVE_USER_CONDITION } from "./auth.service.js";
+import { PROJECT_PERMISSIONS, type ProjectPermission } from "./rbac.service.js";
+
+// Tokens look like `adfix_pat_<random>` so they are easy to tell from JWTs, and easy for secret
+// scanners to spot.
+export const API_TOKEN_PREFIX = "adfix_pat_";
+export const API_TOKEN_MAX_TTL_DAYS = 365;
+
+const DISPLAY_PREFIX_LENGTH = API_TOKEN_PREFIX.length + 6;
+// Recording every request would write on every call; once a minute is plenty for "last used".
+const LAST_USED_RESOLUTION_SECONDS = 60;
+
+type ApiTokenRow = {
+  id: string;
+  user_id: string;
+  name: string;
+  token_prefix: string;
+  scopes: ProjectPermission[];
+  expires_at: Date;
+  last_used_at: Date | null;
+  last_used_ip: string | null;
+  revoked_at: Date | null;
+  revoked_by: string | null;
+  created_at: Date;
+  user_name?: string;
+  user_email?: string;
+};
+
+const API_TOKEN_COLUMNS = `t.id, t.user_id, t.name, t.token_prefix, t.scopes, t.expires_at, t.last_used_at,
+       host(t.last_used_ip) AS last_used_ip, t.revoked_at, t.revoked_by, t.created_at`;
+
+// Every token can read whatever its owner can read; the other scopes add writes on top.
+function normalizeScopes(scopes: ProjectPermission[]) {
+  const requested = new Set<ProjectPermission>(["project:view", ...scopes]);
+  return PROJECT_PERMISSIONS.filter((permission) => requested.has(permission));
+}
+
+export async function createApiToken(input: {
+  userId: string;
+  name: string;
+  scopes: ProjectPermission[];
+  expiresInDays: number;
+}) {
+  const token = `${API_TOKEN_PREFIX}${randomBytes(32).toString("base64url")}`;
+  const expiresAt = new Date(Date.now() + input.expiresInDays * 24 * 60 * 60 * 1000);
+  const result = await pool.query<ApiTokenRow>(
+    `INSERT INTO api_tokens AS t (user_id, name, token_prefix, token_hash, scopes, expires_at)
+     VALUES ($1, $2, $3, $4, $5, $6)
+     RETURNING ${API_TOKEN_COLUMNS}`,
+    [
+      input.userId,
+      input.name,
+      token.slice(0, DISPLAY_PREFIX_LENGTH),
+      hashToken(token),
+      normalizeScopes(input.scopes),
+      expiresAt
+    ]
+  );
+  return { token, apiToken: result.rows[0] };
+}
+
+export async function listApiTokensForUser(userId: string) {
+  const result = await pool.query<ApiTokenRow>(
+    `SELECT ${API_TOKEN_COLUMNS}
+     FROM api_tokens t
+     WHERE t.user_id = $1
+     ORDER BY t.created_at DESC, t.id`,
+    [userId]
+  );
+  return result.rows;
+}
+
+// Admin view across everyone. By default only tokens that still work.
+export async function listAllApiTokens(input: { userId?: string; includeInactive: boolean }) {
+  const params: unknown[] = [];
+  const conditions: string[] = [];
+  if (input.userId) {
+    params.push(input.userId);
+    conditions.push(`t.user_id = $${params.length}`);
+  }
+  if (!input.includeInactive) {
+    conditions.push(`t.revoked_at IS NULL AND t.expires_at > NOW()`);
+  }
+
+  const result = await pool.query<ApiTokenRow>(
+    `SELECT ${API_TOKEN_COLUMNS}, u.name AS user_name, u.email AS user_email
+     FROM api_tokens t
+     INNER JOIN users u ON u.id = t.user_id
+     ${conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : ""}
+     ORDER BY t.created_at DESC, t.id`,
+    params
+  );
+  return result.rows;
+}
+
+export async function getApiTokenById(tokenId: string) {
+  const result = await pool.query<ApiTokenRow>(
+    `SELECT ${API_TOKEN_COLUMNS}, u.name AS user_name, u.email AS user_email
+     FROM api_tokens t
+     INNER JOIN users u ON u.id = t.user_id
+     WHERE t.id = $1`,
+    [tokenId]
+  );
+  return result.rows[0] ?? null;
+}
+
+export async function revokeApiToken(input: { tokenId: string; revokedBy: string }) {
+  const result = await pool.query<ApiTokenRow>(
+    `UPDATE api_tokens t
+     SET revoked_at = NOW(), revoked_by = $2
+     WHERE t.id = $1
+       AND t.revoked_at IS NULL
+     RETURNING ${API_TOKEN_COLUMNS}`,
+    [input.tokenId, input.revokedBy]
+  );
+  return result.rows[0] ?? null;
+}
+
+// Resolves a bearer token to its owner. Revoked and expired tokens, and tokens of owners who can no
+// longer sign in, all come back as null. Tokens never carry admin rights, even an admin's.
+export async function authenticateApiToken(input: {
+  token: string;
+  ipAddress?: string;
+}): Promise<AuthenticatedUser | null> {
+  const result = await pool.query<{
+    token_id: string;
+    scopes: ProjectPermission[];
+    last_used_at: Date | null;
+    id: string;
+    email: string;
+    name: string;
+    client_id: string | null;
+  }>(
+    `SELECT t.id AS token_id, t.scopes, t.last_used_at, users.id, users.email, users.name, users.client_id
+     FROM api_tokens t
+     INNER JOIN users ON users.id = t.user_id
+     WHERE t.token_hash = $1
+       AND t.revoked_at IS NULL
+       AND t.expires_at > NOW()
+       AND users.principal_type = 'staff'
+       AND ${ACTIVE_USER_CONDITION}
+     LIMIT 1`,
+    [hashToken(input.token)]
+  );
+  const row = result.rows[0];
+  if (!row) return null;
+
+  if (!row.last_used_at || Date.now() - row.last_used_at.getTime() > LAST_USED_RESOLUTION_SECONDS * 1000) {
+    await pool.query(
+      `UPDATE api_tokens
+       SET last_used_at = NOW(), last_used_ip = NULLIF($2, '')::inet
+       WHERE id = $1`,
+      [row.token_id, input.ipAddress ?? null]
+    );
+  }
+
+  return {
+    id: row.id,
+    email: row.email,
+    name: row.name,
+    isAdmin: false,
+    principalType: "staff",
+    clientId: row.client_id,
+    apiToken: { id: row.token_id, scopes: row.scopes }
+  };
+}
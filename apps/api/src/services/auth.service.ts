@@ -1,13 +1,19 @@
 import bcrypt from "bcryptjs";
 import { pool } from "../db/pool.js";
+import type { PrincipalType } from "../types/auth.js";
 import {
   buildRefreshExpiryDate,
   hashToken,
   makeRefreshSessionId,
+  MFA_CHALLENGE_TTL_SECONDS,
   signAccessToken,
+  signMfaChallengeToken,
   signRefreshToken,
+  verifyMfaChallengeToken,
   verifyRefreshToken
 } from "../utils/tokens.js";
+import type { MfaChallengePurpose } from "../utils/tokens.js";
+import { confirmMfaEnrollment, getMfaPolicy, isMfaEnabled, startMfaEnrollment, verifyMfaCode } from "./mfa.service.js";
 
 type LoginResult = {
   accessToken: string;
@@ -17,14 +23,82 @@ type LoginResult = {
     email: string;
     name: string;
     isAdmin: boolean;
+    principalType: PrincipalType;
+    clientId: string | null;
   };
 };
 
+// What a correct password gets when a second factor is still owed. `userId` is for the caller's audit
+// log and is not sent to the client.
+type MfaChallengeResult = {
+  status: "mfa_required" | "mfa_enrollment_required";
+  challengeToken: string;
+  expiresAt: string;
+  userId: string;
+};
+
+type SessionUserRow = {
+  id: string;
+  email: string;
+  name: string;
+  is_admin: boolean;
+  principal_type: PrincipalType;
+  client_id: string | null;
+};
+
+// Client users lose access as soon as their client is archived, without touching their own row.
+export const ACTIVE_USER_CONDITION = `deleted_at IS NULL
+       AND is_active = TRUE
+       AND (
+         client_id IS NULL
+         OR EXISTS (SELECT 1 FROM clients c WHERE c.id = users.client_id AND c.deleted_at IS NULL)
+       )`;
+
+function issueMfaChallenge(userId: string, purpose: MfaChallengePurpose): MfaChallengeResult {
+  return {
+    status: purpose === "verify" ? "mfa_required" : "mfa_enrollment_required",
+    challengeToken: signMfaChallengeToken({ userId, purpose }),
+    expiresAt: new Date(Date.now() + MFA_CHALLENGE_TTL_SECONDS * 1000).toISOString(),
+    userId
+  };
+}
+
+// People with an authenticator always get a challenge; everyone else only once an admin requires MFA.
+async function mfaChallengeFor(userId: string) {
+  const [enabled, policy] = await Promise.all([isMfaEnabled(userId), getMfaPolicy()]);
+  if (enabled) return issueMfaChallenge(userId, "verify");
+  if (policy.required) return issueMfaChallenge(userId, "enroll");
+  return null;
+}
+
+async function readMfaChallenge(challengeToken: string) {
+  let challenge;
+  try {
+    challenge = verifyMfaChallengeToken(challengeToken);
+  } catch {
+    return null;
+  }
+  if (challenge.tokenType !== "mfa_challenge") return null;
+
+  const userQuery = await pool.query<SessionUserRow>(
+    `SELECT id, email, name, is_admin, principal_type, client_id
+     FROM users
+     WHERE id = $1
+       AND ${ACTIVE_USER_CONDITION}
+     LIMIT 1`,
+    [challenge.userId]
+  );
+  const user = userQuery.rows[0];
+  return user ? { user, purpose: challenge.purpose } : null;
+}
+
 async function createSessionForUser(input: {
   userId: string;
   email: string;
   name: string;
   isAdmin: boolean;
+  principalType: PrincipalType;
+  clientId: string | null;
   userAgent?: string;
   ipAddress?: string;
 }): Promise<LoginResult> {
@@ -48,7 +122,9 @@ async function createSessionForUser(input: {
     userId: input.userId,
     email: input.email,
     name: input.name,
-    isAdmin: input.isAdmin
+    isAdmin: input.isAdmin,
+    principalType: input.principalType,
+    clientId: input.clientId
   });
 
   return {
@@ -58,18 +134,44 @@ async function createSessionForUser(input: {
       id: input.userId,
       email: input.email,
       name: input.name,
-      isAdmin: input.isAdmin
+      isAdmin: input.isAdmin,
+      principalType: input.principalType,
+      clientId: input.clientId
     }
   };
 }
 
+// Signs a newly created staff account in, or asks it to enroll an authenticator first when the
+// workspace requires MFA.
+export async function startNewStaffSession(input: {
+  user: { id: string; email: string; name: string; is_admin: boolean };
+  userAgent?: string;
+  ipAddress?: string;
+}): Promise<LoginResult | MfaChallengeResult> {
+  const policy = await getMfaPolicy();
+  if (policy.required) {
+    return issueMfaChallenge(input.user.id, "enroll");
+  }
+
+  return createSessionForUser({
+    userId: input.user.id,
+    email: input.user.email,
+    name: input.user.name,
+    isAdmin: input.user.is_admin,
+    principalType: "staff",
+    clientId: null,
+    userAgent: input.userAgent,
+    ipAddress: input.ipAddress
+  });
+}
+
 export async function signupWithEmailPassword(input: {
   email: string;
   name: string;
   password: string;
   userAgent?: string;
   ipAddress?: string;
-}): Promise<LoginResult | "email_taken"> {
+}): Promise<LoginResult | MfaChallengeResult | "email_taken"> {
   const passwordHash = await bcrypt.hash(input.password, 12);
 
   try {
@@ -85,13 +187,8 @@ export async function signupWithEmailPassword(input: {
       [input.email, input.name, passwordHash]
     );
 
-    const createdUser = createdUserQuery.rows[0];
-
-    return createSessionForUser({
-      userId: createdUser.id,
-      email: createdUser.email,
-      name: createdUser.name,
-      isAdmin: createdUser.is_admin,
+    return startNewStaffSession({
+      user: createdUserQuery.rows[0],
       userAgent: input.userAgent,
       ipAddress: input.ipAddress
     });
@@ -113,17 +210,12 @@ export async function loginWithEmailPassword(input: {
   password: string;
   userAgent?: string;
   ipAddress?: string;
-}): Promise<LoginResult | null> {
-  const userQuery = await pool.query<{
-    id: string;
-    email: string;
-    name: string;
-    is_admin: boolean;
-    password_hash: string;
-  }>(
-    `SELECT id, email, name, is_admin, password_hash
+}): Promise<LoginResult | MfaChallengeResult | null> {
+  const userQuery = await pool.query<SessionUserRow & { password_hash: string }>(
+    `SELECT id, email, name, is_admin, principal_type, client_id, password_hash
      FROM users
-     WHERE email = $1 AND deleted_at IS NULL AND is_active = TRUE
+     WHERE email = $1
+       AND ${ACTIVE_USER_CONDITION}
      LIMIT 1`,
     [input.email]
   );
@@ -134,14 +226,125 @@ export async function loginWithEmailPassword(input: {
   const passwordMatches = await bcrypt.compare(input.password, user.password_hash);
   if (!passwordMatches) return null;
 
+  const challenge = await mfaChallengeFor(user.id);
+  if (challenge) return challenge;
+
+  return createSessionForUser({
+    userId: user.id,
+    email: user.email,
+    name: user.name,
+    isAdmin: user.is_admin,
+    principalType: user.principal_type,
+    clientId: user.client_id,
+    userAgent: input.userAgent,
+    ipAddress: input.ipAddress
+  });
+}
+
+// Sign-in for a user an external identity provider has already authenticated (single sign-on). It
+// gives the same session as a password login, and the workspace MFA rules still apply.
+export async function loginWithExternalIdentity(input: {
+  userId: string;
+  userAgent?: string;
+  ipAddress?: string;
+}): Promise<LoginResult | MfaChallengeResult | null> {
+  const userQuery = await pool.query<SessionUserRow>(
+    `SELECT id, email, name, is_admin, principal_type, client_id
+     FROM users
+     WHERE id = $1
+       AND ${ACTIVE_USER_CONDITION}
+     LIMIT 1`,
+    [input.userId]
+  );
+
+  const user = userQuery.rows[0];
+  if (!user) return null;
+
+  const challenge = await mfaChallengeFor(user.id);
+  if (challenge) return challenge;
+
   return createSessionForUser({
     userId: user.id,
     email: user.email,
     name: user.name,
     isAdmin: user.is_admin,
+    principalType: user.principal_type,
+    clientId: user.client_id,
+    userAgent: input.userAgent,
+    ipAddress: input.ipAddress
+  });
+}
+
+// Login step for people who must enroll first: hands out the secret for the pending factor.
+export async function startMfaLoginEnrollment(input: { challengeToken: string }) {
+  const challenge = await readMfaChallenge(input.challengeToken);
+  if (!challenge || challenge.purpose !== "enroll") {
+    return { ok: false as const, reason: "invalid_challenge" as const };
+  }
+
+  const started = await startMfaEnrollment({ userId: challenge.user.id, email: challenge.user.email });
+  if (!started.ok) {
+    return { ok: false as const, reason: "invalid_challenge" as const };
+  }
+  return { ok: true as const, secret: started.secret, otpauthUri: started.otpauthUri };
+}
+
+// Second login step. An enrollment challenge is completed by the first code from the new authenticator,
+// which also issues the recovery codes; a verify challenge takes a code or a recovery code.
+export async function completeMfaLogin(input: {
+  challengeToken: string;
+  code?: string;
+  recoveryCode?: string;
+  userAgent?: string;
+  ipAddress?: string;
+}) {
+  const challenge = await readMfaChallenge(input.challengeToken);
+  if (!challenge) {
+    return { ok: false as const, reason: "invalid_challenge" as const };
+  }
+  const { user } = challenge;
+
+  let method: "totp" | "recovery_code" = "totp";
+  let recoveryCodes: string[] | undefined;
+  if (challenge.purpose === "enroll") {
+    if (!input.code) {
+      return { ok: false as const, reason: "invalid_code" as const };
+    }
+    const confirmed = await confirmMfaEnrollment({ userId: user.id, code: input.code });
+    if (!confirmed.ok) {
+      if (confirmed.reason === "invalid_code") {
+        return { ok: false as const, reason: "invalid_code" as const };
+      }
+      if (confirmed.reason === "not_started") {
+        return { ok: false as const, reason: "enrollment_not_started" as const };
+      }
+      return { ok: false as const, reason: "invalid_challenge" as const };
+    }
+    recoveryCodes = confirmed.recoveryCodes;
+  } else {
+    const verified = await verifyMfaCode({ userId: user.id, code: input.code, recoveryCode: input.recoveryCode });
+    if (!verified.ok) {
+      // A factor reset by an admin mid-login invalidates the challenge rather than the code.
+      return {
+        ok: false as const,
+        reason: verified.reason === "not_enabled" ? ("invalid_challenge" as const) : ("invalid_code" as const)
+      };
+    }
+    method = verified.method;
+  }
+
+  const session = await createSessionForUser({
+    userId: user.id,
+    email: user.email,
+    name: user.name,
+    isAdmin: user.is_admin,
+    principalType: user.principal_type,
+    clientId: user.client_id,
     userAgent: input.userAgent,
     ipAddress: input.ipAddress
   });
+
+  return { ok: true as const, session, method, recoveryCodes };
 }
 
 export async function refreshAuthToken(input: {
@@ -179,15 +382,11 @@ export async function refreshAuthToken(input: {
   const providedHash = hashToken(input.refreshToken);
   if (existingSession.refresh_token_hash !== providedHash) return null;
 
-  const userQuery = await pool.query<{
-    id: string;
-    email: string;
-    name: string;
-    is_admin: boolean;
-  }>(
-    `SELECT id, email, name, is_admin
+  const userQuery = await pool.query<SessionUserRow>(
+    `SELECT id, email, name, is_admin, principal_type, client_id
      FROM users
-     WHERE id = $1 AND deleted_at IS NULL AND is_active = TRUE
+     WHERE id = $1
+       AND ${ACTIVE_USER_CONDITION}
      LIMIT 1`,
     [decoded.userId]
   );
@@ -212,7 +411,9 @@ export async function refreshAuthToken(input: {
     userId: user.id,
     email: user.email,
     name: user.name,
-    isAdmin: user.is_admin
+    isAdmin: user.is_admin,
+    principalType: user.principal_type,
+    clientId: user.client_id
   });
 
   return {
@@ -222,7 +423,9 @@ export async function refreshAuthToken(input: {
       id: user.id,
       email: user.email,
       name: user.name,
-      isAdmin: user.is_admin
+      isAdmin: user.is_admin,
+      principalType: user.principal_type,
+      clientId: user.client_id
     }
   };
 }
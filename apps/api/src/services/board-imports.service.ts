@@ -0,0 +1,397 @@
+import type { PoolClient } from "pg";
+import { pool } from "../db/pool.js";
+import { suggestPhaseMapping, type Board, type BoardCard, type BoardSource } from "../imports/boards.js";
+import { getDefaultFolderId } from "./file-folders.service.js";
+import { insertLinkedFile } from "./files.service.js";
+import { insertTaskComment } from "./task-comments.service.js";
+import type { ProjectPhase } from "./tasks.service.js";
+import { insertTask } from "./tasks.service.js";
+
+export type BoardImportStatus = "uploaded" | "committed";
+
+type PhaseMapping = Record<string, ProjectPhase | null>;
+
+// Emails typed in for members whose export does not carry one (Trello never includes them).
+type MemberEmails = Record<string, string>;
+
+// Everything the import could not carry over as-is, grouped by what it was in the source tool.
+export type BoardImportReport = {
+  created: { tasks: number; comments: number; files: number };
+  lists: Array<{ listId: string | null; name: string | null; cardCount: number; reason: string }>;
+  members: Array<{ memberId: string; name: string; email: string | null; reason: string }>;
+  cards: Array<{ cardId: string; title: string; reason: string }>;
+  comments: Array<{ cardId: string; taskId: string; author: string | null; reason: string }>;
+  attachments: Array<{ cardId: string; name: string; url: string; reason: string }>;
+};
+
+type BoardImportRow = {
+  id: string;
+  source: BoardSource;
+  project_id: string;
+  project_name: string | null;
+  file_name: string;
+  board_name: string;
+  status: BoardImportStatus;
+  card_count: number;
+  phase_mapping: PhaseMapping;
+  member_emails: MemberEmails;
+  report: BoardImportReport | null;
+  created_by: string | null;
+  created_by_name: string | null;
+  committed_by: string | null;
+  committed_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+};
+
+const BOARD_IMPORT_COLUMNS = `
+  b.id,
+  b.source,
+  b.project_id,
+  p.name AS project_name,
+  b.file_name,
+  b.board_name,
+  b.status,
+  jsonb_array_length(b.board->'cards') AS card_count,
+  b.phase_mapping,
+  b.member_emails,
+  b.report,
+  b.created_by,
+  creator.name AS created_by_name,
+  b.committed_by,
+  b.committed_at,
+  b.created_at,
+  b.updated_at`;
+
+const MAX_TITLE_LENGTH = 255;
+const MAX_FILE_NAME_LENGTH = 255;
+const FALLBACK_MIME_TYPE = "application/octet-stream";
+
+export async function createBoardImport(input: {
+  source: BoardSource;
+  projectId: string;
+  fileName: string;
+  board: Board;
+  createdBy: string;
+}) {
+  const result = await pool.query<{ id: string }>(
+    `INSERT INTO board_imports (
+       source, project_id, file_name, board_name, board, status, phase_mapping, created_by, created_at, updated_at
+     )
+     VALUES ($1, $2, $3, $4, $5::jsonb, 'uploaded', $6::jsonb, $7, NOW(), NOW())
+     RETURNING id`,
+    [
+      input.source,
+      input.projectId,
+      input.fileName,
+      input.board.name.slice(0, 255),
+      JSON.stringify(input.board),
+      JSON.stringify(suggestPhaseMapping(input.board.lists)),
+      input.createdBy
+    ]
+  );
+
+  return getBoardImport(result.rows[0].id) as Promise<BoardImportRow>;
+}
+
+export async function getBoardImport(importId: string) {
+  const result = await pool.query<BoardImportRow>(
+    `SELECT ${BOARD_IMPORT_COLUMNS}
+     FROM board_imports b
+     LEFT JOIN projects p ON p.id = b.project_id
+     LEFT JOIN users creator ON creator.id = b.created_by
+     WHERE b.id = $1
+     LIMIT 1`,
+    [importId]
+  );
+
+  return result.rows[0] ?? null;
+}
+
+export async function listBoardImports(input?: { projectId?: string; limit?: number }) {
+  const result = await pool.query<BoardImportRow>(
+    `SELECT ${BOARD_IMPORT_COLUMNS}
+     FROM board_imports b
+     LEFT JOIN projects p ON p.id = b.project_id
+     LEFT JOIN users creator ON creator.id = b.created_by
+     WHERE ($1::uuid IS NULL OR b.project_id = $1::uuid)
+     ORDER BY b.created_at DESC
+     LIMIT $2`,
+    [input?.projectId ?? null, input?.limit ?? 50]
+  );
+
+  return result.rows;
+}
+
+async function loadStaffIdsByEmail(client: PoolClient | typeof pool) {
+  const result = await client.query<{ id: string; email: string }>(
+    `SELECT id, email
+     FROM users
+     WHERE principal_type = 'staff'
+       AND is_active = TRUE
+       AND deleted_at IS NULL`
+  );
+
+  return new Map(result.rows.map((row) => [row.email.toLowerCase(), row.id]));
+}
+
+function resolveMembers(board: Board, memberEmails: MemberEmails, staffIdsByEmail: Map<string, string>) {
+  return board.members.map((member) => {
+    const email = memberEmails[member.id]?.trim().toLowerCase() || member.email;
+    const userId = email ? (staffIdsByEmail.get(email) ?? null) : null;
+    return { id: member.id, name: member.name, email, userId };
+  });
+}
+
+function countCardsByList(board: Board) {
+  const counts = new Map<string | null, number>();
+  for (const card of board.cards) {
+    if (card.archived) continue;
+    counts.set(card.listId, (counts.get(card.listId) ?? 0) + 1);
+  }
+  return counts;
+}
+
+// The mapping preview: each list with its card count and suggested phase, and each member with the
+// team member their email resolves to.
+export async function getBoardImportPreview(importId: string) {
+  const result = await pool.query<{ board: Board; phase_mapping: PhaseMapping; member_emails: MemberEmails }>(
+    `SELECT board, phase_mapping, member_emails FROM board_imports WHERE id = $1`,
+    [importId]
+  );
+  const row = result.rows[0];
+  if (!row) return null;
+
+  const counts = countCardsByList(row.board);
+  const members = resolveMembers(row.board, row.member_emails, await loadStaffIdsByEmail(pool));
+
+  return {
+    lists: row.board.lists.map((list) => ({
+      id: list.id,
+      name: list.name,
+      cardCount: counts.get(list.id) ?? 0,
+      phase: row.phase_mapping[list.id] ?? null
+    })),
+    members
+  };
+}
+
+async function lockBoardImport(client: PoolClient, importId: string) {
+  const result = await client.query<{
+    id: string;
+    source: BoardSource;
+    project_id: string;
+    status: BoardImportStatus;
+    board: Board;
+    phase_mapping: PhaseMapping;
+    member_emails: MemberEmails;
+  }>(
+    `SELECT id, source, project_id, status, board, phase_mapping, member_emails
+     FROM board_imports
+     WHERE id = $1
+     FOR UPDATE`,
+    [importId]
+  );
+
+  return result.rows[0] ?? null;
+}
+
+// Attachments that live in a supported drive are linked as that drive; everything else, including
+// files uploaded to the source tool itself, is linked back to the source tool.
+function linkedStorageType(url: URL, source: BoardSource) {
+  const host = url.hostname.toLowerCase();
+  if (host === "drive.google.com" || host === "docs.google.com") return "google_drive" as const;
+  if (host === "dropbox.com" || host.endsWith(".dropbox.com")) return "dropbox" as const;
+  if (host === "1drv.ms" || host === "onedrive.live.com" || host.endsWith(".sharepoint.com")) {
+    return "onedrive" as const;
+  }
+  return source;
+}
+
+function parseWebUrl(value: string) {
+  try {
+    const url = new URL(value);
+    return url.protocol === "http:" || url.protocol === "https:" ? url : null;
+  } catch {
+    return null;
+  }
+}
+
+function cardSkipReason(card: BoardCard, board: Board, phaseMapping: PhaseMapping) {
+  if (card.archived) return "Archived in the source board";
+  if (!card.listId) return "Not in any list or section";
+  const list = board.lists.find((item) => item.id === card.listId);
+  if (!list) return "Its list is missing from the export";
+  if (!phaseMapping[list.id]) return `List "${list.name}" is not mapped to a phase`;
+  return null;
+}
+
+function truncate(value: string, length: number) {
+  return value.length > length ? `${value.slice(0, length - 3)}...` : value;
+}
+
+// Creates tasks, comments and linked files in one transaction and stores the reconciliation report.
+// Cards in unmapped lists and unknown members are reported, not guessed at.
+export async function commitBoardImport(input: {
+  importId: string;
+  userId: string;
+  phaseMapping?: PhaseMapping;
+  memberEmails?: MemberEmails;
+}) {
+  const client = await pool.connect();
+
+  try {
+    await client.query("BEGIN");
+
+    const row = await lockBoardImport(client, input.importId);
+    if (!row) {
+      await client.query("ROLLBACK");
+      return { ok: false as const, reason: "not_found" as const };
+    }
+    if (row.status !== "uploaded") {
+      await client.query("ROLLBACK");
+      return { ok: false as const, reason: "invalid_status" as const, status: row.status };
+    }
+
+    const { board, source } = row;
+    const phaseMapping = input.phaseMapping ?? row.phase_mapping;
+    const memberEmails = { ...row.member_emails, ...input.memberEmails };
+    const listIds = new Set(board.lists.map((list) => list.id));
+    const memberIds = new Set(board.members.map((member) => member.id));
+    const unknownLists = Object.keys(phaseMapping).filter((listId) => !listIds.has(listId));
+    const unknownMembers = Object.keys(memberEmails).filter((memberId) => !memberIds.has(memberId));
+    if (unknownLists.length > 0 || unknownMembers.length > 0) {
+      await client.query("ROLLBACK");
+      return { ok: false as const, reason: "invalid_mapping" as const, unknownLists, unknownMembers };
+    }
+
+    const project = await client.query(`SELECT id FROM projects WHERE id = $1 AND deleted_at IS NULL FOR SHARE`, [
+      row.project_id
+    ]);
+    if (!project.rows[0]) {
+      await client.query("ROLLBACK");
+      return { ok: false as const, reason: "project_not_found" as const };
+    }
+
+    const members = resolveMembers(board, memberEmails, await loadStaffIdsByEmail(client));
+    const userIdsByMember = new Map(
+      members.filter((member) => member.userId).map((member) => [member.id, member.userId as string])
+    );
+    const folderId = await getDefaultFolderId(row.project_id, "other");
+    const counts = countCardsByList(board);
+
+    const report: BoardImportReport = {
+      created: { tasks: 0, comments: 0, files: 0 },
+      lists: board.lists
+        .filter((list) => !phaseMapping[list.id])
+        .map((list) => ({
+          listId: list.id,
+          name: list.name,
+          cardCount: counts.get(list.id) ?? 0,
+          reason: "Not mapped to a phase"
+        })),
+      members: members
+        .filter((member) => !member.userId)
+        .map((member) => ({
+          memberId: member.id,
+          name: member.name,
+          email: member.email,
+          reason: member.email
+            ? `No active team member with email ${member.email}`
+            : "The export has no email for this member"
+        })),
+      cards: [],
+      comments: [],
+      attachments: []
+    };
+
+    for (const card of board.cards) {
+      const skipReason = cardSkipReason(card, board, phaseMapping);
+      if (skipReason) {
+        report.cards.push({ cardId: card.id, title: card.title, reason: skipReason });
+        continue;
+      }
+
+      const assignee = card.memberIds.map((memberId) => userIdsByMember.get(memberId)).find(Boolean) ?? null;
+      const task = await insertTask(client, {
+        projectId: row.project_id,
+        title: truncate(card.title.trim() || "Untitled card", MAX_TITLE_LENGTH),
+        description: card.description,
+        phase: phaseMapping[card.listId as string] as ProjectPhase,
+        status: card.completed ? "completed" : "pending",
+        assignedTo: assignee,
+        dueDate: card.dueDate,
+        createdBy: input.userId
+      });
+      report.created.tasks += 1;
+
+      // Comments by people we cannot match are kept, credited to the importer with the original author.
+      for (const comment of card.comments) {
+        const authorId = comment.authorId ? userIdsByMember.get(comment.authorId) : undefined;
+        await insertTaskComment(client, {
+          taskId: task.id,
+          userId: authorId ?? input.userId,
+          body: authorId ? comment.body : `${comment.authorName ?? "Unknown author"} wrote:\n\n${comment.body}`,
+          createdAt: comment.createdAt
+        });
+        report.created.comments += 1;
+        if (!authorId) {
+          report.comments.push({
+            cardId: card.id,
+            taskId: task.id,
+            author: comment.authorName,
+            reason: "Author not matched; posted by the importer"
+          });
+        }
+      }
+
+      for (const attachment of card.attachments) {
+        const url = parseWebUrl(attachment.url);
+        if (!url) {
+          report.attachments.push({
+            cardId: card.id,
+            name: attachment.name,
+            url: attachment.url,
+            reason: "Not a web link"
+          });
+          continue;
+        }
+
+        const storageType = linkedStorageType(url, source);
+        await insertLinkedFile(client, {
+          projectId: row.project_id,
+          fileName: truncate(attachment.name, MAX_FILE_NAME_LENGTH),
+          fileType: "other",
+          storageType,
+          externalUrl: url.toString(),
+          mimeType: attachment.mimeType ?? FALLBACK_MIME_TYPE,
+          fileSize: attachment.bytes && attachment.bytes > 0 ? attachment.bytes : 0,
+          folderId,
+          uploadedBy: input.userId
+        });
+        report.created.files += 1;
+      }
+    }
+
+    await client.query(
+      `UPDATE board_imports
+       SET status = 'committed',
+           phase_mapping = $2::jsonb,
+           member_emails = $3::jsonb,
+           report = $4::jsonb,
+           committed_by = $5,
+           committed_at = NOW(),
+           updated_at = NOW()
+       WHERE id = $1`,
+      [row.id, JSON.stringify(phaseMapping), JSON.stringify(memberEmails), JSON.stringify(report), input.userId]
+    );
+
+    await client.query("COMMIT");
+    return { ok: true as const, projectId: row.project_id, source, report };
+  } catch (error) {
+    await client.query("ROLLBACK");
+    throw error;
+  } finally {
+    client.release();
+  }
+}
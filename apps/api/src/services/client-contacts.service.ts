@@ -0,0 +1,295 @@
+import type { PoolClient } from "pg";
+import { pool } from "../db/pool.js";
+
+type ClientContactRow = {
+  id: string;
+  client_id: string;
+  name: string;
+  title: string | null;
+  email: string | null;
+  phone: string | null;
+  is_primary: boolean;
+  notes: string | null;
+  created_at: Date;
+  updated_at: Date;
+};
+
+type ProjectStakeholderRow = {
+  project_id: string;
+  contact_id: string;
+  role: string | null;
+  added_by: string | null;
+  created_at: Date;
+  name: string;
+  title: string | null;
+  email: string | null;
+  phone: string | null;
+  is_primary: boolean;
+};
+
+type ContactInput = {
+  name?: string;
+  title?: string | null;
+  email?: string | null;
+  phone?: string | null;
+  isPrimary?: boolean;
+  notes?: string | null;
+};
+
+const CONTACT_COLUMNS = `
+  id,
+  client_id,
+  name,
+  title,
+  email,
+  phone,
+  is_primary,
+  notes,
+  created_at,
+  updated_at`;
+
+// At most one primary contact per client: promoting a contact demotes the current one.
+async function clearPrimaryContact(client: PoolClient, clientId: string, exceptContactId: string | null) {
+  await client.query(
+    `UPDATE client_contacts
+     SET is_primary = FALSE, updated_at = NOW()
+     WHERE client_id = $1
+       AND is_primary
+       AND deleted_at IS NULL
+       AND ($2::uuid IS NULL OR id <> $2::uuid)`,
+    [clientId, exceptContactId]
+  );
+}
+
+export async function listClientContacts(clientId: string) {
+  const result = await pool.query<ClientContactRow>(
+    `SELECT ${CONTACT_COLUMNS}
+     FROM client_contacts
+     WHERE client_id = $1
+       AND deleted_at IS NULL
+     ORDER BY is_primary DESC, LOWER(name) ASC`,
+    [clientId]
+  );
+
+  return result.rows;
+}
+
+export async function getClientContact(clientId: string, contactId: string) {
+  const result = await pool.query<ClientContactRow>(
+    `SELECT ${CONTACT_COLUMNS}
+     FROM client_contacts
+     WHERE id = $1
+       AND client_id = $2
+       AND deleted_at IS NULL
+     LIMIT 1`,
+    [contactId, clientId]
+  );
+
+  return result.rows[0] ?? null;
+}
+
+export async function createClientContact(clientId: string, input: ContactInput & { name: string }) {
+  const client = await pool.connect();
+
+  try {
+    await client.query("BEGIN");
+
+    if (input.isPrimary) {
+      await clearPrimaryContact(client, clientId, null);
+    }
+
+    const result = await client.query<ClientContactRow>(
+      `INSERT INTO client_contacts (client_id, name, title, email, phone, is_primary, notes, created_at, updated_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, NOW(), NOW())
+       RETURNING ${CONTACT_COLUMNS}`,
+      [
+        clientId,
+        input.name,
+        input.title ?? null,
+        input.email ?? null,
+        input.phone ?? null,
+        input.isPrimary ?? false,
+        input.notes ?? null
+      ]
+    );
+
+    await client.query("COMMIT");
+    return result.rows[0];
+  } catch (error) {
+    await client.query("ROLLBACK");
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+export async function updateClientContact(clientId: string, contactId: string, input: ContactInput) {
+  const fields: string[] = [];
+  const values: Array<string | boolean | null> = [];
+  const columns: Array<[keyof ContactInput, string]> = [
+    ["name", "name"],
+    ["title", "title"],
+    ["email", "email"],
+    ["phone", "phone"],
+    ["isPrimary", "is_primary"],
+    ["notes", "notes"]
+  ];
+
+  for (const [key, column] of columns) {
+    if (typeof input[key] !== "undefined") {
+      values.push(input[key] ?? null);
+      fields.push(`${column} = $${values.length}`);
+    }
+  }
+
+  if (fields.length === 0) {
+    return getClientContact(clientId, contactId);
+  }
+
+  fields.push("updated_at = NOW()");
+
+  const client = await pool.connect();
+
+  try {
+    await client.query("BEGIN");
+
+    if (input.isPrimary) {
+      await clearPrimaryContact(client, clientId, contactId);
+    }
+
+    const result = await client.query<ClientContactRow>(
+      `UPDATE client_contacts
+       SET ${fields.join(", ")}
+       WHERE id = $${values.length + 1}
+         AND client_id = $${values.length + 2}
+         AND deleted_at IS NULL
+       RETURNING ${CONTACT_COLUMNS}`,
+      [...values, contactId, clientId]
+    );
+
+    if (!result.rows[0]) {
+      await client.query("ROLLBACK");
+      return null;
+    }
+
+    await client.query("COMMIT");
+    return result.rows[0];
+  } catch (error) {
+    await client.query("ROLLBACK");
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+// Soft-deletes the contact and drops it from every project it was a stakeholder on.
+export async function deleteClientContact(clientId: string, contactId: string) {
+  const client = await pool.connect();
+
+  try {
+    await client.query("BEGIN");
+
+    const result = await client.query<{ id: string }>(
+      `UPDATE client_contacts
+       SET deleted_at = NOW(), is_primary = FALSE, updated_at = NOW()
+       WHERE id = $1
+         AND client_id = $2
+         AND deleted_at IS NULL
+       RETURNING id`,
+      [contactId, clientId]
+    );
+    if (result.rowCount !== 1) {
+      await client.query("ROLLBACK");
+      return false;
+    }
+
+    await client.query(`DELETE FROM project_stakeholders WHERE contact_id = $1`, [contactId]);
+
+    await client.query("COMMIT");
+    return true;
+  } catch (error) {
+    await client.query("ROLLBACK");
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+export async function listProjectStakeholders(projectId: string) {
+  const result = await pool.query<ProjectStakeholderRow>(
+    `SELECT
+       ps.project_id,
+       ps.contact_id,
+       ps.role,
+       ps.added_by,
+       ps.created_at,
+       cc.name,
+       cc.title,
+       cc.email,
+       cc.phone,
+       cc.is_primary
+     FROM project_stakeholders ps
+     INNER JOIN client_contacts cc ON cc.id = ps.contact_id AND cc.deleted_at IS NULL
+     WHERE ps.project_id = $1
+     ORDER BY LOWER(cc.name) ASC`,
+    [projectId]
+  );
+
+  return result.rows;
+}
+
+// Only contacts of the project's own client can be attached. Re-adding a contact updates its role.
+export async function addProjectStakeholder(input: {
+  projectId: string;
+  contactId: string;
+  role?: string | null;
+  addedBy: string;
+}) {
+  const contactResult = await pool.query<{ id: string }>(
+    `SELECT cc.id
+     FROM client_contacts cc
+     INNER JOIN projects p ON p.client_id = cc.client_id AND p.id = $2 AND p.deleted_at IS NULL
+     WHERE cc.id = $1
+       AND cc.deleted_at IS NULL
+     LIMIT 1`,
+    [input.contactId, input.projectId]
+  );
+  if (contactResult.rowCount === 0) return { ok: false as const, reason: "contact_not_found" as const };
+
+  const result = await pool.query<ProjectStakeholderRow>(
+    `WITH upserted AS (
+       INSERT INTO project_stakeholders (project_id, contact_id, role, added_by, created_at)
+       VALUES ($1, $2, $3, $4, NOW())
+       ON CONFLICT (project_id, contact_id)
+       DO UPDATE SET role = EXCLUDED.role
+       RETURNING project_id, contact_id, role, added_by, created_at
+     )
+     SELECT
+       u.project_id,
+       u.contact_id,
+       u.role,
+       u.added_by,
+       u.created_at,
+       cc.name,
+       cc.title,
+       cc.email,
+       cc.phone,
+       cc.is_primary
+     FROM upserted u
+     INNER JOIN client_contacts cc ON cc.id = u.contact_id`,
+    [input.projectId, input.contactId, input.role ?? null, input.addedBy]
+  );
+
+  return { ok: true as const, stakeholder: result.rows[0] };
+}
+
+export async function removeProjectStakeholder(projectId: string, contactId: string) {
+  const result = await pool.query(
+    `DELETE FROM project_stakeholders
+     WHERE project_id = $1
+       AND contact_id = $2`,
+    [projectId, contactId]
+  );
+
+  return result.rowCount === 1;
+}
@@ -0,0 +1,221 @@
+import { pool } from "../db/pool.js";
+import type { FileApprovalStatus } from "./file-approvals.service.js";
+import type { ProjectPhase } from "./tasks.service.js";
+
+// Read models for the client portal. Every query is scoped by client id and selects an explicit,
+// client-safe column list: budget, descriptions, tasks, comments and storage keys never leave here.
+
+type PortalProjectRow = {
+  id: string;
+  name: string;
+  current_phase: ProjectPhase;
+  start_date: string;
+  deadline: string;
+  created_at: Date;
+  updated_at: Date;
+};
+
+type PortalPhaseMilestoneRow = {
+  phase: ProjectPhase;
+  entered_at: Date;
+  exited_at: Date | null;
+};
+
+type PortalDeliverableRow = {
+  id: string;
+  document_id: string;
+  file_name: string;
+  version: number;
+  mime_type: string;
+  file_size: string;
+  is_external: boolean;
+  created_at: Date;
+  approval_status: FileApprovalStatus | null;
+};
+
+type PortalApprovalRow = {
+  id: string;
+  project_id: string;
+  project_name: string;
+  file_id: string;
+  file_name: string;
+  file_version: number;
+  reviewer_id: string | null;
+  reviewer_name: string | null;
+  requested_by_name: string | null;
+  request_note: string | null;
+  status: FileApprovalStatus;
+  decision_note: string | null;
+  decided_at: Date | null;
+  created_at: Date;
+};
+
+type PortalFileRow = {
+  id: string;
+  project_id: string;
+  file_name: string;
+  storage_type: string;
+  object_key: string;
+  external_url: string | null;
+  mime_type: string;
+};
+
+const PORTAL_PROJECT_COLUMNS = `
+  id,
+  name,
+  current_phase,
+  start_date::text AS start_date,
+  deadline::text AS deadline,
+  created_at,
+  updated_at`;
+
+export async function listPortalProjects(clientId: string) {
+  const result = await pool.query<PortalProjectRow>(
+    `SELECT ${PORTAL_PROJECT_COLUMNS}
+     FROM projects
+     WHERE client_id = $1
+       AND deleted_at IS NULL
+     ORDER BY deadline ASC, LOWER(name) ASC`,
+    [clientId]
+  );
+
+  return result.rows;
+}
+
+export async function getPortalProject(clientId: string, projectId: string) {
+  const result = await pool.query<PortalProjectRow>(
+    `SELECT ${PORTAL_PROJECT_COLUMNS}
+     FROM projects
+     WHERE id = $1
+       AND client_id = $2
+       AND deleted_at IS NULL
+     LIMIT 1`,
+    [projectId, clientId]
+  );
+
+  return result.rows[0] ?? null;
+}
+
+// When each phase was reached and left, oldest first. Who moved the project is internal.
+export async function listPortalPhaseMilestones(projectId: string) {
+  const result = await pool.query<PortalPhaseMilestoneRow>(
+    `SELECT phase, entered_at, exited_at
+     FROM project_phase_history
+     WHERE project_id = $1
+     ORDER BY entered_at ASC`,
+    [projectId]
+  );
+
+  return result.rows;
+}
+
+// The current scanned-clean version of each deliverable, with its latest sign-off state.
+export async function listPortalDeliverables(projectId: string) {
+  const result = await pool.query<PortalDeliverableRow>(
+    `SELECT
+       current.id,
+       current.document_id,
+       current.file_name,
+       current.version,
+       current.mime_type,
+       current.file_size,
+       current.external_url IS NOT NULL AS is_external,
+       current.created_at,
+       latest_approval.status AS approval_status
+     FROM (
+       SELECT DISTINCT ON (document_id)
+         id, document_id, file_name, version, mime_type, file_size, external_url, created_at
+       FROM files
+       WHERE project_id = $1
+         AND file_type = 'deliverable'
+         AND status = 'available'
+         AND deleted_at IS NULL
+       ORDER BY document_id, version DESC
+     ) current
+     LEFT JOIN LATERAL (
+       SELECT status
+       FROM file_approvals a
+       WHERE a.file_id = current.id
+       ORDER BY a.created_at DESC
+       LIMIT 1
+     ) latest_approval ON TRUE
+     ORDER BY LOWER(current.file_name) ASC`,
+    [projectId]
+  );
+
+  return result.rows;
+}
+
+// Approval requests addressed to any portal account of the client, newest first.
+export async function listPortalApprovals(
+  clientId: string,
+  input?: { projectId?: string; status?: FileApprovalStatus }
+) {
+  const result = await pool.query<PortalApprovalRow>(
+    `SELECT
+       a.id,
+       a.project_id,
+       p.name AS project_name,
+       a.file_id,
+       f.file_name,
+       a.file_version,
+       a.reviewer_id,
+       reviewer.name AS reviewer_name,
+       requester.name AS requested_by_name,
+       a.request_note,
+       a.status,
+       a.decision_note,
+       a.decided_at,
+       a.created_at
+     FROM file_approvals a
+     INNER JOIN projects p ON p.id = a.project_id AND p.deleted_at IS NULL
+     INNER JOIN files f ON f.id = a.file_id AND f.deleted_at IS NULL
+     INNER JOIN users reviewer ON reviewer.id = a.reviewer_id
+     LEFT JOIN users requester ON requester.id = a.requested_by
+     WHERE p.client_id = $1
+       AND reviewer.client_id = $1
+       AND ($2::uuid IS NULL OR a.project_id = $2::uuid)
+       AND ($3::file_approval_status IS NULL OR a.status = $3::file_approval_status)
+     ORDER BY a.created_at DESC`,
+    [clientId, input?.projectId ?? null, input?.status ?? null]
+  );
+
+  return result.rows;
+}
+
+// A file is visible in the portal when it is the current version of a deliverable, or when it was
+// sent to one of the client's portal accounts for approval.
+export async function getPortalFile(clientId: string, fileId: string) {
+  const result = await pool.query<PortalFileRow>(
+    `SELECT f.id, f.project_id, f.file_name, f.storage_type, f.object_key, f.external_url, f.mime_type
+     FROM files f
+     INNER JOIN projects p ON p.id = f.project_id AND p.deleted_at IS NULL
+     WHERE f.id = $1
+       AND p.client_id = $2
+       AND f.status = 'available'
+       AND f.deleted_at IS NULL
+       AND (
+         (
+           f.file_type = 'deliverable'
+           AND f.version = (
+             SELECT MAX(v.version)
+             FROM files v
+             WHERE v.document_id = f.document_id
+               AND v.status = 'available'
+               AND v.deleted_at IS NULL
+           )
+         )
+         OR EXISTS (
+           SELECT 1
+           FROM file_approvals a
+           INNER JOIN users reviewer ON reviewer.id = a.reviewer_id
+           WHERE a.file_id = f.id
+             AND reviewer.client_id = $2
+         )
+       )
+     LIMIT 1`,
+    [fileId, clientId]
+  );
+
+  return result.rows[0] ?? null;
+}
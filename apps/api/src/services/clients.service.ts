@@ -1,3 +1,4 @@
+import type { PoolClient } from "pg";
 import { pool } from "../db/pool.js";
 
 type ClientRow = {
@@ -11,9 +12,86 @@ type ClientRow = {
   updated_at: Date;
 };
 
+type DuplicateReason = "name" | "company" | "email" | "email_domain";
+
+type ClientDuplicateRow = {
+  score: number;
+  name_score: number;
+  company_score: number;
+  email_score: number;
+  client: ClientRow;
+  duplicate: ClientRow;
+};
+
+type ClientMergeRow = {
+  id: string;
+  survivor_client_id: string;
+  merged_client_id: string;
+  merged_by: string | null;
+  merged_client_snapshot: Record<string, unknown>;
+  moved: {
+    projectIds: string[];
+    contactIds: string[];
+    clientUserIds: string[];
+    activityCount: number;
+    filledFields: string[];
+  };
+  created_at: Date;
+};
+
 type ClientSortBy = "createdAt" | "updatedAt" | "name";
 type SortOrder = "asc" | "desc";
 
+const CLIENT_COLUMNS = "id, name, company, email, phone, notes, created_at, updated_at";
+
+// Legal-form words and articles that say nothing about which company a name refers to, so that
+// "Acme", "ACME Inc" and "The Acme Corp." all normalize to "acme".
+const COMPANY_NAME_NOISE_PATTERN =
+  "\\m(the|inc|incorporated|corp|corporation|co|company|llc|ltd|limited|gmbh|ag|sa|plc|group)\\M";
+
+// Sharing one of these domains says nothing about two clients being the same company.
+const PUBLIC_EMAIL_DOMAINS = [
+  "gmail.com",
+  "googlemail.com",
+  "outlook.com",
+  "hotmail.com",
+  "live.com",
+  "yahoo.com",
+  "icloud.com",
+  "me.com",
+  "aol.com",
+  "proton.me",
+  "protonmail.com",
+  "gmx.com",
+  "gmx.de",
+  "web.de"
+];
+
+// An exact address is a strong signal; a shared company domain is only a hint.
+const EMAIL_DOMAIN_SCORE = 0.6;
+
+const DUPLICATE_REASON_MIN_SCORE = 0.5;
+
+function normalizedCompanyNameSql(column: string) {
+  return `NULLIF(
+    btrim(
+      regexp_replace(
+        regexp_replace(regexp_replace(lower(${column}), '[^a-z0-9]+', ' ', 'g'), $1, ' ', 'g'),
+        ' +', ' ', 'g'
+      )
+    ),
+    ''
+  )`;
+}
+
+function textSimilaritySql(left: string, right: string) {
+  return `CASE
+    WHEN ${left} IS NULL OR ${right} IS NULL THEN 0
+    WHEN ${left} = ${right} THEN 1
+    ELSE similarity(${left}, ${right})
+  END`;
+}
+
 const CLIENT_SORT_COLUMNS: Record<ClientSortBy, string> = {
   createdAt: "created_at",
   updatedAt: "updated_at",
@@ -68,17 +146,19 @@ export async function getClientById(clientId: string) {
   return result.rows[0] ?? null;
 }
 
-export async function createClient(input: {
+type ClientInput = {
   name: string;
   company?: string | null;
   email?: string | null;
   phone?: string | null;
   notes?: string | null;
-}) {
-  const result = await pool.query<ClientRow>(
+};
+
+export async function insertClient(client: PoolClient, input: ClientInput) {
+  const result = await client.query<ClientRow>(
     `INSERT INTO clients (name, company, email, phone, notes, created_at, updated_at)
      VALUES ($1, $2, $3, $4, $5, NOW(), NOW())
-     RETURNING id, name, company, email, phone, notes, created_at, updated_at`,
+     RETURNING ${CLIENT_COLUMNS}`,
     [
       input.name,
       input.company ?? null,
@@ -91,6 +171,16 @@ export async function createClient(input: {
   return result.rows[0];
 }
 
+export async function createClient(input: ClientInput) {
+  const client = await pool.connect();
+
+  try {
+    return await insertClient(client, input);
+  } finally {
+    client.release();
+  }
+}
+
 export async function updateClient(
   clientId: string,
   input: {
@@ -153,3 +243,209 @@ export async function deleteClient(clientId: string) {
 
   return result.rowCount === 1;
 }
+
+function duplicateReasons(row: Pick<ClientDuplicateRow, "name_score" | "company_score" | "email_score">) {
+  const reasons: DuplicateReason[] = [];
+  if (row.name_score >= DUPLICATE_REASON_MIN_SCORE) reasons.push("name");
+  if (row.company_score >= DUPLICATE_REASON_MIN_SCORE) reasons.push("company");
+  if (row.email_score === 1) reasons.push("email");
+  else if (row.email_score >= EMAIL_DOMAIN_SCORE) reasons.push("email_domain");
+  return reasons;
+}
+
+// Pairs of active clients that probably describe the same company, best match first. Names and
+// companies are normalized and compared by trigram similarity (names are also compared against the
+// other client's company); emails match exactly or by a non-public domain.
+export async function findDuplicateClients(input?: { minScore?: number; limit?: number }) {
+  const minScore = input?.minScore ?? 0.6;
+  const limit = input?.limit ?? 50;
+
+  const result = await pool.query<ClientDuplicateRow>(
+    `WITH normalized AS (
+       SELECT
+         c.*,
+         ${normalizedCompanyNameSql("c.name")} AS norm_name,
+         ${normalizedCompanyNameSql("c.company")} AS norm_company,
+         lower(c.email::text) AS norm_email,
+         NULLIF(split_part(lower(c.email::text), '@', 2), '') AS email_domain
+       FROM clients c
+       WHERE c.deleted_at IS NULL
+     ),
+     scored AS (
+       SELECT
+         a.id AS client_id,
+         b.id AS duplicate_id,
+         (${textSimilaritySql("a.norm_name", "b.norm_name")})::float8 AS name_score,
+         GREATEST(
+           ${textSimilaritySql("a.norm_company", "b.norm_company")},
+           ${textSimilaritySql("a.norm_name", "b.norm_company")},
+           ${textSimilaritySql("a.norm_company", "b.norm_name")}
+         )::float8 AS company_score,
+         (CASE
+           WHEN a.norm_email IS NOT NULL AND a.norm_email = b.norm_email THEN 1
+           WHEN a.email_domain IS NOT NULL
+             AND a.email_domain = b.email_domain
+             AND a.email_domain <> ALL($2::text[]) THEN $3::float8
+           ELSE 0
+         END)::float8 AS email_score
+       FROM normalized a
+       INNER JOIN normalized b ON a.id < b.id
+     )
+     SELECT
+       GREATEST(s.name_score, s.company_score, s.email_score) AS score,
+       s.name_score,
+       s.company_score,
+       s.email_score,
+       (SELECT to_jsonb(x) FROM (SELECT ${CLIENT_COLUMNS} FROM clients WHERE id = s.client_id) x) AS client,
+       (SELECT to_jsonb(x) FROM (SELECT ${CLIENT_COLUMNS} FROM clients WHERE id = s.duplicate_id) x) AS duplicate
+     FROM scored s
+     WHERE GREATEST(s.name_score, s.company_score, s.email_score) >= $4::float8
+     ORDER BY score DESC, s.client_id, s.duplicate_id
+     LIMIT $5`,
+    [COMPANY_NAME_NOISE_PATTERN, PUBLIC_EMAIL_DOMAINS, EMAIL_DOMAIN_SCORE, minScore, limit]
+  );
+
+  return result.rows.map((row) => ({ ...row, reasons: duplicateReasons(row) }));
+}
+
+async function lockActiveClient(client: PoolClient, clientId: string) {
+  const result = await client.query<ClientRow>(
+    `SELECT ${CLIENT_COLUMNS}
+     FROM clients
+     WHERE id = $1 AND deleted_at IS NULL
+     FOR UPDATE`,
+    [clientId]
+  );
+
+  return result.rows[0] ?? null;
+}
+
+// Folds a duplicate client into the surviving one: projects, contacts, portal accounts and the
+// client's own activity entries move over, empty profile fields on the survivor are filled from
+// the duplicate, and the duplicate is soft-deleted. The audit row keeps a snapshot of the merged
+// client and the ids of everything that moved.
+export async function mergeClients(input: { survivorId: string; mergedId: string; mergedBy: string }) {
+  const client = await pool.connect();
+
+  try {
+    await client.query("BEGIN");
+
+    // Lock in a stable order so two opposite merges cannot deadlock.
+    const [firstId, secondId] = [input.survivorId, input.mergedId].sort();
+    const first = await lockActiveClient(client, firstId);
+    const second = await lockActiveClient(client, secondId);
+    const survivor = [first, second].find((row) => row?.id === input.survivorId);
+    const merged = [first, second].find((row) => row?.id === input.mergedId);
+
+    if (!survivor) {
+      await client.query("ROLLBACK");
+      return { ok: false as const, reason: "not_found" as const };
+    }
+    if (!merged) {
+      await client.query("ROLLBACK");
+      return { ok: false as const, reason: "merged_client_not_found" as const };
+    }
+
+    const projects = await client.query<{ id: string }>(
+      `UPDATE projects
+       SET client_id = $1, updated_at = NOW()
+       WHERE client_id = $2
+       RETURNING id`,
+      [survivor.id, merged.id]
+    );
+
+    // The survivor keeps its primary contact if it has one.
+    await client.query(
+      `UPDATE client_contacts
+       SET is_primary = FALSE, updated_at = NOW()
+       WHERE client_id = $2
+         AND is_primary
+         AND EXISTS (
+           SELECT 1
+           FROM client_contacts
+           WHERE client_id = $1
+             AND is_primary
+             AND deleted_at IS NULL
+         )`,
+      [survivor.id, merged.id]
+    );
+
+    const contacts = await client.query<{ id: string }>(
+      `UPDATE client_contacts
+       SET client_id = $1, updated_at = NOW()
+       WHERE client_id = $2
+       RETURNING id`,
+      [survivor.id, merged.id]
+    );
+
+    const clientUsers = await client.query<{ id: string }>(
+      `UPDATE users
+       SET client_id = $1, updated_at = NOW()
+       WHERE client_id = $2
+       RETURNING id`,
+      [survivor.id, merged.id]
+    );
+
+    // Project activity follows the projects; client-level entries are keyed by details.clientId.
+    const activity = await client.query(
+      `UPDATE activity_log
+       SET details = jsonb_set(details, '{clientId}', to_jsonb($1::text))
+         || jsonb_build_object('mergedFromClientId', $2::text)
+       WHERE details->>'clientId' = $2::text`,
+      [survivor.id, merged.id]
+    );
+
+    const filledFields = (["company", "email", "phone", "notes"] as const).filter(
+      (field) => survivor[field] === null && merged[field] !== null
+    );
+
+    const survivorResult = await client.query<ClientRow>(
+      `UPDATE clients
+       SET company = COALESCE(company, $2),
+           email = COALESCE(email, $3),
+           phone = COALESCE(phone, $4),
+           notes = COALESCE(notes, $5),
+           updated_at = NOW()
+       WHERE id = $1
+       RETURNING ${CLIENT_COLUMNS}`,
+      [survivor.id, merged.company, merged.email, merged.phone, merged.notes]
+    );
+
+    await client.query(
+      `UPDATE clients
+       SET deleted_at = NOW(), updated_at = NOW()
+       WHERE id = $1`,
+      [merged.id]
+    );
+
+    const moved: ClientMergeRow["moved"] = {
+      projectIds: projects.rows.map((row) => row.id),
+      contactIds: contacts.rows.map((row) => row.id),
+      clientUserIds: clientUsers.rows.map((row) => row.id),
+      activityCount: activity.rowCount ?? 0,
+      filledFields
+    };
+
+    const mergeResult = await client.query<ClientMergeRow>(
+      `INSERT INTO client_merges (
+         survivor_client_id,
+         merged_client_id,
+         merged_by,
+         merged_client_snapshot,
+         moved,
+         created_at
+       )
+       VALUES ($1, $2, $3, $4::jsonb, $5::jsonb, NOW())
+       RETURNING id, survivor_client_id, merged_client_id, merged_by, merged_client_snapshot, moved, created_at`,
+      [survivor.id, merged.id, input.mergedBy, JSON.stringify(merged), JSON.stringify(moved)]
+    );
+
+    await client.query("COMMIT");
+    return { ok: true as const, client: survivorResult.rows[0], merge: mergeResult.rows[0] };
+  } catch (error) {
+    await client.query("ROLLBACK");
+    throw error;
+  } finally {
+    client.release();
+  }
+}
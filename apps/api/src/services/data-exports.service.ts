@@ -0,0 +1,510 @@
+import archiver from "archiver";
+import { Readable } from "node:stream";
+import type { PoolClient } from "pg";
+import { env } from "../config/env.js";
+import { pool } from "../db/pool.js";
+import type { StorageDriverName } from "../storage/storage-driver.js";
+import { appendEntry } from "./file-exports.service.js";
+import { createNotification } from "./notifications.service.js";
+import { getStorageDriver } from "./storage.service.js";
+
+export type DataExportKind = "workspace" | "user";
+export type DataExportStatus = "queued" | "running" | "ready" | "failed";
+
+type DataExportRow = {
+  id: string;
+  kind: DataExportKind;
+  subject_user_id: string | null;
+  requested_by: string | null;
+  status: DataExportStatus;
+  format_version: number;
+  schema_version: string | null;
+  storage_type: StorageDriverName | null;
+  object_key: string | null;
+  byte_size: string | null;
+  checksum_sha256: string | null;
+  row_counts: Record<string, number> | null;
+  error: string | null;
+  created_at: Date;
+  started_at: Date | null;
+  completed_at: Date | null;
+};
+
+// One JSON-lines file in an archive: every row of `sql` serialized by Postgres, one per line.
+type ExportSection = {
+  name: string;
+  sql: string;
+  params: unknown[];
+  primaryKey?: string[];
+  columns?: Array<{ name: string; type: string; nullable: boolean }>;
+  redactedColumns?: string[];
+};
+
+// Bumped whenever the archive layout or manifest changes shape; the restore script checks it.
+export const DATA_EXPORT_FORMAT_VERSION = 1;
+
+// Operational bookkeeping and credentials stay out of workspace exports; so do the secret columns
+// below. Everything else the API owns is exported, including tables added by later migrations.
+// MFA factors are useless without their secrets, so people enroll again after a restore; pending
+// invitations and half-finished SSO logins only mean something to this database.
+const WORKSPACE_EXCLUDED_TABLES = new Set([
+  "schema_migrations",
+  "auth_sessions",
+  "data_exports",
+  "user_mfa_factors",
+  "user_mfa_recovery_codes",
+  "user_email_tokens",
+  "user_invitations",
+  "oidc_login_attempts",
+  "api_tokens"
+]);
+
+const WORKSPACE_REDACTED_COLUMNS: Record<string, string[]> = {
+  users: ["password_hash"],
+  file_share_links: ["token_hash", "password_hash"]
+};
+
+const DATA_EXPORT_COLUMNS = `
+  id,
+  kind,
+  subject_user_id,
+  requested_by,
+  status,
+  format_version,
+  schema_version,
+  storage_type,
+  object_key,
+  byte_size,
+  checksum_sha256,
+  row_counts,
+  error,
+  created_at,
+  started_at,
+  completed_at`;
+
+const CURSOR_BATCH_SIZE = 500;
+
+export async function createDataExport(input: {
+  kind: DataExportKind;
+  subjectUserId: string | null;
+  requestedBy: string;
+}) {
+  const result = await pool.query<DataExportRow>(
+    `INSERT INTO data_exports (kind, subject_user_id, requested_by, format_version, created_at)
+     VALUES ($1, $2, $3, $4, NOW())
+     RETURNING ${DATA_EXPORT_COLUMNS}`,
+    [input.kind, input.subjectUserId, input.requestedBy, DATA_EXPORT_FORMAT_VERSION]
+  );
+
+  return result.rows[0];
+}
+
+export async function getDataExportById(exportId: string) {
+  const result = await pool.query<DataExportRow>(
+    `SELECT ${DATA_EXPORT_COLUMNS}
+     FROM data_exports
+     WHERE id = $1
+     LIMIT 1`,
+    [exportId]
+  );
+
+  return result.rows[0] ?? null;
+}
+
+// Admins see every export; everyone else sees the ones they asked for or that are about them.
+export async function listDataExports(input: { userId: string; isAdmin: boolean; kind?: DataExportKind }) {
+  const result = await pool.query<DataExportRow>(
+    `SELECT ${DATA_EXPORT_COLUMNS}
+     FROM data_exports
+     WHERE ($1::boolean OR requested_by = $2 OR subject_user_id = $2)
+       AND ($3::data_export_kind IS NULL OR kind = $3::data_export_kind)
+     ORDER BY created_at DESC
+     LIMIT 50`,
+    [input.isAdmin, input.userId, input.kind ?? null]
+  );
+
+  return result.rows;
+}
+
+export function quoteIdentifier(name: string) {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+// Kahn's algorithm over foreign keys, alphabetical among ties, so a restore can load the files in
+// manifest order. Self-references (folder trees) do not constrain the order.
+function sortByDependencies(tables: string[], references: Array<{ table_name: string; referenced: string }>) {
+  const pending = new Map(tables.map((table) => [table, new Set<string>()]));
+  for (const edge of references) {
+    if (edge.table_name !== edge.referenced && pending.has(edge.referenced)) {
+      pending.get(edge.table_name)?.add(edge.referenced);
+    }
+  }
+
+  const ordered: string[] = [];
+  while (pending.size > 0) {
+    const ready = [...pending.entries()]
+      .filter(([, dependsOn]) => [...dependsOn].every((table) => !pending.has(table)))
+      .map(([table]) => table)
+      .sort();
+    // A foreign key cycle would stall the sort; fall back to alphabetical for whatever is left.
+    const next = ready.length > 0 ? ready : [...pending.keys()].sort();
+    for (const table of next) {
+      ordered.push(table);
+      pending.delete(table);
+    }
+  }
+  return ordered;
+}
+
+async function describeWorkspaceTables(client: PoolClient): Promise<ExportSection[]> {
+  const [columns, primaryKeys, references] = await Promise.all([
+    client.query<{ table_name: string; column_name: string; type: string; nullable: boolean }>(
+      `SELECT
+         c.table_name,
+         c.column_name,
+         CASE WHEN c.data_type IN ('USER-DEFINED', 'ARRAY') THEN c.udt_name ELSE c.data_type END AS type,
+         c.is_nullable = 'YES' AS nullable
+       FROM information_schema.columns c
+       INNER JOIN information_schema.tables t
+         ON t.table_schema = c.table_schema AND t.table_name = c.table_name
+       WHERE c.table_schema = 'public'
+         AND t.table_type = 'BASE TABLE'
+       ORDER BY c.table_name, c.ordinal_position`
+    ),
+    client.query<{ table_name: string; columns: string[] }>(
+      `SELECT t.relname AS table_name, array_agg(a.attname::text ORDER BY k.position) AS columns
+       FROM pg_index i
+       INNER JOIN pg_class t ON t.oid = i.indrelid
+       INNER JOIN pg_namespace n ON n.oid = t.relnamespace
+       CROSS JOIN LATERAL unnest(i.indkey::int2[]) WITH ORDINALITY AS k(attnum, position)
+       INNER JOIN pg_attribute a ON a.attrelid = t.oid AND a.attnum = k.attnum
+       WHERE i.indisprimary
+         AND n.nspname = 'public'
+       GROUP BY t.relname`
+    ),
+    client.query<{ table_name: string; referenced: string }>(
+      `SELECT DISTINCT source.relname AS table_name, target.relname AS referenced
+       FROM pg_constraint c
+       INNER JOIN pg_class source ON source.oid = c.conrelid
+       INNER JOIN pg_class target ON target.oid = c.confrelid
+       WHERE c.contype = 'f'
+         AND c.connamespace = 'public'::regnamespace`
+    )
+  ]);
+
+  const columnsByTable = new Map<string, Array<{ name: string; type: string; nullable: boolean }>>();
+  for (const row of columns.rows) {
+    if (WORKSPACE_EXCLUDED_TABLES.has(row.table_name)) continue;
+    const tableColumns = columnsByTable.get(row.table_name) ?? [];
+    tableColumns.push({ name: row.column_name, type: row.type, nullable: row.nullable });
+    columnsByTable.set(row.table_name, tableColumns);
+  }
+  const primaryKeyByTable = new Map(primaryKeys.rows.map((row) => [row.table_name, row.columns]));
+
+  return sortByDependencies([...columnsByTable.keys()], references.rows).map((table) => {
+    const redacted = WORKSPACE_REDACTED_COLUMNS[table] ?? [];
+    const tableColumns = (columnsByTable.get(table) ?? []).filter((column) => !redacted.includes(column.name));
+    const primaryKey = primaryKeyByTable.get(table) ?? [];
+    const orderBy = (primaryKey.length > 0 ? primaryKey : tableColumns.map((column) => column.name))
+      .map(quoteIdentifier)
+      .join(", ");
+
+    return {
+      name: table,
+      sql: `SELECT ${tableColumns.map((column) => quoteIdentifier(column.name)).join(", ")}
+            FROM ${quoteIdentifier(table)}
+            ORDER BY ${orderBy}`,
+      params: [],
+      primaryKey,
+      columns: tableColumns,
+      redactedColumns: redacted
+    };
+  });
+}
+
+// Personal data for a data-subject request: the profile and everything recorded against the person.
+function describeUserSections(userId: string): ExportSection[] {
+  return [
+    {
+      name: "profile",
+      sql: `SELECT id, email, name, avatar_url, is_active, is_admin, principal_type, client_id,
+                   email_verified_at, last_login_at, created_at, updated_at, deleted_at
+            FROM users
+            WHERE id = $1`,
+      params: [userId]
+    },
+    {
+      name: "sessions",
+      sql: `SELECT id, user_agent, ip_address, expires_at, revoked_at, created_at
+            FROM auth_sessions
+            WHERE user_id = $1
+            ORDER BY created_at, id`,
+      params: [userId]
+    },
+    {
+      name: "api_tokens",
+      sql: `SELECT id, name, token_prefix, scopes, expires_at, last_used_at, host(last_used_ip) AS last_used_ip,
+                   revoked_at, created_at
+            FROM api_tokens
+            WHERE user_id = $1
+            ORDER BY created_at, id`,
+      params: [userId]
+    },
+    {
+      name: "identities",
+      sql: `SELECT id, issuer, subject, email, created_at, last_login_at
+            FROM user_identities
+            WHERE user_id = $1
+            ORDER BY created_at, id`,
+      params: [userId]
+    },
+    {
+      name: "comments",
+      sql: `SELECT c.id, c.task_id, t.title AS task_title, t.project_id, c.body,
+                   c.created_at, c.updated_at, c.deleted_at
+            FROM task_comments c
+            LEFT JOIN tasks t ON t.id = c.task_id
+            WHERE c.user_id = $1
+            ORDER BY c.created_at, c.id`,
+      params: [userId]
+    },
+    {
+      name: "notifications",
+      sql: `SELECT id, project_id, task_id, type, title, message, metadata, is_read, read_at, created_at
+            FROM notifications
+            WHERE user_id = $1
+            ORDER BY created_at, id`,
+      params: [userId]
+    },
+    {
+      name: "activity",
+      sql: `SELECT id, project_id, action, details, created_at
+            FROM activity_log
+            WHERE user_id = $1
+            ORDER BY created_at, id`,
+      params: [userId]
+    }
+  ];
+}
+
+// Rows come out of a server-side cursor so large tables never sit in memory. Postgres serializes
+// each row itself, which keeps numerics and timestamps exactly as stored.
+async function* sectionLines(client: PoolClient, section: ExportSection, counter: { rows: number }) {
+  await client.query(
+    `DECLARE data_export_cursor NO SCROLL CURSOR FOR
+     SELECT row_to_json(section_rows)::text AS line
+     FROM (${section.sql}) section_rows`,
+    section.params
+  );
+
+  try {
+    for (;;) {
+      const batch = await client.query<{ line: string }>(`FETCH ${CURSOR_BATCH_SIZE} FROM data_export_cursor`);
+      for (const row of batch.rows) {
+        counter.rows += 1;
+        yield `${row.line}\n`;
+      }
+      if (batch.rows.length < CURSOR_BATCH_SIZE) break;
+    }
+  } finally {
+    await client.query(`CLOSE data_export_cursor`);
+  }
+}
+
+async function writeExportArchive(dataExport: DataExportRow) {
+  const driver = getStorageDriver();
+  if (!driver) {
+    throw new Error(`Storage driver "${env.STORAGE_DRIVER}" is not configured`);
+  }
+
+  const objectKey =
+    dataExport.kind === "workspace"
+      ? `exports/workspace/${dataExport.id}.zip`
+      : `exports/users/${dataExport.subject_user_id}/${dataExport.id}.zip`;
+  const archive = archiver("zip", { zlib: { level: 6 } });
+  const stored = driver.putObject(objectKey, archive, {
+    contentType: "application/zip",
+    maxBytes: env.EXPORT_BUNDLE_MAX_BYTES
+  });
+
+  const client = await pool.connect();
+  const manifestSections: Array<Record<string, unknown>> = [];
+  const rowCounts: Record<string, number> = {};
+  let schemaVersion: string | null = null;
+
+  try {
+    // One snapshot for the whole archive, so rows that reference each other are consistent.
+    await client.query("BEGIN ISOLATION LEVEL REPEATABLE READ READ ONLY");
+
+    const migration = await client.query<{ filename: string }>(
+      `SELECT filename FROM schema_migrations ORDER BY filename DESC LIMIT 1`
+    );
+    schemaVersion = migration.rows[0]?.filename ?? null;
+
+    const sections =
+      dataExport.kind === "workspace"
+        ? await describeWorkspaceTables(client)
+        : describeUserSections(dataExport.subject_user_id as string);
+
+    for (const section of sections) {
+      const counter = { rows: 0 };
+      const path = `${dataExport.kind === "workspace" ? "tables" : "data"}/${section.name}.jsonl`;
+      const entry = await appendEntry(archive, Readable.from(sectionLines(client, section, counter)), path);
+      rowCounts[section.name] = counter.rows;
+      manifestSections.push({
+        name: section.name,
+        path,
+        rowCount: counter.rows,
+        size: entry.size,
+        checksumSha256: entry.checksumSha256,
+        ...(section.columns
+          ? { primaryKey: section.primaryKey, columns: section.columns, redactedColumns: section.redactedColumns }
+          : {})
+      });
+    }
+
+    await client.query("COMMIT");
+
+    const manifest = {
+      format: dataExport.kind === "workspace" ? "adfix-workspace-export" : "adfix-user-export",
+      formatVersion: dataExport.format_version,
+      schemaVersion,
+      exportId: dataExport.id,
+      subjectUserId: dataExport.subject_user_id,
+      generatedAt: new Date().toISOString(),
+      [dataExport.kind === "workspace" ? "tables" : "sections"]: manifestSections
+    };
+    archive.append(JSON.stringify(manifest, null, 2), { name: "manifest.json" });
+    await archive.finalize();
+  } catch (error) {
+    await client.query("ROLLBACK").catch(() => undefined);
+    archive.abort();
+    await stored.catch(() => undefined);
+    await driver.deleteObject(objectKey).catch(() => undefined);
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  const result = await stored;
+  if (!result.ok) {
+    await driver.deleteObject(objectKey).catch(() => undefined);
+    throw new Error(`Export exceeds the ${env.EXPORT_BUNDLE_MAX_BYTES} byte limit`);
+  }
+
+  return {
+    storageType: driver.name,
+    objectKey,
+    size: result.size,
+    checksumSha256: result.checksumSha256,
+    schemaVersion,
+    rowCounts
+  };
+}
+
+function describeExport(dataExport: DataExportRow) {
+  return dataExport.kind === "workspace" ? "workspace export" : "personal data export";
+}
+
+// Builds a queued export and notifies the requester either way; failures are stored, not thrown.
+export async function runDataExport(exportId: string) {
+  const claimed = await pool.query<DataExportRow>(
+    `UPDATE data_exports
+     SET status = 'running',
+         started_at = NOW()
+     WHERE id = $1
+       AND status = 'queued'
+     RETURNING ${DATA_EXPORT_COLUMNS}`,
+    [exportId]
+  );
+  const dataExport = claimed.rows[0];
+  if (!dataExport) {
+    return null;
+  }
+
+  try {
+    const archive = await writeExportArchive(dataExport);
+    const result = await pool.query<DataExportRow>(
+      `UPDATE data_exports
+       SET status = 'ready',
+           schema_version = $2,
+           storage_type = $3,
+           object_key = $4,
+           byte_size = $5,
+           checksum_sha256 = $6,
+           row_counts = $7::jsonb,
+           completed_at = NOW()
+       WHERE id = $1
+       RETURNING ${DATA_EXPORT_COLUMNS}`,
+      [
+        dataExport.id,
+        archive.schemaVersion,
+        archive.storageType,
+        archive.objectKey,
+        archive.size,
+        archive.checksumSha256,
+        JSON.stringify(archive.rowCounts)
+      ]
+    );
+
+    if (dataExport.requested_by) {
+      await createNotification({
+        userId: dataExport.requested_by,
+        type: "data_export_ready",
+        title: "Export ready",
+        message: `Your ${describeExport(dataExport)} is ready to download.`,
+        metadata: { dataExportId: dataExport.id, kind: dataExport.kind }
+      });
+    }
+
+    return result.rows[0];
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Export failed";
+    const result = await pool.query<DataExportRow>(
+      `UPDATE data_exports
+       SET status = 'failed',
+           error = $2,
+           completed_at = NOW()
+       WHERE id = $1
+       RETURNING ${DATA_EXPORT_COLUMNS}`,
+      [dataExport.id, message.slice(0, 1000)]
+    );
+
+    if (dataExport.requested_by) {
+      await createNotification({
+        userId: dataExport.requested_by,
+        type: "data_export_failed",
+        title: "Export failed",
+        message: `Your ${describeExport(dataExport)} could not be created.`,
+        metadata: { dataExportId: dataExport.id, kind: dataExport.kind, error: message }
+      });
+    }
+
+    return result.rows[0];
+  }
+}
+
+// Runs the export after the current request has been answered.
+export function queueDataExport(exportId: string) {
+  setImmediate(() => {
+    runDataExport(exportId).catch((error) => {
+      console.error(`Data export ${exportId} failed to run:`, error);
+    });
+  });
+}
+
+// Exports interrupted by a restart are re-queued and built one at a time.
+export async function resumeDataExports() {
+  const result = await pool.query<{ id: string }>(
+    `UPDATE data_exports
+     SET status = 'queued',
+         started_at = NULL
+     WHERE status IN ('queued', 'running')
+     RETURNING id`
+  );
+
+  for (const row of result.rows) {
+    await runDataExport(row.id);
+  }
+  return result.rows.length;
+}
@@ -0,0 +1,212 @@
+import { randomBytes } from "node:crypto";
+import bcrypt from "bcryptjs";
+import type { PoolClient } from "pg";
+import { pool } from "../db/pool.js";
+import { hashToken } from "../utils/tokens.js";
+import { ACTIVE_USER_CONDITION } from "./auth.service.js";
+import { buildWebAppUrl, sendMail } from "./mail.service.js";
+
+type EmailTokenPurpose = "password_reset" | "email_verification";
+
+const PASSWORD_RESET_TTL_MINUTES = 60;
+const EMAIL_VERIFICATION_TTL_HOURS = 48;
+
+// The raw token only ever exists in the email; a new link replaces any unused one for the same purpose.
+async function issueEmailToken(input: { userId: string; email: string; purpose: EmailTokenPurpose; ttlMs: number }) {
+  const token = randomBytes(32).toString("base64url");
+  await pool.query(
+    `WITH replaced AS (
+       DELETE FROM user_email_tokens
+       WHERE user_id = $1
+         AND purpose = $2
+         AND used_at IS NULL
+     )
+     INSERT INTO user_email_tokens (user_id, purpose, token_hash, email, expires_at)
+     VALUES ($1, $2, $3, $4, $5)`,
+    [input.userId, input.purpose, hashToken(token), input.email, new Date(Date.now() + input.ttlMs)]
+  );
+  return token;
+}
+
+// Spends a token. Unknown, used and expired tokens all look the same to the caller.
+async function consumeEmailToken(client: PoolClient, token: string, purpose: EmailTokenPurpose) {
+  const result = await client.query<{ user_id: string; email: string }>(
+    `UPDATE user_email_tokens
+     SET used_at = NOW()
+     WHERE token_hash = $1
+       AND purpose = $2
+       AND used_at IS NULL
+       AND expires_at > NOW()
+     RETURNING user_id, email`,
+    [hashToken(token), purpose]
+  );
+  return result.rows[0] ?? null;
+}
+
+// Answers the same way whether or not the address belongs to an account, so the endpoint cannot be
+// used to find out who has one. `userId` and `delivered` are only for the caller's audit log.
+export async function requestPasswordReset(input: { email: string }) {
+  const userQuery = await pool.query<{ id: string; email: string; name: string }>(
+    `SELECT id, email, name
+     FROM users
+     WHERE email = $1
+       AND ${ACTIVE_USER_CONDITION}
+     LIMIT 1`,
+    [input.email]
+  );
+  const user = userQuery.rows[0];
+  if (!user) return { userId: null, delivered: false };
+
+  const token = await issueEmailToken({
+    userId: user.id,
+    email: user.email,
+    purpose: "password_reset",
+    ttlMs: PASSWORD_RESET_TTL_MINUTES * 60 * 1000
+  });
+  try {
+    await sendMail({
+      to: `${user.name} <${user.email}>`,
+      subject: "Reset your Adfix PM password",
+      text: [
+        `Hi ${user.name},`,
+        "",
+        "Someone asked to reset the password for your Adfix PM account. To choose a new one, open:",
+        "",
+        buildWebAppUrl("reset-password", { token }),
+        "",
+        `The link works once and expires in ${PASSWORD_RESET_TTL_MINUTES} minutes. ` +
+          "Resetting your password signs you out everywhere.",
+        "",
+        "If this was not you, ignore this email; your password stays the same."
+      ].join("\n")
+    });
+  } catch (error) {
+    // Failing loudly here would tell the caller the address has an account.
+    console.error(`Password reset email for user ${user.id} could not be sent:`, error);
+    return { userId: user.id, delivered: false };
+  }
+  return { userId: user.id, delivered: true };
+}
+
+// Sets the new password and ends every session, so whoever knew the old password is signed out too.
+// Receiving the email also proves the address, so an unverified account becomes verified.
+export async function resetPasswordWithToken(input: { token: string; password: string }) {
+  const passwordHash = await bcrypt.hash(input.password, 12);
+
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+    const consumed = await consumeEmailToken(client, input.token, "password_reset");
+    const updated = consumed
+      ? await client.query<{ id: string }>(
+          `UPDATE users
+           SET password_hash = $3,
+               email_verified_at = COALESCE(email_verified_at, NOW()),
+               updated_at = NOW()
+           WHERE id = $1
+             AND email = $2
+             AND ${ACTIVE_USER_CONDITION}
+           RETURNING id`,
+          [consumed.user_id, consumed.email, passwordHash]
+        )
+      : null;
+    if (!consumed || !updated?.rows[0]) {
+      await client.query("ROLLBACK");
+      return { ok: false as const, reason: "invalid_token" as const };
+    }
+
+    const revoked = await client.query(
+      `UPDATE auth_sessions
+       SET revoked_at = NOW()
+       WHERE user_id = $1
+         AND revoked_at IS NULL`,
+      [consumed.user_id]
+    );
+    await client.query(
+      `DELETE FROM user_email_tokens
+       WHERE user_id = $1
+         AND purpose = 'password_reset'
+         AND used_at IS NULL`,
+      [consumed.user_id]
+    );
+    await client.query("COMMIT");
+    return { ok: true as const, userId: consumed.user_id, revokedSessions: revoked.rowCount ?? 0 };
+  } catch (error) {
+    await client.query("ROLLBACK");
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+export async function sendEmailVerification(userId: string) {
+  const userQuery = await pool.query<{ id: string; email: string; name: string; email_verified_at: Date | null }>(
+    `SELECT id, email, name, email_verified_at
+     FROM users
+     WHERE id = $1
+       AND deleted_at IS NULL
+     LIMIT 1`,
+    [userId]
+  );
+  const user = userQuery.rows[0];
+  if (!user) {
+    return { ok: false as const, reason: "not_found" as const };
+  }
+  if (user.email_verified_at) {
+    return { ok: false as const, reason: "already_verified" as const };
+  }
+
+  const token = await issueEmailToken({
+    userId: user.id,
+    email: user.email,
+    purpose: "email_verification",
+    ttlMs: EMAIL_VERIFICATION_TTL_HOURS * 60 * 60 * 1000
+  });
+  await sendMail({
+    to: `${user.name} <${user.email}>`,
+    subject: "Confirm your email for Adfix PM",
+    text: [
+      `Hi ${user.name},`,
+      "",
+      "Please confirm this is your email address by opening:",
+      "",
+      buildWebAppUrl("verify-email", { token }),
+      "",
+      `The link expires in ${EMAIL_VERIFICATION_TTL_HOURS} hours.`
+    ].join("\n")
+  });
+  return { ok: true as const };
+}
+
+// Only counts while the link's address is still the account's email.
+export async function verifyEmailWithToken(input: { token: string }) {
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+    const consumed = await consumeEmailToken(client, input.token, "email_verification");
+    const updated = consumed
+      ? await client.query<{ id: string; email: string; email_verified_at: Date }>(
+          `UPDATE users
+           SET email_verified_at = COALESCE(email_verified_at, NOW()),
+               updated_at = NOW()
+           WHERE id = $1
+             AND email = $2
+             AND deleted_at IS NULL
+           RETURNING id, email, email_verified_at`,
+          [consumed.user_id, consumed.email]
+        )
+      : null;
+    const user = updated?.rows[0];
+    if (!user) {
+      await client.query("ROLLBACK");
+      return { ok: false as const, reason: "invalid_token" as const };
+    }
+    await client.query("COMMIT");
+    return { ok: true as const, userId: user.id, email: user.email, emailVerifiedAt: user.email_verified_at };
+  } catch (error) {
+    await client.query("ROLLBACK");
+    throw error;
+  } finally {
+    client.release();
+  }
+}
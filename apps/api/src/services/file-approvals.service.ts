@@ -0,0 +1,309 @@
+import type { PoolClient } from "pg";
+import { pool } from "../db/pool.js";
+import type { FileType } from "./files.service.js";
+import { createNotification } from "./notifications.service.js";
+
+export type FileApprovalStatus = "pending" | "approved" | "rejected" | "changes_requested" | "superseded";
+export type FileApprovalDecision = "approved" | "rejected" | "changes_requested";
+
+export type FileApprovalRow = {
+  id: string;
+  project_id: string;
+  document_id: string;
+  file_id: string;
+  file_version: number;
+  requested_by: string | null;
+  reviewer_id: string | null;
+  request_note: string | null;
+  status: FileApprovalStatus;
+  decision_note: string | null;
+  decided_by: string | null;
+  decided_at: Date | null;
+  created_at: Date;
+};
+
+type ApprovalWriteResult =
+  | { ok: true; approval: FileApprovalRow; superseded: FileApprovalRow[] }
+  | { ok: false; reason: "not_found" | "not_latest" | "already_pending" };
+
+type ApprovalDecisionResult =
+  | { ok: true; approval: FileApprovalRow }
+  | { ok: false; reason: "not_found" | "not_pending" | "superseded" };
+
+export type UnapprovedDeliverable = {
+  file_id: string;
+  document_id: string;
+  file_name: string;
+  version: number;
+  approval_status: FileApprovalStatus | null;
+};
+
+// Only these file types go through client sign-off.
+export const APPROVABLE_FILE_TYPES: FileType[] = ["deliverable", "proposal"];
+
+const APPROVAL_COLUMNS = `
+  id,
+  project_id,
+  document_id,
+  file_id,
+  file_version,
+  requested_by,
+  reviewer_id,
+  request_note,
+  status,
+  decision_note,
+  decided_by,
+  decided_at,
+  created_at`;
+
+function isUniqueViolation(error: unknown) {
+  return (
+    typeof error === "object" &&
+    error !== null &&
+    "code" in error &&
+    (error as { code?: string }).code === "23505"
+  );
+}
+
+// Newest version of the document that the scanner did not reject, matching what the file list shows.
+async function lockCurrentVersion(client: PoolClient, documentId: string) {
+  const result = await client.query<{ id: string; version: number }>(
+    `SELECT id, version
+     FROM files
+     WHERE document_id = $1
+       AND deleted_at IS NULL
+       AND status <> 'rejected'
+     ORDER BY version DESC
+     LIMIT 1
+     FOR UPDATE`,
+    [documentId]
+  );
+
+  return result.rows[0] ?? null;
+}
+
+// Opens an approval request on the given file version, which must be the document's current one.
+// A pending request left on an older version is closed as `superseded`.
+export async function requestFileApproval(input: {
+  fileId: string;
+  reviewerId: string;
+  requestedBy: string;
+  note?: string | null;
+}): Promise<ApprovalWriteResult> {
+  const client = await pool.connect();
+
+  try {
+    await client.query("BEGIN");
+
+    const fileResult = await client.query<{ id: string; project_id: string; document_id: string; version: number }>(
+      `SELECT id, project_id, document_id, version
+       FROM files
+       WHERE id = $1
+         AND deleted_at IS NULL
+       LIMIT 1`,
+      [input.fileId]
+    );
+    const file = fileResult.rows[0];
+    if (!file) {
+      await client.query("ROLLBACK");
+      return { ok: false, reason: "not_found" };
+    }
+
+    const current = await lockCurrentVersion(client, file.document_id);
+    if (!current || current.id !== file.id) {
+      await client.query("ROLLBACK");
+      return { ok: false, reason: "not_latest" };
+    }
+
+    const superseded = await client.query<FileApprovalRow>(
+      `UPDATE file_approvals
+       SET status = 'superseded'
+       WHERE document_id = $1
+         AND status = 'pending'
+         AND file_id <> $2
+       RETURNING ${APPROVAL_COLUMNS}`,
+      [file.document_id, file.id]
+    );
+
+    const result = await client.query<FileApprovalRow>(
+      `INSERT INTO file_approvals (
+         project_id, document_id, file_id, file_version, requested_by, reviewer_id, request_note, created_at
+       )
+       VALUES ($1, $2, $3, $4, $5, $6, $7, NOW())
+       RETURNING ${APPROVAL_COLUMNS}`,
+      [file.project_id, file.document_id, file.id, file.version, input.requestedBy, input.reviewerId, input.note ?? null]
+    );
+
+    await client.query("COMMIT");
+    return { ok: true, approval: result.rows[0], superseded: superseded.rows };
+  } catch (error) {
+    await client.query("ROLLBACK");
+    if (isUniqueViolation(error)) {
+      return { ok: false, reason: "already_pending" };
+    }
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+export async function getFileApprovalById(approvalId: string) {
+  const result = await pool.query<FileApprovalRow>(
+    `SELECT ${APPROVAL_COLUMNS}
+     FROM file_approvals
+     WHERE id = $1
+     LIMIT 1`,
+    [approvalId]
+  );
+
+  return result.rows[0] ?? null;
+}
+
+// Approval history of every version in the file's chain, newest first.
+export async function listFileApprovals(fileId: string) {
+  const result = await pool.query<FileApprovalRow & { reviewer_name: string | null; requested_by_name: string | null }>(
+    `SELECT
+       a.id,
+       a.project_id,
+       a.document_id,
+       a.file_id,
+       a.file_version,
+       a.requested_by,
+       requester.name AS requested_by_name,
+       a.reviewer_id,
+       reviewer.name AS reviewer_name,
+       a.request_note,
+       a.status,
+       a.decision_note,
+       a.decided_by,
+       a.decided_at,
+       a.created_at
+     FROM file_approvals a
+     LEFT JOIN users requester ON requester.id = a.requested_by
+     LEFT JOIN users reviewer ON reviewer.id = a.reviewer_id
+     WHERE a.document_id = (SELECT document_id FROM files WHERE id = $1)
+     ORDER BY a.created_at DESC`,
+    [fileId]
+  );
+
+  return result.rows;
+}
+
+// Records the reviewer's decision. A request whose file has since gained a newer version is closed
+// as `superseded` instead, because the reviewer would be signing off on outdated content.
+export async function decideFileApproval(input: {
+  approvalId: string;
+  decision: FileApprovalDecision;
+  note?: string | null;
+  decidedBy: string;
+}): Promise<ApprovalDecisionResult> {
+  const client = await pool.connect();
+
+  try {
+    await client.query("BEGIN");
+
+    const approvalResult = await client.query<FileApprovalRow>(
+      `SELECT ${APPROVAL_COLUMNS}
+       FROM file_approvals
+       WHERE id = $1
+       FOR UPDATE`,
+      [input.approvalId]
+    );
+    const approval = approvalResult.rows[0];
+    if (!approval) {
+      await client.query("ROLLBACK");
+      return { ok: false, reason: "not_found" };
+    }
+
+    if (approval.status !== "pending") {
+      await client.query("ROLLBACK");
+      return { ok: false, reason: "not_pending" };
+    }
+
+    const current = await lockCurrentVersion(client, approval.document_id);
+    if (!current || current.id !== approval.file_id) {
+      await client.query(`UPDATE file_approvals SET status = 'superseded' WHERE id = $1`, [approval.id]);
+      await client.query("COMMIT");
+      return { ok: false, reason: "superseded" };
+    }
+
+    const result = await client.query<FileApprovalRow>(
+      `UPDATE file_approvals
+       SET status = $2,
+           decision_note = $3,
+           decided_by = $4,
+           decided_at = NOW()
+       WHERE id = $1
+       RETURNING ${APPROVAL_COLUMNS}`,
+      [approval.id, input.decision, input.note ?? null, input.decidedBy]
+    );
+
+    await client.query("COMMIT");
+    return { ok: true, approval: result.rows[0] };
+  } catch (error) {
+    await client.query("ROLLBACK");
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+// Tells the requester what the reviewer decided. Shared by the staff and client portal decision routes.
+export async function notifyApprovalDecided(input: {
+  approval: FileApprovalRow;
+  fileName: string | null;
+  decidedBy: { id: string; name: string };
+}) {
+  const { approval } = input;
+  if (!approval.requested_by || approval.requested_by === input.decidedBy.id) {
+    return;
+  }
+
+  const decisionLabel = approval.status === "changes_requested" ? "requested changes on" : approval.status;
+  await createNotification({
+    userId: approval.requested_by,
+    projectId: approval.project_id,
+    type: "file_approval_decided",
+    title: "Approval decision",
+    message: `${input.decidedBy.name} ${decisionLabel} "${input.fileName ?? "a file"}" (v${approval.file_version}).`,
+    metadata: {
+      approvalId: approval.id,
+      fileId: approval.file_id,
+      decision: approval.status
+    }
+  });
+}
+
+// Deliverables whose current version has no approval yet. Runs on the caller's connection so the
+// phase transition can check it inside its own transaction.
+export async function listUnapprovedDeliverables(client: PoolClient, projectId: string) {
+  const result = await client.query<UnapprovedDeliverable>(
+    `SELECT
+       current.id AS file_id,
+       current.document_id,
+       current.file_name,
+       current.version,
+       latest_approval.status AS approval_status
+     FROM (
+       SELECT DISTINCT ON (document_id) id, document_id, file_name, version
+       FROM files
+       WHERE project_id = $1
+         AND file_type = 'deliverable'
+         AND deleted_at IS NULL
+         AND status <> 'rejected'
+       ORDER BY document_id, version DESC
+     ) current
+     LEFT JOIN LATERAL (
+       SELECT status
+       FROM file_approvals a
+       WHERE a.file_id = current.id
+       ORDER BY a.created_at DESC
+       LIMIT 1
+     ) latest_approval ON TRUE
+     WHERE latest_approval.status IS DISTINCT FROM 'approved'
+     ORDER BY LOWER(current.file_name) ASC`,
+    [projectId]
+  );
+
+  return result.rows;
+}
@@ -0,0 +1,422 @@
+import archiver from "archiver";
+import crypto from "node:crypto";
+import { PassThrough, type Readable } from "node:stream";
+import { env } from "../config/env.js";
+import { pool } from "../db/pool.js";
+import type { StorageDriverName } from "../storage/storage-driver.js";
+import { listProjectFolders, type FileFolderRow } from "./file-folders.service.js";
+import type { FileType, StorageType } from "./files.service.js";
+import { createNotification } from "./notifications.service.js";
+import { getProjectById } from "./projects.service.js";
+import { getStorageDriver } from "./storage.service.js";
+
+export type ExportBundleStatus = "queued" | "running" | "ready" | "failed";
+
+type ExportBundleRow = {
+  id: string;
+  project_id: string;
+  requested_by: string | null;
+  status: ExportBundleStatus;
+  file_type: FileType | null;
+  folder_id: string | null;
+  storage_type: StorageDriverName | null;
+  object_key: string | null;
+  byte_size: string | null;
+  checksum_sha256: string | null;
+  file_count: number | null;
+  external_link_count: number | null;
+  error: string | null;
+  created_at: Date;
+  started_at: Date | null;
+  completed_at: Date | null;
+};
+
+type ExportFileRow = {
+  id: string;
+  document_id: string;
+  version: number;
+  file_name: string;
+  file_type: FileType;
+  storage_type: StorageType;
+  object_key: string;
+  external_url: string | null;
+  mime_type: string;
+  file_size: string;
+  checksum_sha256: string | null;
+  folder_id: string | null;
+  created_at: Date;
+};
+
+const BUNDLE_COLUMNS = `
+  id,
+  project_id,
+  requested_by,
+  status,
+  file_type,
+  folder_id,
+  storage_type,
+  object_key,
+  byte_size,
+  checksum_sha256,
+  file_count,
+  external_link_count,
+  error,
+  created_at,
+  started_at,
+  completed_at`;
+
+export async function createExportBundle(input: {
+  projectId: string;
+  requestedBy: string;
+  fileType: FileType | null;
+  folderId: string | null;
+}) {
+  const result = await pool.query<ExportBundleRow>(
+    `INSERT INTO file_export_bundles (project_id, requested_by, file_type, folder_id, created_at)
+     VALUES ($1, $2, $3, $4, NOW())
+     RETURNING ${BUNDLE_COLUMNS}`,
+    [input.projectId, input.requestedBy, input.fileType, input.folderId]
+  );
+
+  return result.rows[0];
+}
+
+export async function getExportBundleById(bundleId: string) {
+  const result = await pool.query<ExportBundleRow>(
+    `SELECT ${BUNDLE_COLUMNS}
+     FROM file_export_bundles
+     WHERE id = $1
+     LIMIT 1`,
+    [bundleId]
+  );
+
+  return result.rows[0] ?? null;
+}
+
+export async function listExportBundles(projectId: string) {
+  const result = await pool.query<ExportBundleRow>(
+    `SELECT ${BUNDLE_COLUMNS}
+     FROM file_export_bundles
+     WHERE project_id = $1
+     ORDER BY created_at DESC
+     LIMIT 50`,
+    [projectId]
+  );
+
+  return result.rows;
+}
+
+// Newest available version of every document in scope. A folder filter includes its subfolders.
+async function listExportFiles(bundle: ExportBundleRow) {
+  const result = await pool.query<ExportFileRow>(
+    `WITH RECURSIVE scope AS (
+       SELECT id FROM file_folders WHERE id = $3
+       UNION
+       SELECT ff.id
+       FROM file_folders ff
+       INNER JOIN scope s ON ff.parent_id = s.id
+     )
+     SELECT *
+     FROM (
+       SELECT DISTINCT ON (f.document_id)
+         f.id,
+         f.document_id,
+         f.version,
+         f.file_name,
+         f.file_type,
+         f.storage_type,
+         f.object_key,
+         f.external_url,
+         f.mime_type,
+         f.file_size,
+         f.checksum_sha256,
+         f.folder_id,
+         f.created_at
+       FROM files f
+       WHERE f.project_id = $1
+         AND f.deleted_at IS NULL
+         AND f.status = 'available'
+         AND ($2::file_type IS NULL OR f.file_type = $2::file_type)
+         AND ($3::uuid IS NULL OR f.folder_id IN (SELECT id FROM scope))
+       ORDER BY f.document_id, f.version DESC
+     ) latest
+     ORDER BY LOWER(file_name) ASC, created_at ASC`,
+    [bundle.project_id, bundle.file_type, bundle.folder_id]
+  );
+
+  return result.rows;
+}
+
+function buildFolderPaths(folders: FileFolderRow[]) {
+  const byId = new Map(folders.map((folder) => [folder.id, folder]));
+  const paths = new Map<string, string>();
+  const resolving = new Set<string>();
+
+  const resolve = (folderId: string): string => {
+    const cached = paths.get(folderId);
+    if (cached !== undefined) return cached;
+    const folder = byId.get(folderId);
+    // A folder already on the path means a parent loop; end the path there instead of recursing forever.
+    if (!folder || resolving.has(folderId)) return "";
+    resolving.add(folderId);
+    const name = sanitizeEntryName(folder.name);
+    const parentPath = folder.parent_id ? resolve(folder.parent_id) : "";
+    const resolved = parentPath ? `${parentPath}/${name}` : name;
+    resolving.delete(folderId);
+    paths.set(folderId, resolved);
+    return resolved;
+  };
+
+  for (const folder of folders) {
+    resolve(folder.id);
+  }
+  return paths;
+}
+
+function sanitizeEntryName(name: string) {
+  return name.replace(/[\\/:*?"<>|\x00-\x1f]/g, "_").replace(/^\.+$/, "_");
+}
+
+// Keeps ZIP entry names unique by suffixing duplicates: "cut.mp4", "cut (2).mp4", ...
+function claimEntryName(taken: Set<string>, folderPath: string, fileName: string) {
+  const safeName = sanitizeEntryName(fileName);
+  const extensionIndex = safeName.lastIndexOf(".");
+  const base = extensionIndex > 0 ? safeName.slice(0, extensionIndex) : safeName;
+  const extension = extensionIndex > 0 ? safeName.slice(extensionIndex) : "";
+
+  for (let attempt = 1; ; attempt += 1) {
+    const candidate = `${folderPath ? `${folderPath}/` : ""}${attempt === 1 ? safeName : `${base} (${attempt})${extension}`}`;
+    if (!taken.has(candidate.toLowerCase())) {
+      taken.add(candidate.toLowerCase());
+      return candidate;
+    }
+  }
+}
+
+// Appends one entry and resolves once archiver has consumed it, so only one source stream is open at a time.
+export function appendEntry(archive: archiver.Archiver, source: Readable, name: string) {
+  const hash = crypto.createHash("sha256");
+  let size = 0;
+  const hashed = new PassThrough();
+  source.on("data", (chunk: Buffer) => {
+    hash.update(chunk);
+    size += chunk.length;
+  });
+  source.on("error", (error) => hashed.destroy(error));
+  source.pipe(hashed);
+
+  return new Promise<{ size: number; checksumSha256: string }>((resolve, reject) => {
+    const onEntry = () => {
+      archive.off("error", onError);
+      resolve({ size, checksumSha256: hash.digest("hex") });
+    };
+    const onError = (error: Error) => {
+      archive.off("entry", onEntry);
+      reject(error);
+    };
+    archive.once("entry", onEntry);
+    archive.once("error", onError);
+    archive.append(hashed, { name });
+  });
+}
+
+async function writeBundleArchive(bundle: ExportBundleRow, projectName: string) {
+  const driver = getStorageDriver();
+  if (!driver) {
+    throw new Error(`Storage driver "${env.STORAGE_DRIVER}" is not configured`);
+  }
+
+  const [files, folders] = await Promise.all([listExportFiles(bundle), listProjectFolders(bundle.project_id)]);
+  const folderPaths = buildFolderPaths(folders);
+  const takenNames = new Set<string>(["manifest.json"]);
+
+  const archive = archiver("zip", { zlib: { level: 6 } });
+  const objectKey = `projects/${bundle.project_id}/exports/${bundle.id}.zip`;
+  const stored = driver.putObject(objectKey, archive, {
+    contentType: "application/zip",
+    maxBytes: env.EXPORT_BUNDLE_MAX_BYTES
+  });
+
+  const manifestFiles: Array<Record<string, unknown>> = [];
+  const externalLinks: Array<Record<string, unknown>> = [];
+  const missingFiles: Array<Record<string, unknown>> = [];
+
+  try {
+    for (const file of files) {
+      const folderPath = file.folder_id ? (folderPaths.get(file.folder_id) ?? "") : "";
+      const common = {
+        fileId: file.id,
+        documentId: file.document_id,
+        version: file.version,
+        fileName: file.file_name,
+        fileType: file.file_type,
+        folder: folderPath || null,
+        mimeType: file.mime_type
+      };
+
+      if (file.external_url) {
+        externalLinks.push({
+          ...common,
+          storageType: file.storage_type,
+          externalUrl: file.external_url,
+          size: Number(file.file_size),
+          checksumSha256: file.checksum_sha256
+        });
+        continue;
+      }
+
+      const fileDriver = getStorageDriver(file.storage_type === "s3" ? "s3" : "local");
+      const source = fileDriver ? await fileDriver.getObjectStream(file.object_key) : null;
+      if (!source) {
+        missingFiles.push({ ...common, reason: fileDriver ? "object_missing" : "storage_unavailable" });
+        continue;
+      }
+
+      const path = claimEntryName(takenNames, folderPath, file.file_name);
+      const entry = await appendEntry(archive, source, path);
+      manifestFiles.push({ ...common, path, size: entry.size, checksumSha256: entry.checksumSha256 });
+    }
+
+    const manifest = {
+      bundleId: bundle.id,
+      projectId: bundle.project_id,
+      projectName,
+      generatedAt: new Date().toISOString(),
+      filters: { fileType: bundle.file_type, folderId: bundle.folder_id },
+      files: manifestFiles,
+      externalLinks,
+      missingFiles
+    };
+    archive.append(JSON.stringify(manifest, null, 2), { name: "manifest.json" });
+    await archive.finalize();
+  } catch (error) {
+    archive.abort();
+    await stored.catch(() => undefined);
+    await driver.deleteObject(objectKey).catch(() => undefined);
+    throw error;
+  }
+
+  const result = await stored;
+  if (!result.ok) {
+    await driver.deleteObject(objectKey).catch(() => undefined);
+    throw new Error(`Export exceeds the ${env.EXPORT_BUNDLE_MAX_BYTES} byte bundle limit`);
+  }
+
+  return {
+    storageType: driver.name,
+    objectKey,
+    size: result.size,
+    checksumSha256: result.checksumSha256,
+    fileCount: manifestFiles.length,
+    externalLinkCount: externalLinks.length
+  };
+}
+
+// Builds a queued bundle and notifies the requester either way. Failures are stored on the bundle
+// rather than thrown, because this runs detached from the request that queued it.
+export async function runExportBundle(bundleId: string) {
+  const claimed = await pool.query<ExportBundleRow>(
+    `UPDATE file_export_bundles
+     SET status = 'running',
+         started_at = NOW()
+     WHERE id = $1
+       AND status = 'queued'
+     RETURNING ${BUNDLE_COLUMNS}`,
+    [bundleId]
+  );
+  const bundle = claimed.rows[0];
+  if (!bundle) {
+    return null;
+  }
+
+  const project = await getProjectById(bundle.project_id);
+  const projectName = project?.name ?? "Project";
+
+  try {
+    const archive = await writeBundleArchive(bundle, projectName);
+    const result = await pool.query<ExportBundleRow>(
+      `UPDATE file_export_bundles
+       SET status = 'ready',
+           storage_type = $2,
+           object_key = $3,
+           byte_size = $4,
+           checksum_sha256 = $5,
+           file_count = $6,
+           external_link_count = $7,
+           completed_at = NOW()
+       WHERE id = $1
+       RETURNING ${BUNDLE_COLUMNS}`,
+      [
+        bundle.id,
+        archive.storageType,
+        archive.objectKey,
+        archive.size,
+        archive.checksumSha256,
+        archive.fileCount,
+        archive.externalLinkCount
+      ]
+    );
+
+    if (bundle.requested_by) {
+      await createNotification({
+        userId: bundle.requested_by,
+        projectId: bundle.project_id,
+        type: "export_bundle_ready",
+        title: "Export ready",
+        message: `Your file export for "${projectName}" is ready to download (${archive.fileCount} files).`,
+        metadata: { bundleId: bundle.id, fileCount: archive.fileCount, externalLinkCount: archive.externalLinkCount }
+      });
+    }
+
+    return result.rows[0];
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Export failed";
+    const result = await pool.query<ExportBundleRow>(
+      `UPDATE file_export_bundles
+       SET status = 'failed',
+           error = $2,
+           completed_at = NOW()
+       WHERE id = $1
+       RETURNING ${BUNDLE_COLUMNS}`,
+      [bundle.id, message.slice(0, 1000)]
+    );
+
+    if (bundle.requested_by) {
+      await createNotification({
+        userId: bundle.requested_by,
+        projectId: bundle.project_id,
+        type: "export_bundle_failed",
+        title: "Export failed",
+        message: `Your file export for "${projectName}" could not be created.`,
+        metadata: { bundleId: bundle.id, error: message }
+      });
+    }
+
+    return result.rows[0];
+  }
+}
+
+// Runs the bundle after the current request has been answered.
+export function queueExportBundle(bundleId: string) {
+  setImmediate(() => {
+    runExportBundle(bundleId).catch((error) => {
+      console.error(`Export bundle ${bundleId} failed to run:`, error);
+    });
+  });
+}
+
+// Bundles interrupted by a restart are re-queued and built one at a time.
+export async function resumeExportBundles() {
+  const result = await pool.query<{ id: string }>(
+    `UPDATE file_export_bundles
+     SET status = 'queued',
+         started_at = NULL
+     WHERE status IN ('queued', 'running')
+     RETURNING id`
+  );
+
+  for (const row of result.rows) {
+    await runExportBundle(row.id);
+  }
+  return result.rows.length;
+}
@@ -0,0 +1,267 @@
+import type { PoolClient } from "pg";
+import { pool } from "../db/pool.js";
+import type { FileType } from "./files.service.js";
+
+export type FileFolderRow = {
+  id: string;
+  project_id: string;
+  parent_id: string | null;
+  name: string;
+  default_file_types: FileType[];
+  sort_order: number;
+  created_by: string | null;
+  created_at: Date;
+  updated_at: Date;
+};
+
+export type FileFolderNode<TFile> = FileFolderRow & {
+  children: Array<FileFolderNode<TFile>>;
+  files: TFile[];
+};
+
+type FolderWriteResult =
+  | { ok: true; folder: FileFolderRow }
+  | { ok: false; reason: "not_found" | "parent_not_found" | "cycle" | "name_taken" };
+
+// Repository layout from the design doc. Every new project gets these root folders, and files land in
+// the folder whose default_file_types include their FileType unless a folder is chosen explicitly.
+export const DEFAULT_FOLDER_LAYOUT: Array<{ name: string; defaultFileTypes: FileType[] }> = [
+  { name: "Client Documents", defaultFileTypes: ["client_profile", "nda", "contract"] },
+  { name: "Planning", defaultFileTypes: ["proposal", "creative_brief"] },
+  { name: "Production", defaultFileTypes: ["asset"] },
+  { name: "Deliverables", defaultFileTypes: ["deliverable"] }
+];
+
+const FOLDER_COLUMNS = `
+  id,
+  project_id,
+  parent_id,
+  name,
+  default_file_types::text[] AS default_file_types,
+  sort_order,
+  created_by,
+  created_at,
+  updated_at`;
+
+function isUniqueViolation(error: unknown) {
+  return (
+    typeof error === "object" &&
+    error !== null &&
+    "code" in error &&
+    (error as { code?: string }).code === "23505"
+  );
+}
+
+// Idempotent: folders that already exist at the project root (by name) are left untouched.
+export async function seedProjectFolders(client: PoolClient, input: { projectId: string; createdBy: string | null }) {
+  for (const [index, folder] of DEFAULT_FOLDER_LAYOUT.entries()) {
+    await client.query(
+      `INSERT INTO file_folders (project_id, name, default_file_types, sort_order, created_by)
+       VALUES ($1, $2, $3::file_type[], $4, $5)
+       ON CONFLICT DO NOTHING`,
+      [input.projectId, folder.name, folder.defaultFileTypes, index + 1, input.createdBy]
+    );
+  }
+}
+
+export async function listProjectFolders(projectId: string) {
+  const result = await pool.query<FileFolderRow>(
+    `SELECT ${FOLDER_COLUMNS}
+     FROM file_folders
+     WHERE project_id = $1
+     ORDER BY sort_order ASC, LOWER(name) ASC`,
+    [projectId]
+  );
+
+  return result.rows;
+}
+
+export async function getFolderById(folderId: string) {
+  const result = await pool.query<FileFolderRow>(
+    `SELECT ${FOLDER_COLUMNS}
+     FROM file_folders
+     WHERE id = $1
+     LIMIT 1`,
+    [folderId]
+  );
+
+  return result.rows[0] ?? null;
+}
+
+export async function getDefaultFolderId(projectId: string, fileType: FileType) {
+  const result = await pool.query<{ id: string }>(
+    `SELECT id
+     FROM file_folders
+     WHERE project_id = $1
+       AND $2::file_type = ANY(default_file_types)
+     ORDER BY (parent_id IS NULL) DESC, sort_order ASC, created_at ASC
+     LIMIT 1`,
+    [projectId, fileType]
+  );
+
+  return result.rows[0]?.id ?? null;
+}
+
+async function findParentFolder(client: PoolClient, projectId: string, parentId: string) {
+  const result = await client.query<{ id: string }>(
+    `SELECT id
+     FROM file_folders
+     WHERE id = $1
+       AND project_id = $2
+     LIMIT 1`,
+    [parentId, projectId]
+  );
+
+  return result.rows[0] ?? null;
+}
+
+export async function createFolder(input: {
+  projectId: string;
+  parentId: string | null;
+  name: string;
+  createdBy: string;
+}): Promise<FolderWriteResult> {
+  const client = await pool.connect();
+
+  try {
+    await client.query("BEGIN");
+
+    if (input.parentId && !(await findParentFolder(client, input.projectId, input.parentId))) {
+      await client.query("ROLLBACK");
+      return { ok: false, reason: "parent_not_found" };
+    }
+
+    const result = await client.query<FileFolderRow>(
+      `INSERT INTO file_folders (project_id, parent_id, name, sort_order, created_by)
+       VALUES (
+         $1,
+         $2,
+         $3,
+         (SELECT COALESCE(MAX(sort_order), 0) + 1 FROM file_folders WHERE project_id = $1 AND parent_id IS NOT DISTINCT FROM $2),
+         $4
+       )
+       RETURNING ${FOLDER_COLUMNS}`,
+      [input.projectId, input.parentId, input.name, input.createdBy]
+    );
+
+    await client.query("COMMIT");
+    return { ok: true, folder: result.rows[0] };
+  } catch (error) {
+    await client.query("ROLLBACK");
+    if (isUniqueViolation(error)) {
+      return { ok: false, reason: "name_taken" };
+    }
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+// Renames and/or moves a folder. `parentId: null` moves it to the project root; undefined keeps it.
+export async function updateFolder(input: {
+  folderId: string;
+  name?: string;
+  parentId?: string | null;
+}): Promise<FolderWriteResult> {
+  const client = await pool.connect();
+
+  try {
+    await client.query("BEGIN");
+
+    // NO KEY UPDATE still lets a concurrent move's foreign key check on this folder through, so that
+    // move can finish and release the project lock taken below instead of deadlocking on it.
+    const currentResult = await client.query<FileFolderRow>(
+      `SELECT ${FOLDER_COLUMNS}
+       FROM file_folders
+       WHERE id = $1
+       FOR NO KEY UPDATE`,
+      [input.folderId]
+    );
+    const current = currentResult.rows[0];
+    if (!current) {
+      await client.query("ROLLBACK");
+      return { ok: false, reason: "not_found" };
+    }
+
+    const parentId = typeof input.parentId === "undefined" ? current.parent_id : input.parentId;
+    if (parentId && parentId !== current.parent_id) {
+      // Serialize moves per project so two concurrent moves cannot close a loop together.
+      await client.query(`SELECT pg_advisory_xact_lock(hashtext($1))`, [current.project_id]);
+
+      if (!(await findParentFolder(client, current.project_id, parentId))) {
+        await client.query("ROLLBACK");
+        return { ok: false, reason: "parent_not_found" };
+      }
+
+      // Moving a folder beneath itself or one of its descendants would detach that subtree.
+      const ancestorResult = await client.query<{ id: string }>(
+        `WITH RECURSIVE ancestors AS (
+           SELECT id, parent_id FROM file_folders WHERE id = $1
+           UNION
+           SELECT ff.id, ff.parent_id
+           FROM file_folders ff
+           INNER JOIN ancestors a ON ff.id = a.parent_id
+         )
+         SELECT id FROM ancestors WHERE id = $2 LIMIT 1`,
+        [parentId, current.id]
+      );
+      if (ancestorResult.rows.length > 0) {
+        await client.query("ROLLBACK");
+        return { ok: false, reason: "cycle" };
+      }
+    }
+
+    const result = await client.query<FileFolderRow>(
+      `UPDATE file_folders
+       SET name = $2,
+           parent_id = $3,
+           updated_at = NOW()
+       WHERE id = $1
+       RETURNING ${FOLDER_COLUMNS}`,
+      [current.id, input.name ?? current.name, parentId]
+    );
+
+    await client.query("COMMIT");
+    return { ok: true, folder: result.rows[0] };
+  } catch (error) {
+    await client.query("ROLLBACK");
+    if (isUniqueViolation(error)) {
+      return { ok: false, reason: "name_taken" };
+    }
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+// Nests folders under their parents and attaches each file to its folder. Files outside the subtree
+// rooted at `rootFolderId` (or the project root when null) are left out.
+export function buildFolderTree<TFile extends { folder_id: string | null }>(
+  folders: FileFolderRow[],
+  files: TFile[],
+  rootFolderId: string | null
+) {
+  const nodes = new Map<string, FileFolderNode<TFile>>(
+    folders.map((folder) => [folder.id, { ...folder, children: [], files: [] }])
+  );
+
+  const rootFolders: Array<FileFolderNode<TFile>> = [];
+  for (const node of nodes.values()) {
+    if (node.parent_id === rootFolderId) {
+      rootFolders.push(node);
+    } else if (node.parent_id) {
+      nodes.get(node.parent_id)?.children.push(node);
+    }
+  }
+
+  const rootFiles: TFile[] = [];
+  for (const file of files) {
+    if (file.folder_id === rootFolderId) {
+      rootFiles.push(file);
+    } else if (file.folder_id) {
+      nodes.get(file.folder_id)?.files.push(file);
+    }
+  }
+
+  return { folders: rootFolders, files: rootFiles };
+}
@@ -0,0 +1,132 @@
+import { Readable } from "node:stream";
+import { env } from "../config/env.js";
+import { pool } from "../db/pool.js";
+import { createPdftoppmRenderer, type PdfPageRenderer } from "../previews/pdf-renderer.js";
+import {
+  PREVIEW_MIME_TYPE,
+  PREVIEW_SIZES,
+  PREVIEWABLE_IMAGE_TYPES,
+  renderThumbnail,
+  type PreviewSize
+} from "../previews/thumbnails.js";
+import { readStreamWithLimit } from "../storage/storage-driver.js";
+import { getFileById } from "./files.service.js";
+import { getStorageDriver, getUploadSizeLimit } from "./storage.service.js";
+
+type FilePreviewRow = {
+  file_id: string;
+  size: PreviewSize;
+  object_key: string;
+  mime_type: string;
+  width: number;
+  height: number;
+  byte_size: number;
+  created_at: Date;
+};
+
+let pdfRenderer: PdfPageRenderer | null | undefined;
+
+export function getPdfPageRenderer() {
+  if (typeof pdfRenderer === "undefined") {
+    pdfRenderer =
+      env.PREVIEW_PDF_RENDERER === "pdftoppm"
+        ? createPdftoppmRenderer({
+            command: env.PDFTOPPM_PATH,
+            timeoutMs: env.PREVIEW_TIMEOUT_MS,
+            scaleTo: PREVIEW_SIZES.large
+          })
+        : null;
+  }
+  return pdfRenderer;
+}
+
+// Replaces the configured PDF renderer; `null` disables PDF previews and `undefined` restores the default.
+export function setPdfPageRenderer(next: PdfPageRenderer | null | undefined) {
+  pdfRenderer = next;
+}
+
+async function setPreviewStatus(fileId: string, status: "ready" | "unsupported" | "failed") {
+  await pool.query(
+    `UPDATE files
+     SET preview_status = $2
+     WHERE id = $1`,
+    [fileId, status]
+  );
+}
+
+// Renders every preview size for an available stored file and writes them through its storage driver.
+// Failures are recorded as preview_status = 'failed' rather than thrown, so uploads never fail on previews.
+export async function generateFilePreviews(fileId: string) {
+  const file = await getFileById(fileId);
+  if (!file || file.status !== "available" || file.external_url) {
+    return null;
+  }
+
+  const isPdf = file.mime_type === "application/pdf";
+  const renderer = isPdf ? getPdfPageRenderer() : null;
+  const supported = isPdf ? renderer !== null : PREVIEWABLE_IMAGE_TYPES.includes(file.mime_type);
+  if (!supported) {
+    await setPreviewStatus(file.id, "unsupported");
+    return "unsupported" as const;
+  }
+
+  const driver = getStorageDriver(file.storage_type === "s3" ? "s3" : "local");
+  if (!driver) {
+    return null;
+  }
+
+  try {
+    const stream = await driver.getObjectStream(file.object_key);
+    const original = stream ? await readStreamWithLimit(stream, getUploadSizeLimit()) : null;
+    if (!original) {
+      await setPreviewStatus(file.id, "failed");
+      return "failed" as const;
+    }
+
+    const source = renderer ? await renderer.renderFirstPage(original.buffer) : original.buffer;
+    for (const [size, maxDimension] of Object.entries(PREVIEW_SIZES) as Array<[PreviewSize, number]>) {
+      const thumbnail = await renderThumbnail(source, maxDimension);
+      const objectKey = `projects/${file.project_id}/previews/${file.id}/${size}.webp`;
+      const stored = await driver.putObject(objectKey, Readable.from([thumbnail.buffer]), {
+        contentType: PREVIEW_MIME_TYPE,
+        maxBytes: getUploadSizeLimit()
+      });
+      if (!stored.ok) {
+        throw new Error(`Preview ${size} for ${file.id} exceeds the upload limit`);
+      }
+
+      await pool.query(
+        `INSERT INTO file_previews (file_id, size, object_key, mime_type, width, height, byte_size, created_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, NOW())
+         ON CONFLICT (file_id, size)
+         DO UPDATE
+           SET object_key = EXCLUDED.object_key,
+               mime_type = EXCLUDED.mime_type,
+               width = EXCLUDED.width,
+               height = EXCLUDED.height,
+               byte_size = EXCLUDED.byte_size,
+               created_at = NOW()`,
+        [file.id, size, objectKey, PREVIEW_MIME_TYPE, thumbnail.width, thumbnail.height, stored.size]
+      );
+    }
+  } catch {
+    await setPreviewStatus(file.id, "failed");
+    return "failed" as const;
+  }
+
+  await setPreviewStatus(file.id, "ready");
+  return "ready" as const;
+}
+
+export async function getFilePreview(fileId: string, size: PreviewSize) {
+  const result = await pool.query<FilePreviewRow>(
+    `SELECT file_id, size, object_key, mime_type, width, height, byte_size, created_at
+     FROM file_previews
+     WHERE file_id = $1
+       AND size = $2
+     LIMIT 1`,
+    [fileId, size]
+  );
+
+  return result.rows[0] ?? null;
+}
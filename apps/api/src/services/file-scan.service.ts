@@ -0,0 +1,120 @@
+import { env } from "../config/env.js";
+import { pool } from "../db/pool.js";
+import { createClamAvScanner } from "../scanning/clamav-scanner.js";
+import type { FileScanner } from "../scanning/file-scanner.js";
+import { createNoopScanner } from "../scanning/noop-scanner.js";
+import { insertActivityLog } from "./activity-log.service.js";
+import { generateFilePreviews } from "./file-previews.service.js";
+import { getFileById, markFileScanned } from "./files.service.js";
+import { createNotification } from "./notifications.service.js";
+import { getStorageDriver } from "./storage.service.js";
+
+let scanner: FileScanner | null = null;
+
+export function getFileScanner() {
+  if (!scanner) {
+    scanner =
+      env.FILE_SCANNER === "clamav"
+        ? createClamAvScanner({ host: env.CLAMAV_HOST, port: env.CLAMAV_PORT, timeoutMs: env.CLAMAV_TIMEOUT_MS })
+        : createNoopScanner();
+  }
+  return scanner;
+}
+
+// Replaces the configured scanner, e.g. to plug in another engine or a scripted one in tests.
+export function setFileScanner(next: FileScanner | null) {
+  scanner = next;
+}
+
+// Runs the scanner over a pending upload and records the verdict. When the object cannot be read or
+// the scanner fails, the file is left in pending_scan so the scan can be retried later.
+export async function scanStoredFile(fileId: string) {
+  const file = await getFileById(fileId);
+  if (!file || file.status !== "pending_scan") {
+    return file;
+  }
+
+  const driver = getStorageDriver(file.storage_type === "s3" ? "s3" : "local");
+  const stream = driver ? await driver.getObjectStream(file.object_key) : null;
+  if (!driver || !stream) {
+    return file;
+  }
+
+  const activeScanner = getFileScanner();
+  let verdict: Awaited<ReturnType<FileScanner["scan"]>>;
+  try {
+    verdict = await activeScanner.scan(stream);
+  } catch {
+    stream.destroy();
+    return file;
+  }
+
+  if (verdict.clean) {
+    return (await markFileScanned(file.id, { status: "available", scanResult: null })) ?? file;
+  }
+
+  const rejected = await markFileScanned(file.id, { status: "rejected", scanResult: verdict.signature });
+  if (!rejected) {
+    return getFileById(file.id);
+  }
+
+  await driver.deleteObject(rejected.object_key);
+
+  await insertActivityLog({
+    userId: rejected.uploaded_by,
+    projectId: rejected.project_id,
+    action: "file_scan_rejected",
+    details: {
+      fileId: rejected.id,
+      documentId: rejected.document_id,
+      version: rejected.version,
+      scanner: activeScanner.name,
+      signature: verdict.signature
+    }
+  });
+
+  await createNotification({
+    userId: rejected.uploaded_by,
+    projectId: rejected.project_id,
+    type: "file_rejected",
+    title: "Upload rejected",
+    message: `"${rejected.file_name}" was rejected by the malware scanner and has been removed.`,
+    metadata: { fileId: rejected.id, signature: verdict.signature }
+  });
+
+  return rejected;
+}
+
+// Post-upload pipeline: scan the stored object, then render previews once it is available.
+async function processStoredFile(fileId: string) {
+  const scanned = await scanStoredFile(fileId);
+  if (scanned?.status === "available" && !scanned.external_url) {
+    await generateFilePreviews(scanned.id);
+  }
+}
+
+// Scanning and previews can take many seconds, so they run after the response; until the verdict is
+// in the file stays in pending_scan.
+export function queueFileProcessing(fileId: string) {
+  setImmediate(() => {
+    processStoredFile(fileId).catch((error) => {
+      console.error(`File ${fileId} failed to process:`, error);
+    });
+  });
+}
+
+// Uploads still waiting for a scan after a restart are re-queued and processed one at a time.
+export async function resumeFileScans() {
+  const result = await pool.query<{ id: string }>(
+    `SELECT id
+     FROM files
+     WHERE status = 'pending_scan'
+       AND deleted_at IS NULL
+     ORDER BY created_at`
+  );
+
+  for (const row of result.rows) {
+    await processStoredFile(row.id);
+  }
+  return result.rows.length;
+}
@@ -1,3 +1,5 @@
+import crypto from "node:crypto";
+import type { PoolClient } from "pg";
 import { pool } from "../db/pool.js";
 
 export type FileType =
@@ -10,7 +12,10 @@ export type FileType =
   | "deliverable"
   | "other";
 
-export type StorageType = "local" | "s3" | "google_drive" | "dropbox" | "onedrive";
+// Trello and Asana only appear on attachments linked by a board import.
+export type StorageType = "local" | "s3" | "google_drive" | "dropbox" | "onedrive" | "trello" | "asana";
+
+export type FileStatus = "pending_scan" | "available" | "rejected";
 
 type FileRow = {
   id: string;
@@ -25,6 +30,13 @@ type FileRow = {
   checksum_sha256: string | null;
   uploaded_by: string;
   version: number;
+  document_id: string;
+  restored_from_version: number | null;
+  folder_id: string | null;
+  status: FileStatus;
+  scanned_at: Date | null;
+  scan_result: string | null;
+  preview_status: "ready" | "unsupported" | "failed" | null;
   created_at: Date;
 };
 
@@ -37,20 +49,38 @@ const FILE_SORT_COLUMNS: Record<FileSortBy, string> = {
   fileSize: "file_size"
 };
 
+// `folderId: null` lists files at the project root; leaving it undefined lists every folder.
+// `pageSize: null` disables paging, which the folder tree view relies on.
 export async function listFilesByProjectId(
   projectId: string,
-  input?: { page?: number; pageSize?: number; sortBy?: FileSortBy; sortOrder?: SortOrder }
+  input?: {
+    page?: number;
+    pageSize?: number | null;
+    sortBy?: FileSortBy;
+    sortOrder?: SortOrder;
+    folderId?: string | null;
+  }
 ) {
   const page = input?.page ?? 1;
-  const pageSize = input?.pageSize ?? 20;
-  const offset = (page - 1) * pageSize;
+  const pageSize = input?.pageSize === null ? null : (input?.pageSize ?? 20);
+  const offset = pageSize === null ? 0 : (page - 1) * pageSize;
   const sortBy = input?.sortBy ?? "createdAt";
   const sortOrder = input?.sortOrder ?? "desc";
   const orderColumn = FILE_SORT_COLUMNS[sortBy];
   const orderDirection = sortOrder.toUpperCase() === "ASC" ? "ASC" : "DESC";
 
+  const filterParams: Array<string | null> = [projectId];
+  let folderCondition = "";
+  if (input?.folderId === null) {
+    folderCondition = "AND folder_id IS NULL";
+  } else if (typeof input?.folderId === "string") {
+    filterParams.push(input.folderId);
+    folderCondition = `AND folder_id = $${filterParams.length}`;
+  }
+  const limitIndex = filterParams.length + 1;
+
   const [dataResult, countResult] = await Promise.all([
-    pool.query<FileRow>(
+    pool.query<FileRow & { version_count: number }>(
       `SELECT
          id,
          project_id,
@@ -64,20 +94,40 @@ export async function listFilesByProjectId(
          checksum_sha256,
          uploaded_by,
          version,
-         created_at
-       FROM files
-       WHERE project_id = $1
-         AND deleted_at IS NULL
+         document_id,
+         restored_from_version,
+         folder_id,
+         status,
+         scanned_at,
+         scan_result,
+         preview_status,
+         created_at,
+         version_count
+       FROM (
+         SELECT
+           f.*,
+           COUNT(*) OVER (PARTITION BY f.document_id)::int AS version_count,
+           ROW_NUMBER() OVER (
+             PARTITION BY f.document_id
+             ORDER BY (f.status = 'rejected') ASC, f.version DESC
+           ) AS version_rank
+         FROM files f
+         WHERE f.project_id = $1
+           AND f.deleted_at IS NULL
+       ) latest
+       WHERE version_rank = 1
+         ${folderCondition}
        ORDER BY ${orderColumn} ${orderDirection}
-       LIMIT $2 OFFSET $3`,
-      [projectId, pageSize, offset]
+       LIMIT $${limitIndex} OFFSET $${limitIndex + 1}`,
+      [...filterParams, pageSize, offset]
     ),
     pool.query<{ total: string }>(
-      `SELECT COUNT(*)::text AS total
+      `SELECT COUNT(DISTINCT document_id)::text AS total
        FROM files
        WHERE project_id = $1
-         AND deleted_at IS NULL`,
-      [projectId]
+         AND deleted_at IS NULL
+         ${folderCondition}`,
+      filterParams
     )
   ]);
 
@@ -102,6 +152,13 @@ export async function getFileById(fileId: string) {
        checksum_sha256,
        uploaded_by,
        version,
+       document_id,
+       restored_from_version,
+       folder_id,
+       status,
+       scanned_at,
+       scan_result,
+       preview_status,
        created_at
      FROM files
      WHERE id = $1
@@ -113,22 +170,25 @@ export async function getFileById(fileId: string) {
   return result.rows[0] ?? null;
 }
 
-export async function createLinkedFile(input: {
+type LinkedFileInput = {
   projectId: string;
   fileName: string;
   fileType: FileType;
-  storageType: "google_drive" | "dropbox" | "onedrive";
+  storageType: "google_drive" | "dropbox" | "onedrive" | "trello" | "asana";
   externalUrl: string;
   mimeType: string;
   fileSize: number;
+  folderId?: string | null;
   uploadedBy: string;
-}) {
-  const result = await pool.query<FileRow>(
+};
+
+export async function insertLinkedFile(client: PoolClient, input: LinkedFileInput) {
+  const result = await client.query<FileRow>(
     `INSERT INTO files (
        project_id, file_name, file_type, storage_type, object_key, external_url,
-       mime_type, file_size, checksum_sha256, uploaded_by, version, created_at
+       mime_type, file_size, checksum_sha256, uploaded_by, version, id, document_id, folder_id, status, created_at
      )
-     VALUES ($1, $2, $3, $4, $5, $6, $7, $8::bigint, NULL, $9, 1, NOW())
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8::bigint, NULL, $9, 1, $10, $10, $11, 'available', NOW())
      RETURNING
        id,
        project_id,
@@ -142,6 +202,13 @@ export async function createLinkedFile(input: {
        checksum_sha256,
        uploaded_by,
        version,
+       document_id,
+       restored_from_version,
+       folder_id,
+       status,
+       scanned_at,
+       scan_result,
+       preview_status,
        created_at`,
     [
       input.projectId,
@@ -152,13 +219,25 @@ export async function createLinkedFile(input: {
       input.externalUrl,
       input.mimeType,
       input.fileSize,
-      input.uploadedBy
+      input.uploadedBy,
+      crypto.randomUUID(),
+      input.folderId ?? null
     ]
   );
 
   return result.rows[0];
 }
 
+export async function createLinkedFile(input: LinkedFileInput) {
+  const client = await pool.connect();
+
+  try {
+    return await insertLinkedFile(client, input);
+  } finally {
+    client.release();
+  }
+}
+
 export async function createUploadedFile(input: {
   projectId: string;
   fileName: string;
@@ -168,14 +247,15 @@ export async function createUploadedFile(input: {
   mimeType: string;
   fileSize: number;
   checksumSha256?: string | null;
+  folderId?: string | null;
   uploadedBy: string;
 }) {
   const result = await pool.query<FileRow>(
     `INSERT INTO files (
        project_id, file_name, file_type, storage_type, object_key, external_url,
-       mime_type, file_size, checksum_sha256, uploaded_by, version, created_at
+       mime_type, file_size, checksum_sha256, uploaded_by, version, id, document_id, folder_id, status, created_at
      )
-     VALUES ($1, $2, $3, $4, $5, NULL, $6, $7::bigint, $8, $9, 1, NOW())
+     VALUES ($1, $2, $3, $4, $5, NULL, $6, $7::bigint, $8, $9, 1, $10, $10, $11, 'pending_scan', NOW())
      RETURNING
        id,
        project_id,
@@ -189,6 +269,13 @@ export async function createUploadedFile(input: {
        checksum_sha256,
        uploaded_by,
        version,
+       document_id,
+       restored_from_version,
+       folder_id,
+       status,
+       scanned_at,
+       scan_result,
+       preview_status,
        created_at`,
     [
       input.projectId,
@@ -199,22 +286,409 @@ export async function createUploadedFile(input: {
       input.mimeType,
       input.fileSize,
       input.checksumSha256 ?? null,
-      input.uploadedBy
+      input.uploadedBy,
+      crypto.randomUUID(),
+      input.folderId ?? null
     ]
   );
 
   return result.rows[0];
 }
 
+// Renames the latest version and/or moves the whole chain into another folder (null = project root).
+export async function updateFileDetails(input: { fileId: string; fileName?: string; folderId?: string | null }) {
+  const client = await pool.connect();
+
+  try {
+    await client.query("BEGIN");
+
+    const latest = await lockLatestVersion(client, input.fileId);
+    if (!latest) {
+      await client.query("ROLLBACK");
+      return null;
+    }
+
+    if (typeof input.folderId !== "undefined") {
+      await client.query(
+        `UPDATE files
+         SET folder_id = $2
+         WHERE document_id = $1`,
+        [latest.document_id, input.folderId]
+      );
+    }
+
+    const result = await client.query<FileRow>(
+      `UPDATE files
+       SET file_name = $2
+       WHERE id = $1
+       RETURNING
+         id,
+         project_id,
+         file_name,
+         file_type,
+         storage_type,
+         object_key,
+         external_url,
+         mime_type,
+         file_size::text,
+         checksum_sha256,
+         uploaded_by,
+         version,
+         document_id,
+         restored_from_version,
+         folder_id,
+         status,
+         scanned_at,
+         scan_result,
+         preview_status,
+         created_at`,
+      [latest.id, input.fileName ?? latest.file_name]
+    );
+
+    await client.query("COMMIT");
+    return result.rows[0];
+  } catch (error) {
+    await client.query("ROLLBACK");
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+// Deleting a file removes the whole document, i.e. every version in its chain.
 export async function deleteFile(fileId: string) {
   const result = await pool.query<{ id: string }>(
     `UPDATE files
      SET deleted_at = NOW()
-     WHERE id = $1
+     WHERE document_id = (SELECT document_id FROM files WHERE id = $1 AND deleted_at IS NULL)
        AND deleted_at IS NULL
      RETURNING id`,
     [fileId]
   );
 
-  return result.rowCount === 1;
+  return (result.rowCount ?? 0) > 0;
+}
+
+type FileVersionResult =
+  | { ok: true; file: FileRow }
+  | { ok: false; reason: "not_found" | "version_not_found" | "already_latest" | "version_rejected" };
+
+async function lockLatestVersion(client: PoolClient, fileId: string) {
+  const documentResult = await client.query<{ document_id: string }>(
+    `SELECT document_id
+     FROM files
+     WHERE id = $1
+       AND deleted_at IS NULL
+     LIMIT 1`,
+    [fileId]
+  );
+
+  const documentId = documentResult.rows[0]?.document_id;
+  if (!documentId) return null;
+
+  // Lock the whole chain so concurrent uploads cannot claim the same version number.
+  const chainResult = await client.query<FileRow>(
+    `SELECT
+       id,
+       project_id,
+       file_name,
+       file_type,
+       storage_type,
+       object_key,
+       external_url,
+       mime_type,
+       file_size::text,
+       checksum_sha256,
+       uploaded_by,
+       version,
+       document_id,
+       restored_from_version,
+       folder_id,
+       status,
+       scanned_at,
+       scan_result,
+       preview_status,
+       created_at
+     FROM files
+     WHERE document_id = $1
+     ORDER BY version DESC
+     FOR UPDATE`,
+    [documentId]
+  );
+
+  return chainResult.rows[0] ?? null;
+}
+
+async function insertNextVersion(
+  client: PoolClient,
+  latest: FileRow,
+  input: {
+    fileName: string;
+    storageType: StorageType;
+    objectKey: string;
+    externalUrl: string | null;
+    mimeType: string;
+    fileSize: number | string;
+    checksumSha256: string | null;
+    uploadedBy: string;
+    restoredFromVersion: number | null;
+    status: FileStatus;
+  }
+) {
+  const result = await client.query<FileRow>(
+    `INSERT INTO files (
+       project_id, file_name, file_type, storage_type, object_key, external_url,
+       mime_type, file_size, checksum_sha256, uploaded_by, version, document_id, restored_from_version,
+       folder_id, status, created_at
+     )
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8::bigint, $9, $10, $11, $12, $13, $14, $15, NOW())
+     RETURNING
+       id,
+       project_id,
+       file_name,
+       file_type,
+       storage_type,
+       object_key,
+       external_url,
+       mime_type,
+       file_size::text,
+       checksum_sha256,
+       uploaded_by,
+       version,
+       document_id,
+       restored_from_version,
+       folder_id,
+       status,
+       scanned_at,
+       scan_result,
+       preview_status,
+       created_at`,
+    [
+      latest.project_id,
+      input.fileName,
+      latest.file_type,
+      input.storageType,
+      input.objectKey,
+      input.externalUrl,
+      input.mimeType,
+      input.fileSize,
+      input.checksumSha256,
+      input.uploadedBy,
+      latest.version + 1,
+      latest.document_id,
+      input.restoredFromVersion,
+      latest.folder_id,
+      input.status
+    ]
+  );
+
+  return result.rows[0];
+}
+
+export async function listFileVersions(fileId: string) {
+  const result = await pool.query<FileRow & { uploaded_by_name: string | null }>(
+    `SELECT
+       f.id,
+       f.project_id,
+       f.file_name,
+       f.file_type,
+       f.storage_type,
+       f.object_key,
+       f.external_url,
+       f.mime_type,
+       f.file_size::text,
+       f.checksum_sha256,
+       f.uploaded_by,
+       u.name AS uploaded_by_name,
+       f.version,
+       f.document_id,
+       f.restored_from_version,
+       f.folder_id,
+       f.status,
+       f.scanned_at,
+       f.scan_result,
+       f.preview_status,
+       f.created_at
+     FROM files f
+     LEFT JOIN users u ON u.id = f.uploaded_by
+     WHERE f.document_id = (SELECT document_id FROM files WHERE id = $1)
+       AND f.deleted_at IS NULL
+     ORDER BY f.version DESC`,
+    [fileId]
+  );
+
+  return result.rows;
+}
+
+export async function createFileVersion(input: {
+  fileId: string;
+  fileName?: string;
+  storageType: StorageType;
+  objectKey: string;
+  externalUrl: string | null;
+  mimeType: string;
+  fileSize: number;
+  checksumSha256: string | null;
+  uploadedBy: string;
+  status: FileStatus;
+}): Promise<FileVersionResult> {
+  const client = await pool.connect();
+
+  try {
+    await client.query("BEGIN");
+
+    const latest = await lockLatestVersion(client, input.fileId);
+    if (!latest) {
+      await client.query("ROLLBACK");
+      return { ok: false, reason: "not_found" };
+    }
+
+    const file = await insertNextVersion(client, latest, {
+      fileName: input.fileName ?? latest.file_name,
+      storageType: input.storageType,
+      objectKey: input.objectKey,
+      externalUrl: input.externalUrl,
+      mimeType: input.mimeType,
+      fileSize: input.fileSize,
+      checksumSha256: input.checksumSha256,
+      uploadedBy: input.uploadedBy,
+      restoredFromVersion: null,
+      status: input.status
+    });
+
+    await client.query("COMMIT");
+    return { ok: true, file };
+  } catch (error) {
+    await client.query("ROLLBACK");
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+// Restoring never rewrites history: the chosen version is copied forward as a new latest version.
+export async function restoreFileVersion(input: {
+  fileId: string;
+  version: number;
+  restoredBy: string;
+}): Promise<FileVersionResult> {
+  const client = await pool.connect();
+
+  try {
+    await client.query("BEGIN");
+
+    const latest = await lockLatestVersion(client, input.fileId);
+    if (!latest) {
+      await client.query("ROLLBACK");
+      return { ok: false, reason: "not_found" };
+    }
+
+    if (latest.version === input.version) {
+      await client.query("ROLLBACK");
+      return { ok: false, reason: "already_latest" };
+    }
+
+    const targetResult = await client.query<FileRow>(
+      `SELECT
+         id,
+         project_id,
+         file_name,
+         file_type,
+         storage_type,
+         object_key,
+         external_url,
+         mime_type,
+         file_size::text,
+         checksum_sha256,
+         uploaded_by,
+         version,
+         document_id,
+         restored_from_version,
+         folder_id,
+         status,
+         scanned_at,
+         scan_result,
+         preview_status,
+         created_at
+       FROM files
+       WHERE document_id = $1
+         AND version = $2
+         AND deleted_at IS NULL
+       LIMIT 1`,
+      [latest.document_id, input.version]
+    );
+
+    const target = targetResult.rows[0];
+    if (!target) {
+      await client.query("ROLLBACK");
+      return { ok: false, reason: "version_not_found" };
+    }
+
+    // Rejected content has already been removed from storage, so there is nothing to restore.
+    if (target.status === "rejected") {
+      await client.query("ROLLBACK");
+      return { ok: false, reason: "version_rejected" };
+    }
+
+    const file = await insertNextVersion(client, latest, {
+      fileName: target.file_name,
+      storageType: target.storage_type,
+      objectKey: target.object_key,
+      externalUrl: target.external_url,
+      mimeType: target.mime_type,
+      fileSize: target.file_size,
+      checksumSha256: target.checksum_sha256,
+      uploadedBy: input.restoredBy,
+      restoredFromVersion: target.version,
+      status: target.status
+    });
+
+    await client.query("COMMIT");
+    return { ok: true, file };
+  } catch (error) {
+    await client.query("ROLLBACK");
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+// Only pending files are updated, so a scan that finishes late cannot overwrite an earlier verdict.
+export async function markFileScanned(
+  fileId: string,
+  input: { status: "available" | "rejected"; scanResult: string | null }
+) {
+  const result = await pool.query<FileRow>(
+    `UPDATE files
+     SET status = $2,
+         scanned_at = NOW(),
+         scan_result = $3
+     WHERE id = $1
+       AND status = 'pending_scan'
+       AND deleted_at IS NULL
+     RETURNING
+       id,
+       project_id,
+       file_name,
+       file_type,
+       storage_type,
+       object_key,
+       external_url,
+       mime_type,
+       file_size::text,
+       checksum_sha256,
+       uploaded_by,
+       version,
+       document_id,
+       restored_from_version,
+       folder_id,
+       status,
+       scanned_at,
+       scan_result,
+       preview_status,
+       created_at`,
+    [fileId, input.status, input.scanResult]
+  );
+
+  return result.rows[0] ?? null;
 }
@@ -0,0 +1,524 @@
+import type { PoolClient } from "pg";
+import { pool } from "../db/pool.js";
+import {
+  applyImportMapping,
+  IMPORT_FIELDS,
+  validateImportRow,
+  type ClientImportPayload,
+  type ImportEntity,
+  type ImportLookups,
+  type ImportMapping,
+  type ImportRowError,
+  type ProjectImportPayload,
+  type TaskImportPayload
+} from "../imports/import-entities.js";
+import type { SpreadsheetFormat, SpreadsheetRow } from "../imports/spreadsheet.js";
+import { insertClient } from "./clients.service.js";
+import { insertProject } from "./projects.service.js";
+import type { ProjectPhase } from "./tasks.service.js";
+import { insertTask } from "./tasks.service.js";
+
+export type ImportRunStatus = "uploaded" | "validated" | "committed" | "undone";
+type ImportRowStatus = "valid" | "invalid" | "created" | "undone";
+
+type ImportRunSummary = {
+  total: number;
+  valid: number;
+  invalid: number;
+  created: number;
+};
+
+type ImportRunRow = {
+  id: string;
+  entity: ImportEntity;
+  file_name: string;
+  file_format: SpreadsheetFormat;
+  status: ImportRunStatus;
+  headers: string[];
+  mapping: ImportMapping;
+  row_count: number;
+  summary: ImportRunSummary | null;
+  created_by: string | null;
+  created_by_name: string | null;
+  validated_at: Date | null;
+  committed_by: string | null;
+  committed_at: Date | null;
+  undone_by: string | null;
+  undone_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+};
+
+type ImportRunRowResult = {
+  row_number: number;
+  status: ImportRowStatus;
+  data: Record<string, unknown> | null;
+  errors: ImportRowError[];
+  entity_id: string | null;
+};
+
+type ValidatedRow = {
+  rowNumber: number;
+  result: ReturnType<typeof validateImportRow>;
+};
+
+type UndoBlocker = {
+  rowNumber: number;
+  entityId: string;
+  reason: string;
+};
+
+const IMPORT_RUN_COLUMNS = `
+  r.id,
+  r.entity,
+  r.file_name,
+  r.file_format,
+  r.status,
+  r.headers,
+  r.mapping,
+  r.row_count,
+  r.summary,
+  r.created_by,
+  creator.name AS created_by_name,
+  r.validated_at,
+  r.committed_by,
+  r.committed_at,
+  r.undone_by,
+  r.undone_at,
+  r.created_at,
+  r.updated_at`;
+
+const IMPORT_ROW_COLUMNS = "row_number, status, data, errors, entity_id";
+
+export async function createImportRun(input: {
+  entity: ImportEntity;
+  fileName: string;
+  format: SpreadsheetFormat;
+  headers: string[];
+  rows: SpreadsheetRow[];
+  mapping: ImportMapping;
+  createdBy: string;
+}) {
+  const result = await pool.query<{ id: string }>(
+    `INSERT INTO import_runs (
+       entity, file_name, file_format, status, headers, mapping, source_rows, row_count,
+       created_by, created_at, updated_at
+     )
+     VALUES ($1, $2, $3, 'uploaded', $4::jsonb, $5::jsonb, $6::jsonb, $7, $8, NOW(), NOW())
+     RETURNING id`,
+    [
+      input.entity,
+      input.fileName,
+      input.format,
+      JSON.stringify(input.headers),
+      JSON.stringify(input.mapping),
+      JSON.stringify(input.rows),
+      input.rows.length,
+      input.createdBy
+    ]
+  );
+
+  return getImportRun(result.rows[0].id) as Promise<ImportRunRow>;
+}
+
+export async function getImportRun(runId: string) {
+  const result = await pool.query<ImportRunRow>(
+    `SELECT ${IMPORT_RUN_COLUMNS}
+     FROM import_runs r
+     LEFT JOIN users creator ON creator.id = r.created_by
+     WHERE r.id = $1
+     LIMIT 1`,
+    [runId]
+  );
+
+  return result.rows[0] ?? null;
+}
+
+export async function listImportRuns(input?: { entity?: ImportEntity; limit?: number }) {
+  const result = await pool.query<ImportRunRow>(
+    `SELECT ${IMPORT_RUN_COLUMNS}
+     FROM import_runs r
+     LEFT JOIN users creator ON creator.id = r.created_by
+     WHERE ($1::import_entity IS NULL OR r.entity = $1::import_entity)
+     ORDER BY r.created_at DESC
+     LIMIT $2`,
+    [input?.entity ?? null, input?.limit ?? 50]
+  );
+
+  return result.rows;
+}
+
+export async function listImportRunRows(runId: string) {
+  const result = await pool.query<ImportRunRowResult>(
+    `SELECT ${IMPORT_ROW_COLUMNS}
+     FROM import_run_rows
+     WHERE import_run_id = $1
+     ORDER BY row_number ASC`,
+    [runId]
+  );
+
+  return result.rows;
+}
+
+// Upload rows are only used by the importer itself, so they never leave this module.
+async function loadSourceRows(client: PoolClient, runId: string) {
+  const result = await client.query<{ source_rows: SpreadsheetRow[] }>(
+    `SELECT source_rows FROM import_runs WHERE id = $1`,
+    [runId]
+  );
+
+  return result.rows[0]?.source_rows ?? [];
+}
+
+async function lockImportRun(client: PoolClient, runId: string) {
+  const result = await client.query<{
+    id: string;
+    entity: ImportEntity;
+    status: ImportRunStatus;
+    headers: string[];
+    mapping: ImportMapping;
+  }>(
+    `SELECT id, entity, status, headers, mapping
+     FROM import_runs
+     WHERE id = $1
+     FOR UPDATE`,
+    [runId]
+  );
+
+  return result.rows[0] ?? null;
+}
+
+function groupBy<T>(items: T[], key: (item: T) => string) {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const existing = groups.get(key(item));
+    if (existing) existing.push(item);
+    else groups.set(key(item), [item]);
+  }
+  return groups;
+}
+
+// Loaded once per validation pass rather than once per row.
+async function loadImportLookups(client: PoolClient): Promise<ImportLookups> {
+  const [clients, projects, staff] = await Promise.all([
+    client.query<{ id: string; name: string }>(
+      `SELECT id, name FROM clients WHERE deleted_at IS NULL`
+    ),
+    client.query<{ id: string; name: string; current_phase: ProjectPhase }>(
+      `SELECT id, name, current_phase FROM projects WHERE deleted_at IS NULL`
+    ),
+    client.query<{ id: string; email: string }>(
+      `SELECT id, email
+       FROM users
+       WHERE principal_type = 'staff'
+         AND is_active = TRUE
+         AND deleted_at IS NULL`
+    )
+  ]);
+
+  return {
+    clientIds: new Set(clients.rows.map((row) => row.id)),
+    clientIdsByName: new Map(
+      [...groupBy(clients.rows, (row) => row.name.toLowerCase())].map(([name, rows]) => [
+        name,
+        rows.map((row) => row.id)
+      ])
+    ),
+    projectsById: new Map(projects.rows.map((row) => [row.id, row])),
+    projectsByName: groupBy(projects.rows, (row) => row.name.toLowerCase()),
+    staffIdsByEmail: new Map(staff.rows.map((row) => [row.email.toLowerCase(), row.id]))
+  };
+}
+
+async function validateRows(
+  client: PoolClient,
+  input: { runId: string; entity: ImportEntity; mapping: ImportMapping }
+) {
+  const [sourceRows, lookups] = await Promise.all([loadSourceRows(client, input.runId), loadImportLookups(client)]);
+
+  return sourceRows.map<ValidatedRow>((row) => ({
+    rowNumber: row.rowNumber,
+    result: validateImportRow(input.entity, applyImportMapping(input.mapping, row.values), lookups)
+  }));
+}
+
+function summarize(rows: ValidatedRow[], created = 0): ImportRunSummary {
+  const valid = rows.filter((row) => row.result.ok).length;
+  return { total: rows.length, valid, invalid: rows.length - valid, created };
+}
+
+async function saveValidation(client: PoolClient, runId: string, mapping: ImportMapping, rows: ValidatedRow[]) {
+  await client.query(`DELETE FROM import_run_rows WHERE import_run_id = $1`, [runId]);
+
+  if (rows.length > 0) {
+    await client.query(
+      `INSERT INTO import_run_rows (import_run_id, row_number, status, data, errors)
+       SELECT $1, item.row_number, item.status::import_row_status, item.data, item.errors
+       FROM jsonb_to_recordset($2::jsonb) AS item(row_number INTEGER, status TEXT, data JSONB, errors JSONB)`,
+      [
+        runId,
+        JSON.stringify(
+          rows.map((row) => ({
+            row_number: row.rowNumber,
+            status: row.result.ok ? "valid" : "invalid",
+            data: row.result.ok ? row.result.payload : null,
+            errors: row.result.ok ? [] : row.result.errors
+          }))
+        )
+      ]
+    );
+  }
+
+  await client.query(
+    `UPDATE import_runs
+     SET status = 'validated', mapping = $2::jsonb, summary = $3::jsonb, validated_at = NOW(), updated_at = NOW()
+     WHERE id = $1`,
+    [runId, JSON.stringify(mapping), JSON.stringify(summarize(rows))]
+  );
+}
+
+// Headers must come from the uploaded file and every required field must be mapped.
+function checkMapping(entity: ImportEntity, headers: string[], mapping: ImportMapping) {
+  const errors: string[] = [];
+  const fields = IMPORT_FIELDS[entity];
+
+  for (const [field, header] of Object.entries(mapping)) {
+    if (!fields.some((item) => item.key === field)) {
+      errors.push(`Unknown field "${field}"`);
+    } else if (header && !headers.includes(header)) {
+      errors.push(`Column "${header}" is not in the file`);
+    }
+  }
+  for (const field of fields) {
+    if (field.required && !mapping[field.key]) {
+      errors.push(`${field.label} must be mapped to a column`);
+    }
+  }
+
+  return errors;
+}
+
+// Validates every row with the given mapping (or the stored one) and records a per-row report
+// without creating anything. Can be repeated until the run is committed.
+export async function dryRunImport(input: { runId: string; mapping?: ImportMapping }) {
+  const client = await pool.connect();
+
+  try {
+    await client.query("BEGIN");
+
+    const run = await lockImportRun(client, input.runId);
+    if (!run) {
+      await client.query("ROLLBACK");
+      return { ok: false as const, reason: "not_found" as const };
+    }
+    if (run.status !== "uploaded" && run.status !== "validated") {
+      await client.query("ROLLBACK");
+      return { ok: false as const, reason: "invalid_status" as const, status: run.status };
+    }
+
+    const mapping = input.mapping ?? run.mapping;
+    const mappingErrors = checkMapping(run.entity, run.headers, mapping);
+    if (mappingErrors.length > 0) {
+      await client.query("ROLLBACK");
+      return { ok: false as const, reason: "invalid_mapping" as const, errors: mappingErrors };
+    }
+
+    const rows = await validateRows(client, { runId: run.id, entity: run.entity, mapping });
+    await saveValidation(client, run.id, mapping, rows);
+
+    await client.query("COMMIT");
+    return { ok: true as const };
+  } catch (error) {
+    await client.query("ROLLBACK");
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+async function createEntity(client: PoolClient, entity: ImportEntity, payload: unknown, userId: string) {
+  if (entity === "clients") {
+    const created = await insertClient(client, payload as ClientImportPayload);
+    return created.id;
+  }
+  if (entity === "projects") {
+    const created = await insertProject(client, { ...(payload as ProjectImportPayload), createdBy: userId });
+    return created.id;
+  }
+  const created = await insertTask(client, { ...(payload as TaskImportPayload), createdBy: userId });
+  return created.id;
+}
+
+// Re-validates against current data and creates every row in one transaction. If any row fails,
+// nothing is created and the fresh report is stored instead.
+export async function commitImport(input: { runId: string; userId: string }) {
+  const client = await pool.connect();
+
+  try {
+    await client.query("BEGIN");
+
+    const run = await lockImportRun(client, input.runId);
+    if (!run) {
+      await client.query("ROLLBACK");
+      return { ok: false as const, reason: "not_found" as const };
+    }
+    if (run.status !== "validated") {
+      await client.query("ROLLBACK");
+      return { ok: false as const, reason: "invalid_status" as const, status: run.status };
+    }
+
+    const rows = await validateRows(client, { runId: run.id, entity: run.entity, mapping: run.mapping });
+    const summary = summarize(rows);
+    if (summary.invalid > 0) {
+      await saveValidation(client, run.id, run.mapping, rows);
+      await client.query("COMMIT");
+      return { ok: false as const, reason: "has_errors" as const, summary };
+    }
+
+    await client.query(`DELETE FROM import_run_rows WHERE import_run_id = $1`, [run.id]);
+    for (const row of rows) {
+      if (!row.result.ok) continue;
+      const entityId = await createEntity(client, run.entity, row.result.payload, input.userId);
+      await client.query(
+        `INSERT INTO import_run_rows (import_run_id, row_number, status, data, errors, entity_id)
+         VALUES ($1, $2, 'created', $3::jsonb, '[]'::jsonb, $4)`,
+        [run.id, row.rowNumber, JSON.stringify(row.result.payload), entityId]
+      );
+    }
+
+    await client.query(
+      `UPDATE import_runs
+       SET status = 'committed', summary = $2::jsonb, committed_by = $3, committed_at = NOW(), updated_at = NOW()
+       WHERE id = $1`,
+      [run.id, JSON.stringify(summarize(rows, rows.length)), input.userId]
+    );
+
+    await client.query("COMMIT");
+    return { ok: true as const, entity: run.entity, created: rows.length };
+  } catch (error) {
+    await client.query("ROLLBACK");
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+// Records created by the import that other, non-imported records now depend on. Undoing would
+// leave those dangling, so any blocker refuses the whole undo.
+async function findUndoBlockers(client: PoolClient, runId: string, entity: ImportEntity) {
+  if (entity === "tasks") return [];
+
+  const query =
+    entity === "clients"
+      ? `SELECT r.row_number, r.entity_id, blocker.reason
+         FROM import_run_rows r
+         CROSS JOIN LATERAL (
+           SELECT 'has projects' AS reason
+           WHERE EXISTS (SELECT 1 FROM projects p WHERE p.client_id = r.entity_id AND p.deleted_at IS NULL)
+           UNION ALL
+           SELECT 'has contacts'
+           WHERE EXISTS (SELECT 1 FROM client_contacts c WHERE c.client_id = r.entity_id AND c.deleted_at IS NULL)
+           UNION ALL
+           SELECT 'has portal accounts'
+           WHERE EXISTS (SELECT 1 FROM users u WHERE u.client_id = r.entity_id AND u.deleted_at IS NULL)
+         ) blocker
+         WHERE r.import_run_id = $1
+           AND r.status = 'created'`
+      : `SELECT r.row_number, r.entity_id, blocker.reason
+         FROM import_run_rows r
+         CROSS JOIN LATERAL (
+           SELECT 'has tasks' AS reason
+           WHERE EXISTS (SELECT 1 FROM tasks t WHERE t.project_id = r.entity_id AND t.deleted_at IS NULL)
+           UNION ALL
+           SELECT 'has files'
+           WHERE EXISTS (SELECT 1 FROM files f WHERE f.project_id = r.entity_id AND f.deleted_at IS NULL)
+         ) blocker
+         WHERE r.import_run_id = $1
+           AND r.status = 'created'`;
+
+  const result = await client.query<{ row_number: number; entity_id: string; reason: string }>(query, [runId]);
+  return result.rows.map<UndoBlocker>((row) => ({
+    rowNumber: row.row_number,
+    entityId: row.entity_id,
+    reason: row.reason
+  }));
+}
+
+const UNDO_TABLES: Record<ImportEntity, string> = {
+  clients: "clients",
+  projects: "projects",
+  tasks: "tasks"
+};
+
+// Soft-deletes everything a committed import created. Records already deleted by hand are skipped.
+export async function undoImport(input: { runId: string; userId: string }) {
+  const client = await pool.connect();
+
+  try {
+    await client.query("BEGIN");
+
+    const run = await lockImportRun(client, input.runId);
+    if (!run) {
+      await client.query("ROLLBACK");
+      return { ok: false as const, reason: "not_found" as const };
+    }
+    if (run.status !== "committed") {
+      await client.query("ROLLBACK");
+      return { ok: false as const, reason: "invalid_status" as const, status: run.status };
+    }
+
+    const blockers = await findUndoBlockers(client, run.id, run.entity);
+    if (blockers.length > 0) {
+      await client.query("ROLLBACK");
+      return { ok: false as const, reason: "blocked" as const, blockers };
+    }
+
+    const removed = await client.query(
+      `UPDATE ${UNDO_TABLES[run.entity]}
+       SET deleted_at = NOW(), updated_at = NOW()
+       WHERE deleted_at IS NULL
+         AND id IN (
+           SELECT entity_id
+           FROM import_run_rows
+           WHERE import_run_id = $1
+             AND status = 'created'
+         )`,
+      [run.id]
+    );
+
+    if (run.entity === "projects") {
+      await client.query(
+        `DELETE FROM project_team
+         WHERE project_id IN (
+           SELECT entity_id
+           FROM import_run_rows
+           WHERE import_run_id = $1
+             AND status = 'created'
+         )`,
+        [run.id]
+      );
+    }
+
+    await client.query(
+      `UPDATE import_run_rows
+       SET status = 'undone'
+       WHERE import_run_id = $1
+         AND status = 'created'`,
+      [run.id]
+    );
+    await client.query(
+      `UPDATE import_runs
+       SET status = 'undone', undone_by = $2, undone_at = NOW(), updated_at = NOW()
+       WHERE id = $1`,
+      [run.id, input.userId]
+    );
+
+    await client.query("COMMIT");
+    return { ok: true as const, entity: run.entity, removed: removed.rowCount ?? 0 };
+  } catch (error) {
+    await client.query("ROLLBACK");
+    throw error;
+  } finally {
+    client.release();
+  }
+}
@@ -0,0 +1,268 @@
+import { randomBytes } from "node:crypto";
+import bcrypt from "bcryptjs";
+import { pool } from "../db/pool.js";
+import { hashToken } from "../utils/tokens.js";
+import { buildWebAppUrl, sendMail } from "./mail.service.js";
+
+export type InvitationRole = "manager" | "member" | "viewer";
+
+type InvitationRow = {
+  id: string;
+  email: string;
+  project_id: string | null;
+  project_name: string | null;
+  project_role: InvitationRole | null;
+  invited_by: string | null;
+  invited_by_name: string | null;
+  expires_at: Date;
+  accepted_at: Date | null;
+  accepted_user_id: string | null;
+  revoked_at: Date | null;
+  created_at: Date;
+};
+
+const INVITATION_TTL_DAYS = 7;
+
+const INVITATION_SELECT = `
+  SELECT
+    i.id,
+    i.email,
+    i.project_id,
+    p.name AS project_name,
+    i.project_role,
+    i.invited_by,
+    inviter.name AS invited_by_name,
+    i.expires_at,
+    i.accepted_at,
+    i.accepted_user_id,
+    i.revoked_at,
+    i.created_at
+  FROM user_invitations i
+  LEFT JOIN projects p ON p.id = i.project_id
+  LEFT JOIN users inviter ON inviter.id = i.invited_by`;
+
+const PENDING_CONDITION = `i.accepted_at IS NULL
+     AND i.revoked_at IS NULL
+     AND i.expires_at > NOW()`;
+
+export async function getSignupPolicy() {
+  const result = await pool.query<{ invite_only: boolean; updated_by: string | null; updated_at: Date }>(
+    `SELECT invite_only, updated_by, updated_at FROM workspace_settings WHERE id`
+  );
+  const row = result.rows[0];
+  return {
+    inviteOnly: row?.invite_only ?? false,
+    updatedBy: row?.updated_by ?? null,
+    updatedAt: row?.updated_at ?? null
+  };
+}
+
+export async function setSignupPolicy(input: { inviteOnly: boolean; userId: string }) {
+  await pool.query(
+    `INSERT INTO workspace_settings (id, invite_only, updated_by, updated_at)
+     VALUES (TRUE, $1, $2, NOW())
+     ON CONFLICT (id)
+     DO UPDATE SET invite_only = EXCLUDED.invite_only,
+                   updated_by = EXCLUDED.updated_by,
+                   updated_at = NOW()`,
+    [input.inviteOnly, input.userId]
+  );
+  return getSignupPolicy();
+}
+
+export async function getInvitationById(invitationId: string) {
+  const result = await pool.query<InvitationRow>(`${INVITATION_SELECT} WHERE i.id = $1`, [invitationId]);
+  return result.rows[0] ?? null;
+}
+
+// Admins see every pending invitation; everyone else sees the ones they sent.
+export async function listPendingInvitations(input: { userId: string; isAdmin: boolean; projectId?: string }) {
+  const params: unknown[] = [];
+  const conditions = [PENDING_CONDITION];
+  if (!input.isAdmin) {
+    params.push(input.userId);
+    conditions.push(`i.invited_by = $${params.length}`);
+  }
+  if (input.projectId) {
+    params.push(input.projectId);
+    conditions.push(`i.project_id = $${params.length}`);
+  }
+
+  const result = await pool.query<InvitationRow>(
+    `${INVITATION_SELECT}
+     WHERE ${conditions.join(" AND ")}
+     ORDER BY i.created_at DESC, i.id`,
+    params
+  );
+  return result.rows;
+}
+
+// Inviting the same address to the same project again replaces the earlier pending invitation, so only
+// the newest link works.
+export async function createInvitation(input: {
+  email: string;
+  projectId: string | null;
+  role: InvitationRole | null;
+  invitedBy: { id: string; name: string };
+}) {
+  const existingUser = await pool.query(`SELECT 1 FROM users WHERE email = $1 LIMIT 1`, [input.email]);
+  if ((existingUser.rowCount ?? 0) > 0) {
+    return { ok: false as const, reason: "already_registered" as const };
+  }
+
+  let projectName: string | null = null;
+  if (input.projectId) {
+    const project = await pool.query<{ name: string }>(
+      `SELECT name FROM projects WHERE id = $1 AND deleted_at IS NULL LIMIT 1`,
+      [input.projectId]
+    );
+    if (!project.rows[0]) {
+      return { ok: false as const, reason: "project_not_found" as const };
+    }
+    projectName = project.rows[0].name;
+  }
+
+  const token = randomBytes(32).toString("base64url");
+  const expiresAt = new Date(Date.now() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000);
+  const inserted = await pool.query<{ id: string }>(
+    `WITH replaced AS (
+       UPDATE user_invitations
+       SET revoked_at = NOW(), revoked_by = $5
+       WHERE email = $1
+         AND project_id IS NOT DISTINCT FROM $3
+         AND accepted_at IS NULL
+         AND revoked_at IS NULL
+     )
+     INSERT INTO user_invitations (email, token_hash, project_id, project_role, invited_by, expires_at)
+     VALUES ($1, $2, $3, $4, $5, $6)
+     RETURNING id`,
+    [input.email, hashToken(token), input.projectId, input.projectId ? input.role : null, input.invitedBy.id, expiresAt]
+  );
+  const invitation = (await getInvitationById(inserted.rows[0].id)) as InvitationRow;
+
+  let delivered = true;
+  try {
+    await sendMail({
+      to: input.email,
+      subject: `${input.invitedBy.name} invited you to Adfix PM`,
+      text: [
+        "Hi,",
+        "",
+        projectName
+          ? `${input.invitedBy.name} invited you to join the project "${projectName}" on Adfix PM as ${input.role}.`
+          : `${input.invitedBy.name} invited you to join Adfix PM.`,
+        "",
+        "To create your account, open:",
+        "",
+        buildWebAppUrl("accept-invite", { token }),
+        "",
+        `The invitation expires in ${INVITATION_TTL_DAYS} days.`
+      ].join("\n")
+    });
+  } catch (error) {
+    console.error(`Invitation email ${invitation.id} could not be sent:`, error);
+    delivered = false;
+  }
+
+  return { ok: true as const, invitation, delivered };
+}
+
+export async function revokeInvitation(input: { invitationId: string; userId: string }) {
+  const result = await pool.query(
+    `UPDATE user_invitations
+     SET revoked_at = NOW(), revoked_by = $2
+     WHERE id = $1
+       AND accepted_at IS NULL
+       AND revoked_at IS NULL`,
+    [input.invitationId, input.userId]
+  );
+  return (result.rowCount ?? 0) > 0;
+}
+
+// What the accept page shows before anyone types a password.
+export async function lookupInvitation(token: string) {
+  const result = await pool.query<InvitationRow>(
+    `${INVITATION_SELECT}
+     WHERE i.token_hash = $1
+       AND ${PENDING_CONDITION}`,
+    [hashToken(token)]
+  );
+  return result.rows[0] ?? null;
+}
+
+// Creates the account for the invited address and puts it on the invited project team, all or nothing.
+// The invitation link proves the address, so the account starts verified.
+export async function acceptInvitation(input: { token: string; name: string; password: string }) {
+  const passwordHash = await bcrypt.hash(input.password, 12);
+
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+    const invitationQuery = await client.query<{
+      id: string;
+      email: string;
+      project_id: string | null;
+      project_role: InvitationRole | null;
+      invited_by: string | null;
+    }>(
+      `SELECT i.id, i.email, i.project_id, i.project_role, i.invited_by
+       FROM user_invitations i
+       WHERE i.token_hash = $1
+         AND ${PENDING_CONDITION}
+       FOR UPDATE`,
+      [hashToken(input.token)]
+    );
+    const invitation = invitationQuery.rows[0];
+    if (!invitation) {
+      await client.query("ROLLBACK");
+      return { ok: false as const, reason: "invalid_token" as const };
+    }
+
+    const existingUser = await client.query(`SELECT 1 FROM users WHERE email = $1 LIMIT 1`, [invitation.email]);
+    if ((existingUser.rowCount ?? 0) > 0) {
+      await client.query("ROLLBACK");
+      return { ok: false as const, reason: "email_taken" as const };
+    }
+
+    const createdUser = await client.query<{ id: string; email: string; name: string; is_admin: boolean }>(
+      `INSERT INTO users (email, name, password_hash, is_active, is_admin, email_verified_at, created_at, updated_at)
+       VALUES ($1, $2, $3, TRUE, FALSE, NOW(), NOW(), NOW())
+       RETURNING id, email, name, is_admin`,
+      [invitation.email, input.name, passwordHash]
+    );
+    const user = createdUser.rows[0];
+
+    // A project archived since the invitation was sent is skipped rather than failing the signup.
+    let joinedProject = false;
+    if (invitation.project_id && invitation.project_role) {
+      const joined = await client.query(
+        `INSERT INTO project_team (project_id, user_id, role, created_at)
+         SELECT id, $2, $3, NOW()
+         FROM projects
+         WHERE id = $1
+           AND deleted_at IS NULL
+         ON CONFLICT (project_id, user_id) DO UPDATE SET role = EXCLUDED.role`,
+        [invitation.project_id, user.id, invitation.project_role]
+      );
+      joinedProject = (joined.rowCount ?? 0) > 0;
+    }
+
+    await client.query(
+      `UPDATE user_invitations
+       SET accepted_at = NOW(), accepted_user_id = $2
+       WHERE id = $1`,
+      [invitation.id, user.id]
+    );
+    await client.query("COMMIT");
+
+    return { ok: true as const, user, invitation, joinedProject };
+  } catch (error) {
+    await client.query("ROLLBACK");
+    if (typeof error === "object" && error !== null && (error as { code?: string }).code === "23505") {
+      return { ok: false as const, reason: "email_taken" as const };
+    }
+    throw error;
+  } finally {
+    client.release();
+  }
+}
@@ -0,0 +1,42 @@
+import { env } from "../config/env.js";
+import type { MailTransport } from "../mail/mail-transport.js";
+import { createOutboxTransport } from "../mail/outbox-transport.js";
+import { createSmtpTransport } from "../mail/smtp-transport.js";
+
+let transport: MailTransport | null = null;
+
+export function getMailTransport() {
+  if (!transport) {
+    transport =
+      env.MAIL_TRANSPORT === "smtp"
+        ? createSmtpTransport({
+            host: env.SMTP_HOST,
+            port: env.SMTP_PORT,
+            secure: env.SMTP_SECURE,
+            requireTls: env.SMTP_REQUIRE_TLS,
+            username: env.SMTP_USERNAME,
+            password: env.SMTP_PASSWORD,
+            timeoutMs: env.SMTP_TIMEOUT_MS
+          })
+        : createOutboxTransport({ directory: env.MAIL_OUTBOX_DIR });
+  }
+  return transport;
+}
+
+// Replaces the configured transport, e.g. with an outbox the tests can read.
+export function setMailTransport(next: MailTransport | null) {
+  transport = next;
+}
+
+export async function sendMail(input: { to: string; subject: string; text: string }) {
+  await getMailTransport().send({ from: env.MAIL_FROM, ...input });
+}
+
+// Links in emails point at the web app, which calls the API with the token.
+export function buildWebAppUrl(pathname: string, params: Record<string, string>) {
+  const url = new URL(pathname, `${env.WEB_APP_URL.replace(/\/+$/, "")}/`);
+  for (const [key, value] of Object.entries(params)) {
+    url.searchParams.set(key, value);
+  }
+  return url.toString();
+}
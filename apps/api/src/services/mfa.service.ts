@@ -0,0 +1,255 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "node:crypto";
+import type { PoolClient } from "pg";
+import { env } from "../config/env.js";
+import { pool } from "../db/pool.js";
+import { hashToken } from "../utils/tokens.js";
+import { buildOtpauthUri, generateTotpSecret, verifyTotpCode } from "../utils/totp.js";
+
+type MfaFactorRow = {
+  user_id: string;
+  secret_ciphertext: string;
+  enabled_at: Date | null;
+  last_used_step: string | null;
+};
+
+const RECOVERY_CODE_COUNT = 10;
+const RECOVERY_CODE_ALPHABET = "abcdefghjkmnpqrstuvwxyz23456789";
+
+function encryptionKey() {
+  return createHash("sha256")
+    .update(env.MFA_ENCRYPTION_SECRET ?? env.JWT_ACCESS_SECRET)
+    .digest();
+}
+
+// AES-256-GCM; stored as `iv.tag.ciphertext`, each base64url.
+function encryptSecret(secret: string) {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", encryptionKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(secret, "utf8"), cipher.final()]);
+  return [iv, cipher.getAuthTag(), ciphertext].map((part) => part.toString("base64url")).join(".");
+}
+
+function decryptSecret(stored: string) {
+  const [iv, tag, ciphertext] = stored.split(".").map((part) => Buffer.from(part, "base64url"));
+  const decipher = createDecipheriv("aes-256-gcm", encryptionKey(), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString("utf8");
+}
+
+// Codes are shown once as `xxxxx-xxxxx`; people retype them with or without the dash, in any case.
+function normalizeRecoveryCode(code: string) {
+  return code.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+function generateRecoveryCode() {
+  const bytes = randomBytes(10);
+  const chars = [...bytes].map((byte) => RECOVERY_CODE_ALPHABET[byte % RECOVERY_CODE_ALPHABET.length]);
+  return `${chars.slice(0, 5).join("")}-${chars.slice(5).join("")}`;
+}
+
+async function replaceRecoveryCodes(client: PoolClient, userId: string) {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => generateRecoveryCode());
+  await client.query(`DELETE FROM user_mfa_recovery_codes WHERE user_id = $1`, [userId]);
+  await client.query(
+    `INSERT INTO user_mfa_recovery_codes (user_id, code_hash)
+     SELECT $1, code_hash FROM unnest($2::text[]) AS code_hash`,
+    [userId, codes.map((code) => hashToken(normalizeRecoveryCode(code)))]
+  );
+  return codes;
+}
+
+async function getFactor(userId: string) {
+  const result = await pool.query<MfaFactorRow>(
+    `SELECT user_id, secret_ciphertext, enabled_at, last_used_step
+     FROM user_mfa_factors
+     WHERE user_id = $1`,
+    [userId]
+  );
+  return result.rows[0] ?? null;
+}
+
+// Accepts a code for the factor only if its time step is newer than the last one used, so a code
+// seen over someone's shoulder cannot be replayed within its 30 seconds.
+async function consumeTotpCode(factor: MfaFactorRow, code: string) {
+  const step = verifyTotpCode(decryptSecret(factor.secret_ciphertext), code);
+  if (step === null) return false;
+
+  const result = await pool.query(
+    `UPDATE user_mfa_factors
+     SET last_used_step = $2, updated_at = NOW()
+     WHERE user_id = $1
+       AND (last_used_step IS NULL OR last_used_step < $2)`,
+    [factor.user_id, step]
+  );
+  return (result.rowCount ?? 0) > 0;
+}
+
+export async function getMfaPolicy() {
+  const result = await pool.query<{ mfa_required: boolean; updated_by: string | null; updated_at: Date }>(
+    `SELECT mfa_required, updated_by, updated_at FROM workspace_settings WHERE id`
+  );
+  const row = result.rows[0];
+  return {
+    required: row?.mfa_required ?? false,
+    updatedBy: row?.updated_by ?? null,
+    updatedAt: row?.updated_at ?? null
+  };
+}
+
+export async function setMfaPolicy(input: { required: boolean; userId: string }) {
+  await pool.query(
+    `INSERT INTO workspace_settings (id, mfa_required, updated_by, updated_at)
+     VALUES (TRUE, $1, $2, NOW())
+     ON CONFLICT (id)
+     DO UPDATE SET mfa_required = EXCLUDED.mfa_required,
+                   updated_by = EXCLUDED.updated_by,
+                   updated_at = NOW()`,
+    [input.required, input.userId]
+  );
+  return getMfaPolicy();
+}
+
+export async function isMfaEnabled(userId: string) {
+  const factor = await getFactor(userId);
+  return Boolean(factor?.enabled_at);
+}
+
+export async function getMfaStatus(userId: string) {
+  const [factor, policy, remaining] = await Promise.all([
+    getFactor(userId),
+    getMfaPolicy(),
+    pool.query<{ count: string }>(
+      `SELECT COUNT(*)::text AS count
+       FROM user_mfa_recovery_codes
+       WHERE user_id = $1
+         AND used_at IS NULL`,
+      [userId]
+    )
+  ]);
+
+  return {
+    enabled: Boolean(factor?.enabled_at),
+    pending: Boolean(factor && !factor.enabled_at),
+    enabledAt: factor?.enabled_at ?? null,
+    recoveryCodesRemaining: factor?.enabled_at ? Number(remaining.rows[0]?.count ?? 0) : 0,
+    required: policy.required
+  };
+}
+
+// Starts (or restarts) enrollment with a fresh secret. An enabled factor has to be disabled or reset
+// first, so a stolen session cannot silently swap someone's authenticator.
+export async function startMfaEnrollment(input: { userId: string; email: string }) {
+  const existing = await getFactor(input.userId);
+  if (existing?.enabled_at) {
+    return { ok: false as const, reason: "already_enabled" as const };
+  }
+
+  const secret = generateTotpSecret();
+  await pool.query(
+    `INSERT INTO user_mfa_factors (user_id, secret_ciphertext)
+     VALUES ($1, $2)
+     ON CONFLICT (user_id)
+     DO UPDATE SET secret_ciphertext = EXCLUDED.secret_ciphertext,
+                   last_used_step = NULL,
+                   created_at = NOW(),
+                   updated_at = NOW()`,
+    [input.userId, encryptSecret(secret)]
+  );
+
+  return {
+    ok: true as const,
+    secret,
+    otpauthUri: buildOtpauthUri({ secret, accountName: input.email, issuer: env.MFA_ISSUER })
+  };
+}
+
+// The first good code turns the pending factor on and issues the recovery codes, shown only now.
+export async function confirmMfaEnrollment(input: { userId: string; code: string }) {
+  const factor = await getFactor(input.userId);
+  if (!factor) {
+    return { ok: false as const, reason: "not_started" as const };
+  }
+  if (factor.enabled_at) {
+    return { ok: false as const, reason: "already_enabled" as const };
+  }
+  if (!(await consumeTotpCode(factor, input.code))) {
+    return { ok: false as const, reason: "invalid_code" as const };
+  }
+
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+    await client.query(
+      `UPDATE user_mfa_factors SET enabled_at = NOW(), updated_at = NOW() WHERE user_id = $1`,
+      [input.userId]
+    );
+    const recoveryCodes = await replaceRecoveryCodes(client, input.userId);
+    await client.query("COMMIT");
+    return { ok: true as const, recoveryCodes };
+  } catch (error) {
+    await client.query("ROLLBACK");
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+// Second-factor check for an enabled factor: an authenticator code, or one unused recovery code.
+export async function verifyMfaCode(input: { userId: string; code?: string; recoveryCode?: string }) {
+  const factor = await getFactor(input.userId);
+  if (!factor?.enabled_at) {
+    return { ok: false as const, reason: "not_enabled" as const };
+  }
+
+  if (input.code && (await consumeTotpCode(factor, input.code))) {
+    return { ok: true as const, method: "totp" as const };
+  }
+
+  if (input.recoveryCode) {
+    const used = await pool.query(
+      `UPDATE user_mfa_recovery_codes
+       SET used_at = NOW()
+       WHERE user_id = $1
+         AND code_hash = $2
+         AND used_at IS NULL`,
+      [input.userId, hashToken(normalizeRecoveryCode(input.recoveryCode))]
+    );
+    if ((used.rowCount ?? 0) > 0) {
+      return { ok: true as const, method: "recovery_code" as const };
+    }
+  }
+
+  return { ok: false as const, reason: "invalid_code" as const };
+}
+
+export async function regenerateRecoveryCodes(userId: string) {
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+    const recoveryCodes = await replaceRecoveryCodes(client, userId);
+    await client.query("COMMIT");
+    return recoveryCodes;
+  } catch (error) {
+    await client.query("ROLLBACK");
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+// Used both when people turn MFA off themselves and when an admin resets a locked-out account.
+export async function removeMfaFactor(userId: string) {
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+    const removed = await client.query(`DELETE FROM user_mfa_factors WHERE user_id = $1`, [userId]);
+    await client.query(`DELETE FROM user_mfa_recovery_codes WHERE user_id = $1`, [userId]);
+    await client.query("COMMIT");
+    return (removed.rowCount ?? 0) > 0;
+  } catch (error) {
+    await client.query("ROLLBACK");
+    throw error;
+  } finally {
+    client.release();
+  }
+}
@@ -0,0 +1,279 @@
+import { randomBytes } from "node:crypto";
+import bcrypt from "bcryptjs";
+import { env } from "../config/env.js";
+import { pool } from "../db/pool.js";
+import { createOidcClient, createPkcePair, type OidcClient, type OidcIdTokenClaims } from "../oidc/oidc-client.js";
+import type { PrincipalType } from "../types/auth.js";
+import { hashToken } from "../utils/tokens.js";
+import { ACTIVE_USER_CONDITION, loginWithExternalIdentity } from "./auth.service.js";
+import { buildWebAppUrl } from "./mail.service.js";
+
+export type OidcProvider = {
+  name: string;
+  client: OidcClient;
+  // Email domains whose people get an account on first sign-in; empty means only existing users.
+  autoProvisionDomains: string[];
+};
+
+type IdentityUserRow = {
+  id: string;
+  email: string;
+  principal_type: PrincipalType;
+  is_usable: boolean;
+};
+
+const LOGIN_ATTEMPT_TTL_MINUTES = 10;
+
+let provider: OidcProvider | null | undefined;
+
+export function getOidcProvider() {
+  if (provider === undefined) {
+    provider =
+      env.OIDC_ISSUER && env.OIDC_CLIENT_ID
+        ? {
+            name: env.OIDC_PROVIDER_NAME,
+            client: createOidcClient({
+              issuer: env.OIDC_ISSUER,
+              clientId: env.OIDC_CLIENT_ID,
+              clientSecret: env.OIDC_CLIENT_SECRET,
+              redirectUri: env.OIDC_REDIRECT_URI ?? buildWebAppUrl("auth/oidc/callback", {}),
+              scopes: env.OIDC_SCOPES.split(/\s+/).filter(Boolean),
+              timeoutMs: env.OIDC_TIMEOUT_MS
+            }),
+            autoProvisionDomains: env.OIDC_AUTO_PROVISION_DOMAINS.split(",")
+              .map((domain) => domain.trim().toLowerCase())
+              .filter(Boolean)
+          }
+        : null;
+  }
+  return provider;
+}
+
+// Replaces the configured provider, e.g. with one pointing at the mock provider; `null` goes back to
+// the environment settings.
+export function setOidcProvider(next: OidcProvider | null) {
+  provider = next ?? undefined;
+}
+
+export function getOidcStatus() {
+  const current = getOidcProvider();
+  return { enabled: Boolean(current), name: current?.name ?? null };
+}
+
+export async function startOidcLogin() {
+  const current = getOidcProvider();
+  if (!current) {
+    return { ok: false as const, reason: "not_configured" as const };
+  }
+
+  const state = randomBytes(32).toString("base64url");
+  const nonce = randomBytes(24).toString("base64url");
+  const loginSecret = randomBytes(32).toString("base64url");
+  const { codeVerifier, codeChallenge } = createPkcePair();
+  let authorizationUrl: string;
+  try {
+    authorizationUrl = await current.client.buildAuthorizationUrl({ state, nonce, codeChallenge });
+  } catch (error) {
+    console.error("OIDC login could not be started:", error);
+    return { ok: false as const, reason: "provider_error" as const };
+  }
+
+  await pool.query(`DELETE FROM oidc_login_attempts WHERE expires_at <= NOW()`);
+  await pool.query(
+    `INSERT INTO oidc_login_attempts (state_hash, issuer, code_verifier, nonce, login_secret_hash, expires_at)
+     VALUES ($1, $2, $3, $4, $5, $6)`,
+    [
+      hashToken(state),
+      current.client.issuer,
+      codeVerifier,
+      nonce,
+      hashToken(loginSecret),
+      new Date(Date.now() + LOGIN_ATTEMPT_TTL_MINUTES * 60 * 1000)
+    ]
+  );
+  // The secret stays with the browser that started the login; a code and state redeemed anywhere else
+  // are refused, so nobody can finish their own login in someone else's browser.
+  return { ok: true as const, authorizationUrl, loginSecret };
+}
+
+async function findIdentityUser(condition: string, value: string) {
+  const result = await pool.query<IdentityUserRow>(
+    `SELECT id, email, principal_type, (${ACTIVE_USER_CONDITION}) AS is_usable
+     FROM users
+     WHERE ${condition}
+       AND deleted_at IS NULL
+     LIMIT 1`,
+    [value]
+  );
+  return result.rows[0] ?? null;
+}
+
+async function provisionUser(input: { email: string; name: string; issuer: string; subject: string }) {
+  // SSO accounts get a random password nobody knows; a password reset can set a real one later.
+  const passwordHash = await bcrypt.hash(randomBytes(32).toString("base64url"), 12);
+
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+    const created = await client.query<{ id: string }>(
+      `INSERT INTO users (email, name, password_hash, is_active, is_admin, email_verified_at, created_at, updated_at)
+       VALUES ($1, $2, $3, TRUE, FALSE, NOW(), NOW(), NOW())
+       ON CONFLICT (email) DO NOTHING
+       RETURNING id`,
+      [input.email, input.name, passwordHash]
+    );
+    const userId = created.rows[0]?.id;
+    if (userId) {
+      await client.query(
+        `INSERT INTO user_identities (user_id, issuer, subject, email, last_login_at)
+         VALUES ($1, $2, $3, $4, NOW())`,
+        [userId, input.issuer, input.subject, input.email]
+      );
+    }
+    await client.query("COMMIT");
+    return userId ?? null;
+  } catch (error) {
+    await client.query("ROLLBACK");
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+// Finds the local account for a verified ID token: the identity linked before, else the staff user with
+// the same verified email (which links it), else a new account when the email domain is allowed.
+async function resolveIdentity(current: OidcProvider, claims: OidcIdTokenClaims) {
+  const linked = await pool.query<{ user_id: string }>(
+    `UPDATE user_identities
+     SET last_login_at = NOW(), email = COALESCE($3, email)
+     WHERE issuer = $1
+       AND subject = $2
+     RETURNING user_id`,
+    [claims.iss, claims.sub, claims.email ?? null]
+  );
+  if (linked.rows[0]) {
+    const user = await findIdentityUser("id = $1", linked.rows[0].user_id);
+    if (!user?.is_usable || user.principal_type !== "staff") {
+      return { ok: false as const, reason: "account_disabled" as const };
+    }
+    return { ok: true as const, userId: user.id, email: user.email, linked: false, provisioned: false };
+  }
+
+  // Providers differ on whether email_verified is a boolean or a string.
+  const email = claims.email?.trim();
+  const emailVerified = claims.email_verified === true || claims.email_verified === "true";
+  if (!email || !emailVerified) {
+    return { ok: false as const, reason: "email_unverified" as const };
+  }
+
+  for (let attempt = 0; attempt < 2; attempt += 1) {
+    const existing = await findIdentityUser("email = $1", email);
+    if (existing) {
+      if (!existing.is_usable || existing.principal_type !== "staff") {
+        return { ok: false as const, reason: "account_disabled" as const };
+      }
+      await pool.query(
+        `INSERT INTO user_identities (user_id, issuer, subject, email, last_login_at)
+         VALUES ($1, $2, $3, $4, NOW())
+         ON CONFLICT (issuer, subject) DO NOTHING`,
+        [existing.id, claims.iss, claims.sub, email]
+      );
+      // The provider vouched for the address, so it counts as verified here too.
+      await pool.query(
+        `UPDATE users
+         SET email_verified_at = COALESCE(email_verified_at, NOW())
+         WHERE id = $1`,
+        [existing.id]
+      );
+      return { ok: true as const, userId: existing.id, email: existing.email, linked: true, provisioned: false };
+    }
+
+    const domain = email.split("@").pop()?.toLowerCase() ?? "";
+    if (!current.autoProvisionDomains.includes(domain)) {
+      return { ok: false as const, reason: "no_account" as const };
+    }
+    const userId = await provisionUser({
+      email,
+      name: (claims.name?.trim() || email.split("@")[0]).slice(0, 255),
+      issuer: claims.iss,
+      subject: claims.sub
+    });
+    if (userId) {
+      return { ok: true as const, userId, email, linked: true, provisioned: true };
+    }
+    // Someone created the account in the meantime; link to it on the next pass.
+  }
+  return { ok: false as const, reason: "no_account" as const };
+}
+
+// Finishes the redirect back from the provider. The state is single-use and has to match a login this
+// API started, presented with that login's secret; the code is exchanged with its PKCE verifier and the
+// ID token checked before anything is looked up.
+export async function completeOidcLogin(input: {
+  code: string;
+  state: string;
+  loginSecret: string;
+  userAgent?: string;
+  ipAddress?: string;
+}) {
+  const current = getOidcProvider();
+  if (!current) {
+    return { ok: false as const, reason: "not_configured" as const };
+  }
+
+  const attemptQuery = await pool.query<{
+    issuer: string;
+    code_verifier: string;
+    nonce: string;
+    login_secret_hash: string;
+  }>(
+    `DELETE FROM oidc_login_attempts
+     WHERE state_hash = $1
+       AND expires_at > NOW()
+     RETURNING issuer, code_verifier, nonce, login_secret_hash`,
+    [hashToken(input.state)]
+  );
+  const attempt = attemptQuery.rows[0];
+  if (!attempt || attempt.issuer !== current.client.issuer) {
+    return { ok: false as const, reason: "invalid_state" as const };
+  }
+  // The attempt is used up either way, so a mismatching secret cannot be retried against it.
+  if (attempt.login_secret_hash !== hashToken(input.loginSecret)) {
+    return { ok: false as const, reason: "browser_mismatch" as const };
+  }
+
+  let claims: OidcIdTokenClaims;
+  try {
+    claims = await current.client.exchangeCode({
+      code: input.code,
+      codeVerifier: attempt.code_verifier,
+      nonce: attempt.nonce
+    });
+  } catch (error) {
+    console.error("OIDC login could not be completed:", error);
+    return { ok: false as const, reason: "provider_error" as const };
+  }
+
+  const identity = await resolveIdentity(current, claims);
+  if (!identity.ok) {
+    return { ...identity, issuer: claims.iss, email: claims.email ?? null };
+  }
+
+  const session = await loginWithExternalIdentity({
+    userId: identity.userId,
+    userAgent: input.userAgent,
+    ipAddress: input.ipAddress
+  });
+  if (!session) {
+    return { ok: false as const, reason: "account_disabled" as const, issuer: claims.iss, email: identity.email };
+  }
+
+  return {
+    ok: true as const,
+    session,
+    userId: identity.userId,
+    issuer: claims.iss,
+    linked: identity.linked,
+    provisioned: identity.provisioned
+  };
+}
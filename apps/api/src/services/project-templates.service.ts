@@ -0,0 +1,254 @@
+import type { PoolClient } from "pg";
+import { pool } from "../db/pool.js";
+import type { ProjectRole } from "./rbac.service.js";
+import type { PriorityLevel, ProjectPhase } from "./tasks.service.js";
+
+type ProjectTemplateRow = {
+  id: string;
+  name: string;
+  description: string | null;
+  created_by: string | null;
+  created_at: Date;
+  updated_at: Date;
+};
+
+type ProjectTemplateTaskRow = {
+  id: string;
+  template_id: string;
+  phase: ProjectPhase;
+  title: string;
+  description: string | null;
+  priority: PriorityLevel;
+  due_offset_days: number | null;
+  default_assignee_role: ProjectRole | null;
+  sort_order: number;
+};
+
+export type ProjectTemplateTaskInput = {
+  phase: ProjectPhase;
+  title: string;
+  description?: string | null;
+  priority?: PriorityLevel;
+  dueOffsetDays?: number | null;
+  defaultAssigneeRole?: ProjectRole | null;
+};
+
+type ProjectTemplateSortBy = "createdAt" | "updatedAt" | "name";
+
+const TEMPLATE_SORT_COLUMNS: Record<ProjectTemplateSortBy, string> = {
+  createdAt: "pt.created_at",
+  updatedAt: "pt.updated_at",
+  name: "pt.name"
+};
+
+const PHASE_ORDER_SQL = `ARRAY_POSITION(ENUM_RANGE(NULL::project_phase), ptt.phase)`;
+
+type TemplateWriteResult =
+  | { ok: true; template: ProjectTemplateRow & { tasks: ProjectTemplateTaskRow[] } }
+  | { ok: false; reason: "not_found" | "name_taken" };
+
+export async function listProjectTemplates(input?: {
+  page?: number;
+  pageSize?: number;
+  sortBy?: ProjectTemplateSortBy;
+  sortOrder?: "asc" | "desc";
+}) {
+  const page = input?.page ?? 1;
+  const pageSize = input?.pageSize ?? 20;
+  const offset = (page - 1) * pageSize;
+  const orderColumn = TEMPLATE_SORT_COLUMNS[input?.sortBy ?? "name"];
+  const orderDirection = (input?.sortOrder ?? "asc").toUpperCase() === "ASC" ? "ASC" : "DESC";
+
+  const [dataResult, countResult] = await Promise.all([
+    pool.query<ProjectTemplateRow & { task_count: number }>(
+      `SELECT
+         pt.id,
+         pt.name,
+         pt.description,
+         pt.created_by,
+         pt.created_at,
+         pt.updated_at,
+         (SELECT COUNT(*)::int FROM project_template_tasks ptt WHERE ptt.template_id = pt.id) AS task_count
+       FROM project_templates pt
+       WHERE pt.deleted_at IS NULL
+       ORDER BY ${orderColumn} ${orderDirection}
+       LIMIT $1 OFFSET $2`,
+      [pageSize, offset]
+    ),
+    pool.query<{ total: string }>(
+      `SELECT COUNT(*)::text AS total
+       FROM project_templates
+       WHERE deleted_at IS NULL`
+    )
+  ]);
+
+  return {
+    rows: dataResult.rows,
+    total: Number(countResult.rows[0]?.total ?? 0)
+  };
+}
+
+export async function getProjectTemplateById(templateId: string) {
+  const templateResult = await pool.query<ProjectTemplateRow>(
+    `SELECT id, name, description, created_by, created_at, updated_at
+     FROM project_templates
+     WHERE id = $1 AND deleted_at IS NULL
+     LIMIT 1`,
+    [templateId]
+  );
+
+  const template = templateResult.rows[0];
+  if (!template) return null;
+
+  const tasksResult = await pool.query<ProjectTemplateTaskRow>(
+    `SELECT
+       ptt.id, ptt.template_id, ptt.phase, ptt.title, ptt.description, ptt.priority,
+       ptt.due_offset_days, ptt.default_assignee_role, ptt.sort_order
+     FROM project_template_tasks ptt
+     WHERE ptt.template_id = $1
+     ORDER BY ${PHASE_ORDER_SQL} ASC, ptt.sort_order ASC`,
+    [templateId]
+  );
+
+  return { ...template, tasks: tasksResult.rows };
+}
+
+function isUniqueViolation(error: unknown) {
+  return (
+    typeof error === "object" &&
+    error !== null &&
+    "code" in error &&
+    (error as { code?: string }).code === "23505"
+  );
+}
+
+async function replaceTemplateTasks(client: PoolClient, templateId: string, tasks: ProjectTemplateTaskInput[]) {
+  await client.query(`DELETE FROM project_template_tasks WHERE template_id = $1`, [templateId]);
+
+  for (const [index, task] of tasks.entries()) {
+    await client.query(
+      `INSERT INTO project_template_tasks (
+         template_id, phase, title, description, priority, due_offset_days, default_assignee_role, sort_order, created_at
+       )
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, NOW())`,
+      [
+        templateId,
+        task.phase,
+        task.title,
+        task.description ?? null,
+        task.priority ?? "medium",
+        task.dueOffsetDays ?? null,
+        task.defaultAssigneeRole ?? null,
+        index
+      ]
+    );
+  }
+}
+
+export async function createProjectTemplate(input: {
+  name: string;
+  description?: string | null;
+  tasks: ProjectTemplateTaskInput[];
+  createdBy: string;
+}): Promise<TemplateWriteResult> {
+  const client = await pool.connect();
+  let templateId: string;
+
+  try {
+    await client.query("BEGIN");
+
+    const templateResult = await client.query<{ id: string }>(
+      `INSERT INTO project_templates (name, description, created_by, created_at, updated_at)
+       VALUES ($1, $2, $3, NOW(), NOW())
+       RETURNING id`,
+      [input.name, input.description ?? null, input.createdBy]
+    );
+    templateId = templateResult.rows[0].id;
+
+    await replaceTemplateTasks(client, templateId, input.tasks);
+
+    await client.query("COMMIT");
+  } catch (error) {
+    await client.query("ROLLBACK");
+    if (isUniqueViolation(error)) {
+      return { ok: false, reason: "name_taken" };
+    }
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  const template = await getProjectTemplateById(templateId);
+  return template ? { ok: true, template } : { ok: false, reason: "not_found" };
+}
+
+export async function updateProjectTemplate(
+  templateId: string,
+  input: {
+    name?: string;
+    description?: string | null;
+    tasks?: ProjectTemplateTaskInput[];
+  }
+): Promise<TemplateWriteResult> {
+  const client = await pool.connect();
+
+  try {
+    await client.query("BEGIN");
+
+    const fields: string[] = [];
+    const values: Array<string | null> = [];
+
+    if (typeof input.name !== "undefined") {
+      fields.push(`name = $${fields.length + 1}`);
+      values.push(input.name);
+    }
+    if (typeof input.description !== "undefined") {
+      fields.push(`description = $${fields.length + 1}`);
+      values.push(input.description);
+    }
+    fields.push("updated_at = NOW()");
+
+    const updated = await client.query<{ id: string }>(
+      `UPDATE project_templates
+       SET ${fields.join(", ")}
+       WHERE id = $${fields.length} AND deleted_at IS NULL
+       RETURNING id`,
+      [...values, templateId]
+    );
+
+    if (updated.rowCount === 0) {
+      await client.query("ROLLBACK");
+      return { ok: false, reason: "not_found" };
+    }
+
+    if (typeof input.tasks !== "undefined") {
+      await replaceTemplateTasks(client, templateId, input.tasks);
+    }
+
+    await client.query("COMMIT");
+  } catch (error) {
+    await client.query("ROLLBACK");
+    if (isUniqueViolation(error)) {
+      return { ok: false, reason: "name_taken" };
+    }
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  const template = await getProjectTemplateById(templateId);
+  return template ? { ok: true, template } : { ok: false, reason: "not_found" };
+}
+
+export async function deleteProjectTemplate(templateId: string) {
+  const result = await pool.query<{ id: string }>(
+    `UPDATE project_templates
+     SET deleted_at = NOW(), updated_at = NOW()
+     WHERE id = $1 AND deleted_at IS NULL
+     RETURNING id`,
+    [templateId]
+  );
+
+  return result.rowCount === 1;
+}
+
@@ -1,4 +1,7 @@
+import type { PoolClient } from "pg";
 import { pool } from "../db/pool.js";
+import { listUnapprovedDeliverables, type UnapprovedDeliverable } from "./file-approvals.service.js";
+import { seedProjectFolders } from "./file-folders.service.js";
 import type { ProjectRole } from "./rbac.service.js";
 
 type ProjectRow = {
@@ -11,6 +14,7 @@ type ProjectRow = {
   budget: string | null;
   start_date: string;
   deadline: string;
+  template_id: string | null;
   created_by: string;
   created_at: Date;
   updated_at: Date;
@@ -49,9 +53,30 @@ const PHASE_DEFAULT_TASK_TITLES: Record<ProjectRow["current_phase"], string[]> =
   delivery: ["Package deliverables", "Deliver to client", "Close project handoff"]
 };
 
+type PhaseTaskTemplate = {
+  title: string;
+  description: string | null;
+  priority: ProjectRow["priority"];
+  due_offset_days: number | null;
+  default_assignee_role: ProjectRole | null;
+};
+
 type TransitionResult =
-  | { ok: true; project: ProjectRow & { client_name: string } }
-  | { ok: false; reason: "not_found" | "invalid_transition" };
+  | { ok: true; project: ProjectRow & { client_name: string }; approvalOverride: UnapprovedDeliverable[] }
+  | { ok: false; reason: "not_found" | "invalid_transition" }
+  | { ok: false; reason: "unapproved_deliverables"; unapproved: UnapprovedDeliverable[] };
+
+export type PhaseOverrideTaskAction = "reopen" | "archive";
+
+type OverrideResult =
+  | {
+      ok: true;
+      project: ProjectRow & { client_name: string };
+      fromPhase: ProjectRow["current_phase"];
+      undonePhases: Array<ProjectRow["current_phase"]>;
+      affectedTaskIds: string[];
+    }
+  | { ok: false; reason: "not_found" | "invalid_override" };
 
 type ProjectDetail = ProjectRow & {
   client_name: string;
@@ -66,6 +91,19 @@ type ProjectDetail = ProjectRow & {
   };
 };
 
+type PhaseHistoryRow = {
+  id: string;
+  project_id: string;
+  phase: ProjectRow["current_phase"];
+  entered_at: Date;
+  entered_by: string | null;
+  entered_by_name: string | null;
+  exited_at: Date | null;
+  exited_by: string | null;
+  exited_by_name: string | null;
+  duration_seconds: string;
+};
+
 type ProjectTeamRow = {
   project_id: string;
   user_id: string;
@@ -135,6 +173,7 @@ export async function listProjects(filter: ListProjectsFilter, userId: string) {
       p.budget,
       p.start_date,
       p.deadline,
+      p.template_id,
       p.created_by,
       p.created_at,
       p.updated_at
@@ -183,6 +222,7 @@ export async function getProjectById(projectId: string) {
        p.budget,
        p.start_date,
        p.deadline,
+       p.template_id,
        p.created_by,
        p.created_at,
        p.updated_at
@@ -215,6 +255,7 @@ export async function getProjectDetailById(projectId: string, userId: string): P
        p.budget,
        p.start_date,
        p.deadline,
+       p.template_id,
        p.created_by,
        p.created_at,
        p.updated_at
@@ -272,7 +313,7 @@ export async function getProjectDetailById(projectId: string, userId: string): P
   };
 }
 
-export async function createProject(input: {
+type ProjectInput = {
   clientId: string;
   name: string;
   description?: string | null;
@@ -281,15 +322,20 @@ export async function createProject(input: {
   budget?: string | null;
   startDate: string;
   deadline: string;
+  templateId?: string | null;
   createdBy: string;
-}) {
-  const result = await pool.query<ProjectRow>(
+};
+
+// Inserts the project with its first phase entry, default folders and, for template projects, the
+// tasks of the starting phase. Callers own the transaction.
+export async function insertProject(client: PoolClient, input: ProjectInput) {
+  const result = await client.query<ProjectRow>(
     `INSERT INTO projects (
-       client_id, name, description, current_phase, priority, budget, start_date, deadline, created_by, created_at, updated_at
+       client_id, name, description, current_phase, priority, budget, start_date, deadline, template_id, created_by, created_at, updated_at
      )
-     VALUES ($1, $2, $3, $4, $5, NULLIF($6, '')::numeric, $7::date, $8::date, $9, NOW(), NOW())
+     VALUES ($1, $2, $3, $4, $5, NULLIF($6, '')::numeric, $7::date, $8::date, $9, $10, NOW(), NOW())
      RETURNING
-       id, client_id, name, description, current_phase, priority, budget, start_date, deadline, created_by, created_at, updated_at`,
+       id, client_id, name, description, current_phase, priority, budget, start_date, deadline, template_id, created_by, created_at, updated_at`,
     [
       input.clientId,
       input.name,
@@ -299,11 +345,45 @@ export async function createProject(input: {
       input.budget ?? null,
       input.startDate,
       input.deadline,
+      input.templateId ?? null,
       input.createdBy
     ]
   );
 
-  return result.rows[0];
+  const project = result.rows[0];
+  await recordPhaseEntry(client, {
+    projectId: project.id,
+    phase: project.current_phase,
+    userId: input.createdBy
+  });
+  await seedProjectFolders(client, { projectId: project.id, createdBy: input.createdBy });
+
+  // Projects without a template keep the previous behavior of starting with no tasks.
+  if (project.template_id) {
+    await instantiatePhaseTasks(client, {
+      project,
+      phase: project.current_phase,
+      userId: input.createdBy
+    });
+  }
+
+  return project;
+}
+
+export async function createProject(input: ProjectInput) {
+  const client = await pool.connect();
+
+  try {
+    await client.query("BEGIN");
+    const project = await insertProject(client, input);
+    await client.query("COMMIT");
+    return project;
+  } catch (error) {
+    await client.query("ROLLBACK");
+    throw error;
+  } finally {
+    client.release();
+  }
 }
 
 export async function updateProject(
@@ -366,7 +446,7 @@ export async function updateProject(
      SET ${fields.join(", ")}
      WHERE id = $${fields.length} AND deleted_at IS NULL
      RETURNING
-       id, client_id, name, description, current_phase, priority, budget, start_date, deadline, created_by, created_at, updated_at`,
+       id, client_id, name, description, current_phase, priority, budget, start_date, deadline, template_id, created_by, created_at, updated_at`,
     [...values, projectId]
   );
 
@@ -431,6 +511,8 @@ export async function transitionProjectPhase(input: {
   nextPhase: ProjectRow["current_phase"];
   userId: string;
   reason?: string | null;
+  // Lets an owner move into delivery while deliverables still await client approval.
+  overrideApprovals?: boolean;
 }): Promise<TransitionResult> {
   const client = await pool.connect();
 
@@ -440,7 +522,7 @@ export async function transitionProjectPhase(input: {
     const projectQuery = await client.query<ProjectRow>(
       `SELECT
          id, client_id, name, description, current_phase, priority, budget,
-         start_date, deadline, created_by, created_at, updated_at
+         start_date, deadline, template_id, created_by, created_at, updated_at
        FROM projects
        WHERE id = $1 AND deleted_at IS NULL
        FOR UPDATE`,
@@ -461,47 +543,34 @@ export async function transitionProjectPhase(input: {
       return { ok: false, reason: "invalid_transition" };
     }
 
+    const unapproved =
+      input.nextPhase === "delivery" ? await listUnapprovedDeliverables(client, input.projectId) : [];
+    if (unapproved.length > 0 && !input.overrideApprovals) {
+      await client.query("ROLLBACK");
+      return { ok: false, reason: "unapproved_deliverables", unapproved };
+    }
+
     const updatedQuery = await client.query<ProjectRow>(
       `UPDATE projects
        SET current_phase = $1, updated_at = NOW()
        WHERE id = $2
        RETURNING
          id, client_id, name, description, current_phase, priority, budget,
-         start_date, deadline, created_by, created_at, updated_at`,
+         start_date, deadline, template_id, created_by, created_at, updated_at`,
       [input.nextPhase, input.projectId]
     );
 
-    // Create default tasks for the next phase, skipping titles that already exist (idempotent behavior).
-    const templateTitles = PHASE_DEFAULT_TASK_TITLES[input.nextPhase] ?? [];
-    if (templateTitles.length > 0) {
-      const existingTaskRows = await client.query<{ title: string }>(
-        `SELECT title
-         FROM tasks
-         WHERE project_id = $1
-           AND phase = $2
-           AND deleted_at IS NULL`,
-        [input.projectId, input.nextPhase]
-      );
-
-      const existingTitles = new Set(existingTaskRows.rows.map((row) => row.title.trim().toLowerCase()));
-      const missingTitles = templateTitles.filter(
-        (title) => !existingTitles.has(title.trim().toLowerCase())
-      );
-
-      for (const title of missingTitles) {
-        await client.query(
-          `INSERT INTO tasks (
-             project_id, title, description, phase, status, priority, assigned_to,
-             due_date, completed_at, created_by, created_at, updated_at
-           )
-           VALUES (
-             $1, $2, NULL, $3, 'pending', 'medium', NULL,
-             NULL, NULL, $4, NOW(), NOW()
-           )`,
-          [input.projectId, title, input.nextPhase, input.userId]
-        );
-      }
-    }
+    await recordPhaseEntry(client, {
+      projectId: input.projectId,
+      phase: input.nextPhase,
+      userId: input.userId
+    });
+
+    await instantiatePhaseTasks(client, {
+      project,
+      phase: input.nextPhase,
+      userId: input.userId
+    });
 
     await client.query(
       `INSERT INTO activity_log (project_id, user_id, action, details, created_at)
@@ -513,36 +582,132 @@ export async function transitionProjectPhase(input: {
         JSON.stringify({
           from: project.current_phase,
           to: input.nextPhase,
-          reason: input.reason ?? null
+          reason: input.reason ?? null,
+          ...(unapproved.length > 0
+            ? { approvalOverride: true, unapprovedFileIds: unapproved.map((file) => file.file_id) }
+            : {})
         })
       ]
     );
 
     await client.query("COMMIT");
 
-    const withClientName = await pool.query<ProjectRow & { client_name: string }>(
+    return {
+      ok: true,
+      project: await getProjectWithClientName(input.projectId),
+      approvalOverride: unapproved
+    };
+  } catch (error) {
+    await client.query("ROLLBACK");
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+export async function overrideProjectPhase(input: {
+  projectId: string;
+  targetPhase: ProjectRow["current_phase"];
+  userId: string;
+  reason: string;
+  taskAction: PhaseOverrideTaskAction;
+}): Promise<OverrideResult> {
+  const client = await pool.connect();
+
+  try {
+    await client.query("BEGIN");
+
+    const projectQuery = await client.query<ProjectRow>(
       `SELECT
-         p.id,
-         p.client_id,
-         c.name AS client_name,
-         p.name,
-         p.description,
-         p.current_phase,
-         p.priority,
-         p.budget,
-         p.start_date,
-         p.deadline,
-         p.created_by,
-         p.created_at,
-         p.updated_at
-       FROM projects p
-       INNER JOIN clients c ON c.id = p.client_id AND c.deleted_at IS NULL
-       WHERE p.id = $1
-       LIMIT 1`,
+         id, client_id, name, description, current_phase, priority, budget,
+         start_date, deadline, template_id, created_by, created_at, updated_at
+       FROM projects
+       WHERE id = $1 AND deleted_at IS NULL
+       FOR UPDATE`,
       [input.projectId]
     );
 
-    return { ok: true, project: withClientName.rows[0] };
+    const project = projectQuery.rows[0];
+    if (!project) {
+      await client.query("ROLLBACK");
+      return { ok: false, reason: "not_found" };
+    }
+
+    const currentIndex = PHASE_FLOW.indexOf(project.current_phase);
+    const targetIndex = PHASE_FLOW.indexOf(input.targetPhase);
+
+    if (targetIndex >= currentIndex) {
+      await client.query("ROLLBACK");
+      return { ok: false, reason: "invalid_override" };
+    }
+
+    await client.query(
+      `UPDATE projects
+       SET current_phase = $1, updated_at = NOW()
+       WHERE id = $2`,
+      [input.targetPhase, input.projectId]
+    );
+
+    await recordPhaseEntry(client, {
+      projectId: input.projectId,
+      phase: input.targetPhase,
+      userId: input.userId
+    });
+
+    // Only tasks generated by phase transitions are touched; manually created tasks are left as-is.
+    const undonePhases = PHASE_FLOW.slice(targetIndex + 1, currentIndex + 1);
+    const affectedTasks =
+      input.taskAction === "archive"
+        ? await client.query<{ id: string }>(
+            `UPDATE tasks
+             SET deleted_at = NOW(), updated_at = NOW()
+             WHERE project_id = $1
+               AND phase = ANY($2::project_phase[])
+               AND auto_generated = TRUE
+               AND deleted_at IS NULL
+             RETURNING id`,
+            [input.projectId, undonePhases]
+          )
+        : await client.query<{ id: string }>(
+            `UPDATE tasks
+             SET status = 'pending', completed_at = NULL, updated_at = NOW()
+             WHERE project_id = $1
+               AND phase = ANY($2::project_phase[])
+               AND auto_generated = TRUE
+               AND status <> 'pending'
+               AND deleted_at IS NULL
+             RETURNING id`,
+            [input.projectId, undonePhases]
+          );
+    const affectedTaskIds = affectedTasks.rows.map((row) => row.id);
+
+    await client.query(
+      `INSERT INTO activity_log (project_id, user_id, action, details, created_at)
+       VALUES ($1, $2, $3, $4::jsonb, NOW())`,
+      [
+        input.projectId,
+        input.userId,
+        "project_phase_overridden",
+        JSON.stringify({
+          from: project.current_phase,
+          to: input.targetPhase,
+          reason: input.reason,
+          taskAction: input.taskAction,
+          undonePhases,
+          affectedTaskIds
+        })
+      ]
+    );
+
+    await client.query("COMMIT");
+
+    return {
+      ok: true,
+      project: await getProjectWithClientName(input.projectId),
+      fromPhase: project.current_phase,
+      undonePhases,
+      affectedTaskIds
+    };
   } catch (error) {
     await client.query("ROLLBACK");
     throw error;
@@ -551,6 +716,161 @@ export async function transitionProjectPhase(input: {
   }
 }
 
+async function getProjectWithClientName(projectId: string) {
+  const result = await pool.query<ProjectRow & { client_name: string }>(
+    `SELECT
+       p.id,
+       p.client_id,
+       c.name AS client_name,
+       p.name,
+       p.description,
+       p.current_phase,
+       p.priority,
+       p.budget,
+       p.start_date,
+       p.deadline,
+       p.template_id,
+       p.created_by,
+       p.created_at,
+       p.updated_at
+     FROM projects p
+     INNER JOIN clients c ON c.id = p.client_id AND c.deleted_at IS NULL
+     WHERE p.id = $1
+     LIMIT 1`,
+    [projectId]
+  );
+
+  return result.rows[0];
+}
+
+// Creates the phase's tasks from the project's template (or the built-in defaults when the project has
+// no template), skipping titles that already exist in that phase (idempotent behavior).
+async function instantiatePhaseTasks(
+  client: PoolClient,
+  input: { project: ProjectRow; phase: ProjectRow["current_phase"]; userId: string }
+) {
+  const { project, phase } = input;
+
+  const templateTasks: PhaseTaskTemplate[] = project.template_id
+    ? (
+        await client.query<PhaseTaskTemplate>(
+          `SELECT title, description, priority, due_offset_days, default_assignee_role
+           FROM project_template_tasks
+           WHERE template_id = $1
+             AND phase = $2
+           ORDER BY sort_order ASC, created_at ASC`,
+          [project.template_id, phase]
+        )
+      ).rows
+    : PHASE_DEFAULT_TASK_TITLES[phase].map((title) => ({
+        title,
+        description: null,
+        priority: "medium",
+        due_offset_days: null,
+        default_assignee_role: null
+      }));
+
+  if (templateTasks.length === 0) return;
+
+  const existingTaskRows = await client.query<{ title: string }>(
+    `SELECT title
+     FROM tasks
+     WHERE project_id = $1
+       AND phase = $2
+       AND deleted_at IS NULL`,
+    [project.id, phase]
+  );
+
+  const existingTitles = new Set(existingTaskRows.rows.map((row) => row.title.trim().toLowerCase()));
+  const missingTasks = templateTasks.filter((task) => !existingTitles.has(task.title.trim().toLowerCase()));
+  if (missingTasks.length === 0) return;
+
+  const teamRows = await client.query<{ user_id: string; role: string }>(
+    `SELECT pt.user_id, LOWER(pt.role) AS role
+     FROM project_team pt
+     INNER JOIN users u ON u.id = pt.user_id AND u.deleted_at IS NULL AND u.is_active = TRUE
+     WHERE pt.project_id = $1
+     ORDER BY pt.created_at ASC`,
+    [project.id]
+  );
+
+  const resolveAssignee = (role: ProjectRole | null) => {
+    if (!role) return null;
+    if (role === "owner") return project.created_by;
+    return teamRows.rows.find((member) => member.role === role)?.user_id ?? null;
+  };
+
+  for (const task of missingTasks) {
+    await client.query(
+      `INSERT INTO tasks (
+         project_id, title, description, phase, status, priority, assigned_to,
+         due_date, completed_at, created_by, auto_generated, created_at, updated_at
+       )
+       VALUES (
+         $1, $2, $3, $4, 'pending', $5, $6,
+         CASE WHEN $7::int IS NULL THEN NULL ELSE CURRENT_DATE + $7::int END, NULL, $8, TRUE, NOW(), NOW()
+       )`,
+      [
+        project.id,
+        task.title,
+        task.description,
+        phase,
+        task.priority,
+        resolveAssignee(task.default_assignee_role),
+        task.due_offset_days,
+        input.userId
+      ]
+    );
+  }
+}
+
+// Closes the project's open phase history entry (if any) and opens a new one for `phase`.
+async function recordPhaseEntry(
+  client: PoolClient,
+  input: { projectId: string; phase: ProjectRow["current_phase"]; userId: string }
+) {
+  await client.query(
+    `UPDATE project_phase_history
+     SET exited_at = NOW(), exited_by = $2
+     WHERE project_id = $1
+       AND exited_at IS NULL`,
+    [input.projectId, input.userId]
+  );
+
+  await client.query(
+    `INSERT INTO project_phase_history (project_id, phase, entered_at, entered_by)
+     VALUES ($1, $2, NOW(), $3)`,
+    [input.projectId, input.phase, input.userId]
+  );
+}
+
+export async function listProjectPhaseHistory(projectId: string) {
+  const result = await pool.query<PhaseHistoryRow>(
+    `SELECT
+       h.id,
+       h.project_id,
+       h.phase,
+       h.entered_at,
+       h.entered_by,
+       eu.name AS entered_by_name,
+       h.exited_at,
+       h.exited_by,
+       xu.name AS exited_by_name,
+       EXTRACT(EPOCH FROM (COALESCE(h.exited_at, NOW()) - h.entered_at))::bigint::text AS duration_seconds
+     FROM project_phase_history h
+     LEFT JOIN users eu ON eu.id = h.entered_by
+     LEFT JOIN users xu ON xu.id = h.exited_by
+     WHERE h.project_id = $1
+     ORDER BY h.entered_at ASC, h.exited_at ASC NULLS LAST`,
+    [projectId]
+  );
+
+  return result.rows.map((row) => ({
+    ...row,
+    duration_seconds: Number(row.duration_seconds)
+  }));
+}
+
 export async function listProjectTeamMembers(projectId: string) {
   const result = await pool.query<ProjectTeamRow>(
     `SELECT
@@ -582,7 +902,7 @@ export async function addProjectTeamMember(input: {
   if (projectExists.rowCount === 0) return { ok: false as const, reason: "project_not_found" as const };
 
   const userExists = await pool.query<{ id: string }>(
-    `SELECT id FROM users WHERE id = $1 AND deleted_at IS NULL AND is_active = TRUE LIMIT 1`,
+    `SELECT id FROM users WHERE id = $1 AND deleted_at IS NULL AND is_active = TRUE AND principal_type = 'staff' LIMIT 1`,
     [input.userId]
   );
   if (userExists.rowCount === 0) return { ok: false as const, reason: "user_not_found" as const };
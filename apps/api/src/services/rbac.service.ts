@@ -1,13 +1,15 @@
 import { pool } from "../db/pool.js";
 
 export type ProjectRole = "owner" | "manager" | "member" | "viewer";
-export type ProjectPermission =
-  | "project:view"
-  | "project:update"
-  | "project:delete"
-  | "team:manage"
-  | "task:write"
-  | "file:write";
+export const PROJECT_PERMISSIONS = [
+  "project:view",
+  "project:update",
+  "project:delete",
+  "team:manage",
+  "task:write",
+  "file:write"
+] as const;
+export type ProjectPermission = (typeof PROJECT_PERMISSIONS)[number];
 
 type ProjectAccessRow = {
   created_by: string;
@@ -54,11 +56,19 @@ export async function getProjectRoleForUser(projectId: string, userId: string):
   return normalizeTeamRole(row.team_role);
 }
 
+// `scopes` narrows the check for requests made with an API token: the permission has to be both in the
+// owner's project role and in the token's scopes. It is required so that no route can forget it; pass
+// `req.user.apiToken?.scopes`, which is undefined for a signed-in session.
 export async function hasProjectPermission(input: {
   projectId: string;
   userId: string;
   permission: ProjectPermission;
+  scopes: readonly ProjectPermission[] | undefined;
 }) {
+  if (input.scopes && !input.scopes.includes(input.permission)) {
+    return false;
+  }
+
   const role = await getProjectRoleForUser(input.projectId, input.userId);
   if (!role) {
     return false;
@@ -66,3 +76,31 @@ export async function hasProjectPermission(input: {
 
   return PERMISSION_MATRIX[role].includes(input.permission);
 }
+
+// Client users sit outside the project role model: they are never on a project team, and get this
+// fixed set on every live project of their own client. Internal tasks, comments and budget are not
+// reachable through any of these.
+export type ClientPortalPermission =
+  | "portal:project:view"
+  | "portal:file:download"
+  | "portal:approval:decide";
+
+// Every permission in the set is granted on the same projects, so `permission` only names what the
+// caller is checking.
+export async function hasClientPortalPermission(input: {
+  projectId: string;
+  clientId: string;
+  permission: ClientPortalPermission;
+}) {
+  const result = await pool.query<{ id: string }>(
+    `SELECT id
+     FROM projects
+     WHERE id = $1
+       AND client_id = $2
+       AND deleted_at IS NULL
+     LIMIT 1`,
+    [input.projectId, input.clientId]
+  );
+
+  return result.rowCount === 1;
+}
@@ -0,0 +1,255 @@
+import { pool } from "../db/pool.js";
+import type { ProjectPhase, TaskStatus } from "./tasks.service.js";
+
+type ScheduleProjectRow = {
+  id: string;
+  deadline: string;
+  as_of: string;
+};
+
+type ScheduleTaskRow = {
+  id: string;
+  title: string;
+  phase: ProjectPhase;
+  phase_index: number;
+  status: TaskStatus;
+  assigned_to: string | null;
+  due_date: string | null;
+  estimated_days: number | null;
+  completed_on: string | null;
+};
+
+type DurationSource = "estimate" | "due_date" | "default" | "completed";
+
+type ScheduledTask = {
+  taskId: string;
+  title: string;
+  phase: ProjectPhase;
+  status: TaskStatus;
+  assignedTo: string | null;
+  dueDate: string | null;
+  estimatedDays: number | null;
+  completedOn: string | null;
+  dependsOn: string[];
+  durationDays: number;
+  durationSource: DurationSource;
+  earliestStart: string | null;
+  earliestFinish: string | null;
+  latestStart: string | null;
+  latestFinish: string | null;
+  slackDays: number | null;
+  dueDateSlipDays: number | null;
+  isCritical: boolean;
+  drivesSlip: boolean;
+};
+
+export type ProjectSchedule = {
+  projectId: string;
+  asOfDate: string;
+  deadline: string;
+  projectedFinishDate: string;
+  slipDays: number;
+  onTrack: boolean;
+  criticalPath: string[];
+  slipDrivers: string[];
+  tasks: ScheduledTask[];
+};
+
+const DEFAULT_TASK_DURATION_DAYS = 1;
+const MS_PER_DAY = 86_400_000;
+
+function toDayNumber(isoDate: string) {
+  const [year, month, day] = isoDate.split("-").map(Number);
+  return Math.round(Date.UTC(year, month - 1, day) / MS_PER_DAY);
+}
+
+function fromDayNumber(dayNumber: number) {
+  return new Date(dayNumber * MS_PER_DAY).toISOString().slice(0, 10);
+}
+
+function topologicalOrder(taskIds: string[], predecessors: Map<string, string[]>) {
+  const inDegree = new Map(taskIds.map((id) => [id, predecessors.get(id)?.length ?? 0]));
+  const successors = new Map<string, string[]>(taskIds.map((id) => [id, []]));
+  for (const id of taskIds) {
+    for (const predecessorId of predecessors.get(id) ?? []) {
+      successors.get(predecessorId)?.push(id);
+    }
+  }
+
+  const queue = taskIds.filter((id) => inDegree.get(id) === 0);
+  const order: string[] = [];
+  while (queue.length > 0) {
+    const id = queue.shift() as string;
+    order.push(id);
+    for (const successorId of successors.get(id) ?? []) {
+      const remaining = (inDegree.get(successorId) ?? 0) - 1;
+      inDegree.set(successorId, remaining);
+      if (remaining === 0) queue.push(successorId);
+    }
+  }
+
+  return order.length === taskIds.length ? { order, successors } : null;
+}
+
+export async function getProjectSchedule(projectId: string): Promise<ProjectSchedule | null> {
+  const projectResult = await pool.query<ScheduleProjectRow>(
+    `SELECT id, deadline::text AS deadline, GREATEST(CURRENT_DATE, start_date)::text AS as_of
+     FROM projects
+     WHERE id = $1 AND deleted_at IS NULL
+     LIMIT 1`,
+    [projectId]
+  );
+
+  const project = projectResult.rows[0];
+  if (!project) return null;
+
+  const [tasksResult, dependenciesResult] = await Promise.all([
+    pool.query<ScheduleTaskRow>(
+      `SELECT
+         t.id,
+         t.title,
+         t.phase,
+         ARRAY_POSITION(ENUM_RANGE(NULL::project_phase), t.phase) AS phase_index,
+         t.status,
+         t.assigned_to,
+         t.due_date::text AS due_date,
+         t.estimated_days,
+         t.completed_at::date::text AS completed_on
+       FROM tasks t
+       WHERE t.project_id = $1 AND t.deleted_at IS NULL
+       ORDER BY phase_index ASC, t.due_date ASC NULLS LAST, t.created_at ASC`,
+      [projectId]
+    ),
+    pool.query<{ task_id: string; depends_on_task_id: string }>(
+      `SELECT d.task_id, d.depends_on_task_id
+       FROM task_dependencies d
+       INNER JOIN tasks t ON t.id = d.task_id AND t.deleted_at IS NULL
+       INNER JOIN tasks b ON b.id = d.depends_on_task_id AND b.deleted_at IS NULL
+       WHERE t.project_id = $1`,
+      [projectId]
+    )
+  ]);
+
+  const tasks = tasksResult.rows;
+  const taskIds = tasks.map((task) => task.id);
+
+  const explicitPredecessors = new Map<string, string[]>(taskIds.map((id) => [id, []]));
+  for (const dependency of dependenciesResult.rows) {
+    explicitPredecessors.get(dependency.task_id)?.push(dependency.depends_on_task_id);
+  }
+
+  // Phases run in order, so every task also waits on the tasks of the closest earlier phase that has any.
+  const combinedPredecessors = new Map<string, string[]>();
+  const taskIdsByPhase = new Map<number, string[]>();
+  for (const task of tasks) {
+    taskIdsByPhase.set(task.phase_index, [...(taskIdsByPhase.get(task.phase_index) ?? []), task.id]);
+  }
+  const phaseIndexes = [...taskIdsByPhase.keys()].sort((a, b) => a - b);
+  for (const task of tasks) {
+    const earlierPhase = phaseIndexes.filter((index) => index < task.phase_index).pop();
+    const phasePredecessors = typeof earlierPhase === "undefined" ? [] : (taskIdsByPhase.get(earlierPhase) ?? []);
+    combinedPredecessors.set(task.id, [...new Set([...(explicitPredecessors.get(task.id) ?? []), ...phasePredecessors])]);
+  }
+
+  // A dependency that points backwards across phases conflicts with phase ordering; explicit links win.
+  const predecessors = topologicalOrder(taskIds, combinedPredecessors) ? combinedPredecessors : explicitPredecessors;
+  const graph = topologicalOrder(taskIds, predecessors);
+  if (!graph) {
+    throw new Error(`Task dependency cycle detected in project ${projectId}`);
+  }
+
+  const asOfDay = toDayNumber(project.as_of);
+  const deadlineDay = toDayNumber(project.deadline);
+  const taskById = new Map(tasks.map((task) => [task.id, task]));
+  const duration = new Map<string, { days: number; source: DurationSource }>();
+  const earliestStart = new Map<string, number>();
+  const earliestFinish = new Map<string, number>();
+
+  // Offsets are whole days from the as-of date; a task occupies [start, finish).
+  for (const id of graph.order) {
+    const task = taskById.get(id) as ScheduleTaskRow;
+    const start = Math.max(0, ...(predecessors.get(id) ?? []).map((predecessorId) => earliestFinish.get(predecessorId) ?? 0));
+
+    let taskDuration: { days: number; source: DurationSource };
+    if (task.status === "completed") {
+      taskDuration = { days: 0, source: "completed" };
+    } else if (task.estimated_days !== null) {
+      taskDuration = { days: task.estimated_days, source: "estimate" };
+    } else if (task.due_date !== null && toDayNumber(task.due_date) - asOfDay + 1 > start) {
+      taskDuration = { days: toDayNumber(task.due_date) - asOfDay + 1 - start, source: "due_date" };
+    } else {
+      taskDuration = { days: DEFAULT_TASK_DURATION_DAYS, source: "default" };
+    }
+
+    duration.set(id, taskDuration);
+    earliestStart.set(id, start);
+    earliestFinish.set(id, start + taskDuration.days);
+  }
+
+  const projectEnd = Math.max(0, ...earliestFinish.values());
+  const latestStart = new Map<string, number>();
+  const latestFinish = new Map<string, number>();
+
+  for (const id of [...graph.order].reverse()) {
+    const successorStarts = (graph.successors.get(id) ?? []).map((successorId) => latestStart.get(successorId) ?? projectEnd);
+    const finish = Math.min(projectEnd, ...successorStarts);
+    latestFinish.set(id, finish);
+    latestStart.set(id, finish - (duration.get(id)?.days ?? 0));
+  }
+
+  const projectedFinishDay = asOfDay + Math.max(projectEnd - 1, 0);
+  const slipDays = projectedFinishDay - deadlineDay;
+
+  // Inclusive calendar date of the last working day for a [start, finish) offset range.
+  const finishDate = (start: number, finish: number) => fromDayNumber(asOfDay + Math.max(finish - 1, start));
+
+  const scheduledTasks: ScheduledTask[] = tasks.map((task) => {
+    const taskDuration = duration.get(task.id) as { days: number; source: DurationSource };
+    const isCompleted = task.status === "completed";
+    const es = earliestStart.get(task.id) ?? 0;
+    const ef = earliestFinish.get(task.id) ?? 0;
+    const ls = latestStart.get(task.id) ?? 0;
+    const lf = latestFinish.get(task.id) ?? 0;
+    const slack = ls - es;
+    const isCritical = !isCompleted && slack === 0 && taskDuration.days > 0;
+
+    return {
+      taskId: task.id,
+      title: task.title,
+      phase: task.phase,
+      status: task.status,
+      assignedTo: task.assigned_to,
+      dueDate: task.due_date,
+      estimatedDays: task.estimated_days,
+      completedOn: task.completed_on,
+      dependsOn: explicitPredecessors.get(task.id) ?? [],
+      durationDays: taskDuration.days,
+      durationSource: taskDuration.source,
+      earliestStart: isCompleted ? null : fromDayNumber(asOfDay + es),
+      earliestFinish: isCompleted ? null : finishDate(es, ef),
+      latestStart: isCompleted ? null : fromDayNumber(asOfDay + ls),
+      latestFinish: isCompleted ? null : finishDate(ls, lf),
+      slackDays: isCompleted ? null : slack,
+      dueDateSlipDays:
+        isCompleted || task.due_date === null ? null : asOfDay + Math.max(ef - 1, es) - toDayNumber(task.due_date),
+      isCritical,
+      drivesSlip: isCritical && slipDays > 0
+    };
+  });
+
+  const criticalPath = graph.order
+    .filter((id) => scheduledTasks.some((task) => task.taskId === id && task.isCritical))
+    .sort((a, b) => (earliestStart.get(a) ?? 0) - (earliestStart.get(b) ?? 0));
+
+  return {
+    projectId: project.id,
+    asOfDate: project.as_of,
+    deadline: project.deadline,
+    projectedFinishDate: fromDayNumber(projectedFinishDay),
+    slipDays,
+    onTrack: slipDays <= 0,
+    criticalPath,
+    slipDrivers: scheduledTasks.filter((task) => task.drivesSlip).map((task) => task.taskId),
+    tasks: scheduledTasks
+  };
+}
@@ -128,6 +128,13 @@ async function searchFiles(term: string, limit: number, userId: string): Promise
        f.storage_type
      FROM files f
      WHERE f.deleted_at IS NULL
+       AND NOT EXISTS (
+         SELECT 1
+         FROM files newer
+         WHERE newer.document_id = f.document_id
+           AND newer.version > f.version
+           AND newer.deleted_at IS NULL
+       )
        AND EXISTS (
          SELECT 1
          FROM projects p
@@ -163,12 +170,23 @@ async function searchClients(term: string, limit: number, userId: string): Promi
     id: string;
     name: string;
     company: string | null;
+    matched_contact: string | null;
   }>(
     `SELECT
        c.id,
        c.name,
-       c.company
+       c.company,
+       matched.name AS matched_contact
      FROM clients c
+     LEFT JOIN LATERAL (
+       SELECT cc.name
+       FROM client_contacts cc
+       WHERE cc.client_id = c.id
+         AND cc.deleted_at IS NULL
+         AND (cc.name ILIKE $1 OR COALESCE(cc.email, '') ILIKE $1)
+       ORDER BY cc.is_primary DESC, LOWER(cc.name) ASC
+       LIMIT 1
+     ) matched ON TRUE
      WHERE c.deleted_at IS NULL
        AND EXISTS (
          SELECT 1
@@ -184,6 +202,7 @@ async function searchClients(term: string, limit: number, userId: string): Promi
          c.name ILIKE $1
          OR COALESCE(c.company, '') ILIKE $1
          OR COALESCE(c.email, '') ILIKE $1
+         OR matched.name IS NOT NULL
        )
      ORDER BY c.updated_at DESC
      LIMIT $2`,
@@ -194,10 +213,10 @@ async function searchClients(term: string, limit: number, userId: string): Promi
     id: row.id,
     type: "client",
     title: row.name,
-    subtitle: row.company,
+    subtitle: row.matched_contact ? `Contact: ${row.matched_contact}` : row.company,
     projectId: null,
     clientId: row.id,
-    matchedOn: "name|company|email"
+    matchedOn: "name|company|email|contact"
   }));
 }
 
@@ -0,0 +1,178 @@
+import bcrypt from "bcryptjs";
+import crypto from "node:crypto";
+import { pool } from "../db/pool.js";
+
+type ShareLinkRow = {
+  id: string;
+  file_id: string;
+  project_id: string;
+  password_hash: string | null;
+  expires_at: Date;
+  max_downloads: number | null;
+  download_count: number;
+  last_accessed_at: Date | null;
+  created_by: string | null;
+  created_at: Date;
+  revoked_at: Date | null;
+  revoked_by: string | null;
+};
+
+// Public shape of a link; the password hash never leaves this module.
+export type ShareLink = Omit<ShareLinkRow, "password_hash"> & { has_password: boolean };
+
+export type ShareLinkAccessResult =
+  | { ok: true; link: ShareLink }
+  | {
+      ok: false;
+      reason: "not_found" | "revoked" | "expired" | "download_limit_reached" | "password_required" | "invalid_password" | "file_not_available";
+      link: ShareLink | null;
+    };
+
+const SHARE_LINK_COLUMNS = `
+  id,
+  file_id,
+  project_id,
+  password_hash,
+  expires_at,
+  max_downloads,
+  download_count,
+  last_accessed_at,
+  created_by,
+  created_at,
+  revoked_at,
+  revoked_by`;
+
+function hashShareToken(token: string) {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+function toShareLink(row: ShareLinkRow): ShareLink {
+  const { password_hash: passwordHash, ...link } = row;
+  return { ...link, has_password: passwordHash !== null };
+}
+
+// The raw token is returned once, at creation; only its hash is stored.
+export async function createShareLink(input: {
+  fileId: string;
+  projectId: string;
+  expiresAt: Date;
+  password?: string | null;
+  maxDownloads?: number | null;
+  createdBy: string;
+}) {
+  const token = crypto.randomBytes(32).toString("base64url");
+  const passwordHash = input.password ? await bcrypt.hash(input.password, 12) : null;
+
+  const result = await pool.query<ShareLinkRow>(
+    `INSERT INTO file_share_links (
+       file_id, project_id, token_hash, password_hash, expires_at, max_downloads, created_by, created_at
+     )
+     VALUES ($1, $2, $3, $4, $5, $6, $7, NOW())
+     RETURNING ${SHARE_LINK_COLUMNS}`,
+    [
+      input.fileId,
+      input.projectId,
+      hashShareToken(token),
+      passwordHash,
+      input.expiresAt,
+      input.maxDownloads ?? null,
+      input.createdBy
+    ]
+  );
+
+  return { token, link: toShareLink(result.rows[0]) };
+}
+
+export async function listShareLinks(fileId: string) {
+  const result = await pool.query<ShareLinkRow>(
+    `SELECT ${SHARE_LINK_COLUMNS}
+     FROM file_share_links
+     WHERE file_id = $1
+     ORDER BY created_at DESC`,
+    [fileId]
+  );
+
+  return result.rows.map(toShareLink);
+}
+
+export async function revokeShareLink(input: { fileId: string; linkId: string; revokedBy: string }) {
+  const result = await pool.query<ShareLinkRow>(
+    `UPDATE file_share_links
+     SET revoked_at = COALESCE(revoked_at, NOW()),
+         revoked_by = COALESCE(revoked_by, $3)
+     WHERE id = $1
+       AND file_id = $2
+     RETURNING ${SHARE_LINK_COLUMNS}`,
+    [input.linkId, input.fileId, input.revokedBy]
+  );
+
+  return result.rows[0] ? toShareLink(result.rows[0]) : null;
+}
+
+// Validates a public access attempt and, when it succeeds, counts it as a download. The counter is
+// incremented with a guarded UPDATE so concurrent requests cannot exceed max_downloads, and attempts
+// against a file that is no longer available are refused without using up a download.
+export async function redeemShareLink(input: { token: string; password?: string | null }): Promise<ShareLinkAccessResult> {
+  const lookup = await pool.query<ShareLinkRow & { file_available: boolean }>(
+    `SELECT ${SHARE_LINK_COLUMNS},
+       EXISTS (
+         SELECT 1
+         FROM files
+         WHERE files.id = file_share_links.file_id
+           AND files.status = 'available'
+           AND files.deleted_at IS NULL
+       ) AS file_available
+     FROM file_share_links
+     WHERE token_hash = $1
+     LIMIT 1`,
+    [hashShareToken(input.token)]
+  );
+
+  const found = lookup.rows[0];
+  if (!found) {
+    return { ok: false, reason: "not_found", link: null };
+  }
+
+  const { file_available: fileAvailable, ...row } = found;
+  const link = toShareLink(row);
+  if (row.revoked_at) {
+    return { ok: false, reason: "revoked", link };
+  }
+  if (row.expires_at.getTime() <= Date.now()) {
+    return { ok: false, reason: "expired", link };
+  }
+  if (row.max_downloads !== null && row.download_count >= row.max_downloads) {
+    return { ok: false, reason: "download_limit_reached", link };
+  }
+
+  if (row.password_hash) {
+    if (!input.password) {
+      return { ok: false, reason: "password_required", link };
+    }
+    if (!(await bcrypt.compare(input.password, row.password_hash))) {
+      return { ok: false, reason: "invalid_password", link };
+    }
+  }
+
+  if (!fileAvailable) {
+    return { ok: false, reason: "file_not_available", link };
+  }
+
+  const redeemed = await pool.query<ShareLinkRow>(
+    `UPDATE file_share_links
+     SET download_count = download_count + 1,
+         last_accessed_at = NOW()
+     WHERE id = $1
+       AND revoked_at IS NULL
+       AND expires_at > NOW()
+       AND (max_downloads IS NULL OR download_count < max_downloads)
+     RETURNING ${SHARE_LINK_COLUMNS}`,
+    [row.id]
+  );
+
+  if (!redeemed.rows[0]) {
+    return { ok: false, reason: "download_limit_reached", link };
+  }
+
+  return { ok: true, link: toShareLink(redeemed.rows[0]) };
+}
@@ -0,0 +1,79 @@
+import crypto from "node:crypto";
+import { env } from "../config/env.js";
+import { createLocalStorageDriver, type LocalStorageDriver } from "../storage/local-driver.js";
+import { createS3StorageDriver } from "../storage/s3-driver.js";
+import { SNIFF_HEADER_BYTES } from "../scanning/content-sniffer.js";
+import type { StorageDriver, StorageDriverName } from "../storage/storage-driver.js";
+
+let localDriver: LocalStorageDriver | null = null;
+let s3Driver: StorageDriver | null = null;
+
+// Base URL clients use to reach this API from outside, e.g. for signed storage URLs and share links.
+export function getPublicApiBaseUrl() {
+  return (env.STORAGE_PUBLIC_BASE_URL ?? `http://localhost:${env.PORT}/api/v1`).replace(/\/+$/, "");
+}
+
+export function getLocalStorageDriver() {
+  if (!localDriver) {
+    localDriver = createLocalStorageDriver({
+      root: env.STORAGE_LOCAL_ROOT,
+      baseUrl: getPublicApiBaseUrl(),
+      // Falls back to the access-token secret so local development needs no extra configuration.
+      signingSecret: env.STORAGE_SIGNING_SECRET ?? env.JWT_ACCESS_SECRET
+    });
+  }
+  return localDriver;
+}
+
+function getS3StorageDriver() {
+  if (!env.S3_ENDPOINT || !env.S3_BUCKET || !env.S3_ACCESS_KEY_ID || !env.S3_SECRET_ACCESS_KEY) {
+    return null;
+  }
+
+  if (!s3Driver) {
+    s3Driver = createS3StorageDriver({
+      endpoint: env.S3_ENDPOINT,
+      region: env.S3_REGION,
+      bucket: env.S3_BUCKET,
+      accessKeyId: env.S3_ACCESS_KEY_ID,
+      secretAccessKey: env.S3_SECRET_ACCESS_KEY,
+      forcePathStyle: env.S3_FORCE_PATH_STYLE
+    });
+  }
+  return s3Driver;
+}
+
+export function getStorageDriver(name: StorageDriverName = env.STORAGE_DRIVER): StorageDriver | null {
+  return name === "local" ? getLocalStorageDriver() : getS3StorageDriver();
+}
+
+export function getUploadSizeLimit() {
+  return env.UPLOAD_MAX_BYTES;
+}
+
+export function getSignedUrlTtlSeconds() {
+  return env.STORAGE_URL_TTL_SECONDS;
+}
+
+// Hashes a stored object in one pass and keeps its leading bytes for content sniffing.
+export async function hashStoredObject(driver: StorageDriver, objectKey: string) {
+  const stream = await driver.getObjectStream(objectKey);
+  if (!stream) return null;
+
+  const hash = crypto.createHash("sha256");
+  const headerChunks: Buffer[] = [];
+  let headerSize = 0;
+  let size = 0;
+  for await (const chunk of stream) {
+    const buffer = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+    size += buffer.length;
+    hash.update(buffer);
+    if (headerSize < SNIFF_HEADER_BYTES) {
+      const slice = buffer.subarray(0, SNIFF_HEADER_BYTES - headerSize);
+      headerChunks.push(slice);
+      headerSize += slice.length;
+    }
+  }
+
+  return { size, checksumSha256: hash.digest("hex"), header: Buffer.concat(headerChunks) };
+}
@@ -1,3 +1,4 @@
+import type { PoolClient } from "pg";
 import { pool } from "../db/pool.js";
 
 type TaskCommentRow = {
@@ -54,21 +55,35 @@ export async function listTaskComments(input: ListTaskCommentsInput) {
   };
 }
 
-export async function createTaskComment(input: {
+type TaskCommentInput = {
   taskId: string;
   userId: string;
   body: string;
-}) {
-  const result = await pool.query<TaskCommentRow>(
+  // Imported comments keep the time they were originally posted.
+  createdAt?: string | null;
+};
+
+export async function insertTaskComment(client: PoolClient, input: TaskCommentInput) {
+  const result = await client.query<TaskCommentRow>(
     `INSERT INTO task_comments (task_id, user_id, body, created_at, updated_at)
-     VALUES ($1, $2, $3, NOW(), NOW())
+     VALUES ($1, $2, $3, COALESCE($4::timestamptz, NOW()), COALESCE($4::timestamptz, NOW()))
      RETURNING id, task_id, user_id, body, created_at, updated_at`,
-    [input.taskId, input.userId, input.body]
+    [input.taskId, input.userId, input.body, input.createdAt ?? null]
   );
 
   return result.rows[0];
 }
 
+export async function createTaskComment(input: TaskCommentInput) {
+  const client = await pool.connect();
+
+  try {
+    return await insertTaskComment(client, input);
+  } finally {
+    client.release();
+  }
+}
+
 export async function deleteTaskComment(input: {
   taskId: string;
   commentId: string;
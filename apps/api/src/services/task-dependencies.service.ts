@@ -0,0 +1,200 @@
+import { pool } from "../db/pool.js";
+import { createNotification } from "./notifications.service.js";
+import type { ProjectPhase, TaskStatus } from "./tasks.service.js";
+
+type DependencyTaskRow = {
+  id: string;
+  project_id: string;
+  title: string;
+  phase: ProjectPhase;
+  status: TaskStatus;
+  assigned_to: string | null;
+  due_date: string | null;
+  completed_at: Date | null;
+  linked_at: Date;
+};
+
+type AddDependencyResult =
+  | { ok: true; dependency: { task_id: string; depends_on_task_id: string; created_by: string; created_at: Date } }
+  | { ok: false; reason: "not_found" | "cross_project" | "cycle" | "already_exists" };
+
+export async function listTaskDependencies(taskId: string) {
+  const [blockedByResult, blockingResult] = await Promise.all([
+    pool.query<DependencyTaskRow>(
+      `SELECT
+         t.id, t.project_id, t.title, t.phase, t.status, t.assigned_to, t.due_date, t.completed_at,
+         d.created_at AS linked_at
+       FROM task_dependencies d
+       INNER JOIN tasks t ON t.id = d.depends_on_task_id AND t.deleted_at IS NULL
+       WHERE d.task_id = $1
+       ORDER BY d.created_at ASC`,
+      [taskId]
+    ),
+    pool.query<DependencyTaskRow>(
+      `SELECT
+         t.id, t.project_id, t.title, t.phase, t.status, t.assigned_to, t.due_date, t.completed_at,
+         d.created_at AS linked_at
+       FROM task_dependencies d
+       INNER JOIN tasks t ON t.id = d.task_id AND t.deleted_at IS NULL
+       WHERE d.depends_on_task_id = $1
+       ORDER BY d.created_at ASC`,
+      [taskId]
+    )
+  ]);
+
+  return {
+    blocked_by: blockedByResult.rows,
+    blocking: blockingResult.rows
+  };
+}
+
+export async function addTaskDependency(input: {
+  taskId: string;
+  dependsOnTaskId: string;
+  createdBy: string;
+}): Promise<AddDependencyResult> {
+  if (input.taskId === input.dependsOnTaskId) {
+    return { ok: false, reason: "cycle" };
+  }
+
+  const client = await pool.connect();
+
+  try {
+    await client.query("BEGIN");
+
+    const tasksResult = await client.query<{ id: string; project_id: string }>(
+      `SELECT id, project_id
+       FROM tasks
+       WHERE id = ANY($1::uuid[])
+         AND deleted_at IS NULL`,
+      [[input.taskId, input.dependsOnTaskId]]
+    );
+
+    if (tasksResult.rows.length !== 2) {
+      await client.query("ROLLBACK");
+      return { ok: false, reason: "not_found" };
+    }
+
+    const [first, second] = tasksResult.rows;
+    if (first.project_id !== second.project_id) {
+      await client.query("ROLLBACK");
+      return { ok: false, reason: "cross_project" };
+    }
+
+    // Serialize dependency writes per project so two concurrent inserts cannot close a cycle together.
+    await client.query(`SELECT pg_advisory_xact_lock(hashtext($1))`, [first.project_id]);
+
+    const cycleResult = await client.query<{ id: string }>(
+      `WITH RECURSIVE upstream AS (
+         SELECT depends_on_task_id AS id
+         FROM task_dependencies
+         WHERE task_id = $1
+         UNION
+         SELECT d.depends_on_task_id
+         FROM task_dependencies d
+         INNER JOIN upstream u ON d.task_id = u.id
+       )
+       SELECT id FROM upstream WHERE id = $2 LIMIT 1`,
+      [input.dependsOnTaskId, input.taskId]
+    );
+
+    if (cycleResult.rowCount === 1) {
+      await client.query("ROLLBACK");
+      return { ok: false, reason: "cycle" };
+    }
+
+    const insertResult = await client.query<{
+      task_id: string;
+      depends_on_task_id: string;
+      created_by: string;
+      created_at: Date;
+    }>(
+      `INSERT INTO task_dependencies (task_id, depends_on_task_id, created_by, created_at)
+       VALUES ($1, $2, $3, NOW())
+       ON CONFLICT (task_id, depends_on_task_id) DO NOTHING
+       RETURNING task_id, depends_on_task_id, created_by, created_at`,
+      [input.taskId, input.dependsOnTaskId, input.createdBy]
+    );
+
+    if (insertResult.rowCount === 0) {
+      await client.query("ROLLBACK");
+      return { ok: false, reason: "already_exists" };
+    }
+
+    await client.query("COMMIT");
+    return { ok: true, dependency: insertResult.rows[0] };
+  } catch (error) {
+    await client.query("ROLLBACK");
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+export async function removeTaskDependency(taskId: string, dependsOnTaskId: string) {
+  const result = await pool.query<{ task_id: string }>(
+    `DELETE FROM task_dependencies
+     WHERE task_id = $1
+       AND depends_on_task_id = $2
+     RETURNING task_id`,
+    [taskId, dependsOnTaskId]
+  );
+
+  return result.rowCount === 1;
+}
+
+export async function notifyDependentsOfCompletedTask(input: {
+  task: { id: string; title: string; project_id: string };
+  completedByUserId: string;
+}) {
+  const dependentsResult = await pool.query<{
+    id: string;
+    title: string;
+    project_id: string;
+    assigned_to: string | null;
+    created_by: string;
+    remaining_blockers: number;
+  }>(
+    `SELECT
+       t.id,
+       t.title,
+       t.project_id,
+       t.assigned_to,
+       t.created_by,
+       (
+         SELECT COUNT(*)::int
+         FROM task_dependencies d2
+         INNER JOIN tasks b ON b.id = d2.depends_on_task_id AND b.deleted_at IS NULL
+         WHERE d2.task_id = t.id
+           AND b.status <> 'completed'
+       ) AS remaining_blockers
+     FROM task_dependencies d
+     INNER JOIN tasks t ON t.id = d.task_id AND t.deleted_at IS NULL
+     WHERE d.depends_on_task_id = $1
+       AND t.status <> 'completed'`,
+    [input.task.id]
+  );
+
+  for (const dependent of dependentsResult.rows) {
+    const recipientId = dependent.assigned_to ?? dependent.created_by;
+    if (recipientId === input.completedByUserId) continue;
+
+    const unblocked = dependent.remaining_blockers === 0;
+    await createNotification({
+      userId: recipientId,
+      projectId: dependent.project_id,
+      taskId: dependent.id,
+      type: unblocked ? "task_unblocked" : "task_dependency_completed",
+      title: unblocked ? "Task unblocked" : "Task dependency completed",
+      message: unblocked
+        ? `"${input.task.title}" was completed. "${dependent.title}" has no remaining blockers and can start.`
+        : `"${input.task.title}" was completed. "${dependent.title}" still has ${dependent.remaining_blockers} incomplete blocker(s).`,
+      metadata: {
+        taskId: dependent.id,
+        completedTaskId: input.task.id,
+        remainingBlockers: dependent.remaining_blockers,
+        completedByUserId: input.completedByUserId
+      }
+    });
+  }
+}
@@ -1,3 +1,4 @@
+import type { PoolClient } from "pg";
 import { pool } from "../db/pool.js";
 
 export type TaskStatus = "pending" | "in_progress" | "completed" | "blocked";
@@ -19,6 +20,7 @@ type TaskRow = {
   priority: PriorityLevel;
   assigned_to: string | null;
   due_date: string | null;
+  estimated_days: number | null;
   completed_at: Date | null;
   created_by: string;
   created_at: Date;
@@ -44,9 +46,16 @@ const TASK_STATUS_TRANSITIONS: Record<TaskStatus, TaskStatus[]> = {
   completed: []
 };
 
+type TaskBlockerRow = {
+  id: string;
+  title: string;
+  status: TaskStatus;
+};
+
 type TaskTransitionResult =
   | { ok: true; task: TaskRow }
-  | { ok: false; reason: "not_found" | "invalid_transition" };
+  | { ok: false; reason: "not_found" | "invalid_transition" }
+  | { ok: false; reason: "blocked_by_dependency"; blockers: TaskBlockerRow[] };
 
 export async function listTasks(filter: ListTasksFilter, userId: string) {
   const page = filter.page ?? 1;
@@ -115,6 +124,7 @@ export async function listTasks(filter: ListTasksFilter, userId: string) {
        t.priority,
        t.assigned_to,
        t.due_date,
+       t.estimated_days,
        t.completed_at,
        t.created_by,
        t.created_at,
@@ -152,6 +162,7 @@ export async function getTaskById(taskId: string) {
        t.priority,
        t.assigned_to,
        t.due_date,
+       t.estimated_days,
        t.completed_at,
        t.created_by,
        t.created_at,
@@ -165,7 +176,7 @@ export async function getTaskById(taskId: string) {
   return result.rows[0] ?? null;
 }
 
-export async function createTask(input: {
+type TaskInput = {
   projectId: string;
   title: string;
   description?: string | null;
@@ -174,20 +185,23 @@ export async function createTask(input: {
   priority?: PriorityLevel;
   assignedTo?: string | null;
   dueDate?: string | null;
+  estimatedDays?: number | null;
   createdBy: string;
-}) {
-  const result = await pool.query<TaskRow>(
+};
+
+export async function insertTask(client: PoolClient, input: TaskInput) {
+  const result = await client.query<TaskRow>(
     `INSERT INTO tasks (
        project_id, title, description, phase, status, priority,
-       assigned_to, due_date, completed_at, created_by, created_at, updated_at
+       assigned_to, due_date, estimated_days, completed_at, created_by, created_at, updated_at
      )
      VALUES (
        $1, $2, $3, $4, $5::task_status, $6,
-       $7, $8::date, CASE WHEN $5::task_status = 'completed' THEN NOW() ELSE NULL END, $9, NOW(), NOW()
+       $7, $8::date, $10, CASE WHEN $5::task_status = 'completed' THEN NOW() ELSE NULL END, $9, NOW(), NOW()
      )
      RETURNING
        id, project_id, title, description, phase, status, priority,
-       assigned_to, due_date, completed_at, created_by, created_at, updated_at`,
+       assigned_to, due_date, estimated_days, completed_at, created_by, created_at, updated_at`,
     [
       input.projectId,
       input.title,
@@ -197,13 +211,24 @@ export async function createTask(input: {
       input.priority ?? "medium",
       input.assignedTo ?? null,
       input.dueDate ?? null,
-      input.createdBy
+      input.createdBy,
+      input.estimatedDays ?? null
     ]
   );
 
   return result.rows[0];
 }
 
+export async function createTask(input: TaskInput) {
+  const client = await pool.connect();
+
+  try {
+    return await insertTask(client, input);
+  } finally {
+    client.release();
+  }
+}
+
 export async function updateTask(
   taskId: string,
   input: {
@@ -214,10 +239,11 @@ export async function updateTask(
     priority?: PriorityLevel;
     assignedTo?: string | null;
     dueDate?: string | null;
+    estimatedDays?: number | null;
   }
 ) {
   const fields: string[] = [];
-  const values: Array<string | null> = [];
+  const values: Array<string | number | null> = [];
 
   if (typeof input.projectId !== "undefined") {
     fields.push(`project_id = $${fields.length + 1}`);
@@ -247,6 +273,10 @@ export async function updateTask(
     fields.push(`due_date = $${fields.length + 1}::date`);
     values.push(input.dueDate);
   }
+  if (typeof input.estimatedDays !== "undefined") {
+    fields.push(`estimated_days = $${fields.length + 1}`);
+    values.push(input.estimatedDays);
+  }
 
   if (fields.length === 0) {
     return getTaskById(taskId);
@@ -260,7 +290,7 @@ export async function updateTask(
      WHERE id = $${fields.length} AND deleted_at IS NULL
      RETURNING
        id, project_id, title, description, phase, status, priority,
-       assigned_to, due_date, completed_at, created_by, created_at, updated_at`,
+       assigned_to, due_date, estimated_days, completed_at, created_by, created_at, updated_at`,
     [...values, taskId]
   );
 
@@ -291,7 +321,7 @@ export async function transitionTaskStatus(input: {
     const existingTaskQuery = await client.query<TaskRow>(
       `SELECT
          id, project_id, title, description, phase, status, priority,
-         assigned_to, due_date, completed_at, created_by, created_at, updated_at
+         assigned_to, due_date, estimated_days, completed_at, created_by, created_at, updated_at
        FROM tasks
        WHERE id = $1 AND deleted_at IS NULL
        FOR UPDATE`,
@@ -310,6 +340,23 @@ export async function transitionTaskStatus(input: {
       return { ok: false, reason: "invalid_transition" };
     }
 
+    if (existingTask.status === "pending" && input.nextStatus === "in_progress") {
+      const blockersQuery = await client.query<TaskBlockerRow>(
+        `SELECT b.id, b.title, b.status
+         FROM task_dependencies d
+         INNER JOIN tasks b ON b.id = d.depends_on_task_id AND b.deleted_at IS NULL
+         WHERE d.task_id = $1
+           AND b.status <> 'completed'
+         ORDER BY b.title ASC`,
+        [input.taskId]
+      );
+
+      if (blockersQuery.rows.length > 0) {
+        await client.query("ROLLBACK");
+        return { ok: false, reason: "blocked_by_dependency", blockers: blockersQuery.rows };
+      }
+    }
+
     const updatedTaskQuery = await client.query<TaskRow>(
       `UPDATE tasks
        SET
@@ -322,7 +369,7 @@ export async function transitionTaskStatus(input: {
        WHERE id = $2
        RETURNING
          id, project_id, title, description, phase, status, priority,
-         assigned_to, due_date, completed_at, created_by, created_at, updated_at`,
+         assigned_to, due_date, estimated_days, completed_at, created_by, created_at, updated_at`,
       [input.nextStatus, input.taskId]
     );
 
@@ -344,7 +391,7 @@ export async function bulkTransitionTaskStatus(input: {
   const results: Array<{
     taskId: string;
     ok: boolean;
-    reason?: "not_found" | "invalid_transition";
+    reason?: "not_found" | "invalid_transition" | "blocked_by_dependency";
     task?: TaskRow;
   }> = [];
 
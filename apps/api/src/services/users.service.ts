@@ -1,4 +1,6 @@
+import bcrypt from "bcryptjs";
 import { pool } from "../db/pool.js";
+import type { PrincipalType } from "../types/auth.js";
 
 type UserRow = {
   id: string;
@@ -7,11 +9,19 @@ type UserRow = {
   avatar_url: string | null;
   is_active: boolean;
   is_admin: boolean;
+  principal_type: PrincipalType;
+  client_id: string | null;
+  email_verified_at: Date | null;
   last_login_at: Date | null;
   created_at: Date;
   updated_at: Date;
 };
 
+// The directory views also show whether someone has an authenticator, for admins resetting MFA.
+const MFA_ENABLED_COLUMN = `EXISTS (
+         SELECT 1 FROM user_mfa_factors f WHERE f.user_id = users.id AND f.enabled_at IS NOT NULL
+       ) AS mfa_enabled`;
+
 type AuditLogRow = {
   id: string;
   project_id: string | null;
@@ -45,7 +55,7 @@ export async function listUsers(input?: {
   const orderDirection = sortOrder.toUpperCase() === "DESC" ? "DESC" : "ASC";
 
   const [dataResult, countResult] = await Promise.all([
-    pool.query<UserRow>(
+    pool.query<UserRow & { mfa_enabled: boolean }>(
       `SELECT
          id,
          email,
@@ -53,11 +63,16 @@ export async function listUsers(input?: {
          avatar_url,
          is_active,
          is_admin,
+         principal_type,
+         client_id,
+         email_verified_at,
          last_login_at,
+         ${MFA_ENABLED_COLUMN},
          created_at,
          updated_at
        FROM users
        WHERE deleted_at IS NULL
+         AND principal_type = 'staff'
        ORDER BY ${orderColumn} ${orderDirection}
        LIMIT $1 OFFSET $2`,
       [pageSize, offset]
@@ -65,7 +80,8 @@ export async function listUsers(input?: {
     pool.query<{ total: string }>(
       `SELECT COUNT(*)::text AS total
        FROM users
-       WHERE deleted_at IS NULL`
+       WHERE deleted_at IS NULL
+         AND principal_type = 'staff'`
     )
   ]);
 
@@ -76,7 +92,7 @@ export async function listUsers(input?: {
 }
 
 export async function getUserById(userId: string) {
-  const result = await pool.query<UserRow>(
+  const result = await pool.query<UserRow & { mfa_enabled: boolean }>(
     `SELECT
        id,
        email,
@@ -84,7 +100,11 @@ export async function getUserById(userId: string) {
        avatar_url,
        is_active,
        is_admin,
+       principal_type,
+       client_id,
+       email_verified_at,
        last_login_at,
+       ${MFA_ENABLED_COLUMN},
        created_at,
        updated_at
      FROM users
@@ -134,6 +154,9 @@ export async function updateUserProfile(
        avatar_url,
        is_active,
        is_admin,
+       principal_type,
+       client_id,
+       email_verified_at,
        last_login_at,
        created_at,
        updated_at`,
@@ -156,6 +179,9 @@ export async function setUserActiveStatus(userId: string, isActive: boolean) {
        avatar_url,
        is_active,
        is_admin,
+       principal_type,
+       client_id,
+       email_verified_at,
        last_login_at,
        created_at,
        updated_at`,
@@ -165,6 +191,81 @@ export async function setUserActiveStatus(userId: string, isActive: boolean) {
   return result.rows[0] ?? null;
 }
 
+// Portal accounts for a client's own staff. They log in like everyone else but never get admin
+// rights or a project role; see hasClientPortalPermission for what they can reach.
+export async function createClientUser(input: {
+  clientId: string;
+  email: string;
+  name: string;
+  password: string;
+}): Promise<UserRow | "client_not_found" | "email_taken"> {
+  const clientExists = await pool.query<{ id: string }>(
+    `SELECT id FROM clients WHERE id = $1 AND deleted_at IS NULL LIMIT 1`,
+    [input.clientId]
+  );
+  if (clientExists.rowCount === 0) return "client_not_found";
+
+  const passwordHash = await bcrypt.hash(input.password, 12);
+
+  try {
+    const result = await pool.query<UserRow>(
+      `INSERT INTO users (email, name, password_hash, is_active, is_admin, principal_type, client_id, created_at, updated_at)
+       VALUES ($1, $2, $3, TRUE, FALSE, 'client_user', $4, NOW(), NOW())
+       RETURNING
+         id,
+         email,
+         name,
+         avatar_url,
+         is_active,
+         is_admin,
+         principal_type,
+         client_id,
+         email_verified_at,
+         last_login_at,
+         created_at,
+         updated_at`,
+      [input.email, input.name, passwordHash, input.clientId]
+    );
+
+    return result.rows[0];
+  } catch (error) {
+    if (
+      typeof error === "object" &&
+      error !== null &&
+      "code" in error &&
+      (error as { code?: string }).code === "23505"
+    ) {
+      return "email_taken";
+    }
+    throw error;
+  }
+}
+
+export async function listClientUsers(clientId: string) {
+  const result = await pool.query<UserRow>(
+    `SELECT
+       id,
+       email,
+       name,
+       avatar_url,
+       is_active,
+       is_admin,
+       principal_type,
+       client_id,
+       email_verified_at,
+       last_login_at,
+       created_at,
+       updated_at
+     FROM users
+     WHERE client_id = $1
+       AND deleted_at IS NULL
+     ORDER BY LOWER(name) ASC`,
+    [clientId]
+  );
+
+  return result.rows;
+}
+
 export async function resetUserProjectRoles(userId: string, projectId?: string) {
   const result = await pool.query<{ project_id: string }>(
     `DELETE FROM project_team
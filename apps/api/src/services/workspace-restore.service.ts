@@ -0,0 +1,301 @@
+import bcrypt from "bcryptjs";
+import { createHash, randomBytes } from "node:crypto";
+import readline from "node:readline";
+import type { PoolClient } from "pg";
+import { z } from "zod";
+import { pool } from "../db/pool.js";
+import { openZipArchive } from "../utils/zip.js";
+import { DATA_EXPORT_FORMAT_VERSION, quoteIdentifier } from "./data-exports.service.js";
+
+export type RestoreFailureReason = "invalid_archive" | "format_mismatch" | "schema_mismatch" | "not_empty";
+
+const STAGE_BATCH_SIZE = 500;
+
+// Login activity and the accounts themselves may already exist in the target; anything else means the
+// restore would mix two workspaces.
+const RESTORE_PRESERVED_TABLES = new Set(["users", "activity_log"]);
+
+// Redacted columns that are NOT NULL get a value nobody knows: restored people sign in after a password
+// reset, and share links must be issued again.
+function redactedColumnFills(placeholderPasswordHash: string): Record<string, Record<string, string>> {
+  return {
+    users: { password_hash: `'${placeholderPasswordHash}'` },
+    file_share_links: { token_hash: `encode(sha256(convert_to(gen_random_uuid()::text, 'UTF8')), 'hex')` }
+  };
+}
+
+const manifestHeaderSchema = z.object({
+  format: z.string(),
+  formatVersion: z.number().int()
+});
+
+const manifestSchema = z.object({
+  format: z.literal("adfix-workspace-export"),
+  formatVersion: z.number().int(),
+  schemaVersion: z.string().nullable(),
+  exportId: z.string().uuid(),
+  generatedAt: z.string(),
+  tables: z.array(
+    z.object({
+      name: z.string().min(1),
+      path: z.string().min(1),
+      rowCount: z.number().int().min(0),
+      checksumSha256: z.string().length(64),
+      primaryKey: z.array(z.string()),
+      columns: z.array(z.object({ name: z.string(), type: z.string(), nullable: z.boolean() })).min(1),
+      redactedColumns: z.array(z.string())
+    })
+  )
+});
+
+type ManifestTable = z.infer<typeof manifestSchema>["tables"][number];
+
+function failure(reason: RestoreFailureReason, message: string) {
+  return { ok: false as const, reason, message };
+}
+
+async function readEntryText(stream: NodeJS.ReadableStream) {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+async function describeTargetTables(client: PoolClient) {
+  const [columns, userReferences] = await Promise.all([
+    client.query<{ table_name: string; column_name: string }>(
+      `SELECT c.table_name, c.column_name
+       FROM information_schema.columns c
+       INNER JOIN information_schema.tables t
+         ON t.table_schema = c.table_schema AND t.table_name = c.table_name
+       WHERE c.table_schema = 'public'
+         AND t.table_type = 'BASE TABLE'`
+    ),
+    client.query<{ table_name: string; column_name: string }>(
+      `SELECT source.relname AS table_name, a.attname AS column_name
+       FROM pg_constraint c
+       INNER JOIN pg_class source ON source.oid = c.conrelid
+       INNER JOIN pg_attribute a ON a.attrelid = c.conrelid AND a.attnum = c.conkey[1]
+       WHERE c.contype = 'f'
+         AND c.confrelid = 'public.users'::regclass
+         AND array_length(c.conkey, 1) = 1`
+    )
+  ]);
+
+  const columnsByTable = new Map<string, Set<string>>();
+  for (const row of columns.rows) {
+    const tableColumns = columnsByTable.get(row.table_name) ?? new Set<string>();
+    tableColumns.add(row.column_name);
+    columnsByTable.set(row.table_name, tableColumns);
+  }
+
+  const userColumnsByTable = new Map<string, Set<string>>();
+  for (const row of userReferences.rows) {
+    const tableColumns = userColumnsByTable.get(row.table_name) ?? new Set<string>();
+    tableColumns.add(row.column_name);
+    userColumnsByTable.set(row.table_name, tableColumns);
+  }
+
+  return { columnsByTable, userColumnsByTable };
+}
+
+// Copies one JSON-lines file into the staging table, checking it against the manifest on the way.
+async function stageTable(client: PoolClient, stream: NodeJS.ReadableStream, table: ManifestTable) {
+  await client.query(`TRUNCATE restore_rows`);
+
+  const hash = createHash("sha256");
+  stream.on("data", (chunk: Buffer) => hash.update(chunk));
+
+  let rows = 0;
+  let batch: string[] = [];
+  const flush = async () => {
+    if (batch.length === 0) return;
+    await client.query(`INSERT INTO restore_rows (row) SELECT line::jsonb FROM unnest($1::text[]) AS line`, [batch]);
+    batch = [];
+  };
+
+  for await (const line of readline.createInterface({ input: stream, crlfDelay: Infinity })) {
+    if (line.length === 0) continue;
+    rows += 1;
+    batch.push(line);
+    if (batch.length >= STAGE_BATCH_SIZE) {
+      await flush();
+    }
+  }
+  await flush();
+
+  return { rows, checksumSha256: hash.digest("hex") };
+}
+
+function buildInsert(
+  table: ManifestTable,
+  userColumns: Set<string>,
+  fills: Record<string, string>
+) {
+  const columns = table.columns.map((column) => column.name);
+  const values = columns.map((column) => {
+    const source = `r.${quoteIdentifier(column)}`;
+    return userColumns.has(column)
+      ? `COALESCE((SELECT m.target_id FROM restore_user_map m WHERE m.source_id = ${source}), ${source})`
+      : source;
+  });
+  for (const column of table.redactedColumns) {
+    if (fills[column]) {
+      columns.push(column);
+      values.push(fills[column]);
+    }
+  }
+
+  // Accounts matched by email already exist in the target, so only the rest are inserted.
+  const skipMatchedUsers =
+    table.name === "users"
+      ? `WHERE NOT EXISTS (SELECT 1 FROM restore_user_map m WHERE m.source_id = r.id)`
+      : "";
+
+  return `INSERT INTO ${quoteIdentifier(table.name)} (${columns.map(quoteIdentifier).join(", ")})
+          SELECT ${values.join(", ")}
+          FROM restore_rows s
+          CROSS JOIN LATERAL jsonb_populate_record(NULL::${quoteIdentifier(table.name)}, s.row) r
+          ${skipMatchedUsers}`;
+}
+
+// Loads a workspace export archive into a database at the same schema version, keeping ids and
+// timestamps. Users whose email already has an account are mapped onto it, and every reference to
+// them follows. Everything runs in one transaction; `dryRun` rolls it back after the checks and loads.
+export async function restoreWorkspaceArchive(input: { archivePath: string; dryRun?: boolean }) {
+  const startedAt = Date.now();
+
+  let archive: Awaited<ReturnType<typeof openZipArchive>>;
+  try {
+    archive = await openZipArchive(input.archivePath);
+  } catch (error) {
+    return failure("invalid_archive", error instanceof Error ? error.message : "Could not read the archive");
+  }
+  if (!archive.has("manifest.json")) {
+    return failure("invalid_archive", "The archive has no manifest.json");
+  }
+
+  let rawManifest: unknown;
+  try {
+    rawManifest = JSON.parse(await readEntryText(archive.openEntry("manifest.json")));
+  } catch {
+    return failure("invalid_archive", "manifest.json is not valid JSON");
+  }
+
+  const header = manifestHeaderSchema.safeParse(rawManifest);
+  if (!header.success) {
+    return failure("invalid_archive", "manifest.json is missing its format");
+  }
+  if (header.data.format !== "adfix-workspace-export" || header.data.formatVersion !== DATA_EXPORT_FORMAT_VERSION) {
+    return failure(
+      "format_mismatch",
+      `Expected an adfix-workspace-export archive at format version ${DATA_EXPORT_FORMAT_VERSION}, ` +
+        `got ${header.data.format} version ${header.data.formatVersion}`
+    );
+  }
+
+  const parsedManifest = manifestSchema.safeParse(rawManifest);
+  if (!parsedManifest.success) {
+    return failure("invalid_archive", "manifest.json does not describe a workspace export");
+  }
+  const manifest = parsedManifest.data;
+  const missingFiles = manifest.tables.filter((table) => !archive.has(table.path)).map((table) => table.path);
+  if (missingFiles.length > 0) {
+    return failure("invalid_archive", `The archive is missing ${missingFiles.join(", ")}`);
+  }
+
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+
+    const migration = await client.query<{ filename: string }>(
+      `SELECT filename FROM schema_migrations ORDER BY filename DESC LIMIT 1`
+    );
+    const schemaVersion = migration.rows[0]?.filename ?? null;
+    if (schemaVersion !== manifest.schemaVersion) {
+      await client.query("ROLLBACK");
+      return failure(
+        "schema_mismatch",
+        `The archive was exported at ${manifest.schemaVersion ?? "no migrations"}, ` +
+          `this database is at ${schemaVersion ?? "no migrations"}`
+      );
+    }
+
+    const { columnsByTable, userColumnsByTable } = await describeTargetTables(client);
+    const unknownColumns = manifest.tables.flatMap((table) => {
+      const targetColumns = columnsByTable.get(table.name);
+      if (!targetColumns) return [table.name];
+      return [...table.columns.map((column) => column.name), ...table.redactedColumns]
+        .filter((column) => !targetColumns.has(column))
+        .map((column) => `${table.name}.${column}`);
+    });
+    if (unknownColumns.length > 0) {
+      await client.query("ROLLBACK");
+      return failure("schema_mismatch", `This database has no ${unknownColumns.join(", ")}`);
+    }
+
+    const occupied: string[] = [];
+    for (const table of manifest.tables) {
+      if (RESTORE_PRESERVED_TABLES.has(table.name)) continue;
+      const existing = await client.query<{ has_rows: boolean }>(
+        `SELECT EXISTS (SELECT 1 FROM ${quoteIdentifier(table.name)}) AS has_rows`
+      );
+      if (existing.rows[0].has_rows) occupied.push(table.name);
+    }
+    if (occupied.length > 0) {
+      await client.query("ROLLBACK");
+      return failure("not_empty", `Restore needs an empty workspace; ${occupied.join(", ")} already have rows`);
+    }
+
+    await client.query(`CREATE TEMP TABLE restore_rows (row JSONB NOT NULL) ON COMMIT DROP`);
+    await client.query(
+      `CREATE TEMP TABLE restore_user_map (source_id UUID PRIMARY KEY, target_id UUID NOT NULL) ON COMMIT DROP`
+    );
+
+    const fills = redactedColumnFills(await bcrypt.hash(randomBytes(32).toString("hex"), 12));
+    const restoredTables: Array<{ name: string; rows: number }> = [];
+    let matchedUsers = 0;
+
+    for (const table of manifest.tables) {
+      const staged = await stageTable(client, archive.openEntry(table.path), table);
+      if (staged.rows !== table.rowCount || staged.checksumSha256 !== table.checksumSha256) {
+        await client.query("ROLLBACK");
+        return failure("invalid_archive", `${table.path} does not match its manifest entry`);
+      }
+
+      if (table.name === "users") {
+        const matched = await client.query(
+          `INSERT INTO restore_user_map (source_id, target_id)
+           SELECT (s.row->>'id')::uuid, u.id
+           FROM restore_rows s
+           INNER JOIN users u ON u.email = (s.row->>'email')::citext`
+        );
+        matchedUsers = matched.rowCount ?? 0;
+      }
+
+      const inserted = await client.query(
+        buildInsert(table, userColumnsByTable.get(table.name) ?? new Set(), fills[table.name] ?? {})
+      );
+      restoredTables.push({ name: table.name, rows: inserted.rowCount ?? 0 });
+    }
+
+    await client.query(input.dryRun ? "ROLLBACK" : "COMMIT");
+
+    return {
+      ok: true as const,
+      dryRun: Boolean(input.dryRun),
+      exportId: manifest.exportId,
+      generatedAt: manifest.generatedAt,
+      schemaVersion,
+      tables: restoredTables,
+      matchedUsers,
+      durationMs: Date.now() - startedAt
+    };
+  } catch (error) {
+    await client.query("ROLLBACK").catch(() => undefined);
+    throw error;
+  } finally {
+    client.release();
+  }
+}
@@ -0,0 +1,187 @@
+import crypto from "node:crypto";
+import { createReadStream, createWriteStream } from "node:fs";
+import { mkdir, rename, rm, stat } from "node:fs/promises";
+import path from "node:path";
+import type { Readable } from "node:stream";
+import { Transform } from "node:stream";
+import { pipeline } from "node:stream/promises";
+import type { PutObjectResult, SignedStorageUrl, StorageDriver } from "./storage-driver.js";
+
+type SignedParams = {
+  method: "PUT" | "GET";
+  key: string;
+  expires: string;
+  contentType: string;
+  maxBytes?: string;
+  fileName?: string;
+};
+
+export type VerifiedLocalRequest =
+  | {
+      ok: true;
+      objectKey: string;
+      contentType: string;
+      maxBytes: number | null;
+      fileName: string | null;
+    }
+  | { ok: false; reason: "invalid_signature" | "expired" };
+
+export type LocalStorageDriver = StorageDriver & {
+  verifySignedRequest(method: string, query: Record<string, unknown>): VerifiedLocalRequest;
+};
+
+const SIGNED_PARAM_NAMES = ["method", "key", "expires", "contentType", "maxBytes", "fileName"] as const;
+
+export function createLocalStorageDriver(options: {
+  root: string;
+  baseUrl: string;
+  signingSecret: string;
+}): LocalStorageDriver {
+  const root = path.resolve(options.root);
+  const objectsUrl = `${options.baseUrl.replace(/\/+$/, "")}/storage/objects`;
+
+  function resolveObjectPath(objectKey: string) {
+    const resolved = path.resolve(root, objectKey);
+    if (!resolved.startsWith(`${root}${path.sep}`)) {
+      throw new Error(`Object key escapes the storage root: ${objectKey}`);
+    }
+    return resolved;
+  }
+
+  function sign(params: SignedParams) {
+    const canonical = SIGNED_PARAM_NAMES.map((name) => `${name}=${params[name] ?? ""}`).join("\n");
+    return crypto.createHmac("sha256", options.signingSecret).update(canonical).digest("hex");
+  }
+
+  function buildSignedUrl(params: SignedParams): SignedStorageUrl {
+    const query = new URLSearchParams();
+    for (const name of SIGNED_PARAM_NAMES) {
+      const value = params[name];
+      if (typeof value !== "undefined") query.set(name, value);
+    }
+    query.set("signature", sign(params));
+
+    return {
+      url: `${objectsUrl}?${query.toString()}`,
+      method: params.method,
+      headers: params.method === "PUT" ? { "content-type": params.contentType } : {},
+      expiresAt: new Date(Number(params.expires) * 1000)
+    };
+  }
+
+  function expiresIn(seconds: number) {
+    return String(Math.floor(Date.now() / 1000) + seconds);
+  }
+
+  return {
+    name: "local",
+
+    createUploadUrl(input) {
+      return buildSignedUrl({
+        method: "PUT",
+        key: input.objectKey,
+        expires: expiresIn(input.expiresInSeconds),
+        contentType: input.contentType,
+        maxBytes: String(input.maxBytes)
+      });
+    },
+
+    createDownloadUrl(input) {
+      return buildSignedUrl({
+        method: "GET",
+        key: input.objectKey,
+        expires: expiresIn(input.expiresInSeconds),
+        contentType: input.contentType,
+        fileName: input.fileName
+      });
+    },
+
+    verifySignedRequest(method, query) {
+      const read = (name: string) => (typeof query[name] === "string" ? (query[name] as string) : undefined);
+      const params: SignedParams = {
+        method: method === "PUT" ? "PUT" : "GET",
+        key: read("key") ?? "",
+        expires: read("expires") ?? "",
+        contentType: read("contentType") ?? "",
+        maxBytes: read("maxBytes"),
+        fileName: read("fileName")
+      };
+      const signature = read("signature") ?? "";
+
+      if (read("method") !== method || !params.key || !/^\d+$/.test(params.expires)) {
+        return { ok: false, reason: "invalid_signature" };
+      }
+
+      const expected = Buffer.from(sign(params), "hex");
+      const provided = Buffer.from(signature, "hex");
+      if (expected.length !== provided.length || !crypto.timingSafeEqual(expected, provided)) {
+        return { ok: false, reason: "invalid_signature" };
+      }
+
+      if (Number(params.expires) * 1000 < Date.now()) {
+        return { ok: false, reason: "expired" };
+      }
+
+      return {
+        ok: true,
+        objectKey: params.key,
+        contentType: params.contentType,
+        maxBytes: params.maxBytes ? Number(params.maxBytes) : null,
+        fileName: params.fileName ?? null
+      };
+    },
+
+    async putObject(objectKey, body, input): Promise<PutObjectResult> {
+      const target = resolveObjectPath(objectKey);
+      const partial = `${target}.${crypto.randomBytes(6).toString("hex")}.part`;
+      await mkdir(path.dirname(target), { recursive: true });
+
+      const hash = crypto.createHash("sha256");
+      let size = 0;
+      let tooLarge = false;
+      const meter = new Transform({
+        transform(chunk: Buffer, _encoding, callback) {
+          size += chunk.length;
+          if (size > input.maxBytes) {
+            tooLarge = true;
+            callback(new Error(`Object exceeds ${input.maxBytes} bytes`));
+            return;
+          }
+          hash.update(chunk);
+          callback(null, chunk);
+        }
+      });
+
+      try {
+        await pipeline(body, meter, createWriteStream(partial));
+      } catch (error) {
+        await rm(partial, { force: true });
+        if (tooLarge) {
+          return { ok: false, reason: "too_large" };
+        }
+        throw error;
+      }
+
+      await rename(partial, target);
+      return { ok: true, size, checksumSha256: hash.digest("hex") };
+    },
+
+    async headObject(objectKey) {
+      try {
+        const stats = await stat(resolveObjectPath(objectKey));
+        return stats.isFile() ? { size: stats.size, contentType: null } : null;
+      } catch {
+        return null;
+      }
+    },
+
+    async getObjectStream(objectKey): Promise<Readable | null> {
+      const info = await this.headObject(objectKey);
+      return info ? createReadStream(resolveObjectPath(objectKey)) : null;
+    },
+
+    async deleteObject(objectKey) {
+      await rm(resolveObjectPath(objectKey), { force: true });
+    }
+  };
+}
@@ -0,0 +1,141 @@
+import crypto from "node:crypto";
+import { Readable } from "node:stream";
+import type { ReadableStream as WebReadableStream } from "node:stream/web";
+import type { PutObjectResult, SignedStorageUrl, StorageDriver } from "./storage-driver.js";
+import { buildContentDisposition, readStreamWithLimit } from "./storage-driver.js";
+
+type S3Method = "PUT" | "GET" | "HEAD" | "DELETE";
+
+export type S3StorageOptions = {
+  endpoint: string;
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  forcePathStyle: boolean;
+};
+
+function encodeRfc3986(value: string) {
+  return encodeURIComponent(value).replace(/[!'()*]/g, (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+function hmac(key: crypto.BinaryLike, value: string) {
+  return crypto.createHmac("sha256", key).update(value).digest();
+}
+
+function formatAmzDate(date: Date) {
+  return date.toISOString().replace(/[:-]/g, "").replace(/\.\d{3}/, "");
+}
+
+// Presigned URLs follow AWS Signature Version 4 query authentication, which MinIO and other
+// S3-compatible stores accept as well.
+export function createS3StorageDriver(options: S3StorageOptions): StorageDriver {
+  const endpoint = new URL(options.endpoint);
+
+  function objectLocation(objectKey: string) {
+    const encodedKey = objectKey.split("/").map(encodeRfc3986).join("/");
+    if (options.forcePathStyle) {
+      return { host: endpoint.host, pathname: `/${options.bucket}/${encodedKey}` };
+    }
+    return { host: `${options.bucket}.${endpoint.host}`, pathname: `/${encodedKey}` };
+  }
+
+  function presign(method: S3Method, objectKey: string, expiresInSeconds: number, extraQuery: Record<string, string> = {}) {
+    const now = new Date();
+    const amzDate = formatAmzDate(now);
+    const dateStamp = amzDate.slice(0, 8);
+    const scope = `${dateStamp}/${options.region}/s3/aws4_request`;
+    const { host, pathname } = objectLocation(objectKey);
+
+    const query: Record<string, string> = {
+      ...extraQuery,
+      "X-Amz-Algorithm": "AWS4-HMAC-SHA256",
+      "X-Amz-Credential": `${options.accessKeyId}/${scope}`,
+      "X-Amz-Date": amzDate,
+      "X-Amz-Expires": String(expiresInSeconds),
+      "X-Amz-SignedHeaders": "host"
+    };
+    const canonicalQuery = Object.keys(query)
+      .sort()
+      .map((name) => `${encodeRfc3986(name)}=${encodeRfc3986(query[name])}`)
+      .join("&");
+
+    const canonicalRequest = [method, pathname, canonicalQuery, `host:${host}`, "", "host", "UNSIGNED-PAYLOAD"].join("\n");
+    const stringToSign = [
+      "AWS4-HMAC-SHA256",
+      amzDate,
+      scope,
+      crypto.createHash("sha256").update(canonicalRequest).digest("hex")
+    ].join("\n");
+
+    const signingKey = hmac(
+      hmac(hmac(hmac(`AWS4${options.secretAccessKey}`, dateStamp), options.region), "s3"),
+      "aws4_request"
+    );
+    const signature = crypto.createHmac("sha256", signingKey).update(stringToSign).digest("hex");
+
+    return {
+      url: `${endpoint.protocol}//${host}${pathname}?${canonicalQuery}&X-Amz-Signature=${signature}`,
+      expiresAt: new Date(now.getTime() + expiresInSeconds * 1000)
+    };
+  }
+
+  async function send(method: S3Method, objectKey: string, init?: { body?: Buffer; headers?: Record<string, string> }) {
+    const { url } = presign(method, objectKey, 60);
+    const response = await fetch(url, { method, body: init?.body, headers: init?.headers });
+    if (response.status === 404 && method !== "PUT") {
+      return null;
+    }
+    if (!response.ok) {
+      throw new Error(`S3 ${method} ${objectKey} failed with status ${response.status}`);
+    }
+    return response;
+  }
+
+  return {
+    name: "s3",
+
+    createUploadUrl(input): SignedStorageUrl {
+      const signed = presign("PUT", input.objectKey, input.expiresInSeconds);
+      return { ...signed, method: "PUT", headers: { "content-type": input.contentType } };
+    },
+
+    createDownloadUrl(input): SignedStorageUrl {
+      const signed = presign("GET", input.objectKey, input.expiresInSeconds, {
+        "response-content-disposition": buildContentDisposition(input.fileName),
+        "response-content-type": input.contentType
+      });
+      return { ...signed, method: "GET", headers: {} };
+    },
+
+    async putObject(objectKey, body, input): Promise<PutObjectResult> {
+      // Presigned PUTs need a known Content-Length, so the body is buffered up to the limit.
+      const read = await readStreamWithLimit(body, input.maxBytes);
+      if (!read) {
+        return { ok: false, reason: "too_large" };
+      }
+
+      await send("PUT", objectKey, { body: read.buffer, headers: { "content-type": input.contentType } });
+      return { ok: true, size: read.size, checksumSha256: read.checksumSha256 };
+    },
+
+    async headObject(objectKey) {
+      const response = await send("HEAD", objectKey);
+      if (!response) return null;
+      return {
+        size: Number(response.headers.get("content-length") ?? 0),
+        contentType: response.headers.get("content-type")
+      };
+    },
+
+    async getObjectStream(objectKey) {
+      const response = await send("GET", objectKey);
+      if (!response?.body) return null;
+      return Readable.fromWeb(response.body as WebReadableStream);
+    },
+
+    async deleteObject(objectKey) {
+      await send("DELETE", objectKey);
+    }
+  };
+}
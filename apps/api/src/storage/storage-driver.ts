@@ -0,0 +1,69 @@
+import crypto from "node:crypto";
+import type { Readable } from "node:stream";
+
+export type StorageDriverName = "local" | "s3";
+
+export type SignedStorageUrl = {
+  url: string;
+  method: "PUT" | "GET";
+  headers: Record<string, string>;
+  expiresAt: Date;
+};
+
+export type StoredObjectInfo = {
+  size: number;
+  contentType: string | null;
+};
+
+export type PutObjectResult =
+  | { ok: true; size: number; checksumSha256: string }
+  | { ok: false; reason: "too_large" };
+
+export type StorageDriver = {
+  name: StorageDriverName;
+  createUploadUrl(input: {
+    objectKey: string;
+    contentType: string;
+    maxBytes: number;
+    expiresInSeconds: number;
+  }): SignedStorageUrl;
+  createDownloadUrl(input: {
+    objectKey: string;
+    fileName: string;
+    contentType: string;
+    expiresInSeconds: number;
+  }): SignedStorageUrl;
+  putObject(
+    objectKey: string,
+    body: Readable,
+    input: { contentType: string; maxBytes: number }
+  ): Promise<PutObjectResult>;
+  headObject(objectKey: string): Promise<StoredObjectInfo | null>;
+  getObjectStream(objectKey: string): Promise<Readable | null>;
+  deleteObject(objectKey: string): Promise<void>;
+};
+
+// Reads a stream fully while enforcing a byte limit; returns null once the limit is crossed.
+export async function readStreamWithLimit(body: Readable, maxBytes: number) {
+  const chunks: Buffer[] = [];
+  const hash = crypto.createHash("sha256");
+  let size = 0;
+
+  for await (const chunk of body) {
+    const buffer = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+    size += buffer.length;
+    if (size > maxBytes) {
+      body.destroy();
+      return null;
+    }
+    hash.update(buffer);
+    chunks.push(buffer);
+  }
+
+  return { buffer: Buffer.concat(chunks), size, checksumSha256: hash.digest("hex") };
+}
+
+export function buildContentDisposition(fileName: string) {
+  const asciiName = fileName.replace(/[^\x20-\x7e]/g, "_").replace(/["\\]/g, "_");
+  return `attachment; filename="${asciiName}"; filename*=UTF-8''${encodeURIComponent(fileName)}`;
+}
@@ -1,6 +1,18 @@
+import type { ProjectPermission } from "../services/rbac.service.js";
+
+export type PrincipalType = "staff" | "client_user";
+
 export type AuthenticatedUser = {
   id: string;
   email: string;
   name: string;
   isAdmin: boolean;
+  principalType: PrincipalType;
+  // Set only for client users: the client whose projects the portal exposes.
+  clientId: string | null;
+  // Set when the request came with a personal API token instead of a session.
+  apiToken?: {
+    id: string;
+    scopes: ProjectPermission[];
+  };
 };
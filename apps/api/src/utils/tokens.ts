@@ -2,12 +2,15 @@ import { randomUUID, createHash } from "node:crypto";
 import jwt from "jsonwebtoken";
 import type { SignOptions, Secret } from "jsonwebtoken";
 import { env } from "../config/env.js";
+import type { PrincipalType } from "../types/auth.js";
 
 export type AccessTokenPayload = {
   userId: string;
   email: string;
   name: string;
   isAdmin: boolean;
+  principalType: PrincipalType;
+  clientId: string | null;
   tokenType: "access";
 };
 
@@ -17,6 +20,18 @@ export type RefreshTokenPayload = {
   tokenType: "refresh";
 };
 
+export type MfaChallengePurpose = "verify" | "enroll";
+
+// Issued after a correct password when a second factor is still owed. It cannot be used as an access
+// token (wrong `tokenType`) and only lives long enough to type a code.
+export type MfaChallengePayload = {
+  userId: string;
+  purpose: MfaChallengePurpose;
+  tokenType: "mfa_challenge";
+};
+
+export const MFA_CHALLENGE_TTL_SECONDS = 5 * 60;
+
 export function signAccessToken(payload: Omit<AccessTokenPayload, "tokenType">): string {
   const secret: Secret = env.JWT_ACCESS_SECRET;
   const options: SignOptions = { expiresIn: env.ACCESS_TOKEN_TTL as SignOptions["expiresIn"] };
@@ -41,6 +56,16 @@ export function signRefreshToken(payload: Omit<RefreshTokenPayload, "tokenType">
   );
 }
 
+export function signMfaChallengeToken(payload: Omit<MfaChallengePayload, "tokenType">): string {
+  return jwt.sign({ ...payload, tokenType: "mfa_challenge" }, env.JWT_ACCESS_SECRET, {
+    expiresIn: MFA_CHALLENGE_TTL_SECONDS
+  });
+}
+
+export function verifyMfaChallengeToken(token: string): MfaChallengePayload {
+  return jwt.verify(token, env.JWT_ACCESS_SECRET) as MfaChallengePayload;
+}
+
 export function verifyAccessToken(token: string): AccessTokenPayload {
   return jwt.verify(token, env.JWT_ACCESS_SECRET) as AccessTokenPayload;
 }
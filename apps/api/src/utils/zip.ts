@@ -0,0 +1,115 @@
+import { createReadStream } from "node:fs";
+import { open } from "node:fs/promises";
+import { pipeline, Readable } from "node:stream";
+import zlib from "node:zlib";
+
+type ZipEntry = {
+  name: string;
+  method: number;
+  compressedSize: number;
+  size: number;
+  dataOffset: number;
+};
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+const ZIP64_MARKER = 0xffffffff;
+
+// Reads a ZIP's central directory so entries can be streamed one at a time without loading the archive.
+// Covers what `archiver` writes for exports: stored or deflated entries and no ZIP64.
+export async function openZipArchive(filePath: string) {
+  const handle = await open(filePath, "r");
+
+  try {
+    const { size: fileSize } = await handle.stat();
+    const tailLength = Math.min(fileSize, 22 + 0xffff);
+    const tail = Buffer.alloc(tailLength);
+    await handle.read(tail, 0, tailLength, fileSize - tailLength);
+
+    let endOffset = -1;
+    for (let offset = tailLength - 22; offset >= 0; offset -= 1) {
+      if (tail.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) {
+        endOffset = offset;
+        break;
+      }
+    }
+    if (endOffset < 0) {
+      throw new Error("Not a ZIP archive");
+    }
+
+    const entryCount = tail.readUInt16LE(endOffset + 10);
+    const directorySize = tail.readUInt32LE(endOffset + 12);
+    const directoryOffset = tail.readUInt32LE(endOffset + 16);
+    if (entryCount === 0xffff || directoryOffset === ZIP64_MARKER) {
+      throw new Error("ZIP64 archives are not supported");
+    }
+
+    const directory = Buffer.alloc(directorySize);
+    await handle.read(directory, 0, directorySize, directoryOffset);
+
+    const entries = new Map<string, ZipEntry>();
+    let offset = 0;
+    for (let index = 0; index < entryCount; index += 1) {
+      if (directory.readUInt32LE(offset) !== CENTRAL_DIRECTORY_HEADER) {
+        throw new Error("Corrupt ZIP central directory");
+      }
+      const method = directory.readUInt16LE(offset + 10);
+      const compressedSize = directory.readUInt32LE(offset + 20);
+      const size = directory.readUInt32LE(offset + 24);
+      const nameLength = directory.readUInt16LE(offset + 28);
+      const extraLength = directory.readUInt16LE(offset + 30);
+      const commentLength = directory.readUInt16LE(offset + 32);
+      const localHeaderOffset = directory.readUInt32LE(offset + 42);
+      if (compressedSize === ZIP64_MARKER || size === ZIP64_MARKER || localHeaderOffset === ZIP64_MARKER) {
+        throw new Error("ZIP64 archives are not supported");
+      }
+
+      // Streamed entries carry their sizes only in the central directory, but the local header's own
+      // name and extra lengths decide where the data starts.
+      const localHeader = Buffer.alloc(30);
+      await handle.read(localHeader, 0, 30, localHeaderOffset);
+      if (localHeader.readUInt32LE(0) !== LOCAL_FILE_HEADER) {
+        throw new Error("Corrupt ZIP local file header");
+      }
+
+      const name = directory.toString("utf8", offset + 46, offset + 46 + nameLength);
+      entries.set(name, {
+        name,
+        method,
+        compressedSize,
+        size,
+        dataOffset: localHeaderOffset + 30 + localHeader.readUInt16LE(26) + localHeader.readUInt16LE(28)
+      });
+      offset += 46 + nameLength + extraLength + commentLength;
+    }
+
+    return {
+      names: [...entries.keys()],
+      has: (name: string) => entries.has(name),
+      openEntry(name: string): Readable {
+        const entry = entries.get(name);
+        if (!entry) {
+          throw new Error(`ZIP entry "${name}" not found`);
+        }
+        if (entry.method !== 0 && entry.method !== 8) {
+          throw new Error(`ZIP entry "${name}" uses unsupported compression method ${entry.method}`);
+        }
+        if (entry.compressedSize === 0) {
+          return Readable.from([]);
+        }
+
+        const source = createReadStream(filePath, {
+          start: entry.dataOffset,
+          end: entry.dataOffset + entry.compressedSize - 1
+        });
+        if (entry.method === 0) {
+          return source;
+        }
+        return pipeline(source, zlib.createInflateRaw(), () => undefined);
+      }
+    };
+  } finally {
+    await handle.close();
+  }
+}
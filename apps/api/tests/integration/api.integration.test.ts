@@ -1,8 +1,33 @@
 import bcrypt from "bcryptjs";
+import crypto from "node:crypto";
+import ExcelJS from "exceljs";
+import { mkdtemp, readdir, rm, writeFile } from "node:fs/promises";
+import http from "node:http";
+import net, { type AddressInfo } from "node:net";
+import os from "node:os";
+import path from "node:path";
+import { Readable } from "node:stream";
+import zlib from "node:zlib";
+import sharp from "sharp";
 import request from "supertest";
 import { afterAll, beforeEach, describe, expect, it } from "vitest";
 import { createApp } from "../../src/app.js";
+import { env } from "../../src/config/env.js";
 import { pool } from "../../src/db/pool.js";
+import { createOutboxTransport } from "../../src/mail/outbox-transport.js";
+import { startMockOidcProvider } from "../../src/oidc/mock-provider.js";
+import { createOidcClient } from "../../src/oidc/oidc-client.js";
+import { createSmtpTransport } from "../../src/mail/smtp-transport.js";
+import { createClamAvScanner } from "../../src/scanning/clamav-scanner.js";
+import { createNoopScanner } from "../../src/scanning/noop-scanner.js";
+import { setPdfPageRenderer } from "../../src/services/file-previews.service.js";
+import { setFileScanner } from "../../src/services/file-scan.service.js";
+import { setMailTransport } from "../../src/services/mail.service.js";
+import { setOidcProvider } from "../../src/services/oidc.service.js";
+import { getLocalStorageDriver } from "../../src/services/storage.service.js";
+import { restoreWorkspaceArchive } from "../../src/services/workspace-restore.service.js";
+import { totpCodeForStep, totpStepAt } from "../../src/utils/totp.js";
+import { createS3StorageDriver } from "../../src/storage/s3-driver.js";
 
 type LoginResult = {
   accessToken: string;
@@ -11,6 +36,32 @@ type LoginResult = {
 
 const app = createApp();
 
+// Minimal ZIP reader for export bundles: walks the central directory and inflates each entry.
+function readZipEntries(archive: Buffer) {
+  const entries = new Map<string, Buffer>();
+  const endOffset = archive.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]));
+  const entryCount = archive.readUInt16LE(endOffset + 10);
+  let offset = archive.readUInt32LE(endOffset + 16);
+
+  for (let index = 0; index < entryCount; index += 1) {
+    const method = archive.readUInt16LE(offset + 10);
+    const compressedSize = archive.readUInt32LE(offset + 20);
+    const nameLength = archive.readUInt16LE(offset + 28);
+    const extraLength = archive.readUInt16LE(offset + 30);
+    const commentLength = archive.readUInt16LE(offset + 32);
+    const localOffset = archive.readUInt32LE(offset + 42);
+    const name = archive.subarray(offset + 46, offset + 46 + nameLength).toString("utf8");
+
+    const dataStart =
+      localOffset + 30 + archive.readUInt16LE(localOffset + 26) + archive.readUInt16LE(localOffset + 28);
+    const data = archive.subarray(dataStart, dataStart + compressedSize);
+    entries.set(name, method === 8 ? zlib.inflateRawSync(data) : Buffer.from(data));
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
 const adminUser = {
   email: "admin@adfix.local",
   name: "Adfix Admin",
@@ -19,7 +70,7 @@ const adminUser = {
 
 async function resetDatabase() {
   await pool.query(
-    `TRUNCATE TABLE notifications, activity_log, project_team, task_comments, files, tasks, projects, auth_sessions, clients, users RESTART IDENTITY CASCADE`
+    `TRUNCATE TABLE api_tokens, oidc_login_attempts, user_identities, user_invitations, user_email_tokens, workspace_settings, user_mfa_recovery_codes, user_mfa_factors, data_exports, board_imports, import_run_rows, import_runs, client_merges, project_stakeholders, client_contacts, notifications, activity_log, file_approvals, file_export_bundles, file_share_links, file_previews, file_folders, project_phase_history, project_template_tasks, project_templates, task_dependencies, project_team, task_comments, files, tasks, projects, auth_sessions, clients, users RESTART IDENTITY CASCADE`
   );
 
   const passwordHash = await bcrypt.hash(adminUser.password, 12);
@@ -51,6 +102,25 @@ async function loginAs(email: string, password: string): Promise<LoginResult> {
   };
 }
 
+// Uploads are scanned, then previewed, in the background; waits until both are done for one file.
+async function waitForFileProcessing(fileId: string) {
+  for (let attempt = 0; attempt < 250; attempt += 1) {
+    const result = await pool.query<{
+      status: string;
+      scan_result: string | null;
+      scanned_at: Date | null;
+      preview_status: string | null;
+      external_url: string | null;
+    }>(`SELECT status, scan_result, scanned_at, preview_status, external_url FROM files WHERE id = $1`, [fileId]);
+    const file = result.rows[0];
+    if (file && file.status !== "pending_scan" && (file.status !== "available" || file.external_url || file.preview_status)) {
+      return file;
+    }
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+  throw new Error(`File ${fileId} was not processed in time`);
+}
+
 beforeEach(async () => {
   await resetDatabase();
 });
@@ -385,7 +455,7 @@ describe("API integration", () => {
         fileName: "project-doc.pdf",
         fileType: "proposal",
         storageType: "s3",
-        objectKey: "projects/test/project-doc.pdf",
+        objectKey: `projects/${projectId}/uploads/project-doc.pdf`,
         mimeType: "application/pdf",
         fileSize: 1000
       });
@@ -670,7 +740,7 @@ describe("API integration", () => {
         fileName: "creative-brief.pdf",
         fileType: "creative_brief",
         storageType: "s3",
-        objectKey: "projects/x/creative-brief.pdf",
+        objectKey: `projects/${projectId}/uploads/creative-brief.pdf`,
         mimeType: "application/pdf",
         fileSize: 2048,
         checksumSha256: "aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa"
@@ -732,7 +802,7 @@ describe("API integration", () => {
     expect(counts.file_deleted).toBe(1);
   });
 
-  it("files: upload-url + complete-upload + download-url flow", async () => {
+  it("files: upload-url + signed local PUT + complete-upload + download-url flow", async () => {
     const auth = await login();
 
     const clientResponse = await request(app)
@@ -756,24 +826,158 @@ describe("API integration", () => {
     expect(projectResponse.status).toBe(201);
     const projectId = projectResponse.body.data.id as string;
 
-    const uploadUrlResponse = await request(app)
-      .post("/api/files/upload-url")
+    const content = Buffer.from("%PDF-1.4 proposal deck contents");
+    const checksum = crypto.createHash("sha256").update(content).digest("hex");
+
+    const requestUploadUrl = (fileSize: number) =>
+      request(app)
+        .post("/api/files/upload-url")
+        .set("Authorization", `Bearer ${auth.accessToken}`)
+        .send({
+          projectId,
+          fileName: "deck.pdf",
+          fileType: "proposal",
+          storageType: "local",
+          mimeType: "application/pdf",
+          fileSize
+        });
+
+    const tooLarge = await requestUploadUrl(50 * 1024 * 1024 + 1);
+    expect(tooLarge.status).toBe(413);
+    expect(tooLarge.body.code).toBe("FILE_TOO_LARGE");
+
+    const uploadUrlResponse = await requestUploadUrl(content.length);
+    expect(uploadUrlResponse.status).toBe(200);
+    expect(uploadUrlResponse.body.data.uploadMethod).toBe("PUT");
+    expect(uploadUrlResponse.body.data.objectKey).toContain(`projects/${projectId}/uploads/`);
+    const uploadUrl = new URL(uploadUrlResponse.body.data.uploadUrl as string);
+    expect(uploadUrl.pathname).toBe("/api/v1/storage/objects");
+
+    const tamperedUrl = `${uploadUrl.pathname}${uploadUrl.search.replace(/signature=[0-9a-f]+/, `signature=${"0".repeat(64)}`)}`;
+    const tamperedPut = await request(app)
+      .put(tamperedUrl)
+      .set("Content-Type", "application/pdf")
+      .send(content);
+    expect(tamperedPut.status).toBe(403);
+    expect(tamperedPut.body.code).toBe("INVALID_SIGNATURE");
+
+    const putResponse = await request(app)
+      .put(`${uploadUrl.pathname}${uploadUrl.search}`)
+      .set("Content-Type", "application/pdf")
+      .send(content);
+    expect(putResponse.status).toBe(200);
+    expect(putResponse.body.data.checksumSha256).toBe(checksum);
+
+    const completeUpload = (checksumSha256: string) =>
+      request(app)
+        .post("/api/files/complete-upload")
+        .set("Authorization", `Bearer ${auth.accessToken}`)
+        .send({
+          projectId,
+          fileName: "deck.pdf",
+          fileType: "proposal",
+          storageType: "local",
+          mimeType: "application/pdf",
+          fileSize: content.length,
+          objectKey: uploadUrlResponse.body.data.objectKey,
+          checksumSha256
+        });
+
+    const completeUploadResponse = await completeUpload(checksum);
+    expect(completeUploadResponse.status).toBe(201);
+    expect(completeUploadResponse.body.data.checksum_sha256).toBe(checksum);
+    expect(completeUploadResponse.body.data.file_size).toBe(String(content.length));
+    expect(completeUploadResponse.body.data.status).toBe("pending_scan");
+    const fileId = completeUploadResponse.body.data.id as string;
+    expect((await waitForFileProcessing(fileId)).status).toBe("available");
+
+    const downloadUrlResponse = await request(app)
+      .get(`/api/files/${fileId}/download-url`)
+      .set("Authorization", `Bearer ${auth.accessToken}`);
+
+    expect(downloadUrlResponse.status).toBe(200);
+    expect(downloadUrlResponse.body.data.fileId).toBe(fileId);
+    const downloadUrl = new URL(downloadUrlResponse.body.data.downloadUrl as string);
+
+    const downloadResponse = await request(app)
+      .get(`${downloadUrl.pathname}${downloadUrl.search}`)
+      .buffer(true)
+      .parse((response, callback) => {
+        const chunks: Buffer[] = [];
+        response.on("data", (chunk: Buffer) => chunks.push(chunk));
+        response.on("end", () => callback(null, Buffer.concat(chunks)));
+      });
+    expect(downloadResponse.status).toBe(200);
+    expect(downloadResponse.headers["content-type"]).toContain("application/pdf");
+    expect(downloadResponse.headers["content-disposition"]).toContain("deck.pdf");
+    expect(Buffer.compare(downloadResponse.body as Buffer, content)).toBe(0);
+
+    const secondUpload = await requestUploadUrl(content.length);
+    const secondUrl = new URL(secondUpload.body.data.uploadUrl as string);
+    await request(app)
+      .put(`${secondUrl.pathname}${secondUrl.search}`)
+      .set("Content-Type", "application/pdf")
+      .send(content);
+    const mismatch = await request(app)
+      .post("/api/files/complete-upload")
       .set("Authorization", `Bearer ${auth.accessToken}`)
       .send({
         projectId,
         fileName: "deck.pdf",
         fileType: "proposal",
-        storageType: "s3",
+        storageType: "local",
         mimeType: "application/pdf",
-        fileSize: 4096
+        fileSize: content.length,
+        objectKey: secondUpload.body.data.objectKey,
+        checksumSha256: "b".repeat(64)
       });
-
-    expect(uploadUrlResponse.status).toBe(200);
-    expect(uploadUrlResponse.body.data.uploadUrl).toContain("uploads.adfix.local");
-    expect(uploadUrlResponse.body.data.objectKey).toContain(`projects/${projectId}/uploads/`);
-
-    const completeUploadResponse = await request(app)
-      .post("/api/files/complete-upload")
+    expect(mismatch.status).toBe(409);
+    expect(mismatch.body.code).toBe("CHECKSUM_MISMATCH");
+    expect(mismatch.body.details.actual).toBe(checksum);
+
+    const storedKey = uploadUrlResponse.body.data.objectKey as string;
+    const traversalKeys = [
+      `projects/${projectId}/uploads/../uploads/${path.posix.basename(storedKey)}`,
+      `projects/${projectId}/../${projectId}/uploads/${path.posix.basename(storedKey)}`,
+      `projects/${projectId}/uploads/../../../exports/workspace/export.zip`,
+      `projects/${projectId}/deck.pdf`
+    ];
+    for (const objectKey of traversalKeys) {
+      const completeTraversal = await request(app)
+        .post("/api/files/complete-upload")
+        .set("Authorization", `Bearer ${auth.accessToken}`)
+        .send({
+          projectId,
+          fileName: "deck.pdf",
+          fileType: "proposal",
+          storageType: "local",
+          mimeType: "application/pdf",
+          fileSize: content.length,
+          objectKey,
+          checksumSha256: "b".repeat(64)
+        });
+      expect(completeTraversal.status).toBe(400);
+      expect(completeTraversal.body.code).toBe("INVALID_OBJECT_KEY");
+
+      const registerTraversal = await request(app)
+        .post("/api/files/upload")
+        .set("Authorization", `Bearer ${auth.accessToken}`)
+        .send({
+          projectId,
+          fileName: "deck.pdf",
+          fileType: "proposal",
+          storageType: "local",
+          objectKey,
+          mimeType: "application/pdf",
+          fileSize: content.length
+        });
+      expect(registerTraversal.status).toBe(400);
+      expect(registerTraversal.body.code).toBe("INVALID_OBJECT_KEY");
+    }
+    expect(await getLocalStorageDriver().headObject(storedKey)).not.toBeNull();
+
+    const s3Upload = await request(app)
+      .post("/api/files/upload-url")
       .set("Authorization", `Bearer ${auth.accessToken}`)
       .send({
         projectId,
@@ -781,21 +985,176 @@ describe("API integration", () => {
         fileType: "proposal",
         storageType: "s3",
         mimeType: "application/pdf",
-        fileSize: 4096,
-        objectKey: uploadUrlResponse.body.data.objectKey,
-        checksumSha256: "bbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb"
+        fileSize: content.length
       });
+    expect(s3Upload.status).toBe(409);
+    expect(s3Upload.body.code).toBe("STORAGE_UNAVAILABLE");
+  });
 
-    expect(completeUploadResponse.status).toBe(201);
-    const fileId = completeUploadResponse.body.data.id as string;
+  it("storage: an aborted signed upload is cleaned up without taking the server down", async () => {
+    const objectKey = `projects/${crypto.randomUUID()}/uploads/aborted.bin`;
+    const uploadDir = path.join(env.STORAGE_LOCAL_ROOT, path.dirname(objectKey));
+    const signed = getLocalStorageDriver().createUploadUrl({
+      objectKey,
+      contentType: "application/octet-stream",
+      maxBytes: 1024 * 1024,
+      expiresInSeconds: 300
+    });
+    const signedUrl = new URL(signed.url);
+    const listUploadDir = () => readdir(uploadDir).catch(() => [] as string[]);
+    const waitFor = async (condition: () => Promise<boolean>) => {
+      for (let attempt = 0; attempt < 100 && !(await condition()); attempt += 1) {
+        await new Promise((resolve) => setTimeout(resolve, 20));
+      }
+      return condition();
+    };
+
+    const server = http.createServer(app);
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    const { port } = server.address() as AddressInfo;
+
+    try {
+      const upload = http.request({
+        host: "127.0.0.1",
+        port,
+        method: "PUT",
+        path: `${signedUrl.pathname}${signedUrl.search}`,
+        headers: { "content-type": "application/octet-stream", "content-length": "65536" }
+      });
+      upload.on("error", () => undefined);
+      upload.write(Buffer.alloc(1024));
+      expect(await waitFor(async () => (await listUploadDir()).some((name) => name.endsWith(".part")))).toBe(true);
+      upload.destroy();
+
+      expect(await waitFor(async () => (await listUploadDir()).length === 0)).toBe(true);
+      const health = await request(server).get("/api/health");
+      expect(health.status).toBe(200);
+    } finally {
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+      await rm(uploadDir, { recursive: true, force: true });
+    }
+  });
 
-    const downloadUrlResponse = await request(app)
-      .get(`/api/files/${fileId}/download-url`)
-      .set("Authorization", `Bearer ${auth.accessToken}`);
+  it("storage: S3 driver presigns requests that an S3-compatible stand-in accepts", async () => {
+    const objects = new Map<string, { body: Buffer; contentType: string | undefined }>();
+    const seenQueries: URLSearchParams[] = [];
+    const server = http.createServer((req, res) => {
+      const url = new URL(req.url ?? "/", "http://localhost");
+      seenQueries.push(url.searchParams);
+      const expired =
+        Date.parse(
+          (url.searchParams.get("X-Amz-Date") ?? "").replace(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/, "$1-$2-$3T$4:$5:$6Z")
+        ) +
+          Number(url.searchParams.get("X-Amz-Expires")) * 1000 <
+        Date.now();
+      if (!url.searchParams.get("X-Amz-Signature") || expired) {
+        res.statusCode = 403;
+        res.end();
+        return;
+      }
+
+      const key = decodeURIComponent(url.pathname);
+      if (req.method === "PUT") {
+        const chunks: Buffer[] = [];
+        req.on("data", (chunk: Buffer) => chunks.push(chunk));
+        req.on("end", () => {
+          objects.set(key, { body: Buffer.concat(chunks), contentType: req.headers["content-type"] });
+          res.statusCode = 200;
+          res.end();
+        });
+        return;
+      }
+
+      const object = objects.get(key);
+      if (req.method === "DELETE") {
+        objects.delete(key);
+        res.statusCode = 204;
+        res.end();
+        return;
+      }
+      if (!object) {
+        res.statusCode = 404;
+        res.end();
+        return;
+      }
+      res.setHeader("content-length", String(object.body.length));
+      res.setHeader("content-type", object.contentType ?? "application/octet-stream");
+      res.statusCode = 200;
+      res.end(req.method === "HEAD" ? undefined : object.body);
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    const { port } = server.address() as AddressInfo;
+
+    try {
+      const driver = createS3StorageDriver({
+        endpoint: `http://127.0.0.1:${port}`,
+        region: "us-east-1",
+        bucket: "adfix-test",
+        accessKeyId: "minio",
+        secretAccessKey: "minio-secret",
+        forcePathStyle: true
+      });
 
-    expect(downloadUrlResponse.status).toBe(200);
-    expect(downloadUrlResponse.body.data.downloadUrl).toContain("downloads.adfix.local");
-    expect(downloadUrlResponse.body.data.fileId).toBe(fileId);
+      const content = Buffer.from("final master render");
+      const putResult = await driver.putObject("projects/p1/uploads/master file.mov", Readable.from([content]), {
+        contentType: "video/quicktime",
+        maxBytes: 1024
+      });
+      expect(putResult).toEqual({
+        ok: true,
+        size: content.length,
+        checksumSha256: crypto.createHash("sha256").update(content).digest("hex")
+      });
+      expect(objects.has("/adfix-test/projects/p1/uploads/master file.mov")).toBe(true);
+
+      const tooLarge = await driver.putObject("projects/p1/uploads/huge.bin", Readable.from([Buffer.alloc(2048)]), {
+        contentType: "application/octet-stream",
+        maxBytes: 1024
+      });
+      expect(tooLarge).toEqual({ ok: false, reason: "too_large" });
+
+      expect(await driver.headObject("projects/p1/uploads/master file.mov")).toEqual({
+        size: content.length,
+        contentType: "video/quicktime"
+      });
+
+      const uploadUrl = driver.createUploadUrl({
+        objectKey: "projects/p1/uploads/brief.pdf",
+        contentType: "application/pdf",
+        maxBytes: 1024,
+        expiresInSeconds: 900
+      });
+      const presignedPut = await fetch(uploadUrl.url, {
+        method: "PUT",
+        headers: uploadUrl.headers,
+        body: Buffer.from("%PDF-1.4")
+      });
+      expect(presignedPut.status).toBe(200);
+      const query = new URL(uploadUrl.url).searchParams;
+      expect(query.get("X-Amz-Algorithm")).toBe("AWS4-HMAC-SHA256");
+      expect(query.get("X-Amz-Credential")).toMatch(/^minio\/\d{8}\/us-east-1\/s3\/aws4_request$/);
+      expect(query.get("X-Amz-Signature")).toMatch(/^[0-9a-f]{64}$/);
+
+      const stream = await driver.getObjectStream("projects/p1/uploads/brief.pdf");
+      const chunks: Buffer[] = [];
+      for await (const chunk of stream as Readable) chunks.push(chunk as Buffer);
+      expect(Buffer.concat(chunks).toString()).toBe("%PDF-1.4");
+
+      const downloadUrl = driver.createDownloadUrl({
+        objectKey: "projects/p1/uploads/brief.pdf",
+        fileName: "brief.pdf",
+        contentType: "application/pdf",
+        expiresInSeconds: 300
+      });
+      expect(new URL(downloadUrl.url).searchParams.get("response-content-disposition")).toContain("brief.pdf");
+
+      await driver.deleteObject("projects/p1/uploads/brief.pdf");
+      expect(await driver.headObject("projects/p1/uploads/brief.pdf")).toBeNull();
+      expect(await driver.getObjectStream("projects/p1/uploads/missing.pdf")).toBeNull();
+      expect(seenQueries.every((params) => params.get("X-Amz-SignedHeaders") === "host")).toBe(true);
+    } finally {
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
   });
 
   it("project activity endpoint + analytics endpoints", async () => {
@@ -1212,7 +1571,7 @@ describe("API integration", () => {
         fileName: "viewer-visible.pdf",
         fileType: "proposal",
         storageType: "s3",
-        objectKey: "projects/x/viewer-visible.pdf",
+        objectKey: `projects/${projectId}/uploads/viewer-visible.pdf`,
         mimeType: "application/pdf",
         fileSize: 1024
       });
@@ -1308,7 +1667,7 @@ describe("API integration", () => {
         fileName: "viewer-cannot-upload.pdf",
         fileType: "proposal",
         storageType: "s3",
-        objectKey: "projects/x/viewer-cannot-upload.pdf",
+        objectKey: `projects/${projectId}/uploads/viewer-cannot-upload.pdf`,
         mimeType: "application/pdf",
         fileSize: 1024
       });
@@ -1472,7 +1831,7 @@ describe("API integration", () => {
         fileName: "searchable-brief.pdf",
         fileType: "creative_brief",
         storageType: "s3",
-        objectKey: "projects/x/searchable-brief.pdf",
+        objectKey: `projects/${projectId}/uploads/searchable-brief.pdf`,
         mimeType: "application/pdf",
         fileSize: 1024
       });
@@ -1554,7 +1913,7 @@ describe("API integration", () => {
         fileName: "scoped-alpha.pdf",
         fileType: "proposal",
         storageType: "s3",
-        objectKey: "projects/owner/scoped-alpha.pdf",
+        objectKey: `projects/${ownerProjectId}/uploads/scoped-alpha.pdf`,
         mimeType: "application/pdf",
         fileSize: 1000
       });
@@ -1599,7 +1958,7 @@ describe("API integration", () => {
         fileName: "scoped-beta.pdf",
         fileType: "proposal",
         storageType: "s3",
-        objectKey: "projects/outsider/scoped-beta.pdf",
+        objectKey: `projects/${outsiderProjectId}/uploads/scoped-beta.pdf`,
         mimeType: "application/pdf",
         fileSize: 1000
       });
@@ -1744,4 +2103,4068 @@ describe("API integration", () => {
     expect(Number(bulkStatusLogs.rows[0].count)).toBe(3);
     expect(Number(bulkDeleteLogs.rows[0].count)).toBe(3);
   });
+
+  it("phase history: transitions are recorded and phase-duration analytics are computed", async () => {
+    const auth = await login();
+
+    const clientResponse = await request(app)
+      .post("/api/clients")
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({ name: "History Client" });
+    expect(clientResponse.status).toBe(201);
+    const clientId = clientResponse.body.data.id as string;
+
+    const projectIds: string[] = [];
+    for (const name of ["History Project A", "History Project B"]) {
+      const projectResponse = await request(app)
+        .post("/api/projects")
+        .set("Authorization", `Bearer ${auth.accessToken}`)
+        .send({
+          clientId,
+          name,
+          startDate: "2026-02-12",
+          deadline: "2026-04-01"
+        });
+      expect(projectResponse.status).toBe(201);
+      projectIds.push(projectResponse.body.data.id as string);
+    }
+
+    const initialHistory = await request(app)
+      .get(`/api/projects/${projectIds[0]}/phase-history`)
+      .set("Authorization", `Bearer ${auth.accessToken}`);
+
+    expect(initialHistory.status).toBe(200);
+    expect(initialHistory.body.data.length).toBe(1);
+    expect(initialHistory.body.data[0].phase).toBe("client_acquisition");
+    expect(initialHistory.body.data[0].exited_at).toBeNull();
+
+    for (const projectId of projectIds) {
+      const move = await request(app)
+        .patch(`/api/projects/${projectId}/phase`)
+        .set("Authorization", `Bearer ${auth.accessToken}`)
+        .send({ phase: "strategy_planning" });
+      expect(move.status).toBe(200);
+    }
+
+    const history = await request(app)
+      .get(`/api/projects/${projectIds[0]}/phase-history`)
+      .set("Authorization", `Bearer ${auth.accessToken}`);
+
+    expect(history.status).toBe(200);
+    expect(history.body.data.map((row: { phase: string }) => row.phase)).toEqual([
+      "client_acquisition",
+      "strategy_planning"
+    ]);
+    expect(history.body.data[0].exited_at).not.toBeNull();
+    expect(history.body.data[0].exited_by_name).toBe(adminUser.name);
+    expect(history.body.data[1].exited_at).toBeNull();
+
+    // Rewrite the closed stints to deterministic durations: 10h and 30h.
+    await pool.query(
+      `UPDATE project_phase_history
+       SET entered_at = exited_at - (CASE WHEN project_id = $1 THEN INTERVAL '10 hours' ELSE INTERVAL '30 hours' END)
+       WHERE exited_at IS NOT NULL`,
+      [projectIds[0]]
+    );
+
+    const durations = await request(app)
+      .get("/api/analytics/phase-durations")
+      .set("Authorization", `Bearer ${auth.accessToken}`);
+
+    expect(durations.status).toBe(200);
+    expect(durations.body.data.length).toBe(5);
+    const acquisition = durations.body.data.find(
+      (row: { phase: string }) => row.phase === "client_acquisition"
+    );
+    expect(acquisition).toMatchObject({
+      completedCount: 2,
+      inProgressCount: 0,
+      averageHours: 20,
+      medianHours: 20,
+      p90Hours: 28
+    });
+    const planning = durations.body.data.find(
+      (row: { phase: string }) => row.phase === "strategy_planning"
+    );
+    expect(planning).toMatchObject({
+      completedCount: 0,
+      inProgressCount: 2,
+      averageHours: null
+    });
+
+    const outsiderPassword = "Outsider123!";
+    await pool.query(
+      `INSERT INTO users (email, name, password_hash, is_active, created_at, updated_at)
+       VALUES ('outsider@adfix.local', 'Outsider', $1, TRUE, NOW(), NOW())`,
+      [await bcrypt.hash(outsiderPassword, 12)]
+    );
+    const outsider = await loginAs("outsider@adfix.local", outsiderPassword);
+
+    const outsiderDurations = await request(app)
+      .get("/api/analytics/phase-durations")
+      .set("Authorization", `Bearer ${outsider.accessToken}`);
+
+    expect(outsiderDurations.status).toBe(200);
+    expect(
+      outsiderDurations.body.data.every((row: { completedCount: number }) => row.completedCount === 0)
+    ).toBe(true);
+
+    const outsiderHistory = await request(app)
+      .get(`/api/projects/${projectIds[0]}/phase-history`)
+      .set("Authorization", `Bearer ${outsider.accessToken}`);
+    expect(outsiderHistory.status).toBe(403);
+
+    const csv = await request(app)
+      .get("/api/analytics/phase-durations.csv")
+      .set("Authorization", `Bearer ${auth.accessToken}`);
+
+    expect(csv.status).toBe(200);
+    expect(csv.headers["content-type"]).toContain("text/csv");
+    expect(csv.text.split("\n")[0]).toBe(
+      "phase,completedCount,inProgressCount,averageHours,medianHours,p90Hours"
+    );
+  });
+
+  it("admin phase override: moves back with reason, reopens or archives generated tasks, audit-logged", async () => {
+    const auth = await login();
+
+    const clientResponse = await request(app)
+      .post("/api/clients")
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({ name: "Override Client" });
+    expect(clientResponse.status).toBe(201);
+    const clientId = clientResponse.body.data.id as string;
+
+    const createProject = async (name: string) => {
+      const response = await request(app)
+        .post("/api/projects")
+        .set("Authorization", `Bearer ${auth.accessToken}`)
+        .send({ clientId, name, startDate: "2026-02-12", deadline: "2026-04-01" });
+      expect(response.status).toBe(201);
+      const projectId = response.body.data.id as string;
+
+      for (const phase of ["strategy_planning", "production"]) {
+        const move = await request(app)
+          .patch(`/api/projects/${projectId}/phase`)
+          .set("Authorization", `Bearer ${auth.accessToken}`)
+          .send({ phase });
+        expect(move.status).toBe(200);
+      }
+      return projectId;
+    };
+
+    const reopenProjectId = await createProject("Override Reopen Project");
+    const archiveProjectId = await createProject("Override Archive Project");
+
+    const manualTask = await request(app)
+      .post("/api/tasks")
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({ projectId: reopenProjectId, title: "Manual production task", phase: "production" });
+    expect(manualTask.status).toBe(201);
+
+    const productionTasks = await request(app)
+      .get(`/api/tasks?projectId=${reopenProjectId}&phase=production`)
+      .set("Authorization", `Bearer ${auth.accessToken}`);
+    for (const task of productionTasks.body.data as Array<{ id: string }>) {
+      const start = await request(app)
+        .patch(`/api/tasks/${task.id}/status`)
+        .set("Authorization", `Bearer ${auth.accessToken}`)
+        .send({ status: "in_progress" });
+      expect(start.status).toBe(200);
+    }
+
+    const forwardViaOverride = await request(app)
+      .post(`/api/projects/${reopenProjectId}/phase/override`)
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({ phase: "delivery", reason: "skip ahead", taskAction: "reopen" });
+    expect(forwardViaOverride.status).toBe(409);
+
+    const missingReason = await request(app)
+      .post(`/api/projects/${reopenProjectId}/phase/override`)
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({ phase: "client_acquisition", taskAction: "reopen" });
+    expect(missingReason.status).toBe(400);
+
+    const reopen = await request(app)
+      .post(`/api/projects/${reopenProjectId}/phase/override`)
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({ phase: "strategy_planning", reason: "Client changed scope", taskAction: "reopen" });
+
+    expect(reopen.status).toBe(200);
+    expect(reopen.body.data.current_phase).toBe("strategy_planning");
+    expect(reopen.body.meta.undonePhases).toEqual(["production"]);
+    expect(reopen.body.meta.affectedTaskIds.length).toBe(3);
+
+    const reopenedTasks = await request(app)
+      .get(`/api/tasks?projectId=${reopenProjectId}&phase=production`)
+      .set("Authorization", `Bearer ${auth.accessToken}`);
+    const statusByTitle = Object.fromEntries(
+      (reopenedTasks.body.data as Array<{ title: string; status: string }>).map((task) => [task.title, task.status])
+    );
+    expect(statusByTitle["Produce core assets"]).toBe("pending");
+    expect(statusByTitle["Manual production task"]).toBe("in_progress");
+
+    const archive = await request(app)
+      .post(`/api/projects/${archiveProjectId}/phase/override`)
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({ phase: "client_acquisition", reason: "Deal reopened", taskAction: "archive" });
+
+    expect(archive.status).toBe(200);
+    expect(archive.body.meta.undonePhases).toEqual(["strategy_planning", "production"]);
+    expect(archive.body.meta.affectedTaskIds.length).toBe(6);
+
+    const remainingTasks = await request(app)
+      .get(`/api/tasks?projectId=${archiveProjectId}`)
+      .set("Authorization", `Bearer ${auth.accessToken}`);
+    expect(
+      (remainingTasks.body.data as Array<{ phase: string }>).every((task) => task.phase === "client_acquisition")
+    ).toBe(true);
+
+    const history = await request(app)
+      .get(`/api/projects/${archiveProjectId}/phase-history`)
+      .set("Authorization", `Bearer ${auth.accessToken}`);
+    expect(history.body.data.map((row: { phase: string }) => row.phase)).toEqual([
+      "client_acquisition",
+      "strategy_planning",
+      "production",
+      "client_acquisition"
+    ]);
+
+    const auditLogs = await request(app)
+      .get("/api/users/audit-logs?action=project_phase_overridden")
+      .set("Authorization", `Bearer ${auth.accessToken}`);
+    expect(auditLogs.status).toBe(200);
+    expect(auditLogs.body.meta.total).toBe(2);
+    expect(auditLogs.body.data[0].details).toMatchObject({
+      from: "production",
+      to: "client_acquisition",
+      reason: "Deal reopened",
+      taskAction: "archive"
+    });
+
+    const managerPassword = "Manager123!";
+    const managerInsert = await pool.query<{ id: string }>(
+      `INSERT INTO users (email, name, password_hash, is_active, created_at, updated_at)
+       VALUES ('override-manager@adfix.local', 'Override Manager', $1, TRUE, NOW(), NOW())
+       RETURNING id`,
+      [await bcrypt.hash(managerPassword, 12)]
+    );
+    const addManager = await request(app)
+      .post(`/api/projects/${reopenProjectId}/team`)
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({ userId: managerInsert.rows[0].id, role: "manager" });
+    expect(addManager.status).toBe(201);
+    const manager = await loginAs("override-manager@adfix.local", managerPassword);
+
+    const managerOverride = await request(app)
+      .post(`/api/projects/${reopenProjectId}/phase/override`)
+      .set("Authorization", `Bearer ${manager.accessToken}`)
+      .send({ phase: "client_acquisition", reason: "Not allowed", taskAction: "reopen" });
+    expect(managerOverride.status).toBe(403);
+  });
+
+  it("project templates: CRUD and template-driven phase task instantiation", async () => {
+    const auth = await login();
+
+    const managerPassword = "Manager123!";
+    const managerInsert = await pool.query<{ id: string }>(
+      `INSERT INTO users (email, name, password_hash, is_active, created_at, updated_at)
+       VALUES ('template-manager@adfix.local', 'Template Manager', $1, TRUE, NOW(), NOW())
+       RETURNING id`,
+      [await bcrypt.hash(managerPassword, 12)]
+    );
+    const managerId = managerInsert.rows[0].id;
+
+    const createTemplate = await request(app)
+      .post("/api/project-templates")
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({
+        name: "Video Shoot",
+        description: "On-location video production",
+        tasks: [
+          {
+            phase: "client_acquisition",
+            title: "Collect shot list",
+            description: "Get the shot list from the client",
+            priority: "high",
+            dueOffsetDays: 2,
+            defaultAssigneeRole: "owner"
+          },
+          { phase: "production", title: "Book crew", dueOffsetDays: 5, defaultAssigneeRole: "manager" },
+          { phase: "production", title: "Scout location", priority: "urgent" }
+        ]
+      });
+
+    expect(createTemplate.status).toBe(201);
+    expect(createTemplate.body.data.tasks.length).toBe(3);
+    const templateId = createTemplate.body.data.id as string;
+
+    const duplicateTemplate = await request(app)
+      .post("/api/project-templates")
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({ name: "video shoot" });
+    expect(duplicateTemplate.status).toBe(409);
+
+    const listTemplates = await request(app)
+      .get("/api/project-templates")
+      .set("Authorization", `Bearer ${auth.accessToken}`);
+    expect(listTemplates.status).toBe(200);
+    expect(listTemplates.body.data[0]).toMatchObject({ name: "Video Shoot", task_count: 3 });
+
+    const clientResponse = await request(app)
+      .post("/api/clients")
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({ name: "Template Client" });
+    const clientId = clientResponse.body.data.id as string;
+
+    const missingTemplate = await request(app)
+      .post("/api/projects")
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({
+        clientId,
+        name: "Missing Template Project",
+        startDate: "2026-02-12",
+        deadline: "2026-04-01",
+        templateId: "00000000-0000-0000-0000-000000000000"
+      });
+    expect(missingTemplate.status).toBe(404);
+
+    const projectResponse = await request(app)
+      .post("/api/projects")
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({ clientId, name: "Templated Shoot", startDate: "2026-02-12", deadline: "2026-04-01", templateId });
+    expect(projectResponse.status).toBe(201);
+    expect(projectResponse.body.data.template_id).toBe(templateId);
+    const projectId = projectResponse.body.data.id as string;
+
+    const initialTasks = await request(app)
+      .get(`/api/tasks?projectId=${projectId}`)
+      .set("Authorization", `Bearer ${auth.accessToken}`);
+    expect(initialTasks.body.data.length).toBe(1);
+    expect(initialTasks.body.data[0]).toMatchObject({
+      title: "Collect shot list",
+      description: "Get the shot list from the client",
+      priority: "high",
+      phase: "client_acquisition"
+    });
+    expect(initialTasks.body.data[0].assigned_to).not.toBeNull();
+    expect(initialTasks.body.data[0].due_date).not.toBeNull();
+
+    const addManager = await request(app)
+      .post(`/api/projects/${projectId}/team`)
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({ userId: managerId, role: "manager" });
+    expect(addManager.status).toBe(201);
+
+    for (const phase of ["strategy_planning", "production"]) {
+      const move = await request(app)
+        .patch(`/api/projects/${projectId}/phase`)
+        .set("Authorization", `Bearer ${auth.accessToken}`)
+        .send({ phase });
+      expect(move.status).toBe(200);
+    }
+
+    const planningTasks = await request(app)
+      .get(`/api/tasks?projectId=${projectId}&phase=strategy_planning`)
+      .set("Authorization", `Bearer ${auth.accessToken}`);
+    expect(planningTasks.body.data.length).toBe(0);
+
+    const productionTasks = await request(app)
+      .get(`/api/tasks?projectId=${projectId}&phase=production&sortBy=title&sortOrder=asc`)
+      .set("Authorization", `Bearer ${auth.accessToken}`);
+    expect(productionTasks.body.data.map((task: { title: string }) => task.title)).toEqual([
+      "Book crew",
+      "Scout location"
+    ]);
+    expect(productionTasks.body.data[0].assigned_to).toBe(managerId);
+    expect(productionTasks.body.data[1]).toMatchObject({ priority: "urgent", assigned_to: null, due_date: null });
+
+    const updateTemplate = await request(app)
+      .put(`/api/project-templates/${templateId}`)
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({ tasks: [{ phase: "delivery", title: "Upload final cut" }] });
+    expect(updateTemplate.status).toBe(200);
+    expect(updateTemplate.body.data.tasks.map((task: { title: string }) => task.title)).toEqual(["Upload final cut"]);
+
+    const manager = await loginAs("template-manager@adfix.local", managerPassword);
+    const managerCreate = await request(app)
+      .post("/api/project-templates")
+      .set("Authorization", `Bearer ${manager.accessToken}`)
+      .send({ name: "Brand Identity" });
+    expect(managerCreate.status).toBe(403);
+
+    const managerRead = await request(app)
+      .get(`/api/project-templates/${templateId}`)
+      .set("Authorization", `Bearer ${manager.accessToken}`);
+    expect(managerRead.status).toBe(200);
+
+    const deleteTemplate = await request(app)
+      .delete(`/api/project-templates/${templateId}`)
+      .set("Authorization", `Bearer ${auth.accessToken}`);
+    expect(deleteTemplate.status).toBe(204);
+
+    const deletedRead = await request(app)
+      .get(`/api/project-templates/${templateId}`)
+      .set("Authorization", `Bearer ${auth.accessToken}`);
+    expect(deletedRead.status).toBe(404);
+  });
+
+  it("task dependencies: cycle detection, blocking enforcement, and unblock notifications", async () => {
+    const auth = await login();
+
+    const memberPassword = "Member123!";
+    const memberInsert = await pool.query<{ id: string }>(
+      `INSERT INTO users (email, name, password_hash, is_active, created_at, updated_at)
+       VALUES ('dependency-member@adfix.local', 'Dependency Member', $1, TRUE, NOW(), NOW())
+       RETURNING id`,
+      [await bcrypt.hash(memberPassword, 12)]
+    );
+    const memberId = memberInsert.rows[0].id;
+
+    const clientResponse = await request(app)
+      .post("/api/clients")
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({ name: "Dependency Client" });
+    const clientId = clientResponse.body.data.id as string;
+
+    const createProject = async (name: string) => {
+      const response = await request(app)
+        .post("/api/projects")
+        .set("Authorization", `Bearer ${auth.accessToken}`)
+        .send({ clientId, name, startDate: "2026-02-12", deadline: "2026-04-01" });
+      expect(response.status).toBe(201);
+      return response.body.data.id as string;
+    };
+    const projectId = await createProject("Dependency Project");
+    const otherProjectId = await createProject("Other Dependency Project");
+
+    const addMember = await request(app)
+      .post(`/api/projects/${projectId}/team`)
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({ userId: memberId, role: "member" });
+    expect(addMember.status).toBe(201);
+
+    const createTask = async (body: Record<string, unknown>) => {
+      const response = await request(app)
+        .post("/api/tasks")
+        .set("Authorization", `Bearer ${auth.accessToken}`)
+        .send({ phase: "post_production", ...body });
+      expect(response.status).toBe(201);
+      return response.body.data.id as string;
+    };
+    const feedbackId = await createTask({ projectId, title: "Collect feedback" });
+    const revisionsId = await createTask({ projectId, title: "Apply final revisions", assignedTo: memberId });
+    const mastersId = await createTask({ projectId, title: "Finalize master files" });
+    const otherProjectTaskId = await createTask({ projectId: otherProjectId, title: "Unrelated task" });
+
+    const addDependency = (taskId: string, dependsOnTaskId: string) =>
+      request(app)
+        .post(`/api/tasks/${taskId}/dependencies`)
+        .set("Authorization", `Bearer ${auth.accessToken}`)
+        .send({ dependsOnTaskId });
+
+    expect((await addDependency(revisionsId, feedbackId)).status).toBe(201);
+    expect((await addDependency(mastersId, revisionsId)).status).toBe(201);
+    expect((await addDependency(mastersId, revisionsId)).status).toBe(409);
+
+    const cycle = await addDependency(feedbackId, mastersId);
+    expect(cycle.status).toBe(409);
+    expect(cycle.body.error).toBe("Dependency would create a cycle");
+    expect((await addDependency(feedbackId, feedbackId)).status).toBe(409);
+    expect((await addDependency(feedbackId, otherProjectTaskId)).status).toBe(409);
+
+    const revisionDependencies = await request(app)
+      .get(`/api/tasks/${revisionsId}/dependencies`)
+      .set("Authorization", `Bearer ${auth.accessToken}`);
+    expect(revisionDependencies.status).toBe(200);
+    expect(revisionDependencies.body.data.blocked_by.map((task: { id: string }) => task.id)).toEqual([feedbackId]);
+    expect(revisionDependencies.body.data.blocking.map((task: { id: string }) => task.id)).toEqual([mastersId]);
+
+    const blockedStart = await request(app)
+      .patch(`/api/tasks/${revisionsId}/status`)
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({ status: "in_progress" });
+    expect(blockedStart.status).toBe(409);
+    expect(blockedStart.body.code).toBe("BLOCKED_BY_DEPENDENCY");
+    expect(blockedStart.body.details.blockers[0].id).toBe(feedbackId);
+
+    const bulkBlockedStart = await request(app)
+      .post("/api/tasks/bulk/status")
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({ taskIds: [revisionsId], status: "in_progress" });
+    expect(bulkBlockedStart.body.data.results[0].reason).toBe("blocked_by_dependency");
+
+    for (const status of ["in_progress", "completed"]) {
+      const move = await request(app)
+        .patch(`/api/tasks/${feedbackId}/status`)
+        .set("Authorization", `Bearer ${auth.accessToken}`)
+        .send({ status });
+      expect(move.status).toBe(200);
+    }
+
+    const member = await loginAs("dependency-member@adfix.local", memberPassword);
+    const memberNotifications = await request(app)
+      .get("/api/notifications")
+      .set("Authorization", `Bearer ${member.accessToken}`);
+    expect(memberNotifications.status).toBe(200);
+    const unblocked = memberNotifications.body.data.find(
+      (notification: { type: string }) => notification.type === "task_unblocked"
+    );
+    expect(unblocked).toBeDefined();
+    expect(unblocked.task_id).toBe(revisionsId);
+
+    const startRevisions = await request(app)
+      .patch(`/api/tasks/${revisionsId}/status`)
+      .set("Authorization", `Bearer ${member.accessToken}`)
+      .send({ status: "in_progress" });
+    expect(startRevisions.status).toBe(200);
+
+    const removeDependency = await request(app)
+      .delete(`/api/tasks/${mastersId}/dependencies/${revisionsId}`)
+      .set("Authorization", `Bearer ${auth.accessToken}`);
+    expect(removeDependency.status).toBe(204);
+
+    const startMasters = await request(app)
+      .patch(`/api/tasks/${mastersId}/status`)
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({ status: "in_progress" });
+    expect(startMasters.status).toBe(200);
+  });
+
+  it("project schedule computes critical path, slack, and slip against the deadline", async () => {
+    const auth = await login();
+
+    const clientResponse = await request(app)
+      .post("/api/clients")
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({ name: "Schedule Client" });
+    const clientId = clientResponse.body.data.id as string;
+
+    const projectResponse = await request(app)
+      .post("/api/projects")
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({ clientId, name: "Schedule Project", startDate: "2030-01-01", deadline: "2030-01-05" });
+    expect(projectResponse.status).toBe(201);
+    const projectId = projectResponse.body.data.id as string;
+
+    const createTask = async (body: Record<string, unknown>) => {
+      const response = await request(app)
+        .post("/api/tasks")
+        .set("Authorization", `Bearer ${auth.accessToken}`)
+        .send({ projectId, ...body });
+      expect(response.status).toBe(201);
+      return response.body.data.id as string;
+    };
+    const briefId = await createTask({ title: "Approve brief", phase: "strategy_planning", estimatedDays: 2 });
+    const shootId = await createTask({ title: "Shoot footage", phase: "production", estimatedDays: 3 });
+    const scoutId = await createTask({ title: "Scout locations", phase: "production", estimatedDays: 1 });
+    const editId = await createTask({ title: "Edit cut", phase: "post_production", estimatedDays: 2 });
+
+    const dependency = await request(app)
+      .post(`/api/tasks/${shootId}/dependencies`)
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({ dependsOnTaskId: scoutId });
+    expect(dependency.status).toBe(201);
+
+    const schedule = await request(app)
+      .get(`/api/projects/${projectId}/schedule`)
+      .set("Authorization", `Bearer ${auth.accessToken}`);
+    expect(schedule.status).toBe(200);
+    expect(schedule.body.data.asOfDate).toBe("2030-01-01");
+    expect(schedule.body.data.projectedFinishDate).toBe("2030-01-08");
+    expect(schedule.body.data.slipDays).toBe(3);
+    expect(schedule.body.data.onTrack).toBe(false);
+    expect(schedule.body.data.criticalPath).toEqual([briefId, scoutId, shootId, editId]);
+    expect(schedule.body.data.slipDrivers).toEqual(expect.arrayContaining([briefId, scoutId, shootId, editId]));
+
+    const shoot = schedule.body.data.tasks.find((task: { taskId: string }) => task.taskId === shootId);
+    expect(shoot).toMatchObject({
+      earliestStart: "2030-01-04",
+      earliestFinish: "2030-01-06",
+      slackDays: 0,
+      isCritical: true,
+      dependsOn: [scoutId]
+    });
+
+    const removeDependency = await request(app)
+      .delete(`/api/tasks/${shootId}/dependencies/${scoutId}`)
+      .set("Authorization", `Bearer ${auth.accessToken}`);
+    expect(removeDependency.status).toBe(204);
+
+    const relaxed = await request(app)
+      .get(`/api/projects/${projectId}/schedule`)
+      .set("Authorization", `Bearer ${auth.accessToken}`);
+    expect(relaxed.body.data.projectedFinishDate).toBe("2030-01-07");
+    expect(relaxed.body.data.slipDays).toBe(2);
+    const scout = relaxed.body.data.tasks.find((task: { taskId: string }) => task.taskId === scoutId);
+    expect(scout).toMatchObject({ slackDays: 2, isCritical: false, drivesSlip: false });
+
+    const shortenBrief = await request(app)
+      .put(`/api/tasks/${briefId}`)
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({ estimatedDays: 0 });
+    expect(shortenBrief.status).toBe(200);
+    expect(shortenBrief.body.data.estimated_days).toBe(0);
+
+    const onTrack = await request(app)
+      .get(`/api/projects/${projectId}/schedule`)
+      .set("Authorization", `Bearer ${auth.accessToken}`);
+    expect(onTrack.body.data.projectedFinishDate).toBe("2030-01-05");
+    expect(onTrack.body.data.slipDays).toBe(0);
+    expect(onTrack.body.data.onTrack).toBe(true);
+    expect(onTrack.body.data.slipDrivers).toEqual([]);
+  });
+
+  it("files: version chains list latest, accept new versions, and restore older ones", async () => {
+    const auth = await login();
+
+    const clientResponse = await request(app)
+      .post("/api/clients")
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({ name: "Versioning Client" });
+    const clientId = clientResponse.body.data.id as string;
+
+    const projectResponse = await request(app)
+      .post("/api/projects")
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({ clientId, name: "Versioning Project", startDate: "2026-02-12", deadline: "2026-04-15" });
+    const projectId = projectResponse.body.data.id as string;
+
+    const linkResponse = await request(app)
+      .post("/api/files/link")
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({
+        projectId,
+        fileName: "contract.pdf",
+        fileType: "contract",
+        storageType: "google_drive",
+        externalUrl: "https://drive.google.com/file/d/contract-v1",
+        mimeType: "application/pdf",
+        fileSize: 2048
+      });
+    expect(linkResponse.status).toBe(201);
+    expect(linkResponse.body.data.version).toBe(1);
+    const firstFileId = linkResponse.body.data.id as string;
+
+    const linkedVersion = await request(app)
+      .post(`/api/files/${firstFileId}/versions`)
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({
+        storageType: "google_drive",
+        externalUrl: "https://drive.google.com/file/d/contract-v2",
+        mimeType: "application/pdf",
+        fileSize: 3072
+      });
+    expect(linkedVersion.status).toBe(201);
+    expect(linkedVersion.body.data.version).toBe(2);
+    expect(linkedVersion.body.data.document_id).toBe(linkResponse.body.data.document_id);
+    expect(linkedVersion.body.data.file_name).toBe("contract.pdf");
+
+    const content = Buffer.from("%PDF-1.4 revised contract");
+    const uploadUrlResponse = await request(app)
+      .post("/api/files/upload-url")
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({
+        projectId,
+        fileName: "contract-v3.pdf",
+        fileType: "contract",
+        storageType: "local",
+        mimeType: "application/pdf",
+        fileSize: content.length
+      });
+    const uploadUrl = new URL(uploadUrlResponse.body.data.uploadUrl as string);
+    const putResponse = await request(app)
+      .put(`${uploadUrl.pathname}${uploadUrl.search}`)
+      .set("Content-Type", "application/pdf")
+      .send(content);
+    expect(putResponse.status).toBe(200);
+
+    const uploadedVersion = await request(app)
+      .post(`/api/files/${linkedVersion.body.data.id}/versions`)
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({
+        storageType: "local",
+        fileName: "contract-v3.pdf",
+        objectKey: uploadUrlResponse.body.data.objectKey,
+        mimeType: "application/pdf",
+        checksumSha256: crypto.createHash("sha256").update(content).digest("hex")
+      });
+    expect(uploadedVersion.status).toBe(201);
+    expect(uploadedVersion.body.data.version).toBe(3);
+    expect(uploadedVersion.body.data.file_size).toBe(String(content.length));
+    expect((await waitForFileProcessing(uploadedVersion.body.data.id)).status).toBe("available");
+
+    const listResponse = await request(app)
+      .get(`/api/files/project/${projectId}`)
+      .set("Authorization", `Bearer ${auth.accessToken}`);
+    expect(listResponse.status).toBe(200);
+    expect(listResponse.body.meta.total).toBe(1);
+    expect(listResponse.body.data).toHaveLength(1);
+    expect(listResponse.body.data[0]).toMatchObject({
+      id: uploadedVersion.body.data.id,
+      version: 3,
+      version_count: 3,
+      file_name: "contract-v3.pdf"
+    });
+
+    const versionsResponse = await request(app)
+      .get(`/api/files/${firstFileId}/versions`)
+      .set("Authorization", `Bearer ${auth.accessToken}`);
+    expect(versionsResponse.status).toBe(200);
+    expect(versionsResponse.body.data.map((file: { version: number }) => file.version)).toEqual([3, 2, 1]);
+    expect(versionsResponse.body.meta.latestVersion).toBe(3);
+    expect(versionsResponse.body.data[0].uploaded_by_name).toBe("Adfix Admin");
+
+    const restoreResponse = await request(app)
+      .post(`/api/files/${firstFileId}/restore/1`)
+      .set("Authorization", `Bearer ${auth.accessToken}`);
+    expect(restoreResponse.status).toBe(201);
+    expect(restoreResponse.body.data).toMatchObject({
+      version: 4,
+      restored_from_version: 1,
+      external_url: "https://drive.google.com/file/d/contract-v1",
+      file_name: "contract.pdf"
+    });
+
+    const restoreLatest = await request(app)
+      .post(`/api/files/${firstFileId}/restore/4`)
+      .set("Authorization", `Bearer ${auth.accessToken}`);
+    expect(restoreLatest.status).toBe(409);
+
+    const restoreMissing = await request(app)
+      .post(`/api/files/${firstFileId}/restore/9`)
+      .set("Authorization", `Bearer ${auth.accessToken}`);
+    expect(restoreMissing.status).toBe(404);
+
+    const activity = await pool.query<{ action: string }>(
+      `SELECT action FROM activity_log WHERE project_id = $1 AND action LIKE 'file_version_%' ORDER BY created_at ASC`,
+      [projectId]
+    );
+    expect(activity.rows.map((row) => row.action)).toEqual([
+      "file_version_created",
+      "file_version_created",
+      "file_version_restored"
+    ]);
+
+    const deleteResponse = await request(app)
+      .delete(`/api/files/${firstFileId}`)
+      .set("Authorization", `Bearer ${auth.accessToken}`);
+    expect(deleteResponse.status).toBe(204);
+
+    const afterDelete = await request(app)
+      .get(`/api/files/project/${projectId}`)
+      .set("Authorization", `Bearer ${auth.accessToken}`);
+    expect(afterDelete.body.meta.total).toBe(0);
+  });
+
+  it("files: uploads are sniffed and scanned, and rejected content notifies the uploader", async () => {
+    const auth = await login();
+
+    // Minimal clamd stand-in speaking the INSTREAM protocol; it flags anything containing the EICAR marker.
+    const clamd = net.createServer((socket) => {
+      let buffered = Buffer.alloc(0);
+      let payload = Buffer.alloc(0);
+      let commandRead = false;
+      socket.on("data", (chunk: Buffer) => {
+        buffered = Buffer.concat([buffered, chunk]);
+        if (!commandRead) {
+          const end = buffered.indexOf(0);
+          if (end === -1) return;
+          commandRead = true;
+          buffered = buffered.subarray(end + 1);
+        }
+        while (buffered.length >= 4) {
+          const length = buffered.readUInt32BE(0);
+          if (length === 0) {
+            const infected = payload.includes("EICAR-STANDARD-ANTIVIRUS-TEST-FILE");
+            socket.end(infected ? "stream: Eicar-Test-Signature FOUND\0" : "stream: OK\0");
+            return;
+          }
+          if (buffered.length < 4 + length) return;
+          payload = Buffer.concat([payload, buffered.subarray(4, 4 + length)]);
+          buffered = buffered.subarray(4 + length);
+        }
+      });
+    });
+    await new Promise<void>((resolve) => clamd.listen(0, "127.0.0.1", resolve));
+    setFileScanner(
+      createClamAvScanner({ host: "127.0.0.1", port: (clamd.address() as AddressInfo).port, timeoutMs: 5000 })
+    );
+
+    try {
+      const clientResponse = await request(app)
+        .post("/api/clients")
+        .set("Authorization", `Bearer ${auth.accessToken}`)
+        .send({ name: "Scanning Client" });
+      const projectResponse = await request(app)
+        .post("/api/projects")
+        .set("Authorization", `Bearer ${auth.accessToken}`)
+        .send({ clientId: clientResponse.body.data.id, name: "Scanning Project", startDate: "2026-02-12", deadline: "2026-04-15" });
+      const projectId = projectResponse.body.data.id as string;
+
+      const uploadThroughSignedUrl = async (fileName: string, mimeType: string, content: Buffer) => {
+        const uploadUrlResponse = await request(app)
+          .post("/api/files/upload-url")
+          .set("Authorization", `Bearer ${auth.accessToken}`)
+          .send({ projectId, fileName, fileType: "asset", storageType: "local", mimeType, fileSize: content.length });
+        expect(uploadUrlResponse.status).toBe(200);
+        const uploadUrl = new URL(uploadUrlResponse.body.data.uploadUrl as string);
+        const putResponse = await request(app)
+          .put(`${uploadUrl.pathname}${uploadUrl.search}`)
+          .set("Content-Type", mimeType)
+          .send(content);
+        expect(putResponse.status).toBe(200);
+
+        const objectKey = uploadUrlResponse.body.data.objectKey as string;
+        const completeResponse = await request(app)
+          .post("/api/files/complete-upload")
+          .set("Authorization", `Bearer ${auth.accessToken}`)
+          .send({ projectId, fileName, fileType: "asset", storageType: "local", mimeType, fileSize: content.length, objectKey });
+        return { objectKey, response: completeResponse };
+      };
+
+      const disallowedMime = await request(app)
+        .post("/api/files/upload-url")
+        .set("Authorization", `Bearer ${auth.accessToken}`)
+        .send({
+          projectId,
+          fileName: "setup.exe",
+          fileType: "asset",
+          storageType: "local",
+          mimeType: "application/x-msdownload",
+          fileSize: 10
+        });
+      expect(disallowedMime.status).toBe(400);
+
+      const executable = await uploadThroughSignedUrl(
+        "brochure.pdf",
+        "application/pdf",
+        Buffer.concat([Buffer.from("MZ"), Buffer.alloc(62)])
+      );
+      expect(executable.response.status).toBe(415);
+      expect(executable.response.body.code).toBe("UNSUPPORTED_FILE_CONTENT");
+      expect(executable.response.body.details.reason).toBe("executable_content");
+      expect(await getLocalStorageDriver().headObject(executable.objectKey)).toBeNull();
+
+      const script = await uploadThroughSignedUrl("notes.txt", "text/plain", Buffer.from("#!/bin/sh\nrm -rf /\n"));
+      expect(script.response.status).toBe(415);
+      expect(script.response.body.details.reason).toBe("executable_content");
+
+      const mismatch = await uploadThroughSignedUrl("logo.png", "image/png", Buffer.from("%PDF-1.4 not a png"));
+      expect(mismatch.response.status).toBe(415);
+      expect(mismatch.response.body.details).toMatchObject({ reason: "content_mismatch", detectedKind: "pdf" });
+
+      const clean = await uploadThroughSignedUrl("moodboard.pdf", "application/pdf", Buffer.from("%PDF-1.4 moodboard"));
+      expect(clean.response.status).toBe(201);
+      expect(clean.response.body.data.status).toBe("pending_scan");
+      const cleanScanned = await waitForFileProcessing(clean.response.body.data.id);
+      expect(cleanScanned.status).toBe("available");
+      expect(cleanScanned.scanned_at).toBeTruthy();
+
+      const cleanDownload = await request(app)
+        .get(`/api/files/${clean.response.body.data.id}/download-url`)
+        .set("Authorization", `Bearer ${auth.accessToken}`);
+      expect(cleanDownload.status).toBe(200);
+
+      const infected = await uploadThroughSignedUrl(
+        "invoice.pdf",
+        "application/pdf",
+        Buffer.from("%PDF-1.4 X5O!P%@AP[4\\PZX54(P^)7CC)7}$EICAR-STANDARD-ANTIVIRUS-TEST-FILE!$H+H*")
+      );
+      expect(infected.response.status).toBe(201);
+      expect(await waitForFileProcessing(infected.response.body.data.id)).toMatchObject({
+        status: "rejected",
+        scan_result: "Eicar-Test-Signature"
+      });
+      expect(await getLocalStorageDriver().headObject(infected.objectKey)).toBeNull();
+
+      const infectedDownload = await request(app)
+        .get(`/api/files/${infected.response.body.data.id}/download-url`)
+        .set("Authorization", `Bearer ${auth.accessToken}`);
+      expect(infectedDownload.status).toBe(409);
+      expect(infectedDownload.body.code).toBe("FILE_NOT_AVAILABLE");
+      expect(infectedDownload.body.details.status).toBe("rejected");
+
+      const notifications = await request(app)
+        .get("/api/notifications")
+        .set("Authorization", `Bearer ${auth.accessToken}`);
+      expect(notifications.status).toBe(200);
+      const rejectedNotice = notifications.body.data.find(
+        (notification: { type: string }) => notification.type === "file_rejected"
+      );
+      expect(rejectedNotice.metadata.fileId).toBe(infected.response.body.data.id);
+
+      const scanActivity = await pool.query<{ action: string }>(
+        `SELECT action FROM activity_log WHERE project_id = $1 AND action = 'file_scan_rejected'`,
+        [projectId]
+      );
+      expect(scanActivity.rowCount).toBe(1);
+
+      let markScanAttempted = () => {};
+      const scanAttempted = new Promise<void>((resolve) => {
+        markScanAttempted = resolve;
+      });
+      setFileScanner({
+        name: "offline",
+        async scan() {
+          markScanAttempted();
+          throw new Error("scanner offline");
+        }
+      });
+      const pending = await uploadThroughSignedUrl("storyboard.pdf", "application/pdf", Buffer.from("%PDF-1.4 boards"));
+      expect(pending.response.status).toBe(201);
+      expect(pending.response.body.data.status).toBe("pending_scan");
+      await scanAttempted;
+
+      const pendingDownload = await request(app)
+        .get(`/api/files/${pending.response.body.data.id}/download-url`)
+        .set("Authorization", `Bearer ${auth.accessToken}`);
+      expect(pendingDownload.status).toBe(409);
+      expect(pendingDownload.body.details.status).toBe("pending_scan");
+
+      setFileScanner(createNoopScanner());
+      const rescan = await request(app)
+        .post(`/api/files/${pending.response.body.data.id}/scan`)
+        .set("Authorization", `Bearer ${auth.accessToken}`);
+      expect(rescan.status).toBe(202);
+      expect(rescan.body.data.status).toBe("pending_scan");
+      expect((await waitForFileProcessing(pending.response.body.data.id)).status).toBe("available");
+
+      const rescanAgain = await request(app)
+        .post(`/api/files/${pending.response.body.data.id}/scan`)
+        .set("Authorization", `Bearer ${auth.accessToken}`);
+      expect(rescanAgain.status).toBe(409);
+
+      // clamd stops reading at its StreamMaxLength; the scanner has to stop pulling the body then instead
+      // of buffering the rest of it into the socket.
+      const limitedClamd = net.createServer((socket) => {
+        let received = 0;
+        socket.on("data", (chunk: Buffer) => {
+          received += chunk.length;
+          if (received > 1024 * 1024 && !socket.writableEnded) {
+            socket.end("INSTREAM size limit exceeded. ERROR\0");
+          }
+        });
+      });
+      await new Promise<void>((resolve) => limitedClamd.listen(0, "127.0.0.1", resolve));
+      try {
+        const bodySize = 32 * 1024 * 1024;
+        let produced = 0;
+        const body = Readable.from(
+          (function* () {
+            while (produced < bodySize) {
+              produced += 64 * 1024;
+              yield Buffer.alloc(64 * 1024, 1);
+            }
+          })()
+        );
+        const limitedScanner = createClamAvScanner({
+          host: "127.0.0.1",
+          port: (limitedClamd.address() as AddressInfo).port,
+          timeoutMs: 5000
+        });
+        await expect(limitedScanner.scan(body)).rejects.toThrow("INSTREAM size limit exceeded");
+        expect(produced).toBeLessThan(bodySize);
+      } finally {
+        await new Promise<void>((resolve) => limitedClamd.close(() => resolve()));
+      }
+    } finally {
+      setFileScanner(null);
+      await new Promise<void>((resolve) => clamd.close(() => resolve()));
+    }
+  });
+
+  it("file folders: seeded layout, default type mapping, folder and file moves, filtered and tree listings", async () => {
+    const auth = await login();
+
+    const clientResponse = await request(app)
+      .post("/api/clients")
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({ name: "Folder Client" });
+    const projectResponse = await request(app)
+      .post("/api/projects")
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({ clientId: clientResponse.body.data.id, name: "Folder Project", startDate: "2026-02-12", deadline: "2026-04-15" });
+    const projectId = projectResponse.body.data.id as string;
+
+    const foldersResponse = await request(app)
+      .get(`/api/files/project/${projectId}/folders`)
+      .set("Authorization", `Bearer ${auth.accessToken}`);
+    expect(foldersResponse.status).toBe(200);
+    expect(foldersResponse.body.data.map((folder: { name: string }) => folder.name)).toEqual([
+      "Client Documents",
+      "Planning",
+      "Production",
+      "Deliverables"
+    ]);
+    const folderByName = new Map<string, string>(
+      foldersResponse.body.data.map((folder: { id: string; name: string }) => [folder.name, folder.id])
+    );
+    expect(foldersResponse.body.data[0].default_file_types).toEqual(["client_profile", "nda", "contract"]);
+
+    const linkFile = async (fileName: string, fileType: string, folderId?: string | null) =>
+      request(app)
+        .post("/api/files/link")
+        .set("Authorization", `Bearer ${auth.accessToken}`)
+        .send({
+          projectId,
+          fileName,
+          fileType,
+          storageType: "google_drive",
+          externalUrl: `https://drive.google.com/file/d/${encodeURIComponent(fileName)}`,
+          mimeType: "application/pdf",
+          fileSize: 1024,
+          ...(typeof folderId === "undefined" ? {} : { folderId })
+        });
+
+    const contract = await linkFile("contract.pdf", "contract");
+    expect(contract.status).toBe(201);
+    expect(contract.body.data.folder_id).toBe(folderByName.get("Client Documents"));
+
+    const brief = await linkFile("brief.pdf", "creative_brief");
+    expect(brief.body.data.folder_id).toBe(folderByName.get("Planning"));
+
+    const misc = await linkFile("misc.pdf", "other");
+    expect(misc.body.data.folder_id).toBeNull();
+
+    const rooted = await linkFile("rooted.pdf", "asset", null);
+    expect(rooted.body.data.folder_id).toBeNull();
+
+    const subfolder = await request(app)
+      .post("/api/files/folders")
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({ projectId, name: "Signed", parentId: folderByName.get("Client Documents") });
+    expect(subfolder.status).toBe(201);
+    const subfolderId = subfolder.body.data.id as string;
+
+    const duplicate = await request(app)
+      .post("/api/files/folders")
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({ projectId, name: "signed", parentId: folderByName.get("Client Documents") });
+    expect(duplicate.status).toBe(409);
+
+    const cycle = await request(app)
+      .patch(`/api/files/folders/${folderByName.get("Client Documents")}`)
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({ parentId: subfolderId });
+    expect(cycle.status).toBe(400);
+    expect(cycle.body.code).toBe("FOLDER_CYCLE");
+
+    // Moving two folders under each other at the same time must not commit a loop.
+    const moveUnder = (folderName: string, parentName: string) =>
+      request(app)
+        .patch(`/api/files/folders/${folderByName.get(folderName)}`)
+        .set("Authorization", `Bearer ${auth.accessToken}`)
+        .send({ parentId: folderByName.get(parentName) });
+    const crossedMoves = await Promise.all([moveUnder("Production", "Deliverables"), moveUnder("Deliverables", "Production")]);
+    expect(crossedMoves.map((response) => response.status).sort()).toEqual([200, 400]);
+    for (const folderName of ["Production", "Deliverables"]) {
+      const backToRoot = await request(app)
+        .patch(`/api/files/folders/${folderByName.get(folderName)}`)
+        .set("Authorization", `Bearer ${auth.accessToken}`)
+        .send({ parentId: null });
+      expect(backToRoot.status).toBe(200);
+    }
+
+    const renamed = await request(app)
+      .patch(`/api/files/folders/${subfolderId}`)
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({ name: "Signed Contracts" });
+    expect(renamed.status).toBe(200);
+    expect(renamed.body.data).toMatchObject({ name: "Signed Contracts", parent_id: folderByName.get("Client Documents") });
+
+    const contractVersion = await request(app)
+      .post(`/api/files/${contract.body.data.id}/versions`)
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({
+        storageType: "google_drive",
+        externalUrl: "https://drive.google.com/file/d/contract-signed",
+        mimeType: "application/pdf",
+        fileSize: 2048
+      });
+    expect(contractVersion.body.data.folder_id).toBe(folderByName.get("Client Documents"));
+
+    const moved = await request(app)
+      .patch(`/api/files/${contract.body.data.id}`)
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({ folderId: subfolderId, fileName: "contract-signed.pdf" });
+    expect(moved.status).toBe(200);
+    expect(moved.body.data).toMatchObject({ folder_id: subfolderId, file_name: "contract-signed.pdf", version: 2 });
+
+    const versions = await request(app)
+      .get(`/api/files/${contract.body.data.id}/versions`)
+      .set("Authorization", `Bearer ${auth.accessToken}`);
+    expect(versions.body.data.map((file: { folder_id: string }) => file.folder_id)).toEqual([subfolderId, subfolderId]);
+
+    const inSubfolder = await request(app)
+      .get(`/api/files/project/${projectId}?folderId=${subfolderId}`)
+      .set("Authorization", `Bearer ${auth.accessToken}`);
+    expect(inSubfolder.status).toBe(200);
+    expect(inSubfolder.body.meta.total).toBe(1);
+    expect(inSubfolder.body.data[0].file_name).toBe("contract-signed.pdf");
+
+    const atRoot = await request(app)
+      .get(`/api/files/project/${projectId}?folderId=root&sortBy=fileName&sortOrder=asc`)
+      .set("Authorization", `Bearer ${auth.accessToken}`);
+    expect(atRoot.body.data.map((file: { file_name: string }) => file.file_name)).toEqual(["misc.pdf", "rooted.pdf"]);
+
+    const tree = await request(app)
+      .get(`/api/files/project/${projectId}?view=tree&sortBy=fileName&sortOrder=asc`)
+      .set("Authorization", `Bearer ${auth.accessToken}`);
+    expect(tree.status).toBe(200);
+    expect(tree.body.meta).toMatchObject({ view: "tree", folderId: null, total: 4 });
+    expect(tree.body.data.files.map((file: { file_name: string }) => file.file_name)).toEqual(["misc.pdf", "rooted.pdf"]);
+    const clientDocuments = tree.body.data.folders[0];
+    expect(clientDocuments.name).toBe("Client Documents");
+    expect(clientDocuments.files).toHaveLength(0);
+    expect(clientDocuments.children[0]).toMatchObject({ id: subfolderId, name: "Signed Contracts" });
+    expect(clientDocuments.children[0].files[0].file_name).toBe("contract-signed.pdf");
+    expect(tree.body.data.folders[1].files[0].file_name).toBe("brief.pdf");
+
+    const subtree = await request(app)
+      .get(`/api/files/project/${projectId}?view=tree&folderId=${folderByName.get("Client Documents")}`)
+      .set("Authorization", `Bearer ${auth.accessToken}`);
+    expect(subtree.body.data.files).toHaveLength(0);
+    expect(subtree.body.data.folders.map((folder: { id: string }) => folder.id)).toEqual([subfolderId]);
+
+    const otherProject = await request(app)
+      .post("/api/projects")
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({ clientId: clientResponse.body.data.id, name: "Other Project", startDate: "2026-02-12", deadline: "2026-04-15" });
+    const otherFolders = await request(app)
+      .get(`/api/files/project/${otherProject.body.data.id}/folders`)
+      .set("Authorization", `Bearer ${auth.accessToken}`);
+    const foreignMove = await request(app)
+      .patch(`/api/files/${brief.body.data.id}`)
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({ folderId: otherFolders.body.data[0].id });
+    expect(foreignMove.status).toBe(404);
+
+    const foreignFilter = await request(app)
+      .get(`/api/files/project/${projectId}?folderId=${otherFolders.body.data[0].id}`)
+      .set("Authorization", `Bearer ${auth.accessToken}`);
+    expect(foreignFilter.status).toBe(404);
+  });
+
+  it("file previews: thumbnails and first-page PDF renders behind download-url authorization", async () => {
+    const auth = await login();
+
+    const clientResponse = await request(app)
+      .post("/api/clients")
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({ name: "Preview Client" });
+    const projectResponse = await request(app)
+      .post("/api/projects")
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({ clientId: clientResponse.body.data.id, name: "Preview Project", startDate: "2026-02-12", deadline: "2026-04-15" });
+    const projectId = projectResponse.body.data.id as string;
+
+    const uploadThroughSignedUrl = async (fileName: string, mimeType: string, content: Buffer) => {
+      const uploadUrlResponse = await request(app)
+        .post("/api/files/upload-url")
+        .set("Authorization", `Bearer ${auth.accessToken}`)
+        .send({ projectId, fileName, fileType: "asset", storageType: "local", mimeType, fileSize: content.length });
+      const uploadUrl = new URL(uploadUrlResponse.body.data.uploadUrl as string);
+      await request(app).put(`${uploadUrl.pathname}${uploadUrl.search}`).set("Content-Type", mimeType).send(content);
+
+      return request(app)
+        .post("/api/files/complete-upload")
+        .set("Authorization", `Bearer ${auth.accessToken}`)
+        .send({
+          projectId,
+          fileName,
+          fileType: "asset",
+          storageType: "local",
+          mimeType,
+          fileSize: content.length,
+          objectKey: uploadUrlResponse.body.data.objectKey
+        });
+    };
+
+    const png = await sharp({
+      create: { width: 800, height: 400, channels: 3, background: { r: 200, g: 40, b: 40 } }
+    })
+      .png()
+      .toBuffer();
+
+    setPdfPageRenderer({
+      name: "fixture",
+      async renderFirstPage() {
+        return sharp({ create: { width: 612, height: 792, channels: 3, background: "#ffffff" } }).png().toBuffer();
+      }
+    });
+
+    try {
+      const image = await uploadThroughSignedUrl("hero.png", "image/png", png);
+      expect(image.status).toBe(201);
+      expect((await waitForFileProcessing(image.body.data.id)).preview_status).toBe("ready");
+
+      const smallPreview = await request(app)
+        .get(`/api/files/${image.body.data.id}/preview?size=small`)
+        .set("Authorization", `Bearer ${auth.accessToken}`);
+      expect(smallPreview.status).toBe(200);
+      expect(smallPreview.body.data).toMatchObject({ size: "small", mimeType: "image/webp", width: 128, height: 64 });
+
+      const previewUrl = new URL(smallPreview.body.data.previewUrl as string);
+      const previewBytes = await request(app)
+        .get(`${previewUrl.pathname}${previewUrl.search}`)
+        .buffer(true)
+        .parse((response, callback) => {
+          const chunks: Buffer[] = [];
+          response.on("data", (chunk: Buffer) => chunks.push(chunk));
+          response.on("end", () => callback(null, Buffer.concat(chunks)));
+        });
+      expect(previewBytes.status).toBe(200);
+      const previewBody = previewBytes.body as Buffer;
+      expect(previewBody.subarray(0, 4).toString("latin1")).toBe("RIFF");
+      expect(previewBody.subarray(8, 12).toString("latin1")).toBe("WEBP");
+
+      const defaultPreview = await request(app)
+        .get(`/api/files/${image.body.data.id}/preview`)
+        .set("Authorization", `Bearer ${auth.accessToken}`);
+      expect(defaultPreview.body.data).toMatchObject({ size: "medium", width: 512, height: 256 });
+
+      const invalidSize = await request(app)
+        .get(`/api/files/${image.body.data.id}/preview?size=huge`)
+        .set("Authorization", `Bearer ${auth.accessToken}`);
+      expect(invalidSize.status).toBe(400);
+
+      const pdf = await uploadThroughSignedUrl("deck.pdf", "application/pdf", Buffer.from("%PDF-1.4 pitch deck"));
+      expect((await waitForFileProcessing(pdf.body.data.id)).preview_status).toBe("ready");
+      const pdfPreview = await request(app)
+        .get(`/api/files/${pdf.body.data.id}/preview?size=large`)
+        .set("Authorization", `Bearer ${auth.accessToken}`);
+      expect(pdfPreview.status).toBe(200);
+      // Renders smaller than the requested size are never upscaled.
+      expect(pdfPreview.body.data).toMatchObject({ width: 612, height: 792 });
+
+      setPdfPageRenderer(null);
+      const unrendered = await uploadThroughSignedUrl("terms.pdf", "application/pdf", Buffer.from("%PDF-1.4 terms"));
+      expect((await waitForFileProcessing(unrendered.body.data.id)).preview_status).toBe("unsupported");
+      const missingPreview = await request(app)
+        .get(`/api/files/${unrendered.body.data.id}/preview`)
+        .set("Authorization", `Bearer ${auth.accessToken}`);
+      expect(missingPreview.status).toBe(404);
+      expect(missingPreview.body.code).toBe("PREVIEW_NOT_AVAILABLE");
+
+      const outsiderHash = await bcrypt.hash("Outsider123!", 12);
+      await pool.query(
+        `INSERT INTO users (email, name, password_hash, is_active, created_at, updated_at)
+         VALUES ('outsider@adfix.local', 'Outsider', $1, TRUE, NOW(), NOW())`,
+        [outsiderHash]
+      );
+      const outsider = await loginAs("outsider@adfix.local", "Outsider123!");
+      const forbidden = await request(app)
+        .get(`/api/files/${image.body.data.id}/preview`)
+        .set("Authorization", `Bearer ${outsider.accessToken}`);
+      expect(forbidden.status).toBe(403);
+    } finally {
+      setPdfPageRenderer(undefined);
+    }
+  });
+
+  it("share links: expiring, password-protected, download-limited public links with access logging", async () => {
+    const auth = await login();
+
+    const clientResponse = await request(app)
+      .post("/api/clients")
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({ name: "Share Client" });
+    const projectResponse = await request(app)
+      .post("/api/projects")
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({ clientId: clientResponse.body.data.id, name: "Share Project", startDate: "2026-02-12", deadline: "2026-04-15" });
+    const projectId = projectResponse.body.data.id as string;
+
+    const content = Buffer.from("final cut notes");
+    const uploadUrlResponse = await request(app)
+      .post("/api/files/upload-url")
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({ projectId, fileName: "notes.txt", fileType: "deliverable", storageType: "local", mimeType: "text/plain", fileSize: content.length });
+    const uploadUrl = new URL(uploadUrlResponse.body.data.uploadUrl as string);
+    await request(app).put(`${uploadUrl.pathname}${uploadUrl.search}`).set("Content-Type", "text/plain").send(content);
+    const uploaded = await request(app)
+      .post("/api/files/complete-upload")
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({
+        projectId,
+        fileName: "notes.txt",
+        fileType: "deliverable",
+        storageType: "local",
+        mimeType: "text/plain",
+        fileSize: content.length,
+        objectKey: uploadUrlResponse.body.data.objectKey
+      });
+    const fileId = uploaded.body.data.id as string;
+    await waitForFileProcessing(fileId);
+
+    const pastExpiry = await request(app)
+      .post(`/api/files/${fileId}/share-links`)
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({ expiresAt: "2020-01-01T00:00:00Z" });
+    expect(pastExpiry.status).toBe(400);
+
+    const limited = await request(app)
+      .post(`/api/files/${fileId}/share-links`)
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({ maxDownloads: 1 });
+    expect(limited.status).toBe(201);
+    expect(limited.body.data).toMatchObject({ file_id: fileId, max_downloads: 1, download_count: 0, has_password: false });
+    expect(limited.body.data.password_hash).toBeUndefined();
+    const limitedUrl = new URL(limited.body.data.url as string);
+    expect(limitedUrl.pathname).toBe(`/api/v1/share/${limited.body.data.token}`);
+
+    const download = await request(app).get(limitedUrl.pathname);
+    expect(download.status).toBe(200);
+    expect(download.text).toBe("final cut notes");
+    expect(download.headers["content-disposition"]).toContain("notes.txt");
+
+    const exhausted = await request(app).get(limitedUrl.pathname);
+    expect(exhausted.status).toBe(410);
+    expect(exhausted.body.code).toBe("DOWNLOAD_LIMIT_REACHED");
+
+    const unknown = await request(app).get("/api/share/not-a-real-share-token");
+    expect(unknown.status).toBe(404);
+
+    const protectedLink = await request(app)
+      .post(`/api/files/${fileId}/share-links`)
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({ password: "letmein", expiresAt: new Date(Date.now() + 60 * 60 * 1000).toISOString() });
+    expect(protectedLink.body.data.has_password).toBe(true);
+    const protectedPath = `/api/share/${protectedLink.body.data.token}`;
+
+    const missingPassword = await request(app).get(protectedPath);
+    expect(missingPassword.status).toBe(401);
+    expect(missingPassword.body.code).toBe("PASSWORD_REQUIRED");
+    const wrongPassword = await request(app).post(protectedPath).type("form").send({ password: "guess" });
+    expect(wrongPassword.status).toBe(401);
+    expect(wrongPassword.body.code).toBe("INVALID_PASSWORD");
+    const rightPassword = await request(app).post(protectedPath).type("form").send({ password: "letmein" });
+    expect(rightPassword.status).toBe(200);
+    expect(rightPassword.text).toBe("final cut notes");
+
+    const revoked = await request(app)
+      .delete(`/api/files/${fileId}/share-links/${protectedLink.body.data.id}`)
+      .set("Authorization", `Bearer ${auth.accessToken}`);
+    expect(revoked.status).toBe(200);
+    expect(revoked.body.data.revoked_at).toBeTruthy();
+    const afterRevoke = await request(app).post(protectedPath).send({ password: "letmein" });
+    expect(afterRevoke.status).toBe(410);
+    expect(afterRevoke.body.code).toBe("SHARE_LINK_REVOKED");
+
+    await pool.query("UPDATE file_share_links SET expires_at = NOW() - INTERVAL '1 minute' WHERE id = $1", [
+      limited.body.data.id
+    ]);
+    const expired = await request(app).get(limitedUrl.pathname);
+    expect(expired.body.code).toBe("SHARE_LINK_EXPIRED");
+
+    const linked = await request(app)
+      .post("/api/files/link")
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({
+        projectId,
+        fileName: "Edit Folder",
+        fileType: "deliverable",
+        storageType: "google_drive",
+        externalUrl: "https://drive.google.com/drive/folders/share-test",
+        mimeType: "application/vnd.google-apps.folder",
+        fileSize: 1
+      });
+    const linkedShare = await request(app)
+      .post(`/api/files/${linked.body.data.id}/share-links`)
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({});
+    const redirect = await request(app).get(`/api/share/${linkedShare.body.data.token}`);
+    expect(redirect.status).toBe(302);
+    expect(redirect.headers.location).toBe("https://drive.google.com/drive/folders/share-test");
+
+    await request(app)
+      .delete(`/api/files/${linked.body.data.id}`)
+      .set("Authorization", `Bearer ${auth.accessToken}`);
+    const deletedFile = await request(app).get(`/api/share/${linkedShare.body.data.token}`);
+    expect(deletedFile.status).toBe(409);
+    expect(deletedFile.body.code).toBe("FILE_NOT_AVAILABLE");
+
+    const listed = await request(app)
+      .get(`/api/files/${fileId}/share-links`)
+      .set("Authorization", `Bearer ${auth.accessToken}`);
+    expect(listed.status).toBe(200);
+    expect(listed.body.data).toHaveLength(2);
+    expect(listed.body.data.find((link: { id: string }) => link.id === limited.body.data.id).download_count).toBe(1);
+
+    const accessLog = await pool.query<{ user_id: string | null; details: { outcome: string; reason: string | null } }>(
+      `SELECT user_id, details
+       FROM activity_log
+       WHERE action = 'file_share_link_accessed'
+         AND details->>'fileId' = $1
+       ORDER BY created_at ASC, id ASC`,
+      [fileId]
+    );
+    expect(accessLog.rows.every((row) => row.user_id === null)).toBe(true);
+    expect(accessLog.rows.map((row) => [row.details.outcome, row.details.reason])).toEqual([
+      ["downloaded", null],
+      ["denied", "download_limit_reached"],
+      ["denied", "password_required"],
+      ["denied", "invalid_password"],
+      ["downloaded", null],
+      ["denied", "revoked"],
+      ["denied", "expired"]
+    ]);
+
+    const activity = await request(app)
+      .get(`/api/projects/${projectId}/activity`)
+      .set("Authorization", `Bearer ${auth.accessToken}`);
+    expect(activity.status).toBe(200);
+    expect(
+      activity.body.data.some((entry: { action: string }) => entry.action === "file_share_link_accessed")
+    ).toBe(true);
+  });
+
+  it("export bundles: async ZIP of stored files with a manifest, filters, and a ready notification", async () => {
+    const auth = await login();
+
+    const clientResponse = await request(app)
+      .post("/api/clients")
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({ name: "Export Client" });
+    const projectResponse = await request(app)
+      .post("/api/projects")
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({ clientId: clientResponse.body.data.id, name: "Export Project", startDate: "2026-02-12", deadline: "2026-04-15" });
+    const projectId = projectResponse.body.data.id as string;
+
+    const uploadThroughSignedUrl = async (fileName: string, fileType: string, content: Buffer) => {
+      const uploadUrlResponse = await request(app)
+        .post("/api/files/upload-url")
+        .set("Authorization", `Bearer ${auth.accessToken}`)
+        .send({ projectId, fileName, fileType, storageType: "local", mimeType: "text/plain", fileSize: content.length });
+      const uploadUrl = new URL(uploadUrlResponse.body.data.uploadUrl as string);
+      await request(app).put(`${uploadUrl.pathname}${uploadUrl.search}`).set("Content-Type", "text/plain").send(content);
+
+      const completed = await request(app)
+        .post("/api/files/complete-upload")
+        .set("Authorization", `Bearer ${auth.accessToken}`)
+        .send({
+          projectId,
+          fileName,
+          fileType,
+          storageType: "local",
+          mimeType: "text/plain",
+          fileSize: content.length,
+          objectKey: uploadUrlResponse.body.data.objectKey
+        });
+      await waitForFileProcessing(completed.body.data.id);
+      return completed;
+    };
+
+    const handoff = Buffer.from("final handoff notes");
+    await uploadThroughSignedUrl("handoff.txt", "deliverable", handoff);
+    await uploadThroughSignedUrl("shot-list.txt", "asset", Buffer.from("shot list"));
+    const scrapped = await uploadThroughSignedUrl("scrapped.txt", "asset", Buffer.from("scrapped"));
+    await request(app)
+      .delete(`/api/files/${scrapped.body.data.id}`)
+      .set("Authorization", `Bearer ${auth.accessToken}`);
+    await request(app)
+      .post("/api/files/link")
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({
+        projectId,
+        fileName: "Master Edit",
+        fileType: "deliverable",
+        storageType: "dropbox",
+        externalUrl: "https://www.dropbox.com/s/export-test/master.mov",
+        mimeType: "video/quicktime",
+        fileSize: 1024
+      });
+
+    const waitForBundle = async (bundleId: string) => {
+      for (let attempt = 0; attempt < 100; attempt += 1) {
+        const response = await request(app)
+          .get(`/api/files/export-bundles/${bundleId}`)
+          .set("Authorization", `Bearer ${auth.accessToken}`);
+        if (response.body.data.status === "ready" || response.body.data.status === "failed") {
+          return response;
+        }
+        await new Promise((resolve) => setTimeout(resolve, 50));
+      }
+      throw new Error(`Export bundle ${bundleId} did not finish`);
+    };
+
+    const downloadBundle = async (bundleId: string) => {
+      const urlResponse = await request(app)
+        .get(`/api/files/export-bundles/${bundleId}/download-url`)
+        .set("Authorization", `Bearer ${auth.accessToken}`);
+      expect(urlResponse.status).toBe(200);
+      const downloadUrl = new URL(urlResponse.body.data.downloadUrl as string);
+      const download = await request(app)
+        .get(`${downloadUrl.pathname}${downloadUrl.search}`)
+        .buffer(true)
+        .parse((response, callback) => {
+          const chunks: Buffer[] = [];
+          response.on("data", (chunk: Buffer) => chunks.push(chunk));
+          response.on("end", () => callback(null, Buffer.concat(chunks)));
+        });
+      expect(download.status).toBe(200);
+      return readZipEntries(download.body as Buffer);
+    };
+
+    const queued = await request(app)
+      .post(`/api/files/project/${projectId}/export-bundles`)
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({});
+    expect(queued.status).toBe(202);
+    expect(queued.body.data.status).toBe("queued");
+
+    const finished = await waitForBundle(queued.body.data.id);
+    expect(finished.body.data).toMatchObject({ status: "ready", file_count: 2, external_link_count: 1 });
+
+    const entries = await downloadBundle(queued.body.data.id);
+    expect([...entries.keys()].sort()).toEqual(["Deliverables/handoff.txt", "Production/shot-list.txt", "manifest.json"]);
+    expect(entries.get("Deliverables/handoff.txt")?.toString()).toBe("final handoff notes");
+
+    const manifest = JSON.parse(entries.get("manifest.json")!.toString()) as {
+      files: Array<{ path: string; checksumSha256: string; size: number }>;
+      externalLinks: Array<{ fileName: string; externalUrl: string; storageType: string }>;
+    };
+    expect(manifest.files.find((file) => file.path === "Deliverables/handoff.txt")).toMatchObject({
+      size: handoff.length,
+      checksumSha256: crypto.createHash("sha256").update(handoff).digest("hex")
+    });
+    expect(manifest.externalLinks).toEqual([
+      expect.objectContaining({
+        fileName: "Master Edit",
+        storageType: "dropbox",
+        externalUrl: "https://www.dropbox.com/s/export-test/master.mov"
+      })
+    ]);
+
+    const notifications = await request(app)
+      .get("/api/notifications")
+      .set("Authorization", `Bearer ${auth.accessToken}`);
+    expect(
+      notifications.body.data.some(
+        (notification: { type: string; metadata: { bundleId?: string } }) =>
+          notification.type === "export_bundle_ready" && notification.metadata.bundleId === queued.body.data.id
+      )
+    ).toBe(true);
+
+    const filtered = await request(app)
+      .post(`/api/files/project/${projectId}/export-bundles`)
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({ fileType: "asset" });
+    await waitForBundle(filtered.body.data.id);
+    const filteredEntries = await downloadBundle(filtered.body.data.id);
+    expect([...filteredEntries.keys()].sort()).toEqual(["Production/shot-list.txt", "manifest.json"]);
+
+    const folders = await request(app)
+      .get(`/api/files/project/${projectId}/folders`)
+      .set("Authorization", `Bearer ${auth.accessToken}`);
+    const deliverablesFolder = folders.body.data.find((folder: { name: string }) => folder.name === "Deliverables");
+    const byFolder = await request(app)
+      .post(`/api/files/project/${projectId}/export-bundles`)
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({ folderId: deliverablesFolder.id });
+    const byFolderFinished = await waitForBundle(byFolder.body.data.id);
+    expect(byFolderFinished.body.data).toMatchObject({ file_count: 1, external_link_count: 1 });
+
+    const listed = await request(app)
+      .get(`/api/files/project/${projectId}/export-bundles`)
+      .set("Authorization", `Bearer ${auth.accessToken}`);
+    expect(listed.body.meta.total).toBe(3);
+
+    const pending = await pool.query<{ id: string }>(
+      `INSERT INTO file_export_bundles (project_id, status) VALUES ($1, 'running') RETURNING id`,
+      [projectId]
+    );
+    const notReady = await request(app)
+      .get(`/api/files/export-bundles/${pending.rows[0].id}/download-url`)
+      .set("Authorization", `Bearer ${auth.accessToken}`);
+    expect(notReady.status).toBe(409);
+    expect(notReady.body.code).toBe("EXPORT_NOT_READY");
+
+    const invalidType = await request(app)
+      .post(`/api/files/project/${projectId}/export-bundles`)
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({ fileType: "spreadsheet" });
+    expect(invalidType.status).toBe(400);
+  });
+
+  it("file approvals: versioned reviewer decisions gate the move into delivery unless the owner overrides", async () => {
+    const auth = await login();
+
+    const passwordHash = await bcrypt.hash("Reviewer123!", 12);
+    const createdUsers = await pool.query<{ id: string; email: string }>(
+      `INSERT INTO users (email, name, password_hash, is_active, created_at, updated_at)
+       VALUES
+         ('reviewer@adfix.local', 'Client Reviewer', $1, TRUE, NOW(), NOW()),
+         ('producer@adfix.local', 'Producer', $1, TRUE, NOW(), NOW())
+       RETURNING id, email`,
+      [passwordHash]
+    );
+    const reviewerId = createdUsers.rows.find((row) => row.email === "reviewer@adfix.local")!.id;
+    const producerId = createdUsers.rows.find((row) => row.email === "producer@adfix.local")!.id;
+
+    const clientResponse = await request(app)
+      .post("/api/clients")
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({ name: "Approval Client" });
+    const projectResponse = await request(app)
+      .post("/api/projects")
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({ clientId: clientResponse.body.data.id, name: "Approval Project", startDate: "2026-02-12", deadline: "2026-04-15" });
+    const projectId = projectResponse.body.data.id as string;
+
+    for (const [userId, role] of [
+      [reviewerId, "viewer"],
+      [producerId, "manager"]
+    ]) {
+      await request(app)
+        .post(`/api/projects/${projectId}/team`)
+        .set("Authorization", `Bearer ${auth.accessToken}`)
+        .send({ userId, role });
+    }
+    const reviewer = await loginAs("reviewer@adfix.local", "Reviewer123!");
+    const producer = await loginAs("producer@adfix.local", "Reviewer123!");
+
+    const linkFile = (fileName: string, fileType: string) =>
+      request(app)
+        .post("/api/files/link")
+        .set("Authorization", `Bearer ${auth.accessToken}`)
+        .send({
+          projectId,
+          fileName,
+          fileType,
+          storageType: "google_drive",
+          externalUrl: `https://drive.google.com/file/d/${encodeURIComponent(fileName)}`,
+          mimeType: "video/mp4",
+          fileSize: 2048
+        });
+
+    const cut = await linkFile("Final Cut", "deliverable");
+    const broll = await linkFile("B-roll", "asset");
+
+    for (const phase of ["strategy_planning", "production", "post_production"]) {
+      await request(app)
+        .patch(`/api/projects/${projectId}/phase`)
+        .set("Authorization", `Bearer ${auth.accessToken}`)
+        .send({ phase });
+    }
+
+    const blocked = await request(app)
+      .patch(`/api/projects/${projectId}/phase`)
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({ phase: "delivery" });
+    expect(blocked.status).toBe(409);
+    expect(blocked.body.code).toBe("DELIVERABLES_NOT_APPROVED");
+    expect(blocked.body.details.files).toEqual([
+      expect.objectContaining({ fileId: cut.body.data.id, fileName: "Final Cut", approvalStatus: null })
+    ]);
+
+    const notApprovable = await request(app)
+      .post(`/api/files/${broll.body.data.id}/approvals`)
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({ reviewerId });
+    expect(notApprovable.status).toBe(400);
+    expect(notApprovable.body.code).toBe("APPROVAL_NOT_SUPPORTED");
+
+    const selfReview = await request(app)
+      .post(`/api/files/${cut.body.data.id}/approvals`)
+      .set("Authorization", `Bearer ${reviewer.accessToken}`)
+      .send({ reviewerId });
+    expect(selfReview.status).toBe(403);
+
+    const firstRequest = await request(app)
+      .post(`/api/files/${cut.body.data.id}/approvals`)
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({ reviewerId, note: "First pass" });
+    expect(firstRequest.status).toBe(201);
+    expect(firstRequest.body.data).toMatchObject({ status: "pending", file_version: 1, reviewer_id: reviewerId });
+
+    const duplicate = await request(app)
+      .post(`/api/files/${cut.body.data.id}/approvals`)
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({ reviewerId });
+    expect(duplicate.status).toBe(409);
+
+    const notReviewer = await request(app)
+      .post(`/api/files/approvals/${firstRequest.body.data.id}/decision`)
+      .set("Authorization", `Bearer ${producer.accessToken}`)
+      .send({ decision: "approved" });
+    expect(notReviewer.status).toBe(403);
+
+    const missingNote = await request(app)
+      .post(`/api/files/approvals/${firstRequest.body.data.id}/decision`)
+      .set("Authorization", `Bearer ${reviewer.accessToken}`)
+      .send({ decision: "changes_requested" });
+    expect(missingNote.status).toBe(400);
+
+    const changes = await request(app)
+      .post(`/api/files/approvals/${firstRequest.body.data.id}/decision`)
+      .set("Authorization", `Bearer ${reviewer.accessToken}`)
+      .send({ decision: "changes_requested", note: "Trim the intro" });
+    expect(changes.status).toBe(200);
+    expect(changes.body.data).toMatchObject({ status: "changes_requested", decision_note: "Trim the intro" });
+
+    const secondVersion = await request(app)
+      .post(`/api/files/${cut.body.data.id}/versions`)
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({
+        storageType: "google_drive",
+        externalUrl: "https://drive.google.com/file/d/final-cut-v2",
+        mimeType: "video/mp4",
+        fileSize: 4096
+      });
+    const staleRequest = await request(app)
+      .post(`/api/files/${cut.body.data.id}/approvals`)
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({ reviewerId });
+    expect(staleRequest.status).toBe(409);
+    expect(staleRequest.body.code).toBe("FILE_NOT_LATEST");
+
+    const secondRequest = await request(app)
+      .post(`/api/files/${secondVersion.body.data.id}/approvals`)
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({ reviewerId });
+    expect(secondRequest.body.data.file_version).toBe(2);
+
+    const reviewerInbox = await request(app)
+      .get("/api/notifications")
+      .set("Authorization", `Bearer ${reviewer.accessToken}`);
+    expect(
+      reviewerInbox.body.data.filter((notification: { type: string }) => notification.type === "file_approval_requested")
+    ).toHaveLength(2);
+
+    // A third version lands while v2 is still under review, so the v2 decision is refused.
+    const thirdVersion = await request(app)
+      .post(`/api/files/${secondVersion.body.data.id}/versions`)
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({
+        storageType: "google_drive",
+        externalUrl: "https://drive.google.com/file/d/final-cut-v3",
+        mimeType: "video/mp4",
+        fileSize: 4096
+      });
+    const supersededDecision = await request(app)
+      .post(`/api/files/approvals/${secondRequest.body.data.id}/decision`)
+      .set("Authorization", `Bearer ${reviewer.accessToken}`)
+      .send({ decision: "approved" });
+    expect(supersededDecision.status).toBe(409);
+    expect(supersededDecision.body.code).toBe("APPROVAL_SUPERSEDED");
+
+    const thirdRequest = await request(app)
+      .post(`/api/files/${thirdVersion.body.data.id}/approvals`)
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({ reviewerId });
+    const approved = await request(app)
+      .post(`/api/files/approvals/${thirdRequest.body.data.id}/decision`)
+      .set("Authorization", `Bearer ${reviewer.accessToken}`)
+      .send({ decision: "approved" });
+    expect(approved.status).toBe(200);
+
+    const history = await request(app)
+      .get(`/api/files/${cut.body.data.id}/approvals`)
+      .set("Authorization", `Bearer ${reviewer.accessToken}`);
+    expect(history.status).toBe(200);
+    expect(
+      history.body.data.map((approval: { file_version: number; status: string }) => [approval.file_version, approval.status])
+    ).toEqual([
+      [3, "approved"],
+      [2, "superseded"],
+      [1, "changes_requested"]
+    ]);
+
+    const ownerInbox = await request(app)
+      .get("/api/notifications")
+      .set("Authorization", `Bearer ${auth.accessToken}`);
+    expect(
+      ownerInbox.body.data.filter((notification: { type: string }) => notification.type === "file_approval_decided")
+    ).toHaveLength(2);
+
+    const altCut = await linkFile("Alt Cut", "deliverable");
+    const stillBlocked = await request(app)
+      .patch(`/api/projects/${projectId}/phase`)
+      .set("Authorization", `Bearer ${producer.accessToken}`)
+      .send({ phase: "delivery" });
+    expect(stillBlocked.status).toBe(409);
+    expect(stillBlocked.body.details.files).toEqual([expect.objectContaining({ fileId: altCut.body.data.id })]);
+
+    const managerOverride = await request(app)
+      .patch(`/api/projects/${projectId}/phase`)
+      .set("Authorization", `Bearer ${producer.accessToken}`)
+      .send({ phase: "delivery", overrideApprovals: true });
+    expect(managerOverride.status).toBe(403);
+
+    const ownerOverride = await request(app)
+      .patch(`/api/projects/${projectId}/phase`)
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({ phase: "delivery", reason: "Client signed off by email", overrideApprovals: true });
+    expect(ownerOverride.status).toBe(200);
+    expect(ownerOverride.body.data.current_phase).toBe("delivery");
+
+    const phaseLog = await pool.query<{ details: { approvalOverride?: boolean; unapprovedFileIds?: string[] } }>(
+      `SELECT details
+       FROM activity_log
+       WHERE project_id = $1
+         AND action = 'project_phase_changed'
+         AND details->>'to' = 'delivery'`,
+      [projectId]
+    );
+    expect(phaseLog.rows[0].details).toMatchObject({
+      approvalOverride: true,
+      unapprovedFileIds: [altCut.body.data.id]
+    });
+  });
+
+  it("client portal: client users see only their client's phases, deliverables and approvals", async () => {
+    const auth = await login();
+
+    const clientA = await request(app)
+      .post("/api/clients")
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({ name: "Portal Client" });
+    const clientB = await request(app)
+      .post("/api/clients")
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({ name: "Other Client" });
+    const projectA = await request(app)
+      .post("/api/projects")
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({
+        clientId: clientA.body.data.id,
+        name: "Portal Campaign",
+        description: "Internal margin notes",
+        budget: "25000.00",
+        startDate: "2026-03-01",
+        deadline: "2026-05-01"
+      });
+    const projectB = await request(app)
+      .post("/api/projects")
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({ clientId: clientB.body.data.id, name: "Other Campaign", startDate: "2026-03-01", deadline: "2026-05-01" });
+    const projectId = projectA.body.data.id as string;
+
+    const created = await request(app)
+      .post(`/api/clients/${clientA.body.data.id}/users`)
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({ email: "buyer@client.example", name: "Client Buyer", password: "Portal123!" });
+    expect(created.status).toBe(201);
+    expect(created.body.data).toMatchObject({ principal_type: "client_user", client_id: clientA.body.data.id, is_admin: false });
+    expect(created.body.data.password_hash).toBeUndefined();
+    await request(app)
+      .post(`/api/clients/${clientA.body.data.id}/users`)
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({ email: "colleague@client.example", name: "Client Colleague", password: "Portal123!" });
+    const clientUserId = created.body.data.id as string;
+
+    const duplicateEmail = await request(app)
+      .post(`/api/clients/${clientB.body.data.id}/users`)
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({ email: "buyer@client.example", name: "Someone Else", password: "Portal123!" });
+    expect(duplicateEmail.status).toBe(409);
+
+    const loginResponse = await request(app)
+      .post("/api/auth/login")
+      .send({ email: "buyer@client.example", password: "Portal123!" });
+    expect(loginResponse.status).toBe(200);
+    expect(loginResponse.body.user).toMatchObject({ principalType: "client_user", clientId: clientA.body.data.id });
+    const clientToken = loginResponse.body.accessToken as string;
+    const colleague = await loginAs("colleague@client.example", "Portal123!");
+
+    const me = await request(app).get("/api/auth/me").set("Authorization", `Bearer ${clientToken}`);
+    expect(me.status).toBe(200);
+    expect(me.body.user.principalType).toBe("client_user");
+
+    for (const path of ["/api/projects", `/api/projects/${projectId}`, "/api/tasks", "/api/users", "/api/search?q=Portal"]) {
+      const internal = await request(app).get(path).set("Authorization", `Bearer ${clientToken}`);
+      expect(internal.status).toBe(403);
+    }
+    const staffOnPortal = await request(app).get("/api/portal/projects").set("Authorization", `Bearer ${auth.accessToken}`);
+    expect(staffOnPortal.status).toBe(403);
+
+    const teamAdd = await request(app)
+      .post(`/api/projects/${projectId}/team`)
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({ userId: clientUserId, role: "viewer" });
+    expect(teamAdd.status).toBe(404);
+    const assigned = await request(app)
+      .post("/api/tasks")
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({ projectId, title: "Internal edit", phase: "production", assignedTo: clientUserId });
+    expect(assigned.status).toBe(400);
+    expect(assigned.body.code).toBe("INVALID_ASSIGNEE");
+
+    const linkFile = (fileName: string, fileType: string) =>
+      request(app)
+        .post("/api/files/link")
+        .set("Authorization", `Bearer ${auth.accessToken}`)
+        .send({
+          projectId,
+          fileName,
+          fileType,
+          storageType: "google_drive",
+          externalUrl: `https://drive.google.com/file/d/${encodeURIComponent(fileName)}`,
+          mimeType: "video/mp4",
+          fileSize: 2048
+        });
+    const deliverable = await linkFile("Hero Spot", "deliverable");
+    const proposal = await linkFile("Scope Proposal", "proposal");
+    const asset = await linkFile("Raw Footage", "asset");
+
+    const approvalRequest = await request(app)
+      .post(`/api/files/${proposal.body.data.id}/approvals`)
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({ reviewerId: clientUserId, note: "Please sign off the scope" });
+    expect(approvalRequest.status).toBe(201);
+
+    await request(app)
+      .patch(`/api/projects/${projectId}/phase`)
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({ phase: "strategy_planning" });
+
+    const projects = await request(app).get("/api/portal/projects").set("Authorization", `Bearer ${clientToken}`);
+    expect(projects.status).toBe(200);
+    expect(projects.body.data).toHaveLength(1);
+    expect(projects.body.data[0]).toMatchObject({
+      id: projectId,
+      current_phase: "strategy_planning",
+      start_date: "2026-03-01",
+      deadline: "2026-05-01"
+    });
+    expect(projects.body.data[0]).not.toHaveProperty("budget");
+    expect(projects.body.data[0]).not.toHaveProperty("description");
+
+    const detail = await request(app).get(`/api/portal/projects/${projectId}`).set("Authorization", `Bearer ${clientToken}`);
+    expect(detail.status).toBe(200);
+    expect(detail.body.data.milestones.map((milestone: { phase: string }) => milestone.phase)).toEqual([
+      "client_acquisition",
+      "strategy_planning"
+    ]);
+    expect(detail.body.data.deliverables).toEqual([
+      expect.objectContaining({ id: deliverable.body.data.id, file_name: "Hero Spot", is_external: true })
+    ]);
+    expect(detail.body.data.deliverables[0]).not.toHaveProperty("object_key");
+    expect(detail.body.data.approvals).toEqual([
+      expect.objectContaining({ id: approvalRequest.body.data.id, file_name: "Scope Proposal", status: "pending" })
+    ]);
+    expect(detail.body.data).not.toHaveProperty("tasks");
+
+    const otherProject = await request(app)
+      .get(`/api/portal/projects/${projectB.body.data.id}`)
+      .set("Authorization", `Bearer ${clientToken}`);
+    expect(otherProject.status).toBe(404);
+
+    const deliverableUrl = await request(app)
+      .get(`/api/portal/files/${deliverable.body.data.id}/download-url`)
+      .set("Authorization", `Bearer ${clientToken}`);
+    expect(deliverableUrl.status).toBe(200);
+    const proposalUrl = await request(app)
+      .get(`/api/portal/files/${proposal.body.data.id}/download-url`)
+      .set("Authorization", `Bearer ${clientToken}`);
+    expect(proposalUrl.status).toBe(200);
+    const assetUrl = await request(app)
+      .get(`/api/portal/files/${asset.body.data.id}/download-url`)
+      .set("Authorization", `Bearer ${clientToken}`);
+    expect(assetUrl.status).toBe(404);
+
+    const colleagueDecision = await request(app)
+      .post(`/api/portal/approvals/${approvalRequest.body.data.id}/decision`)
+      .set("Authorization", `Bearer ${colleague.accessToken}`)
+      .send({ decision: "approved" });
+    expect(colleagueDecision.status).toBe(403);
+
+    const decision = await request(app)
+      .post(`/api/portal/approvals/${approvalRequest.body.data.id}/decision`)
+      .set("Authorization", `Bearer ${clientToken}`)
+      .send({ decision: "approved" });
+    expect(decision.status).toBe(200);
+    expect(decision.body.data).toMatchObject({ status: "approved", decided_by: clientUserId });
+
+    const clientInbox = await request(app).get("/api/notifications").set("Authorization", `Bearer ${clientToken}`);
+    expect(clientInbox.status).toBe(200);
+    expect(clientInbox.body.data.map((notification: { type: string }) => notification.type)).toEqual([
+      "file_approval_requested"
+    ]);
+    const ownerInbox = await request(app).get("/api/notifications").set("Authorization", `Bearer ${auth.accessToken}`);
+    expect(
+      ownerInbox.body.data.filter((notification: { type: string }) => notification.type === "file_approval_decided")
+    ).toHaveLength(1);
+
+    await request(app).delete(`/api/clients/${clientA.body.data.id}`).set("Authorization", `Bearer ${auth.accessToken}`);
+    const archivedLogin = await request(app)
+      .post("/api/auth/login")
+      .send({ email: "buyer@client.example", password: "Portal123!" });
+    expect(archivedLogin.status).toBe(401);
+  });
+
+  it("client contacts: CRUD with a single primary contact, project stakeholders and contact search", async () => {
+    const auth = await login();
+
+    const clientResponse = await request(app)
+      .post("/api/clients")
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({ name: "Contact Client", email: "hello@contact.example" });
+    const clientId = clientResponse.body.data.id as string;
+    const otherClient = await request(app)
+      .post("/api/clients")
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({ name: "Unrelated Client" });
+
+    const producer = await request(app)
+      .post(`/api/clients/${clientId}/contacts`)
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({ name: "Pat Producer", title: "Producer", email: "pat@contact.example", isPrimary: true });
+    expect(producer.status).toBe(201);
+    expect(producer.body.data).toMatchObject({ client_id: clientId, is_primary: true, title: "Producer" });
+
+    const legal = await request(app)
+      .post(`/api/clients/${clientId}/contacts`)
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({ name: "Lee Legal", title: "Counsel", email: "legal@contact.example", notes: "Signs off usage rights" });
+    const foreignContact = await request(app)
+      .post(`/api/clients/${otherClient.body.data.id}/contacts`)
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({ name: "Outside Person" });
+
+    const invalid = await request(app)
+      .post(`/api/clients/${clientId}/contacts`)
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({ name: "No Email", email: "not-an-email" });
+    expect(invalid.status).toBe(400);
+
+    const promoted = await request(app)
+      .put(`/api/clients/${clientId}/contacts/${legal.body.data.id}`)
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({ isPrimary: true, phone: "+1 555 0100" });
+    expect(promoted.status).toBe(200);
+    expect(promoted.body.data).toMatchObject({ is_primary: true, phone: "+1 555 0100" });
+
+    const contacts = await request(app)
+      .get(`/api/clients/${clientId}/contacts`)
+      .set("Authorization", `Bearer ${auth.accessToken}`);
+    expect(
+      contacts.body.data.map((contact: { name: string; is_primary: boolean }) => [contact.name, contact.is_primary])
+    ).toEqual([
+      ["Lee Legal", true],
+      ["Pat Producer", false]
+    ]);
+
+    const wrongClient = await request(app)
+      .put(`/api/clients/${otherClient.body.data.id}/contacts/${legal.body.data.id}`)
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({ name: "Hijacked" });
+    expect(wrongClient.status).toBe(404);
+
+    const projectResponse = await request(app)
+      .post("/api/projects")
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({ clientId, name: "Stakeholder Project", startDate: "2026-03-01", deadline: "2026-05-01" });
+    const projectId = projectResponse.body.data.id as string;
+
+    const stakeholder = await request(app)
+      .post(`/api/projects/${projectId}/stakeholders`)
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({ contactId: producer.body.data.id, role: "Day-to-day contact" });
+    expect(stakeholder.status).toBe(201);
+    expect(stakeholder.body.data).toMatchObject({
+      contact_id: producer.body.data.id,
+      name: "Pat Producer",
+      role: "Day-to-day contact"
+    });
+    await request(app)
+      .post(`/api/projects/${projectId}/stakeholders`)
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({ contactId: legal.body.data.id });
+
+    const outsider = await request(app)
+      .post(`/api/projects/${projectId}/stakeholders`)
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({ contactId: foreignContact.body.data.id });
+    expect(outsider.status).toBe(400);
+    expect(outsider.body.code).toBe("INVALID_CONTACT");
+
+    const search = await request(app)
+      .get("/api/search?q=legal@contact&scope=clients")
+      .set("Authorization", `Bearer ${auth.accessToken}`);
+    expect(search.status).toBe(200);
+    expect(search.body.data.clients).toEqual([
+      expect.objectContaining({ clientId, subtitle: "Contact: Lee Legal" })
+    ]);
+
+    const removed = await request(app)
+      .delete(`/api/clients/${clientId}/contacts/${legal.body.data.id}`)
+      .set("Authorization", `Bearer ${auth.accessToken}`);
+    expect(removed.status).toBe(204);
+
+    const stakeholders = await request(app)
+      .get(`/api/projects/${projectId}/stakeholders`)
+      .set("Authorization", `Bearer ${auth.accessToken}`);
+    expect(stakeholders.body.data.map((row: { name: string }) => row.name)).toEqual(["Pat Producer"]);
+
+    const searchAfterDelete = await request(app)
+      .get("/api/search?q=legal@contact&scope=clients")
+      .set("Authorization", `Bearer ${auth.accessToken}`);
+    expect(searchAfterDelete.body.data.clients).toEqual([]);
+
+    const detached = await request(app)
+      .delete(`/api/projects/${projectId}/stakeholders/${producer.body.data.id}`)
+      .set("Authorization", `Bearer ${auth.accessToken}`);
+    expect(detached.status).toBe(204);
+  });
+
+  it("client duplicates: fuzzy candidates and an audited admin-only merge", async () => {
+    const auth = await login();
+
+    const createClient = async (body: Record<string, string>) => {
+      const response = await request(app)
+        .post("/api/clients")
+        .set("Authorization", `Bearer ${auth.accessToken}`)
+        .send(body);
+      return response.body.data.id as string;
+    };
+    const acmeId = await createClient({ name: "Acme", email: "info@acme.example" });
+    const acmeIncId = await createClient({ name: "ACME Inc.", phone: "+1 555 0199", notes: "Imported from old CRM" });
+    const acmeCorpId = await createClient({ name: "Acme Corp", email: "billing@acme.example" });
+    const globexId = await createClient({ name: "Globex", email: "team@gmail.com" });
+    await createClient({ name: "Initech", email: "boss@gmail.com" });
+
+    const duplicates = await request(app)
+      .get("/api/clients/duplicates")
+      .set("Authorization", `Bearer ${auth.accessToken}`);
+    expect(duplicates.status).toBe(200);
+    const pairs = duplicates.body.data.map((row: { client: { id: string }; duplicate: { id: string } }) =>
+      [row.client.id, row.duplicate.id].sort().join(":")
+    );
+    expect(pairs).toHaveLength(3);
+    expect(pairs).toEqual(
+      expect.arrayContaining([
+        [acmeId, acmeIncId].sort().join(":"),
+        [acmeId, acmeCorpId].sort().join(":"),
+        [acmeIncId, acmeCorpId].sort().join(":")
+      ])
+    );
+    const byEmailDomain = duplicates.body.data.find(
+      (row: { client: { id: string }; duplicate: { id: string } }) =>
+        [row.client.id, row.duplicate.id].sort().join(":") === [acmeId, acmeCorpId].sort().join(":")
+    );
+    expect(byEmailDomain).toMatchObject({ score: 1, reasons: ["name", "email_domain"] });
+    expect(pairs.some((pair: string) => pair.includes(globexId))).toBe(false);
+
+    const invalidQuery = await request(app)
+      .get("/api/clients/duplicates?minScore=0.1")
+      .set("Authorization", `Bearer ${auth.accessToken}`);
+    expect(invalidQuery.status).toBe(400);
+
+    const projectResponse = await request(app)
+      .post("/api/projects")
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({ clientId: acmeIncId, name: "Acme Spring Spot", startDate: "2026-03-01", deadline: "2026-05-01" });
+    const projectId = projectResponse.body.data.id as string;
+    await request(app)
+      .post(`/api/clients/${acmeId}/contacts`)
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({ name: "Ada Primary", isPrimary: true });
+    const movedContact = await request(app)
+      .post(`/api/clients/${acmeIncId}/contacts`)
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({ name: "Bo Secondary", isPrimary: true });
+    const portalUser = await request(app)
+      .post(`/api/clients/${acmeIncId}/users`)
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({ email: "portal@acme.example", name: "Acme Portal", password: "PortalPass123!" });
+
+    const memberPasswordHash = await bcrypt.hash("MemberPass123!", 12);
+    await pool.query(
+      `INSERT INTO users (email, name, password_hash, is_active, created_at, updated_at)
+       VALUES ('member-merge@adfix.local', 'Member Merge', $1, TRUE, NOW(), NOW())`,
+      [memberPasswordHash]
+    );
+    const memberAuth = await loginAs("member-merge@adfix.local", "MemberPass123!");
+    const forbidden = await request(app)
+      .post(`/api/clients/${acmeId}/merge`)
+      .set("Authorization", `Bearer ${memberAuth.accessToken}`)
+      .send({ mergedClientId: acmeIncId });
+    expect(forbidden.status).toBe(403);
+
+    const intoItself = await request(app)
+      .post(`/api/clients/${acmeId}/merge`)
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({ mergedClientId: acmeId });
+    expect(intoItself.status).toBe(400);
+    expect(intoItself.body.code).toBe("INVALID_MERGE_CLIENT");
+
+    const merged = await request(app)
+      .post(`/api/clients/${acmeId}/merge`)
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({ mergedClientId: acmeIncId });
+    expect(merged.status).toBe(200);
+    expect(merged.body.data.client).toMatchObject({
+      id: acmeId,
+      email: "info@acme.example",
+      phone: "+1 555 0199",
+      notes: "Imported from old CRM"
+    });
+    expect(merged.body.data.merge).toMatchObject({
+      survivor_client_id: acmeId,
+      merged_client_id: acmeIncId,
+      merged_client_snapshot: expect.objectContaining({ name: "ACME Inc." }),
+      moved: {
+        projectIds: [projectId],
+        contactIds: [movedContact.body.data.id],
+        clientUserIds: [portalUser.body.data.id],
+        activityCount: expect.any(Number),
+        filledFields: ["phone", "notes"]
+      }
+    });
+    expect(merged.body.data.merge.moved.activityCount).toBeGreaterThan(0);
+
+    const project = await request(app)
+      .get(`/api/projects/${projectId}`)
+      .set("Authorization", `Bearer ${auth.accessToken}`);
+    expect(project.body.data.client_id).toBe(acmeId);
+
+    const contacts = await request(app)
+      .get(`/api/clients/${acmeId}/contacts`)
+      .set("Authorization", `Bearer ${auth.accessToken}`);
+    expect(
+      contacts.body.data.map((contact: { name: string; is_primary: boolean }) => [contact.name, contact.is_primary])
+    ).toEqual([
+      ["Ada Primary", true],
+      ["Bo Secondary", false]
+    ]);
+
+    const mergedClient = await request(app)
+      .get(`/api/clients/${acmeIncId}`)
+      .set("Authorization", `Bearer ${auth.accessToken}`);
+    expect(mergedClient.status).toBe(404);
+
+    const again = await request(app)
+      .post(`/api/clients/${acmeId}/merge`)
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({ mergedClientId: acmeIncId });
+    expect(again.status).toBe(400);
+
+    const activity = await request(app)
+      .get(`/api/clients/${acmeId}/activity`)
+      .set("Authorization", `Bearer ${auth.accessToken}`);
+    const actions = activity.body.data.map((item: { action: string }) => item.action);
+    expect(actions[0]).toBe("client_merged");
+    expect(actions).toContain("client_user_created");
+
+    const remaining = await request(app)
+      .get("/api/clients/duplicates")
+      .set("Authorization", `Bearer ${auth.accessToken}`);
+    expect(remaining.body.data).toHaveLength(1);
+  });
+
+  it("imports: CSV and XLSX uploads with mapping preview, dry run, transactional commit and undo", async () => {
+    const auth = await login();
+
+    const clientsCsv = [
+      "Client Name,Company,E-mail,Phone",
+      "Northwind,Northwind Traders,hello@northwind.example,+1 555 0101",
+      "Bad Email Co,,not-an-email,",
+      ",,,",
+      "Contoso,Contoso Ltd,,+1 555 0102"
+    ].join("\n");
+
+    const upload = await request(app)
+      .post("/api/imports?entity=clients&fileName=clients.csv")
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .set("Content-Type", "text/csv")
+      .send(clientsCsv);
+    expect(upload.status).toBe(201);
+    expect(upload.body.data.run).toMatchObject({
+      entity: "clients",
+      file_format: "csv",
+      status: "uploaded",
+      row_count: 3,
+      headers: ["Client Name", "Company", "E-mail", "Phone"],
+      mapping: { name: "Client Name", company: "Company", email: "E-mail", phone: "Phone", notes: null }
+    });
+    expect(upload.body.data.sampleRows[1]).toMatchObject({ rowNumber: 3, values: { "Client Name": "Bad Email Co" } });
+    const clientRunId = upload.body.data.run.id as string;
+
+    const unsupported = await request(app)
+      .post("/api/imports?entity=clients&fileName=clients.txt")
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .set("Content-Type", "text/plain")
+      .send("name\nAcme");
+    expect(unsupported.status).toBe(400);
+    expect(unsupported.body.code).toBe("UNSUPPORTED_IMPORT_FORMAT");
+
+    const notValidated = await request(app)
+      .post(`/api/imports/${clientRunId}/commit`)
+      .set("Authorization", `Bearer ${auth.accessToken}`);
+    expect(notValidated.status).toBe(409);
+
+    const dryRun = await request(app)
+      .post(`/api/imports/${clientRunId}/dry-run`)
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({});
+    expect(dryRun.status).toBe(200);
+    expect(dryRun.body.data.run).toMatchObject({
+      status: "validated",
+      summary: { total: 3, valid: 2, invalid: 1, created: 0 }
+    });
+    expect(dryRun.body.data.rows[1]).toMatchObject({
+      row_number: 3,
+      status: "invalid",
+      errors: [{ field: "email", message: "Invalid email" }]
+    });
+
+    const withErrors = await request(app)
+      .post(`/api/imports/${clientRunId}/commit`)
+      .set("Authorization", `Bearer ${auth.accessToken}`);
+    expect(withErrors.status).toBe(422);
+    expect(withErrors.body.code).toBe("IMPORT_HAS_ERRORS");
+    const clientsBefore = await request(app)
+      .get("/api/clients")
+      .set("Authorization", `Bearer ${auth.accessToken}`);
+    expect(clientsBefore.body.meta.total).toBe(0);
+
+    const badMapping = await request(app)
+      .post(`/api/imports/${clientRunId}/dry-run`)
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({ mapping: { name: null, email: "Missing Column" } });
+    expect(badMapping.status).toBe(400);
+    expect(badMapping.body.code).toBe("INVALID_MAPPING");
+
+    const remapped = await request(app)
+      .post(`/api/imports/${clientRunId}/dry-run`)
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({ mapping: { name: "Client Name", company: "Company", email: null, phone: "Phone" } });
+    expect(remapped.body.data.run.summary).toMatchObject({ valid: 3, invalid: 0 });
+
+    const committed = await request(app)
+      .post(`/api/imports/${clientRunId}/commit`)
+      .set("Authorization", `Bearer ${auth.accessToken}`);
+    expect(committed.status).toBe(200);
+    expect(committed.body.data.run).toMatchObject({ status: "committed", summary: { created: 3 } });
+    expect(
+      committed.body.data.rows.every(
+        (row: { status: string; entity_id: string | null }) => row.status === "created" && row.entity_id
+      )
+    ).toBe(true);
+
+    const workbook = new ExcelJS.Workbook();
+    const sheet = workbook.addWorksheet("Projects");
+    sheet.addRow(["Project", "Client", "Start", "Deadline", "Budget", "Phase"]);
+    sheet.addRow([
+      "Spring Spot",
+      "northwind",
+      new Date(Date.UTC(2026, 2, 1)),
+      "2026-05-01",
+      "$25,000.00",
+      "Post-Production"
+    ]);
+    sheet.addRow(["Summer Spot", "Contoso", "2026-06-01", "2026-08-01", 12000, null]);
+    sheet.addRow(["Ghost Spot", "Nobody Inc", "2026-06-01", "2026-02-30", "lots", null]);
+    const xlsx = Buffer.from(await workbook.xlsx.writeBuffer());
+
+    const projectUpload = await request(app)
+      .post("/api/imports?entity=projects&fileName=projects.xlsx")
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .set("Content-Type", "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet")
+      .send(xlsx);
+    expect(projectUpload.status).toBe(201);
+    expect(projectUpload.body.data.run.mapping).toMatchObject({
+      name: "Project",
+      client: "Client",
+      startDate: "Start",
+      deadline: "Deadline",
+      budget: "Budget",
+      currentPhase: "Phase"
+    });
+    const projectRunId = projectUpload.body.data.run.id as string;
+
+    const projectDryRun = await request(app)
+      .post(`/api/imports/${projectRunId}/dry-run`)
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({});
+    expect(projectDryRun.body.data.run.summary).toMatchObject({ total: 3, valid: 2, invalid: 1 });
+    expect(projectDryRun.body.data.rows[0].data).toMatchObject({
+      name: "Spring Spot",
+      startDate: "2026-03-01",
+      budget: "25000.00",
+      currentPhase: "post_production"
+    });
+    expect(projectDryRun.body.data.rows[2].errors.map((error: { field: string }) => error.field).sort()).toEqual([
+      "budget",
+      "client",
+      "deadline"
+    ]);
+
+    const reuploaded = await request(app)
+      .post("/api/imports?entity=projects&fileName=projects-fixed.csv")
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .set("Content-Type", "text/csv")
+      .send("Name,Client,Start Date,Deadline\nSpring Spot,Northwind,2026-03-01,2026-05-01\n");
+    const fixedRunId = reuploaded.body.data.run.id as string;
+    await request(app)
+      .post(`/api/imports/${fixedRunId}/dry-run`)
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({});
+    const projectCommit = await request(app)
+      .post(`/api/imports/${fixedRunId}/commit`)
+      .set("Authorization", `Bearer ${auth.accessToken}`);
+    expect(projectCommit.status).toBe(200);
+    const importedProjectId = projectCommit.body.data.rows[0].entity_id as string;
+
+    const importedProject = await request(app)
+      .get(`/api/projects/${importedProjectId}`)
+      .set("Authorization", `Bearer ${auth.accessToken}`);
+    expect(importedProject.status).toBe(200);
+    expect(importedProject.body.data.name).toBe("Spring Spot");
+
+    const memberPasswordHash = await bcrypt.hash("MemberPass123!", 12);
+    await pool.query(
+      `INSERT INTO users (email, name, password_hash, is_active, created_at, updated_at)
+       VALUES ('member-imports@adfix.local', 'Member Imports', $1, TRUE, NOW(), NOW())`,
+      [memberPasswordHash]
+    );
+    const memberAuth = await loginAs("member-imports@adfix.local", "MemberPass123!");
+    const forbidden = await request(app)
+      .get("/api/imports")
+      .set("Authorization", `Bearer ${memberAuth.accessToken}`);
+    expect(forbidden.status).toBe(403);
+
+    const blocked = await request(app)
+      .post(`/api/imports/${clientRunId}/undo`)
+      .set("Authorization", `Bearer ${auth.accessToken}`);
+    expect(blocked.status).toBe(409);
+    expect(blocked.body.code).toBe("IMPORT_UNDO_BLOCKED");
+    expect(blocked.body.details.blockers).toEqual([expect.objectContaining({ rowNumber: 2, reason: "has projects" })]);
+
+    const projectUndo = await request(app)
+      .post(`/api/imports/${fixedRunId}/undo`)
+      .set("Authorization", `Bearer ${auth.accessToken}`);
+    expect(projectUndo.status).toBe(200);
+    expect(projectUndo.body.data.run.status).toBe("undone");
+    const removedProject = await request(app)
+      .get(`/api/projects/${importedProjectId}`)
+      .set("Authorization", `Bearer ${auth.accessToken}`);
+    expect(removedProject.status).toBe(404);
+
+    const clientUndo = await request(app)
+      .post(`/api/imports/${clientRunId}/undo`)
+      .set("Authorization", `Bearer ${auth.accessToken}`);
+    expect(clientUndo.status).toBe(200);
+    const clientsAfter = await request(app)
+      .get("/api/clients")
+      .set("Authorization", `Bearer ${auth.accessToken}`);
+    expect(clientsAfter.body.meta.total).toBe(0);
+
+    const undoneAgain = await request(app)
+      .post(`/api/imports/${clientRunId}/undo`)
+      .set("Authorization", `Bearer ${auth.accessToken}`);
+    expect(undoneAgain.status).toBe(409);
+
+    const runs = await request(app)
+      .get("/api/imports")
+      .set("Authorization", `Bearer ${auth.accessToken}`);
+    expect(runs.body.data.map((run: { status: string }) => run.status)).toEqual(["undone", "validated", "undone"]);
+  });
+  it("board imports: Trello and Asana exports with phase mapping, member matching and a reconciliation report", async () => {
+    const auth = await login();
+    const adminResult = await pool.query<{ id: string }>(`SELECT id FROM users WHERE email = $1`, [adminUser.email]);
+    const adminId = adminResult.rows[0].id;
+
+    const clientResponse = await request(app)
+      .post("/api/clients")
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({ name: "Board Client" });
+    const projectResponse = await request(app)
+      .post("/api/projects")
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({
+        clientId: clientResponse.body.data.id,
+        name: "Board Project",
+        startDate: "2026-02-01",
+        deadline: "2026-06-30"
+      });
+    expect(projectResponse.status).toBe(201);
+    const projectId = projectResponse.body.data.id as string;
+
+    const memberPasswordHash = await bcrypt.hash("MemberPass123!", 12);
+    const memberResult = await pool.query<{ id: string }>(
+      `INSERT INTO users (email, name, password_hash, is_active, created_at, updated_at)
+       VALUES ('member-board@adfix.local', 'Member Board', $1, TRUE, NOW(), NOW())
+       RETURNING id`,
+      [memberPasswordHash]
+    );
+    const memberId = memberResult.rows[0].id;
+    const memberAuth = await loginAs("member-board@adfix.local", "MemberPass123!");
+
+    const trelloExport = {
+      name: "Spring Campaign",
+      lists: [
+        { id: "list-todo", name: "To Do" },
+        { id: "list-production", name: "Production" },
+        { id: "list-ideas", name: "Ideas" }
+      ],
+      members: [
+        { id: "trello-admin", fullName: "Adfix Admin", username: "adfixadmin" },
+        { id: "trello-ghost", fullName: "Former Freelancer", username: "ghost" }
+      ],
+      cards: [
+        {
+          id: "card-brief",
+          name: "Write the brief",
+          desc: "Two pages max",
+          idList: "list-todo",
+          closed: false,
+          due: "2026-03-10T12:00:00.000Z",
+          dueComplete: false,
+          idMembers: ["trello-ghost", "trello-admin"],
+          attachments: [
+            {
+              name: "moodboard.png",
+              url: "https://trello.com/1/cards/card-brief/attachments/a1/download/moodboard.png",
+              mimeType: "image/png",
+              bytes: 2048
+            },
+            { name: "Script", url: "https://docs.google.com/document/d/abc/edit", mimeType: null, bytes: null },
+            { name: "local notes", url: "file:///Users/someone/notes.txt", bytes: 12 }
+          ]
+        },
+        {
+          id: "card-shoot",
+          name: "Shoot day",
+          idList: "list-production",
+          closed: false,
+          due: null,
+          dueComplete: true,
+          idMembers: []
+        },
+        { id: "card-idea", name: "Maybe a podcast", idList: "list-ideas", closed: false, idMembers: [] },
+        { id: "card-old", name: "Archived card", idList: "list-todo", closed: true, idMembers: [] }
+      ],
+      actions: [
+        {
+          type: "commentCard",
+          date: "2026-02-03T09:00:00.000Z",
+          idMemberCreator: "trello-ghost",
+          memberCreator: { fullName: "Former Freelancer" },
+          data: { text: "Second thought", card: { id: "card-brief" } }
+        },
+        {
+          type: "commentCard",
+          date: "2026-02-02T09:00:00.000Z",
+          idMemberCreator: "trello-admin",
+          data: { text: "First draft attached", card: { id: "card-brief" } }
+        },
+        { type: "updateCard", date: "2026-02-01T09:00:00.000Z", data: { card: { id: "card-brief" } } }
+      ]
+    };
+
+    const forbidden = await request(app)
+      .post(`/api/board-imports?source=trello&projectId=${projectId}&fileName=board.json`)
+      .set("Authorization", `Bearer ${memberAuth.accessToken}`)
+      .set("Content-Type", "application/json")
+      .send(JSON.stringify(trelloExport));
+    expect(forbidden.status).toBe(403);
+
+    const notJson = await request(app)
+      .post(`/api/board-imports?source=trello&projectId=${projectId}&fileName=board.json`)
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .set("Content-Type", "application/octet-stream")
+      .send(Buffer.from("not json"));
+    expect(notJson.status).toBe(400);
+    expect(notJson.body.code).toBe("INVALID_BOARD_EXPORT");
+
+    const upload = await request(app)
+      .post(`/api/board-imports?source=trello&projectId=${projectId}&fileName=board.json`)
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .set("Content-Type", "application/json")
+      .send(JSON.stringify(trelloExport));
+    expect(upload.status).toBe(201);
+    expect(upload.body.data.import).toMatchObject({
+      source: "trello",
+      project_id: projectId,
+      board_name: "Spring Campaign",
+      status: "uploaded",
+      card_count: 4
+    });
+    expect(upload.body.data.lists).toEqual([
+      { id: "list-todo", name: "To Do", cardCount: 1, phase: null },
+      { id: "list-production", name: "Production", cardCount: 1, phase: "production" },
+      { id: "list-ideas", name: "Ideas", cardCount: 1, phase: null }
+    ]);
+    expect(upload.body.data.members).toEqual([
+      { id: "trello-admin", name: "Adfix Admin", email: null, userId: null },
+      { id: "trello-ghost", name: "Former Freelancer", email: null, userId: null }
+    ]);
+    const trelloImportId = upload.body.data.import.id as string;
+
+    const unknownList = await request(app)
+      .post(`/api/board-imports/${trelloImportId}/commit`)
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({ phaseMapping: { "list-missing": "production" } });
+    expect(unknownList.status).toBe(400);
+    expect(unknownList.body.code).toBe("INVALID_BOARD_MAPPING");
+    expect(unknownList.body.details.unknownLists).toEqual(["list-missing"]);
+
+    const commit = await request(app)
+      .post(`/api/board-imports/${trelloImportId}/commit`)
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({
+        phaseMapping: { "list-todo": "strategy_planning", "list-production": "production", "list-ideas": null },
+        memberEmails: { "trello-admin": "Admin@Adfix.local" }
+      });
+    expect(commit.status).toBe(200);
+    expect(commit.body.data.status).toBe("committed");
+    const report = commit.body.data.report;
+    expect(report.created).toEqual({ tasks: 2, comments: 2, files: 2 });
+    expect(report.lists).toEqual([
+      { listId: "list-ideas", name: "Ideas", cardCount: 1, reason: "Not mapped to a phase" }
+    ]);
+    expect(report.members).toEqual([
+      {
+        memberId: "trello-ghost",
+        name: "Former Freelancer",
+        email: null,
+        reason: "The export has no email for this member"
+      }
+    ]);
+    expect(report.cards).toEqual([
+      { cardId: "card-idea", title: "Maybe a podcast", reason: 'List "Ideas" is not mapped to a phase' },
+      { cardId: "card-old", title: "Archived card", reason: "Archived in the source board" }
+    ]);
+    expect(report.comments).toHaveLength(1);
+    expect(report.comments[0]).toMatchObject({ cardId: "card-brief", author: "Former Freelancer" });
+    expect(report.attachments).toEqual([
+      { cardId: "card-brief", name: "local notes", url: "file:///Users/someone/notes.txt", reason: "Not a web link" }
+    ]);
+
+    const tasks = await pool.query<{
+      id: string;
+      title: string;
+      phase: string;
+      status: string;
+      assigned_to: string | null;
+      due_date: string | null;
+    }>(
+      `SELECT id, title, phase, status, assigned_to, due_date::text
+       FROM tasks
+       WHERE project_id = $1 AND title IN ('Write the brief', 'Shoot day')
+       ORDER BY title`,
+      [projectId]
+    );
+    expect(tasks.rows).toMatchObject([
+      { title: "Shoot day", phase: "production", status: "completed", assigned_to: null },
+      {
+        title: "Write the brief",
+        phase: "strategy_planning",
+        status: "pending",
+        assigned_to: adminId,
+        due_date: "2026-03-10"
+      }
+    ]);
+    const briefTaskId = tasks.rows[1].id;
+
+    const comments = await pool.query<{ user_id: string; body: string; created_at: Date }>(
+      `SELECT user_id, body, created_at FROM task_comments WHERE task_id = $1 ORDER BY created_at`,
+      [briefTaskId]
+    );
+    expect(comments.rows.map((row) => row.body)).toEqual([
+      "First draft attached",
+      "Former Freelancer wrote:\n\nSecond thought"
+    ]);
+    expect(comments.rows.every((row) => row.user_id === adminId)).toBe(true);
+    expect(comments.rows[0].created_at.toISOString()).toBe("2026-02-02T09:00:00.000Z");
+
+    const files = await pool.query<{ file_name: string; storage_type: string; file_size: string; mime_type: string }>(
+      `SELECT file_name, storage_type, file_size::text, mime_type FROM files WHERE project_id = $1 ORDER BY file_name`,
+      [projectId]
+    );
+    expect(files.rows).toEqual([
+      { file_name: "Script", storage_type: "google_drive", file_size: "0", mime_type: "application/octet-stream" },
+      { file_name: "moodboard.png", storage_type: "trello", file_size: "2048", mime_type: "image/png" }
+    ]);
+
+    const recommit = await request(app)
+      .post(`/api/board-imports/${trelloImportId}/commit`)
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({});
+    expect(recommit.status).toBe(409);
+
+    const asanaExport = {
+      data: [
+        {
+          gid: "1201",
+          name: "Color grade",
+          notes: "Match the reference",
+          completed: false,
+          due_on: "2026-04-02",
+          assignee: { gid: "u-member", name: "Member Board", email: "member-board@adfix.local" },
+          memberships: [{ project: { gid: "p1" }, section: { gid: "s-post", name: "Post-Production" } }],
+          stories: [
+            {
+              resource_subtype: "assigned",
+              text: "assigned to you",
+              created_by: { gid: "u-member", name: "Member Board" }
+            },
+            {
+              resource_subtype: "comment_added",
+              text: "Started on this",
+              created_at: "2026-03-01T10:00:00.000Z",
+              created_by: { gid: "u-member", name: "Member Board" }
+            }
+          ],
+          attachments: [{ name: "grade.cube", permanent_url: "https://app.asana.com/app/asana/-/get_asset?asset_id=9" }]
+        },
+        { gid: "1202", name: "Loose task", memberships: [] }
+      ]
+    };
+
+    const asanaUpload = await request(app)
+      .post(`/api/board-imports?source=asana&projectId=${projectId}&fileName=Spring%20Edit.json`)
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .set("Content-Type", "application/json")
+      .send(JSON.stringify(asanaExport));
+    expect(asanaUpload.status).toBe(201);
+    expect(asanaUpload.body.data.import.board_name).toBe("Spring Edit");
+    expect(asanaUpload.body.data.lists).toEqual([
+      { id: "s-post", name: "Post-Production", cardCount: 1, phase: "post_production" }
+    ]);
+    expect(asanaUpload.body.data.members).toEqual([
+      { id: "u-member", name: "Member Board", email: "member-board@adfix.local", userId: memberId }
+    ]);
+
+    const asanaCommit = await request(app)
+      .post(`/api/board-imports/${asanaUpload.body.data.import.id}/commit`)
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({});
+    expect(asanaCommit.status).toBe(200);
+    expect(asanaCommit.body.data.report).toMatchObject({
+      created: { tasks: 1, comments: 1, files: 1 },
+      members: [],
+      cards: [{ cardId: "1202", title: "Loose task", reason: "Not in any list or section" }],
+      comments: []
+    });
+
+    const gradeTask = await pool.query<{ phase: string; assigned_to: string }>(
+      `SELECT phase, assigned_to FROM tasks WHERE project_id = $1 AND title = 'Color grade'`,
+      [projectId]
+    );
+    expect(gradeTask.rows[0]).toEqual({ phase: "post_production", assigned_to: memberId });
+
+    const history = await request(app)
+      .get(`/api/board-imports?projectId=${projectId}`)
+      .set("Authorization", `Bearer ${auth.accessToken}`);
+    expect(history.status).toBe(200);
+    expect(history.body.data.map((item: { source: string }) => item.source)).toEqual(["asana", "trello"]);
+
+    const activity = await pool.query(
+      `SELECT 1 FROM activity_log WHERE action = 'board_imported' AND project_id = $1`,
+      [projectId]
+    );
+    expect(activity.rowCount).toBe(2);
+  });
+  it("data exports: workspace archive for admins and personal data export for one user", async () => {
+    const auth = await login();
+    const adminResult = await pool.query<{ id: string }>(`SELECT id FROM users WHERE email = $1`, [adminUser.email]);
+    const adminId = adminResult.rows[0].id;
+
+    const clientResponse = await request(app)
+      .post("/api/clients")
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({ name: "Export Client" });
+    const projectResponse = await request(app)
+      .post("/api/projects")
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({
+        clientId: clientResponse.body.data.id,
+        name: "Export Project",
+        startDate: "2026-02-01",
+        deadline: "2026-06-30"
+      });
+    expect(projectResponse.status).toBe(201);
+    const taskResponse = await request(app)
+      .post("/api/tasks")
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({ projectId: projectResponse.body.data.id, title: "Export task", phase: "production" });
+    expect(taskResponse.status).toBe(201);
+    const commentResponse = await request(app)
+      .post(`/api/tasks/${taskResponse.body.data.id}/comments`)
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({ body: "Comment for the export" });
+    expect(commentResponse.status).toBe(201);
+
+    const memberPasswordHash = await bcrypt.hash("MemberPass123!", 12);
+    const memberResult = await pool.query<{ id: string }>(
+      `INSERT INTO users (email, name, password_hash, is_active, created_at, updated_at)
+       VALUES ('member-export@adfix.local', 'Member Export', $1, TRUE, NOW(), NOW())
+       RETURNING id`,
+      [memberPasswordHash]
+    );
+    const memberId = memberResult.rows[0].id;
+    const memberAuth = await loginAs("member-export@adfix.local", "MemberPass123!");
+
+    const waitForExport = async (exportId: string, accessToken: string) => {
+      for (let attempt = 0; attempt < 100; attempt += 1) {
+        const response = await request(app)
+          .get(`/api/data-exports/${exportId}`)
+          .set("Authorization", `Bearer ${accessToken}`);
+        if (response.body.data.status === "ready" || response.body.data.status === "failed") {
+          return response;
+        }
+        await new Promise((resolve) => setTimeout(resolve, 50));
+      }
+      throw new Error(`Data export ${exportId} did not finish`);
+    };
+
+    const downloadExport = async (exportId: string, accessToken: string) => {
+      const urlResponse = await request(app)
+        .get(`/api/data-exports/${exportId}/download-url`)
+        .set("Authorization", `Bearer ${accessToken}`);
+      expect(urlResponse.status).toBe(200);
+      const downloadUrl = new URL(urlResponse.body.data.downloadUrl as string);
+      const download = await request(app)
+        .get(`${downloadUrl.pathname}${downloadUrl.search}`)
+        .buffer(true)
+        .parse((response, callback) => {
+          const chunks: Buffer[] = [];
+          response.on("data", (chunk: Buffer) => chunks.push(chunk));
+          response.on("end", () => callback(null, Buffer.concat(chunks)));
+        });
+      expect(download.status).toBe(200);
+      return readZipEntries(download.body as Buffer);
+    };
+
+    const readLines = (entries: Map<string, Buffer>, path: string) =>
+      entries
+        .get(path)!
+        .toString()
+        .split("\n")
+        .filter((line) => line.length > 0)
+        .map((line) => JSON.parse(line) as Record<string, unknown>);
+
+    const memberWorkspace = await request(app)
+      .post("/api/data-exports/workspace")
+      .set("Authorization", `Bearer ${memberAuth.accessToken}`);
+    expect(memberWorkspace.status).toBe(403);
+    const memberForAdmin = await request(app)
+      .post(`/api/data-exports/users/${adminId}`)
+      .set("Authorization", `Bearer ${memberAuth.accessToken}`);
+    expect(memberForAdmin.status).toBe(403);
+
+    const workspace = await request(app)
+      .post("/api/data-exports/workspace")
+      .set("Authorization", `Bearer ${auth.accessToken}`);
+    expect(workspace.status).toBe(202);
+    expect(workspace.body.data).toMatchObject({ kind: "workspace", status: "queued", format_version: 1 });
+
+    const notReady = await request(app)
+      .get(`/api/data-exports/${workspace.body.data.id}/download-url`)
+      .set("Authorization", `Bearer ${auth.accessToken}`);
+    expect([200, 409]).toContain(notReady.status);
+
+    const latestMigration = await pool.query<{ filename: string }>(
+      `SELECT filename FROM schema_migrations ORDER BY filename DESC LIMIT 1`
+    );
+    const schemaVersion = latestMigration.rows[0].filename;
+
+    const workspaceFinished = await waitForExport(workspace.body.data.id, auth.accessToken);
+    expect(workspaceFinished.body.data.status).toBe("ready");
+    expect(workspaceFinished.body.data.schema_version).toBe(schemaVersion);
+    expect(workspaceFinished.body.data.row_counts).toMatchObject({ users: 2, clients: 1, projects: 1, task_comments: 1 });
+
+    const memberCannotRead = await request(app)
+      .get(`/api/data-exports/${workspace.body.data.id}`)
+      .set("Authorization", `Bearer ${memberAuth.accessToken}`);
+    expect(memberCannotRead.status).toBe(404);
+
+    const workspaceEntries = await downloadExport(workspace.body.data.id, auth.accessToken);
+    const manifest = JSON.parse(workspaceEntries.get("manifest.json")!.toString()) as {
+      format: string;
+      formatVersion: number;
+      schemaVersion: string;
+      tables: Array<{
+        name: string;
+        path: string;
+        rowCount: number;
+        checksumSha256: string;
+        primaryKey: string[];
+        columns: Array<{ name: string; type: string; nullable: boolean }>;
+        redactedColumns: string[];
+      }>;
+    };
+    expect(manifest).toMatchObject({
+      format: "adfix-workspace-export",
+      formatVersion: 1,
+      schemaVersion
+    });
+    const tableNames = manifest.tables.map((table) => table.name);
+    expect(tableNames).not.toContain("auth_sessions");
+    expect(tableNames).not.toContain("schema_migrations");
+    expect(tableNames).not.toContain("data_exports");
+    // Parents come before the tables that reference them, so a restore can insert in manifest order.
+    expect(tableNames.indexOf("clients")).toBeLessThan(tableNames.indexOf("projects"));
+    expect(tableNames.indexOf("projects")).toBeLessThan(tableNames.indexOf("tasks"));
+    expect(tableNames.indexOf("tasks")).toBeLessThan(tableNames.indexOf("task_comments"));
+
+    const usersTable = manifest.tables.find((table) => table.name === "users")!;
+    expect(usersTable).toMatchObject({ path: "tables/users.jsonl", rowCount: 2, primaryKey: ["id"] });
+    expect(usersTable.columns.map((column) => column.name)).not.toContain("password_hash");
+    expect(usersTable.redactedColumns).toEqual(["password_hash"]);
+    const users = readLines(workspaceEntries, "tables/users.jsonl");
+    expect(users.map((user) => user.email).sort()).toEqual([adminUser.email, "member-export@adfix.local"].sort());
+    expect(users.every((user) => !("password_hash" in user))).toBe(true);
+    expect(usersTable.checksumSha256).toBe(
+      crypto.createHash("sha256").update(workspaceEntries.get("tables/users.jsonl")!).digest("hex")
+    );
+    expect(readLines(workspaceEntries, "tables/task_comments.jsonl")).toMatchObject([
+      { id: commentResponse.body.data.id, body: "Comment for the export", user_id: adminId }
+    ]);
+
+    const personal = await request(app)
+      .post(`/api/data-exports/users/${memberId}`)
+      .set("Authorization", `Bearer ${memberAuth.accessToken}`);
+    expect(personal.status).toBe(202);
+    expect(personal.body.data).toMatchObject({ kind: "user", subject_user_id: memberId });
+    const personalFinished = await waitForExport(personal.body.data.id, memberAuth.accessToken);
+    expect(personalFinished.body.data.row_counts).toMatchObject({ profile: 1, sessions: 1, comments: 0 });
+
+    const personalEntries = await downloadExport(personal.body.data.id, memberAuth.accessToken);
+    expect([...personalEntries.keys()].sort()).toEqual([
+      "data/activity.jsonl",
+      "data/api_tokens.jsonl",
+      "data/comments.jsonl",
+      "data/identities.jsonl",
+      "data/notifications.jsonl",
+      "data/profile.jsonl",
+      "data/sessions.jsonl",
+      "manifest.json"
+    ]);
+    const profile = readLines(personalEntries, "data/profile.jsonl");
+    expect(profile).toMatchObject([{ id: memberId, email: "member-export@adfix.local" }]);
+    expect(profile[0]).not.toHaveProperty("password_hash");
+
+    const adminPersonal = await request(app)
+      .post(`/api/data-exports/users/${adminId}`)
+      .set("Authorization", `Bearer ${auth.accessToken}`);
+    expect(adminPersonal.status).toBe(202);
+    await waitForExport(adminPersonal.body.data.id, auth.accessToken);
+    const adminEntries = await downloadExport(adminPersonal.body.data.id, auth.accessToken);
+    expect(readLines(adminEntries, "data/comments.jsonl")).toMatchObject([
+      { body: "Comment for the export", task_title: "Export task" }
+    ]);
+
+    const memberList = await request(app)
+      .get("/api/data-exports")
+      .set("Authorization", `Bearer ${memberAuth.accessToken}`);
+    expect(memberList.body.data.map((item: { id: string }) => item.id)).toEqual([personal.body.data.id]);
+
+    const notifications = await request(app)
+      .get("/api/notifications")
+      .set("Authorization", `Bearer ${memberAuth.accessToken}`);
+    expect(notifications.body.data.map((item: { type: string }) => item.type)).toContain("data_export_ready");
+  });
+  it("workspace restore: loads an export into an empty workspace and remaps existing accounts", async () => {
+    const auth = await login();
+    const adminResult = await pool.query<{ id: string }>(`SELECT id FROM users WHERE email = $1`, [adminUser.email]);
+    const sourceAdminId = adminResult.rows[0].id;
+
+    const clientResponse = await request(app)
+      .post("/api/clients")
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({ name: "Restore Client" });
+    const projectResponse = await request(app)
+      .post("/api/projects")
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({
+        clientId: clientResponse.body.data.id,
+        name: "Restore Project",
+        startDate: "2026-02-01",
+        deadline: "2026-06-30"
+      });
+    expect(projectResponse.status).toBe(201);
+    const projectId = projectResponse.body.data.id as string;
+    const taskResponse = await request(app)
+      .post("/api/tasks")
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({ projectId, title: "Restore task", phase: "production" });
+    const commentResponse = await request(app)
+      .post(`/api/tasks/${taskResponse.body.data.id}/comments`)
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({ body: "Survives the restore" });
+    expect(commentResponse.status).toBe(201);
+
+    const memberPasswordHash = await bcrypt.hash("MemberPass123!", 12);
+    const memberResult = await pool.query<{ id: string }>(
+      `INSERT INTO users (email, name, password_hash, is_active, created_at, updated_at)
+       VALUES ('member-restore@adfix.local', 'Member Restore', $1, TRUE, NOW(), NOW())
+       RETURNING id`,
+      [memberPasswordHash]
+    );
+    const memberId = memberResult.rows[0].id;
+    const sourceProject = await pool.query<{ created_at: Date; updated_at: Date }>(
+      `SELECT created_at, updated_at FROM projects WHERE id = $1`,
+      [projectId]
+    );
+
+    const queued = await request(app)
+      .post("/api/data-exports/workspace")
+      .set("Authorization", `Bearer ${auth.accessToken}`);
+    expect(queued.status).toBe(202);
+    for (let attempt = 0; attempt < 100; attempt += 1) {
+      const status = await pool.query<{ status: string }>(`SELECT status FROM data_exports WHERE id = $1`, [
+        queued.body.data.id
+      ]);
+      if (status.rows[0].status === "ready") break;
+      await new Promise((resolve) => setTimeout(resolve, 50));
+    }
+    const urlResponse = await request(app)
+      .get(`/api/data-exports/${queued.body.data.id}/download-url`)
+      .set("Authorization", `Bearer ${auth.accessToken}`);
+    expect(urlResponse.status).toBe(200);
+    const downloadUrl = new URL(urlResponse.body.data.downloadUrl as string);
+    const download = await request(app)
+      .get(`${downloadUrl.pathname}${downloadUrl.search}`)
+      .buffer(true)
+      .parse((response, callback) => {
+        const chunks: Buffer[] = [];
+        response.on("data", (chunk: Buffer) => chunks.push(chunk));
+        response.on("end", () => callback(null, Buffer.concat(chunks)));
+      });
+    expect(download.status).toBe(200);
+
+    const workDir = await mkdtemp(path.join(os.tmpdir(), "adfix-restore-"));
+    try {
+      const archivePath = path.join(workDir, "workspace.zip");
+      await writeFile(archivePath, download.body as Buffer);
+      const notZipPath = path.join(workDir, "notes.zip");
+      await writeFile(notZipPath, "not a zip");
+
+      // The target already has the admin account under a new id, like a freshly seeded instance.
+      await resetDatabase();
+      const targetAdminResult = await pool.query<{ id: string }>(`SELECT id FROM users WHERE email = $1`, [
+        adminUser.email
+      ]);
+      const targetAdminId = targetAdminResult.rows[0].id;
+      expect(targetAdminId).not.toBe(sourceAdminId);
+      await login();
+
+      await expect(restoreWorkspaceArchive({ archivePath: notZipPath })).resolves.toMatchObject({
+        ok: false,
+        reason: "invalid_archive"
+      });
+
+      await pool.query(`INSERT INTO schema_migrations (filename) VALUES ('9999_future.sql')`);
+      try {
+        await expect(restoreWorkspaceArchive({ archivePath })).resolves.toMatchObject({
+          ok: false,
+          reason: "schema_mismatch"
+        });
+      } finally {
+        await pool.query(`DELETE FROM schema_migrations WHERE filename = '9999_future.sql'`);
+      }
+
+      const dryRun = await restoreWorkspaceArchive({ archivePath, dryRun: true });
+      expect(dryRun).toMatchObject({ ok: true, dryRun: true, matchedUsers: 1 });
+      const afterDryRun = await pool.query<{ count: string }>(`SELECT COUNT(*)::text AS count FROM projects`);
+      expect(afterDryRun.rows[0].count).toBe("0");
+
+      const restored = await restoreWorkspaceArchive({ archivePath });
+      expect(restored).toMatchObject({ ok: true, dryRun: false, matchedUsers: 1 });
+      if (!restored.ok) throw new Error(restored.message);
+      expect(restored.tables.find((table) => table.name === "users")?.rows).toBe(1);
+      expect(restored.tables.find((table) => table.name === "projects")?.rows).toBe(1);
+
+      const project = await pool.query<{ name: string; created_by: string; created_at: Date; updated_at: Date }>(
+        `SELECT name, created_by, created_at, updated_at FROM projects WHERE id = $1`,
+        [projectId]
+      );
+      expect(project.rows[0]).toMatchObject({
+        name: "Restore Project",
+        created_by: targetAdminId,
+        created_at: sourceProject.rows[0].created_at,
+        updated_at: sourceProject.rows[0].updated_at
+      });
+      const comment = await pool.query<{ user_id: string; body: string }>(
+        `SELECT user_id, body FROM task_comments WHERE id = $1`,
+        [commentResponse.body.data.id]
+      );
+      expect(comment.rows[0]).toEqual({ user_id: targetAdminId, body: "Survives the restore" });
+      const users = await pool.query<{ id: string; email: string }>(`SELECT id, email FROM users ORDER BY email`);
+      expect(users.rows).toEqual([
+        { id: targetAdminId, email: adminUser.email },
+        { id: memberId, email: "member-restore@adfix.local" }
+      ]);
+
+      // Password hashes are not exported, so restored people cannot sign in until they reset.
+      const memberLogin = await request(app)
+        .post("/api/auth/login")
+        .send({ email: "member-restore@adfix.local", password: "MemberPass123!" });
+      expect(memberLogin.status).toBe(401);
+
+      const restoredAuth = await login();
+      const projectView = await request(app)
+        .get(`/api/projects/${projectId}`)
+        .set("Authorization", `Bearer ${restoredAuth.accessToken}`);
+      expect(projectView.status).toBe(200);
+
+      await expect(restoreWorkspaceArchive({ archivePath })).resolves.toMatchObject({
+        ok: false,
+        reason: "not_empty"
+      });
+    } finally {
+      await rm(workDir, { recursive: true, force: true });
+    }
+  });
+  it("mfa: TOTP enrollment, two-step login, recovery codes and admin policy and reset", async () => {
+    const auth = await login();
+    const memberPasswordHash = await bcrypt.hash("MemberPass123!", 12);
+    const memberResult = await pool.query<{ id: string }>(
+      `INSERT INTO users (email, name, password_hash, is_active, created_at, updated_at)
+       VALUES ('member-mfa@adfix.local', 'Member Mfa', $1, TRUE, NOW(), NOW())
+       RETURNING id`,
+      [memberPasswordHash]
+    );
+    const memberId = memberResult.rows[0].id;
+    const memberAuth = await loginAs("member-mfa@adfix.local", "MemberPass123!");
+
+    const enroll = await request(app)
+      .post("/api/auth/mfa/enroll")
+      .set("Authorization", `Bearer ${memberAuth.accessToken}`);
+    expect(enroll.status).toBe(200);
+    const secret = enroll.body.data.secret as string;
+    expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+    expect(enroll.body.data.otpauthUri).toBe(
+      `otpauth://totp/Adfix%20PM%3Amember-mfa%40adfix.local?secret=${secret}` +
+        "&issuer=Adfix+PM&algorithm=SHA1&digits=6&period=30"
+    );
+    const stored = await pool.query<{ secret_ciphertext: string }>(
+      `SELECT secret_ciphertext FROM user_mfa_factors WHERE user_id = $1`,
+      [memberId]
+    );
+    expect(stored.rows[0].secret_ciphertext).not.toContain(secret);
+
+    const baseStep = totpStepAt(Date.now());
+    const wrongCode = await request(app)
+      .post("/api/auth/mfa/verify")
+      .set("Authorization", `Bearer ${memberAuth.accessToken}`)
+      .send({ code: totpCodeForStep(secret, baseStep + 5) });
+    expect(wrongCode.status).toBe(400);
+    expect(wrongCode.body.code).toBe("INVALID_MFA_CODE");
+
+    const verified = await request(app)
+      .post("/api/auth/mfa/verify")
+      .set("Authorization", `Bearer ${memberAuth.accessToken}`)
+      .send({ code: totpCodeForStep(secret, baseStep) });
+    expect(verified.status).toBe(200);
+    const recoveryCodes = verified.body.data.recoveryCodes as string[];
+    expect(recoveryCodes).toHaveLength(10);
+    expect(new Set(recoveryCodes).size).toBe(10);
+
+    const status = await request(app).get("/api/auth/mfa").set("Authorization", `Bearer ${memberAuth.accessToken}`);
+    expect(status.body.data).toMatchObject({ enabled: true, pending: false, recoveryCodesRemaining: 10, required: false });
+    const users = await request(app).get("/api/users").set("Authorization", `Bearer ${auth.accessToken}`);
+    expect(users.body.data.find((item: { id: string }) => item.id === memberId).mfa_enabled).toBe(true);
+
+    const passwordStep = await request(app)
+      .post("/api/auth/login")
+      .send({ email: "member-mfa@adfix.local", password: "MemberPass123!" });
+    expect(passwordStep.status).toBe(200);
+    expect(passwordStep.body).toMatchObject({ status: "mfa_required" });
+    expect(passwordStep.body).not.toHaveProperty("accessToken");
+    const challengeToken = passwordStep.body.challengeToken as string;
+
+    const challengeAsBearer = await request(app).get("/api/projects").set("Authorization", `Bearer ${challengeToken}`);
+    expect(challengeAsBearer.status).toBe(401);
+
+    const badSecondStep = await request(app)
+      .post("/api/auth/login/mfa")
+      .send({ challengeToken, code: totpCodeForStep(secret, baseStep + 5) });
+    expect(badSecondStep.status).toBe(401);
+    expect(badSecondStep.body.code).toBe("INVALID_MFA_CODE");
+
+    const secondStep = await request(app)
+      .post("/api/auth/login/mfa")
+      .send({ challengeToken, code: totpCodeForStep(secret, baseStep + 1) });
+    expect(secondStep.status).toBe(200);
+    expect(secondStep.body.user.id).toBe(memberId);
+    const me = await request(app).get("/api/auth/me").set("Authorization", `Bearer ${secondStep.body.accessToken}`);
+    expect(me.status).toBe(200);
+
+    // A code is only good once, even inside its time window.
+    const replay = await request(app)
+      .post("/api/auth/login/mfa")
+      .send({ challengeToken, code: totpCodeForStep(secret, baseStep + 1) });
+    expect(replay.status).toBe(401);
+
+    const withRecovery = await request(app)
+      .post("/api/auth/login/mfa")
+      .send({ challengeToken, recoveryCode: recoveryCodes[0].toUpperCase().replace("-", "") });
+    expect(withRecovery.status).toBe(200);
+    const recoveryReuse = await request(app)
+      .post("/api/auth/login/mfa")
+      .send({ challengeToken, recoveryCode: recoveryCodes[0] });
+    expect(recoveryReuse.status).toBe(401);
+
+    const memberPolicy = await request(app)
+      .put("/api/users/mfa-policy")
+      .set("Authorization", `Bearer ${memberAuth.accessToken}`)
+      .send({ required: true });
+    expect(memberPolicy.status).toBe(403);
+    const policy = await request(app)
+      .put("/api/users/mfa-policy")
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({ required: true });
+    expect(policy.status).toBe(200);
+    expect(policy.body.data.required).toBe(true);
+
+    const disable = await request(app)
+      .post("/api/auth/mfa/disable")
+      .set("Authorization", `Bearer ${memberAuth.accessToken}`)
+      .send({ recoveryCode: recoveryCodes[1] });
+    expect(disable.status).toBe(409);
+    expect(disable.body.code).toBe("MFA_REQUIRED");
+
+    // The admin has no authenticator yet, so the required policy makes them enroll while signing in.
+    const adminPasswordStep = await request(app)
+      .post("/api/auth/login")
+      .send({ email: adminUser.email, password: adminUser.password });
+    expect(adminPasswordStep.body).toMatchObject({ status: "mfa_enrollment_required" });
+    const adminChallenge = adminPasswordStep.body.challengeToken as string;
+    const tooEarly = await request(app)
+      .post("/api/auth/login/mfa")
+      .send({ challengeToken: adminChallenge, code: "123456" });
+    expect(tooEarly.status).toBe(409);
+    const adminEnroll = await request(app).post("/api/auth/login/mfa/enroll").send({ challengeToken: adminChallenge });
+    expect(adminEnroll.status).toBe(200);
+    const adminFinish = await request(app)
+      .post("/api/auth/login/mfa")
+      .send({
+        challengeToken: adminChallenge,
+        code: totpCodeForStep(adminEnroll.body.data.secret as string, totpStepAt(Date.now()))
+      });
+    expect(adminFinish.status).toBe(200);
+    expect(adminFinish.body.accessToken).toEqual(expect.any(String));
+    expect(adminFinish.body.recoveryCodes).toHaveLength(10);
+
+    const reset = await request(app)
+      .post(`/api/users/${memberId}/mfa/reset`)
+      .set("Authorization", `Bearer ${adminFinish.body.accessToken}`);
+    expect(reset.status).toBe(200);
+    expect(reset.body.data.reset).toBe(true);
+    const afterReset = await request(app)
+      .post("/api/auth/login")
+      .send({ email: "member-mfa@adfix.local", password: "MemberPass123!" });
+    expect(afterReset.body.status).toBe("mfa_enrollment_required");
+    const staleChallenge = await request(app)
+      .post("/api/auth/login/mfa")
+      .send({ challengeToken, recoveryCode: recoveryCodes[2] });
+    expect(staleChallenge.status).toBe(401);
+
+    const audit = await pool.query<{ action: string }>(
+      `SELECT action FROM activity_log WHERE action IN ('mfa_enabled', 'mfa_policy_changed', 'user_mfa_reset')
+       ORDER BY created_at`
+    );
+    expect(audit.rows.map((row) => row.action)).toEqual(["mfa_enabled", "mfa_policy_changed", "user_mfa_reset"]);
+  });
+
+  it("password reset and email verification: hashed single-use tokens, mail outbox, SMTP delivery", async () => {
+    const outbox = createOutboxTransport();
+    setMailTransport(outbox);
+    const smtpCommands: string[] = [];
+    let smtpData = "";
+    const smtp = net.createServer((socket) => {
+      let buffered = "";
+      let inData = false;
+      socket.write("220 mail.test ESMTP\r\n");
+      socket.on("data", (chunk: Buffer) => {
+        buffered += chunk.toString("utf8");
+        let newline = buffered.indexOf("\r\n");
+        while (newline >= 0) {
+          const line = buffered.slice(0, newline);
+          buffered = buffered.slice(newline + 2);
+          newline = buffered.indexOf("\r\n");
+          if (inData) {
+            if (line === ".") {
+              inData = false;
+              socket.write("250 queued\r\n");
+            } else {
+              smtpData += `${line}\r\n`;
+            }
+            continue;
+          }
+          smtpCommands.push(line);
+          if (line.startsWith("EHLO")) socket.write("250-mail.test\r\n250 AUTH PLAIN\r\n");
+          else if (line.startsWith("AUTH")) socket.write("235 accepted\r\n");
+          else if (line === "DATA") {
+            inData = true;
+            socket.write("354 go ahead\r\n");
+          } else if (line === "QUIT") socket.end("221 bye\r\n");
+          else socket.write("250 ok\r\n");
+        }
+      });
+    });
+    await new Promise<void>((resolve) => smtp.listen(0, "127.0.0.1", () => resolve()));
+
+    const tokenFrom = (text: string) => /token=([A-Za-z0-9_-]+)/.exec(text)?.[1] ?? "";
+
+    try {
+      const signup = await request(app).post("/api/auth/signup").send({
+        email: "reset-me@adfix.local",
+        name: "Reset Me",
+        password: "FirstPass123!"
+      });
+      expect(signup.status).toBe(201);
+      expect(outbox.messages).toHaveLength(1);
+      expect(outbox.messages[0].to).toBe("Reset Me <reset-me@adfix.local>");
+      expect(outbox.messages[0].text).toContain("http://localhost:5173/verify-email?token=");
+      const verificationToken = tokenFrom(outbox.messages[0].text);
+
+      const storedTokens = await pool.query<{ token_hash: string }>(
+        `SELECT token_hash FROM user_email_tokens WHERE purpose = 'email_verification'`
+      );
+      expect(storedTokens.rows.map((row) => row.token_hash)).toEqual([
+        crypto.createHash("sha256").update(verificationToken).digest("hex")
+      ]);
+
+      const verified = await request(app).post("/api/auth/verify-email").send({ token: verificationToken });
+      expect(verified.status).toBe(200);
+      expect(verified.body.data.email).toBe("reset-me@adfix.local");
+      expect(verified.body.data.emailVerifiedAt).toBeTypeOf("string");
+      const verifiedAgain = await request(app).post("/api/auth/verify-email").send({ token: verificationToken });
+      expect(verifiedAgain.status).toBe(400);
+      expect(verifiedAgain.body.code).toBe("INVALID_TOKEN");
+
+      const resend = await request(app)
+        .post("/api/auth/verify-email/resend")
+        .set("Authorization", `Bearer ${signup.body.accessToken}`);
+      expect(resend.status).toBe(409);
+
+      outbox.clear();
+      const unknown = await request(app).post("/api/auth/password/forgot").send({ email: "nobody@adfix.local" });
+      expect(unknown.status).toBe(202);
+      expect(outbox.messages).toHaveLength(0);
+
+      const secondSession = await loginAs("reset-me@adfix.local", "FirstPass123!");
+      const firstRequest = await request(app).post("/api/auth/password/forgot").send({ email: "reset-me@adfix.local" });
+      expect(firstRequest.status).toBe(202);
+      expect(firstRequest.body).toEqual(unknown.body);
+      const secondRequest = await request(app).post("/api/auth/password/forgot").send({ email: "reset-me@adfix.local" });
+      expect(secondRequest.status).toBe(202);
+      expect(outbox.messages).toHaveLength(2);
+      expect(outbox.messages[1].subject).toBe("Reset your Adfix PM password");
+      const replacedToken = tokenFrom(outbox.messages[0].text);
+      const resetToken = tokenFrom(outbox.messages[1].text);
+
+      const replaced = await request(app)
+        .post("/api/auth/password/reset")
+        .send({ token: replacedToken, password: "SecondPass123!" });
+      expect(replaced.status).toBe(400);
+      expect(replaced.body.code).toBe("INVALID_TOKEN");
+
+      const tooShort = await request(app).post("/api/auth/password/reset").send({ token: resetToken, password: "short" });
+      expect(tooShort.status).toBe(400);
+
+      const reset = await request(app)
+        .post("/api/auth/password/reset")
+        .send({ token: resetToken, password: "SecondPass123!" });
+      expect(reset.status).toBe(204);
+
+      const reused = await request(app)
+        .post("/api/auth/password/reset")
+        .send({ token: resetToken, password: "ThirdPass123!" });
+      expect(reused.status).toBe(400);
+
+      for (const refreshToken of [signup.body.refreshToken, secondSession.refreshToken]) {
+        const refreshed = await request(app).post("/api/auth/refresh").send({ refreshToken });
+        expect(refreshed.status).toBe(401);
+      }
+      const openSessions = await pool.query(
+        `SELECT 1
+         FROM auth_sessions s
+         JOIN users u ON u.id = s.user_id
+         WHERE u.email = 'reset-me@adfix.local'
+           AND s.revoked_at IS NULL`
+      );
+      expect(openSessions.rowCount).toBe(0);
+
+      const oldPassword = await request(app)
+        .post("/api/auth/login")
+        .send({ email: "reset-me@adfix.local", password: "FirstPass123!" });
+      expect(oldPassword.status).toBe(401);
+      await loginAs("reset-me@adfix.local", "SecondPass123!");
+
+      await request(app).post("/api/auth/password/forgot").send({ email: "reset-me@adfix.local" });
+      await pool.query(`UPDATE user_email_tokens SET expires_at = NOW() - INTERVAL '1 minute' WHERE used_at IS NULL`);
+      const expired = await request(app)
+        .post("/api/auth/password/reset")
+        .send({ token: tokenFrom(outbox.messages[2].text), password: "ThirdPass123!" });
+      expect(expired.status).toBe(400);
+
+      const activity = await pool.query<{ action: string; details: { revokedSessions?: number } }>(
+        `SELECT action, details
+         FROM activity_log
+         WHERE action IN ('auth_email_verified', 'auth_password_reset_requested', 'auth_password_reset')
+         ORDER BY created_at, id`
+      );
+      expect(activity.rows.map((row) => row.action)).toEqual([
+        "auth_email_verified",
+        "auth_password_reset_requested",
+        "auth_password_reset_requested",
+        "auth_password_reset",
+        "auth_password_reset_requested"
+      ]);
+      expect(activity.rows[3].details.revokedSessions).toBe(2);
+
+      const smtpPort = (smtp.address() as AddressInfo).port;
+      const smtpMessage = {
+        from: "Adfix PM <no-reply@adfix.local>",
+        to: "Ops, Ana <ana@example.com>",
+        subject: "Réinitialisation",
+        text: ".starts with a dot\nsecond line"
+      };
+      // The stand-in server does not offer STARTTLS: credentials must never be sent to it, and TLS is
+      // required by default once there are credentials.
+      for (const requireTls of [undefined, false, true]) {
+        smtpCommands.length = 0;
+        await expect(
+          createSmtpTransport({
+            host: "127.0.0.1",
+            port: smtpPort,
+            secure: false,
+            requireTls,
+            username: "mailer",
+            password: "mail-secret",
+            timeoutMs: 5_000
+          }).send(smtpMessage)
+        ).rejects.toThrow(/STARTTLS/);
+        expect(smtpCommands).toHaveLength(1);
+        expect(smtpCommands[0]).toMatch(/^EHLO /);
+      }
+      smtpCommands.length = 0;
+      await expect(
+        createSmtpTransport({ host: "127.0.0.1", port: smtpPort, secure: false, requireTls: true, timeoutMs: 5_000 }).send(
+          smtpMessage
+        )
+      ).rejects.toThrow(/STARTTLS/);
+      expect(smtpData).toBe("");
+
+      smtpCommands.length = 0;
+      await createSmtpTransport({ host: "127.0.0.1", port: smtpPort, secure: false, timeoutMs: 5_000 }).send(smtpMessage);
+      expect(smtpCommands[0]).toMatch(/^EHLO /);
+      expect(smtpCommands.slice(1)).toEqual([
+        "MAIL FROM:<no-reply@adfix.local>",
+        "RCPT TO:<ana@example.com>",
+        "DATA",
+        "QUIT"
+      ]);
+      const [headers, body] = smtpData.split("\r\n\r\n");
+      expect(headers).toContain(`To: "Ops, Ana" <ana@example.com>`);
+      expect(headers).toContain(`Subject: =?UTF-8?B?${Buffer.from("Réinitialisation").toString("base64")}?=`);
+      expect(Buffer.from(body.replace(/\r\n/g, ""), "base64").toString("utf8")).toBe(".starts with a dot\r\nsecond line");
+    } finally {
+      setMailTransport(null);
+      await new Promise<void>((resolve) => smtp.close(() => resolve()));
+    }
+  });
+
+  it("invitations: invite-only signup, manager invites onto a project, revoke, accept and notify", async () => {
+    const outbox = createOutboxTransport();
+    setMailTransport(outbox);
+    const tokenFrom = (text: string) => /token=([A-Za-z0-9_-]+)/.exec(text)?.[1] ?? "";
+
+    try {
+      const auth = await login();
+      const clientResponse = await request(app)
+        .post("/api/clients")
+        .set("Authorization", `Bearer ${auth.accessToken}`)
+        .send({ name: "Invite Client" });
+      const projectResponse = await request(app)
+        .post("/api/projects")
+        .set("Authorization", `Bearer ${auth.accessToken}`)
+        .send({ clientId: clientResponse.body.data.id, name: "Invite Project", startDate: "2026-02-12", deadline: "2026-03-12" });
+      expect(projectResponse.status).toBe(201);
+      const projectId = projectResponse.body.data.id as string;
+
+      const passwordHash = await bcrypt.hash("TeamPass123!", 12);
+      const staff = await pool.query<{ id: string; email: string }>(
+        `INSERT INTO users (email, name, password_hash, is_active, created_at, updated_at)
+         VALUES ('pm@adfix.local', 'Pat Manager', $1, TRUE, NOW(), NOW()),
+                ('member@adfix.local', 'Mo Member', $1, TRUE, NOW(), NOW())
+         RETURNING id, email`,
+        [passwordHash]
+      );
+      const managerId = staff.rows.find((row) => row.email === "pm@adfix.local")?.id as string;
+      const memberId = staff.rows.find((row) => row.email === "member@adfix.local")?.id as string;
+      for (const [userId, role] of [
+        [managerId, "manager"],
+        [memberId, "member"]
+      ]) {
+        const added = await request(app)
+          .post(`/api/projects/${projectId}/team`)
+          .set("Authorization", `Bearer ${auth.accessToken}`)
+          .send({ userId, role });
+        expect(added.status).toBe(201);
+      }
+      const manager = await loginAs("pm@adfix.local", "TeamPass123!");
+      const member = await loginAs("member@adfix.local", "TeamPass123!");
+
+      const policy = await request(app)
+        .put("/api/users/signup-policy")
+        .set("Authorization", `Bearer ${auth.accessToken}`)
+        .send({ inviteOnly: true });
+      expect(policy.status).toBe(200);
+      expect(policy.body.data.inviteOnly).toBe(true);
+      const managerPolicy = await request(app)
+        .put("/api/users/signup-policy")
+        .set("Authorization", `Bearer ${manager.accessToken}`)
+        .send({ inviteOnly: false });
+      expect(managerPolicy.status).toBe(403);
+
+      const signup = await request(app)
+        .post("/api/auth/signup")
+        .send({ email: "walk-in@adfix.local", name: "Walk In", password: "WalkIn123!" });
+      expect(signup.status).toBe(403);
+      expect(signup.body.code).toBe("SIGNUP_DISABLED");
+
+      const memberInvite = await request(app)
+        .post("/api/invitations")
+        .set("Authorization", `Bearer ${member.accessToken}`)
+        .send({ email: "newbie@adfix.local", projectId });
+      expect(memberInvite.status).toBe(403);
+      const managerWorkspaceInvite = await request(app)
+        .post("/api/invitations")
+        .set("Authorization", `Bearer ${manager.accessToken}`)
+        .send({ email: "newbie@adfix.local" });
+      expect(managerWorkspaceInvite.status).toBe(403);
+      const roleWithoutProject = await request(app)
+        .post("/api/invitations")
+        .set("Authorization", `Bearer ${auth.accessToken}`)
+        .send({ email: "newbie@adfix.local", role: "viewer" });
+      expect(roleWithoutProject.status).toBe(400);
+      const existingAccount = await request(app)
+        .post("/api/invitations")
+        .set("Authorization", `Bearer ${auth.accessToken}`)
+        .send({ email: "member@adfix.local" });
+      expect(existingAccount.status).toBe(409);
+
+      const firstInvite = await request(app)
+        .post("/api/invitations")
+        .set("Authorization", `Bearer ${manager.accessToken}`)
+        .send({ email: "newbie@adfix.local", projectId, role: "viewer" });
+      expect(firstInvite.status).toBe(201);
+      const invite = await request(app)
+        .post("/api/invitations")
+        .set("Authorization", `Bearer ${manager.accessToken}`)
+        .send({ email: "newbie@adfix.local", projectId });
+      expect(invite.status).toBe(201);
+      expect(invite.body.data).toMatchObject({
+        email: "newbie@adfix.local",
+        project_id: projectId,
+        project_name: "Invite Project",
+        project_role: "member",
+        invited_by: managerId,
+        delivered: true
+      });
+      expect(invite.body.data.token_hash).toBeUndefined();
+      expect(outbox.messages).toHaveLength(2);
+      expect(outbox.messages[1].to).toBe("newbie@adfix.local");
+      expect(outbox.messages[1].text).toContain('join the project "Invite Project" on Adfix PM as member');
+      const replacedToken = tokenFrom(outbox.messages[0].text);
+      const inviteToken = tokenFrom(outbox.messages[1].text);
+
+      const workspaceInvite = await request(app)
+        .post("/api/invitations")
+        .set("Authorization", `Bearer ${auth.accessToken}`)
+        .send({ email: "other@adfix.local" });
+      expect(workspaceInvite.status).toBe(201);
+      const otherToken = tokenFrom(outbox.messages[2].text);
+
+      const managerList = await request(app)
+        .get("/api/invitations")
+        .set("Authorization", `Bearer ${manager.accessToken}`);
+      expect(managerList.status).toBe(200);
+      expect(managerList.body.data.map((row: { id: string }) => row.id)).toEqual([invite.body.data.id]);
+      const adminList = await request(app).get("/api/invitations").set("Authorization", `Bearer ${auth.accessToken}`);
+      expect(adminList.body.data).toHaveLength(2);
+
+      const managerRevoke = await request(app)
+        .delete(`/api/invitations/${workspaceInvite.body.data.id}`)
+        .set("Authorization", `Bearer ${manager.accessToken}`);
+      expect(managerRevoke.status).toBe(403);
+      const revoke = await request(app)
+        .delete(`/api/invitations/${workspaceInvite.body.data.id}`)
+        .set("Authorization", `Bearer ${auth.accessToken}`);
+      expect(revoke.status).toBe(204);
+      const revokeAgain = await request(app)
+        .delete(`/api/invitations/${workspaceInvite.body.data.id}`)
+        .set("Authorization", `Bearer ${auth.accessToken}`);
+      expect(revokeAgain.status).toBe(409);
+
+      for (const token of [replacedToken, otherToken]) {
+        const lookup = await request(app).post("/api/auth/invitations/lookup").send({ token });
+        expect(lookup.status).toBe(400);
+        expect(lookup.body.code).toBe("INVALID_TOKEN");
+      }
+      const lookup = await request(app).post("/api/auth/invitations/lookup").send({ token: inviteToken });
+      expect(lookup.status).toBe(200);
+      expect(lookup.body.data).toMatchObject({
+        email: "newbie@adfix.local",
+        projectName: "Invite Project",
+        projectRole: "member",
+        invitedByName: "Pat Manager"
+      });
+
+      const weakPassword = await request(app)
+        .post("/api/auth/invitations/accept")
+        .send({ token: inviteToken, name: "New Bie", password: "short" });
+      expect(weakPassword.status).toBe(400);
+      const accepted = await request(app)
+        .post("/api/auth/invitations/accept")
+        .send({ token: inviteToken, name: "New Bie", password: "NewbiePass123!" });
+      expect(accepted.status).toBe(201);
+      expect(accepted.body.accessToken).toBeTypeOf("string");
+      expect(accepted.body.user.email).toBe("newbie@adfix.local");
+      const acceptedAgain = await request(app)
+        .post("/api/auth/invitations/accept")
+        .send({ token: inviteToken, name: "New Bie", password: "NewbiePass123!" });
+      expect(acceptedAgain.status).toBe(400);
+
+      const newUser = await pool.query<{ email_verified_at: Date | null }>(
+        `SELECT email_verified_at FROM users WHERE email = 'newbie@adfix.local'`
+      );
+      expect(newUser.rows[0].email_verified_at).not.toBeNull();
+      const team = await request(app)
+        .get(`/api/projects/${projectId}/team`)
+        .set("Authorization", `Bearer ${accepted.body.accessToken}`);
+      expect(team.status).toBe(200);
+      expect(team.body.data).toEqual(
+        expect.arrayContaining([expect.objectContaining({ user_email: "newbie@adfix.local", role: "member" })])
+      );
+
+      const notifications = await request(app)
+        .get("/api/notifications")
+        .set("Authorization", `Bearer ${manager.accessToken}`);
+      const acceptedNotice = notifications.body.data.find((row: { type: string }) => row.type === "invitation_accepted");
+      expect(acceptedNotice).toMatchObject({
+        project_id: projectId,
+        message: "New Bie (newbie@adfix.local) accepted your invitation and joined the project as member."
+      });
+
+      const late = await request(app)
+        .post("/api/invitations")
+        .set("Authorization", `Bearer ${auth.accessToken}`)
+        .send({ email: "late@adfix.local" });
+      await pool.query(`UPDATE user_invitations SET expires_at = NOW() - INTERVAL '1 minute' WHERE id = $1`, [
+        late.body.data.id
+      ]);
+      const expired = await request(app)
+        .post("/api/auth/invitations/accept")
+        .send({ token: tokenFrom(outbox.messages[3].text), name: "Late", password: "LatePass123!" });
+      expect(expired.status).toBe(400);
+
+      const pendingAfter = await request(app).get("/api/invitations").set("Authorization", `Bearer ${auth.accessToken}`);
+      expect(pendingAfter.body.data).toHaveLength(0);
+
+      const activity = await pool.query<{ action: string }>(
+        `SELECT action
+         FROM activity_log
+         WHERE action IN ('signup_policy_changed', 'invitation_created', 'invitation_revoked', 'invitation_accepted')
+         ORDER BY created_at, id`
+      );
+      expect(activity.rows.map((row) => row.action)).toEqual([
+        "signup_policy_changed",
+        "invitation_created",
+        "invitation_created",
+        "invitation_created",
+        "invitation_revoked",
+        "invitation_accepted",
+        "invitation_created"
+      ]);
+    } finally {
+      setMailTransport(null);
+    }
+  });
+
+  it("oidc: code + PKCE against the mock provider links by verified email, provisions allowed domains, and applies MFA", async () => {
+    const mock = await startMockOidcProvider({
+      clientId: "adfix-test",
+      clientSecret: "adfix-test-secret",
+      accounts: { "unverified@adfix.local": { emailVerified: false } }
+    });
+    setOidcProvider({
+      name: "Mock SSO",
+      client: createOidcClient({
+        issuer: mock.issuer,
+        clientId: "adfix-test",
+        clientSecret: "adfix-test-secret",
+        redirectUri: "http://localhost:5173/auth/oidc/callback",
+        scopes: ["openid", "email", "profile"],
+        timeoutMs: 5000
+      }),
+      autoProvisionDomains: ["sso.adfix.test"]
+    });
+
+    // Plays the browser: starts the login, lets the mock provider redirect back, and returns what the
+    // web app would post to the callback.
+    const authorize = async (email: string) => {
+      const started = await request(app).post("/api/auth/oidc/start").send({});
+      expect(started.status).toBe(200);
+      const authorizationUrl = new URL(started.body.data.authorizationUrl);
+      expect(authorizationUrl.origin).toBe(mock.issuer);
+      expect(authorizationUrl.searchParams.get("code_challenge_method")).toBe("S256");
+      expect(authorizationUrl.searchParams.get("redirect_uri")).toBe("http://localhost:5173/auth/oidc/callback");
+      authorizationUrl.searchParams.set("login_hint", email);
+      const redirect = await fetch(authorizationUrl, { redirect: "manual" });
+      expect(redirect.status).toBe(302);
+      const callbackUrl = new URL(redirect.headers.get("location") ?? "");
+      expect(callbackUrl.searchParams.get("state")).toBe(authorizationUrl.searchParams.get("state"));
+      expect(started.body.data.loginSecret).toEqual(expect.any(String));
+      return {
+        code: callbackUrl.searchParams.get("code") ?? "",
+        state: callbackUrl.searchParams.get("state") ?? "",
+        loginSecret: started.body.data.loginSecret as string
+      };
+    };
+    const ssoLogin = async (email: string) => {
+      const callback = await authorize(email);
+      return request(app).post("/api/auth/oidc/callback").send(callback);
+    };
+
+    try {
+      const status = await request(app).get("/api/auth/oidc");
+      expect(status.status).toBe(200);
+      expect(status.body.data).toEqual({ enabled: true, name: "Mock SSO" });
+
+      const adminCallback = await authorize(adminUser.email);
+      const adminLogin = await request(app).post("/api/auth/oidc/callback").send(adminCallback);
+      expect(adminLogin.status).toBe(200);
+      expect(adminLogin.body.user).toMatchObject({ email: adminUser.email, isAdmin: true });
+      const me = await request(app).get("/api/auth/me").set("Authorization", `Bearer ${adminLogin.body.accessToken}`);
+      expect(me.status).toBe(200);
+      const refreshed = await request(app).post("/api/auth/refresh").send({ refreshToken: adminLogin.body.refreshToken });
+      expect(refreshed.status).toBe(200);
+
+      const replay = await request(app).post("/api/auth/oidc/callback").send(adminCallback);
+      expect(replay.status).toBe(400);
+      expect(replay.body.code).toBe("INVALID_STATE");
+      const unknownState = await request(app)
+        .post("/api/auth/oidc/callback")
+        .send({ code: adminCallback.code, state: "not-a-login-we-started", loginSecret: adminCallback.loginSecret });
+      expect(unknownState.status).toBe(400);
+
+      // A code and state redeemed outside the browser that started the login (login CSRF) are refused,
+      // and the attempt is used up.
+      const victimBrowser = await authorize(adminUser.email);
+      const withoutSecret = await request(app)
+        .post("/api/auth/oidc/callback")
+        .send({ code: victimBrowser.code, state: victimBrowser.state });
+      expect(withoutSecret.status).toBe(400);
+      expect(withoutSecret.body.code).toBe("VALIDATION_ERROR");
+      const otherBrowser = await authorize(adminUser.email);
+      const foreignSecret = await request(app)
+        .post("/api/auth/oidc/callback")
+        .send({ ...victimBrowser, loginSecret: otherBrowser.loginSecret });
+      expect(foreignSecret.status).toBe(400);
+      expect(foreignSecret.body.code).toBe("INVALID_STATE");
+      const afterMismatch = await request(app).post("/api/auth/oidc/callback").send(victimBrowser);
+      expect(afterMismatch.status).toBe(400);
+      expect(afterMismatch.body.code).toBe("INVALID_STATE");
+
+      const badCode = await authorize(adminUser.email);
+      const rejectedCode = await request(app)
+        .post("/api/auth/oidc/callback")
+        .send({ ...badCode, code: "forged-code" });
+      expect(rejectedCode.status).toBe(502);
+      expect(rejectedCode.body.code).toBe("OIDC_PROVIDER_ERROR");
+
+      const adminAgain = await ssoLogin(adminUser.email);
+      expect(adminAgain.status).toBe(200);
+      const identities = await pool.query<{ email: string; issuer: string; user_email: string }>(
+        `SELECT ui.email, ui.issuer, u.email AS user_email
+         FROM user_identities ui
+         INNER JOIN users u ON u.id = ui.user_id`
+      );
+      expect(identities.rows).toEqual([{ email: adminUser.email, issuer: mock.issuer, user_email: adminUser.email }]);
+
+      const provisioned = await ssoLogin("new.hire@sso.adfix.test");
+      expect(provisioned.status).toBe(200);
+      expect(provisioned.body.user).toMatchObject({ email: "new.hire@sso.adfix.test", isAdmin: false });
+      const newUser = await pool.query<{ id: string; name: string; email_verified_at: Date | null }>(
+        `SELECT id, name, email_verified_at FROM users WHERE email = 'new.hire@sso.adfix.test'`
+      );
+      expect(newUser.rows[0].name).toBe("new.hire");
+      expect(newUser.rows[0].email_verified_at).not.toBeNull();
+      const passwordLogin = await request(app)
+        .post("/api/auth/login")
+        .send({ email: "new.hire@sso.adfix.test", password: "" });
+      expect(passwordLogin.status).toBe(400);
+
+      const stranger = await ssoLogin("stranger@elsewhere.test");
+      expect(stranger.status).toBe(403);
+      expect(stranger.body.code).toBe("SSO_NOT_ALLOWED");
+
+      const passwordHash = await bcrypt.hash("Unverified123!", 12);
+      await pool.query(
+        `INSERT INTO users (email, name, password_hash, is_active, created_at, updated_at)
+         VALUES ('unverified@adfix.local', 'Unverified', $1, TRUE, NOW(), NOW())`,
+        [passwordHash]
+      );
+      const unverified = await ssoLogin("unverified@adfix.local");
+      expect(unverified.status).toBe(403);
+      expect(unverified.body.error).toMatch(/verified email/);
+
+      await pool.query(`UPDATE users SET is_active = FALSE WHERE id = $1`, [newUser.rows[0].id]);
+      const deactivated = await ssoLogin("new.hire@sso.adfix.test");
+      expect(deactivated.status).toBe(403);
+      expect(deactivated.body.error).toBe("This account is disabled");
+
+      const policy = await request(app)
+        .put("/api/users/mfa-policy")
+        .set("Authorization", `Bearer ${adminLogin.body.accessToken}`)
+        .send({ required: true });
+      expect(policy.status).toBe(200);
+      const challenged = await ssoLogin(adminUser.email);
+      expect(challenged.status).toBe(200);
+      expect(challenged.body).toMatchObject({ status: "mfa_enrollment_required" });
+      expect(challenged.body.accessToken).toBeUndefined();
+      expect(challenged.body.userId).toBeUndefined();
+
+      const activity = await pool.query<{ action: string; details: Record<string, unknown> }>(
+        `SELECT action, details
+         FROM activity_log
+         WHERE details->>'method' = 'oidc' OR action = 'auth_oidc_denied'
+         ORDER BY created_at, id`
+      );
+      expect(activity.rows.map((row) => row.action)).toEqual([
+        "auth_login",
+        "auth_login",
+        "auth_login",
+        "auth_oidc_denied",
+        "auth_oidc_denied",
+        "auth_oidc_denied",
+        "auth_login_mfa_challenge"
+      ]);
+      expect(activity.rows[0].details).toMatchObject({ linked: true, provisioned: false });
+      expect(activity.rows[1].details).toMatchObject({ linked: false, provisioned: false });
+      expect(activity.rows[2].details).toMatchObject({ linked: true, provisioned: true });
+      expect(activity.rows.slice(3, 6).map((row) => row.details.reason)).toEqual([
+        "no_account",
+        "email_unverified",
+        "account_disabled"
+      ]);
+    } finally {
+      setOidcProvider(null);
+      await mock.close();
+    }
+  });
+
+  it("api tokens: scoped bearer tokens narrow the owner's permissions, track use, and can be revoked by admins", async () => {
+    const auth = await login();
+    const clientResponse = await request(app)
+      .post("/api/clients")
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({ name: "Token Client" });
+    const projectResponse = await request(app)
+      .post("/api/projects")
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({ clientId: clientResponse.body.data.id, name: "Token Project", startDate: "2026-02-12", deadline: "2026-03-12" });
+    const projectId = projectResponse.body.data.id as string;
+
+    const passwordHash = await bcrypt.hash("Scripter123!", 12);
+    const scripterInsert = await pool.query<{ id: string }>(
+      `INSERT INTO users (email, name, password_hash, is_active, created_at, updated_at)
+       VALUES ('scripter@adfix.local', 'Sam Scripter', $1, TRUE, NOW(), NOW())
+       RETURNING id`,
+      [passwordHash]
+    );
+    const scripterId = scripterInsert.rows[0].id;
+    const addManager = await request(app)
+      .post(`/api/projects/${projectId}/team`)
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({ userId: scripterId, role: "manager" });
+    expect(addManager.status).toBe(201);
+    const scripter = await loginAs("scripter@adfix.local", "Scripter123!");
+
+    const invalidScope = await request(app)
+      .post("/api/api-tokens")
+      .set("Authorization", `Bearer ${scripter.accessToken}`)
+      .send({ name: "Bad", scopes: ["admin:access"] });
+    expect(invalidScope.status).toBe(400);
+    const tooLong = await request(app)
+      .post("/api/api-tokens")
+      .set("Authorization", `Bearer ${scripter.accessToken}`)
+      .send({ name: "Forever", scopes: ["task:write"], expiresInDays: 3650 });
+    expect(tooLong.status).toBe(400);
+
+    const created = await request(app)
+      .post("/api/api-tokens")
+      .set("Authorization", `Bearer ${scripter.accessToken}`)
+      .send({ name: "CI sync", scopes: ["task:write"], expiresInDays: 7 });
+    expect(created.status).toBe(201);
+    const taskToken = created.body.data.token as string;
+    expect(taskToken.startsWith("adfix_pat_")).toBe(true);
+    expect(created.body.data).toMatchObject({
+      name: "CI sync",
+      user_id: scripterId,
+      token_prefix: taskToken.slice(0, 16),
+      scopes: ["project:view", "task:write"],
+      last_used_at: null
+    });
+    expect(created.body.data.token_hash).toBeUndefined();
+    const stored = await pool.query<{ token_hash: string }>(`SELECT token_hash FROM api_tokens WHERE id = $1`, [
+      created.body.data.id
+    ]);
+    expect(stored.rows[0].token_hash).toBe(crypto.createHash("sha256").update(taskToken).digest("hex"));
+
+    const readOnly = await request(app)
+      .post("/api/api-tokens")
+      .set("Authorization", `Bearer ${scripter.accessToken}`)
+      .send({ name: "Reporting", scopes: ["project:view"] });
+    expect(readOnly.status).toBe(201);
+    const readOnlyToken = readOnly.body.data.token as string;
+
+    const viewProject = await request(app).get(`/api/projects/${projectId}`).set("Authorization", `Bearer ${taskToken}`);
+    expect(viewProject.status).toBe(200);
+    const createTask = await request(app)
+      .post("/api/tasks")
+      .set("Authorization", `Bearer ${taskToken}`)
+      .send({ projectId, title: "Created by a script", phase: "strategy_planning" });
+    expect(createTask.status).toBe(201);
+    // The owner manages the project, but this token was only given task:write.
+    const renameWithToken = await request(app)
+      .put(`/api/projects/${projectId}`)
+      .set("Authorization", `Bearer ${taskToken}`)
+      .send({ name: "Renamed by script" });
+    expect(renameWithToken.status).toBe(403);
+    const renameWithSession = await request(app)
+      .put(`/api/projects/${projectId}`)
+      .set("Authorization", `Bearer ${scripter.accessToken}`)
+      .send({ name: "Renamed by Sam" });
+    expect(renameWithSession.status).toBe(200);
+
+    const readTasks = await request(app)
+      .get(`/api/tasks?projectId=${projectId}`)
+      .set("Authorization", `Bearer ${readOnlyToken}`);
+    expect(readTasks.status).toBe(200);
+    for (const write of [
+      request(app).post("/api/tasks").send({ projectId, title: "Nope", phase: "strategy_planning" }),
+      request(app).post("/api/clients").send({ name: "Nope Client" })
+    ]) {
+      const denied = await write.set("Authorization", `Bearer ${readOnlyToken}`);
+      expect(denied.status).toBe(403);
+    }
+
+    // Write scopes only reach routes that check them against a project permission; everything else is
+    // read-only for a token, whatever its scopes.
+    const clientId = clientResponse.body.data.id as string;
+    for (const write of [
+      request(app).post("/api/clients").send({ name: "Script Client" }),
+      request(app).put(`/api/clients/${clientId}`).send({ name: "Renamed Client" }),
+      request(app).delete(`/api/clients/${clientId}`),
+      request(app).post(`/api/clients/${clientId}/contacts`).send({ name: "Script Contact" }),
+      request(app).put(`/api/users/${scripterId}`).send({ name: "Renamed Scripter" }),
+      request(app).post("/api/invitations").send({ email: "invitee@adfix.local", projectId, role: "member" }),
+      request(app).post(`/api/data-exports/users/${scripterId}`),
+      request(app)
+        .post("/api/projects")
+        .send({ clientId, name: "Script Project", startDate: "2026-02-12", deadline: "2026-03-12" })
+    ]) {
+      const denied = await write.set("Authorization", `Bearer ${taskToken}`);
+      expect(denied.status).toBe(403);
+    }
+    const untouched = await request(app).get(`/api/users/${scripterId}`).set("Authorization", `Bearer ${taskToken}`);
+    expect(untouched.body.data.name).toBe("Sam Scripter");
+
+    const me = await request(app).get("/api/auth/me").set("Authorization", `Bearer ${taskToken}`);
+    expect(me.status).toBe(401);
+    const mint = await request(app)
+      .post("/api/api-tokens")
+      .set("Authorization", `Bearer ${taskToken}`)
+      .send({ name: "Escalate", scopes: ["project:delete"] });
+    expect(mint.status).toBe(401);
+
+    const adminToken = await request(app)
+      .post("/api/api-tokens")
+      .set("Authorization", `Bearer ${auth.accessToken}`)
+      .send({ name: "Admin script", scopes: ["project:update", "task:write"] });
+    expect(adminToken.status).toBe(201);
+    const adminViaToken = await request(app)
+      .get("/api/users/audit-logs")
+      .set("Authorization", `Bearer ${adminToken.body.data.token}`);
+    expect(adminViaToken.status).toBe(403);
+
+    const ownTokens = await request(app).get("/api/api-tokens").set("Authorization", `Bearer ${scripter.accessToken}`);
+    expect(ownTokens.status).toBe(200);
+    expect(ownTokens.body.data.map((row: { name: string }) => row.name).sort()).toEqual(["CI sync", "Reporting"]);
+    const used = ownTokens.body.data.find((row: { name: string }) => row.name === "CI sync");
+    expect(used.last_used_at).not.toBeNull();
+
+    const memberList = await request(app)
+      .get("/api/users/api-tokens")
+      .set("Authorization", `Bearer ${scripter.accessToken}`);
+    expect(memberList.status).toBe(403);
+    const adminList = await request(app).get("/api/users/api-tokens").set("Authorization", `Bearer ${auth.accessToken}`);
+    expect(adminList.status).toBe(200);
+    expect(adminList.body.data).toHaveLength(3);
+    const filtered = await request(app)
+      .get(`/api/users/api-tokens?userId=${scripterId}`)
+      .set("Authorization", `Bearer ${auth.accessToken}`);
+    expect(filtered.body.data.map((row: { user_email: string }) => row.user_email)).toEqual([
+      "scripter@adfix.local",
+      "scripter@adfix.local"
+    ]);
+
+    const othersToken = await request(app)
+      .delete(`/api/api-tokens/${adminToken.body.data.id}`)
+      .set("Authorization", `Bearer ${scripter.accessToken}`);
+    expect(othersToken.status).toBe(404);
+    const adminRevoke = await request(app)
+      .delete(`/api/users/api-tokens/${created.body.data.id}`)
+      .set("Authorization", `Bearer ${auth.accessToken}`);
+    expect(adminRevoke.status).toBe(204);
+    const revokeAgain = await request(app)
+      .delete(`/api/users/api-tokens/${created.body.data.id}`)
+      .set("Authorization", `Bearer ${auth.accessToken}`);
+    expect(revokeAgain.status).toBe(409);
+    const revokedUse = await request(app).get(`/api/projects/${projectId}`).set("Authorization", `Bearer ${taskToken}`);
+    expect(revokedUse.status).toBe(401);
+
+    const notifications = await request(app)
+      .get("/api/notifications")
+      .set("Authorization", `Bearer ${scripter.accessToken}`);
+    expect(notifications.body.data.find((row: { type: string }) => row.type === "api_token_revoked")).toMatchObject({
+      message: 'Adfix Admin revoked your API token "CI sync".'
+    });
+
+    await pool.query(`UPDATE api_tokens SET expires_at = NOW() - INTERVAL '1 minute' WHERE id = $1`, [
+      readOnly.body.data.id
+    ]);
+    const expiredUse = await request(app).get(`/api/projects/${projectId}`).set("Authorization", `Bearer ${readOnlyToken}`);
+    expect(expiredUse.status).toBe(401);
+    const activeAfter = await request(app).get("/api/users/api-tokens").set("Authorization", `Bearer ${auth.accessToken}`);
+    expect(activeAfter.body.data.map((row: { name: string }) => row.name)).toEqual(["Admin script"]);
+    const allAfter = await request(app)
+      .get("/api/users/api-tokens?includeInactive=true")
+      .set("Authorization", `Bearer ${auth.accessToken}`);
+    expect(allAfter.body.data).toHaveLength(3);
+
+    const ownRevoke = await request(app)
+      .delete(`/api/api-tokens/${adminToken.body.data.id}`)
+      .set("Authorization", `Bearer ${auth.accessToken}`);
+    expect(ownRevoke.status).toBe(204);
+
+    const activity = await pool.query<{ action: string; details: Record<string, unknown> }>(
+      `SELECT action, details
+       FROM activity_log
+       WHERE action IN ('api_token_created', 'api_token_revoked')
+          OR (action = 'authz_denied' AND details->>'permission' = 'api_token:write')
+       ORDER BY created_at, id`
+    );
+    expect(activity.rows.map((row) => row.action)).toEqual([
+      "api_token_created",
+      "api_token_created",
+      ...Array<string>(10).fill("authz_denied"),
+      "api_token_created",
+      "api_token_revoked",
+      "api_token_revoked"
+    ]);
+  });
 });
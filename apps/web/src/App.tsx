@@ -1,5 +1,6 @@
 import { Navigate, Route, Routes } from "react-router-dom";
 import { AppShell } from "./components/AppShell";
+import { PortalShell } from "./components/PortalShell";
 import { RequireAuth } from "./components/RequireAuth";
 import { DashboardPage } from "./pages/DashboardPage";
 import { LoginPage } from "./pages/LoginPage";
@@ -14,13 +15,26 @@ import { SettingsPage } from "./pages/SettingsPage";
 import { TeamPage } from "./pages/TeamPage";
 import { TasksPage } from "./pages/TasksPage";
 import { AuditLogsPage } from "./pages/AuditLogsPage";
+import { ImportsPage } from "./pages/ImportsPage";
 import { SignupPage } from "./pages/SignupPage";
+import { ForgotPasswordPage } from "./pages/ForgotPasswordPage";
+import { ResetPasswordPage } from "./pages/ResetPasswordPage";
+import { VerifyEmailPage } from "./pages/VerifyEmailPage";
+import { AcceptInvitePage } from "./pages/AcceptInvitePage";
+import { OidcCallbackPage } from "./pages/OidcCallbackPage";
+import { PortalProjectsPage } from "./pages/PortalProjectsPage";
+import { PortalProjectPage } from "./pages/PortalProjectPage";
 
 export function App() {
   return (
     <Routes>
       <Route path="/login" element={<LoginPage />} />
       <Route path="/signup" element={<SignupPage />} />
+      <Route path="/forgot-password" element={<ForgotPasswordPage />} />
+      <Route path="/reset-password" element={<ResetPasswordPage />} />
+      <Route path="/verify-email" element={<VerifyEmailPage />} />
+      <Route path="/accept-invite" element={<AcceptInvitePage />} />
+      <Route path="/auth/oidc/callback" element={<OidcCallbackPage />} />
       <Route
         element={
           <RequireAuth>
@@ -38,10 +52,21 @@ export function App() {
         <Route path="/reports" element={<ReportsPage />} />
         <Route path="/search" element={<SearchPage />} />
         <Route path="/team" element={<TeamPage />} />
+        <Route path="/imports" element={<ImportsPage />} />
         <Route path="/audit-logs" element={<AuditLogsPage />} />
         <Route path="/notifications" element={<NotificationsPage />} />
         <Route path="/settings" element={<SettingsPage />} />
       </Route>
+      <Route
+        element={
+          <RequireAuth audience="client_user">
+            <PortalShell />
+          </RequireAuth>
+        }
+      >
+        <Route path="/portal" element={<PortalProjectsPage />} />
+        <Route path="/portal/projects/:projectId" element={<PortalProjectPage />} />
+      </Route>
       <Route path="*" element={<Navigate to="/" replace />} />
     </Routes>
   );
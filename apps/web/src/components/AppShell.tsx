@@ -9,6 +9,7 @@ const navItems = [
   { to: "/tasks", label: "Tasks" },
   { to: "/reports", label: "Reports" },
   { to: "/team", label: "Team" },
+  { to: "/imports", label: "Imports", adminOnly: true },
   { to: "/audit-logs", label: "Audit Logs", adminOnly: true }
 ];
 
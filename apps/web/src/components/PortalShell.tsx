@@ -0,0 +1,24 @@
+import { Link, Outlet } from "react-router-dom";
+import { useAuth } from "../state/auth";
+
+// Chrome for client portal accounts: no sidebar, search or internal navigation.
+export function PortalShell() {
+  const { user, logout } = useAuth();
+
+  return (
+    <main className="content portal-content">
+      <header className="topbar">
+        <Link to="/portal" className="inline-link">
+          <h1>Adfix Client Portal</h1>
+        </Link>
+        <div className="topbar-actions">
+          <span className="muted">{user?.name}</span>
+          <button type="button" className="ghost-button" onClick={() => void logout()}>
+            Logout
+          </button>
+        </div>
+      </header>
+      <Outlet />
+    </main>
+  );
+}
@@ -35,5 +35,57 @@ describe("RequireAuth", () => {
     expect(screen.getByText("Login Page")).toBeInTheDocument();
     expect(screen.queryByText("Private Page")).not.toBeInTheDocument();
   });
-});
 
+  it("sends client portal accounts away from staff pages", () => {
+    vi.mocked(useAuth).mockReturnValue({
+      isAuthenticated: true,
+      isInitializing: false,
+      user: { id: "u1", email: "buyer@client.example", name: "Buyer", isAdmin: false, principalType: "client_user" }
+    } as never);
+
+    render(
+      <MemoryRouter initialEntries={["/dashboard"]}>
+        <Routes>
+          <Route path="/portal" element={<div>Portal Home</div>} />
+          <Route
+            path="/dashboard"
+            element={
+              <RequireAuth>
+                <div>Staff Dashboard</div>
+              </RequireAuth>
+            }
+          />
+        </Routes>
+      </MemoryRouter>
+    );
+
+    expect(screen.getByText("Portal Home")).toBeInTheDocument();
+    expect(screen.queryByText("Staff Dashboard")).not.toBeInTheDocument();
+  });
+
+  it("keeps staff out of the client portal", () => {
+    vi.mocked(useAuth).mockReturnValue({
+      isAuthenticated: true,
+      isInitializing: false,
+      user: { id: "u2", email: "admin@adfix.local", name: "Admin", isAdmin: true }
+    } as never);
+
+    render(
+      <MemoryRouter initialEntries={["/portal"]}>
+        <Routes>
+          <Route path="/dashboard" element={<div>Staff Dashboard</div>} />
+          <Route
+            path="/portal"
+            element={
+              <RequireAuth audience="client_user">
+                <div>Portal Home</div>
+              </RequireAuth>
+            }
+          />
+        </Routes>
+      </MemoryRouter>
+    );
+
+    expect(screen.getByText("Staff Dashboard")).toBeInTheDocument();
+  });
+});
@@ -1,8 +1,17 @@
 import { Navigate } from "react-router-dom";
+import { homePathFor, isClientUser } from "../lib/principal";
 import { useAuth } from "../state/auth";
 
-export function RequireAuth({ children }: { children: React.ReactNode }) {
-  const { isAuthenticated, isInitializing } = useAuth();
+type Audience = "staff" | "client_user";
+
+export function RequireAuth({
+  children,
+  audience = "staff"
+}: {
+  children: React.ReactNode;
+  audience?: Audience;
+}) {
+  const { isAuthenticated, isInitializing, user } = useAuth();
 
   if (isInitializing) {
     return <div className="state-card">Loading session...</div>;
@@ -12,5 +21,10 @@ export function RequireAuth({ children }: { children: React.ReactNode }) {
     return <Navigate to="/login" replace />;
   }
 
+  // Send staff and client portal accounts back to their own side of the app.
+  if ((audience === "client_user") !== isClientUser(user)) {
+    return <Navigate to={homePathFor(user)} replace />;
+  }
+
   return <>{children}</>;
 }
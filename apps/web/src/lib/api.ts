@@ -27,15 +27,22 @@ export async function apiRequest<T>(path: string, options: RequestOptions = {}):
   const abortController = new AbortController();
   const timeoutId = setTimeout(() => abortController.abort(), API_TIMEOUT_MS);
 
+  // Files (e.g. spreadsheet imports) are sent as the raw body with their own content type.
+  const isFileBody = options.body instanceof Blob;
+
   let response: Response;
   try {
     response = await fetch(`${API_BASE_URL}${path}`, {
       method: options.method ?? "GET",
       headers: {
-        "content-type": "application/json",
+        "content-type": isFileBody ? (options.body as Blob).type || "application/octet-stream" : "application/json",
         ...(options.accessToken ? { authorization: `Bearer ${options.accessToken}` } : {})
       },
-      body: typeof options.body === "undefined" ? undefined : JSON.stringify(options.body),
+      body: isFileBody
+        ? (options.body as Blob)
+        : typeof options.body === "undefined"
+          ? undefined
+          : JSON.stringify(options.body),
       signal: abortController.signal
     });
   } catch (error) {
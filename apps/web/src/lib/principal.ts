@@ -0,0 +1,10 @@
+import type { User } from "../types";
+
+// Client portal accounts live in their own route tree; everyone else lands on the staff dashboard.
+export function isClientUser(user: User | null | undefined) {
+  return user?.principalType === "client_user";
+}
+
+export function homePathFor(user: User | null | undefined) {
+  return isClientUser(user) ? "/portal" : "/dashboard";
+}
@@ -0,0 +1,115 @@
+import { FormEvent, useEffect, useState } from "react";
+import { Link, useNavigate, useSearchParams } from "react-router-dom";
+import { apiRequest, ApiError } from "../lib/api";
+import { useAuth } from "../state/auth";
+import type { AuthTokens, MfaChallenge } from "../types";
+
+type InvitationLookupResponse = {
+  data: {
+    email: string;
+    projectName: string | null;
+    projectRole: string | null;
+    invitedByName: string | null;
+    expiresAt: string;
+  };
+};
+
+export function AcceptInvitePage() {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get("token") ?? "";
+  const { completeLogin } = useAuth();
+  const [invitation, setInvitation] = useState<InvitationLookupResponse["data"] | null>(null);
+  const [lookupError, setLookupError] = useState<string | null>(
+    token ? null : "This invitation link is incomplete."
+  );
+  const [name, setName] = useState("");
+  const [password, setPassword] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!token) return;
+    apiRequest<InvitationLookupResponse>("/auth/invitations/lookup", {
+      method: "POST",
+      body: { token }
+    })
+      .then((result) => setInvitation(result.data))
+      .catch((err: unknown) =>
+        setLookupError(err instanceof ApiError ? err.message : "Could not load the invitation.")
+      );
+  }, [token]);
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setError(null);
+    setIsSubmitting(true);
+
+    try {
+      const result = await apiRequest<AuthTokens | MfaChallenge>("/auth/invitations/accept", {
+        method: "POST",
+        body: { token, name: name.trim(), password }
+      });
+      // The workspace requires MFA: the login page walks through setting up the authenticator.
+      if ("challengeToken" in result) {
+        navigate("/login", { state: { challenge: result } });
+        return;
+      }
+      completeLogin(result);
+      navigate("/dashboard");
+    } catch (err) {
+      setError(err instanceof ApiError ? err.message : "Could not accept the invitation");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (!invitation) {
+    return (
+      <div className="login-wrap">
+        <div className="card login-card">
+          <h1>Invitation</h1>
+          {lookupError ? (
+            <p className="error-text">{lookupError} Ask whoever invited you for a new link.</p>
+          ) : (
+            <p className="muted">Loading invitation...</p>
+          )}
+          <p className="muted">
+            Already have an account? <Link to="/login">Sign in</Link>
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="login-wrap">
+      <form className="card login-card" onSubmit={handleSubmit}>
+        <h1>Join Adfix PM</h1>
+        <p className="muted">
+          {invitation.invitedByName ?? "Someone"} invited {invitation.email}
+          {invitation.projectName ? ` to "${invitation.projectName}" as ${invitation.projectRole}` : ""}.
+        </p>
+        <label className="field">
+          <span>Name</span>
+          <input value={name} onChange={(event) => setName(event.target.value)} required />
+        </label>
+        <label className="field">
+          <span>Password</span>
+          <input
+            value={password}
+            onChange={(event) => setPassword(event.target.value)}
+            type="password"
+            autoComplete="new-password"
+            minLength={8}
+            required
+          />
+        </label>
+        {error ? <p className="error-text">{error}</p> : null}
+        <button className="primary-button" type="submit" disabled={isSubmitting}>
+          {isSubmitting ? "Creating account..." : "Create account"}
+        </button>
+      </form>
+    </div>
+  );
+}
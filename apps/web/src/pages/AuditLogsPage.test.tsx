@@ -2,6 +2,7 @@ import { render, screen } from "@testing-library/react";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { MemoryRouter } from "react-router-dom";
 import { describe, expect, it, vi } from "vitest";
+import { useAuth } from "../state/auth";
 import { AuditLogsPage } from "./AuditLogsPage";
 
 const apiRequestMock = vi.fn();
@@ -38,4 +39,47 @@ describe("AuditLogsPage", () => {
     ).toBeInTheDocument();
     expect(apiRequestMock).not.toHaveBeenCalled();
   });
+
+  it("filters by phase override action from the URL and shows override details", async () => {
+    vi.mocked(useAuth).mockReturnValue({
+      accessToken: "token",
+      user: {
+        id: "u1",
+        email: "admin@adfix.local",
+        name: "Admin User",
+        isAdmin: true
+      }
+    } as ReturnType<typeof useAuth>);
+    apiRequestMock.mockResolvedValueOnce({
+      data: [
+        {
+          id: "log-1",
+          action: "project_phase_overridden",
+          project_id: "p1",
+          details: { from: "production", to: "strategy_planning", taskAction: "reopen", reason: "Scope changed" },
+          user_name: "Admin User",
+          user_email: "admin@adfix.local",
+          created_at: "2026-02-12T10:00:00.000Z"
+        }
+      ],
+      meta: { total: 1 }
+    });
+
+    const queryClient = new QueryClient();
+    render(
+      <QueryClientProvider client={queryClient}>
+        <MemoryRouter initialEntries={["/audit-logs?action=project_phase_overridden"]}>
+          <AuditLogsPage />
+        </MemoryRouter>
+      </QueryClientProvider>
+    );
+
+    expect(await screen.findByText("Project Phase Overridden")).toBeInTheDocument();
+    expect(screen.getByText(/Scope changed/)).toBeInTheDocument();
+    expect(screen.getByLabelText("Action preset")).toHaveValue("project_phase_overridden");
+    expect(apiRequestMock).toHaveBeenCalledWith(
+      expect.stringContaining("action=project_phase_overridden"),
+      expect.anything()
+    );
+  });
 });
@@ -20,6 +20,13 @@ type AuditLogsResponse = {
   };
 };
 
+const ACTION_PRESETS = [
+  { value: "project_phase_overridden", label: "Phase overrides" },
+  { value: "project_phase_changed", label: "Phase changes" },
+  { value: "authz_denied", label: "Authorization denials" },
+  { value: "user_status_changed", label: "User status changes" }
+];
+
 export function AuditLogsPage() {
   const { accessToken, user } = useAuth();
   const [searchParams, setSearchParams] = useSearchParams();
@@ -106,6 +113,18 @@ export function AuditLogsPage() {
           onChange={(event) => setParam("search", event.target.value)}
         />
         <input placeholder="Action filter (exact)" value={action} onChange={(event) => setParam("action", event.target.value)} />
+        <select
+          aria-label="Action preset"
+          value={ACTION_PRESETS.some((preset) => preset.value === action) ? action : ""}
+          onChange={(event) => setParam("action", event.target.value)}
+        >
+          <option value="">All actions</option>
+          {ACTION_PRESETS.map((preset) => (
+            <option key={preset.value} value={preset.value}>
+              {preset.label}
+            </option>
+          ))}
+        </select>
         <input type="date" value={from} onChange={(event) => setParam("from", event.target.value)} />
         <input type="date" value={to} onChange={(event) => setParam("to", event.target.value)} />
         <select value={sortBy} onChange={(event) => setParam("sortBy", event.target.value)}>
@@ -144,6 +163,12 @@ export function AuditLogsPage() {
                   {new Date(entry.created_at).toLocaleString()}
                 </p>
                 {entry.project_id ? <p className="muted">Project: {entry.project_id}</p> : null}
+                {entry.action === "project_phase_overridden" ? (
+                  <p className="muted">
+                    {String(entry.details.from)} → {String(entry.details.to)} ({String(entry.details.taskAction)}
+                    ): {String(entry.details.reason)}
+                  </p>
+                ) : null}
               </article>
             ))}
           </div>
@@ -1,14 +1,17 @@
 import { render, screen } from "@testing-library/react";
 import { MemoryRouter } from "react-router-dom";
 import { describe, expect, it, vi } from "vitest";
+import { AcceptInvitePage } from "./AcceptInvitePage";
 import { LoginPage } from "./LoginPage";
+import { OidcCallbackPage } from "./OidcCallbackPage";
 import { SignupPage } from "./SignupPage";
 
 vi.mock("../state/auth", () => ({
   useAuth: vi.fn(() => ({
     isAuthenticated: false,
     login: vi.fn(),
-    signup: vi.fn()
+    signup: vi.fn(),
+    completeLogin: vi.fn()
   }))
 }));
 
@@ -24,6 +27,54 @@ describe("auth pages", () => {
     expect(link).toHaveAttribute("href", "/signup");
   });
 
+  it("login page links to password reset", () => {
+    render(
+      <MemoryRouter>
+        <LoginPage />
+      </MemoryRouter>
+    );
+
+    const link = screen.getByRole("link", { name: /forgot password/i });
+    expect(link).toHaveAttribute("href", "/forgot-password");
+  });
+
+  it("login page offers single sign-on when the API has it configured", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => new Response(JSON.stringify({ data: { enabled: true, name: "Google" } }), { status: 200 }))
+    );
+
+    try {
+      render(
+        <MemoryRouter>
+          <LoginPage />
+        </MemoryRouter>
+      );
+
+      expect(await screen.findByRole("button", { name: /sign in with google/i })).toBeInTheDocument();
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+
+  it("single sign-on callback refuses a login this tab did not start", () => {
+    const fetchMock = vi.fn();
+    vi.stubGlobal("fetch", fetchMock);
+
+    try {
+      render(
+        <MemoryRouter initialEntries={["/auth/oidc/callback?code=abc&state=xyz"]}>
+          <OidcCallbackPage />
+        </MemoryRouter>
+      );
+
+      expect(screen.getByText(/not started in this browser tab/i)).toBeInTheDocument();
+      expect(fetchMock).not.toHaveBeenCalled();
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+
   it("signup page links to login", () => {
     render(
       <MemoryRouter>
@@ -34,4 +85,15 @@ describe("auth pages", () => {
     const link = screen.getByRole("link", { name: /sign in/i });
     expect(link).toHaveAttribute("href", "/login");
   });
+
+  it("accept invite page explains an incomplete link", () => {
+    render(
+      <MemoryRouter initialEntries={["/accept-invite"]}>
+        <AcceptInvitePage />
+      </MemoryRouter>
+    );
+
+    expect(screen.getByText(/invitation link is incomplete/i)).toBeInTheDocument();
+    expect(screen.getByRole("link", { name: /sign in/i })).toHaveAttribute("href", "/login");
+  });
 });
@@ -30,6 +30,18 @@ type ProjectsResponse = {
   };
 };
 
+type ClientContactsResponse = {
+  data: Array<{
+    id: string;
+    name: string;
+    title: string | null;
+    email: string | null;
+    phone: string | null;
+    is_primary: boolean;
+    notes: string | null;
+  }>;
+};
+
 type ClientActivityResponse = {
   data: Array<{
     id: string;
@@ -55,6 +67,12 @@ export function ClientDetailPage() {
   const [phone, setPhone] = useState("");
   const [notes, setNotes] = useState("");
   const [formError, setFormError] = useState<string | null>(null);
+  const [contactName, setContactName] = useState("");
+  const [contactTitle, setContactTitle] = useState("");
+  const [contactEmail, setContactEmail] = useState("");
+  const [contactPhone, setContactPhone] = useState("");
+  const [contactIsPrimary, setContactIsPrimary] = useState(false);
+  const [contactError, setContactError] = useState<string | null>(null);
 
   const clientQuery = useQuery({
     queryKey: ["client-detail", clientId],
@@ -77,6 +95,15 @@ export function ClientDetailPage() {
     enabled: Boolean(clientId && accessToken)
   });
 
+  const contactsQuery = useQuery({
+    queryKey: ["client-contacts", clientId],
+    queryFn: () =>
+      apiRequest<ClientContactsResponse>(`/clients/${clientId}/contacts`, {
+        accessToken: accessToken ?? undefined
+      }),
+    enabled: Boolean(clientId && accessToken)
+  });
+
   const activityQuery = useQuery({
     queryKey: ["client-activity", clientId],
     queryFn: () =>
@@ -135,6 +162,62 @@ export function ClientDetailPage() {
     }
   });
 
+  const createContactMutation = useMutation({
+    mutationFn: () =>
+      apiRequest(`/clients/${clientId}/contacts`, {
+        method: "POST",
+        accessToken: accessToken ?? undefined,
+        body: {
+          name: contactName.trim(),
+          title: contactTitle.trim() ? contactTitle.trim() : null,
+          email: contactEmail.trim() ? contactEmail.trim() : null,
+          phone: contactPhone.trim() ? contactPhone.trim() : null,
+          isPrimary: contactIsPrimary
+        }
+      }),
+    onSuccess: async () => {
+      setContactName("");
+      setContactTitle("");
+      setContactEmail("");
+      setContactPhone("");
+      setContactIsPrimary(false);
+      setContactError(null);
+      await queryClient.invalidateQueries({ queryKey: ["client-contacts", clientId] });
+    },
+    onError: (error) => {
+      setContactError(error instanceof ApiError ? error.message : "Could not add contact.");
+    }
+  });
+
+  const makePrimaryMutation = useMutation({
+    mutationFn: (contactId: string) =>
+      apiRequest(`/clients/${clientId}/contacts/${contactId}`, {
+        method: "PUT",
+        accessToken: accessToken ?? undefined,
+        body: { isPrimary: true }
+      }),
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({ queryKey: ["client-contacts", clientId] });
+    },
+    onError: () => {
+      setContactError("Could not update contact.");
+    }
+  });
+
+  const deleteContactMutation = useMutation({
+    mutationFn: (contactId: string) =>
+      apiRequest(`/clients/${clientId}/contacts/${contactId}`, {
+        method: "DELETE",
+        accessToken: accessToken ?? undefined
+      }),
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({ queryKey: ["client-contacts", clientId] });
+    },
+    onError: () => {
+      setContactError("Could not delete contact.");
+    }
+  });
+
   if (!clientId) {
     return <div className="state-card">Missing client id.</div>;
   }
@@ -310,6 +393,99 @@ export function ClientDetailPage() {
         </div>
       </div>
 
+      <div className="card table-wrap">
+        <div className="section-head">
+          <h3>Contacts</h3>
+          <p className="muted">{contactsQuery.data?.data.length ?? 0} contacts</p>
+        </div>
+        <form
+          className="task-create-form"
+          onSubmit={(event) => {
+            event.preventDefault();
+            if (!contactName.trim()) {
+              setContactError("Contact name is required.");
+              return;
+            }
+            createContactMutation.mutate();
+          }}
+        >
+          <div className="client-edit-grid">
+            <input value={contactName} onChange={(event) => setContactName(event.target.value)} placeholder="Name" />
+            <input value={contactTitle} onChange={(event) => setContactTitle(event.target.value)} placeholder="Title" />
+            <input value={contactEmail} onChange={(event) => setContactEmail(event.target.value)} placeholder="Email" />
+            <input value={contactPhone} onChange={(event) => setContactPhone(event.target.value)} placeholder="Phone" />
+            <label>
+              <input
+                type="checkbox"
+                checked={contactIsPrimary}
+                onChange={(event) => setContactIsPrimary(event.target.checked)}
+              />{" "}
+              Primary contact
+            </label>
+          </div>
+          <div className="inline-actions">
+            <button type="submit" className="primary-button" disabled={createContactMutation.isPending}>
+              Add contact
+            </button>
+          </div>
+          {contactError ? <p className="error-text">{contactError}</p> : null}
+        </form>
+        {contactsQuery.isLoading ? (
+          <p>Loading contacts...</p>
+        ) : contactsQuery.isError ? (
+          <p>Could not load contacts.</p>
+        ) : !contactsQuery.data?.data.length ? (
+          <p className="muted">No contacts recorded for this client.</p>
+        ) : (
+          <table>
+            <thead>
+              <tr>
+                <th>Name</th>
+                <th>Title</th>
+                <th>Email</th>
+                <th>Phone</th>
+                <th>Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {contactsQuery.data.data.map((contact) => (
+                <tr key={contact.id}>
+                  <td>
+                    {contact.name}
+                    {contact.is_primary ? <span className="muted"> · Primary</span> : null}
+                  </td>
+                  <td>{formatValue(contact.title)}</td>
+                  <td>{formatValue(contact.email)}</td>
+                  <td>{formatValue(contact.phone)}</td>
+                  <td>
+                    <div className="inline-actions">
+                      {!contact.is_primary ? (
+                        <button
+                          type="button"
+                          className="ghost-button"
+                          onClick={() => makePrimaryMutation.mutate(contact.id)}
+                          disabled={makePrimaryMutation.isPending}
+                        >
+                          Make primary
+                        </button>
+                      ) : null}
+                      <button
+                        type="button"
+                        className="ghost-button"
+                        onClick={() => deleteContactMutation.mutate(contact.id)}
+                        disabled={deleteContactMutation.isPending}
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
       <div className="card table-wrap">
         <div className="section-head">
           <h3>Projects</h3>
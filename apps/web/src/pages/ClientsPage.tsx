@@ -27,8 +27,18 @@ type ClientsResponse = {
   };
 };
 
+type DuplicatesResponse = {
+  data: Array<{
+    score: number;
+    reasons: string[];
+    client: ClientRow;
+    duplicate: ClientRow;
+  }>;
+};
+
 export function ClientsPage() {
-  const { accessToken } = useAuth();
+  const { accessToken, user } = useAuth();
+  const isAdmin = Boolean(user?.isAdmin);
   const ui = useUI();
   const queryClient = useQueryClient();
   const [searchParams, setSearchParams] = useSearchParams();
@@ -57,8 +67,18 @@ export function ClientsPage() {
     enabled: Boolean(accessToken)
   });
 
+  const duplicatesQuery = useQuery({
+    queryKey: ["client-duplicates"],
+    queryFn: () =>
+      apiRequest<DuplicatesResponse>("/clients/duplicates", {
+        accessToken: accessToken ?? undefined
+      }),
+    enabled: Boolean(accessToken && isAdmin)
+  });
+
   const refreshClients = async () => {
     await queryClient.invalidateQueries({ queryKey: ["clients-page"] });
+    await queryClient.invalidateQueries({ queryKey: ["client-duplicates"] });
     await queryClient.invalidateQueries({ queryKey: ["clients-for-project-form"] });
   };
 
@@ -173,6 +193,22 @@ export function ClientsPage() {
     }
   });
 
+  const mergeClientsMutation = useMutation({
+    mutationFn: (payload: { survivorId: string; mergedClientId: string }) =>
+      apiRequest(`/clients/${payload.survivorId}/merge`, {
+        method: "POST",
+        accessToken: accessToken ?? undefined,
+        body: { mergedClientId: payload.mergedClientId }
+      }),
+    onSuccess: async () => {
+      await refreshClients();
+      ui.success("Clients merged.");
+    },
+    onError: (error) => {
+      ui.error(error instanceof ApiError ? error.message : "Could not merge clients.");
+    }
+  });
+
   const onSubmit = (event: FormEvent<HTMLFormElement>) => {
     event.preventDefault();
     if (!name.trim()) return;
@@ -254,6 +290,68 @@ export function ClientsPage() {
         {formError ? <p className="error-text">{formError}</p> : null}
       </form>
 
+      {isAdmin && duplicatesQuery.data?.data.length ? (
+        <div className="card table-wrap">
+          <div className="section-head">
+            <h3>Possible duplicates</h3>
+            <p className="muted">{duplicatesQuery.data.data.length} pairs</p>
+          </div>
+          <table>
+            <thead>
+              <tr>
+                <th>Client</th>
+                <th>Possible duplicate</th>
+                <th>Match</th>
+                <th>Merge</th>
+              </tr>
+            </thead>
+            <tbody>
+              {duplicatesQuery.data.data.map((pair) => (
+                <tr key={`${pair.client.id}:${pair.duplicate.id}`}>
+                  <td>
+                    <Link to={`/clients/${pair.client.id}`} className="inline-link">
+                      {pair.client.name}
+                    </Link>
+                  </td>
+                  <td>
+                    <Link to={`/clients/${pair.duplicate.id}`} className="inline-link">
+                      {pair.duplicate.name}
+                    </Link>
+                  </td>
+                  <td>
+                    {Math.round(pair.score * 100)}% · {pair.reasons.join(", ").replace(/_/g, " ")}
+                  </td>
+                  <td>
+                    <div className="inline-actions">
+                      <button
+                        type="button"
+                        className="ghost-button"
+                        disabled={mergeClientsMutation.isPending}
+                        onClick={() =>
+                          mergeClientsMutation.mutate({ survivorId: pair.client.id, mergedClientId: pair.duplicate.id })
+                        }
+                      >
+                        Keep {pair.client.name}
+                      </button>
+                      <button
+                        type="button"
+                        className="ghost-button"
+                        disabled={mergeClientsMutation.isPending}
+                        onClick={() =>
+                          mergeClientsMutation.mutate({ survivorId: pair.duplicate.id, mergedClientId: pair.client.id })
+                        }
+                      >
+                        Keep {pair.duplicate.name}
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : null}
+
       <div className="card tasks-toolbar">
         <select value={sortBy} onChange={(event) => setListParam("sortBy", event.target.value)}>
           <option value="updatedAt">Sort: updatedAt</option>
@@ -0,0 +1,57 @@
+import { FormEvent, useState } from "react";
+import { Link } from "react-router-dom";
+import { apiRequest, ApiError } from "../lib/api";
+
+export function ForgotPasswordPage() {
+  const [email, setEmail] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [requested, setRequested] = useState(false);
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setError(null);
+    setIsSubmitting(true);
+
+    try {
+      await apiRequest("/auth/password/forgot", {
+        method: "POST",
+        body: { email: email.trim() }
+      });
+      setRequested(true);
+    } catch (err) {
+      setError(err instanceof ApiError ? err.message : "Could not request a reset link");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="login-wrap">
+      <form className="card login-card" onSubmit={handleSubmit}>
+        <h1>Reset password</h1>
+        {requested ? (
+          <p className="muted">
+            If {email.trim()} has an account, a reset link is on its way. The link works once and expires in an
+            hour.
+          </p>
+        ) : (
+          <>
+            <p className="muted">Enter your email and we will send you a link to choose a new password.</p>
+            <label className="field">
+              <span>Email</span>
+              <input value={email} onChange={(event) => setEmail(event.target.value)} type="email" required />
+            </label>
+            {error ? <p className="error-text">{error}</p> : null}
+            <button className="primary-button" type="submit" disabled={isSubmitting}>
+              {isSubmitting ? "Sending..." : "Send reset link"}
+            </button>
+          </>
+        )}
+        <p className="muted">
+          Remembered it? <Link to="/login">Sign in</Link>
+        </p>
+      </form>
+    </div>
+  );
+}
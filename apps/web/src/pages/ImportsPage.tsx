@@ -0,0 +1,624 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { FormEvent, useState } from "react";
+import { ErrorState } from "../components/States";
+import { apiRequest, ApiError } from "../lib/api";
+import { useAuth } from "../state/auth";
+import { useUI } from "../state/ui";
+
+type ImportEntity = "clients" | "projects" | "tasks";
+
+type ImportRun = {
+  id: string;
+  entity: ImportEntity;
+  file_name: string;
+  status: "uploaded" | "validated" | "committed" | "undone";
+  headers: string[];
+  mapping: Record<string, string | null>;
+  row_count: number;
+  summary: { total: number; valid: number; invalid: number; created: number } | null;
+  created_by_name: string | null;
+  created_at: string;
+};
+
+type ImportField = {
+  key: string;
+  label: string;
+  required: boolean;
+};
+
+type ImportRunsResponse = {
+  data: ImportRun[];
+};
+
+type ImportRunDetailResponse = {
+  data: {
+    run: ImportRun;
+    fields: ImportField[];
+    rows: Array<{
+      row_number: number;
+      status: "valid" | "invalid" | "created" | "undone";
+      errors: Array<{ field: string | null; message: string }>;
+      entity_id: string | null;
+    }>;
+  };
+};
+
+type UploadResponse = {
+  data: {
+    run: ImportRun;
+    fields: ImportField[];
+  };
+};
+
+type BoardSource = "trello" | "asana";
+
+type BoardImport = {
+  id: string;
+  source: BoardSource;
+  project_id: string;
+  project_name: string | null;
+  file_name: string;
+  board_name: string;
+  status: "uploaded" | "committed";
+  card_count: number;
+  report: {
+    created: { tasks: number; comments: number; files: number };
+    lists: Array<{ listId: string | null; name: string | null; cardCount: number; reason: string }>;
+    members: Array<{ memberId: string; name: string; email: string | null; reason: string }>;
+    cards: Array<{ cardId: string; title: string; reason: string }>;
+    comments: Array<{ cardId: string; taskId: string; author: string | null; reason: string }>;
+    attachments: Array<{ cardId: string; name: string; url: string; reason: string }>;
+  } | null;
+  created_at: string;
+};
+
+type BoardImportDetailResponse = {
+  data: {
+    import: BoardImport;
+    lists: Array<{ id: string; name: string; cardCount: number; phase: string | null }>;
+    members: Array<{ id: string; name: string; email: string | null; userId: string | null }>;
+  };
+};
+
+type ProjectsResponse = {
+  data: Array<{ id: string; name: string }>;
+};
+
+const PROJECT_PHASES = ["client_acquisition", "strategy_planning", "production", "post_production", "delivery"];
+
+const formatLabel = (value: string) =>
+  value
+    .split("_")
+    .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+    .join(" ");
+
+export function ImportsPage() {
+  const { accessToken, user } = useAuth();
+  const isAdmin = Boolean(user?.isAdmin);
+  const ui = useUI();
+  const queryClient = useQueryClient();
+  const [entity, setEntity] = useState<ImportEntity>("clients");
+  const [file, setFile] = useState<File | null>(null);
+  const [activeRunId, setActiveRunId] = useState<string | null>(null);
+  const [mapping, setMapping] = useState<Record<string, string | null>>({});
+
+  const runsQuery = useQuery({
+    queryKey: ["import-runs"],
+    queryFn: () =>
+      apiRequest<ImportRunsResponse>("/imports", {
+        accessToken: accessToken ?? undefined
+      }),
+    enabled: Boolean(accessToken && isAdmin)
+  });
+
+  const runQuery = useQuery({
+    queryKey: ["import-run", activeRunId],
+    queryFn: () =>
+      apiRequest<ImportRunDetailResponse>(`/imports/${activeRunId}`, {
+        accessToken: accessToken ?? undefined
+      }),
+    enabled: Boolean(accessToken && isAdmin && activeRunId)
+  });
+
+  const refreshImports = async () => {
+    await queryClient.invalidateQueries({ queryKey: ["import-runs"] });
+    await queryClient.invalidateQueries({ queryKey: ["import-run", activeRunId] });
+  };
+
+  const openRun = (run: ImportRun) => {
+    setActiveRunId(run.id);
+    setMapping(run.mapping);
+  };
+
+  const uploadMutation = useMutation({
+    mutationFn: (payload: { entity: ImportEntity; file: File }) =>
+      apiRequest<UploadResponse>(
+        `/imports?entity=${payload.entity}&fileName=${encodeURIComponent(payload.file.name)}`,
+        {
+          method: "POST",
+          accessToken: accessToken ?? undefined,
+          body: payload.file
+        }
+      ),
+    onSuccess: async (result) => {
+      setFile(null);
+      openRun(result.data.run);
+      await queryClient.invalidateQueries({ queryKey: ["import-runs"] });
+    },
+    onError: (error) => {
+      ui.error(error instanceof ApiError ? error.message : "Could not read the file.");
+    }
+  });
+
+  const dryRunMutation = useMutation({
+    mutationFn: () =>
+      apiRequest(`/imports/${activeRunId}/dry-run`, {
+        method: "POST",
+        accessToken: accessToken ?? undefined,
+        body: { mapping }
+      }),
+    onSuccess: refreshImports,
+    onError: (error) => {
+      ui.error(error instanceof ApiError ? error.message : "Could not validate the import.");
+    }
+  });
+
+  const commitMutation = useMutation({
+    mutationFn: () =>
+      apiRequest(`/imports/${activeRunId}/commit`, {
+        method: "POST",
+        accessToken: accessToken ?? undefined
+      }),
+    onSuccess: async () => {
+      await refreshImports();
+      ui.success("Import committed.");
+    },
+    onError: async (error) => {
+      await refreshImports();
+      ui.error(error instanceof ApiError ? error.message : "Could not commit the import.");
+    }
+  });
+
+  const undoMutation = useMutation({
+    mutationFn: (runId: string) =>
+      apiRequest(`/imports/${runId}/undo`, {
+        method: "POST",
+        accessToken: accessToken ?? undefined
+      }),
+    onSuccess: async () => {
+      await refreshImports();
+      ui.success("Import undone.");
+    },
+    onError: (error) => {
+      ui.error(error instanceof ApiError ? error.message : "Could not undo the import.");
+    }
+  });
+
+  if (!isAdmin) {
+    return <ErrorState message="Imports are restricted to admins." />;
+  }
+
+  const onUpload = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!file) return;
+    uploadMutation.mutate({ entity, file });
+  };
+
+  const detail = runQuery.data?.data;
+  const canEditMapping = detail?.run.status === "uploaded" || detail?.run.status === "validated";
+
+  return (
+    <section>
+      <div className="section-head">
+        <h2>Imports</h2>
+        <p className="muted">
+          Bring clients, projects and tasks in from CSV or Excel files, and Trello or Asana boards into a project.
+        </p>
+      </div>
+
+      <form className="card task-create-form" onSubmit={onUpload}>
+        <h3>Spreadsheet</h3>
+        <div className="task-form-grid">
+          <select value={entity} onChange={(event) => setEntity(event.target.value as ImportEntity)}>
+            <option value="clients">Clients</option>
+            <option value="projects">Projects</option>
+            <option value="tasks">Tasks</option>
+          </select>
+          <input
+            type="file"
+            accept=".csv,.xlsx"
+            onChange={(event) => setFile(event.target.files?.[0] ?? null)}
+          />
+          <button className="primary-button" type="submit" disabled={!file || uploadMutation.isPending}>
+            {uploadMutation.isPending ? "Reading..." : "Preview"}
+          </button>
+        </div>
+      </form>
+
+      {detail ? (
+        <div className="card table-wrap">
+          <div className="section-head">
+            <div>
+              <h3>{detail.run.file_name}</h3>
+              <p className="muted">
+                {formatLabel(detail.run.entity)} · {detail.run.row_count} rows · {formatLabel(detail.run.status)}
+              </p>
+            </div>
+            <button type="button" className="ghost-button" onClick={() => setActiveRunId(null)}>
+              Close
+            </button>
+          </div>
+
+          <div className="task-form-grid">
+            {detail.fields.map((field) => (
+              <label key={field.key}>
+                <span className="eyebrow">
+                  {field.label}
+                  {field.required ? " *" : ""}
+                </span>
+                <select
+                  value={mapping[field.key] ?? ""}
+                  disabled={!canEditMapping}
+                  onChange={(event) => setMapping({ ...mapping, [field.key]: event.target.value || null })}
+                >
+                  <option value="">Not imported</option>
+                  {detail.run.headers.map((header) => (
+                    <option key={header} value={header}>
+                      {header}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            ))}
+          </div>
+
+          <div className="inline-actions">
+            {canEditMapping ? (
+              <button
+                type="button"
+                className="ghost-button"
+                disabled={dryRunMutation.isPending}
+                onClick={() => dryRunMutation.mutate()}
+              >
+                Dry run
+              </button>
+            ) : null}
+            {detail.run.status === "validated" ? (
+              <button
+                type="button"
+                className="primary-button"
+                disabled={commitMutation.isPending || (detail.run.summary?.invalid ?? 0) > 0}
+                onClick={() => commitMutation.mutate()}
+              >
+                Import {detail.run.summary?.valid ?? 0} rows
+              </button>
+            ) : null}
+            {detail.run.summary ? (
+              <p className="muted">
+                {detail.run.summary.valid} valid · {detail.run.summary.invalid} with errors
+                {detail.run.summary.created ? ` · ${detail.run.summary.created} created` : ""}
+              </p>
+            ) : null}
+          </div>
+
+          {detail.rows.length > 0 ? (
+            <table>
+              <thead>
+                <tr>
+                  <th>Row</th>
+                  <th>Result</th>
+                  <th>Problems</th>
+                </tr>
+              </thead>
+              <tbody>
+                {detail.rows.map((row) => (
+                  <tr key={row.row_number}>
+                    <td>{row.row_number}</td>
+                    <td>{formatLabel(row.status)}</td>
+                    <td>
+                      {row.errors.length
+                        ? row.errors
+                            .map((error) => (error.field ? `${error.field}: ${error.message}` : error.message))
+                            .join("; ")
+                        : "-"}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          ) : (
+            <p className="muted">Check the column mapping, then run a dry run to see what would be imported.</p>
+          )}
+        </div>
+      ) : null}
+
+      <div className="card table-wrap">
+        <h3>History</h3>
+        {runsQuery.isLoading ? (
+          <p>Loading imports...</p>
+        ) : runsQuery.isError ? (
+          <p>Could not load imports.</p>
+        ) : !runsQuery.data?.data.length ? (
+          <p className="muted">Nothing has been imported yet.</p>
+        ) : (
+          <table>
+            <thead>
+              <tr>
+                <th>File</th>
+                <th>Type</th>
+                <th>Status</th>
+                <th>Rows</th>
+                <th>By</th>
+                <th>Uploaded</th>
+                <th>Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {runsQuery.data.data.map((run) => (
+                <tr key={run.id}>
+                  <td>{run.file_name}</td>
+                  <td>{formatLabel(run.entity)}</td>
+                  <td>{formatLabel(run.status)}</td>
+                  <td>{run.row_count}</td>
+                  <td>{run.created_by_name ?? "-"}</td>
+                  <td>{new Date(run.created_at).toLocaleString()}</td>
+                  <td>
+                    <div className="inline-actions">
+                      <button type="button" className="ghost-button" onClick={() => openRun(run)}>
+                        Open
+                      </button>
+                      {run.status === "committed" ? (
+                        <button
+                          type="button"
+                          className="ghost-button"
+                          disabled={undoMutation.isPending}
+                          onClick={() => undoMutation.mutate(run.id)}
+                        >
+                          Undo
+                        </button>
+                      ) : null}
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <BoardImportsCard />
+    </section>
+  );
+}
+
+function BoardImportsCard() {
+  const { accessToken } = useAuth();
+  const ui = useUI();
+  const queryClient = useQueryClient();
+  const [source, setSource] = useState<BoardSource>("trello");
+  const [projectId, setProjectId] = useState("");
+  const [file, setFile] = useState<File | null>(null);
+  const [activeImportId, setActiveImportId] = useState<string | null>(null);
+  const [phaseMapping, setPhaseMapping] = useState<Record<string, string | null>>({});
+  const [memberEmails, setMemberEmails] = useState<Record<string, string>>({});
+
+  const projectsQuery = useQuery({
+    queryKey: ["import-projects"],
+    queryFn: () =>
+      apiRequest<ProjectsResponse>("/projects?page=1&pageSize=100&sortBy=name&sortOrder=asc", {
+        accessToken: accessToken ?? undefined
+      }),
+    enabled: Boolean(accessToken)
+  });
+
+  const importQuery = useQuery({
+    queryKey: ["board-import", activeImportId],
+    queryFn: () =>
+      apiRequest<BoardImportDetailResponse>(`/board-imports/${activeImportId}`, {
+        accessToken: accessToken ?? undefined
+      }),
+    enabled: Boolean(accessToken && activeImportId)
+  });
+
+  const uploadMutation = useMutation({
+    mutationFn: (payload: { source: BoardSource; projectId: string; file: File }) =>
+      apiRequest<BoardImportDetailResponse>(
+        `/board-imports?source=${payload.source}&projectId=${payload.projectId}` +
+          `&fileName=${encodeURIComponent(payload.file.name)}`,
+        {
+          method: "POST",
+          accessToken: accessToken ?? undefined,
+          body: payload.file
+        }
+      ),
+    onSuccess: (result) => {
+      setFile(null);
+      setActiveImportId(result.data.import.id);
+      setPhaseMapping(Object.fromEntries(result.data.lists.map((list) => [list.id, list.phase])));
+      setMemberEmails({});
+      queryClient.setQueryData(["board-import", result.data.import.id], result);
+    },
+    onError: (error) => {
+      ui.error(error instanceof ApiError ? error.message : "Could not read the export.");
+    }
+  });
+
+  const commitMutation = useMutation({
+    mutationFn: () =>
+      apiRequest(`/board-imports/${activeImportId}/commit`, {
+        method: "POST",
+        accessToken: accessToken ?? undefined,
+        body: {
+          phaseMapping,
+          memberEmails: Object.fromEntries(Object.entries(memberEmails).filter(([, email]) => email.trim()))
+        }
+      }),
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({ queryKey: ["board-import", activeImportId] });
+      ui.success("Board imported.");
+    },
+    onError: (error) => {
+      ui.error(error instanceof ApiError ? error.message : "Could not import the board.");
+    }
+  });
+
+  const onUpload = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!file || !projectId) return;
+    uploadMutation.mutate({ source, projectId, file });
+  };
+
+  const detail = importQuery.data?.data;
+  const report = detail?.import.report;
+  const reportItems = report
+    ? [
+        ...report.lists.map((item) => ({ what: `List "${item.name ?? ""}"`, reason: item.reason })),
+        ...report.members.map((item) => ({ what: `Member ${item.name}`, reason: item.reason })),
+        ...report.cards.map((item) => ({ what: `Card "${item.title}"`, reason: item.reason })),
+        ...report.comments.map((item) => ({ what: `Comment by ${item.author ?? "unknown"}`, reason: item.reason })),
+        ...report.attachments.map((item) => ({ what: `Attachment ${item.name}`, reason: item.reason }))
+      ]
+    : [];
+
+  return (
+    <div className="card table-wrap">
+      <form className="task-create-form" onSubmit={onUpload}>
+        <h3>Trello or Asana board</h3>
+        <div className="task-form-grid">
+          <select value={source} onChange={(event) => setSource(event.target.value as BoardSource)}>
+            <option value="trello">Trello board export</option>
+            <option value="asana">Asana project export</option>
+          </select>
+          <select value={projectId} onChange={(event) => setProjectId(event.target.value)}>
+            <option value="">Import into project...</option>
+            {(projectsQuery.data?.data ?? []).map((project) => (
+              <option key={project.id} value={project.id}>
+                {project.name}
+              </option>
+            ))}
+          </select>
+          <input type="file" accept=".json" onChange={(event) => setFile(event.target.files?.[0] ?? null)} />
+          <button
+            className="primary-button"
+            type="submit"
+            disabled={!file || !projectId || uploadMutation.isPending}
+          >
+            {uploadMutation.isPending ? "Reading..." : "Preview"}
+          </button>
+        </div>
+      </form>
+
+      {detail ? (
+        <>
+          <p className="muted">
+            {detail.import.board_name} into {detail.import.project_name ?? "a deleted project"} ·{" "}
+            {detail.import.card_count} cards · {formatLabel(detail.import.status)}
+          </p>
+
+          {detail.import.status === "uploaded" ? (
+            <>
+              <table>
+                <thead>
+                  <tr>
+                    <th>{detail.import.source === "trello" ? "List" : "Section"}</th>
+                    <th>Cards</th>
+                    <th>Phase</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {detail.lists.map((list) => (
+                    <tr key={list.id}>
+                      <td>{list.name}</td>
+                      <td>{list.cardCount}</td>
+                      <td>
+                        <select
+                          value={phaseMapping[list.id] ?? ""}
+                          onChange={(event) =>
+                            setPhaseMapping({ ...phaseMapping, [list.id]: event.target.value || null })
+                          }
+                        >
+                          <option value="">Skip</option>
+                          {PROJECT_PHASES.map((phase) => (
+                            <option key={phase} value={phase}>
+                              {formatLabel(phase)}
+                            </option>
+                          ))}
+                        </select>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+
+              <table>
+                <thead>
+                  <tr>
+                    <th>Member</th>
+                    <th>Email</th>
+                    <th>Matched</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {detail.members.map((member) => (
+                    <tr key={member.id}>
+                      <td>{member.name}</td>
+                      <td>
+                        <input
+                          type="email"
+                          placeholder={member.email ?? "Email of the team member"}
+                          value={memberEmails[member.id] ?? ""}
+                          onChange={(event) => setMemberEmails({ ...memberEmails, [member.id]: event.target.value })}
+                        />
+                      </td>
+                      <td>{member.userId ? "Yes" : "No"}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+
+              <div className="inline-actions">
+                <button
+                  type="button"
+                  className="primary-button"
+                  disabled={commitMutation.isPending}
+                  onClick={() => commitMutation.mutate()}
+                >
+                  Import board
+                </button>
+              </div>
+            </>
+          ) : null}
+
+          {report ? (
+            <>
+              <p>
+                Created {report.created.tasks} tasks, {report.created.comments} comments and {report.created.files}{" "}
+                linked files.
+              </p>
+              {reportItems.length === 0 ? (
+                <p className="muted">Everything in the export was mapped.</p>
+              ) : (
+                <table>
+                  <thead>
+                    <tr>
+                      <th>Not mapped</th>
+                      <th>Why</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {reportItems.map((item, index) => (
+                      <tr key={index}>
+                        <td>{item.what}</td>
+                        <td>{item.reason}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </>
+          ) : null}
+        </>
+      ) : null}
+    </div>
+  );
+}
@@ -1,22 +1,73 @@
 import { FormEvent, useEffect, useState } from "react";
-import { Link } from "react-router-dom";
+import { Link, useLocation } from "react-router-dom";
 import { useNavigate } from "react-router-dom";
-import { ApiError } from "../lib/api";
+import { apiRequest, ApiError } from "../lib/api";
+import { homePathFor } from "../lib/principal";
 import { useAuth } from "../state/auth";
+import type { AuthTokens, MfaChallenge, User } from "../types";
+import { OIDC_LOGIN_SECRET_KEY } from "./OidcCallbackPage";
+
+type MfaLoginResponse = AuthTokens & {
+  recoveryCodes?: string[];
+};
+
+type OidcStatusResponse = {
+  data: {
+    enabled: boolean;
+    name: string | null;
+  };
+};
+
+type MfaEnrollmentResponse = {
+  data: {
+    secret: string;
+    otpauthUri: string;
+  };
+};
 
 export function LoginPage() {
   const navigate = useNavigate();
-  const { login, isAuthenticated } = useAuth();
+  const location = useLocation();
+  const { login, completeLogin, isAuthenticated, user } = useAuth();
   const [email, setEmail] = useState("admin@adfix.local");
   const [password, setPassword] = useState("ChangeMe123!");
   const [error, setError] = useState<string | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  // Signup hands over its challenge when the workspace requires MFA.
+  const [challenge, setChallenge] = useState<MfaChallenge | null>(
+    () => (location.state as { challenge?: MfaChallenge } | null)?.challenge ?? null
+  );
+  const [enrollment, setEnrollment] = useState<MfaEnrollmentResponse["data"] | null>(null);
+  const [code, setCode] = useState("");
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [pendingSession, setPendingSession] = useState<MfaLoginResponse | null>(null);
+  const [ssoName, setSsoName] = useState<string | null>(null);
 
   useEffect(() => {
     if (isAuthenticated) {
-      navigate("/dashboard");
+      navigate(homePathFor(user));
     }
-  }, [isAuthenticated, navigate]);
+  }, [isAuthenticated, navigate, user]);
+
+  useEffect(() => {
+    apiRequest<OidcStatusResponse>("/auth/oidc")
+      .then((result) => setSsoName(result.data.enabled ? (result.data.name ?? "Single sign-on") : null))
+      .catch(() => setSsoName(null));
+  }, []);
+
+  const describeError = (err: unknown, fallback: string) => (err instanceof ApiError ? err.message : fallback);
+
+  const restart = (message: string | null) => {
+    setChallenge(null);
+    setEnrollment(null);
+    setCode("");
+    setUseRecoveryCode(false);
+    setError(message);
+  };
+
+  const finish = (signedInUser: User) => {
+    navigate(homePathFor(signedInUser));
+  };
 
   const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
     event.preventDefault();
@@ -24,19 +75,175 @@ export function LoginPage() {
     setIsSubmitting(true);
 
     try {
-      await login(email, password);
-      navigate("/dashboard");
+      const result = await login(email, password);
+      if ("challengeToken" in result) {
+        setChallenge(result);
+      } else {
+        finish(result);
+      }
+    } catch (err) {
+      setError(describeError(err, "Login failed"));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // Leaves the app for the identity provider, which sends the browser back to /auth/oidc/callback.
+  const startSso = async () => {
+    setError(null);
+    setIsSubmitting(true);
+    try {
+      const result = await apiRequest<{ data: { authorizationUrl: string; loginSecret: string } }>(
+        "/auth/oidc/start",
+        { method: "POST" }
+      );
+      // Only this tab can finish the login: the callback page sends the secret back with the code.
+      sessionStorage.setItem(OIDC_LOGIN_SECRET_KEY, result.data.loginSecret);
+      window.location.assign(result.data.authorizationUrl);
     } catch (err) {
-      if (err instanceof ApiError) {
-        setError(err.message);
+      setError(describeError(err, "Could not start single sign-on"));
+      setIsSubmitting(false);
+    }
+  };
+
+  const startEnrollment = async () => {
+    if (!challenge) return;
+    setError(null);
+    setIsSubmitting(true);
+    try {
+      const result = await apiRequest<MfaEnrollmentResponse>("/auth/login/mfa/enroll", {
+        method: "POST",
+        body: { challengeToken: challenge.challengeToken }
+      });
+      setEnrollment(result.data);
+    } catch (err) {
+      restart(describeError(err, "Your sign-in expired. Please sign in again."));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleCodeSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!challenge) return;
+    setError(null);
+    setIsSubmitting(true);
+
+    try {
+      const result = await apiRequest<MfaLoginResponse>("/auth/login/mfa", {
+        method: "POST",
+        body: {
+          challengeToken: challenge.challengeToken,
+          ...(useRecoveryCode ? { recoveryCode: code.trim() } : { code: code.trim() })
+        }
+      });
+      // Recovery codes from a first enrollment are shown before the session starts, since leaving
+      // this page loses them for good.
+      if (result.recoveryCodes?.length) {
+        setPendingSession(result);
+      } else {
+        finish(completeLogin(result));
+      }
+    } catch (err) {
+      if (err instanceof ApiError && err.code === "INVALID_MFA_CODE") {
+        setError("That code did not work. Try the current code from your authenticator app.");
       } else {
-        setError("Login failed");
+        restart(describeError(err, "Your sign-in expired. Please sign in again."));
       }
     } finally {
       setIsSubmitting(false);
     }
   };
 
+  if (pendingSession) {
+    return (
+      <div className="login-wrap">
+        <div className="card login-card">
+          <h1>Save your recovery codes</h1>
+          <p className="muted">
+            Each code signs you in once if you lose your authenticator. They will not be shown again.
+          </p>
+          <ul className="recovery-codes">
+            {pendingSession.recoveryCodes?.map((recoveryCode) => <li key={recoveryCode}>{recoveryCode}</li>)}
+          </ul>
+          <button className="primary-button" type="button" onClick={() => finish(completeLogin(pendingSession))}>
+            I have saved them
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  if (challenge) {
+    const enrolling = challenge.status === "mfa_enrollment_required";
+    return (
+      <div className="login-wrap">
+        <form className="card login-card" onSubmit={handleCodeSubmit}>
+          <h1>{enrolling ? "Set up two-factor sign-in" : "Two-factor sign-in"}</h1>
+          {enrolling && !enrollment ? (
+            <>
+              <p className="muted">
+                This workspace requires an authenticator app such as Google Authenticator, 1Password or Authy.
+              </p>
+              {error ? <p className="error-text">{error}</p> : null}
+              <button className="primary-button" type="button" disabled={isSubmitting} onClick={startEnrollment}>
+                {isSubmitting ? "Preparing..." : "Set up authenticator"}
+              </button>
+            </>
+          ) : (
+            <>
+              {enrollment ? (
+                <>
+                  <p className="muted">
+                    Add this key to your authenticator app, or <a href={enrollment.otpauthUri}>open it on this device</a>,
+                    then enter the 6-digit code it shows.
+                  </p>
+                  <code className="mfa-secret">{enrollment.secret}</code>
+                </>
+              ) : (
+                <p className="muted">
+                  {useRecoveryCode
+                    ? "Enter one of your recovery codes."
+                    : "Enter the 6-digit code from your authenticator app."}
+                </p>
+              )}
+              <label className="field">
+                <span>{useRecoveryCode ? "Recovery code" : "Authentication code"}</span>
+                <input
+                  value={code}
+                  onChange={(event) => setCode(event.target.value)}
+                  autoComplete="one-time-code"
+                  inputMode={useRecoveryCode ? "text" : "numeric"}
+                  autoFocus
+                  required
+                />
+              </label>
+              {error ? <p className="error-text">{error}</p> : null}
+              <button className="primary-button" type="submit" disabled={isSubmitting}>
+                {isSubmitting ? "Verifying..." : "Verify"}
+              </button>
+              {!enrolling ? (
+                <button
+                  className="ghost-button"
+                  type="button"
+                  onClick={() => {
+                    setUseRecoveryCode((value) => !value);
+                    setCode("");
+                  }}
+                >
+                  {useRecoveryCode ? "Use authenticator code" : "Use a recovery code"}
+                </button>
+              ) : null}
+            </>
+          )}
+          <button className="ghost-button" type="button" onClick={() => restart(null)}>
+            Back to sign in
+          </button>
+        </form>
+      </div>
+    );
+  }
+
   return (
     <div className="login-wrap">
       <form className="card login-card" onSubmit={handleSubmit}>
@@ -59,6 +266,14 @@ export function LoginPage() {
         <button className="primary-button" type="submit" disabled={isSubmitting}>
           {isSubmitting ? "Signing in..." : "Sign in"}
         </button>
+        {ssoName ? (
+          <button className="ghost-button" type="button" disabled={isSubmitting} onClick={() => void startSso()}>
+            Sign in with {ssoName}
+          </button>
+        ) : null}
+        <p className="muted">
+          <Link to="/forgot-password">Forgot password?</Link>
+        </p>
         <p className="muted">
           Need an account? <Link to="/signup">Sign up</Link>
         </p>
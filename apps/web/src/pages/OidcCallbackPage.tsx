@@ -0,0 +1,63 @@
+import { useEffect, useRef, useState } from "react";
+import { Link, useNavigate, useSearchParams } from "react-router-dom";
+import { apiRequest, ApiError } from "../lib/api";
+import { homePathFor } from "../lib/principal";
+import { useAuth } from "../state/auth";
+import type { AuthTokens, MfaChallenge } from "../types";
+
+// Set by the login page when it starts single sign-on, in session storage so only that tab has it.
+export const OIDC_LOGIN_SECRET_KEY = "adfix.oidc.loginSecret";
+
+export function OidcCallbackPage() {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const { completeLogin } = useAuth();
+  const code = searchParams.get("code") ?? "";
+  const state = searchParams.get("state") ?? "";
+  const providerError = searchParams.get("error_description") ?? searchParams.get("error");
+  const [loginSecret] = useState(() => sessionStorage.getItem(OIDC_LOGIN_SECRET_KEY) ?? "");
+  const [error, setError] = useState<string | null>(
+    providerError
+      ? `The identity provider refused the sign-in: ${providerError}`
+      : !code || !state
+        ? "This sign-in link is incomplete."
+        : loginSecret
+          ? null
+          : "This sign-in was not started in this browser tab."
+  );
+  // The code and state are single-use, so a second request (e.g. from StrictMode) would fail.
+  const requested = useRef(false);
+
+  useEffect(() => {
+    if (error || requested.current) return;
+    requested.current = true;
+    sessionStorage.removeItem(OIDC_LOGIN_SECRET_KEY);
+    apiRequest<AuthTokens | MfaChallenge>("/auth/oidc/callback", {
+      method: "POST",
+      body: { code, state, loginSecret }
+    })
+      .then((result) => {
+        // MFA still applies: the login page takes over with the challenge.
+        if ("challengeToken" in result) {
+          navigate("/login", { replace: true, state: { challenge: result } });
+          return;
+        }
+        navigate(homePathFor(completeLogin(result)), { replace: true });
+      })
+      .catch((err: unknown) => setError(err instanceof ApiError ? err.message : "Single sign-on failed."));
+  }, [code, state, loginSecret, error, completeLogin, navigate]);
+
+  return (
+    <div className="login-wrap">
+      <div className="card login-card">
+        <h1>Single sign-on</h1>
+        {error ? <p className="error-text">{error}</p> : <p className="muted">Signing you in...</p>}
+        {error ? (
+          <p className="muted">
+            <Link to="/login">Back to sign in</Link>
+          </p>
+        ) : null}
+      </div>
+    </div>
+  );
+}
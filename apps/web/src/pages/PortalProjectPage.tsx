@@ -0,0 +1,264 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { ErrorState, LoadingState } from "../components/States";
+import { apiRequest, ApiError } from "../lib/api";
+import { useAuth } from "../state/auth";
+import { useUI } from "../state/ui";
+
+type ApprovalStatus = "pending" | "approved" | "rejected" | "changes_requested" | "superseded";
+
+type PortalProjectResponse = {
+  data: {
+    id: string;
+    name: string;
+    current_phase: string;
+    start_date: string;
+    deadline: string;
+    milestones: Array<{
+      phase: string;
+      entered_at: string;
+      exited_at: string | null;
+    }>;
+    deliverables: Array<{
+      id: string;
+      file_name: string;
+      version: number;
+      created_at: string;
+      approval_status: ApprovalStatus | null;
+    }>;
+    approvals: Array<{
+      id: string;
+      file_id: string;
+      file_name: string;
+      file_version: number;
+      reviewer_id: string | null;
+      reviewer_name: string | null;
+      requested_by_name: string | null;
+      request_note: string | null;
+      status: ApprovalStatus;
+      decision_note: string | null;
+      decided_at: string | null;
+      created_at: string;
+    }>;
+  };
+};
+
+type DownloadUrlResponse = {
+  data: {
+    downloadUrl: string;
+  };
+};
+
+const formatLabel = (value: string) =>
+  value
+    .split("_")
+    .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+    .join(" ");
+
+export function PortalProjectPage() {
+  const { projectId } = useParams();
+  const { accessToken, user } = useAuth();
+  const ui = useUI();
+  const queryClient = useQueryClient();
+  const [decisionNote, setDecisionNote] = useState("");
+
+  const projectQuery = useQuery({
+    queryKey: ["portal-project", projectId],
+    queryFn: () =>
+      apiRequest<PortalProjectResponse>(`/portal/projects/${projectId}`, {
+        accessToken: accessToken ?? undefined
+      }),
+    enabled: Boolean(projectId && accessToken)
+  });
+
+  const downloadMutation = useMutation({
+    mutationFn: (fileId: string) =>
+      apiRequest<DownloadUrlResponse>(`/portal/files/${fileId}/download-url`, {
+        accessToken: accessToken ?? undefined
+      }),
+    onSuccess: (result) => {
+      window.open(result.data.downloadUrl, "_blank", "noopener");
+    },
+    onError: (error) => {
+      ui.error(error instanceof ApiError ? error.message : "Could not open file.");
+    }
+  });
+
+  const decideMutation = useMutation({
+    mutationFn: (payload: { approvalId: string; decision: "approved" | "rejected" | "changes_requested" }) =>
+      apiRequest(`/portal/approvals/${payload.approvalId}/decision`, {
+        method: "POST",
+        accessToken: accessToken ?? undefined,
+        body: { decision: payload.decision, note: decisionNote.trim() || null }
+      }),
+    onSuccess: async () => {
+      setDecisionNote("");
+      await queryClient.invalidateQueries({ queryKey: ["portal-project", projectId] });
+      await queryClient.invalidateQueries({ queryKey: ["portal-approvals"] });
+      ui.success("Decision recorded.");
+    },
+    onError: (error) => {
+      ui.error(error instanceof ApiError ? error.message : "Could not record decision.");
+    }
+  });
+
+  if (projectQuery.isLoading) {
+    return <LoadingState message="Loading project..." />;
+  }
+
+  if (projectQuery.isError || !projectQuery.data) {
+    return <ErrorState message="Could not load this project." onRetry={() => void projectQuery.refetch()} />;
+  }
+
+  const project = projectQuery.data.data;
+
+  return (
+    <section>
+      <div className="section-head">
+        <div>
+          <h2>{project.name}</h2>
+          <p className="muted">Current phase: {formatLabel(project.current_phase)}</p>
+        </div>
+        <Link to="/portal" className="ghost-button">
+          All projects
+        </Link>
+      </div>
+
+      <div className="card detail-grid">
+        <div>
+          <p className="eyebrow">Start</p>
+          <p>{new Date(project.start_date).toLocaleDateString()}</p>
+        </div>
+        <div>
+          <p className="eyebrow">Deadline</p>
+          <p>{new Date(project.deadline).toLocaleDateString()}</p>
+        </div>
+      </div>
+
+      <div className="card">
+        <h3>Milestones</h3>
+        <div className="phase-list">
+          {project.milestones.map((milestone) => (
+            <div key={`${milestone.phase}-${milestone.entered_at}`} className="section-head">
+              <p className="notice-title">{formatLabel(milestone.phase)}</p>
+              <p className="muted">
+                {new Date(milestone.entered_at).toLocaleDateString()}
+                {milestone.exited_at ? ` – ${new Date(milestone.exited_at).toLocaleDateString()}` : " – now"}
+              </p>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="card table-wrap">
+        <h3>Deliverables</h3>
+        {project.deliverables.length === 0 ? (
+          <p className="muted">Nothing has been delivered yet.</p>
+        ) : (
+          <table>
+            <thead>
+              <tr>
+                <th>File</th>
+                <th>Version</th>
+                <th>Approval</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {project.deliverables.map((file) => (
+                <tr key={file.id}>
+                  <td>{file.file_name}</td>
+                  <td>v{file.version}</td>
+                  <td>{file.approval_status ? formatLabel(file.approval_status) : "-"}</td>
+                  <td>
+                    <button
+                      type="button"
+                      className="ghost-button"
+                      disabled={downloadMutation.isPending}
+                      onClick={() => downloadMutation.mutate(file.id)}
+                    >
+                      Open
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <div className="card approval-panel">
+        <h3>Approval requests</h3>
+        {project.approvals.length === 0 ? (
+          <p className="muted">No approval requests yet.</p>
+        ) : (
+          <ul className="approval-list">
+            {project.approvals.map((approval) => (
+              <li key={approval.id}>
+                <strong>
+                  {approval.file_name} v{approval.file_version}
+                </strong>{" "}
+                · {formatLabel(approval.status)}
+                <span className="muted">
+                  {" "}
+                  · {approval.reviewer_name ?? "Unknown reviewer"} ·{" "}
+                  {new Date(approval.decided_at ?? approval.created_at).toLocaleString()}
+                </span>
+                {approval.request_note ? (
+                  <p className="muted">
+                    {approval.requested_by_name ?? "Team"}: {approval.request_note}
+                  </p>
+                ) : null}
+                {approval.decision_note ? <p>{approval.decision_note}</p> : null}
+                {approval.status === "pending" && approval.reviewer_id === user?.id ? (
+                  <div className="inline-actions">
+                    <button
+                      type="button"
+                      className="ghost-button"
+                      disabled={downloadMutation.isPending}
+                      onClick={() => downloadMutation.mutate(approval.file_id)}
+                    >
+                      Open
+                    </button>
+                    <button
+                      type="button"
+                      className="ghost-button"
+                      disabled={decideMutation.isPending}
+                      onClick={() => decideMutation.mutate({ approvalId: approval.id, decision: "approved" })}
+                    >
+                      Approve
+                    </button>
+                    <button
+                      type="button"
+                      className="ghost-button"
+                      disabled={decideMutation.isPending || !decisionNote.trim()}
+                      onClick={() => decideMutation.mutate({ approvalId: approval.id, decision: "changes_requested" })}
+                    >
+                      Request changes
+                    </button>
+                    <button
+                      type="button"
+                      className="ghost-button"
+                      disabled={decideMutation.isPending || !decisionNote.trim()}
+                      onClick={() => decideMutation.mutate({ approvalId: approval.id, decision: "rejected" })}
+                    >
+                      Reject
+                    </button>
+                  </div>
+                ) : null}
+              </li>
+            ))}
+          </ul>
+        )}
+        {project.approvals.some((approval) => approval.status === "pending" && approval.reviewer_id === user?.id) ? (
+          <input
+            placeholder="Note (required to reject or request changes)"
+            value={decisionNote}
+            onChange={(event) => setDecisionNote(event.target.value)}
+          />
+        ) : null}
+      </div>
+    </section>
+  );
+}
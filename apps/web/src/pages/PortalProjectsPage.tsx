@@ -0,0 +1,99 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "react-router-dom";
+import { EmptyState, ErrorState, LoadingState } from "../components/States";
+import { apiRequest } from "../lib/api";
+import { useAuth } from "../state/auth";
+
+type PortalProjectsResponse = {
+  data: Array<{
+    id: string;
+    name: string;
+    current_phase: string;
+    start_date: string;
+    deadline: string;
+  }>;
+};
+
+type PortalApprovalsResponse = {
+  data: Array<{ id: string; project_id: string }>;
+};
+
+const formatPhaseLabel = (phase: string) =>
+  phase
+    .split("_")
+    .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+    .join(" ");
+
+export function PortalProjectsPage() {
+  const { accessToken } = useAuth();
+
+  const projectsQuery = useQuery({
+    queryKey: ["portal-projects"],
+    queryFn: () =>
+      apiRequest<PortalProjectsResponse>("/portal/projects", {
+        accessToken: accessToken ?? undefined
+      }),
+    enabled: Boolean(accessToken)
+  });
+
+  const pendingQuery = useQuery({
+    queryKey: ["portal-approvals", "pending"],
+    queryFn: () =>
+      apiRequest<PortalApprovalsResponse>("/portal/approvals?status=pending", {
+        accessToken: accessToken ?? undefined
+      }),
+    enabled: Boolean(accessToken)
+  });
+
+  if (projectsQuery.isLoading) {
+    return <LoadingState message="Loading projects..." />;
+  }
+
+  if (projectsQuery.isError || !projectsQuery.data) {
+    return <ErrorState message="Could not load your projects." onRetry={() => void projectsQuery.refetch()} />;
+  }
+
+  const projects = projectsQuery.data.data;
+  const pending = pendingQuery.data?.data ?? [];
+
+  return (
+    <section>
+      <div className="section-head">
+        <h2>Your projects</h2>
+        <p className="muted">{pending.length} awaiting your approval</p>
+      </div>
+      {projects.length === 0 ? (
+        <EmptyState message="No projects have been shared with you yet." />
+      ) : (
+        <div className="card table-wrap">
+          <table>
+            <thead>
+              <tr>
+                <th>Project</th>
+                <th>Phase</th>
+                <th>Start</th>
+                <th>Deadline</th>
+                <th>Approvals</th>
+              </tr>
+            </thead>
+            <tbody>
+              {projects.map((project) => (
+                <tr key={project.id}>
+                  <td>
+                    <Link to={`/portal/projects/${project.id}`} className="inline-link">
+                      {project.name}
+                    </Link>
+                  </td>
+                  <td>{formatPhaseLabel(project.current_phase)}</td>
+                  <td>{new Date(project.start_date).toLocaleDateString()}</td>
+                  <td>{new Date(project.deadline).toLocaleDateString()}</td>
+                  <td>{pending.filter((approval) => approval.project_id === project.id).length || "-"}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -10,6 +10,7 @@ type ProjectDetailResponse = {
     id: string;
     name: string;
     description: string | null;
+    client_id: string;
     client_name: string;
     current_phase: string;
     priority: string;
@@ -26,6 +27,24 @@ type ProjectDetailResponse = {
   };
 };
 
+type StakeholdersResponse = {
+  data: Array<{
+    contact_id: string;
+    name: string;
+    title: string | null;
+    email: string | null;
+    role: string | null;
+  }>;
+};
+
+type ClientContactsResponse = {
+  data: Array<{ id: string; name: string; title: string | null }>;
+};
+
+type ClientUsersResponse = {
+  data: Array<{ id: string; name: string; is_active: boolean }>;
+};
+
 type TasksListResponse = {
   data: Task[];
   meta: {
@@ -69,9 +88,59 @@ type ProjectFile = {
   storage_type: string;
   external_url: string | null;
   file_size: string;
+  version: number;
+  version_count?: number;
+  restored_from_version: number | null;
+  folder_id: string | null;
+  status: "pending_scan" | "available" | "rejected";
+  preview_status: "ready" | "unsupported" | "failed" | null;
   created_at: string;
 };
 
+type FileFolderNode = {
+  id: string;
+  name: string;
+  parent_id: string | null;
+  children: FileFolderNode[];
+  files: ProjectFile[];
+};
+
+type FileTreeResponse = {
+  data: {
+    folders: FileFolderNode[];
+    files: ProjectFile[];
+  };
+  meta: {
+    total: number;
+  };
+};
+
+type FileVersionsResponse = {
+  data: Array<ProjectFile & { uploaded_by_name: string | null }>;
+  meta: {
+    latestVersion: number;
+    total: number;
+  };
+};
+
+type FileApproval = {
+  id: string;
+  file_id: string;
+  file_version: number;
+  reviewer_id: string | null;
+  reviewer_name: string | null;
+  requested_by_name: string | null;
+  request_note: string | null;
+  status: "pending" | "approved" | "rejected" | "changes_requested" | "superseded";
+  decision_note: string | null;
+  decided_at: string | null;
+  created_at: string;
+};
+
+type FileApprovalsResponse = {
+  data: FileApproval[];
+};
+
 type ActivityListResponse = {
   data: Array<{
     id: string;
@@ -82,6 +151,30 @@ type ActivityListResponse = {
   }>;
 };
 
+type FilePreviewResponse = {
+  data: {
+    fileId: string;
+    width: number;
+    height: number;
+    previewUrl: string;
+    expiresAt: string;
+  };
+};
+
+type ExportBundle = {
+  id: string;
+  status: "queued" | "running" | "ready" | "failed";
+  file_type: string | null;
+  folder_id: string | null;
+  file_count: number | null;
+  external_link_count: number | null;
+  created_at: string;
+};
+
+type ExportBundlesResponse = {
+  data: ExportBundle[];
+};
+
 type DownloadUrlResponse = {
   data: {
     downloadUrl: string;
@@ -98,6 +191,31 @@ type ProjectTeamResponse = {
   }>;
 };
 
+type ProjectScheduleResponse = {
+  data: {
+    asOfDate: string;
+    deadline: string;
+    projectedFinishDate: string;
+    slipDays: number;
+    onTrack: boolean;
+    criticalPath: string[];
+    slipDrivers: string[];
+    tasks: Array<{
+      taskId: string;
+      title: string;
+      phase: string;
+      status: Task["status"];
+      durationDays: number;
+      durationSource: "estimate" | "due_date" | "default" | "completed";
+      earliestStart: string | null;
+      earliestFinish: string | null;
+      slackDays: number | null;
+      isCritical: boolean;
+      drivesSlip: boolean;
+    }>;
+  };
+};
+
 type UsersResponse = {
   data: Array<{
     id: string;
@@ -121,6 +239,8 @@ function getStatusActions(status: Task["status"]) {
   return [];
 }
 
+const APPROVABLE_FILE_TYPES = ["deliverable", "proposal"];
+
 function formatLabel(value: string) {
   return value
     .split("_")
@@ -128,6 +248,67 @@ function formatLabel(value: string) {
     .join(" ");
 }
 
+function flattenFolders(nodes: FileFolderNode[], prefix = ""): Array<{ id: string; label: string; fileCount: number }> {
+  return nodes.flatMap((node) => {
+    const label = prefix ? `${prefix} / ${node.name}` : node.name;
+    return [{ id: node.id, label, fileCount: node.files.length }, ...flattenFolders(node.children, label)];
+  });
+}
+
+function FileThumbnail(props: { file: ProjectFile; accessToken: string | null }) {
+  const hasPreview = props.file.status === "available" && props.file.preview_status === "ready";
+  const previewQuery = useQuery({
+    queryKey: ["file-preview", props.file.id, "small"],
+    queryFn: () =>
+      apiRequest<FilePreviewResponse>(`/files/${props.file.id}/preview?size=small`, {
+        accessToken: props.accessToken ?? undefined
+      }),
+    enabled: Boolean(hasPreview && props.accessToken),
+    // Signed preview URLs expire, so refetch well before the default 15 minute TTL runs out.
+    staleTime: 5 * 60 * 1000
+  });
+
+  if (!hasPreview || !previewQuery.data) {
+    return <span className="file-thumbnail file-thumbnail-empty" aria-hidden="true" />;
+  }
+
+  return (
+    <img
+      className="file-thumbnail"
+      src={previewQuery.data.data.previewUrl}
+      width={previewQuery.data.data.width}
+      height={previewQuery.data.data.height}
+      alt={`Preview of ${props.file.file_name}`}
+      loading="lazy"
+    />
+  );
+}
+
+function FolderTreeList(props: {
+  nodes: FileFolderNode[];
+  selectedFolder: string;
+  onSelect: (folderId: string) => void;
+}) {
+  if (!props.nodes.length) return null;
+
+  return (
+    <ul className="folder-tree">
+      {props.nodes.map((node) => (
+        <li key={node.id}>
+          <button
+            type="button"
+            className={props.selectedFolder === node.id ? "folder-button active" : "folder-button"}
+            onClick={() => props.onSelect(node.id)}
+          >
+            {node.name} <span className="muted">({node.files.length})</span>
+          </button>
+          <FolderTreeList nodes={node.children} selectedFolder={props.selectedFolder} onSelect={props.onSelect} />
+        </li>
+      ))}
+    </ul>
+  );
+}
+
 function getTaskBadgeClass(kind: "status" | "priority", value: string) {
   const normalized = value.replaceAll("_", "-");
   return `badge badge-${kind} badge-${kind}-${normalized}`;
@@ -135,7 +316,7 @@ function getTaskBadgeClass(kind: "status" | "priority", value: string) {
 
 export function ProjectDetailPage() {
   const { projectId } = useParams();
-  const { accessToken } = useAuth();
+  const { accessToken, user } = useAuth();
   const ui = useUI();
   const queryClient = useQueryClient();
   const [activeTab, setActiveTab] = useState<"overview" | "tasks" | "files" | "activity" | "team">("overview");
@@ -144,6 +325,10 @@ export function ProjectDetailPage() {
   const [formError, setFormError] = useState<string | null>(null);
   const [phaseReason, setPhaseReason] = useState("");
   const [phaseError, setPhaseError] = useState<string | null>(null);
+  const [overridePhase, setOverridePhase] = useState("");
+  const [overrideReason, setOverrideReason] = useState("");
+  const [overrideTaskAction, setOverrideTaskAction] = useState<"reopen" | "archive">("reopen");
+  const [overrideError, setOverrideError] = useState<string | null>(null);
   const [taskDrafts, setTaskDrafts] = useState<
     Record<string, { assignedTo: string; dueDate: string; priority: string }>
   >({});
@@ -159,9 +344,18 @@ export function ProjectDetailPage() {
   const [fileLinkType, setFileLinkType] = useState("asset");
   const [fileLinkStorage, setFileLinkStorage] = useState("google_drive");
   const [fileFormError, setFileFormError] = useState<string | null>(null);
+  const [historyFileId, setHistoryFileId] = useState<string | null>(null);
+  const [approvalReviewerId, setApprovalReviewerId] = useState("");
+  const [approvalNote, setApprovalNote] = useState("");
+  const [overrideApprovals, setOverrideApprovals] = useState(false);
+  const [selectedFolder, setSelectedFolder] = useState("all");
+  const [folderName, setFolderName] = useState("");
+  const [folderFormError, setFolderFormError] = useState<string | null>(null);
   const [teamUserId, setTeamUserId] = useState("");
   const [teamRole, setTeamRole] = useState<"manager" | "member" | "viewer">("member");
   const [teamFormError, setTeamFormError] = useState<string | null>(null);
+  const [stakeholderContactId, setStakeholderContactId] = useState("");
+  const [stakeholderRole, setStakeholderRole] = useState("");
 
   const projectQuery = useQuery({
     queryKey: ["project-detail", projectId],
@@ -182,14 +376,50 @@ export function ProjectDetailPage() {
   });
 
   const filesQuery = useQuery({
-    queryKey: ["project-files", projectId],
+    queryKey: ["project-files", projectId, selectedFolder],
     queryFn: () =>
-      apiRequest<FilesListResponse>(`/files/project/${projectId}?page=1&pageSize=100&sortBy=createdAt&sortOrder=desc`, {
+      apiRequest<FilesListResponse>(
+        `/files/project/${projectId}?page=1&pageSize=100&sortBy=createdAt&sortOrder=desc${
+          selectedFolder === "all" ? "" : `&folderId=${selectedFolder}`
+        }`,
+        {
+          accessToken: accessToken ?? undefined
+        }
+      ),
+    enabled: Boolean(projectId && accessToken),
+    // Uploads are scanned in the background, so poll until none are still waiting for a verdict.
+    refetchInterval: (query) => (query.state.data?.data.some((file) => file.status === "pending_scan") ? 2000 : false)
+  });
+
+  const fileTreeQuery = useQuery({
+    queryKey: ["project-file-tree", projectId],
+    queryFn: () =>
+      apiRequest<FileTreeResponse>(`/files/project/${projectId}?view=tree&sortBy=fileName&sortOrder=asc`, {
         accessToken: accessToken ?? undefined
       }),
     enabled: Boolean(projectId && accessToken)
   });
 
+  const exportBundlesQuery = useQuery({
+    queryKey: ["project-export-bundles", projectId],
+    queryFn: () =>
+      apiRequest<ExportBundlesResponse>(`/files/project/${projectId}/export-bundles`, {
+        accessToken: accessToken ?? undefined
+      }),
+    enabled: Boolean(projectId && accessToken && activeTab === "files"),
+    // Bundles build in the background, so poll while any are still in progress.
+    refetchInterval: (query) =>
+      query.state.data?.data.some((bundle) => bundle.status === "queued" || bundle.status === "running")
+        ? 2000
+        : false
+  });
+
+  const folderOptions = useMemo(
+    () => flattenFolders(fileTreeQuery.data?.data.folders ?? []),
+    [fileTreeQuery.data?.data.folders]
+  );
+  const selectedFolderOption = folderOptions.find((folder) => folder.id === selectedFolder) ?? null;
+
   const activityQuery = useQuery({
     queryKey: ["project-activity", projectId],
     queryFn: () =>
@@ -208,6 +438,43 @@ export function ProjectDetailPage() {
     enabled: Boolean(projectId && accessToken)
   });
 
+  const clientId = projectQuery.data?.data.client_id;
+  const stakeholdersQuery = useQuery({
+    queryKey: ["project-stakeholders", projectId],
+    queryFn: () =>
+      apiRequest<StakeholdersResponse>(`/projects/${projectId}/stakeholders`, {
+        accessToken: accessToken ?? undefined
+      }),
+    enabled: Boolean(projectId && accessToken && activeTab === "team")
+  });
+
+  const clientContactsQuery = useQuery({
+    queryKey: ["client-contacts", clientId],
+    queryFn: () =>
+      apiRequest<ClientContactsResponse>(`/clients/${clientId}/contacts`, {
+        accessToken: accessToken ?? undefined
+      }),
+    enabled: Boolean(clientId && accessToken && activeTab === "team")
+  });
+
+  const clientUsersQuery = useQuery({
+    queryKey: ["client-users", clientId],
+    queryFn: () =>
+      apiRequest<ClientUsersResponse>(`/clients/${clientId}/users`, {
+        accessToken: accessToken ?? undefined
+      }),
+    enabled: Boolean(clientId && accessToken)
+  });
+
+  const scheduleQuery = useQuery({
+    queryKey: ["project-schedule", projectId],
+    queryFn: () =>
+      apiRequest<ProjectScheduleResponse>(`/projects/${projectId}/schedule`, {
+        accessToken: accessToken ?? undefined
+      }),
+    enabled: Boolean(projectId && accessToken)
+  });
+
   const usersQuery = useQuery({
     queryKey: ["users-for-team-picker"],
     queryFn: () =>
@@ -226,6 +493,27 @@ export function ProjectDetailPage() {
     enabled: Boolean(selectedTaskId && accessToken)
   });
 
+  const fileVersionsQuery = useQuery({
+    queryKey: ["file-versions", historyFileId],
+    queryFn: () =>
+      apiRequest<FileVersionsResponse>(`/files/${historyFileId}/versions`, {
+        accessToken: accessToken ?? undefined
+      }),
+    enabled: Boolean(historyFileId && accessToken)
+  });
+
+  // Approvals always target the newest version that passed scanning.
+  const historyFile = fileVersionsQuery.data?.data.find((version) => version.status !== "rejected") ?? null;
+
+  const fileApprovalsQuery = useQuery({
+    queryKey: ["file-approvals", historyFileId],
+    queryFn: () =>
+      apiRequest<FileApprovalsResponse>(`/files/${historyFileId}/approvals`, {
+        accessToken: accessToken ?? undefined
+      }),
+    enabled: Boolean(historyFileId && accessToken)
+  });
+
   const canWriteTask = useMemo(() => {
     const role = projectQuery.data?.data.current_user_role;
     return role === "owner" || role === "manager" || role === "member";
@@ -244,8 +532,10 @@ export function ProjectDetailPage() {
     await Promise.all([
       queryClient.invalidateQueries({ queryKey: ["project-tasks", projectId] }),
       queryClient.invalidateQueries({ queryKey: ["project-files", projectId] }),
+      queryClient.invalidateQueries({ queryKey: ["project-file-tree", projectId] }),
       queryClient.invalidateQueries({ queryKey: ["project-activity", projectId] }),
       queryClient.invalidateQueries({ queryKey: ["project-team", projectId] }),
+      queryClient.invalidateQueries({ queryKey: ["project-schedule", projectId] }),
       queryClient.invalidateQueries({ queryKey: ["project-detail", projectId] })
     ]);
   };
@@ -366,6 +656,112 @@ export function ProjectDetailPage() {
     }
   });
 
+  const restoreFileVersionMutation = useMutation({
+    mutationFn: (payload: { fileId: string; version: number }) =>
+      apiRequest(`/files/${payload.fileId}/restore/${payload.version}`, {
+        method: "POST",
+        accessToken: accessToken ?? undefined
+      }),
+    onSuccess: async () => {
+      await Promise.all([
+        refreshData(),
+        queryClient.invalidateQueries({ queryKey: ["file-versions", historyFileId] })
+      ]);
+      ui.success("File version restored.");
+    },
+    onError: () => {
+      ui.error("Could not restore file version.");
+    }
+  });
+
+  const requestApprovalMutation = useMutation({
+    mutationFn: (payload: { fileId: string; reviewerId: string; note: string }) =>
+      apiRequest(`/files/${payload.fileId}/approvals`, {
+        method: "POST",
+        accessToken: accessToken ?? undefined,
+        body: { reviewerId: payload.reviewerId, note: payload.note || null }
+      }),
+    onSuccess: async () => {
+      setApprovalNote("");
+      await queryClient.invalidateQueries({ queryKey: ["file-approvals", historyFileId] });
+      ui.success("Approval requested.");
+    },
+    onError: (error) => {
+      ui.error(error instanceof ApiError ? error.message : "Could not request approval.");
+    }
+  });
+
+  const decideApprovalMutation = useMutation({
+    mutationFn: (payload: { approvalId: string; decision: "approved" | "rejected" | "changes_requested" }) =>
+      apiRequest(`/files/approvals/${payload.approvalId}/decision`, {
+        method: "POST",
+        accessToken: accessToken ?? undefined,
+        body: { decision: payload.decision, note: approvalNote.trim() || null }
+      }),
+    onSuccess: async () => {
+      setApprovalNote("");
+      await queryClient.invalidateQueries({ queryKey: ["file-approvals", historyFileId] });
+      ui.success("Decision recorded.");
+    },
+    onError: (error) => {
+      ui.error(error instanceof ApiError ? error.message : "Could not record decision.");
+    }
+  });
+
+  const createFolderMutation = useMutation({
+    mutationFn: (name: string) =>
+      apiRequest("/files/folders", {
+        method: "POST",
+        accessToken: accessToken ?? undefined,
+        body: {
+          projectId,
+          name,
+          parentId: selectedFolderOption ? selectedFolderOption.id : null
+        }
+      }),
+    onSuccess: async () => {
+      setFolderName("");
+      setFolderFormError(null);
+      await refreshData();
+    },
+    onError: (error) => {
+      setFolderFormError(error instanceof ApiError ? error.message : "Could not create folder.");
+    }
+  });
+
+  const updateFolderMutation = useMutation({
+    mutationFn: (payload: { folderId: string; name?: string; parentId?: string | null }) =>
+      apiRequest(`/files/folders/${payload.folderId}`, {
+        method: "PATCH",
+        accessToken: accessToken ?? undefined,
+        body: { name: payload.name, parentId: payload.parentId }
+      }),
+    onSuccess: async () => {
+      setFolderName("");
+      setFolderFormError(null);
+      await refreshData();
+    },
+    onError: (error) => {
+      setFolderFormError(error instanceof ApiError ? error.message : "Could not update folder.");
+    }
+  });
+
+  const moveFileMutation = useMutation({
+    mutationFn: (payload: { fileId: string; folderId: string | null }) =>
+      apiRequest(`/files/${payload.fileId}`, {
+        method: "PATCH",
+        accessToken: accessToken ?? undefined,
+        body: { folderId: payload.folderId }
+      }),
+    onSuccess: async () => {
+      await refreshData();
+      ui.success("File moved.");
+    },
+    onError: () => {
+      ui.error("Could not move file.");
+    }
+  });
+
   const openFileMutation = useMutation({
     mutationFn: async (file: ProjectFile) => {
       if (file.external_url) {
@@ -380,6 +776,34 @@ export function ProjectDetailPage() {
     }
   });
 
+  const createExportMutation = useMutation({
+    mutationFn: (folderId: string | null) =>
+      apiRequest(`/files/project/${projectId}/export-bundles`, {
+        method: "POST",
+        accessToken: accessToken ?? undefined,
+        body: { folderId }
+      }),
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({ queryKey: ["project-export-bundles", projectId] });
+      ui.success("Export started. You will be notified when it is ready.");
+    },
+    onError: () => {
+      ui.error("Could not start export.");
+    }
+  });
+
+  const downloadExportMutation = useMutation({
+    mutationFn: async (bundleId: string) => {
+      const result = await apiRequest<DownloadUrlResponse>(`/files/export-bundles/${bundleId}/download-url`, {
+        accessToken: accessToken ?? undefined
+      });
+      window.open(result.data.downloadUrl, "_blank", "noopener,noreferrer");
+    },
+    onError: () => {
+      ui.error("Could not download export.");
+    }
+  });
+
   const addTeamMemberMutation = useMutation({
     mutationFn: (payload: { userId: string; role: "manager" | "member" | "viewer" }) =>
       apiRequest(`/projects/${projectId}/team`, {
@@ -419,6 +843,39 @@ export function ProjectDetailPage() {
     }
   });
 
+  const addStakeholderMutation = useMutation({
+    mutationFn: (payload: { contactId: string; role: string }) =>
+      apiRequest(`/projects/${projectId}/stakeholders`, {
+        method: "POST",
+        accessToken: accessToken ?? undefined,
+        body: { contactId: payload.contactId, role: payload.role || null }
+      }),
+    onSuccess: async () => {
+      setStakeholderContactId("");
+      setStakeholderRole("");
+      await queryClient.invalidateQueries({ queryKey: ["project-stakeholders", projectId] });
+      ui.success("Stakeholder added.");
+    },
+    onError: (error) => {
+      ui.error(error instanceof ApiError ? error.message : "Could not add stakeholder.");
+    }
+  });
+
+  const removeStakeholderMutation = useMutation({
+    mutationFn: (contactId: string) =>
+      apiRequest(`/projects/${projectId}/stakeholders/${contactId}`, {
+        method: "DELETE",
+        accessToken: accessToken ?? undefined
+      }),
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({ queryKey: ["project-stakeholders", projectId] });
+      ui.success("Stakeholder removed.");
+    },
+    onError: () => {
+      ui.error("Could not remove stakeholder.");
+    }
+  });
+
   const phaseTransitionMutation = useMutation({
     mutationFn: (nextPhase: string) =>
       apiRequest(`/projects/${projectId}/phase`, {
@@ -426,12 +883,14 @@ export function ProjectDetailPage() {
         accessToken: accessToken ?? undefined,
         body: {
           phase: nextPhase,
-          reason: phaseReason.trim() ? phaseReason.trim() : null
+          reason: phaseReason.trim() ? phaseReason.trim() : null,
+          overrideApprovals
         }
       }),
     onSuccess: async () => {
       setPhaseReason("");
       setPhaseError(null);
+      setOverrideApprovals(false);
       await refreshData();
     },
     onError: (error) => {
@@ -443,6 +902,33 @@ export function ProjectDetailPage() {
     }
   });
 
+  const phaseOverrideMutation = useMutation({
+    mutationFn: () =>
+      apiRequest(`/projects/${projectId}/phase/override`, {
+        method: "POST",
+        accessToken: accessToken ?? undefined,
+        body: {
+          phase: overridePhase,
+          reason: overrideReason.trim(),
+          taskAction: overrideTaskAction
+        }
+      }),
+    onSuccess: async () => {
+      setOverridePhase("");
+      setOverrideReason("");
+      setOverrideError(null);
+      await refreshData();
+      ui.success("Project phase overridden.");
+    },
+    onError: (error) => {
+      if (error instanceof ApiError) {
+        setOverrideError(error.message);
+        return;
+      }
+      setOverrideError("Could not override project phase.");
+    }
+  });
+
   const createCommentMutation = useMutation({
     mutationFn: (input: { taskId: string; body: string }) =>
       apiRequest(`/tasks/${input.taskId}/comments`, {
@@ -563,6 +1049,7 @@ export function ProjectDetailPage() {
   ] as const;
   const currentPhaseIndex = phaseFlow.indexOf(project.current_phase as (typeof phaseFlow)[number]);
   const nextPhase = currentPhaseIndex >= 0 && currentPhaseIndex < phaseFlow.length - 1 ? phaseFlow[currentPhaseIndex + 1] : null;
+  const earlierPhases = currentPhaseIndex > 0 ? phaseFlow.slice(0, currentPhaseIndex) : [];
 
   const handleDeleteFile = async (file: ProjectFile) => {
     const shouldDelete = await ui.confirm({
@@ -647,7 +1134,7 @@ export function ProjectDetailPage() {
           className={activeTab === "files" ? "tab-button active" : "tab-button"}
           onClick={() => setActiveTab("files")}
         >
-          Files ({filesQuery.data?.meta.total ?? 0})
+          Files ({fileTreeQuery.data?.meta.total ?? filesQuery.data?.meta.total ?? 0})
         </button>
         <button
           className={activeTab === "activity" ? "tab-button active" : "tab-button"}
@@ -687,6 +1174,66 @@ export function ProjectDetailPage() {
               </p>
             </article>
           </div>
+          <article className="card table-wrap">
+            <h3>Schedule</h3>
+            {scheduleQuery.isLoading ? (
+              <p>Loading schedule...</p>
+            ) : scheduleQuery.isError || !scheduleQuery.data ? (
+              <p>Could not load schedule.</p>
+            ) : (
+              <>
+                <p className="muted">
+                  Projected finish <strong>{scheduleQuery.data.data.projectedFinishDate}</strong> vs deadline{" "}
+                  <strong>{scheduleQuery.data.data.deadline}</strong>:{" "}
+                  {scheduleQuery.data.data.onTrack ? (
+                    <span>on track ({Math.abs(scheduleQuery.data.data.slipDays)} day(s) of buffer)</span>
+                  ) : (
+                    <span className="error-text">slipping by {scheduleQuery.data.data.slipDays} day(s)</span>
+                  )}
+                </p>
+                {scheduleQuery.data.data.tasks.every((task) => task.status === "completed") ? (
+                  <p className="muted">No open tasks to schedule.</p>
+                ) : (
+                  <table>
+                    <thead>
+                      <tr>
+                        <th>Task</th>
+                        <th>Phase</th>
+                        <th>Duration</th>
+                        <th>Start</th>
+                        <th>Finish</th>
+                        <th>Slack</th>
+                        <th>Critical</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {scheduleQuery.data.data.tasks
+                        .filter((task) => task.status !== "completed")
+                        .map((task) => (
+                          <tr key={task.taskId}>
+                            <td>
+                              {task.title}
+                              {task.drivesSlip ? <span className="badge"> drives slip</span> : null}
+                            </td>
+                            <td>{formatLabel(task.phase)}</td>
+                            <td>
+                              {task.durationDays}d{" "}
+                              {task.durationSource === "estimate" ? null : (
+                                <span className="muted">({formatLabel(task.durationSource)})</span>
+                              )}
+                            </td>
+                            <td>{task.earliestStart}</td>
+                            <td>{task.earliestFinish}</td>
+                            <td>{task.slackDays}d</td>
+                            <td>{task.isCritical ? "Yes" : "No"}</td>
+                          </tr>
+                        ))}
+                    </tbody>
+                  </table>
+                )}
+              </>
+            )}
+          </article>
           <article className="card task-create-form">
             <h3>Project phase transition</h3>
             <p className="muted">
@@ -712,10 +1259,72 @@ export function ProjectDetailPage() {
                 Move to next phase
               </button>
             </div>
+            {nextPhase === "delivery" && project.current_user_role === "owner" ? (
+              <label className="muted">
+                <input
+                  type="checkbox"
+                  checked={overrideApprovals}
+                  onChange={(event) => setOverrideApprovals(event.target.checked)}
+                />{" "}
+                Override pending deliverable approvals
+              </label>
+            ) : null}
             {!canUpdateProject ? <p className="muted">Only owner/manager can change project phase.</p> : null}
             {!nextPhase ? <p className="muted">Project is already at the final phase.</p> : null}
             {phaseError ? <p className="error-text">{phaseError}</p> : null}
           </article>
+          {user?.isAdmin ? (
+            <article className="card task-create-form">
+              <h3>Admin phase override</h3>
+              <p className="muted">Move the project back to an earlier phase. A reason is required and is audit-logged.</p>
+              <form
+                className="task-form-grid"
+                onSubmit={(event) => {
+                  event.preventDefault();
+                  if (!overridePhase || !overrideReason.trim()) {
+                    setOverrideError("Target phase and reason are required.");
+                    return;
+                  }
+                  phaseOverrideMutation.mutate();
+                }}
+              >
+                <select
+                  value={overridePhase}
+                  onChange={(event) => setOverridePhase(event.target.value)}
+                  disabled={earlierPhases.length === 0}
+                >
+                  <option value="">Target phase</option>
+                  {earlierPhases.map((value) => (
+                    <option key={value} value={value}>
+                      {formatLabel(value)}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  value={overrideTaskAction}
+                  onChange={(event) => setOverrideTaskAction(event.target.value as "reopen" | "archive")}
+                >
+                  <option value="reopen">Reopen generated tasks</option>
+                  <option value="archive">Archive generated tasks</option>
+                </select>
+                <input
+                  placeholder="Reason (required)"
+                  value={overrideReason}
+                  onChange={(event) => setOverrideReason(event.target.value)}
+                  disabled={earlierPhases.length === 0}
+                />
+                <button
+                  type="submit"
+                  className="ghost-button"
+                  disabled={earlierPhases.length === 0 || phaseOverrideMutation.isPending}
+                >
+                  Override phase
+                </button>
+              </form>
+              {earlierPhases.length === 0 ? <p className="muted">Project is already at the first phase.</p> : null}
+              {overrideError ? <p className="error-text">{overrideError}</p> : null}
+            </article>
+          ) : null}
         </div>
       ) : activeTab === "tasks" ? (
         <div className="tasks-pane">
@@ -1047,61 +1656,399 @@ export function ProjectDetailPage() {
             {fileFormError ? <p className="error-text">{fileFormError}</p> : null}
           </form>
 
-          <div className="card table-wrap">
-            {filesQuery.isLoading ? (
-              <p>Loading files...</p>
-            ) : filesQuery.isError ? (
-              <p>Could not load files.</p>
-            ) : !filesQuery.data?.data.length ? (
-              <p className="muted">No files linked yet.</p>
-            ) : (
-              <table>
-                <thead>
-                  <tr>
-                    <th>Name</th>
-                    <th>Type</th>
-                    <th>Storage</th>
-                    <th>Size</th>
-                    <th>Created</th>
-                    <th>Actions</th>
-                  </tr>
-                </thead>
-                <tbody>
-                  {filesQuery.data?.data.map((file) => (
-                    <tr key={file.id}>
-                      <td>{file.file_name}</td>
-                      <td>{formatLabel(file.file_type)}</td>
-                      <td>{formatLabel(file.storage_type)}</td>
-                      <td>{file.file_size}</td>
-                      <td>{new Date(file.created_at).toLocaleString()}</td>
-                      <td>
-                        <div className="inline-actions">
-                          <button
-                            type="button"
-                            className="ghost-button"
-                            onClick={() => openFileMutation.mutate(file)}
-                            disabled={openFileMutation.isPending}
-                          >
-                            Open
-                          </button>
-                          {canWriteFile ? (
+          <div className="files-browser">
+            <div className="card folder-pane">
+              <h3>Folders</h3>
+              {fileTreeQuery.isLoading ? (
+                <p>Loading folders...</p>
+              ) : fileTreeQuery.isError ? (
+                <p>Could not load folders.</p>
+              ) : (
+                <>
+                  <ul className="folder-tree">
+                    <li>
+                      <button
+                        type="button"
+                        className={selectedFolder === "all" ? "folder-button active" : "folder-button"}
+                        onClick={() => setSelectedFolder("all")}
+                      >
+                        All files <span className="muted">({fileTreeQuery.data?.meta.total ?? 0})</span>
+                      </button>
+                    </li>
+                    <li>
+                      <button
+                        type="button"
+                        className={selectedFolder === "root" ? "folder-button active" : "folder-button"}
+                        onClick={() => setSelectedFolder("root")}
+                      >
+                        Unfiled <span className="muted">({fileTreeQuery.data?.data.files.length ?? 0})</span>
+                      </button>
+                    </li>
+                  </ul>
+                  <FolderTreeList
+                    nodes={fileTreeQuery.data?.data.folders ?? []}
+                    selectedFolder={selectedFolder}
+                    onSelect={setSelectedFolder}
+                  />
+                </>
+              )}
+              {canWriteFile ? (
+                <form
+                  className="folder-form"
+                  onSubmit={(event) => {
+                    event.preventDefault();
+                    if (!folderName.trim()) return;
+                    createFolderMutation.mutate(folderName.trim());
+                  }}
+                >
+                  <input
+                    placeholder={selectedFolderOption ? `New folder in ${selectedFolderOption.label}` : "New folder"}
+                    value={folderName}
+                    onChange={(event) => setFolderName(event.target.value)}
+                  />
+                  <div className="inline-actions">
+                    <button type="submit" className="ghost-button" disabled={createFolderMutation.isPending}>
+                      Create
+                    </button>
+                    {selectedFolderOption ? (
+                      <button
+                        type="button"
+                        className="ghost-button"
+                        disabled={!folderName.trim() || updateFolderMutation.isPending}
+                        onClick={() =>
+                          updateFolderMutation.mutate({ folderId: selectedFolderOption.id, name: folderName.trim() })
+                        }
+                      >
+                        Rename
+                      </button>
+                    ) : null}
+                  </div>
+                  {selectedFolderOption ? (
+                    <select
+                      value=""
+                      onChange={(event) => {
+                        if (!event.target.value) return;
+                        updateFolderMutation.mutate({
+                          folderId: selectedFolderOption.id,
+                          parentId: event.target.value === "root" ? null : event.target.value
+                        });
+                      }}
+                      disabled={updateFolderMutation.isPending}
+                    >
+                      <option value="">Move folder to...</option>
+                      <option value="root">Top level</option>
+                      {folderOptions
+                        .filter((folder) => folder.id !== selectedFolderOption.id)
+                        .map((folder) => (
+                          <option key={folder.id} value={folder.id}>
+                            {folder.label}
+                          </option>
+                        ))}
+                    </select>
+                  ) : null}
+                  {folderFormError ? <p className="error-text">{folderFormError}</p> : null}
+                </form>
+              ) : null}
+              <div className="export-panel">
+                <button
+                  type="button"
+                  className="ghost-button"
+                  disabled={createExportMutation.isPending}
+                  onClick={() => createExportMutation.mutate(selectedFolderOption ? selectedFolderOption.id : null)}
+                >
+                  {selectedFolderOption ? `Export ${selectedFolderOption.label} as ZIP` : "Export all files as ZIP"}
+                </button>
+                {(exportBundlesQuery.data?.data ?? []).slice(0, 5).map((bundle) => (
+                  <div key={bundle.id} className="export-row">
+                    <span className="muted">
+                      {new Date(bundle.created_at).toLocaleString()} · {bundle.status}
+                      {bundle.status === "ready" ? ` · ${bundle.file_count ?? 0} files` : ""}
+                    </span>
+                    {bundle.status === "ready" ? (
+                      <button
+                        type="button"
+                        className="ghost-button"
+                        disabled={downloadExportMutation.isPending}
+                        onClick={() => downloadExportMutation.mutate(bundle.id)}
+                      >
+                        Download
+                      </button>
+                    ) : null}
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="card table-wrap">
+              {filesQuery.isLoading ? (
+                <p>Loading files...</p>
+              ) : filesQuery.isError ? (
+                <p>Could not load files.</p>
+              ) : !filesQuery.data?.data.length ? (
+                <p className="muted">{selectedFolder === "all" ? "No files linked yet." : "No files in this folder."}</p>
+              ) : (
+                <table>
+                  <thead>
+                    <tr>
+                      <th>Preview</th>
+                      <th>Name</th>
+                      <th>Type</th>
+                      <th>Storage</th>
+                      <th>Size</th>
+                      <th>Version</th>
+                      <th>Created</th>
+                      <th>Actions</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {filesQuery.data?.data.map((file) => (
+                      <tr key={file.id}>
+                        <td>
+                          <FileThumbnail file={file} accessToken={accessToken} />
+                        </td>
+                        <td>
+                          {file.file_name}
+                          {file.status !== "available" ? (
+                            <span className="muted"> ({file.status === "rejected" ? "rejected by scan" : "scanning"})</span>
+                          ) : null}
+                        </td>
+                        <td>{formatLabel(file.file_type)}</td>
+                        <td>{formatLabel(file.storage_type)}</td>
+                        <td>{file.file_size}</td>
+                        <td>v{file.version}</td>
+                        <td>{new Date(file.created_at).toLocaleString()}</td>
+                        <td>
+                          <div className="inline-actions">
                             <button
                               type="button"
                               className="ghost-button"
-                              onClick={() => handleDeleteFile(file)}
-                              disabled={deleteFileMutation.isPending}
+                              onClick={() => openFileMutation.mutate(file)}
+                              disabled={openFileMutation.isPending || file.status !== "available"}
                             >
-                              Delete
+                              Open
                             </button>
-                          ) : null}
-                        </div>
-                      </td>
-                    </tr>
-                  ))}
-                </tbody>
-              </table>
-            )}
+                            <button
+                              type="button"
+                              className="ghost-button"
+                              onClick={() => setHistoryFileId(historyFileId === file.id ? null : file.id)}
+                            >
+                              History ({file.version_count ?? 1})
+                            </button>
+                            {canWriteFile ? (
+                              <select
+                                aria-label={`Move ${file.file_name}`}
+                                value={file.folder_id ?? "root"}
+                                onChange={(event) =>
+                                  moveFileMutation.mutate({
+                                    fileId: file.id,
+                                    folderId: event.target.value === "root" ? null : event.target.value
+                                  })
+                                }
+                                disabled={moveFileMutation.isPending}
+                              >
+                                <option value="root">Unfiled</option>
+                                {folderOptions.map((folder) => (
+                                  <option key={folder.id} value={folder.id}>
+                                    {folder.label}
+                                  </option>
+                                ))}
+                              </select>
+                            ) : null}
+                            {canWriteFile ? (
+                              <button
+                                type="button"
+                                className="ghost-button"
+                                onClick={() => handleDeleteFile(file)}
+                                disabled={deleteFileMutation.isPending}
+                              >
+                                Delete
+                              </button>
+                            ) : null}
+                          </div>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
           </div>
+
+          {historyFileId ? (
+            <div className="card table-wrap">
+              <div className="section-head">
+                <h3>Version history</h3>
+                <button type="button" className="ghost-button" onClick={() => setHistoryFileId(null)}>
+                  Close
+                </button>
+              </div>
+              {fileVersionsQuery.isLoading ? (
+                <p>Loading versions...</p>
+              ) : fileVersionsQuery.isError ? (
+                <p>Could not load versions.</p>
+              ) : (
+                <table>
+                  <thead>
+                    <tr>
+                      <th>Version</th>
+                      <th>Name</th>
+                      <th>Storage</th>
+                      <th>Size</th>
+                      <th>Uploaded by</th>
+                      <th>Created</th>
+                      <th>Actions</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {fileVersionsQuery.data?.data.map((version) => (
+                      <tr key={version.id}>
+                        <td>
+                          v{version.version}
+                          {version.restored_from_version ? (
+                            <span className="muted"> (restored from v{version.restored_from_version})</span>
+                          ) : null}
+                        </td>
+                        <td>
+                          {version.file_name}
+                          {version.status !== "available" ? (
+                            <span className="muted"> ({version.status === "rejected" ? "rejected by scan" : "scanning"})</span>
+                          ) : null}
+                        </td>
+                        <td>{formatLabel(version.storage_type)}</td>
+                        <td>{version.file_size}</td>
+                        <td>{version.uploaded_by_name ?? "-"}</td>
+                        <td>{new Date(version.created_at).toLocaleString()}</td>
+                        <td>
+                          <div className="inline-actions">
+                            <button
+                              type="button"
+                              className="ghost-button"
+                              onClick={() => openFileMutation.mutate(version)}
+                              disabled={openFileMutation.isPending || version.status !== "available"}
+                            >
+                              Open
+                            </button>
+                            {canWriteFile &&
+                            version.status !== "rejected" &&
+                            version.version !== fileVersionsQuery.data?.meta.latestVersion ? (
+                              <button
+                                type="button"
+                                className="ghost-button"
+                                onClick={() =>
+                                  restoreFileVersionMutation.mutate({ fileId: version.id, version: version.version })
+                                }
+                                disabled={restoreFileVersionMutation.isPending}
+                              >
+                                Restore
+                              </button>
+                            ) : null}
+                          </div>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+              {historyFile && APPROVABLE_FILE_TYPES.includes(historyFile.file_type) ? (
+                <div className="approval-panel">
+                  <h4>Client approval</h4>
+                  {fileApprovalsQuery.data?.data.length ? (
+                    <ul className="approval-list">
+                      {fileApprovalsQuery.data.data.map((approval) => (
+                        <li key={approval.id}>
+                          <strong>v{approval.file_version}</strong> · {formatLabel(approval.status)}
+                          <span className="muted">
+                            {" "}
+                            · {approval.reviewer_name ?? "Unknown reviewer"} ·{" "}
+                            {new Date(approval.decided_at ?? approval.created_at).toLocaleString()}
+                          </span>
+                          {approval.decision_note ? <p>{approval.decision_note}</p> : null}
+                          {approval.status === "pending" && approval.reviewer_id === user?.id ? (
+                            <div className="inline-actions">
+                              <button
+                                type="button"
+                                className="ghost-button"
+                                disabled={decideApprovalMutation.isPending}
+                                onClick={() => decideApprovalMutation.mutate({ approvalId: approval.id, decision: "approved" })}
+                              >
+                                Approve
+                              </button>
+                              <button
+                                type="button"
+                                className="ghost-button"
+                                disabled={decideApprovalMutation.isPending || !approvalNote.trim()}
+                                onClick={() =>
+                                  decideApprovalMutation.mutate({ approvalId: approval.id, decision: "changes_requested" })
+                                }
+                              >
+                                Request changes
+                              </button>
+                              <button
+                                type="button"
+                                className="ghost-button"
+                                disabled={decideApprovalMutation.isPending || !approvalNote.trim()}
+                                onClick={() => decideApprovalMutation.mutate({ approvalId: approval.id, decision: "rejected" })}
+                              >
+                                Reject
+                              </button>
+                            </div>
+                          ) : null}
+                        </li>
+                      ))}
+                    </ul>
+                  ) : (
+                    <p className="muted">No approval requests yet.</p>
+                  )}
+                  <div className="task-form-grid">
+                    <input
+                      placeholder="Note"
+                      value={approvalNote}
+                      onChange={(event) => setApprovalNote(event.target.value)}
+                    />
+                    {canWriteFile ? (
+                      <>
+                        <select value={approvalReviewerId} onChange={(event) => setApprovalReviewerId(event.target.value)}>
+                          <option value="">Choose reviewer</option>
+                          {(teamQuery.data?.data ?? [])
+                            .filter((member) => member.user_id !== user?.id)
+                            .map((member) => (
+                              <option key={member.user_id} value={member.user_id}>
+                                {member.user_name}
+                              </option>
+                            ))}
+                          {clientUsersQuery.data?.data.length ? (
+                            <optgroup label="Client portal">
+                              {clientUsersQuery.data.data
+                                .filter((clientUser) => clientUser.is_active)
+                                .map((clientUser) => (
+                                  <option key={clientUser.id} value={clientUser.id}>
+                                    {clientUser.name}
+                                  </option>
+                                ))}
+                            </optgroup>
+                          ) : null}
+                        </select>
+                        <button
+                          type="button"
+                          className="primary-button"
+                          disabled={!approvalReviewerId || requestApprovalMutation.isPending}
+                          onClick={() =>
+                            requestApprovalMutation.mutate({
+                              fileId: historyFile.id,
+                              reviewerId: approvalReviewerId,
+                              note: approvalNote.trim()
+                            })
+                          }
+                        >
+                          Request approval of v{historyFile.version}
+                        </button>
+                      </>
+                    ) : null}
+                  </div>
+                </div>
+              ) : null}
+            </div>
+          ) : null}
         </div>
       ) : activeTab === "activity" ? (
         <div className="card">
@@ -1212,6 +2159,86 @@ export function ProjectDetailPage() {
               </table>
             )}
           </div>
+
+          <div className="card table-wrap">
+            <div className="section-head">
+              <h3>Client stakeholders</h3>
+              <p className="muted">{stakeholdersQuery.data?.data.length ?? 0} contacts</p>
+            </div>
+            {canUpdateProject ? (
+              <form
+                className="task-form-grid"
+                onSubmit={(event) => {
+                  event.preventDefault();
+                  if (!stakeholderContactId) return;
+                  addStakeholderMutation.mutate({ contactId: stakeholderContactId, role: stakeholderRole.trim() });
+                }}
+              >
+                <select value={stakeholderContactId} onChange={(event) => setStakeholderContactId(event.target.value)}>
+                  <option value="">Select contact</option>
+                  {clientContactsQuery.data?.data.map((contact) => (
+                    <option key={contact.id} value={contact.id}>
+                      {contact.name}
+                      {contact.title ? ` (${contact.title})` : ""}
+                    </option>
+                  ))}
+                </select>
+                <input
+                  placeholder="Role on this project"
+                  value={stakeholderRole}
+                  onChange={(event) => setStakeholderRole(event.target.value)}
+                />
+                <button
+                  className="primary-button"
+                  type="submit"
+                  disabled={!stakeholderContactId || addStakeholderMutation.isPending}
+                >
+                  Add stakeholder
+                </button>
+              </form>
+            ) : null}
+            {stakeholdersQuery.isLoading ? (
+              <p>Loading stakeholders...</p>
+            ) : !stakeholdersQuery.data?.data.length ? (
+              <p className="muted">No client contacts attached yet.</p>
+            ) : (
+              <table>
+                <thead>
+                  <tr>
+                    <th>Name</th>
+                    <th>Title</th>
+                    <th>Email</th>
+                    <th>Role</th>
+                    <th>Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {stakeholdersQuery.data.data.map((stakeholder) => (
+                    <tr key={stakeholder.contact_id}>
+                      <td>{stakeholder.name}</td>
+                      <td>{stakeholder.title ?? "-"}</td>
+                      <td>{stakeholder.email ?? "-"}</td>
+                      <td>{stakeholder.role ?? "-"}</td>
+                      <td>
+                        {canUpdateProject ? (
+                          <button
+                            type="button"
+                            className="ghost-button"
+                            onClick={() => removeStakeholderMutation.mutate(stakeholder.contact_id)}
+                            disabled={removeStakeholderMutation.isPending}
+                          >
+                            Remove
+                          </button>
+                        ) : (
+                          "-"
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
         </div>
       )}
     </section>
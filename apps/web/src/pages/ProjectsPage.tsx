@@ -33,6 +33,14 @@ type ClientsResponse = {
   }>;
 };
 
+type ProjectTemplatesResponse = {
+  data: Array<{
+    id: string;
+    name: string;
+    task_count: number;
+  }>;
+};
+
 type UsersResponse = {
   data: Array<{
     id: string;
@@ -59,6 +67,7 @@ export function ProjectsPage() {
   );
   const [priority, setPriority] = useState("medium");
   const [description, setDescription] = useState("");
+  const [templateId, setTemplateId] = useState("");
   const [teamUserId, setTeamUserId] = useState("");
   const [teamRole, setTeamRole] = useState<"manager" | "member" | "viewer">("member");
   const [teamAssignments, setTeamAssignments] = useState<Array<{ userId: string; role: "manager" | "member" | "viewer" }>>([]);
@@ -103,6 +112,15 @@ export function ProjectsPage() {
     enabled: Boolean(accessToken)
   });
 
+  const templatesQuery = useQuery({
+    queryKey: ["project-templates-for-project-form"],
+    queryFn: () =>
+      apiRequest<ProjectTemplatesResponse>("/project-templates?page=1&pageSize=100&sortBy=name&sortOrder=asc", {
+        accessToken: accessToken ?? undefined
+      }),
+    enabled: Boolean(accessToken)
+  });
+
   const usersQuery = useQuery({
     queryKey: ["users-for-project-create"],
     queryFn: () =>
@@ -145,7 +163,8 @@ export function ProjectsPage() {
           description: description.trim() ? description.trim() : null,
           startDate,
           deadline,
-          priority
+          priority,
+          templateId: templateId || null
         }
       });
 
@@ -170,6 +189,7 @@ export function ProjectsPage() {
       setName("");
       setDescription("");
       setPriority("medium");
+      setTemplateId("");
       setTeamAssignments([]);
       setTeamUserId("");
       setTeamRole("member");
@@ -291,6 +311,14 @@ export function ProjectsPage() {
             <option value="high">high</option>
             <option value="urgent">urgent</option>
           </select>
+          <select value={templateId} onChange={(event) => setTemplateId(event.target.value)}>
+            <option value="">Default phase tasks</option>
+            {templatesQuery.data?.data.map((template) => (
+              <option key={template.id} value={template.id}>
+                {template.name} ({template.task_count} tasks)
+              </option>
+            ))}
+          </select>
           <input type="date" value={startDate} onChange={(event) => setStartDate(event.target.value)} required />
           <input type="date" value={deadline} onChange={(event) => setDeadline(event.target.value)} required />
           <button className="primary-button" type="submit" disabled={!canSubmit || createProjectMutation.isPending}>
@@ -36,6 +36,29 @@ type TimelineAnalyticsResponse = {
   }>;
 };
 
+type PhaseDurationsResponse = {
+  data: Array<{
+    phase: string;
+    completedCount: number;
+    inProgressCount: number;
+    averageHours: number | null;
+    medianHours: number | null;
+    p90Hours: number | null;
+  }>;
+};
+
+type CsvPath = "/analytics/projects.csv" | "/analytics/team.csv" | "/analytics/phase-durations.csv";
+
+const CSV_FILENAMES: Record<CsvPath, string> = {
+  "/analytics/projects.csv": "projects-analytics.csv",
+  "/analytics/team.csv": "team-analytics.csv",
+  "/analytics/phase-durations.csv": "phase-durations-analytics.csv"
+};
+
+function formatHours(value: number | null) {
+  return value === null ? "-" : `${value.toFixed(1)}h`;
+}
+
 const API_BASE_URL = import.meta.env.VITE_API_BASE_URL ?? "http://localhost:4000/api/v1";
 
 export function ReportsPage() {
@@ -68,7 +91,16 @@ export function ReportsPage() {
     enabled: Boolean(accessToken)
   });
 
-  const openCsv = async (path: "/analytics/projects.csv" | "/analytics/team.csv") => {
+  const phaseDurationsQuery = useQuery({
+    queryKey: ["reports-phase-durations"],
+    queryFn: () =>
+      apiRequest<PhaseDurationsResponse>("/analytics/phase-durations", {
+        accessToken: accessToken ?? undefined
+      }),
+    enabled: Boolean(accessToken)
+  });
+
+  const openCsv = async (path: CsvPath) => {
     if (!accessToken) return;
 
     const response = await fetch(`${API_BASE_URL}${path}`, {
@@ -82,7 +114,7 @@ export function ReportsPage() {
     const url = URL.createObjectURL(blob);
     const anchor = document.createElement("a");
     anchor.href = url;
-    anchor.download = path === "/analytics/projects.csv" ? "projects-analytics.csv" : "team-analytics.csv";
+    anchor.download = CSV_FILENAMES[path];
     document.body.appendChild(anchor);
     anchor.click();
     anchor.remove();
@@ -100,6 +132,9 @@ export function ReportsPage() {
           <button className="ghost-button" onClick={() => openCsv("/analytics/team.csv")}>
             Export Team CSV
           </button>
+          <button className="ghost-button" onClick={() => openCsv("/analytics/phase-durations.csv")}>
+            Export Phase Durations CSV
+          </button>
         </div>
       </div>
 
@@ -207,6 +242,45 @@ export function ReportsPage() {
           </table>
         )}
       </div>
+
+      <div className="card table-wrap">
+        <h3>Time in Phase</h3>
+        {phaseDurationsQuery.isLoading ? (
+          <LoadingState message="Loading phase durations..." />
+        ) : phaseDurationsQuery.isError ? (
+          <ErrorState
+            message="Could not load phase durations."
+            onRetry={() => void phaseDurationsQuery.refetch()}
+          />
+        ) : (phaseDurationsQuery.data?.data.length ?? 0) === 0 ? (
+          <EmptyState message="No phase history available yet." />
+        ) : (
+          <table>
+            <thead>
+              <tr>
+                <th>Phase</th>
+                <th>Completed Stints</th>
+                <th>In Phase Now</th>
+                <th>Average</th>
+                <th>Median</th>
+                <th>P90</th>
+              </tr>
+            </thead>
+            <tbody>
+              {phaseDurationsQuery.data?.data.map((row) => (
+                <tr key={row.phase}>
+                  <td>{row.phase}</td>
+                  <td>{row.completedCount}</td>
+                  <td>{row.inProgressCount}</td>
+                  <td>{formatHours(row.averageHours)}</td>
+                  <td>{formatHours(row.medianHours)}</td>
+                  <td>{formatHours(row.p90Hours)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
     </section>
   );
 }
@@ -0,0 +1,90 @@
+import { FormEvent, useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { apiRequest, ApiError } from "../lib/api";
+
+export function ResetPasswordPage() {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get("token") ?? "";
+  const [password, setPassword] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [done, setDone] = useState(false);
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (password !== confirmation) {
+      setError("The passwords do not match.");
+      return;
+    }
+    setError(null);
+    setIsSubmitting(true);
+
+    try {
+      await apiRequest<void>("/auth/password/reset", {
+        method: "POST",
+        body: { token, password }
+      });
+      setDone(true);
+    } catch (err) {
+      setError(err instanceof ApiError ? err.message : "Could not reset the password");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (done || !token) {
+    return (
+      <div className="login-wrap">
+        <div className="card login-card">
+          <h1>{done ? "Password changed" : "Reset link missing"}</h1>
+          <p className="muted">
+            {done
+              ? "You have been signed out everywhere. Sign in with your new password."
+              : "Open the link from your reset email again, or request a new one."}
+          </p>
+          <p className="muted">
+            {done ? <Link to="/login">Sign in</Link> : <Link to="/forgot-password">Request a new link</Link>}
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="login-wrap">
+      <form className="card login-card" onSubmit={handleSubmit}>
+        <h1>Choose a new password</h1>
+        <label className="field">
+          <span>New password</span>
+          <input
+            value={password}
+            onChange={(event) => setPassword(event.target.value)}
+            type="password"
+            autoComplete="new-password"
+            minLength={8}
+            required
+          />
+        </label>
+        <label className="field">
+          <span>Repeat new password</span>
+          <input
+            value={confirmation}
+            onChange={(event) => setConfirmation(event.target.value)}
+            type="password"
+            autoComplete="new-password"
+            minLength={8}
+            required
+          />
+        </label>
+        {error ? <p className="error-text">{error}</p> : null}
+        <button className="primary-button" type="submit" disabled={isSubmitting}>
+          {isSubmitting ? "Saving..." : "Set password"}
+        </button>
+        <p className="muted">
+          Link expired? <Link to="/forgot-password">Request a new one</Link>
+        </p>
+      </form>
+    </div>
+  );
+}
@@ -1,7 +1,8 @@
-import { useMutation, useQuery } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { FormEvent, useEffect, useState } from "react";
 import { apiRequest, ApiError } from "../lib/api";
 import { useAuth } from "../state/auth";
+import { useUI } from "../state/ui";
 
 type UserProfileResponse = {
   data: {
@@ -11,11 +12,494 @@ type UserProfileResponse = {
     avatar_url: string | null;
     is_active: boolean;
     is_admin: boolean;
+    email_verified_at: string | null;
   };
 };
 
+type DataExport = {
+  id: string;
+  kind: "workspace" | "user";
+  subject_user_id: string | null;
+  status: "queued" | "running" | "ready" | "failed";
+  created_at: string;
+};
+
+type DataExportsResponse = {
+  data: DataExport[];
+};
+
+type DownloadUrlResponse = {
+  data: {
+    downloadUrl: string;
+    expiresAt: string;
+  };
+};
+
+type MfaStatusResponse = {
+  data: {
+    enabled: boolean;
+    pending: boolean;
+    enabledAt: string | null;
+    recoveryCodesRemaining: number;
+    required: boolean;
+  };
+};
+
+type MfaEnrollmentResponse = {
+  data: {
+    secret: string;
+    otpauthUri: string;
+  };
+};
+
+type RecoveryCodesResponse = {
+  data: {
+    recoveryCodes: string[];
+  };
+};
+
+type ApiToken = {
+  id: string;
+  name: string;
+  token_prefix: string;
+  scopes: string[];
+  expires_at: string;
+  last_used_at: string | null;
+  revoked_at: string | null;
+  created_at: string;
+};
+
+type ApiTokensResponse = {
+  data: ApiToken[];
+};
+
+type CreatedApiTokenResponse = {
+  data: ApiToken & { token: string };
+};
+
+// Presets over the project permissions; every token can read, the extra scopes decide what it may change.
+const API_TOKEN_ACCESS = {
+  read: { label: "Read only", scopes: ["project:view"] },
+  tasks: { label: "Read + tasks", scopes: ["task:write"] },
+  files: { label: "Read + tasks and files", scopes: ["task:write", "file:write"] },
+  full: {
+    label: "Everything my roles allow",
+    scopes: ["project:update", "project:delete", "team:manage", "task:write", "file:write"]
+  }
+} as const;
+
+function isApiTokenActive(token: ApiToken) {
+  return !token.revoked_at && new Date(token.expires_at).getTime() > Date.now();
+}
+
+function describeApiToken(token: ApiToken) {
+  if (token.revoked_at) return "revoked";
+  if (!isApiTokenActive(token)) return "expired";
+  return `expires ${new Date(token.expires_at).toLocaleDateString()}`;
+}
+
+function MfaCard() {
+  const { user, accessToken } = useAuth();
+  const queryClient = useQueryClient();
+  const ui = useUI();
+  const [enrollment, setEnrollment] = useState<MfaEnrollmentResponse["data"] | null>(null);
+  const [code, setCode] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
+  const statusQuery = useQuery({
+    queryKey: ["mfa-status", user?.id],
+    queryFn: () =>
+      apiRequest<MfaStatusResponse>("/auth/mfa", {
+        accessToken: accessToken ?? undefined
+      }),
+    enabled: Boolean(user?.id && accessToken)
+  });
+
+  const onCodeError = (err: unknown, fallback: string) => {
+    ui.error(err instanceof ApiError && err.code === "INVALID_MFA_CODE" ? "That code did not work." : fallback);
+  };
+
+  const enrollMutation = useMutation({
+    mutationFn: () =>
+      apiRequest<MfaEnrollmentResponse>("/auth/mfa/enroll", {
+        method: "POST",
+        accessToken: accessToken ?? undefined
+      }),
+    onSuccess: (result) => {
+      setEnrollment(result.data);
+      setCode("");
+    },
+    onError: () => {
+      ui.error("Could not start MFA setup.");
+    }
+  });
+
+  const verifyMutation = useMutation({
+    mutationFn: () =>
+      apiRequest<RecoveryCodesResponse>("/auth/mfa/verify", {
+        method: "POST",
+        accessToken: accessToken ?? undefined,
+        body: { code: code.trim() }
+      }),
+    onSuccess: async (result) => {
+      setEnrollment(null);
+      setCode("");
+      setRecoveryCodes(result.data.recoveryCodes);
+      await queryClient.invalidateQueries({ queryKey: ["mfa-status", user?.id] });
+      ui.success("Two-factor sign-in is on.");
+    },
+    onError: (err) => onCodeError(err, "Could not turn on MFA.")
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: () =>
+      apiRequest<RecoveryCodesResponse>("/auth/mfa/recovery-codes", {
+        method: "POST",
+        accessToken: accessToken ?? undefined,
+        body: { code: code.trim() }
+      }),
+    onSuccess: async (result) => {
+      setCode("");
+      setRecoveryCodes(result.data.recoveryCodes);
+      await queryClient.invalidateQueries({ queryKey: ["mfa-status", user?.id] });
+    },
+    onError: (err) => onCodeError(err, "Could not create new recovery codes.")
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: () =>
+      apiRequest<void>("/auth/mfa/disable", {
+        method: "POST",
+        accessToken: accessToken ?? undefined,
+        body: { code: code.trim() }
+      }),
+    onSuccess: async () => {
+      setCode("");
+      setRecoveryCodes(null);
+      await queryClient.invalidateQueries({ queryKey: ["mfa-status", user?.id] });
+      ui.success("Two-factor sign-in is off.");
+    },
+    onError: (err) => onCodeError(err, "Could not turn off MFA.")
+  });
+
+  const status = statusQuery.data?.data;
+  const codeField = (
+    <label className="field">
+      <span>Authentication code</span>
+      <input
+        value={code}
+        onChange={(event) => setCode(event.target.value)}
+        autoComplete="one-time-code"
+        inputMode="numeric"
+      />
+    </label>
+  );
+
+  return (
+    <div className="card task-create-form">
+      <h3>Two-factor sign-in</h3>
+      {statusQuery.isLoading ? <p>Loading...</p> : null}
+      {statusQuery.isError ? <p className="error-text">Could not load MFA status.</p> : null}
+      {recoveryCodes ? (
+        <>
+          <p className="muted">Save these recovery codes. Each works once, and they will not be shown again.</p>
+          <ul className="recovery-codes">
+            {recoveryCodes.map((recoveryCode) => (
+              <li key={recoveryCode}>{recoveryCode}</li>
+            ))}
+          </ul>
+          <button type="button" className="ghost-button" onClick={() => setRecoveryCodes(null)}>
+            Done
+          </button>
+        </>
+      ) : status?.enabled ? (
+        <>
+          <p className="muted">
+            On since {status.enabledAt ? new Date(status.enabledAt).toLocaleDateString() : "-"} ·{" "}
+            {status.recoveryCodesRemaining} recovery codes left
+          </p>
+          {codeField}
+          <div className="inline-actions">
+            <button
+              type="button"
+              className="ghost-button"
+              disabled={!code.trim() || regenerateMutation.isPending}
+              onClick={() => regenerateMutation.mutate()}
+            >
+              New recovery codes
+            </button>
+            {status.required ? null : (
+              <button
+                type="button"
+                className="ghost-button"
+                disabled={!code.trim() || disableMutation.isPending}
+                onClick={() => disableMutation.mutate()}
+              >
+                Turn off
+              </button>
+            )}
+          </div>
+          {status.required ? <p className="muted">Your workspace requires two-factor sign-in.</p> : null}
+        </>
+      ) : enrollment ? (
+        <>
+          <p className="muted">
+            Add this key to your authenticator app, or <a href={enrollment.otpauthUri}>open it on this device</a>, then
+            enter the 6-digit code it shows.
+          </p>
+          <code className="mfa-secret">{enrollment.secret}</code>
+          {codeField}
+          <button
+            type="button"
+            className="primary-button"
+            disabled={!code.trim() || verifyMutation.isPending}
+            onClick={() => verifyMutation.mutate()}
+          >
+            Turn on
+          </button>
+        </>
+      ) : status ? (
+        <>
+          <p className="muted">Protect your account with a code from an authenticator app when you sign in.</p>
+          <button
+            type="button"
+            className="primary-button"
+            disabled={enrollMutation.isPending}
+            onClick={() => enrollMutation.mutate()}
+          >
+            Set up authenticator
+          </button>
+        </>
+      ) : null}
+    </div>
+  );
+}
+
+function ApiTokensCard() {
+  const { user, accessToken } = useAuth();
+  const queryClient = useQueryClient();
+  const ui = useUI();
+  const [name, setName] = useState("");
+  const [access, setAccess] = useState<keyof typeof API_TOKEN_ACCESS>("read");
+  const [expiresInDays, setExpiresInDays] = useState("30");
+  const [createdToken, setCreatedToken] = useState<string | null>(null);
+
+  const tokensQuery = useQuery({
+    queryKey: ["api-tokens", user?.id],
+    queryFn: () =>
+      apiRequest<ApiTokensResponse>("/api-tokens", {
+        accessToken: accessToken ?? undefined
+      }),
+    enabled: Boolean(user?.id && accessToken)
+  });
+
+  const createMutation = useMutation({
+    mutationFn: () =>
+      apiRequest<CreatedApiTokenResponse>("/api-tokens", {
+        method: "POST",
+        accessToken: accessToken ?? undefined,
+        body: {
+          name: name.trim(),
+          scopes: API_TOKEN_ACCESS[access].scopes,
+          expiresInDays: Number(expiresInDays)
+        }
+      }),
+    onSuccess: async (result) => {
+      setName("");
+      setCreatedToken(result.data.token);
+      await queryClient.invalidateQueries({ queryKey: ["api-tokens", user?.id] });
+    },
+    onError: (err) => {
+      ui.error(err instanceof ApiError ? err.message : "Could not create the token.");
+    }
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: (tokenId: string) =>
+      apiRequest<void>(`/api-tokens/${tokenId}`, {
+        method: "DELETE",
+        accessToken: accessToken ?? undefined
+      }),
+    onSuccess: async () => {
+      ui.success("Token revoked.");
+      await queryClient.invalidateQueries({ queryKey: ["api-tokens", user?.id] });
+    },
+    onError: () => {
+      ui.error("Could not revoke the token.");
+    }
+  });
+
+  const onSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    createMutation.mutate();
+  };
+
+  return (
+    <form className="card task-create-form" onSubmit={onSubmit}>
+      <h3>API tokens</h3>
+      <p className="muted">
+        Personal tokens for scripts and integrations. Send one as a Bearer token; it acts as you, limited to the
+        access you pick, and never has admin rights.
+      </p>
+      {createdToken ? (
+        <>
+          <p className="muted">Copy this token now. It will not be shown again.</p>
+          <code className="mfa-secret">{createdToken}</code>
+          <button type="button" className="ghost-button" onClick={() => setCreatedToken(null)}>
+            Done
+          </button>
+        </>
+      ) : (
+        <div className="task-form-grid">
+          <input
+            placeholder="Token name"
+            value={name}
+            maxLength={100}
+            onChange={(event) => setName(event.target.value)}
+            required
+          />
+          <select value={access} onChange={(event) => setAccess(event.target.value as keyof typeof API_TOKEN_ACCESS)}>
+            {Object.entries(API_TOKEN_ACCESS).map(([value, preset]) => (
+              <option key={value} value={value}>
+                {preset.label}
+              </option>
+            ))}
+          </select>
+          <select value={expiresInDays} onChange={(event) => setExpiresInDays(event.target.value)}>
+            <option value="7">7 days</option>
+            <option value="30">30 days</option>
+            <option value="90">90 days</option>
+            <option value="365">1 year</option>
+          </select>
+          <button className="primary-button" type="submit" disabled={!name.trim() || createMutation.isPending}>
+            Create token
+          </button>
+        </div>
+      )}
+      {tokensQuery.isError ? <p className="error-text">Could not load tokens.</p> : null}
+      {(tokensQuery.data?.data ?? []).map((token) => (
+        <div key={token.id} className="export-row">
+          <span className="muted">
+            {token.name} · {token.token_prefix}… · {token.scopes.join(", ")} · {describeApiToken(token)} · last used{" "}
+            {token.last_used_at ? new Date(token.last_used_at).toLocaleString() : "never"}
+          </span>
+          {isApiTokenActive(token) ? (
+            <button
+              type="button"
+              className="ghost-button"
+              disabled={revokeMutation.isPending}
+              onClick={() => revokeMutation.mutate(token.id)}
+            >
+              Revoke
+            </button>
+          ) : null}
+        </div>
+      ))}
+    </form>
+  );
+}
+
+function DataExportsCard() {
+  const { user, accessToken } = useAuth();
+  const queryClient = useQueryClient();
+  const ui = useUI();
+
+  const exportsQuery = useQuery({
+    queryKey: ["data-exports", user?.id],
+    queryFn: () =>
+      apiRequest<DataExportsResponse>("/data-exports", {
+        accessToken: accessToken ?? undefined
+      }),
+    enabled: Boolean(user?.id && accessToken),
+    // Exports build in the background, so poll while any are still in progress.
+    refetchInterval: (query) =>
+      query.state.data?.data.some((item) => item.status === "queued" || item.status === "running") ? 2000 : false
+  });
+
+  const createExportMutation = useMutation({
+    mutationFn: (kind: DataExport["kind"]) =>
+      apiRequest(kind === "workspace" ? "/data-exports/workspace" : `/data-exports/users/${user?.id}`, {
+        method: "POST",
+        accessToken: accessToken ?? undefined
+      }),
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({ queryKey: ["data-exports", user?.id] });
+      ui.success("Export started. You will be notified when it is ready.");
+    },
+    onError: () => {
+      ui.error("Could not start export.");
+    }
+  });
+
+  const downloadExportMutation = useMutation({
+    mutationFn: async (exportId: string) => {
+      const result = await apiRequest<DownloadUrlResponse>(`/data-exports/${exportId}/download-url`, {
+        accessToken: accessToken ?? undefined
+      });
+      window.open(result.data.downloadUrl, "_blank", "noopener,noreferrer");
+    },
+    onError: () => {
+      ui.error("Could not download export.");
+    }
+  });
+
+  return (
+    <div className="card">
+      <h3>Data exports</h3>
+      <p className="muted">A ZIP of JSON-lines files with your profile, sessions, comments, notifications and activity.</p>
+      <div className="export-panel">
+        <div className="inline-actions">
+          <button
+            type="button"
+            className="ghost-button"
+            disabled={createExportMutation.isPending}
+            onClick={() => createExportMutation.mutate("user")}
+          >
+            Export my data
+          </button>
+          {user?.isAdmin ? (
+            <button
+              type="button"
+              className="ghost-button"
+              disabled={createExportMutation.isPending}
+              onClick={() => createExportMutation.mutate("workspace")}
+            >
+              Export workspace
+            </button>
+          ) : null}
+        </div>
+        {exportsQuery.isError ? <p className="error-text">Could not load exports.</p> : null}
+        {(exportsQuery.data?.data ?? []).slice(0, 10).map((item) => (
+          <div key={item.id} className="export-row">
+            <span className="muted">
+              {new Date(item.created_at).toLocaleString()} ·{" "}
+              {item.kind === "workspace"
+                ? "Workspace"
+                : item.subject_user_id === user?.id
+                  ? "My data"
+                  : "Personal data"}{" "}
+              · {item.status}
+            </span>
+            {item.status === "ready" ? (
+              <button
+                type="button"
+                className="ghost-button"
+                disabled={downloadExportMutation.isPending}
+                onClick={() => downloadExportMutation.mutate(item.id)}
+              >
+                Download
+              </button>
+            ) : null}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
 export function SettingsPage() {
   const { user, accessToken, updateLocalUser } = useAuth();
+  const ui = useUI();
   const [name, setName] = useState("");
   const [avatarUrl, setAvatarUrl] = useState("");
   const [error, setError] = useState<string | null>(null);
@@ -65,6 +549,20 @@ export function SettingsPage() {
     }
   });
 
+  const resendVerificationMutation = useMutation({
+    mutationFn: () =>
+      apiRequest("/auth/verify-email/resend", {
+        method: "POST",
+        accessToken: accessToken ?? undefined
+      }),
+    onSuccess: () => {
+      ui.success("Verification email sent.");
+    },
+    onError: () => {
+      ui.error("Could not send the verification email.");
+    }
+  });
+
   const onSubmit = (event: FormEvent<HTMLFormElement>) => {
     event.preventDefault();
     updateProfileMutation.mutate({
@@ -82,6 +580,19 @@ export function SettingsPage() {
         <h3>Profile</h3>
         {profileQuery.isLoading ? <p>Loading profile...</p> : null}
         {profileQuery.isError ? <p className="error-text">Could not load profile.</p> : null}
+        {profileQuery.data && !profileQuery.data.data.email_verified_at ? (
+          <div className="inline-actions">
+            <p className="muted">{profileQuery.data.data.email} is not verified yet.</p>
+            <button
+              type="button"
+              className="ghost-button"
+              disabled={resendVerificationMutation.isPending}
+              onClick={() => resendVerificationMutation.mutate()}
+            >
+              Resend verification email
+            </button>
+          </div>
+        ) : null}
         <label className="field">
           <span>Name</span>
           <input value={name} onChange={(event) => setName(event.target.value)} required />
@@ -100,6 +611,9 @@ export function SettingsPage() {
         {error ? <p className="error-text">{error}</p> : null}
         {success ? <p className="muted">{success}</p> : null}
       </form>
+      <MfaCard />
+      <ApiTokensCard />
+      <DataExportsCard />
     </section>
   );
 }
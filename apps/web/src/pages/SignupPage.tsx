@@ -24,11 +24,16 @@ export function SignupPage() {
     setIsSubmitting(true);
 
     try {
-      await signup({
+      const challenge = await signup({
         name: name.trim(),
         email: email.trim(),
         password
       });
+      // The workspace requires MFA: the login page walks through setting up the authenticator.
+      if (challenge) {
+        navigate("/login", { state: { challenge } });
+        return;
+      }
       navigate("/dashboard");
     } catch (err) {
       if (err instanceof ApiError) {
@@ -1,7 +1,7 @@
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
-import { useState } from "react";
+import { FormEvent, useState } from "react";
 import { Link } from "react-router-dom";
-import { apiRequest } from "../lib/api";
+import { apiRequest, ApiError } from "../lib/api";
 import { useAuth } from "../state/auth";
 import { useUI } from "../state/ui";
 import { EmptyState, ErrorState, LoadingState } from "../components/States";
@@ -13,6 +13,7 @@ type UsersResponse = {
     email: string;
     is_active: boolean;
     is_admin: boolean;
+    mfa_enabled: boolean;
     last_login_at: string | null;
     created_at: string;
   }>;
@@ -21,6 +22,51 @@ type UsersResponse = {
   };
 };
 
+type MfaPolicyResponse = {
+  data: {
+    required: boolean;
+    updatedBy: string | null;
+    updatedAt: string | null;
+  };
+};
+
+type SignupPolicyResponse = {
+  data: {
+    inviteOnly: boolean;
+    updatedBy: string | null;
+    updatedAt: string | null;
+  };
+};
+
+type InvitationsResponse = {
+  data: Array<{
+    id: string;
+    email: string;
+    project_id: string | null;
+    project_name: string | null;
+    project_role: string | null;
+    invited_by_name: string | null;
+    expires_at: string;
+  }>;
+};
+
+type ApiTokensResponse = {
+  data: Array<{
+    id: string;
+    name: string;
+    token_prefix: string;
+    scopes: string[];
+    expires_at: string;
+    last_used_at: string | null;
+    user_name: string;
+    user_email: string;
+  }>;
+};
+
+type ProjectsResponse = {
+  data: Array<{ id: string; name: string }>;
+};
+
 export function TeamPage() {
   const { accessToken, user } = useAuth();
   const ui = useUI();
@@ -40,6 +86,179 @@ export function TeamPage() {
     enabled: Boolean(accessToken)
   });
 
+  const mfaPolicyQuery = useQuery({
+    queryKey: ["mfa-policy"],
+    queryFn: () =>
+      apiRequest<MfaPolicyResponse>("/users/mfa-policy", {
+        accessToken: accessToken ?? undefined
+      }),
+    enabled: Boolean(accessToken && isAdmin)
+  });
+
+  const mfaPolicyMutation = useMutation({
+    mutationFn: (required: boolean) =>
+      apiRequest<MfaPolicyResponse>("/users/mfa-policy", {
+        method: "PUT",
+        accessToken: accessToken ?? undefined,
+        body: { required }
+      }),
+    onSuccess: async (result) => {
+      ui.success(result.data.required ? "MFA is now required for everyone." : "MFA is now optional.");
+      await queryClient.invalidateQueries({ queryKey: ["mfa-policy"] });
+    },
+    onError: () => {
+      ui.error("Could not update the MFA policy.");
+    }
+  });
+
+  const [inviteEmail, setInviteEmail] = useState("");
+  const [inviteProjectId, setInviteProjectId] = useState("");
+  const [inviteRole, setInviteRole] = useState("member");
+  const [inviteError, setInviteError] = useState<string | null>(null);
+
+  const signupPolicyQuery = useQuery({
+    queryKey: ["signup-policy"],
+    queryFn: () =>
+      apiRequest<SignupPolicyResponse>("/users/signup-policy", {
+        accessToken: accessToken ?? undefined
+      }),
+    enabled: Boolean(accessToken && isAdmin)
+  });
+
+  const signupPolicyMutation = useMutation({
+    mutationFn: (inviteOnly: boolean) =>
+      apiRequest<SignupPolicyResponse>("/users/signup-policy", {
+        method: "PUT",
+        accessToken: accessToken ?? undefined,
+        body: { inviteOnly }
+      }),
+    onSuccess: async (result) => {
+      ui.success(result.data.inviteOnly ? "Signup is now invite-only." : "Anyone can sign up again.");
+      await queryClient.invalidateQueries({ queryKey: ["signup-policy"] });
+    },
+    onError: () => {
+      ui.error("Could not update the signup policy.");
+    }
+  });
+
+  const invitationsQuery = useQuery({
+    queryKey: ["invitations"],
+    queryFn: () =>
+      apiRequest<InvitationsResponse>("/invitations", {
+        accessToken: accessToken ?? undefined
+      }),
+    enabled: Boolean(accessToken)
+  });
+
+  const apiTokensQuery = useQuery({
+    queryKey: ["admin-api-tokens"],
+    queryFn: () =>
+      apiRequest<ApiTokensResponse>("/users/api-tokens", {
+        accessToken: accessToken ?? undefined
+      }),
+    enabled: Boolean(accessToken && isAdmin)
+  });
+
+  const revokeApiTokenMutation = useMutation({
+    mutationFn: (tokenId: string) =>
+      apiRequest(`/users/api-tokens/${tokenId}`, {
+        method: "DELETE",
+        accessToken: accessToken ?? undefined
+      }),
+    onSuccess: async () => {
+      ui.success("API token revoked.");
+      await queryClient.invalidateQueries({ queryKey: ["admin-api-tokens"] });
+    },
+    onError: () => {
+      ui.error("Could not revoke the API token.");
+    }
+  });
+
+  const inviteProjectsQuery = useQuery({
+    queryKey: ["invite-projects"],
+    queryFn: () =>
+      apiRequest<ProjectsResponse>("/projects?page=1&pageSize=100&sortBy=name&sortOrder=asc", {
+        accessToken: accessToken ?? undefined
+      }),
+    enabled: Boolean(accessToken)
+  });
+
+  const inviteMutation = useMutation({
+    mutationFn: () =>
+      apiRequest<{ data: { email: string; delivered: boolean } }>("/invitations", {
+        method: "POST",
+        accessToken: accessToken ?? undefined,
+        body: {
+          email: inviteEmail.trim(),
+          ...(inviteProjectId ? { projectId: inviteProjectId, role: inviteRole } : {})
+        }
+      }),
+    onSuccess: async (result) => {
+      setInviteEmail("");
+      setInviteError(null);
+      if (result.data.delivered) {
+        ui.success(`Invitation sent to ${result.data.email}.`);
+      } else {
+        ui.error(`Invitation created, but the email to ${result.data.email} could not be sent.`);
+      }
+      await queryClient.invalidateQueries({ queryKey: ["invitations"] });
+    },
+    onError: (error) => {
+      setInviteError(error instanceof ApiError ? error.message : "Could not send the invitation.");
+    }
+  });
+
+  const revokeInvitationMutation = useMutation({
+    mutationFn: (invitationId: string) =>
+      apiRequest(`/invitations/${invitationId}`, {
+        method: "DELETE",
+        accessToken: accessToken ?? undefined
+      }),
+    onSuccess: async () => {
+      ui.success("Invitation revoked.");
+      await queryClient.invalidateQueries({ queryKey: ["invitations"] });
+    },
+    onError: () => {
+      ui.error("Could not revoke the invitation.");
+    }
+  });
+
+  const handleInvite = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    // Only admins can invite people into the workspace without a project.
+    if (!isAdmin && !inviteProjectId) {
+      setInviteError("Pick a project you manage.");
+      return;
+    }
+    inviteMutation.mutate();
+  };
+
+  const resetMfaMutation = useMutation({
+    mutationFn: (userId: string) =>
+      apiRequest(`/users/${userId}/mfa/reset`, {
+        method: "POST",
+        accessToken: accessToken ?? undefined
+      }),
+    onSuccess: async () => {
+      ui.success("MFA reset. The user can set up a new authenticator at next sign-in.");
+      await queryClient.invalidateQueries({ queryKey: ["team-users"] });
+    },
+    onError: () => {
+      ui.error("Could not reset MFA.");
+    }
+  });
+
+  const handleResetMfa = async (target: { id: string; name: string }) => {
+    const shouldReset = await ui.confirm({
+      title: "Reset MFA",
+      message: `Remove ${target.name}'s authenticator and recovery codes? They will have to set MFA up again.`,
+      confirmLabel: "Reset"
+    });
+    if (shouldReset) {
+      resetMfaMutation.mutate(target.id);
+    }
+  };
+
   const toggleUserStatusMutation = useMutation({
     onMutate: async (input: { userId: string; isActive: boolean }) => {
       setProcessingUserUpdate({ userId: input.userId, nextIsActive: input.isActive });
@@ -86,6 +305,28 @@ export function TeamPage() {
         <h2>Team</h2>
         <div className="inline-actions">
           <p className="muted">{usersQuery.data?.meta.total ?? 0} users</p>
+          {isAdmin && mfaPolicyQuery.data ? (
+            <label className="inline-actions">
+              <input
+                type="checkbox"
+                checked={mfaPolicyQuery.data.data.required}
+                disabled={mfaPolicyMutation.isPending}
+                onChange={(event) => mfaPolicyMutation.mutate(event.target.checked)}
+              />
+              <span>Require MFA</span>
+            </label>
+          ) : null}
+          {isAdmin && signupPolicyQuery.data ? (
+            <label className="inline-actions">
+              <input
+                type="checkbox"
+                checked={signupPolicyQuery.data.data.inviteOnly}
+                disabled={signupPolicyMutation.isPending}
+                onChange={(event) => signupPolicyMutation.mutate(event.target.checked)}
+              />
+              <span>Invite only</span>
+            </label>
+          ) : null}
           {isAdmin ? (
             <Link to="/audit-logs" className="ghost-button">
               View audit logs
@@ -94,6 +335,120 @@ export function TeamPage() {
         </div>
       </div>
 
+      <form className="card task-create-form" onSubmit={handleInvite}>
+        <h3>Invite someone</h3>
+        <div className="task-form-grid">
+          <input
+            placeholder="Email"
+            type="email"
+            value={inviteEmail}
+            onChange={(event) => setInviteEmail(event.target.value)}
+            required
+          />
+          <select value={inviteProjectId} onChange={(event) => setInviteProjectId(event.target.value)}>
+            <option value="">{isAdmin ? "No project" : "Project"}</option>
+            {inviteProjectsQuery.data?.data.map((project) => (
+              <option key={project.id} value={project.id}>
+                {project.name}
+              </option>
+            ))}
+          </select>
+          <select
+            value={inviteRole}
+            onChange={(event) => setInviteRole(event.target.value)}
+            disabled={!inviteProjectId}
+          >
+            <option value="manager">Manager</option>
+            <option value="member">Member</option>
+            <option value="viewer">Viewer</option>
+          </select>
+          <button className="primary-button" type="submit" disabled={inviteMutation.isPending}>
+            {inviteMutation.isPending ? "Sending..." : "Send invite"}
+          </button>
+        </div>
+        {inviteError ? <p className="error-text">{inviteError}</p> : null}
+      </form>
+
+      {invitationsQuery.data?.data.length ? (
+        <div className="card table-wrap">
+          <h3>Pending invitations</h3>
+          <table>
+            <thead>
+              <tr>
+                <th>Email</th>
+                <th>Project</th>
+                <th>Role</th>
+                <th>Invited By</th>
+                <th>Expires</th>
+                <th>Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {invitationsQuery.data.data.map((invitation) => (
+                <tr key={invitation.id}>
+                  <td>{invitation.email}</td>
+                  <td>{invitation.project_name ?? "-"}</td>
+                  <td>{invitation.project_role ?? "-"}</td>
+                  <td>{invitation.invited_by_name ?? "-"}</td>
+                  <td>{new Date(invitation.expires_at).toLocaleString()}</td>
+                  <td>
+                    <button
+                      type="button"
+                      className="ghost-button"
+                      disabled={revokeInvitationMutation.isPending}
+                      onClick={() => revokeInvitationMutation.mutate(invitation.id)}
+                    >
+                      Revoke
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : null}
+
+      {isAdmin && apiTokensQuery.data?.data.length ? (
+        <div className="card table-wrap">
+          <h3>API tokens</h3>
+          <table>
+            <thead>
+              <tr>
+                <th>Owner</th>
+                <th>Name</th>
+                <th>Token</th>
+                <th>Scopes</th>
+                <th>Last Used</th>
+                <th>Expires</th>
+                <th>Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {apiTokensQuery.data.data.map((token) => (
+                <tr key={token.id}>
+                  <td>{token.user_name}</td>
+                  <td>{token.name}</td>
+                  <td>{token.token_prefix}…</td>
+                  <td>{token.scopes.join(", ")}</td>
+                  <td>{token.last_used_at ? new Date(token.last_used_at).toLocaleString() : "-"}</td>
+                  <td>{new Date(token.expires_at).toLocaleDateString()}</td>
+                  <td>
+                    <button
+                      type="button"
+                      className="ghost-button"
+                      disabled={revokeApiTokenMutation.isPending}
+                      onClick={() => revokeApiTokenMutation.mutate(token.id)}
+                    >
+                      Revoke
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : null}
+
       <div className="card table-wrap">
         {usersQuery.isLoading ? (
           <LoadingState message="Loading users..." />
@@ -109,6 +464,7 @@ export function TeamPage() {
                 <th>Email</th>
                 <th>Admin</th>
                 <th>Status</th>
+                <th>MFA</th>
                 <th>Last Login</th>
                 <th>Actions</th>
               </tr>
@@ -120,28 +476,41 @@ export function TeamPage() {
                   <td>{item.email}</td>
                   <td>{item.is_admin ? "yes" : "no"}</td>
                   <td>{item.is_active ? "active" : "inactive"}</td>
+                  <td>{item.mfa_enabled ? "on" : "off"}</td>
                   <td>{item.last_login_at ? new Date(item.last_login_at).toLocaleString() : "-"}</td>
                   <td>
                     {isAdmin ? (
-                      <button
-                        type="button"
-                        className="ghost-button"
-                        disabled={Boolean(processingUserUpdate)}
-                        onClick={() =>
-                          toggleUserStatusMutation.mutate({
-                            userId: item.id,
-                            isActive: !item.is_active
-                          })
-                        }
-                      >
-                        {processingUserUpdate?.userId === item.id
-                          ? processingUserUpdate.nextIsActive
-                            ? "Activating..."
-                            : "Deactivating..."
-                          : item.is_active
-                            ? "Deactivate"
-                            : "Activate"}
-                      </button>
+                      <div className="inline-actions">
+                        <button
+                          type="button"
+                          className="ghost-button"
+                          disabled={Boolean(processingUserUpdate)}
+                          onClick={() =>
+                            toggleUserStatusMutation.mutate({
+                              userId: item.id,
+                              isActive: !item.is_active
+                            })
+                          }
+                        >
+                          {processingUserUpdate?.userId === item.id
+                            ? processingUserUpdate.nextIsActive
+                              ? "Activating..."
+                              : "Deactivating..."
+                            : item.is_active
+                              ? "Deactivate"
+                              : "Activate"}
+                        </button>
+                        {item.mfa_enabled ? (
+                          <button
+                            type="button"
+                            className="ghost-button"
+                            disabled={resetMfaMutation.isPending}
+                            onClick={() => void handleResetMfa(item)}
+                          >
+                            Reset MFA
+                          </button>
+                        ) : null}
+                      </div>
                     ) : (
                       "-"
                     )}
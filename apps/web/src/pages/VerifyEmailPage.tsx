@@ -0,0 +1,56 @@
+import { useEffect, useRef, useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { apiRequest, ApiError } from "../lib/api";
+import { useAuth } from "../state/auth";
+
+type VerifyEmailResponse = {
+  data: {
+    email: string;
+    emailVerifiedAt: string;
+  };
+};
+
+export function VerifyEmailPage() {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get("token") ?? "";
+  const { isAuthenticated } = useAuth();
+  const [state, setState] = useState<
+    { status: "verifying" } | { status: "verified"; email: string } | { status: "failed"; message: string }
+  >(token ? { status: "verifying" } : { status: "failed", message: "This verification link is incomplete." });
+  // Tokens are single-use, so a second request (e.g. from StrictMode) would report a failure.
+  const requested = useRef(false);
+
+  useEffect(() => {
+    if (!token || requested.current) return;
+    requested.current = true;
+    apiRequest<VerifyEmailResponse>("/auth/verify-email", {
+      method: "POST",
+      body: { token }
+    })
+      .then((result) => setState({ status: "verified", email: result.data.email }))
+      .catch((err: unknown) =>
+        setState({
+          status: "failed",
+          message: err instanceof ApiError ? err.message : "Could not verify your email."
+        })
+      );
+  }, [token]);
+
+  return (
+    <div className="login-wrap">
+      <div className="card login-card">
+        <h1>Email verification</h1>
+        {state.status === "verifying" ? <p className="muted">Verifying...</p> : null}
+        {state.status === "verified" ? <p className="muted">Thanks, {state.email} is confirmed.</p> : null}
+        {state.status === "failed" ? (
+          <p className="error-text">
+            {state.message} You can send a new link from Settings.
+          </p>
+        ) : null}
+        <p className="muted">
+          {isAuthenticated ? <Link to="/dashboard">Continue</Link> : <Link to="/login">Sign in</Link>}
+        </p>
+      </div>
+    </div>
+  );
+}
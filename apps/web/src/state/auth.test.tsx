@@ -123,4 +123,28 @@ describe("AuthProvider", () => {
     expect(stored.refreshToken).toBe("refresh-signup");
     expect(stored.user?.email).toBe("new-user@adfix.local");
   });
+
+  it("keeps the session signed out when login asks for a second factor", async () => {
+    const user = userEvent.setup();
+    apiRequestMock.mockResolvedValueOnce({
+      status: "mfa_required",
+      challengeToken: "challenge-token",
+      expiresAt: "2030-01-01T00:00:00.000Z"
+    });
+
+    render(
+      <AuthProvider>
+        <TestHarness />
+      </AuthProvider>
+    );
+
+    await user.click(screen.getByRole("button", { name: "login" }));
+
+    await waitFor(() => {
+      expect(apiRequestMock).toHaveBeenCalledTimes(1);
+    });
+    expect(screen.getByTestId("is-authenticated")).toHaveTextContent("false");
+    expect(screen.getByTestId("user-email")).toHaveTextContent("");
+    expect(localStorage.getItem("adfix.auth.v1")).toBeNull();
+  });
 });
@@ -1,7 +1,7 @@
 import { createContext, useContext, useMemo, useState } from "react";
 import { apiRequest, setUnauthorizedHandler } from "../lib/api";
 import { useEffect } from "react";
-import type { AuthTokens, User } from "../types";
+import type { AuthTokens, MfaChallenge, User } from "../types";
 
 type AuthContextValue = {
   isAuthenticated: boolean;
@@ -9,8 +9,9 @@ type AuthContextValue = {
   user: User | null;
   accessToken: string | null;
   refreshToken: string | null;
-  login: (email: string, password: string) => Promise<void>;
-  signup: (input: { email: string; name: string; password: string }) => Promise<void>;
+  login: (email: string, password: string) => Promise<User | MfaChallenge>;
+  signup: (input: { email: string; name: string; password: string }) => Promise<MfaChallenge | null>;
+  completeLogin: (tokens: AuthTokens) => User;
   logout: () => Promise<void>;
   updateLocalUser: (input: Partial<User>) => void;
 };
@@ -62,11 +63,26 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     };
   }, []);
 
+  const completeLogin = (tokens: AuthTokens) => {
+    const next = {
+      accessToken: tokens.accessToken,
+      refreshToken: tokens.refreshToken,
+      user: tokens.user
+    };
+    setStoredAuth(next);
+    writeStoredAuth(next);
+    return tokens.user;
+  };
+
+  // With MFA on, the password step yields a challenge and no session; the login page finishes it.
   const login = async (email: string, password: string) => {
-    const result = await apiRequest<AuthTokens>("/auth/login", {
+    const result = await apiRequest<AuthTokens | MfaChallenge>("/auth/login", {
       method: "POST",
       body: { email, password }
     });
+    if ("challengeToken" in result) {
+      return result;
+    }
 
     const next = {
       accessToken: result.accessToken,
@@ -75,10 +91,11 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     };
     setStoredAuth(next);
     writeStoredAuth(next);
+    return result.user;
   };
 
   const signup = async (input: { email: string; name: string; password: string }) => {
-    const result = await apiRequest<AuthTokens>("/auth/signup", {
+    const result = await apiRequest<AuthTokens | MfaChallenge>("/auth/signup", {
       method: "POST",
       body: {
         email: input.email,
@@ -86,6 +103,9 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         password: input.password
       }
     });
+    if ("challengeToken" in result) {
+      return result;
+    }
 
     const next = {
       accessToken: result.accessToken,
@@ -94,6 +114,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     };
     setStoredAuth(next);
     writeStoredAuth(next);
+    return null;
   };
 
   const logout = async () => {
@@ -132,6 +153,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       refreshToken: storedAuth?.refreshToken ?? null,
       login,
       signup,
+      completeLogin,
       logout,
       updateLocalUser
     }),
@@ -3,6 +3,9 @@ export type User = {
   email: string;
   name: string;
   isAdmin: boolean;
+  // Absent on sessions stored before client portal accounts existed.
+  principalType?: "staff" | "client_user";
+  clientId?: string | null;
   avatarUrl?: string | null;
 };
 
@@ -11,3 +14,10 @@ export type AuthTokens = {
   refreshToken: string;
   user: User;
 };
+
+// Returned by login (and signup) instead of tokens while a second factor is still owed.
+export type MfaChallenge = {
+  status: "mfa_required" | "mfa_enrollment_required";
+  challengeToken: string;
+  expiresAt: string;
+};